@@ -28,6 +28,7 @@ import { useBookingNotifications } from './src/hooks/useBookingNotifications';
 import { useCRNotifications } from './src/hooks/useCRNotifications';
 import { useVehicleNotifications } from './src/hooks/useVehicleNotifications';
 import { useNetworkStatus } from './src/hooks/useNetworkStatus';
+import { useOfflineQueue } from './src/hooks/useOfflineQueue';
 import DashboardScreen from './src/screens/DashboardScreen';
 import BookingsScreen from './src/screens/BookingsScreen';
 import FleetScreen from './src/screens/FleetScreen';
@@ -35,10 +36,14 @@ import FinanceScreen from './src/screens/FinanceScreen';
 import LoginScreen from './src/screens/LoginScreen';
 import MoreScreen from './src/screens/MoreScreen';
 import NotificationsScreen from './src/screens/NotificationsScreen';
+import ReceivablesScreen from './src/screens/ReceivablesScreen';
+import VehicleProfitabilityScreen from './src/screens/VehicleProfitabilityScreen';
 import { SafariManagementScreen } from './src/screens/SafariManagementScreen';
 import { MarketingScreen } from './src/screens/MarketingScreen';
 import { initializeSDK } from './src/sdk-init';
 import { realtimeManager } from './src/lib/realtimeManager';
+import { offlineSync, startOfflineSync } from './src/lib/offlineSync';
+import { migrateStorageEncryption } from './src/lib/storageEncryption';
 import { suppressProductionLogs } from './src/lib/devLog';
 
 // Silence debug noise in production builds immediately
@@ -68,9 +73,18 @@ type TabScreenConfig = {
 // ─── Root ─────────────────────────────────────────────────────────────────────
 
 export default function App() {
+  // The offline queue and cache are read only once plaintext left by earlier
+  // versions has been encrypted; the migration never throws
+  const [storageReady, setStorageReady] = useState(false);
+
   useEffect(() => {
-    // Non-blocking — SDK init failure must never prevent the app from rendering
-    initializeSDK().catch((e) => console.error('SDK init failed:', e));
+    // Non-blocking — SDK init failure must never prevent the app from rendering.
+    migrateStorageEncryption()
+      .then(() => {
+        setStorageReady(true);
+        return initializeSDK();
+      })
+      .catch((e) => console.error('SDK init failed:', e));
   }, []);
 
   // Refresh all realtime subscribers when app returns to foreground
@@ -87,8 +101,10 @@ export default function App() {
   // Navigate to a screen from outside NavigationContainer (e.g. from banner)
   const handleBannerNavigate = useCallback((screen?: string) => {
     if (!navigationRef.isReady()) return;
-    if (screen === 'Bookings' || screen === 'Finance' || screen === 'Dashboard') {
+    if (screen === 'Bookings' || screen === 'Finance' || screen === 'Dashboard' || screen === 'Fleet' || screen === 'Safari') {
       navigationRef.navigate('MainTabs', { screen } as any);
+    } else if (screen === 'Receivables') {
+      navigationRef.navigate('Receivables' as never);
     } else if (screen === 'Messages') {
       navigationRef.navigate('Notifications', { initialTab: 'messages' } as never);
     } else {
@@ -103,7 +119,7 @@ export default function App() {
           <AppPreferencesProvider>
             {/* InAppNotificationProvider wraps everything so banners appear above all screens */}
             <InAppNotificationProvider onNavigate={handleBannerNavigate}>
-              <AppShell />
+              {storageReady ? <AppShell /> : <AppLoadingScreen />}
             </InAppNotificationProvider>
           </AppPreferencesProvider>
         </AuthProvider>
@@ -117,6 +133,14 @@ export default function App() {
 function AppShell() {
   const { theme } = useAppPreferences();
   const { isOnline } = useNetworkStatus();
+  const { pendingCount } = useOfflineQueue();
+
+  // Feed connectivity into the offline write queue — coming back online replays it
+  useEffect(() => {
+    startOfflineSync()
+      .then(() => offlineSync.setNetworkStatus(isOnline))
+      .catch((e) => console.error('Offline sync start failed:', e));
+  }, [isOnline]);
 
   return (
     // Root View picks up theme.colors.background — this cascades to every screen
@@ -126,7 +150,11 @@ function AppShell() {
       {/* Offline banner — shown below status bar, above all content */}
       {!isOnline && (
         <View style={shellStyles.offlineBanner}>
-          <Text style={shellStyles.offlineText}>⚡ No internet connection — data may be outdated</Text>
+          <Text style={shellStyles.offlineText}>
+            {pendingCount > 0
+              ? `⚡ Offline — ${pendingCount} change${pendingCount === 1 ? '' : 's'} will sync when you reconnect`
+              : '⚡ No internet connection — data may be outdated'}
+          </Text>
         </View>
       )}
       <AppNavigator />
@@ -253,8 +281,10 @@ function AppNavigator() {
       const data = response.notification.request.content.data as any;
       if (navigationRef.isReady()) {
         const target = data?.screen;
-        if (target === 'Bookings' || target === 'Finance' || target === 'Dashboard') {
+        if (target === 'Bookings' || target === 'Finance' || target === 'Dashboard' || target === 'Fleet' || target === 'Safari') {
           navigationRef.navigate('MainTabs', { screen: target } as any);
+        } else if (target === 'Receivables') {
+          navigationRef.navigate('Receivables' as never);
         } else if (data?.type === 'admin_message' || data?.initialTab === 'messages') {
           // Admin messages deep-link straight to the Messages tab in Notifications
           navigationRef.navigate('Notifications', { initialTab: 'messages' } as never);
@@ -350,6 +380,16 @@ function AppNavigator() {
           component={NotificationsScreen}
           options={{ title: t('common.notifications') }}
         />
+        <Stack.Screen
+          name="Receivables"
+          component={ReceivablesScreen}
+          options={{ title: 'Receivables' }}
+        />
+        <Stack.Screen
+          name="VehicleProfitability"
+          component={VehicleProfitabilityScreen}
+          options={{ title: 'Vehicle Profitability' }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
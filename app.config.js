@@ -62,6 +62,13 @@ export default {
             'Allow Jackal Adventures to use Face ID for quick and secure sign-in.',
         },
       ],
+      [
+        'expo-image-picker',
+        {
+          cameraPermission: 'Allow Jackal Adventures to use the camera to photograph receipts.',
+          photosPermission: 'Allow Jackal Adventures to attach receipt photos from your library.',
+        },
+      ],
       [
         'expo-notifications',
         {
@@ -6,6 +6,7 @@
 
 import type { Logger } from '../utils/Logger';
 import type { AuthService } from '../auth/AuthService';
+import type { StorageService } from '../storage/StorageService';
 
 export interface APIConfig {
   baseUrl?: string;
@@ -13,6 +14,7 @@ export interface APIConfig {
   retryAttempts?: number;
   logger: Logger;
   auth: AuthService;
+  storage?: StorageService; // persists ETag-validated GET responses
 }
 
 export interface APIRequest {
@@ -21,6 +23,15 @@ export interface APIRequest {
   headers?: Record<string, string>;
   body?: any;
   params?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-call options accepted by get/post/put/patch/delete
+ */
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal; // abort to cancel the request, e.g. when a screen unmounts
 }
 
 export interface APIResponse<T = any> {
@@ -34,6 +45,46 @@ export interface APIError {
   message: string;
   status?: number;
   data?: any;
+  retryable: boolean; // network, 5xx and 429 are worth retrying; other 4xx are not
+}
+
+/**
+ * Whether a failed request is worth retrying later.
+ * Network failures, timeouts, 5xx and 429 are retryable; other 4xx are permanent.
+ */
+export function isRetryableError(error: any): boolean {
+  if (typeof error?.retryable === 'boolean') {
+    return error.retryable;
+  }
+
+  const status = error?.status;
+  if (typeof status === 'number' && status > 0) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  // No HTTP status: the request never reached the server
+  return true;
+}
+
+/**
+ * Whether a request failed because its caller cancelled it
+ */
+export function isAbortError(error: any): boolean {
+  return error?.code === 'ABORTED' || error?.name === 'AbortError';
+}
+
+interface CachedResponse {
+  etag: string;
+  data: any;
+  status: number;
+  headers: Record<string, string>;
+}
+
+interface InflightRequest {
+  key: string;
+  promise: Promise<APIResponse>;
+  controller: AbortController;
+  waiters: number;
 }
 
 type RequestInterceptor = (config: APIRequest) => APIRequest | Promise<APIRequest>;
@@ -41,19 +92,23 @@ type ResponseInterceptor = (response: APIResponse) => APIResponse | Promise<APIR
 
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_RETRY_ATTEMPTS = 3;
+const CACHE_KEY_PREFIX = 'api_cache:';
 
 export class APIService {
   private logger: Logger;
   private auth: AuthService;
+  private storage: StorageService | null;
   private baseUrl: string;
   private timeout: number;
   private retryAttempts: number;
   private requestInterceptors: RequestInterceptor[] = [];
   private responseInterceptors: ResponseInterceptor[] = [];
+  private inflight: Map<string, InflightRequest> = new Map();
 
   constructor(config: APIConfig) {
     this.logger = config.logger;
     this.auth = config.auth;
+    this.storage = config.storage || null;
     this.baseUrl = config.baseUrl || '';
     this.timeout = config.timeout || DEFAULT_TIMEOUT;
     this.retryAttempts = config.retryAttempts || DEFAULT_RETRY_ATTEMPTS;
@@ -62,98 +117,238 @@ export class APIService {
   /**
    * Make a GET request
    */
-  public async get<T = any>(url: string, params?: Record<string, string>): Promise<APIResponse<T>> {
+  public async get<T = any>(
+    url: string,
+    params?: Record<string, string>,
+    options: RequestOptions = {}
+  ): Promise<APIResponse<T>> {
     return this.request<T>({
       method: 'GET',
       url,
       params,
+      ...options,
     });
   }
 
   /**
    * Make a POST request
    */
-  public async post<T = any>(url: string, body?: any): Promise<APIResponse<T>> {
+  public async post<T = any>(url: string, body?: any, options: RequestOptions = {}): Promise<APIResponse<T>> {
     return this.request<T>({
       method: 'POST',
       url,
       body,
+      ...options,
     });
   }
 
   /**
    * Make a PUT request
    */
-  public async put<T = any>(url: string, body?: any): Promise<APIResponse<T>> {
+  public async put<T = any>(url: string, body?: any, options: RequestOptions = {}): Promise<APIResponse<T>> {
     return this.request<T>({
       method: 'PUT',
       url,
       body,
+      ...options,
     });
   }
 
   /**
    * Make a PATCH request
    */
-  public async patch<T = any>(url: string, body?: any): Promise<APIResponse<T>> {
+  public async patch<T = any>(url: string, body?: any, options: RequestOptions = {}): Promise<APIResponse<T>> {
     return this.request<T>({
       method: 'PATCH',
       url,
       body,
+      ...options,
     });
   }
 
   /**
    * Make a DELETE request
    */
-  public async delete<T = any>(url: string): Promise<APIResponse<T>> {
+  public async delete<T = any>(url: string, options: RequestOptions = {}): Promise<APIResponse<T>> {
     return this.request<T>({
       method: 'DELETE',
       url,
+      ...options,
     });
   }
 
   /**
-   * Make an API request
+   * Make an API request. Concurrent GETs for the same URL share one network call.
    */
-  private async request<T = any>(config: APIRequest): Promise<APIResponse<T>> {
-    this.logger.info('[API] Request:', config.method, config.url);
+  private request<T = any>(config: APIRequest): Promise<APIResponse<T>> {
+    if (config.method !== 'GET') {
+      return this.send<T>(config);
+    }
+
+    const key = this.buildUrl(config.url, config.params);
+    let entry = this.inflight.get(key);
+
+    if (entry) {
+      this.logger.debug(`[API] Joining in-flight request: ${key}`);
+    } else {
+      const controller = new AbortController();
+      const promise = this.send({ ...config, signal: controller.signal });
+      const current: InflightRequest = { key, promise, controller, waiters: 0 };
+      const release = () => {
+        if (this.inflight.get(key) === current) {
+          this.inflight.delete(key);
+        }
+      };
+      promise.then(release, release);
+      this.inflight.set(key, current);
+      entry = current;
+    }
+
+    return this.attach<T>(entry, config.signal);
+  }
+
+  /**
+   * Wait for a shared request on behalf of one caller. The shared request is
+   * only aborted once every caller waiting on it has cancelled.
+   */
+  private attach<T>(entry: InflightRequest, signal?: AbortSignal): Promise<APIResponse<T>> {
+    entry.waiters++;
+
+    return new Promise<APIResponse<T>>((resolve, reject) => {
+      let settled = false;
+
+      const settle = (callback: () => void) => {
+        if (settled) return;
+        settled = true;
+        entry.waiters--;
+        signal?.removeEventListener('abort', onAbort);
+        callback();
+      };
+
+      const onAbort = () => {
+        settle(() => reject(this.createAbortError()));
+        if (entry.waiters === 0) {
+          if (this.inflight.get(entry.key) === entry) {
+            this.inflight.delete(entry.key);
+          }
+          entry.controller.abort();
+        }
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort);
+      entry.promise.then(
+        (response) => settle(() => resolve(response)),
+        (error) => settle(() => reject(error))
+      );
+    });
+  }
+
+  /**
+   * Send a request, retrying transient failures
+   */
+  private async send<T = any>(config: APIRequest): Promise<APIResponse<T>> {
+    this.logger.info(`[API] Request: ${config.method} ${config.url}`);
 
     let attempt = 0;
     let lastError: Error | null = null;
 
     while (attempt < this.retryAttempts) {
+      if (config.signal?.aborted) {
+        throw this.createAbortError();
+      }
+
       try {
-        // Apply request interceptors
-        let requestConfig = { ...config };
-        for (const interceptor of this.requestInterceptors) {
-          requestConfig = await interceptor(requestConfig);
+        return await this.sendOnce<T>(config);
+      } catch (error: any) {
+        lastError = error;
+        attempt++;
+
+        if (config.signal?.aborted) {
+          this.logger.debug(`[API] Request cancelled: ${config.url}`);
+          throw this.createAbortError();
         }
 
-        // Add authentication
-        requestConfig = await this.addAuthentication(requestConfig);
+        // Don't retry on client errors (4xx except 429)
+        if (!isRetryableError(error)) {
+          throw error;
+        }
 
-        // Build URL
-        const fullUrl = this.buildUrl(requestConfig.url, requestConfig.params);
+        if (attempt < this.retryAttempts) {
+          const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
+          this.logger.warn(`[API] Request failed, retrying in ${delay}ms`);
+          await this.sleep(delay);
+        }
+      }
+    }
 
-        // Set up fetch options
-        const options: RequestInit = {
-          method: requestConfig.method,
-          headers: {
-            'Content-Type': 'application/json',
-            ...requestConfig.headers,
-          },
-          signal: AbortSignal.timeout(this.timeout),
-        };
+    this.logger.error(`[API] Request failed after ${attempt} attempts`);
+    throw this.createNetworkError(lastError);
+  }
 
-        // Add body for POST, PUT, PATCH
-        if (requestConfig.body && ['POST', 'PUT', 'PATCH'].includes(requestConfig.method)) {
-          options.body = JSON.stringify(requestConfig.body);
-        }
+  /**
+   * Make a single attempt at a request
+   */
+  private async sendOnce<T = any>(config: APIRequest): Promise<APIResponse<T>> {
+    // Apply request interceptors
+    let requestConfig = { ...config };
+    for (const interceptor of this.requestInterceptors) {
+      requestConfig = await interceptor(requestConfig);
+    }
 
-        // Make request
-        const response = await fetch(fullUrl, options);
+    // Add authentication
+    requestConfig = await this.addAuthentication(requestConfig);
+
+    // Build URL
+    const fullUrl = this.buildUrl(requestConfig.url, requestConfig.params);
+
+    // Revalidate cached GET responses instead of downloading them again
+    const cached = requestConfig.method === 'GET' ? await this.readCache(fullUrl) : null;
+
+    // Cancel on timeout or when the caller aborts
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+    const onAbort = () => controller.abort();
+    requestConfig.signal?.addEventListener('abort', onAbort);
+
+    // Set up fetch options
+    const options: RequestInit = {
+      method: requestConfig.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(cached ? { 'If-None-Match': cached.etag } : {}),
+        ...requestConfig.headers,
+      },
+      signal: controller.signal,
+    };
 
+    // Add body for POST, PUT, PATCH
+    if (requestConfig.body && ['POST', 'PUT', 'PATCH'].includes(requestConfig.method)) {
+      options.body = JSON.stringify(requestConfig.body);
+    }
+
+    let apiResponse: APIResponse<T>;
+
+    try {
+      // Make request
+      const response = await fetch(fullUrl, options);
+
+      if (response.status === 304 && cached) {
+        this.logger.debug(`[API] Not modified: ${config.url}`);
+        apiResponse = {
+          data: cached.data,
+          status: cached.status,
+          headers: cached.headers,
+        };
+      } else {
         // Parse response
         let data: T;
         const contentType = response.headers.get('content-type');
@@ -169,44 +364,80 @@ export class APIService {
         }
 
         // Build response
-        let apiResponse: APIResponse<T> = {
+        apiResponse = {
           data,
           status: response.status,
           headers: this.extractHeaders(response.headers),
         };
 
-        // Apply response interceptors
-        for (const interceptor of this.responseInterceptors) {
-          apiResponse = await interceptor(apiResponse);
+        if (requestConfig.method === 'GET') {
+          await this.writeCache(fullUrl, apiResponse);
         }
+      }
+    } catch (error: any) {
+      if (timedOut) {
+        const timeoutError = new Error(`Request timed out after ${this.timeout}ms`);
+        timeoutError.name = 'TimeoutError';
+        throw timeoutError;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      requestConfig.signal?.removeEventListener('abort', onAbort);
+    }
 
-        this.logger.info('[API] Response:', response.status, config.url);
-        return apiResponse;
+    // Apply response interceptors
+    for (const interceptor of this.responseInterceptors) {
+      apiResponse = await interceptor(apiResponse);
+    }
 
-      } catch (error: any) {
-        lastError = error;
-        attempt++;
+    this.logger.info(`[API] Response: ${apiResponse.status} ${config.url}`);
+    return apiResponse;
+  }
 
-        // Don't retry on certain errors
-        if (error.code === 'UNAUTHORIZED' || error.code === 'FORBIDDEN') {
-          throw error;
-        }
+  /**
+   * Get the cached response for a URL, if it can be revalidated
+   */
+  private async readCache(url: string): Promise<CachedResponse | null> {
+    if (!this.storage) {
+      return null;
+    }
+    return this.storage.getObject<CachedResponse>(`${CACHE_KEY_PREFIX}${url}`);
+  }
 
-        // Don't retry on client errors (4xx except 429)
-        if (error.status && error.status >= 400 && error.status < 500 && error.status !== 429) {
-          throw error;
-        }
+  /**
+   * Cache a GET response that carries an ETag
+   */
+  private async writeCache(url: string, response: APIResponse): Promise<void> {
+    const etag = response.headers['etag'];
+    if (!this.storage || !etag) {
+      return;
+    }
 
-        if (attempt < this.retryAttempts) {
-          const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-          this.logger.warn('[API] Request failed, retrying in', delay, 'ms');
-          await this.sleep(delay);
-        }
-      }
+    try {
+      const entry: CachedResponse = {
+        etag,
+        data: response.data,
+        status: response.status,
+        headers: response.headers,
+      };
+      await this.storage.setObject(`${CACHE_KEY_PREFIX}${url}`, entry);
+    } catch (error) {
+      this.logger.warn(`[API] Failed to cache response: ${url}`);
+    }
+  }
+
+  /**
+   * Clear cached GET responses (e.g. on sign out)
+   */
+  public async clearCache(): Promise<void> {
+    if (!this.storage) {
+      return;
     }
 
-    this.logger.error('[API] Request failed after', attempt, 'attempts');
-    throw lastError || new Error('Request failed');
+    const keys = await this.storage.getAllKeys();
+    await this.storage.multiRemove(keys.filter((key) => key.startsWith(CACHE_KEY_PREFIX)));
+    this.logger.info('[API] Response cache cleared');
   }
 
   /**
@@ -290,6 +521,33 @@ export class APIService {
       message,
       status,
       data,
+      retryable: status === 408 || status === 429 || status >= 500,
+    };
+  }
+
+  /**
+   * Wrap a failure that never produced an HTTP response (offline, DNS, timeout)
+   */
+  private createNetworkError(error: any): APIError {
+    if (error && typeof error.retryable === 'boolean') {
+      return error;
+    }
+
+    return {
+      code: error?.name === 'TimeoutError' ? 'TIMEOUT' : 'NETWORK_ERROR',
+      message: error?.message || 'Request failed',
+      retryable: true,
+    };
+  }
+
+  /**
+   * Error returned to a caller that cancelled its request
+   */
+  private createAbortError(): APIError {
+    return {
+      code: 'ABORTED',
+      message: 'Request was cancelled',
+      retryable: false,
     };
   }
 
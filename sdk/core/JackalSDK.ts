@@ -9,6 +9,7 @@ import { PushNotificationService } from '../notifications/PushNotificationServic
 import { MessagingService } from '../messaging/MessagingService';
 import { RealtimeService } from '../realtime/RealtimeService';
 import { OfflineSyncService } from '../offline/OfflineSyncService';
+import type { ConflictStrategy, ConflictHandler } from '../offline/ConflictResolver';
 import { APIService } from '../api/APIService';
 import { StorageService } from '../storage/StorageService';
 import { Logger, LogLevel } from '../utils/Logger';
@@ -47,6 +48,16 @@ export interface JackalSDKConfig {
     enabled?: boolean;
     syncInterval?: number;
     maxQueueSize?: number;
+    defaultConflictStrategy?: ConflictStrategy;
+    conflictStrategies?: Record<string, ConflictStrategy | ConflictHandler>;
+    versionField?: string;
+  };
+
+  /**
+   * Storage Configuration
+   */
+  storage?: {
+    encrypted?: boolean;
   };
 
   /**
@@ -93,7 +104,7 @@ export class JackalSDK {
     this.logger.info('Initializing Jackal Adventures SDK');
 
     // Initialize storage
-    this.storage = new StorageService();
+    this.storage = new StorageService({ encrypted: config.storage?.encrypted });
 
     // Initialize network monitor
     this.network = new NetworkMonitor();
@@ -112,6 +123,7 @@ export class JackalSDK {
       retryAttempts: config.api?.retryAttempts,
       logger: this.logger,
       auth: this.auth,
+      storage: this.storage,
     });
 
     this.pushNotifications = new PushNotificationService({
@@ -139,6 +151,9 @@ export class JackalSDK {
       enabled: config.offline?.enabled !== false,
       syncInterval: config.offline?.syncInterval,
       maxQueueSize: config.offline?.maxQueueSize,
+      defaultConflictStrategy: config.offline?.defaultConflictStrategy,
+      conflictStrategies: config.offline?.conflictStrategies,
+      versionField: config.offline?.versionField,
       logger: this.logger,
       storage: this.storage,
       network: this.network,
@@ -4,18 +4,13 @@
 
 import type { APIService } from '../api/APIService';
 import type { Logger } from '../utils/Logger';
+import type { BookingRow, BookingStatus } from '../schema/tables';
+import { validateRow, validateRows } from '../schema/validators';
 
-export interface Booking {
-  id: string;
-  customer_name: string;
-  safari_date: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
-  total_amount: number;
-  created_at: string;
-}
+export type Booking = BookingRow;
 
 export interface BookingFilter {
-  status?: string;
+  status?: BookingStatus;
   startDate?: string;
   endDate?: string;
   limit?: number;
@@ -31,7 +26,7 @@ export class BookingsService {
     this.logger = logger;
   }
 
-  public async getBookings(filter?: BookingFilter): Promise<Booking[]> {
+  public async getBookings(filter?: BookingFilter, signal?: AbortSignal): Promise<Booking[]> {
     const params: Record<string, string> = {};
     if (filter?.status) params.status = filter.status;
     if (filter?.startDate) params.start_date = filter.startDate;
@@ -39,26 +34,34 @@ export class BookingsService {
     if (filter?.limit) params.limit = filter.limit.toString();
     if (filter?.offset) params.offset = filter.offset.toString();
 
-    const response = await this.api.get<Booking[]>('/bookings', params);
-    return response.data;
+    const response = await this.api.get<unknown>('/bookings', params, { signal });
+    return validateRows('bookings', response.data, this.logger);
   }
 
-  public async getBooking(id: string): Promise<Booking> {
-    const response = await this.api.get<Booking>(`/bookings/${id}`);
-    return response.data;
+  public async getBooking(id: string, signal?: AbortSignal): Promise<Booking> {
+    const response = await this.api.get<unknown>(`/bookings/${id}`, undefined, { signal });
+    return this.expectRow(response.data);
   }
 
   public async createBooking(data: Partial<Booking>): Promise<Booking> {
-    const response = await this.api.post<Booking>('/bookings', data);
-    return response.data;
+    const response = await this.api.post<unknown>('/bookings', data);
+    return this.expectRow(response.data);
   }
 
   public async updateBooking(id: string, data: Partial<Booking>): Promise<Booking> {
-    const response = await this.api.patch<Booking>(`/bookings/${id}`, data);
-    return response.data;
+    const response = await this.api.patch<unknown>(`/bookings/${id}`, data);
+    return this.expectRow(response.data);
   }
 
   public async deleteBooking(id: string): Promise<void> {
     await this.api.delete(`/bookings/${id}`);
   }
+
+  private expectRow(data: unknown): Booking {
+    const booking = validateRow('bookings', data, this.logger);
+    if (!booking) {
+      throw new Error('Invalid booking returned by the server');
+    }
+    return booking;
+  }
 }
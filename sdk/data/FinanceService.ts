@@ -4,16 +4,10 @@
 
 import type { APIService } from '../api/APIService';
 import type { Logger } from '../utils/Logger';
+import type { FinancialTransactionRow } from '../schema/tables';
+import { validateRow, validateRows } from '../schema/validators';
 
-export interface Transaction {
-  id: string;
-  booking_id: string;
-  amount: number;
-  currency: string;
-  type: 'payment' | 'refund' | 'expense';
-  status: 'pending' | 'completed' | 'failed';
-  created_at: string;
-}
+export type Transaction = FinancialTransactionRow;
 
 export interface FinancialSummary {
   total_revenue: number;
@@ -31,25 +25,32 @@ export class FinanceService {
     this.logger = logger;
   }
 
-  public async getTransactions(filter?: { startDate?: string; endDate?: string }): Promise<Transaction[]> {
+  public async getTransactions(
+    filter?: { startDate?: string; endDate?: string },
+    signal?: AbortSignal
+  ): Promise<Transaction[]> {
     const params: Record<string, string> = {};
     if (filter?.startDate) params.start_date = filter.startDate;
     if (filter?.endDate) params.end_date = filter.endDate;
 
-    const response = await this.api.get<Transaction[]>('/finance/transactions', params);
-    return response.data;
+    const response = await this.api.get<unknown>('/finance/transactions', params, { signal });
+    return validateRows('financial_transactions', response.data, this.logger);
   }
 
-  public async getFinancialSummary(year: number, month?: number): Promise<FinancialSummary> {
+  public async getFinancialSummary(year: number, month?: number, signal?: AbortSignal): Promise<FinancialSummary> {
     const params: Record<string, string> = { year: year.toString() };
     if (month) params.month = month.toString();
 
-    const response = await this.api.get<FinancialSummary>('/finance/summary', params);
+    const response = await this.api.get<FinancialSummary>('/finance/summary', params, { signal });
     return response.data;
   }
 
   public async createTransaction(data: Partial<Transaction>): Promise<Transaction> {
-    const response = await this.api.post<Transaction>('/finance/transactions', data);
-    return response.data;
+    const response = await this.api.post<unknown>('/finance/transactions', data);
+    const transaction = validateRow('financial_transactions', response.data, this.logger);
+    if (!transaction) {
+      throw new Error('Invalid transaction returned by the server');
+    }
+    return transaction;
   }
 }
@@ -4,22 +4,12 @@
 
 import type { APIService } from '../api/APIService';
 import type { Logger } from '../utils/Logger';
+import type { VehicleRow, VehicleStatus } from '../schema/tables';
+import { validateRow, validateRows } from '../schema/validators';
 
-export interface Vehicle {
-  id: string;
-  registration_number: string;
-  make: string;
-  model: string;
-  status: 'available' | 'in_use' | 'maintenance' | 'retired';
-  capacity: number;
-}
+export type Vehicle = VehicleRow;
 
-export interface FleetStatus {
-  total: number;
-  available: number;
-  in_use: number;
-  maintenance: number;
-}
+export type FleetStatus = { total: number } & Record<VehicleStatus, number>;
 
 export class FleetService {
   private api: APIService;
@@ -30,23 +20,31 @@ export class FleetService {
     this.logger = logger;
   }
 
-  public async getVehicles(): Promise<Vehicle[]> {
-    const response = await this.api.get<Vehicle[]>('/fleet');
-    return response.data;
+  public async getVehicles(signal?: AbortSignal): Promise<Vehicle[]> {
+    const response = await this.api.get<unknown>('/fleet', undefined, { signal });
+    return validateRows('vehicles', response.data, this.logger);
   }
 
-  public async getVehicle(id: string): Promise<Vehicle> {
-    const response = await this.api.get<Vehicle>(`/fleet/${id}`);
-    return response.data;
+  public async getVehicle(id: string, signal?: AbortSignal): Promise<Vehicle> {
+    const response = await this.api.get<unknown>(`/fleet/${id}`, undefined, { signal });
+    return this.expectRow(response.data);
   }
 
-  public async getFleetStatus(): Promise<FleetStatus> {
-    const response = await this.api.get<FleetStatus>('/fleet/status');
+  public async getFleetStatus(signal?: AbortSignal): Promise<FleetStatus> {
+    const response = await this.api.get<FleetStatus>('/fleet/status', undefined, { signal });
     return response.data;
   }
 
   public async updateVehicle(id: string, data: Partial<Vehicle>): Promise<Vehicle> {
-    const response = await this.api.patch<Vehicle>(`/fleet/${id}`, data);
-    return response.data;
+    const response = await this.api.patch<unknown>(`/fleet/${id}`, data);
+    return this.expectRow(response.data);
+  }
+
+  private expectRow(data: unknown): Vehicle {
+    const vehicle = validateRow('vehicles', data, this.logger);
+    if (!vehicle) {
+      throw new Error('Invalid vehicle returned by the server');
+    }
+    return vehicle;
   }
 }
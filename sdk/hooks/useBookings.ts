@@ -2,8 +2,9 @@
  * useBookings Hook
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { JackalSDK } from '../core/JackalSDK';
+import { isAbortError } from '../api/APIService';
 import { BookingsService } from '../data/BookingsService';
 import type { Booking, BookingFilter } from '../data/BookingsService';
 
@@ -14,23 +15,31 @@ export function useBookings(filter?: BookingFilter) {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const fetchBookings = useCallback(async () => {
+    // Cancel the request for the previous filter
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      const data = await bookingsService.getBookings(filter);
+      const data = await bookingsService.getBookings(filter, controller.signal);
       setBookings(data);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err as Error);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [filter]);
 
   useEffect(() => {
     fetchBookings();
+    return () => requestRef.current?.abort();
   }, [fetchBookings]);
 
   const createBooking = useCallback(async (data: Partial<Booking>) => {
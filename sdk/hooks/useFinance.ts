@@ -2,8 +2,9 @@
  * useFinance Hook
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { JackalSDK } from '../core/JackalSDK';
+import { isAbortError } from '../api/APIService';
 import { FinanceService } from '../data/FinanceService';
 import type { Transaction, FinancialSummary } from '../data/FinanceService';
 
@@ -15,28 +16,36 @@ export function useFinance(year: number, month?: number) {
   const [summary, setSummary] = useState<FinancialSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const fetchFinanceData = useCallback(async () => {
+    // Cancel the request for the previous period
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
       const [transactionsData, summaryData] = await Promise.all([
-        financeService.getTransactions(),
-        financeService.getFinancialSummary(year, month),
+        financeService.getTransactions(undefined, controller.signal),
+        financeService.getFinancialSummary(year, month, controller.signal),
       ]);
 
       setTransactions(transactionsData);
       setSummary(summaryData);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err as Error);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [year, month]);
 
   useEffect(() => {
     fetchFinanceData();
+    return () => requestRef.current?.abort();
   }, [fetchFinanceData]);
 
   const createTransaction = useCallback(async (data: Partial<Transaction>) => {
@@ -2,8 +2,9 @@
  * useFleet Hook
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { JackalSDK } from '../core/JackalSDK';
+import { isAbortError } from '../api/APIService';
 import { FleetService } from '../data/FleetService';
 import type { Vehicle, FleetStatus } from '../data/FleetService';
 
@@ -15,28 +16,36 @@ export function useFleet() {
   const [status, setStatus] = useState<FleetStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const fetchFleet = useCallback(async () => {
+    // Cancel any refresh still in flight
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
       const [vehiclesData, statusData] = await Promise.all([
-        fleetService.getVehicles(),
-        fleetService.getFleetStatus(),
+        fleetService.getVehicles(controller.signal),
+        fleetService.getFleetStatus(controller.signal),
       ]);
 
       setVehicles(vehiclesData);
       setStatus(statusData);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err as Error);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, []);
 
   useEffect(() => {
     fetchFleet();
+    return () => requestRef.current?.abort();
   }, [fetchFleet]);
 
   const updateVehicle = useCallback(async (id: string, data: Partial<Vehicle>) => {
@@ -4,43 +4,102 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { JackalSDK } from '../core/JackalSDK';
-import type { SyncStatus } from '../offline/OfflineSyncService';
+import type { SyncStatus, SyncOperation, SyncOperationOptions } from '../offline/OfflineSyncService';
+import type { SyncStep } from '../offline/SyncGroup';
+import type { ConflictResolution, SyncConflict } from '../offline/ConflictResolver';
 
 export function useOfflineSync() {
   const sdk = JackalSDK.getInstance();
   const [status, setStatus] = useState<SyncStatus>(sdk.offlineSync.getStatus());
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(sdk.offlineSync.getConflicts());
+  const [deadLetters, setDeadLetters] = useState<SyncOperation[]>(sdk.offlineSync.getDeadLetters());
+
+  const refresh = useCallback(() => {
+    setStatus(sdk.offlineSync.getStatus());
+    setConflicts(sdk.offlineSync.getConflicts());
+    setDeadLetters(sdk.offlineSync.getDeadLetters());
+  }, []);
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      setStatus(sdk.offlineSync.getStatus());
-    }, 1000);
+    const unsubscribe = sdk.offlineSync.addListener(refresh);
+    refresh();
 
-    return () => clearInterval(interval);
-  }, []);
+    return unsubscribe;
+  }, [refresh]);
 
   const syncNow = useCallback(async () => {
     await sdk.offlineSync.syncNow();
-    setStatus(sdk.offlineSync.getStatus());
-  }, []);
+    refresh();
+  }, [refresh]);
 
-  const addOperation = useCallback(async (type: 'CREATE' | 'UPDATE' | 'DELETE', resource: string, data: any) => {
-    await sdk.offlineSync.addOperation(type, resource, data);
-    setStatus(sdk.offlineSync.getStatus());
-  }, []);
+  const addOperation = useCallback(async (
+    type: 'CREATE' | 'UPDATE' | 'DELETE',
+    resource: string,
+    data: any,
+    options?: SyncOperationOptions
+  ) => {
+    const operation = await sdk.offlineSync.addOperation(type, resource, data, options);
+    refresh();
+    return operation;
+  }, [refresh]);
+
+  const addGroup = useCallback(async (steps: SyncStep[]) => {
+    const operations = await sdk.offlineSync.addGroup(steps);
+    refresh();
+    return operations;
+  }, [refresh]);
 
   const retryFailed = useCallback(async () => {
     await sdk.offlineSync.retryFailedOperations();
-    setStatus(sdk.offlineSync.getStatus());
-  }, []);
+    refresh();
+  }, [refresh]);
+
+  const resolveConflict = useCallback(async (
+    operationId: string,
+    resolution: Exclude<ConflictResolution, { action: 'manual' }>
+  ) => {
+    await sdk.offlineSync.resolveConflict(operationId, resolution);
+    refresh();
+  }, [refresh]);
+
+  const discardOperation = useCallback(async (operationId: string) => {
+    await sdk.offlineSync.discardOperation(operationId);
+    refresh();
+  }, [refresh]);
+
+  const updateDeadLetter = useCallback(async (operationId: string, data: any) => {
+    await sdk.offlineSync.updateDeadLetter(operationId, data);
+    refresh();
+  }, [refresh]);
+
+  const retryDeadLetter = useCallback(async (operationId: string) => {
+    await sdk.offlineSync.retryDeadLetter(operationId);
+    refresh();
+  }, [refresh]);
+
+  const discardDeadLetter = useCallback(async (operationId: string) => {
+    await sdk.offlineSync.discardDeadLetter(operationId);
+    refresh();
+  }, [refresh]);
 
   return {
     status,
+    conflicts,
+    deadLetters,
     syncNow,
     addOperation,
+    addGroup,
     retryFailed,
+    resolveConflict,
+    discardOperation,
+    updateDeadLetter,
+    retryDeadLetter,
+    discardDeadLetter,
     isOnline: status.isOnline,
     isSyncing: status.isSyncing,
     pendingOperations: status.pendingOperations,
     failedOperations: status.failedOperations,
+    conflictedOperations: status.conflictedOperations,
+    deadLetterOperations: status.deadLetterOperations,
   };
 }
@@ -55,13 +55,35 @@ export {
   type SyncConfig,
   type SyncQueue,
   type SyncOperation,
+  type SyncOperationOptions,
+  type SyncEvent,
 } from './offline/OfflineSyncService';
 
+export { APISyncExecutor, type SyncExecutor } from './offline/SyncExecutor';
+
+export {
+  placeholder,
+  type SyncStep,
+  type SyncPlaceholder,
+  type SyncCompensation,
+} from './offline/SyncGroup';
+
+export {
+  ConflictResolver,
+  type ConflictStrategy,
+  type ConflictHandler,
+  type ConflictResolution,
+  type SyncConflict,
+} from './offline/ConflictResolver';
+
 // API Services
 export {
   APIService,
+  isRetryableError,
+  isAbortError,
   type APIConfig,
   type APIRequest,
+  type RequestOptions,
   type APIResponse,
   type APIError,
 } from './api/APIService';
@@ -91,13 +113,86 @@ export {
   type FinancialSummary,
 } from './data/FinanceService';
 
+// Schema
+export {
+  CURRENCIES,
+  BOOKING_STATUSES,
+  VEHICLE_STATUSES,
+  CR_STATUSES,
+  CR_STEP_STATUSES,
+  CR_URGENCIES,
+  TRANSACTION_TYPES,
+  REPAIR_STATUSES,
+  REPAIR_PRIORITIES,
+  SAFARI_BOOKING_STATUSES,
+  AUDIT_ACTIONS,
+  DOCUMENT_TYPES,
+  ATTACHMENT_KINDS,
+  BUDGET_PERIODS,
+  type Currency,
+  type BookingStatus,
+  type VehicleStatus,
+  type CRStatus,
+  type CRStepStatus,
+  type CRUrgency,
+  type TransactionType,
+  type RepairStatus,
+  type RepairPriority,
+  type SafariBookingStatus,
+  type AuditAction,
+  type DocumentType,
+  type AttachmentKind,
+  type BudgetPeriod,
+  type VendorVehicleDetails,
+  type BookingRow,
+  type VehicleRow,
+  type RepairRow,
+  type ServicePlanRow,
+  type ComplianceDocumentRow,
+  type FuelLogRow,
+  type TripLogRow,
+  type FinancialTransactionRow,
+  type FinanceAttachmentRow,
+  type FinanceBudgetRow,
+  type CashRequisitionRow,
+  type CRApprovalRuleStep,
+  type CRApprovalRuleRow,
+  type CRApprovalStepRow,
+  type ApprovalDelegationRow,
+  type SafariBookingRow,
+  type SafariBookingPermitRow,
+  type BookingPaymentRow,
+  type ReceivableInstallmentRow,
+  type ReceivablesSettingsRow,
+  type ClientRow,
+  type ProfileRow,
+  type AuditFieldChange,
+  type AuditLogRow,
+  type Tables,
+  type TableName,
+} from './schema/tables';
+export {
+  repairRow,
+  validateRow,
+  validateRows,
+  type SchemaLogger,
+} from './schema/validators';
+
 // Storage
 export {
   StorageService,
+  utf8ByteLength,
   type StorageConfig,
   type StorageItem,
 } from './storage/StorageService';
 
+export {
+  StorageCipher,
+  reencryptEntries,
+  rotateStorageKey,
+  type StorageCipherConfig,
+} from './storage/StorageCipher';
+
 // Utilities
 export {
   Logger,
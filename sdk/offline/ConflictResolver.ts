@@ -0,0 +1,212 @@
+/**
+ * Conflict Resolver
+ *
+ * Detects and resolves conflicts between queued offline operations and the
+ * current server copy of a record, using per-resource strategies
+ */
+
+import type { Logger } from '../utils/Logger';
+
+export type ConflictStrategy = 'server-wins' | 'client-wins' | 'merge' | 'manual';
+
+export interface SyncConflict {
+  operationId: string;
+  resource: string;
+  recordId: string;
+  type: 'UPDATE' | 'DELETE';
+  baseVersion?: string;
+  serverVersion?: string;
+  baseData?: any;
+  clientData: any;
+  serverData: any | null; // null when the record was deleted on the server
+  conflictingFields: string[];
+  detectedAt: Date;
+}
+
+export type ConflictResolution =
+  | { action: 'use-server' }
+  | { action: 'use-client' }
+  | { action: 'merge'; data: any }
+  | { action: 'manual' };
+
+export type ConflictHandler = (
+  conflict: SyncConflict
+) => ConflictResolution | Promise<ConflictResolution>;
+
+export interface ConflictResolverConfig {
+  defaultStrategy?: ConflictStrategy;
+  strategies?: Record<string, ConflictStrategy | ConflictHandler>;
+  versionField?: string;
+  logger: Logger;
+}
+
+const DEFAULT_STRATEGY: ConflictStrategy = 'manual';
+const DEFAULT_VERSION_FIELD = 'updated_at';
+
+// Fields that are maintained by the server and never compared or merged
+const SYSTEM_FIELDS = ['id', 'created_at', 'updated_at'];
+
+export class ConflictResolver {
+  private logger: Logger;
+  private defaultStrategy: ConflictStrategy;
+  private versionField: string;
+  private strategies: Map<string, ConflictStrategy | ConflictHandler> = new Map();
+
+  constructor(config: ConflictResolverConfig) {
+    this.logger = config.logger;
+    this.defaultStrategy = config.defaultStrategy || DEFAULT_STRATEGY;
+    this.versionField = config.versionField || DEFAULT_VERSION_FIELD;
+
+    Object.entries(config.strategies || {}).forEach(([resource, strategy]) => {
+      this.strategies.set(resource, strategy);
+    });
+  }
+
+  /**
+   * Register a strategy (or custom handler) for a resource
+   */
+  public setStrategy(resource: string, strategy: ConflictStrategy | ConflictHandler): void {
+    this.strategies.set(resource, strategy);
+  }
+
+  /**
+   * Get the strategy registered for a resource
+   */
+  public getStrategy(resource: string): ConflictStrategy | ConflictHandler {
+    return this.strategies.get(resource) || this.defaultStrategy;
+  }
+
+  /**
+   * Field used to compare record versions (e.g. updated_at)
+   */
+  public getVersionField(): string {
+    return this.versionField;
+  }
+
+  /**
+   * Read the version stamp from a record
+   */
+  public getVersion(record: any): string | undefined {
+    const value = record?.[this.versionField];
+    return value !== undefined && value !== null ? String(value) : undefined;
+  }
+
+  /**
+   * Check whether the server copy changed since the client's base version
+   */
+  public hasServerChanged(baseVersion: string | undefined, serverData: any | null): boolean {
+    if (serverData === null) return true;
+    if (!baseVersion) return false;
+
+    const serverVersion = this.getVersion(serverData);
+    if (!serverVersion) return false;
+
+    const baseTime = Date.parse(baseVersion);
+    const serverTime = Date.parse(serverVersion);
+    if (!isNaN(baseTime) && !isNaN(serverTime)) {
+      return serverTime > baseTime;
+    }
+
+    return serverVersion !== baseVersion;
+  }
+
+  /**
+   * Fields changed on both sides to different values since the base snapshot
+   */
+  public findConflictingFields(baseData: any, clientData: any, serverData: any | null): string[] {
+    if (!serverData) return [];
+
+    return Object.keys(clientData || {}).filter((field) => {
+      if (SYSTEM_FIELDS.includes(field)) return false;
+
+      const clientValue = clientData[field];
+      const serverValue = serverData[field];
+
+      if (this.isEqual(clientValue, serverValue)) return false;
+
+      // Without a base snapshot every differing field is a conflict
+      if (!baseData) return true;
+
+      const baseValue = baseData[field];
+      const clientChanged = !this.isEqual(clientValue, baseValue);
+      const serverChanged = !this.isEqual(serverValue, baseValue);
+
+      return clientChanged && serverChanged;
+    });
+  }
+
+  /**
+   * Resolve a conflict using the resource's strategy
+   */
+  public async resolve(conflict: SyncConflict): Promise<ConflictResolution> {
+    const strategy = this.getStrategy(conflict.resource);
+
+    if (typeof strategy === 'function') {
+      try {
+        return await strategy(conflict);
+      } catch (error) {
+        this.logger.error('[ConflictResolver] Custom handler failed, parking for review', error);
+        return { action: 'manual' };
+      }
+    }
+
+    switch (strategy) {
+      case 'server-wins':
+        return { action: 'use-server' };
+
+      case 'client-wins':
+        return { action: 'use-client' };
+
+      case 'merge':
+        return this.merge(conflict);
+
+      case 'manual':
+      default:
+        return { action: 'manual' };
+    }
+  }
+
+  /**
+   * Field-level merge: apply only the fields the client changed, as long as
+   * the server did not change the same fields to something else
+   */
+  private merge(conflict: SyncConflict): ConflictResolution {
+    // Deletes and records removed on the server cannot be merged
+    if (conflict.type === 'DELETE' || conflict.serverData === null) {
+      return { action: 'manual' };
+    }
+
+    if (conflict.conflictingFields.length > 0) {
+      this.logger.info('[ConflictResolver] Overlapping field edits, parking for review', {
+        resource: conflict.resource,
+        fields: conflict.conflictingFields,
+      });
+      return { action: 'manual' };
+    }
+
+    const merged: Record<string, any> = { id: conflict.recordId };
+    Object.keys(conflict.clientData || {}).forEach((field) => {
+      if (SYSTEM_FIELDS.includes(field)) return;
+
+      const clientValue = conflict.clientData[field];
+      const clientChanged = !conflict.baseData || !this.isEqual(clientValue, conflict.baseData[field]);
+      if (clientChanged) {
+        merged[field] = clientValue;
+      }
+    });
+
+    return { action: 'merge', data: merged };
+  }
+
+  /**
+   * Structural equality for JSON-compatible values
+   */
+  private isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === null || b === null || a === undefined || b === undefined) return false;
+    if (typeof a === 'object' || typeof b === 'object') {
+      return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return String(a) === String(b);
+  }
+}
@@ -7,16 +7,33 @@
 import type { Logger } from '../utils/Logger';
 import type { StorageService } from '../storage/StorageService';
 import type { NetworkMonitor } from '../utils/NetworkMonitor';
-import type { APIService } from '../api/APIService';
+import { isRetryableError, type APIService } from '../api/APIService';
+import { APISyncExecutor, type SyncExecutor } from './SyncExecutor';
+import { resolvePlaceholders, type SyncCompensation, type SyncStep } from './SyncGroup';
+import {
+  ConflictResolver,
+  type ConflictStrategy,
+  type ConflictHandler,
+  type ConflictResolution,
+  type SyncConflict,
+} from './ConflictResolver';
 
 export interface SyncConfig {
   enabled?: boolean;
   syncInterval?: number; // milliseconds
   maxQueueSize?: number;
+  maxRetries?: number;
+  retryBaseDelay?: number; // milliseconds, doubled after every failed attempt
+  retryMaxDelay?: number; // milliseconds
+  isRetryable?: (error: any) => boolean; // defaults to APIService error classification
+  defaultConflictStrategy?: ConflictStrategy;
+  conflictStrategies?: Record<string, ConflictStrategy | ConflictHandler>;
+  versionField?: string; // e.g. 'updated_at'
   logger: Logger;
   storage: StorageService;
-  network: NetworkMonitor;
-  api: APIService;
+  network?: NetworkMonitor; // omit to report connectivity via setNetworkStatus()
+  api?: APIService;
+  executor?: SyncExecutor; // defaults to replaying over the REST API
 }
 
 export interface SyncStatus {
@@ -24,22 +41,52 @@ export interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: Date | null;
   pendingOperations: number;
-  failedOperations: number;
+  failedOperations: number; // waiting to be retried
   successfulOperations: number;
+  conflictedOperations: number;
+  deadLetterOperations: number;
 }
 
 export interface SyncOperation {
   id: string;
-  type: 'CREATE' | 'UPDATE' | 'DELETE';
-  resource: string; // e.g., 'bookings', 'fleet', 'transactions'
+  type: 'CREATE' | 'UPDATE' | 'DELETE' | 'RPC';
+  resource: string; // e.g., 'bookings', 'fleet', 'transactions' (function name for RPC)
   data: any;
   timestamp: Date;
   retryCount: number;
   maxRetries: number;
-  status: 'pending' | 'syncing' | 'completed' | 'failed';
+  status: 'pending' | 'syncing' | 'completed' | 'failed' | 'conflict' | 'dead';
   error?: string;
+  nextRetryAt?: number; // epoch ms, set while backing off after a failure
+  deadLetteredAt?: Date;
+  deadLetterReason?: 'permanent' | 'exhausted';
+  baseVersion?: string; // version of the record the client edited
+  baseData?: any; // snapshot of the record the client edited
+  conflict?: SyncConflict;
+  label?: string; // human readable description for review screens
+  meta?: Record<string, any>;
+  result?: any; // row returned by the server once synced
+  groupId?: string; // steps of a group are replayed in order, all-or-nothing
+  step?: number;
+  ref?: string;
+  compensate?: SyncCompensation | null;
+  undo?: SyncCompensation; // how to roll this step back while its group is in flight
 }
 
+export interface SyncOperationOptions {
+  baseVersion?: string;
+  baseData?: any;
+  label?: string;
+  meta?: Record<string, any>;
+}
+
+export type SyncEvent =
+  | { type: 'changed'; status: SyncStatus }
+  | { type: 'completed'; operation: SyncOperation }
+  | { type: 'dead-lettered'; operations: SyncOperation[] };
+
+type SyncListener = (event: SyncEvent) => void;
+
 export interface SyncQueue {
   operations: SyncOperation[];
   addedAt: Date;
@@ -48,22 +95,34 @@ export interface SyncQueue {
 
 const STORAGE_KEY_QUEUE = '@jackal_sync_queue';
 const STORAGE_KEY_STATUS = '@jackal_sync_status';
+const STORAGE_KEY_DEAD_LETTER = '@jackal_sync_dead_letter';
 const DEFAULT_SYNC_INTERVAL = 30000; // 30 seconds
 const DEFAULT_MAX_QUEUE_SIZE = 1000;
-const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_RETRY_BASE_DELAY = 2000; // 2 seconds
+const DEFAULT_RETRY_MAX_DELAY = 300000; // 5 minutes
 
 export class OfflineSyncService {
   private logger: Logger;
   private storage: StorageService;
-  private network: NetworkMonitor;
-  private api: APIService;
+  private network: NetworkMonitor | null;
+  private executor: SyncExecutor;
+  private conflictResolver: ConflictResolver;
+  private listeners: SyncListener[] = [];
+  private unsubscribeNetwork: (() => void) | null = null;
 
   private enabled: boolean;
   private syncInterval: number;
   private maxQueueSize: number;
-  private syncTimer: NodeJS.Timeout | null = null;
+  private maxRetries: number;
+  private retryBaseDelay: number;
+  private retryMaxDelay: number;
+  private isRetryable: (error: any) => boolean;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
 
   private queue: SyncOperation[] = [];
+  private deadLetters: SyncOperation[] = [];
   private status: SyncStatus = {
     isOnline: true,
     isSyncing: false,
@@ -71,17 +130,37 @@ export class OfflineSyncService {
     pendingOperations: 0,
     failedOperations: 0,
     successfulOperations: 0,
+    conflictedOperations: 0,
+    deadLetterOperations: 0,
   };
 
   constructor(config: SyncConfig) {
     this.logger = config.logger;
     this.storage = config.storage;
-    this.network = config.network;
-    this.api = config.api;
+    this.network = config.network || null;
+
+    if (config.executor) {
+      this.executor = config.executor;
+    } else if (config.api) {
+      this.executor = new APISyncExecutor(config.api);
+    } else {
+      throw new Error('OfflineSyncService requires an api or executor');
+    }
 
     this.enabled = config.enabled !== false;
     this.syncInterval = config.syncInterval || DEFAULT_SYNC_INTERVAL;
     this.maxQueueSize = config.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE;
+    this.maxRetries = config.maxRetries || DEFAULT_MAX_RETRIES;
+    this.retryBaseDelay = config.retryBaseDelay || DEFAULT_RETRY_BASE_DELAY;
+    this.retryMaxDelay = config.retryMaxDelay || DEFAULT_RETRY_MAX_DELAY;
+    this.isRetryable = config.isRetryable || isRetryableError;
+
+    this.conflictResolver = new ConflictResolver({
+      defaultStrategy: config.defaultConflictStrategy,
+      strategies: config.conflictStrategies,
+      versionField: config.versionField,
+      logger: this.logger,
+    });
   }
 
   /**
@@ -96,23 +175,20 @@ export class OfflineSyncService {
     this.logger.info('[OfflineSync] Starting service');
 
     try {
-      // Load queue from storage
+      // Load queue and dead letters from storage
       await this.loadQueue();
+      await this.loadDeadLetters();
 
       // Load status from storage
       await this.loadStatus();
+      this.updateCounts();
 
       // Listen to network changes
-      this.network.addListener((networkStatus) => {
-        const wasOffline = !this.status.isOnline;
-        this.status.isOnline = networkStatus.isConnected;
-
-        // If we just came online, trigger sync
-        if (wasOffline && networkStatus.isConnected) {
-          this.logger.info('[OfflineSync] Network restored, triggering sync');
-          this.syncNow();
-        }
-      });
+      if (this.network) {
+        this.unsubscribeNetwork = this.network.addListener((networkStatus) => {
+          this.setNetworkStatus(networkStatus.isConnected);
+        });
+      }
 
       // Start periodic sync
       this.startPeriodicSync();
@@ -140,6 +216,16 @@ export class OfflineSyncService {
       this.syncTimer = null;
     }
 
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (this.unsubscribeNetwork) {
+      this.unsubscribeNetwork();
+      this.unsubscribeNetwork = null;
+    }
+
     // Save queue and status before stopping
     await this.saveQueue();
     await this.saveStatus();
@@ -147,22 +233,42 @@ export class OfflineSyncService {
     this.logger.info('[OfflineSync] Service stopped');
   }
 
+  /**
+   * Update connectivity, triggering a sync when the device comes back online
+   */
+  public setNetworkStatus(isConnected: boolean): void {
+    const wasOffline = !this.status.isOnline;
+    this.status.isOnline = isConnected;
+
+    if (wasOffline !== !isConnected) {
+      this.emit({ type: 'changed', status: this.getStatus() });
+    }
+
+    // If we just came online, trigger sync
+    if (wasOffline && isConnected) {
+      this.logger.info('[OfflineSync] Network restored, triggering sync');
+      this.syncNow().catch((error) => {
+        this.logger.error('[OfflineSync] Sync after reconnect failed', error);
+      });
+    }
+  }
+
   /**
    * Add operation to sync queue
+   *
+   * For UPDATE and DELETE, pass the version (or snapshot) of the record the
+   * client edited so that server-side changes can be detected on replay.
    */
   public async addOperation(
     type: SyncOperation['type'],
     resource: string,
-    data: any
-  ): Promise<void> {
+    data: any,
+    options: SyncOperationOptions = {}
+  ): Promise<SyncOperation> {
     this.logger.info('[OfflineSync] Adding operation to queue:', { type, resource });
 
     try {
-      // Check queue size limit
-      if (this.queue.length >= this.maxQueueSize) {
-        this.logger.warn('[OfflineSync] Queue size limit reached, removing oldest operation');
-        this.queue.shift();
-      }
+      this.makeRoom(1);
 
       const operation: SyncOperation = {
         id: this.generateOperationId(),
@@ -171,26 +277,89 @@ export class OfflineSyncService {
         data,
         timestamp: new Date(),
         retryCount: 0,
-        maxRetries: DEFAULT_MAX_RETRIES,
+        maxRetries: this.maxRetries,
         status: 'pending',
+        baseVersion: options.baseVersion ?? this.conflictResolver.getVersion(options.baseData),
+        baseData: options.baseData,
+        label: options.label,
+        meta: options.meta,
       };
 
       this.queue.push(operation);
-      this.status.pendingOperations = this.queue.filter((op) => op.status === 'pending').length;
+      this.updateCounts();
 
       // Save queue
       await this.saveQueue();
+      this.emit({ type: 'changed', status: this.getStatus() });
 
       // If online, try to sync immediately
       if (this.status.isOnline && !this.status.isSyncing) {
         await this.syncNow();
       }
+
+      return operation;
     } catch (error) {
       this.logger.error('[OfflineSync] Error adding operation', error);
       throw error;
     }
   }
 
+  /**
+   * Add a group of dependent operations to the sync queue
+   *
+   * Steps run in order. A step's data may contain placeholders for the
+   * results of earlier steps (see placeholder()). If any step fails, the
+   * steps already applied are compensated and the whole group is retried.
+   */
+  public async addGroup(steps: SyncStep[]): Promise<SyncOperation[]> {
+    this.logger.info('[OfflineSync] Adding operation group to queue:', steps.length);
+
+    if (steps.length === 0) {
+      return [];
+    }
+
+    try {
+      this.makeRoom(steps.length);
+
+      const groupId = `grp_${this.generateOperationId()}`;
+      const timestamp = new Date();
+
+      const operations = steps.map((step, index): SyncOperation => ({
+        id: this.generateOperationId(),
+        type: step.type,
+        resource: step.resource,
+        data: step.data,
+        timestamp,
+        retryCount: 0,
+        maxRetries: this.maxRetries,
+        status: 'pending',
+        baseVersion: step.options?.baseVersion ?? this.conflictResolver.getVersion(step.options?.baseData),
+        baseData: step.options?.baseData,
+        label: step.options?.label,
+        meta: step.options?.meta,
+        groupId,
+        step: index,
+        ref: step.ref,
+        compensate: step.compensate,
+      }));
+
+      this.queue.push(...operations);
+      this.updateCounts();
+
+      await this.saveQueue();
+      this.emit({ type: 'changed', status: this.getStatus() });
+
+      if (this.status.isOnline && !this.status.isSyncing) {
+        await this.syncNow();
+      }
+
+      return operations;
+    } catch (error) {
+      this.logger.error('[OfflineSync] Error adding operation group', error);
+      throw error;
+    }
+  }
+
   /**
    * Sync all pending operations
    */
@@ -210,39 +379,45 @@ export class OfflineSyncService {
       return;
     }
 
-    this.logger.info('[OfflineSync] Starting sync of', this.queue.length, 'operations');
+    this.logger.info('[OfflineSync] Starting sync of operations:', this.queue.length);
     this.status.isSyncing = true;
+    this.emit({ type: 'changed', status: this.getStatus() });
 
     try {
+      const now = Date.now();
       const pendingOps = this.queue.filter(
-        (op) => op.status === 'pending' || op.status === 'failed'
+        (op) => (op.status === 'pending' || op.status === 'failed') && (op.nextRetryAt ?? 0) <= now
       );
 
+      const syncedGroups = new Set<string>();
+
       for (const operation of pendingOps) {
+        if (operation.groupId) {
+          if (!syncedGroups.has(operation.groupId)) {
+            syncedGroups.add(operation.groupId);
+            await this.syncGroup(operation.groupId);
+          }
+          continue;
+        }
+
         try {
           await this.syncOperation(operation);
         } catch (error) {
-          this.logger.error('[OfflineSync] Error syncing operation:', operation.id, error);
-          operation.status = 'failed';
-          operation.error = (error as Error).message;
-          operation.retryCount++;
-
-          if (operation.retryCount >= operation.maxRetries) {
-            this.logger.error('[OfflineSync] Max retries reached for operation:', operation.id);
-            this.status.failedOperations++;
-          }
+          this.logger.error('[OfflineSync] Error syncing operation: ' + operation.id, error);
+          this.handleFailure([operation], operation, error);
         }
       }
 
-      // Remove completed operations
-      this.queue = this.queue.filter((op) => op.status !== 'completed');
+      // Remove completed and dead-lettered operations
+      this.queue = this.queue.filter((op) => op.status !== 'completed' && op.status !== 'dead');
 
       // Update status
       this.status.lastSyncTime = new Date();
-      this.status.pendingOperations = this.queue.filter((op) => op.status === 'pending').length;
+      this.updateCounts();
 
       // Save queue and status
       await this.saveQueue();
+      await this.saveDeadLetters();
       await this.saveStatus();
 
       this.logger.info('[OfflineSync] Sync completed');
@@ -250,43 +425,373 @@ export class OfflineSyncService {
       this.logger.error('[OfflineSync] Sync failed', error);
     } finally {
       this.status.isSyncing = false;
+      this.scheduleRetry();
+      this.emit({ type: 'changed', status: this.getStatus() });
+    }
+  }
+
+  /**
+   * Record a failed attempt: back off and retry later, or move the operations
+   * to the dead-letter store when the error is permanent or retries run out
+   */
+  private handleFailure(operations: SyncOperation[], failed: SyncOperation, error: any): void {
+    const retryable = this.isRetryable(error);
+    failed.error = error?.message || String(error);
+    failed.retryCount++;
+
+    if (!retryable || failed.retryCount >= failed.maxRetries) {
+      const reason = retryable ? 'exhausted' : 'permanent';
+      this.logger.error('[OfflineSync] Moving to dead letter (' + reason + '):', failed.id);
+      this.moveToDeadLetter(operations, reason);
+      return;
+    }
+
+    const delay = this.getRetryDelay(failed.retryCount);
+    this.logger.info('[OfflineSync] Retrying operation in ms: ' + failed.id, delay);
+
+    operations.forEach((op) => {
+      op.status = op === failed ? 'failed' : 'pending';
+      op.nextRetryAt = Date.now() + delay;
+    });
+  }
+
+  /**
+   * Exponential backoff with jitter: half the delay is fixed, half is random,
+   * so devices coming back online together don't retry in lockstep
+   */
+  private getRetryDelay(retryCount: number): number {
+    const exponential = Math.min(this.retryBaseDelay * Math.pow(2, retryCount - 1), this.retryMaxDelay);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Wake up for the earliest pending retry instead of waiting for the next interval
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const retryTimes = this.queue
+      .filter((op) => op.nextRetryAt && (op.status === 'pending' || op.status === 'failed'))
+      .map((op) => op.nextRetryAt as number);
+
+    if (!this.enabled || retryTimes.length === 0) {
+      return;
+    }
+
+    const delay = Math.max(Math.min(...retryTimes) - Date.now(), 0);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.syncNow().catch((error) => {
+        this.logger.error('[OfflineSync] Scheduled retry failed', error);
+      });
+    }, delay);
+  }
+
+  /**
+   * Take operations out of the queue and park them for review
+   */
+  private moveToDeadLetter(operations: SyncOperation[], reason: 'permanent' | 'exhausted'): void {
+    const deadLetteredAt = new Date();
+
+    operations.forEach((op) => {
+      op.status = 'dead';
+      op.nextRetryAt = undefined;
+      op.result = undefined;
+      op.undo = undefined;
+      op.deadLetteredAt = deadLetteredAt;
+      op.deadLetterReason = reason;
+    });
+
+    this.deadLetters.push(...operations);
+    this.emit({ type: 'dead-lettered', operations });
+  }
+
+  /**
+   * Sync the steps of a group in order, rolling back applied steps on failure
+   */
+  private async syncGroup(groupId: string): Promise<void> {
+    const steps = this.getGroup(groupId);
+
+    // A parked step blocks the group until it is resolved
+    if (steps.some((op) => op.status === 'conflict')) {
+      return;
+    }
+
+    if (steps.some((op) => (op.nextRetryAt ?? 0) > Date.now())) {
+      return;
+    }
+
+    this.logger.info('[OfflineSync] Syncing operation group:', groupId);
+
+    const results: Record<string, any> = {};
+    const applied: SyncOperation[] = [];
+
+    for (const operation of steps) {
+      try {
+        const data = resolvePlaceholders(operation.data, results);
+        const before = await this.snapshotForUndo(operation, data);
+
+        await this.syncOperation(operation, data);
+
+        if (operation.status === 'conflict') {
+          throw new Error(`Conflict in step ${operation.step} of group ${groupId}`);
+        }
+
+        if (operation.ref) {
+          results[operation.ref] = operation.result;
+        }
+        operation.undo = this.buildUndo(operation, data, before, results);
+        applied.push(operation);
+      } catch (error) {
+        this.logger.error('[OfflineSync] Group step failed, rolling back: ' + operation.id, error);
+        await this.rollback(applied);
+
+        steps.forEach((step) => {
+          step.result = undefined;
+          step.undo = undefined;
+        });
+
+        if (operation.status === 'conflict') {
+          // Wait for the conflict to be resolved, then replay the whole group
+          steps.forEach((step) => {
+            if (step !== operation) step.status = 'pending';
+          });
+        } else {
+          this.handleFailure(steps, operation, error);
+        }
+        return;
+      }
+    }
+
+    // Every step applied, report them as one unit
+    steps.forEach((operation) => {
+      operation.undo = undefined;
+      this.reportCompleted(operation);
+    });
+  }
+
+  /**
+   * Read the server copy a step is about to change, so it can be restored
+   */
+  private async snapshotForUndo(operation: SyncOperation, data: any): Promise<any | null> {
+    if (operation.compensate !== undefined) return null;
+    if (operation.type !== 'UPDATE' && operation.type !== 'DELETE') return null;
+
+    return this.executor.fetch(operation.resource, String(data.id));
+  }
+
+  /**
+   * Work out how to undo an applied step
+   */
+  private buildUndo(
+    operation: SyncOperation,
+    data: any,
+    before: any | null,
+    results: Record<string, any>
+  ): SyncCompensation | undefined {
+    if (operation.compensate === null) return undefined;
+    if (operation.compensate) {
+      // May reference this step's own result through its ref
+      return resolvePlaceholders(operation.compensate, results);
+    }
+
+    switch (operation.type) {
+      case 'CREATE': {
+        const id = operation.result?.id ?? data.id;
+        return id !== undefined ? { type: 'DELETE', resource: operation.resource, data: { id } } : undefined;
+      }
+
+      case 'UPDATE': {
+        if (!before) return undefined;
+        const restored: Record<string, any> = { id: data.id };
+        Object.keys(data).forEach((field) => {
+          if (field in before) restored[field] = before[field];
+        });
+        return { type: 'UPDATE', resource: operation.resource, data: restored };
+      }
+
+      case 'DELETE':
+        return before ? { type: 'CREATE', resource: operation.resource, data: before } : undefined;
+
+      default:
+        // RPC side effects are unknown, they need an explicit compensation
+        return undefined;
+    }
+  }
+
+  /**
+   * Compensate applied steps in reverse order
+   */
+  private async rollback(applied: SyncOperation[]): Promise<void> {
+    for (const operation of [...applied].reverse()) {
+      if (!operation.undo) continue;
+
+      try {
+        await this.execute(operation.undo.type, operation.undo.resource, operation.undo.data);
+        this.logger.info('[OfflineSync] Rolled back operation:', operation.id);
+      } catch (error) {
+        this.logger.error('[OfflineSync] Rollback failed for operation: ' + operation.id, error);
+      }
+    }
+  }
+
+  /**
+   * Run a single write against the executor
+   */
+  private async execute(type: SyncOperation['type'], resource: string, data: any): Promise<any> {
+    switch (type) {
+      case 'CREATE':
+        return this.executor.create(resource, data);
+      case 'UPDATE':
+        return this.executor.update(resource, String(data.id), data);
+      case 'DELETE':
+        await this.executor.remove(resource, String(data.id));
+        return undefined;
+      case 'RPC':
+        return this.executor.call(resource, data);
+      default:
+        throw new Error(`Unknown operation type: ${type}`);
     }
   }
 
   /**
    * Sync a single operation
+   *
+   * `data` is the payload with placeholders already resolved (grouped steps)
    */
-  private async syncOperation(operation: SyncOperation): Promise<void> {
+  private async syncOperation(operation: SyncOperation, data: any = operation.data): Promise<void> {
     this.logger.info('[OfflineSync] Syncing operation:', operation.id);
 
     operation.status = 'syncing';
 
     try {
-      switch (operation.type) {
-        case 'CREATE':
-          await this.api.post(`/${operation.resource}`, operation.data);
-          break;
-        case 'UPDATE':
-          await this.api.patch(`/${operation.resource}/${operation.data.id}`, operation.data);
-          break;
-        case 'DELETE':
-          await this.api.delete(`/${operation.resource}/${operation.data.id}`);
-          break;
-        default:
-          throw new Error(`Unknown operation type: ${operation.type}`);
+      let payload = data;
+
+      if (operation.type === 'UPDATE' || operation.type === 'DELETE') {
+        const conflict = await this.detectConflict(operation, data);
+
+        if (conflict) {
+          const resolution = await this.conflictResolver.resolve(conflict);
+          this.logger.info('[OfflineSync] Conflict detected, resolution: ' + resolution.action, {
+            operationId: operation.id,
+            resource: operation.resource,
+            fields: conflict.conflictingFields,
+          });
+
+          switch (resolution.action) {
+            case 'use-server':
+              // Drop the local change, the server copy stays as is
+              operation.status = 'completed';
+              return;
+
+            case 'manual':
+              operation.status = 'conflict';
+              operation.conflict = conflict;
+              return;
+
+            case 'merge':
+              payload = resolution.data;
+              break;
+
+            case 'use-client':
+              if (conflict.serverData === null && operation.type === 'UPDATE') {
+                // Record was deleted on the server, re-create it from the client copy
+                this.markCompleted(operation, await this.executor.create(operation.resource, data));
+                return;
+              }
+              break;
+          }
+        }
       }
 
-      operation.status = 'completed';
-      this.status.successfulOperations++;
+      if (operation.type === 'UPDATE' || operation.type === 'DELETE') {
+        payload = { ...payload, id: data.id };
+      }
 
-      this.logger.info('[OfflineSync] Operation synced successfully:', operation.id);
+      const result = await this.execute(operation.type, operation.resource, payload);
+      this.markCompleted(operation, result);
     } catch (error) {
       operation.status = 'failed';
-      operation.error = (error as Error).message;
       throw error;
     }
   }
 
+  /**
+   * Mark an operation as successfully synced
+   */
+  private markCompleted(operation: SyncOperation, result?: any): void {
+    operation.status = 'completed';
+    operation.result = result;
+
+    // Grouped steps are reported once the whole group has been applied
+    if (!operation.groupId) {
+      this.reportCompleted(operation);
+    }
+  }
+
+  /**
+   * Count and announce a synced operation
+   */
+  private reportCompleted(operation: SyncOperation): void {
+    this.status.successfulOperations++;
+
+    this.logger.info('[OfflineSync] Operation synced successfully:', operation.id);
+    this.emit({ type: 'completed', operation });
+  }
+
+  /**
+   * Compare the operation's base version against the current server copy.
+   * Returns null when the record has not changed since the client edited it.
+   */
+  private async detectConflict(operation: SyncOperation, data: any): Promise<SyncConflict | null> {
+    if (!operation.baseVersion && !operation.baseData) {
+      return null;
+    }
+
+    const recordId = String(data.id);
+    const serverData = await this.executor.fetch(operation.resource, recordId);
+
+    // Deleting a record that is already gone is not a conflict
+    if (serverData === null && operation.type === 'DELETE') {
+      return null;
+    }
+
+    if (!this.conflictResolver.hasServerChanged(operation.baseVersion, serverData)) {
+      return null;
+    }
+
+    return {
+      operationId: operation.id,
+      resource: operation.resource,
+      recordId,
+      type: operation.type as SyncConflict['type'],
+      baseVersion: operation.baseVersion,
+      serverVersion: this.conflictResolver.getVersion(serverData),
+      baseData: operation.baseData,
+      clientData: data,
+      serverData,
+      conflictingFields: this.conflictResolver.findConflictingFields(
+        operation.baseData,
+        data,
+        serverData
+      ),
+      detectedAt: new Date(),
+    };
+  }
+
+  /**
+   * Recalculate queue counters
+   */
+  private updateCounts(): void {
+    this.status.pendingOperations = this.queue.filter((op) => op.status === 'pending').length;
+    this.status.failedOperations = this.queue.filter((op) => op.status === 'failed').length;
+    this.status.conflictedOperations = this.queue.filter((op) => op.status === 'conflict').length;
+    this.status.deadLetterOperations = this.deadLetters.length;
+  }
+
   /**
    * Start periodic sync
    */
@@ -307,6 +812,19 @@ export class OfflineSyncService {
     this.logger.info('[OfflineSync] Periodic sync started with interval:', this.syncInterval);
   }
 
+  /**
+   * Evict the oldest operations (whole groups at a time) to fit new ones
+   */
+  private makeRoom(count: number): void {
+    while (this.queue.length > 0 && this.queue.length + count > this.maxQueueSize) {
+      this.logger.warn('[OfflineSync] Queue size limit reached, removing oldest operation');
+      const oldest = this.queue[0];
+      this.queue = oldest.groupId
+        ? this.queue.filter((op) => op.groupId !== oldest.groupId)
+        : this.queue.slice(1);
+    }
+  }
+
   /**
    * Generate unique operation ID
    */
@@ -325,14 +843,47 @@ export class OfflineSyncService {
         this.queue = parsed.operations.map((op: any) => ({
           ...op,
           timestamp: new Date(op.timestamp),
+          conflict: op.conflict
+            ? { ...op.conflict, detectedAt: new Date(op.conflict.detectedAt) }
+            : undefined,
         }));
-        this.logger.info('[OfflineSync] Queue loaded:', this.queue.length, 'operations');
+        this.logger.info('[OfflineSync] Queue loaded, operations:', this.queue.length);
       }
     } catch (error) {
       this.logger.error('[OfflineSync] Error loading queue', error);
     }
   }
 
+  /**
+   * Load dead-lettered operations from storage
+   */
+  private async loadDeadLetters(): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(STORAGE_KEY_DEAD_LETTER);
+      if (stored) {
+        this.deadLetters = JSON.parse(stored).map((op: any) => ({
+          ...op,
+          timestamp: new Date(op.timestamp),
+          deadLetteredAt: op.deadLetteredAt ? new Date(op.deadLetteredAt) : undefined,
+        }));
+        this.logger.info('[OfflineSync] Dead letters loaded:', this.deadLetters.length);
+      }
+    } catch (error) {
+      this.logger.error('[OfflineSync] Error loading dead letters', error);
+    }
+  }
+
+  /**
+   * Save dead-lettered operations to storage
+   */
+  private async saveDeadLetters(): Promise<void> {
+    try {
+      await this.storage.setItem(STORAGE_KEY_DEAD_LETTER, JSON.stringify(this.deadLetters));
+    } catch (error) {
+      this.logger.error('[OfflineSync] Error saving dead letters', error);
+    }
+  }
+
   /**
    * Save queue to storage
    */
@@ -387,6 +938,72 @@ export class OfflineSyncService {
     return { ...this.status };
   }
 
+  /**
+   * Get all queued operations
+   */
+  public getOperations(): SyncOperation[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Get the steps of an operation group, in order
+   */
+  public getGroup(groupId: string): SyncOperation[] {
+    return this.queue
+      .filter((op) => op.groupId === groupId)
+      .sort((a, b) => (a.step ?? 0) - (b.step ?? 0));
+  }
+
+  /**
+   * Get a queued operation by id
+   */
+  public getOperation(operationId: string): SyncOperation | undefined {
+    return this.queue.find((op) => op.id === operationId);
+  }
+
+  /**
+   * Remove an operation from the queue without syncing it.
+   * Discarding a grouped step discards the whole group.
+   */
+  public async discardOperation(operationId: string): Promise<void> {
+    this.logger.info('[OfflineSync] Discarding operation:', operationId);
+    const groupId = this.getOperation(operationId)?.groupId;
+    this.queue = this.queue.filter((op) =>
+      groupId ? op.groupId !== groupId : op.id !== operationId
+    );
+    this.updateCounts();
+    await this.saveQueue();
+    this.emit({ type: 'changed', status: this.getStatus() });
+  }
+
+  /**
+   * Add a listener for queue changes and completed operations
+   */
+  public addListener(listener: SyncListener): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Notify all listeners
+   */
+  private emit(event: SyncEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('[OfflineSync] Error in listener', error);
+      }
+    });
+  }
+
   /**
    * Get pending operations
    */
@@ -401,31 +1018,187 @@ export class OfflineSyncService {
     return this.queue.filter((op) => op.status === 'failed');
   }
 
+  /**
+   * Get conflicts parked for manual review
+   */
+  public getConflicts(): SyncConflict[] {
+    return this.queue
+      .filter((op) => op.status === 'conflict' && op.conflict)
+      .map((op) => op.conflict as SyncConflict);
+  }
+
+  /**
+   * Register a conflict strategy (or custom handler) for a resource
+   */
+  public setConflictStrategy(resource: string, strategy: ConflictStrategy | ConflictHandler): void {
+    this.conflictResolver.setStrategy(resource, strategy);
+  }
+
+  /**
+   * Resolve a conflict parked for manual review.
+   *
+   * The operation is rebased onto the server version it conflicted with, so a
+   * further server change before replay is detected as a new conflict.
+   */
+  public async resolveConflict(
+    operationId: string,
+    resolution: Exclude<ConflictResolution, { action: 'manual' }>
+  ): Promise<void> {
+    const operation = this.queue.find((op) => op.id === operationId && op.status === 'conflict');
+    if (!operation || !operation.conflict) {
+      throw new Error(`No conflict found for operation: ${operationId}`);
+    }
+
+    this.logger.info('[OfflineSync] Resolving conflict: ' + resolution.action, { operationId });
+
+    const { serverData, serverVersion } = operation.conflict;
+
+    if (resolution.action === 'use-server') {
+      // The group was rolled back when the conflict parked it, and later steps
+      // may reference this one, so keeping the server copy drops the whole group
+      const groupId = operation.groupId;
+      this.queue = this.queue.filter((op) =>
+        groupId ? op.groupId !== groupId : op.id !== operationId
+      );
+    } else {
+      if (resolution.action === 'merge') {
+        operation.data = { ...resolution.data, id: operation.data.id };
+      }
+
+      if (serverData === null && operation.type === 'UPDATE') {
+        // Record no longer exists on the server, replay as a create
+        operation.type = 'CREATE';
+        operation.baseVersion = undefined;
+        operation.baseData = undefined;
+      } else {
+        operation.baseVersion = serverVersion;
+        operation.baseData = serverData;
+      }
+
+      operation.status = 'pending';
+      operation.conflict = undefined;
+      operation.error = undefined;
+    }
+
+    this.updateCounts();
+    await this.saveQueue();
+    await this.saveStatus();
+    this.emit({ type: 'changed', status: this.getStatus() });
+
+    if (this.status.isOnline && !this.status.isSyncing) {
+      await this.syncNow();
+    }
+  }
+
   /**
    * Clear queue
    */
   public async clearQueue(): Promise<void> {
     this.logger.info('[OfflineSync] Clearing queue');
     this.queue = [];
-    this.status.pendingOperations = 0;
+    this.updateCounts();
     await this.saveQueue();
     await this.saveStatus();
+    this.emit({ type: 'changed', status: this.getStatus() });
   }
 
   /**
-   * Retry failed operations
+   * Retry failed operations now, skipping their backoff
    */
   public async retryFailedOperations(): Promise<void> {
     this.logger.info('[OfflineSync] Retrying failed operations');
 
     const failedOps = this.getFailedOperations();
+    const groupIds = new Set(failedOps.map((op) => op.groupId).filter(Boolean));
     failedOps.forEach((op) => {
       op.status = 'pending';
       op.retryCount = 0;
       op.error = undefined;
     });
+    this.queue.forEach((op) => {
+      if (failedOps.includes(op) || (op.groupId && groupIds.has(op.groupId))) {
+        op.nextRetryAt = undefined;
+      }
+    });
 
+    this.updateCounts();
     await this.saveQueue();
     await this.syncNow();
   }
+
+  /**
+   * Get operations that failed permanently or ran out of retries
+   */
+  public getDeadLetters(): SyncOperation[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Edit the payload of a dead-lettered operation before retrying it
+   */
+  public async updateDeadLetter(operationId: string, data: any): Promise<void> {
+    const operation = this.deadLetters.find((op) => op.id === operationId);
+    if (!operation) {
+      throw new Error(`No dead letter found for operation: ${operationId}`);
+    }
+
+    this.logger.info('[OfflineSync] Editing dead letter:', operationId);
+    operation.data = data;
+    await this.saveDeadLetters();
+    this.emit({ type: 'changed', status: this.getStatus() });
+  }
+
+  /**
+   * Move a dead-lettered operation (with the rest of its group) back into the queue
+   */
+  public async retryDeadLetter(operationId: string): Promise<void> {
+    const operations = this.takeDeadLetter(operationId);
+    this.logger.info('[OfflineSync] Retrying dead letter:', operationId);
+
+    operations.forEach((op) => {
+      op.status = 'pending';
+      op.retryCount = 0;
+      op.error = undefined;
+      op.deadLetteredAt = undefined;
+      op.deadLetterReason = undefined;
+    });
+
+    this.queue.push(...operations);
+    this.updateCounts();
+    await this.saveQueue();
+    await this.saveDeadLetters();
+    this.emit({ type: 'changed', status: this.getStatus() });
+
+    if (this.status.isOnline && !this.status.isSyncing) {
+      await this.syncNow();
+    }
+  }
+
+  /**
+   * Permanently drop a dead-lettered operation (with the rest of its group)
+   */
+  public async discardDeadLetter(operationId: string): Promise<void> {
+    this.takeDeadLetter(operationId);
+    this.logger.info('[OfflineSync] Discarding dead letter:', operationId);
+
+    this.updateCounts();
+    await this.saveDeadLetters();
+    this.emit({ type: 'changed', status: this.getStatus() });
+  }
+
+  /**
+   * Remove a dead letter and its group siblings from the store
+   */
+  private takeDeadLetter(operationId: string): SyncOperation[] {
+    const operation = this.deadLetters.find((op) => op.id === operationId);
+    if (!operation) {
+      throw new Error(`No dead letter found for operation: ${operationId}`);
+    }
+
+    const taken = this.deadLetters
+      .filter((op) => (operation.groupId ? op.groupId === operation.groupId : op.id === operationId))
+      .sort((a, b) => (a.step ?? 0) - (b.step ?? 0));
+    this.deadLetters = this.deadLetters.filter((op) => !taken.includes(op));
+    return taken;
+  }
 }
@@ -0,0 +1,74 @@
+/**
+ * Sync Executor
+ *
+ * Transport used by the offline sync queue to replay operations against a backend
+ */
+
+import type { APIService } from '../api/APIService';
+
+export interface SyncExecutor {
+  /**
+   * Insert a record, returning the created row
+   */
+  create(resource: string, data: any): Promise<any>;
+
+  /**
+   * Update a record by id, returning the updated row
+   */
+  update(resource: string, id: string, data: any): Promise<any>;
+
+  /**
+   * Delete a record by id
+   */
+  remove(resource: string, id: string): Promise<void>;
+
+  /**
+   * Fetch the current server copy of a record, or null if it no longer exists
+   */
+  fetch(resource: string, id: string): Promise<any | null>;
+
+  /**
+   * Call a remote procedure, returning its result
+   */
+  call(name: string, params: any): Promise<any>;
+}
+
+/**
+ * Default executor that replays operations over the REST API
+ */
+export class APISyncExecutor implements SyncExecutor {
+  private api: APIService;
+
+  constructor(api: APIService) {
+    this.api = api;
+  }
+
+  public async create(resource: string, data: any): Promise<any> {
+    const response = await this.api.post(`/${resource}`, data);
+    return response.data;
+  }
+
+  public async update(resource: string, id: string, data: any): Promise<any> {
+    const response = await this.api.patch(`/${resource}/${id}`, data);
+    return response.data;
+  }
+
+  public async remove(resource: string, id: string): Promise<void> {
+    await this.api.delete(`/${resource}/${id}`);
+  }
+
+  public async fetch(resource: string, id: string): Promise<any | null> {
+    try {
+      const response = await this.api.get(`/${resource}/${id}`);
+      return response.data;
+    } catch (error: any) {
+      if (error?.code === 'NOT_FOUND') return null;
+      throw error;
+    }
+  }
+
+  public async call(name: string, params: any): Promise<any> {
+    const response = await this.api.post(`/rpc/${name}`, params);
+    return response.data;
+  }
+}
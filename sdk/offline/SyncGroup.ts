@@ -0,0 +1,90 @@
+/**
+ * Sync Groups
+ *
+ * Multi-step operations that must be replayed in order and committed
+ * all-or-nothing, with later steps referencing the results of earlier ones
+ */
+
+import type { SyncOperation, SyncOperationOptions } from './OfflineSyncService';
+
+/**
+ * Reference to the result of an earlier step in the same group.
+ * Rewritten with the real value when the step runs.
+ */
+export interface SyncPlaceholder {
+  $ref: string;
+  field?: string;
+}
+
+/**
+ * Write used to undo a step when a later step in its group fails
+ */
+export interface SyncCompensation {
+  type: SyncOperation['type'];
+  resource: string;
+  data: any;
+}
+
+export interface SyncStep {
+  type: SyncOperation['type'];
+  resource: string; // table, or function name for RPC steps
+  data: any;
+  ref?: string; // name later steps use to reference this step's result
+  options?: SyncOperationOptions;
+  /**
+   * Custom undo for this step. Defaults to deleting created rows and restoring
+   * updated or deleted rows; pass null when there is nothing to undo.
+   */
+  compensate?: SyncCompensation | null;
+}
+
+/**
+ * Create a placeholder for a value returned by an earlier step.
+ * Without a field, resolves to the returned row's id (or the value itself for scalar RPC results).
+ */
+export function placeholder(ref: string, field?: string): SyncPlaceholder {
+  return field ? { $ref: ref, field } : { $ref: ref };
+}
+
+/**
+ * Check whether a value is a placeholder
+ */
+export function isPlaceholder(value: any): value is SyncPlaceholder {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value.$ref === 'string' &&
+    Object.keys(value).every((key) => key === '$ref' || key === 'field')
+  );
+}
+
+/**
+ * Replace placeholders in a payload with the results of earlier steps
+ */
+export function resolvePlaceholders(value: any, results: Record<string, any>): any {
+  if (isPlaceholder(value)) {
+    if (!(value.$ref in results)) {
+      throw new Error(`Unresolved placeholder: ${value.$ref}`);
+    }
+
+    const result = results[value.$ref];
+    if (value.field) {
+      return result?.[value.field];
+    }
+    return result !== null && typeof result === 'object' ? result.id : result;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolvePlaceholders(item, results));
+  }
+
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const resolved: Record<string, any> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      resolved[key] = resolvePlaceholders(item, results);
+    });
+    return resolved;
+  }
+
+  return value;
+}
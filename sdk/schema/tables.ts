@@ -0,0 +1,506 @@
+/**
+ * Table Definitions
+ *
+ * Row types for the Supabase tables shared by the SDK services and the app.
+ * Column names and enum values follow the database; joined relations and
+ * display-only aliases belong to the consumers, not here.
+ */
+
+export const CURRENCIES = ['USD', 'UGX', 'KES'] as const;
+export type Currency = (typeof CURRENCIES)[number];
+
+export const BOOKING_STATUSES = ['Pending', 'Confirmed', 'In-Progress', 'Completed', 'Cancelled'] as const;
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+export const VEHICLE_STATUSES = ['available', 'booked', 'rented', 'maintenance', 'out_of_service'] as const;
+export type VehicleStatus = (typeof VEHICLE_STATUSES)[number];
+
+export const CR_STATUSES = ['Pending', 'Returned', 'Approved', 'Completed', 'Resolved', 'Rejected', 'Declined', 'Cancelled'] as const;
+export type CRStatus = (typeof CR_STATUSES)[number];
+
+export const CR_STEP_STATUSES = ['waiting', 'pending', 'approved', 'declined', 'returned'] as const;
+export type CRStepStatus = (typeof CR_STEP_STATUSES)[number];
+
+/** How fast a requisition needs a decision; each level has its own SLA */
+export const CR_URGENCIES = ['Routine', 'Urgent', 'Emergency'] as const;
+export type CRUrgency = (typeof CR_URGENCIES)[number];
+
+export const TRANSACTION_TYPES = ['income', 'expense'] as const;
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+export const REPAIR_STATUSES = ['open', 'in_progress', 'completed'] as const;
+export type RepairStatus = (typeof REPAIR_STATUSES)[number];
+
+export const REPAIR_PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type RepairPriority = (typeof REPAIR_PRIORITIES)[number];
+
+export const SAFARI_BOOKING_STATUSES = ['draft', 'pending', 'confirmed', 'active', 'completed', 'cancelled'] as const;
+export type SafariBookingStatus = (typeof SAFARI_BOOKING_STATUSES)[number];
+
+export const AUDIT_ACTIONS = ['INSERT', 'UPDATE', 'DELETE'] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const DOCUMENT_TYPES = [
+  'insurance', 'road_licence', 'inspection', 'cross_border_permit', 'driving_permit', 'passport', 'other',
+] as const;
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+export const ATTACHMENT_KINDS = ['receipt', 'invoice', 'other'] as const;
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+export const BUDGET_PERIODS = ['monthly', 'quarterly'] as const;
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+// ─── bookings ─────────────────────────────────────────────────────────────────
+
+/** The outside vehicle on an is_vendor_vehicle booking */
+export interface VendorVehicleDetails {
+  vendor_name: string | null;
+  license_plate: string | null;
+  reason: string | null;
+}
+
+export interface BookingRow {
+  id: string;
+  booking_reference?: string;
+  start_date: string;
+  end_date: string;
+  status: BookingStatus;
+  amount_paid: number;
+  total_amount: number;
+  currency: Currency;
+  assigned_vehicle_id?: string;
+  assigned_user_id?: string;
+  assigned_to?: string;
+  client_id?: string;
+  actual_client_id?: string;
+  client_name?: string;
+  contact_person?: string;
+  contact?: string;
+  email?: string;
+  notes?: string;
+  package_type?: string;
+  daily_rate?: number;
+  number_of_days?: number;
+  balance_due?: number;
+  payment_method?: string;
+  transaction_id?: string;
+  bank_name?: string;
+  booking_type?: 'booking' | 'reservation' | string;
+  is_vendor_vehicle?: boolean;
+  vendor_vehicle_details?: VendorVehicleDetails | null;
+  /** What the vendor charged for the hired vehicle, in the booking currency */
+  vendor_hire_cost?: number | null;
+  contract_status?: string;
+  deposit_percent?: number | null;  // payment schedule override; null uses the default
+  balance_due_days?: number | null;
+  created_at?: string;
+  updated_at?: string; // version stamp for offline conflict detection
+}
+
+// ─── vehicles ─────────────────────────────────────────────────────────────────
+
+export interface VehicleRow {
+  id: string;
+  license_plate: string;
+  make: string;
+  model: string;
+  capacity: string;
+  status: VehicleStatus;
+  rating?: number;
+  current_driver_id?: string;
+  year?: number;
+  odometer?: number;
+  daily_rate_usd?: number;
+  daily_rate_ugx?: number;
+  fuel_type?: string;
+  color?: string;
+  insurance_expiry?: string;
+  last_service_date?: string;
+  next_service_date?: string;
+  portal_visible?: boolean;
+  portal_description?: string;
+  portal_image_url?: string;
+  portal_category?: string;
+  updated_at?: string;
+}
+
+// ─── repairs ──────────────────────────────────────────────────────────────────
+
+export interface RepairRow {
+  id: string;
+  vehicle_id: string;
+  description: string;
+  status: RepairStatus;
+  priority: RepairPriority;
+  reported_at: string;
+  estimated_cost?: number;
+  /** Set on repairs opened by a service plan coming due */
+  service_plan_id?: string | null;
+}
+
+// ─── vehicle_service_plans ────────────────────────────────────────────────────
+
+/** Recurring service for a vehicle, every N km and/or every N months */
+export interface ServicePlanRow {
+  id: string;
+  vehicle_id: string;
+  name: string;
+  interval_km: number | null;
+  interval_months: number | null;
+  last_done_at: string;
+  last_done_odometer: number | null;
+  active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+// ─── compliance_documents ─────────────────────────────────────────────────────
+
+/** Insurance, licence, permit or certificate held for a vehicle or a driver (safari guide) */
+export interface ComplianceDocumentRow {
+  id: string;
+  /** Exactly one of vehicle_id and guide_id is set */
+  vehicle_id: string | null;
+  guide_id: string | null;
+  doc_type: DocumentType;
+  /** Countries a cross-border permit covers: UG, KE, RW, TZ */
+  countries: string[];
+  number: string | null;
+  issued_on: string | null;
+  expires_on: string;
+  /** Scan in the compliance-documents storage bucket */
+  file_path: string | null;
+  file_name: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// ─── fuel_logs / trip_logs ────────────────────────────────────────────────────
+
+/** Fuel bought for a vehicle, with the odometer reading at the pump */
+export interface FuelLogRow {
+  id: string;
+  vehicle_id: string;
+  booking_id: string | null;
+  filled_on: string;
+  odometer: number;
+  litres: number;
+  cost: number;
+  currency: Currency;
+  station: string | null;
+  /** Economy is measured between full tanks */
+  full_tank: boolean;
+  notes: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+/** Distance a vehicle covered on a trip, from the odometer at each end */
+export interface TripLogRow {
+  id: string;
+  vehicle_id: string;
+  booking_id: string | null;
+  started_on: string;
+  ended_on: string;
+  start_odometer: number;
+  end_odometer: number;
+  distance_km: number;
+  purpose: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// ─── financial_transactions ───────────────────────────────────────────────────
+
+export interface FinancialTransactionRow {
+  id: string;
+  transaction_date: string;
+  amount: number;
+  transaction_type: TransactionType;
+  category?: string;
+  currency: Currency;
+  description?: string;
+  reference_number?: string;
+  booking_id?: string;
+  status: string;
+}
+
+// ─── finance_attachments ──────────────────────────────────────────────────────
+
+/** A receipt or document on a cash requisition or a financial transaction */
+export interface FinanceAttachmentRow {
+  id: string;
+  /** Exactly one of cr_id and transaction_id is set */
+  cr_id: string | null;
+  transaction_id: string | null;
+  kind: AttachmentKind;
+  /** File in the finance-attachments storage bucket */
+  file_path: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+// ─── finance_budgets ──────────────────────────────────────────────────────────
+
+/** A recurring spending limit; a null department or category covers them all */
+export interface FinanceBudgetRow {
+  id: string;
+  department: string | null;
+  category: string | null;
+  period: BudgetPeriod;
+  amount: number;
+  currency: Currency;
+  updated_at?: string;
+}
+
+// ─── cash_requisitions ────────────────────────────────────────────────────────
+
+export interface CashRequisitionRow {
+  id: string;
+  cr_number: string;
+  total_cost: number;
+  currency: Currency;
+  status: CRStatus;
+  date_needed: string;
+  expense_category: string;
+  date_completed?: string | null;
+  created_at: string;
+  amount_usd?: number;
+  description?: string;
+  purpose?: string;
+  department?: string;
+  payment_mode?: string;
+  payee_name?: string;
+  requested_by?: string;
+  requester_name?: string;
+  requester_email?: string;
+  requester_id?: string | null;
+  /** Whoever the requisition is waiting on; moves along the approval chain */
+  approver_id?: string | null;
+  /** The approver the requester picked, for chain steps that go to them */
+  chosen_approver_id?: string | null;
+  approved_at?: string | null;
+  declined_at?: string | null;
+  /** The vehicle the money was spent on, for its P&L */
+  vehicle_id?: string | null;
+  urgency?: CRUrgency;
+  /** When the step it is waiting on must be decided by */
+  sla_due_date?: string | null;
+  updated_at?: string;
+}
+
+// ─── cr_approval_rules / cr_approval_steps / approval_delegations ──────────────
+
+/** One approver in a rule; a null approver_id means the approver chosen on the requisition */
+export interface CRApprovalRuleStep {
+  label: string;
+  approver_id: string | null;
+}
+
+/** The approval chain for requisitions from min_amount_usd up to the next rule's */
+export interface CRApprovalRuleRow {
+  id: string;
+  min_amount_usd: number;
+  steps: CRApprovalRuleStep[];
+  updated_at?: string;
+}
+
+/** One step of a requisition's chain; resubmitting after a return starts a new round */
+export interface CRApprovalStepRow {
+  id: string;
+  cr_id: string;
+  round: number;
+  position: number;
+  label: string;
+  approver_id: string;
+  status: CRStepStatus;
+  /** The approver, or whoever acted for them under a delegation */
+  acted_by: string | null;
+  acted_at: string | null;
+  comment: string | null;
+  /** Who else may act on the step once it ran past the requisition's SLA */
+  escalated_to: string[];
+  escalated_at: string | null;
+  created_at: string;
+}
+
+/** Someone approving on an approver's behalf between two days */
+export interface ApprovalDelegationRow {
+  id: string;
+  approver_id: string;
+  delegate_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  created_at: string;
+}
+
+// ─── safari_bookings ──────────────────────────────────────────────────────────
+
+export interface SafariBookingRow {
+  id: string;
+  booking_reference: string;
+  status: SafariBookingStatus;
+  start_date: string;
+  end_date?: string;
+  pax_count?: number;
+  total_price_usd: number;
+  total_price_ugx: number;
+  total_expenses_usd: number;
+  total_expenses_ugx: number;
+  vehicle_hire_cost_usd: number;
+  vehicle_hire_cost_ugx: number;
+  deposit_amount?: number;
+  amount_paid?: number;
+  currency?: Currency;
+  booking_direction?: string;
+  profit_margin?: number;
+  checklist_sent?: boolean;
+  customer_name?: string;
+  customer_email?: string;
+  vehicle_id?: string;
+  guide_id?: string;
+  client_id?: string;
+  package_id?: string;
+  deposit_percent?: number | null;  // payment schedule override; null uses the default
+  balance_due_days?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ─── safari_booking_permits ───────────────────────────────────────────────────
+
+export interface SafariBookingPermitRow {
+  id: string;
+  booking_id?: string;
+  permit_id?: string;
+  status?: string;
+  quantity?: number;
+  cost_per_permit?: number;
+  total_cost?: number;
+  currency?: string;
+}
+
+// ─── booking_payments ─────────────────────────────────────────────────────────
+
+/** One payment received; belongs to either a vehicle booking or a safari booking */
+export interface BookingPaymentRow {
+  id: string;
+  booking_id: string | null;
+  safari_booking_id: string | null;
+  paid_at: string;
+  amount: number;
+  currency: Currency;
+  method: string | null;
+  reference: string | null;
+  bank_name: string | null;
+  transaction_id: string | null;
+  notes: string | null;
+  financial_transaction_id: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+// ─── receivables ──────────────────────────────────────────────────────────────
+
+/** One scheduled installment and what is still owed on it (receivable_installments view) */
+export interface ReceivableInstallmentRow {
+  /** `<booking id>:<installment>` */
+  id: string;
+  kind: 'booking' | 'safari';
+  booking_id: string | null;
+  safari_booking_id: string | null;
+  reference: string;
+  client_id: string | null;
+  client_name: string | null;
+  currency: Currency;
+  assigned_user_id: string | null;
+  installment: 'deposit' | 'balance';
+  due_date: string;
+  amount: number;
+  outstanding: number;
+  /** Negative while the installment isn't due yet */
+  days_overdue: number;
+}
+
+/** Single-row settings for the overdue payment reminder job */
+export interface ReceivablesSettingsRow {
+  id: number;
+  reminder_interval_days: number;
+  escalation_days: number;
+  escalate_to: string[];
+  updated_at?: string;
+}
+
+// ─── clients / profiles ───────────────────────────────────────────────────────
+
+export interface ClientRow {
+  id: string;
+  company_name: string;
+  client_id?: string;
+  contact_person?: string;
+  email?: string;
+  phone_number?: string;
+  created_at?: string;
+}
+
+export interface ProfileRow {
+  id: string;
+  full_name: string | null;
+  email?: string | null;
+}
+
+// ─── audit_log ────────────────────────────────────────────────────────────────
+
+/** One column's values either side of a change; a side is absent when empty */
+export interface AuditFieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLogRow {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_name: string | null;
+  changed_at: string;
+  changes: Record<string, AuditFieldChange>;
+}
+
+/**
+ * Row type for each table, keyed by table name
+ */
+export interface Tables {
+  bookings: BookingRow;
+  vehicles: VehicleRow;
+  repairs: RepairRow;
+  vehicle_service_plans: ServicePlanRow;
+  compliance_documents: ComplianceDocumentRow;
+  fuel_logs: FuelLogRow;
+  trip_logs: TripLogRow;
+  financial_transactions: FinancialTransactionRow;
+  finance_attachments: FinanceAttachmentRow;
+  finance_budgets: FinanceBudgetRow;
+  cash_requisitions: CashRequisitionRow;
+  cr_approval_rules: CRApprovalRuleRow;
+  cr_approval_steps: CRApprovalStepRow;
+  approval_delegations: ApprovalDelegationRow;
+  safari_bookings: SafariBookingRow;
+  safari_booking_permits: SafariBookingPermitRow;
+  booking_payments: BookingPaymentRow;
+  receivable_installments: ReceivableInstallmentRow;
+  receivables_settings: ReceivablesSettingsRow;
+  clients: ClientRow;
+  profiles: ProfileRow;
+  audit_log: AuditLogRow;
+}
+
+export type TableName = keyof Tables;
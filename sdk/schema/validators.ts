@@ -0,0 +1,544 @@
+/**
+ * Row Validators
+ *
+ * Runtime checks for rows crossing the service boundary. Rows without an id
+ * are rejected; wrongly typed columns are repaired (numeric strings coerced,
+ * enum casing normalised) and reported. Enum values the app doesn't know are
+ * kept as they are and reported, so schema drift shows up rather than being
+ * masked by a different value. Columns not described here are passed through.
+ */
+
+import {
+  ATTACHMENT_KINDS,
+  AUDIT_ACTIONS,
+  BOOKING_STATUSES,
+  BUDGET_PERIODS,
+  CR_STATUSES,
+  CR_STEP_STATUSES,
+  CR_URGENCIES,
+  CURRENCIES,
+  DOCUMENT_TYPES,
+  REPAIR_PRIORITIES,
+  REPAIR_STATUSES,
+  SAFARI_BOOKING_STATUSES,
+  VEHICLE_STATUSES,
+  type AuditFieldChange,
+  type CRApprovalRuleStep,
+  type TableName,
+  type Tables,
+  type TransactionType,
+} from './tables';
+
+export interface SchemaLogger {
+  warn: (message: string) => void;
+}
+
+type RawRow = Record<string, unknown>;
+
+// ─── Column readers ───────────────────────────────────────────────────────────
+// Absent columns (not selected, or null) fall back silently; present values of
+// the wrong shape are recorded in `repairs`.
+
+function isAbsent(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function text(row: RawRow, key: string, repairs: string[]): string | undefined {
+  const value = row[key];
+  if (isAbsent(value)) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    repairs.push(`${key}: coerced ${typeof value} to string`);
+    return String(value);
+  }
+  repairs.push(`${key}: dropped ${typeof value}`);
+  return undefined;
+}
+
+function nullableText(row: RawRow, key: string, repairs: string[]): string | null {
+  return text(row, key, repairs) ?? null;
+}
+
+function firstText(row: RawRow, keys: string[], repairs: string[]): string | undefined {
+  for (const key of keys) {
+    const value = text(row, key, repairs);
+    if (value && value.trim().length > 0) return value;
+  }
+  return undefined;
+}
+
+function num(row: RawRow, key: string, repairs: string[]): number | undefined {
+  const value = row[key];
+  if (isAbsent(value)) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  repairs.push(`${key}: dropped non-numeric value`);
+  return undefined;
+}
+
+function bool(row: RawRow, key: string, repairs: string[]): boolean | undefined {
+  const value = row[key];
+  if (isAbsent(value)) return undefined;
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  repairs.push(`${key}: dropped non-boolean value`);
+  return undefined;
+}
+
+// Compare enum values ignoring case and separators ("In Progress" == "In-Progress")
+function enumKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function oneOf<T extends string>(
+  row: RawRow,
+  key: string,
+  allowed: readonly T[],
+  fallback: T,
+  repairs: string[],
+): T {
+  const value = row[key];
+  if (isAbsent(value)) return fallback;
+
+  const match = allowed.find((option) => enumKey(option) === enumKey(String(value)));
+  if (match) return match;
+
+  // Kept as is: substituting the fallback would show e.g. a cancelled row as Pending
+  repairs.push(`${key}: kept unknown value "${String(value)}"`);
+  return String(value) as T;
+}
+
+function optionalOneOf<T extends string>(
+  row: RawRow,
+  key: string,
+  allowed: readonly T[],
+  fallback: T,
+  repairs: string[],
+): T | undefined {
+  return isAbsent(row[key]) ? undefined : oneOf(row, key, allowed, fallback, repairs);
+}
+
+// The DB has stored income as 'revenue', 'booking' or 'inflow' over time
+const INCOME_ALIASES = ['income', 'revenue', 'booking', 'inflow'];
+
+function transactionType(row: RawRow, repairs: string[]): TransactionType {
+  const value = text(row, 'transaction_type', repairs);
+  if (!value) return 'expense';
+
+  const key = enumKey(value);
+  if (INCOME_ALIASES.includes(key)) return 'income';
+  if (key !== 'expense') {
+    repairs.push(`transaction_type: treated "${value}" as expense`);
+  }
+  return 'expense';
+}
+
+function auditChanges(row: RawRow, repairs: string[]): Record<string, AuditFieldChange> {
+  const value = row.changes;
+  if (isAbsent(value)) return {};
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, AuditFieldChange>;
+  }
+  repairs.push('changes: dropped non-object value');
+  return {};
+}
+
+function ruleSteps(row: RawRow, repairs: string[]): CRApprovalRuleStep[] {
+  const value = row.steps;
+  if (!Array.isArray(value)) {
+    repairs.push('steps: dropped non-array value');
+    return [];
+  }
+  return value.flatMap((step): CRApprovalRuleStep[] => {
+    if (!step || typeof step !== 'object') return [];
+    const { label, approver_id } = step as Record<string, unknown>;
+    return [{
+      label: typeof label === 'string' && label.trim() ? label : 'Approver',
+      approver_id: typeof approver_id === 'string' && approver_id ? approver_id : null,
+    }];
+  });
+}
+
+// ─── Table repairers ──────────────────────────────────────────────────────────
+
+type Repairer<K extends TableName> = (row: RawRow, repairs: string[]) => Tables[K];
+
+const repairers: { [K in TableName]: Repairer<K> } = {
+  bookings: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    booking_reference: text(row, 'booking_reference', repairs),
+    start_date: text(row, 'start_date', repairs) ?? '',
+    end_date: text(row, 'end_date', repairs) ?? '',
+    status: oneOf(row, 'status', BOOKING_STATUSES, 'Pending', repairs),
+    amount_paid: num(row, 'amount_paid', repairs) ?? 0,
+    total_amount: num(row, 'total_amount', repairs) ?? 0,
+    currency: oneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+    daily_rate: num(row, 'daily_rate', repairs),
+    number_of_days: num(row, 'number_of_days', repairs),
+    balance_due: num(row, 'balance_due', repairs),
+    is_vendor_vehicle: bool(row, 'is_vendor_vehicle', repairs),
+    vendor_hire_cost: num(row, 'vendor_hire_cost', repairs) ?? null,
+    deposit_percent: num(row, 'deposit_percent', repairs) ?? null,
+    balance_due_days: num(row, 'balance_due_days', repairs) ?? null,
+  }),
+
+  vehicles: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    license_plate: text(row, 'license_plate', repairs) ?? '',
+    make: text(row, 'make', repairs) ?? '',
+    model: text(row, 'model', repairs) ?? '',
+    capacity: text(row, 'capacity', repairs) ?? '',
+    status: oneOf(row, 'status', VEHICLE_STATUSES, 'available', repairs),
+    rating: num(row, 'rating', repairs),
+    year: num(row, 'year', repairs),
+    odometer: num(row, 'odometer', repairs),
+    daily_rate_usd: num(row, 'daily_rate_usd', repairs),
+    daily_rate_ugx: num(row, 'daily_rate_ugx', repairs),
+    portal_visible: bool(row, 'portal_visible', repairs),
+  }),
+
+  repairs: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    vehicle_id: text(row, 'vehicle_id', repairs) ?? '',
+    description: text(row, 'description', repairs) ?? '',
+    status: oneOf(row, 'status', REPAIR_STATUSES, 'open', repairs),
+    priority: oneOf(row, 'priority', REPAIR_PRIORITIES, 'medium', repairs),
+    reported_at: text(row, 'reported_at', repairs) ?? '',
+    estimated_cost: num(row, 'estimated_cost', repairs),
+    service_plan_id: nullableText(row, 'service_plan_id', repairs),
+  }),
+
+  vehicle_service_plans: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    vehicle_id: text(row, 'vehicle_id', repairs) ?? '',
+    name: text(row, 'name', repairs) ?? 'Service',
+    interval_km: num(row, 'interval_km', repairs) ?? null,
+    interval_months: num(row, 'interval_months', repairs) ?? null,
+    last_done_at: text(row, 'last_done_at', repairs) ?? '',
+    last_done_odometer: num(row, 'last_done_odometer', repairs) ?? null,
+    active: bool(row, 'active', repairs) ?? true,
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  compliance_documents: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    vehicle_id: nullableText(row, 'vehicle_id', repairs),
+    guide_id: nullableText(row, 'guide_id', repairs),
+    doc_type: oneOf(row, 'doc_type', DOCUMENT_TYPES, 'other', repairs),
+    countries: Array.isArray(row.countries) ? row.countries.map(String) : [],
+    number: nullableText(row, 'number', repairs),
+    issued_on: nullableText(row, 'issued_on', repairs),
+    expires_on: text(row, 'expires_on', repairs) ?? '',
+    file_path: nullableText(row, 'file_path', repairs),
+    file_name: nullableText(row, 'file_name', repairs),
+    notes: nullableText(row, 'notes', repairs),
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  finance_attachments: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    cr_id: nullableText(row, 'cr_id', repairs),
+    transaction_id: nullableText(row, 'transaction_id', repairs),
+    kind: oneOf(row, 'kind', ATTACHMENT_KINDS, 'receipt', repairs),
+    file_path: text(row, 'file_path', repairs) ?? '',
+    file_name: text(row, 'file_name', repairs) ?? 'Attachment',
+    mime_type: nullableText(row, 'mime_type', repairs),
+    size_bytes: num(row, 'size_bytes', repairs) ?? null,
+    uploaded_by: nullableText(row, 'uploaded_by', repairs),
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  finance_budgets: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    department: nullableText(row, 'department', repairs),
+    category: nullableText(row, 'category', repairs),
+    period: oneOf(row, 'period', BUDGET_PERIODS, 'monthly', repairs),
+    amount: num(row, 'amount', repairs) ?? 0,
+    currency: oneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+    updated_at: text(row, 'updated_at', repairs),
+  }),
+
+  fuel_logs: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    vehicle_id: text(row, 'vehicle_id', repairs) ?? '',
+    booking_id: nullableText(row, 'booking_id', repairs),
+    filled_on: text(row, 'filled_on', repairs) ?? '',
+    odometer: num(row, 'odometer', repairs) ?? 0,
+    litres: num(row, 'litres', repairs) ?? 0,
+    cost: num(row, 'cost', repairs) ?? 0,
+    currency: oneOf(row, 'currency', CURRENCIES, 'UGX', repairs),
+    station: nullableText(row, 'station', repairs),
+    full_tank: bool(row, 'full_tank', repairs) ?? true,
+    notes: nullableText(row, 'notes', repairs),
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  trip_logs: (row, repairs) => {
+    const start = num(row, 'start_odometer', repairs) ?? 0;
+    const end = num(row, 'end_odometer', repairs) ?? start;
+    return {
+      ...row,
+      id: String(row.id),
+      vehicle_id: text(row, 'vehicle_id', repairs) ?? '',
+      booking_id: nullableText(row, 'booking_id', repairs),
+      started_on: text(row, 'started_on', repairs) ?? '',
+      ended_on: text(row, 'ended_on', repairs) ?? '',
+      start_odometer: start,
+      end_odometer: end,
+      distance_km: num(row, 'distance_km', repairs) ?? end - start,
+      purpose: nullableText(row, 'purpose', repairs),
+      notes: nullableText(row, 'notes', repairs),
+      created_at: text(row, 'created_at', repairs) ?? '',
+    };
+  },
+
+  financial_transactions: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    transaction_date: text(row, 'transaction_date', repairs) ?? '',
+    amount: num(row, 'amount', repairs) ?? 0,
+    transaction_type: transactionType(row, repairs),
+    category: text(row, 'category', repairs),
+    currency: oneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+    description: text(row, 'description', repairs),
+    reference_number: text(row, 'reference_number', repairs),
+    status: text(row, 'status', repairs) ?? 'completed',
+  }),
+
+  cash_requisitions: (row, repairs) => {
+    const createdAt = text(row, 'created_at', repairs) ?? new Date().toISOString();
+    return {
+      ...row,
+      id: String(row.id),
+      cr_number: firstText(row, ['cr_number', 'reference_number'], repairs) ?? '',
+      total_cost: num(row, 'total_cost', repairs) ?? num(row, 'amount', repairs) ?? 0,
+      currency: oneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+      status: oneOf(row, 'status', CR_STATUSES, 'Pending', repairs),
+      date_needed: text(row, 'date_needed', repairs) ?? createdAt,
+      expense_category: firstText(row, ['expense_category', 'category'], repairs) ?? 'Uncategorized',
+      date_completed: nullableText(row, 'date_completed', repairs),
+      created_at: createdAt,
+      amount_usd: num(row, 'amount_usd', repairs),
+      description: firstText(row, ['description', 'purpose', 'notes', 'details', 'reason'], repairs),
+      purpose: text(row, 'purpose', repairs),
+      department: text(row, 'department', repairs),
+      payment_mode: text(row, 'payment_mode', repairs),
+      payee_name: text(row, 'payee_name', repairs),
+      requested_by: firstText(row, ['requested_by', 'requestor', 'requestedBy'], repairs),
+      requester_name: firstText(row, ['requester_name', 'requested_by', 'requestor'], repairs),
+      requester_email: text(row, 'requester_email', repairs),
+      requester_id: nullableText(row, 'requester_id', repairs),
+      approver_id: nullableText(row, 'approver_id', repairs),
+      chosen_approver_id: nullableText(row, 'chosen_approver_id', repairs),
+      approved_at: nullableText(row, 'approved_at', repairs),
+      declined_at: nullableText(row, 'declined_at', repairs),
+      vehicle_id: nullableText(row, 'vehicle_id', repairs),
+      urgency: optionalOneOf(row, 'urgency', CR_URGENCIES, 'Routine', repairs),
+      sla_due_date: nullableText(row, 'sla_due_date', repairs),
+    };
+  },
+
+  cr_approval_rules: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    min_amount_usd: num(row, 'min_amount_usd', repairs) ?? 0,
+    steps: ruleSteps(row, repairs),
+  }),
+
+  cr_approval_steps: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    cr_id: text(row, 'cr_id', repairs) ?? '',
+    round: num(row, 'round', repairs) ?? 1,
+    position: num(row, 'position', repairs) ?? 1,
+    label: text(row, 'label', repairs) ?? 'Approver',
+    approver_id: text(row, 'approver_id', repairs) ?? '',
+    status: oneOf(row, 'status', CR_STEP_STATUSES, 'waiting', repairs),
+    acted_by: nullableText(row, 'acted_by', repairs),
+    acted_at: nullableText(row, 'acted_at', repairs),
+    comment: nullableText(row, 'comment', repairs),
+    escalated_to: Array.isArray(row.escalated_to) ? row.escalated_to.map(String) : [],
+    escalated_at: nullableText(row, 'escalated_at', repairs),
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  approval_delegations: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    approver_id: text(row, 'approver_id', repairs) ?? '',
+    delegate_id: text(row, 'delegate_id', repairs) ?? '',
+    starts_on: text(row, 'starts_on', repairs) ?? '',
+    ends_on: text(row, 'ends_on', repairs) ?? '',
+    reason: nullableText(row, 'reason', repairs),
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  safari_bookings: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    booking_reference: text(row, 'booking_reference', repairs) ?? '',
+    status: oneOf(row, 'status', SAFARI_BOOKING_STATUSES, 'pending', repairs),
+    start_date: text(row, 'start_date', repairs) ?? '',
+    end_date: text(row, 'end_date', repairs),
+    pax_count: num(row, 'pax_count', repairs),
+    total_price_usd: num(row, 'total_price_usd', repairs) ?? 0,
+    total_price_ugx: num(row, 'total_price_ugx', repairs) ?? 0,
+    total_expenses_usd: num(row, 'total_expenses_usd', repairs) ?? 0,
+    total_expenses_ugx: num(row, 'total_expenses_ugx', repairs) ?? 0,
+    vehicle_hire_cost_usd: num(row, 'vehicle_hire_cost_usd', repairs) ?? 0,
+    vehicle_hire_cost_ugx: num(row, 'vehicle_hire_cost_ugx', repairs) ?? 0,
+    deposit_amount: num(row, 'deposit_amount', repairs),
+    amount_paid: num(row, 'amount_paid', repairs),
+    currency: optionalOneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+    profit_margin: num(row, 'profit_margin', repairs),
+    checklist_sent: bool(row, 'checklist_sent', repairs),
+    deposit_percent: num(row, 'deposit_percent', repairs) ?? null,
+    balance_due_days: num(row, 'balance_due_days', repairs) ?? null,
+  }),
+
+  safari_booking_permits: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    quantity: num(row, 'quantity', repairs),
+    cost_per_permit: num(row, 'cost_per_permit', repairs),
+    total_cost: num(row, 'total_cost', repairs),
+  }),
+
+  booking_payments: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    booking_id: nullableText(row, 'booking_id', repairs),
+    safari_booking_id: nullableText(row, 'safari_booking_id', repairs),
+    paid_at: text(row, 'paid_at', repairs) ?? '',
+    amount: num(row, 'amount', repairs) ?? 0,
+    currency: oneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+    method: nullableText(row, 'method', repairs),
+    reference: nullableText(row, 'reference', repairs),
+    bank_name: nullableText(row, 'bank_name', repairs),
+    transaction_id: nullableText(row, 'transaction_id', repairs),
+    notes: nullableText(row, 'notes', repairs),
+    financial_transaction_id: nullableText(row, 'financial_transaction_id', repairs),
+    recorded_by: nullableText(row, 'recorded_by', repairs),
+    created_at: text(row, 'created_at', repairs) ?? '',
+  }),
+
+  receivable_installments: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    kind: oneOf(row, 'kind', ['booking', 'safari'] as const, 'booking', repairs),
+    booking_id: nullableText(row, 'booking_id', repairs),
+    safari_booking_id: nullableText(row, 'safari_booking_id', repairs),
+    reference: text(row, 'reference', repairs) ?? '',
+    client_id: nullableText(row, 'client_id', repairs),
+    client_name: nullableText(row, 'client_name', repairs),
+    currency: oneOf(row, 'currency', CURRENCIES, 'USD', repairs),
+    assigned_user_id: nullableText(row, 'assigned_user_id', repairs),
+    installment: oneOf(row, 'installment', ['deposit', 'balance'] as const, 'balance', repairs),
+    due_date: text(row, 'due_date', repairs) ?? '',
+    amount: num(row, 'amount', repairs) ?? 0,
+    outstanding: num(row, 'outstanding', repairs) ?? 0,
+    days_overdue: num(row, 'days_overdue', repairs) ?? 0,
+  }),
+
+  receivables_settings: (row, repairs) => ({
+    ...row,
+    id: num(row, 'id', repairs) ?? 1,
+    reminder_interval_days: num(row, 'reminder_interval_days', repairs) ?? 7,
+    escalation_days: num(row, 'escalation_days', repairs) ?? 14,
+    escalate_to: Array.isArray(row.escalate_to) ? row.escalate_to.map(String) : [],
+  }),
+
+  clients: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    company_name: text(row, 'company_name', repairs) ?? '',
+  }),
+
+  profiles: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    full_name: nullableText(row, 'full_name', repairs),
+    email: nullableText(row, 'email', repairs),
+  }),
+
+  audit_log: (row, repairs) => ({
+    ...row,
+    id: String(row.id),
+    table_name: text(row, 'table_name', repairs) ?? '',
+    record_id: text(row, 'record_id', repairs) ?? '',
+    action: oneOf(row, 'action', AUDIT_ACTIONS, 'UPDATE', repairs),
+    actor_id: nullableText(row, 'actor_id', repairs),
+    actor_name: nullableText(row, 'actor_name', repairs),
+    changed_at: text(row, 'changed_at', repairs) ?? '',
+    changes: auditChanges(row, repairs),
+  }),
+};
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Repair a row without rejecting it. Problems found are appended to `repairs`.
+ */
+export function repairRow<K extends TableName>(
+  table: K,
+  row: RawRow,
+  repairs: string[] = [],
+): Tables[K] {
+  return repairers[table](row, repairs);
+}
+
+/**
+ * Validate a single row. Returns null when the row cannot be used.
+ */
+export function validateRow<K extends TableName>(
+  table: K,
+  value: unknown,
+  logger: SchemaLogger = console,
+): Tables[K] | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    logger.warn(`[Schema] Rejected ${table} row: not an object`);
+    return null;
+  }
+
+  const row = value as RawRow;
+  if ((typeof row.id !== 'string' && typeof row.id !== 'number') || row.id === '') {
+    logger.warn(`[Schema] Rejected ${table} row: missing id`);
+    return null;
+  }
+
+  const repairs: string[] = [];
+  const result = repairRow(table, row, repairs);
+  if (repairs.length > 0) {
+    logger.warn(`[Schema] Repaired ${table} ${result.id}: ${repairs.join('; ')}`);
+  }
+  return result;
+}
+
+/**
+ * Validate a result set, dropping rows that cannot be used
+ */
+export function validateRows<K extends TableName>(
+  table: K,
+  values: unknown,
+  logger: SchemaLogger = console,
+): Tables[K][] {
+  if (isAbsent(values)) return [];
+  if (!Array.isArray(values)) {
+    logger.warn(`[Schema] Expected a list of ${table} rows`);
+    return [];
+  }
+
+  return values
+    .map((value) => validateRow(table, value, logger))
+    .filter((row): row is Tables[K] => row !== null);
+}
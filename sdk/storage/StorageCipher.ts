@@ -0,0 +1,211 @@
+/**
+ * Storage Cipher
+ *
+ * Encrypts values written to AsyncStorage with a per-install key held in the
+ * device keychain (expo-secure-store). Values are sealed with
+ * XChaCha20-Poly1305 and tagged with the id of the key that sealed them, so
+ * older keys keep decrypting until a rotation has re-encrypted everything.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+
+export interface StorageCipherConfig {
+  /**
+   * Keychain entry holding the key ring
+   */
+  keyName?: string;
+}
+
+interface KeyRing {
+  current: string;
+  keys: Record<string, string>; // key id -> hex key
+}
+
+const DEFAULT_KEY_NAME = 'jackal_storage_keyring';
+const ENVELOPE_PREFIX = 'enc1:';
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+
+// Readable in the background (sync), never restored to another device
+const KEYCHAIN_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+export class StorageCipher {
+  private static sharedInstance: StorageCipher | null = null;
+
+  private keyName: string;
+  private ring: Promise<KeyRing> | null = null;
+
+  constructor(config: StorageCipherConfig = {}) {
+    this.keyName = config.keyName || DEFAULT_KEY_NAME;
+  }
+
+  /**
+   * Cipher using the default per-install key, shared by every encrypted store
+   */
+  public static get shared(): StorageCipher {
+    if (!StorageCipher.sharedInstance) {
+      StorageCipher.sharedInstance = new StorageCipher();
+    }
+    return StorageCipher.sharedInstance;
+  }
+
+  /**
+   * Check whether a stored value was written by this cipher
+   */
+  public isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Encrypt a value with the current key
+   */
+  public async encrypt(plaintext: string): Promise<string> {
+    const ring = await this.loadRing();
+    const key = hexToBytes(ring.keys[ring.current]);
+    const nonce = getRandomBytes(NONCE_BYTES);
+    const sealed = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+
+    return `${ENVELOPE_PREFIX}${ring.current}:${bytesToHex(nonce)}${bytesToHex(sealed)}`;
+  }
+
+  /**
+   * Decrypt a stored value. Values written before encryption was enabled are
+   * returned unchanged; throws when the key is gone or the value was tampered with.
+   */
+  public async decrypt(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return value;
+
+    const [keyId, payload] = value.slice(ENVELOPE_PREFIX.length).split(':');
+    const ring = await this.loadRing();
+    const keyHex = ring.keys[keyId];
+    if (!keyHex || !payload) {
+      throw new Error(`Storage key ${keyId} is not available`);
+    }
+
+    const bytes = hexToBytes(payload);
+    const nonce = bytes.subarray(0, NONCE_BYTES);
+    const sealed = bytes.subarray(NONCE_BYTES);
+    return bytesToUtf8(xchacha20poly1305(hexToBytes(keyHex), nonce).decrypt(sealed));
+  }
+
+  /**
+   * Check whether a stored value is plaintext or sealed with a retired key
+   */
+  public async needsReencryption(value: string): Promise<boolean> {
+    if (!this.isEncrypted(value)) return true;
+    const ring = await this.loadRing();
+    return !value.startsWith(`${ENVELOPE_PREFIX}${ring.current}:`);
+  }
+
+  /**
+   * Make a new key current. Previous keys still decrypt until retired.
+   */
+  public async rotateKey(): Promise<void> {
+    const ring = await this.loadRing();
+    const next = generateKey();
+    const updated: KeyRing = {
+      current: next.id,
+      keys: { ...ring.keys, [next.id]: next.key },
+    };
+
+    await this.saveRing(updated);
+  }
+
+  /**
+   * Forget every key except the current one
+   */
+  public async retireOldKeys(): Promise<void> {
+    const ring = await this.loadRing();
+    await this.saveRing({
+      current: ring.current,
+      keys: { [ring.current]: ring.keys[ring.current] },
+    });
+  }
+
+  /**
+   * Load the key ring, creating one on first use
+   */
+  private loadRing(): Promise<KeyRing> {
+    if (!this.ring) {
+      this.ring = this.readOrCreateRing().catch((error) => {
+        this.ring = null;
+        throw error;
+      });
+    }
+    return this.ring;
+  }
+
+  private async readOrCreateRing(): Promise<KeyRing> {
+    const stored = await SecureStore.getItemAsync(this.keyName);
+    if (stored) {
+      return JSON.parse(stored) as KeyRing;
+    }
+
+    const first = generateKey();
+    const ring: KeyRing = { current: first.id, keys: { [first.id]: first.key } };
+    await SecureStore.setItemAsync(this.keyName, JSON.stringify(ring), KEYCHAIN_OPTIONS);
+    return ring;
+  }
+
+  private async saveRing(ring: KeyRing): Promise<void> {
+    await SecureStore.setItemAsync(this.keyName, JSON.stringify(ring), KEYCHAIN_OPTIONS);
+    this.ring = Promise.resolve(ring);
+  }
+}
+
+function generateKey(): { id: string; key: string } {
+  return {
+    id: bytesToHex(getRandomBytes(4)),
+    key: bytesToHex(getRandomBytes(KEY_BYTES)),
+  };
+}
+
+/**
+ * Re-encrypt every AsyncStorage entry under the given key prefixes that is
+ * still plaintext or sealed with a retired key. Returns the number rewritten.
+ */
+export async function reencryptEntries(
+  cipher: StorageCipher,
+  prefixes: string[],
+): Promise<number> {
+  const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+    prefixes.some((prefix) => key.startsWith(prefix)),
+  );
+  if (keys.length === 0) return 0;
+
+  const rewritten: [string, string][] = [];
+  for (const [key, value] of await AsyncStorage.multiGet(keys)) {
+    if (value === null || !(await cipher.needsReencryption(value))) continue;
+    try {
+      rewritten.push([key, await cipher.encrypt(await cipher.decrypt(value))]);
+    } catch (error) {
+      console.warn('[Storage] Could not re-encrypt entry:', key, error);
+    }
+  }
+
+  if (rewritten.length > 0) {
+    await AsyncStorage.multiSet(rewritten);
+  }
+  return rewritten.length;
+}
+
+/**
+ * Rotate to a new key, re-encrypt the given prefixes with it, then retire the
+ * old keys. Every prefix holding encrypted values must be listed, or entries
+ * left out become unreadable.
+ */
+export async function rotateStorageKey(
+  cipher: StorageCipher,
+  prefixes: string[],
+): Promise<number> {
+  await cipher.rotateKey();
+  const count = await reencryptEntries(cipher, prefixes);
+  await cipher.retireOldKeys();
+  return count;
+}
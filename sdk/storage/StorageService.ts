@@ -1,13 +1,24 @@
 /**
  * Storage Service
  *
- * Wrapper around AsyncStorage for persistent key-value storage
+ * Wrapper around AsyncStorage for persistent key-value storage, optionally
+ * encrypted at rest
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageCipher, reencryptEntries } from './StorageCipher';
 
 export interface StorageConfig {
   prefix?: string;
+  /**
+   * Encrypt values at rest. Plaintext written before this was enabled stays
+   * readable until encryptExisting() rewrites it.
+   */
+  encrypted?: boolean;
+  /**
+   * Cipher to encrypt with. Defaults to the shared per-install cipher.
+   */
+  cipher?: StorageCipher;
 }
 
 export interface StorageItem {
@@ -17,11 +28,37 @@ export interface StorageItem {
 
 const DEFAULT_PREFIX = '@jackal_';
 
+/**
+ * Number of bytes a string takes up encoded as UTF-8
+ */
+export function utf8ByteLength(value: string): number {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4; // surrogate pair
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
+
 export class StorageService {
   private prefix: string;
+  private cipher: StorageCipher | null;
 
   constructor(config: StorageConfig = {}) {
     this.prefix = config.prefix || DEFAULT_PREFIX;
+    this.cipher = config.encrypted ? config.cipher || StorageCipher.shared : null;
+  }
+
+  /**
+   * Check whether values are encrypted at rest
+   */
+  public get isEncrypted(): boolean {
+    return this.cipher !== null;
   }
 
   /**
@@ -31,7 +68,7 @@ export class StorageService {
     try {
       const prefixedKey = this.getPrefixedKey(key);
       const value = await AsyncStorage.getItem(prefixedKey);
-      return value;
+      return value === null ? null : await this.decode(value);
     } catch (error) {
       console.error('[Storage] Error getting item:', key, error);
       return null;
@@ -44,7 +81,7 @@ export class StorageService {
   public async setItem(key: string, value: string): Promise<void> {
     try {
       const prefixedKey = this.getPrefixedKey(key);
-      await AsyncStorage.setItem(prefixedKey, value);
+      await AsyncStorage.setItem(prefixedKey, await this.encode(value));
     } catch (error) {
       console.error('[Storage] Error setting item:', key, error);
       throw error;
@@ -72,10 +109,12 @@ export class StorageService {
       const prefixedKeys = keys.map((key) => this.getPrefixedKey(key));
       const items = await AsyncStorage.multiGet(prefixedKeys);
 
-      return items.map(([key, value]) => ({
-        key: this.removePrefixFromKey(key),
-        value: value || '',
-      }));
+      return Promise.all(
+        items.map(async ([key, value]) => ({
+          key: this.removePrefixFromKey(key),
+          value: value ? await this.decode(value) : '',
+        })),
+      );
     } catch (error) {
       console.error('[Storage] Error getting multiple items:', error);
       return [];
@@ -87,10 +126,12 @@ export class StorageService {
    */
   public async multiSet(items: StorageItem[]): Promise<void> {
     try {
-      const prefixedItems = items.map(({ key, value }) => [
-        this.getPrefixedKey(key),
-        value,
-      ]) as [string, string][];
+      const prefixedItems = await Promise.all(
+        items.map(async ({ key, value }): Promise<[string, string]> => [
+          this.getPrefixedKey(key),
+          await this.encode(value),
+        ]),
+      );
 
       await AsyncStorage.multiSet(prefixedItems);
     } catch (error) {
@@ -141,10 +182,16 @@ export class StorageService {
   }
 
   /**
-   * Merge item (for objects)
+   * Merge item (for objects). Encrypted stores merge top-level keys only.
    */
   public async mergeItem(key: string, value: string): Promise<void> {
     try {
+      if (this.cipher) {
+        const current = await this.getObject<Record<string, unknown>>(key);
+        await this.setObject(key, { ...current, ...JSON.parse(value) });
+        return;
+      }
+
       const prefixedKey = this.getPrefixedKey(key);
       await AsyncStorage.mergeItem(prefixedKey, value);
     } catch (error) {
@@ -208,6 +255,46 @@ export class StorageService {
     }
   }
 
+  /**
+   * Get storage size in bytes (keys and stored values, as written to disk)
+   */
+  public async getByteSize(): Promise<number> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(this.prefix));
+      const items = await AsyncStorage.multiGet(keys);
+      return items.reduce(
+        (sum, [key, value]) => sum + utf8ByteLength(key) + (value ? utf8ByteLength(value) : 0),
+        0,
+      );
+    } catch (error) {
+      console.error('[Storage] Error getting byte size:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Encrypt entries under this prefix that are still plaintext or sealed with
+   * a retired key. Returns the number of entries rewritten.
+   */
+  public async encryptExisting(): Promise<number> {
+    if (!this.cipher) return 0;
+    return reencryptEntries(this.cipher, [this.prefix]);
+  }
+
+  /**
+   * Encrypt a value for storage
+   */
+  private encode(value: string): Promise<string> {
+    return this.cipher ? this.cipher.encrypt(value) : Promise.resolve(value);
+  }
+
+  /**
+   * Decrypt a stored value
+   */
+  private decode(value: string): Promise<string> {
+    return this.cipher ? this.cipher.decrypt(value) : Promise.resolve(value);
+  }
+
   /**
    * Get prefixed key
    */
@@ -52,9 +52,11 @@ interface BookingCardProps {
   onPress:  (booking: Booking) => void;
   onEdit?:  (booking: Booking) => void;
   onCall?:  (booking: Booking) => void;
+  /** Saved on this device but not yet synced to the server */
+  pendingSync?: boolean;
 }
 
-export function BookingCard({ booking, onPress, onEdit, onCall }: BookingCardProps) {
+export function BookingCard({ booking, onPress, onEdit, onCall, pendingSync }: BookingCardProps) {
   const translateX = useRef(new Animated.Value(0)).current;
   const isOpen     = useRef(false);
 
@@ -142,6 +144,12 @@ export function BookingCard({ booking, onPress, onEdit, onCall }: BookingCardPro
             <View style={{ flex: 1 }}>
               <Text style={s.refText}>{ref}</Text>
               <Text style={s.clientText} numberOfLines={1}>{clientName}</Text>
+              {pendingSync && (
+                <View style={s.syncPill}>
+                  <View style={[s.dot, { backgroundColor: palette.warning }]} />
+                  <Text style={s.syncPillText}>Pending sync</Text>
+                </View>
+              )}
             </View>
             <View style={[s.badge, { backgroundColor: statusCfg.bg }]}>
               <View style={[s.dot, { backgroundColor: statusCfg.dot }]} />
@@ -239,6 +247,8 @@ const s = StyleSheet.create({
   badge:     { flexDirection: 'row', alignItems: 'center', gap: 5, paddingHorizontal: 10, paddingVertical: 5, borderRadius: radius.full },
   dot:       { width: 6, height: 6, borderRadius: 3 },
   badgeText: { fontSize: 11, fontWeight: t.bold, lineHeight: 14 },
+  syncPill:     { flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-start', gap: 5, marginTop: 4, paddingHorizontal: 8, paddingVertical: 2, borderRadius: radius.full, backgroundColor: palette.warningXSoft },
+  syncPillText: { fontSize: 10, fontWeight: t.bold, color: '#7a5522', lineHeight: 13 },
 
   // Divider
   divider: { height: 1, backgroundColor: palette.border },
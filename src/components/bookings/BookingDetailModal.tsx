@@ -12,6 +12,9 @@ import { Svg, Path, Rect, Line } from 'react-native-svg';
 import type { Booking } from '../../types/dashboard';
 import { formatCurrency } from '../../lib/utils';
 import { getBookingStatusConfig } from '../../constants/bookingStatus';
+import { HistoryTimeline } from '../ui';
+import { InvoiceActions, BookingPayments } from '../finance';
+import { bookingPaymentSubject } from '../../lib/payments';
 
 // ============================================================================
 // CONSTANTS
@@ -32,6 +35,10 @@ const COLORS = {
 
 // Status colors sourced from unified constants — see src/constants/bookingStatus.ts
 
+// History labels; derived columns are saved alongside the edit that caused them
+const HISTORY_LABELS = { assigned_vehicle_id: 'Vehicle', assigned_user_id: 'Assigned to' };
+const HISTORY_HIDDEN = ['date_range', 'balance_due', 'number_of_days'];
+
 // ============================================================================
 // ICON COMPONENTS
 // ============================================================================
@@ -207,6 +214,18 @@ export function BookingDetailModal({ booking, visible, onClose, onEdit }: Bookin
             </View>
           </View>
 
+          {/* Schedule and payments ledger */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Payments</Text>
+            <BookingPayments subject={bookingPaymentSubject({ ...booking, total_amount: booking.total_amount || totalCost })} />
+          </View>
+
+          {/* Documents */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Documents</Text>
+            <InvoiceActions source={{ type: 'booking', booking, vehicleName: booking.vehicle?.name }} />
+          </View>
+
           {/* Notes Section */}
           {extBooking.notes && (
             <View style={styles.section}>
@@ -215,6 +234,17 @@ export function BookingDetailModal({ booking, visible, onClose, onEdit }: Bookin
             </View>
           )}
 
+          {/* Change history */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <HistoryTimeline
+              table="bookings"
+              recordId={booking.id}
+              fieldLabels={HISTORY_LABELS}
+              hiddenFields={HISTORY_HIDDEN}
+            />
+          </View>
+
           {/* Edit / Lock action */}
           {statusCfg.editable ? (
             <TouchableOpacity
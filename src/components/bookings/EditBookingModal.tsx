@@ -17,9 +17,17 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { Svg, Path, Rect, Circle } from 'react-native-svg';
 import { supabase } from '../../lib/supabase';
+import { queueGroup, type SyncStep } from '../../lib/offlineSync';
+import { checkVehicleAvailability } from '../../lib/vehicleAvailability';
+import {
+  allowedTransitions,
+  bookingSubject,
+  getStaffRole,
+  planTransition,
+} from '../../lib/bookingTransitions';
+import { useAuth } from '../../contexts/AuthContext';
 import {
   BOOKING_STATUS_CONFIG,
-  ALLOWED_TRANSITIONS,
   getBookingStatusConfig,
 } from '../../constants/bookingStatus';
 import type { Booking, BookingStatus, Vehicle } from '../../types/dashboard';
@@ -191,6 +199,8 @@ interface EditBookingModalProps {
 // ─── Main Component ───────────────────────────────────────────────────────────
 export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicles }: EditBookingModalProps) {
   const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const role = getStaffRole(user);
   const [saving, setSaving] = useState(false);
 
   // Form state
@@ -200,7 +210,6 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
   const [packageType,  setPackageType]  = useState('');
   const [dailyRate,    setDailyRate]    = useState('');
   const [totalCost,    setTotalCost]    = useState('');
-  const [amountPaid,   setAmountPaid]   = useState('');
   const [currency,     setCurrency]     = useState<'USD'|'UGX'|'KES'>('USD');
   const [vehicleId,    setVehicleId]    = useState('');
   const [notes,        setNotes]        = useState('');
@@ -223,7 +232,6 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
     setPackageType(b.package_type ?? '');
     setDailyRate(String(b.daily_rate ?? ''));
     setTotalCost(String(booking.total_amount ?? booking.total_cost ?? ''));
-    setAmountPaid(String(booking.amount_paid ?? ''));
     setCurrency((booking.currency as 'USD'|'UGX'|'KES') ?? 'USD');
     setVehicleId(booking.assigned_vehicle_id ?? '');
     setNotes(b.notes ?? '');
@@ -278,11 +286,12 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
     if (endDate < startDate) return 'End date must be on or after start date.';
     const cost = parseFloat(totalCost);
     if (isNaN(cost) || cost <= 0) return 'Total amount must be a positive number.';
-    const paid = parseFloat(amountPaid || '0');
-    if (isNaN(paid) || paid < 0) return 'Amount paid cannot be negative.';
-    if (paid > cost) return 'Amount paid cannot exceed total amount.';
+    const paid = booking?.amount_paid || 0;
+    if (paid > cost) return `Total amount cannot be less than the ${booking?.currency} ${paid.toLocaleString()} already paid.`;
+    // Recorded payments are in the booking's currency
+    if (paid > 0 && currency !== booking?.currency) return 'Currency cannot be changed once payments have been recorded.';
     return null;
-  }, [startDate, endDate, totalCost, amountPaid]);
+  }, [startDate, endDate, totalCost, currency, booking]);
 
   const handleSave = useCallback(async () => {
     if (!booking) return;
@@ -291,16 +300,11 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
 
     setSaving(true);
     try {
-      // ── Server-side availability gate (mirrors dashboard checkVehicleAvailability) ──
+      // ── Server-side availability gate ──
       // Run whenever a vehicle is being newly assigned or changed.
       if (vehicleId && vehicleId !== (booking.assigned_vehicle_id ?? '')) {
-        const { data: avail, error: availErr } = await supabase
-          .rpc('check_vehicle_availability', {
-            p_vehicle_id: vehicleId,
-            p_booking_id: booking.id,
-          });
-        if (!availErr && avail?.[0]?.is_available === false) {
-          const conflictRef = avail[0].conflict_booking_reference || 'another booking';
+        const { available, conflictRef } = await checkVehicleAvailability(vehicleId, booking.id);
+        if (!available) {
           Alert.alert(
             'Vehicle Unavailable',
             `This vehicle is already assigned to ${conflictRef}. Please select a different vehicle.`,
@@ -312,13 +316,16 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
       }
 
       const totalAmount  = parseFloat(totalCost);
-      const paidAmount   = parseFloat(amountPaid || '0');
+      // Amount paid is kept in step with the payments ledger by the database
+      const paidAmount   = booking.amount_paid || 0;
       const balanceDue   = totalAmount - paidAmount;
       const numDays      = countDays(startDate, endDate);
 
-      const { error } = await supabase
-        .from('bookings')
-        .update({
+      const update: SyncStep = {
+        type:     'UPDATE',
+        resource: 'bookings',
+        data: {
+          id:                  booking.id,
           status,
           start_date:          startDate,
           end_date:            endDate,
@@ -327,7 +334,6 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
           daily_rate:          parseFloat(dailyRate) || undefined,
           number_of_days:      numDays,
           total_amount:        totalAmount,
-          amount_paid:         paidAmount,
           balance_due:         balanceDue,
           currency,
           assigned_vehicle_id: vehicleId || null,
@@ -335,46 +341,61 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
           contact:             contact.trim() || undefined,
           email:               email.trim() || undefined,
           updated_at:          new Date().toISOString(),
-        })
-        .eq('id', booking.id);
-
-      if (error) throw error;
-
-      // Mirror dashboard logic exactly:
-      // - Completed / Cancelled → release vehicle to 'available'
-      // - All other active statuses → mark vehicle 'booked'
-      // This runs regardless of whether the vehicle changed, ensuring
-      // status-completions/cancellations never leave a vehicle stuck as 'booked'.
-      const targetVehicleStatus: 'booked' | 'available' =
-        (status === 'Completed' || status === 'Cancelled') ? 'available' : 'booked';
-
-      if (vehicleId) {
-        // Update assigned vehicle status based on booking status
-        await supabase.from('vehicles').update({ status: targetVehicleStatus }).eq('id', vehicleId);
-        // Release the previously-assigned vehicle if it was swapped out
-        if (booking.assigned_vehicle_id && vehicleId !== booking.assigned_vehicle_id) {
-          await supabase.from('vehicles').update({ status: 'available' }).eq('id', booking.assigned_vehicle_id);
-        }
-      } else if (booking.assigned_vehicle_id) {
-        // Vehicle was unassigned — release it
-        await supabase.from('vehicles').update({ status: 'available' }).eq('id', booking.assigned_vehicle_id);
+        },
+        options: {
+          // baseData lets the sync queue detect edits made elsewhere while this device was offline
+          baseData: booking,
+          label:    `Update ${booking.booking_reference || booking.booking_number || 'booking'}`,
+        },
+      };
+
+      // The status move is checked against the transition table, which adds its
+      // side effects (vehicle hold/release, notification) after the
+      // booking update; everything syncs as one unit, rolled back together on failure
+      const plan = planTransition(
+        bookingSubject({
+          ...booking,
+          total_amount:        totalAmount,
+          currency,
+          assigned_vehicle_id: vehicleId || undefined,
+        }),
+        status,
+        {
+          role,
+          userId:            user?.id,
+          previousVehicleId: booking.assigned_vehicle_id ?? null,
+          update,
+        },
+      );
+      if (!plan.ok) {
+        Alert.alert('Status Change Not Allowed', plan.error);
+        setSaving(false);
+        return;
       }
 
+      const result = await queueGroup(plan.steps);
+
       onSuccess();
       onClose();
-      Alert.alert('Booking Updated', `${booking.booking_reference || booking.booking_number || 'Booking'} has been updated successfully.`);
+      const ref = booking.booking_reference || booking.booking_number || 'Booking';
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', `Changes to ${ref} have been saved on this device and will sync automatically when you reconnect.`);
+      } else {
+        Alert.alert('Booking Updated', `${ref} has been updated successfully.`);
+      }
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to update booking. Please try again.');
     } finally {
       setSaving(false);
     }
-  }, [booking, status, startDate, endDate, packageType, dailyRate, totalCost, amountPaid, currency, vehicleId, notes, contact, email, validate, onSuccess, onClose]);
+  }, [booking, status, startDate, endDate, packageType, dailyRate, totalCost, currency, vehicleId, notes, contact, email, validate, role, user, onSuccess, onClose]);
 
   if (!booking) return null;
 
-  const allowedStatuses = ALLOWED_TRANSITIONS[booking.status] ?? [];
+  const allowedStatuses = allowedTransitions('booking', booking.status, role);
   const selectedVehicle = vehicles.find(v => v.id === vehicleId);
-  const balance = Math.max(0, (parseFloat(totalCost) || 0) - (parseFloat(amountPaid) || 0));
+  const paid = booking.amount_paid || 0;
+  const balance = Math.max(0, (parseFloat(totalCost) || 0) - paid);
   const statusCfg = getBookingStatusConfig(booking.status);
   const clientName = (booking as any).client?.company_name || booking.client_name || 'Unknown Client';
   const ref = booking.booking_reference || booking.booking_number || `#${booking.id.slice(0, 8).toUpperCase()}`;
@@ -463,7 +484,10 @@ export function EditBookingModal({ booking, visible, onClose, onSuccess, vehicle
                 <View style={{ flex: 1 }}>
                   <View style={fld.wrap}>
                     <Text style={fld.label}>Amount Paid</Text>
-                    <TextInput style={s.input} value={amountPaid} onChangeText={setAmountPaid} placeholder="0.00" placeholderTextColor={C.muted} keyboardType="decimal-pad" />
+                    <View style={s.readOnly}>
+                      <Text style={s.readOnlyText}>{currency} {paid.toFixed(2)}</Text>
+                    </View>
+                    <Text style={s.readOnlyHint}>Record payments from the booking's Payments section</Text>
                   </View>
                 </View>
                 <View style={{ flex: 1, marginBottom: 14 }}>
@@ -678,6 +702,7 @@ const s = StyleSheet.create({
   textarea:           { minHeight: 88, paddingTop: 12 },
   readOnly:           { backgroundColor: C.input, borderRadius: 14, paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: C.border, minHeight: 46, justifyContent: 'center' },
   readOnlyText:       { fontSize: 15, color: C.text, fontWeight: '800' },
+  readOnlyHint:       { fontSize: 11, color: C.muted, marginTop: 4 },
   dateRangePill:      { flexDirection: 'row', alignItems: 'center', gap: 8, backgroundColor: C.primary + '10', borderRadius: 12, paddingHorizontal: 14, paddingVertical: 10, marginTop: -6, marginBottom: 14, borderWidth: 1, borderColor: C.primary + '25' },
   dateRangeText:      { fontSize: 13, color: C.primary, fontWeight: '600', flex: 1 },
   saveBtn:            { backgroundColor: C.primary, borderRadius: 18, paddingVertical: 16, alignItems: 'center', marginTop: 8 },
@@ -12,6 +12,8 @@ interface TopVehicle {
   revenue: number;
   tripCount: number;
   capacity?: '7S' | '5S' | string;
+  /** Fuel cost per km driven, from the fuel and trip logs */
+  costPerKm?: number;
 }
 
 interface TopVehiclesChartProps {
@@ -45,6 +47,11 @@ const formatCurrency = (value: number, currency: string = 'USD'): string => {
   return `${currency === 'USD' ? '$' : currency}${value.toFixed(0)}`;
 };
 
+const formatCostPerKm = (value: number, currency: string = 'USD'): string =>
+  currency === 'USD'
+    ? `$${value.toFixed(2)}/km`
+    : `${currency} ${Math.round(value).toLocaleString()}/km`;
+
 export function TopVehiclesChart({
   data,
   loading = false,
@@ -145,6 +152,7 @@ export function TopVehiclesChart({
                   {formatCurrency(vehicle.revenue, currency)}
                 </Text>
                 <Text style={styles.tripsBadgeText}>
+                  {vehicle.costPerKm != null ? `${formatCostPerKm(vehicle.costPerKm, currency)} fuel · ` : ''}
                   {vehicle.tripCount} {vehicle.tripCount === 1 ? 'trip' : 'trips'}
                 </Text>
               </View>
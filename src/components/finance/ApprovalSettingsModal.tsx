@@ -0,0 +1,368 @@
+/**
+ * ApprovalSettingsModal
+ * Managers set the cash requisition approval chains by amount band; any
+ * approver can hand their approvals to a colleague while they are away.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, Platform, KeyboardAvoidingView, StyleSheet,
+} from 'react-native';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useCRApprovals } from '../../hooks/useCRApprovals';
+import { endDelegation, isActiveDelegation, saveApprovalRules, saveDelegation } from '../../lib/crApprovals';
+import { isoDay } from '../../lib/payments';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import type { ApprovalDelegationRow, CRApprovalRuleStep } from '../../../sdk/schema/tables';
+
+interface DraftRule {
+  id?: string;
+  minAmount: string;
+  steps: CRApprovalRuleStep[];
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day.slice(0, 10)}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+interface ApprovalSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId?: string;
+  /** Managers edit the rules; everyone else sees them read-only */
+  canEditRules: boolean;
+}
+
+export function ApprovalSettingsModal({ visible, onClose, userId, canEditRules }: ApprovalSettingsModalProps) {
+  const { rules, delegations, names } = useCRApprovals();
+
+  const [draft,       setDraft]       = useState<DraftRule[]>([]);
+  const [savingRules, setSavingRules] = useState(false);
+
+  const [delegateId,  setDelegateId]  = useState<string | null>(null);
+  const [startsOn,    setStartsOn]    = useState(isoDay());
+  const [endsOn,      setEndsOn]      = useState(isoDay());
+  const [reason,      setReason]      = useState('');
+  const [picking,     setPicking]     = useState<'starts' | 'ends' | null>(null);
+  const [delegating,  setDelegating]  = useState(false);
+
+  const handleShow = () => {
+    setDraft(rules.map((r) => ({ id: r.id, minAmount: String(r.min_amount_usd), steps: r.steps.map((s) => ({ ...s })) })));
+    setDelegateId(null);
+    setStartsOn(isoDay());
+    setEndsOn(isoDay());
+    setReason('');
+    setPicking(null);
+  };
+
+  const staff = Object.entries(names).sort((a, b) => a[1].localeCompare(b[1]));
+  const myDelegations = delegations.filter((d) => d.approver_id === userId);
+
+  // ── Rules ─────────────────────────────────────────────────────────────────
+
+  const updateRule = (index: number, change: Partial<DraftRule>) =>
+    setDraft((rules) => rules.map((r, i) => (i === index ? { ...r, ...change } : r)));
+
+  const updateStep = (ruleIndex: number, stepIndex: number, change: Partial<CRApprovalRuleStep>) =>
+    updateRule(ruleIndex, {
+      steps: draft[ruleIndex].steps.map((s, i) => (i === stepIndex ? { ...s, ...change } : s)),
+    });
+
+  const addRule = () => {
+    const highest = draft.reduce((max, r) => Math.max(max, parseFloat(r.minAmount) || 0), 0);
+    setDraft([...draft, {
+      minAmount: String(draft.length === 0 ? 0 : highest * 2 || 1000),
+      steps: [{ label: 'Approver', approver_id: null }],
+    }]);
+  };
+
+  const handleSaveRules = async () => {
+    const parsed = draft.map((r) => ({ ...r, min: parseFloat(r.minAmount) }));
+    if (parsed.length === 0) { Alert.alert('Validation Error', 'Keep at least one approval rule.'); return; }
+    if (parsed.some((r) => isNaN(r.min) || r.min < 0)) {
+      Alert.alert('Validation Error', 'Each band needs a starting amount of 0 or more.'); return;
+    }
+    if (!parsed.some((r) => r.min === 0)) {
+      Alert.alert('Validation Error', 'One band must start at $0 so every requisition has a chain.'); return;
+    }
+    if (new Set(parsed.map((r) => r.min)).size !== parsed.length) {
+      Alert.alert('Validation Error', 'Two bands start at the same amount.'); return;
+    }
+    if (parsed.some((r) => r.steps.length === 0)) {
+      Alert.alert('Validation Error', 'Each band needs at least one approver.'); return;
+    }
+
+    setSavingRules(true);
+    try {
+      const result = await saveApprovalRules(rules, parsed
+        .sort((a, b) => a.min - b.min)
+        .map((r) => ({ id: r.id, minAmountUsd: r.min, steps: r.steps })));
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The approval rules will sync automatically when you reconnect.');
+      } else {
+        Alert.alert('Rules Saved', 'New requisitions will follow these approval chains.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save the approval rules.');
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  // ── Delegation ────────────────────────────────────────────────────────────
+
+  const handleDate = (event: DateTimePickerEvent, date?: Date) => {
+    const field = picking;
+    if (Platform.OS !== 'ios') setPicking(null);
+    if (event.type !== 'set' || !date) return;
+    const day = isoDay(date);
+    if (field === 'starts') {
+      setStartsOn(day);
+      if (endsOn < day) setEndsOn(day);
+    } else {
+      setEndsOn(day);
+    }
+  };
+
+  const handleDelegate = async () => {
+    if (!userId) return;
+    if (!delegateId) { Alert.alert('Validation Error', 'Choose who will approve for you.'); return; }
+    if (endsOn < startsOn) { Alert.alert('Validation Error', 'The end date is before the start date.'); return; }
+
+    setDelegating(true);
+    try {
+      const name = names[delegateId] ?? 'a colleague';
+      const result = await saveDelegation({ approverId: userId, delegateId, startsOn, endsOn, reason }, name);
+      setDelegateId(null);
+      setReason('');
+      Alert.alert(
+        result.state === 'queued' ? 'Saved Offline' : 'Approvals Delegated',
+        result.state === 'queued'
+          ? 'The delegation will sync automatically when you reconnect.'
+          : `${name} can act on your requisitions from ${formatDay(startsOn)} to ${formatDay(endsOn)}.`,
+      );
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to delegate approvals.');
+    } finally {
+      setDelegating(false);
+    }
+  };
+
+  const confirmEnd = (delegation: ApprovalDelegationRow) => {
+    const name = names[delegation.delegate_id] ?? 'your delegate';
+    Alert.alert('End Delegation', `Stop ${name} acting on your requisitions?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'End',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await endDelegation(delegation, name);
+            if (result.state === 'queued') {
+              Alert.alert('Saved Offline', 'The delegation will end when you reconnect.');
+            }
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to end the delegation.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={s.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={s.header}>
+          <Text style={s.title}>Approval Settings</Text>
+          <TouchableOpacity onPress={onClose}><Text style={s.done}>Done</Text></TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={s.body} keyboardShouldPersistTaps="handled">
+          {/* Rules */}
+          <Text style={s.heading}>Approval chains</Text>
+          <Text style={s.hint}>
+            A requisition follows the band its USD amount falls in, from that band's amount up to the next.
+            "Chosen on form" is the approver the requester picks.
+          </Text>
+
+          {draft.map((rule, ruleIndex) => (
+            <View key={rule.id ?? `new-${ruleIndex}`} style={s.card}>
+              <View style={s.bandRow}>
+                <Text style={s.bandLabel}>From $</Text>
+                <TextInput
+                  style={[s.input, s.amountInput]}
+                  value={rule.minAmount}
+                  onChangeText={(minAmount) => updateRule(ruleIndex, { minAmount })}
+                  keyboardType="decimal-pad"
+                  editable={canEditRules}
+                />
+                {canEditRules && draft.length > 1 && (
+                  <TouchableOpacity onPress={() => setDraft(draft.filter((_, i) => i !== ruleIndex))}>
+                    <Text style={s.remove}>Remove band</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {rule.steps.map((step, stepIndex) => (
+                <View key={stepIndex} style={s.step}>
+                  <View style={s.bandRow}>
+                    <Text style={s.stepNumber}>{stepIndex + 1}.</Text>
+                    <TextInput
+                      style={[s.input, { flex: 1 }]}
+                      value={step.label}
+                      onChangeText={(label) => updateStep(ruleIndex, stepIndex, { label })}
+                      placeholder="Step name, e.g. Finance manager"
+                      placeholderTextColor={palette.textSoft}
+                      editable={canEditRules}
+                    />
+                    {canEditRules && rule.steps.length > 1 && (
+                      <TouchableOpacity onPress={() => updateRule(ruleIndex, { steps: rule.steps.filter((_, i) => i !== stepIndex) })}>
+                        <Text style={s.remove}>Remove</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {canEditRules ? (
+                    <View style={s.chips}>
+                      <Chip label="Chosen on form" active={step.approver_id === null}
+                        onPress={() => updateStep(ruleIndex, stepIndex, { approver_id: null })} />
+                      {staff.map(([id, name]) => (
+                        <Chip key={id} label={name} active={step.approver_id === id}
+                          onPress={() => updateStep(ruleIndex, stepIndex, { approver_id: id })} />
+                      ))}
+                    </View>
+                  ) : (
+                    <Text style={s.hint}>{step.approver_id ? names[step.approver_id] ?? 'Approver' : 'Chosen on form'}</Text>
+                  )}
+                </View>
+              ))}
+
+              {canEditRules && (
+                <TouchableOpacity
+                  onPress={() => updateRule(ruleIndex, { steps: [...rule.steps, { label: '', approver_id: null }] })}
+                >
+                  <Text style={s.link}>+ Add step</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {canEditRules && (
+            <>
+              <TouchableOpacity onPress={addRule}><Text style={s.link}>+ Add amount band</Text></TouchableOpacity>
+              <TouchableOpacity style={s.button} onPress={handleSaveRules} disabled={savingRules} activeOpacity={0.85}>
+                {savingRules ? <ActivityIndicator color={palette.textInverse} /> : <Text style={s.buttonText}>Save Rules</Text>}
+              </TouchableOpacity>
+            </>
+          )}
+
+          {/* Delegation */}
+          <Text style={[s.heading, { marginTop: spacing['6'] }]}>Away from approvals</Text>
+          <Text style={s.hint}>
+            While you are away, the colleague you choose can approve, decline or return requisitions waiting on you.
+          </Text>
+
+          {myDelegations.map((d) => (
+            <View key={d.id} style={[s.card, s.bandRow]}>
+              <View style={{ flex: 1 }}>
+                <Text style={s.delegateName}>{names[d.delegate_id] ?? 'Delegate'}</Text>
+                <Text style={s.hint}>
+                  {formatDay(d.starts_on)} – {formatDay(d.ends_on)}
+                  {isActiveDelegation(d) ? ' · Active' : ' · Upcoming'}
+                  {d.reason ? ` · ${d.reason}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => confirmEnd(d)}><Text style={s.remove}>End</Text></TouchableOpacity>
+            </View>
+          ))}
+
+          <Text style={s.label}>Delegate to</Text>
+          <View style={s.chips}>
+            {staff.filter(([id]) => id !== userId).map(([id, name]) => (
+              <Chip key={id} label={name} active={delegateId === id} onPress={() => setDelegateId(id)} />
+            ))}
+          </View>
+
+          <View style={[s.bandRow, { marginTop: spacing['3'] }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={s.label}>From</Text>
+              <TouchableOpacity style={s.input} onPress={() => setPicking(picking === 'starts' ? null : 'starts')}>
+                <Text style={s.inputText}>{formatDay(startsOn)}</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={s.label}>Until</Text>
+              <TouchableOpacity style={s.input} onPress={() => setPicking(picking === 'ends' ? null : 'ends')}>
+                <Text style={s.inputText}>{formatDay(endsOn)}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          {picking && (
+            <DateTimePicker
+              value={new Date(`${picking === 'starts' ? startsOn : endsOn}T00:00:00`)}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              minimumDate={picking === 'ends' ? new Date(`${startsOn}T00:00:00`) : new Date()}
+              onChange={handleDate}
+              themeVariant="light"
+              accentColor={palette.primary}
+            />
+          )}
+
+          <Text style={s.label}>Reason (optional)</Text>
+          <TextInput
+            style={s.input}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="e.g. Annual leave"
+            placeholderTextColor={palette.textSoft}
+          />
+
+          <TouchableOpacity style={s.button} onPress={handleDelegate} disabled={delegating} activeOpacity={0.85}>
+            {delegating ? <ActivityIndicator color={palette.textInverse} /> : <Text style={s.buttonText}>Delegate Approvals</Text>}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity style={[s.chip, active && s.chipActive]} onPress={onPress}>
+      <Text style={[s.chipText, active && s.chipTextActive]} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const s = StyleSheet.create({
+  sheet:          { flex: 1, backgroundColor: palette.bg },
+  header:         { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: spacing['4'], borderBottomWidth: 1, borderBottomColor: palette.border, backgroundColor: palette.card },
+  title:          { fontSize: t.lg, fontWeight: t.bold, color: palette.text },
+  done:           { fontSize: t.md, fontWeight: t.bold, color: palette.primary },
+  body:           { padding: spacing['5'], paddingBottom: spacing['12'], gap: spacing['2'] },
+
+  heading:        { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.6 },
+  hint:           { fontSize: t.sm, color: palette.textMuted, lineHeight: t.sm * t.normal },
+  label:          { fontSize: t.sm, fontWeight: t.bold, color: palette.textMuted, marginTop: spacing['2'], marginBottom: spacing['1'] },
+
+  card:           { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.lg, padding: spacing['4'], gap: spacing['3'] },
+  bandRow:        { flexDirection: 'row', alignItems: 'center', gap: spacing['2'] },
+  bandLabel:      { fontSize: t.base, fontWeight: t.bold, color: palette.text },
+  amountInput:    { flex: 1, fontWeight: t.bold },
+  step:           { gap: spacing['2'] },
+  stepNumber:     { fontSize: t.base, fontWeight: t.bold, color: palette.textMuted, width: 18 },
+  delegateName:   { fontSize: t.md, fontWeight: t.bold, color: palette.text },
+
+  input:          { backgroundColor: palette.surface, borderRadius: radius.md, paddingHorizontal: spacing['3'], paddingVertical: spacing['3'], fontSize: t.base, color: palette.text },
+  inputText:      { fontSize: t.base, color: palette.text },
+  chips:          { flexDirection: 'row', flexWrap: 'wrap', gap: spacing['2'] },
+  chip:           { paddingHorizontal: spacing['3'], paddingVertical: 6, borderRadius: radius.full, borderWidth: 1, borderColor: palette.border, backgroundColor: palette.card, maxWidth: 180 },
+  chipActive:     { borderColor: palette.primary, backgroundColor: palette.primarySoft },
+  chipText:       { fontSize: t.sm, color: palette.text },
+  chipTextActive: { fontWeight: t.bold, color: palette.primary },
+
+  link:           { fontSize: t.base, fontWeight: t.bold, color: palette.primary, paddingVertical: spacing['1'] },
+  remove:         { fontSize: t.sm, fontWeight: t.bold, color: palette.danger },
+  button:         { backgroundColor: palette.primary, borderRadius: radius.md, paddingVertical: spacing['4'], alignItems: 'center', marginTop: spacing['3'] },
+  buttonText:     { fontSize: t.md, fontWeight: t.extrabold, color: palette.textInverse },
+});
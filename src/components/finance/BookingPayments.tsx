@@ -0,0 +1,410 @@
+/**
+ * BookingPayments
+ * Payment schedule, ledger and "Record Payment" form for a booking's detail
+ * view. Totals come from the ledger itself, so the panel is current as soon
+ * as a payment lands, before the booking row catches up.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, Platform, KeyboardAvoidingView, StyleSheet,
+} from 'react-native';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useAuth } from '../../contexts/AuthContext';
+import { useBookingPayments } from '../../hooks/useBookingPayments';
+import { getStaffRole } from '../../lib/bookingTransitions';
+import { formatCurrency } from '../../lib/utils';
+import {
+  PAYMENT_METHODS,
+  DEFAULT_SCHEDULES,
+  buildInstallments,
+  nextInstallment,
+  paymentMethodLabel,
+  paymentDetailsError,
+  recordPayment,
+  removePayment,
+  saveSchedule,
+  isoDay,
+  type InstallmentStatus,
+  type PaymentMethod,
+  type PaymentSubject,
+} from '../../lib/payments';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import type { BookingPaymentRow } from '../../../sdk/schema/tables';
+
+const STATUS_STYLE: Record<InstallmentStatus, { label: string; bg: string; text: string }> = {
+  paid:     { label: 'Paid',     bg: palette.successSoft, text: palette.success },
+  overdue:  { label: 'Overdue',  bg: palette.dangerSoft,  text: palette.danger },
+  due_soon: { label: 'Due soon', bg: palette.warningSoft, text: palette.warning },
+  upcoming: { label: 'Upcoming', bg: palette.surface,     text: palette.textMuted },
+};
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function BookingPayments({ subject }: { subject: PaymentSubject }) {
+  const { user } = useAuth();
+  const role = getStaffRole(user);
+  const { payments, loading } = useBookingPayments(subject.kind, subject.id);
+  const [recording, setRecording] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState(false);
+
+  // The ledger is the source of truth; fall back to the booking's own total
+  // until it loads
+  const paid = loading && payments.length === 0
+    ? subject.paid
+    : payments.reduce((sum, p) => sum + p.amount, 0);
+  const live = { ...subject, paid };
+  const installments = buildInstallments(live);
+  const next = nextInstallment(installments);
+  const { depositPercent, balanceDueDays } = subject.schedule;
+
+  const confirmRemove = (payment: BookingPaymentRow) => {
+    Alert.alert(
+      'Remove Payment',
+      `Remove the ${formatCurrency(payment.amount, payment.currency)} payment of ${formatDay(payment.paid_at)}? Only do this for a payment entered by mistake.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const result = await removePayment(payment, subject.reference);
+              if (result.state === 'queued') {
+                Alert.alert('Saved Offline', 'The payment will be removed when you reconnect.');
+              }
+            } catch (e: any) {
+              Alert.alert('Error', e?.message || 'Failed to remove the payment.');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View>
+      {/* Schedule */}
+      <View style={s.scheduleRow}>
+        <Text style={s.scheduleText}>
+          {subject.depositAmount != null
+            ? `${formatCurrency(subject.depositAmount, subject.currency)} deposit`
+            : `${depositPercent}% deposit`}
+          {' · '}
+          {balanceDueDays > 0 ? `balance ${balanceDueDays} days before start` : 'balance on start date'}
+          {!subject.customSchedule && subject.depositAmount == null ? ' (default)' : ''}
+        </Text>
+        <TouchableOpacity onPress={() => setEditingSchedule(true)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={s.link}>Change</Text>
+        </TouchableOpacity>
+      </View>
+
+      {installments.map((item) => {
+        const st = STATUS_STYLE[item.status];
+        return (
+          <View key={item.key} style={s.installment}>
+            <View style={{ flex: 1 }}>
+              <Text style={s.installmentLabel}>{item.label}</Text>
+              <Text style={s.installmentDue}>Due {formatDay(item.dueDate)}</Text>
+            </View>
+            <View style={{ alignItems: 'flex-end', gap: 4 }}>
+              <Text style={s.installmentAmount}>{formatCurrency(item.amount, subject.currency)}</Text>
+              <View style={[s.chip, { backgroundColor: st.bg }]}>
+                <Text style={[s.chipText, { color: st.text }]}>
+                  {item.paid > 0 && item.outstanding > 0
+                    ? `${formatCurrency(item.outstanding, subject.currency)} left`
+                    : st.label}
+                </Text>
+              </View>
+            </View>
+          </View>
+        );
+      })}
+
+      {/* Ledger */}
+      <Text style={s.subheading}>Payments Received</Text>
+      {loading && payments.length === 0 ? (
+        <ActivityIndicator size="small" color={palette.primary} style={{ alignSelf: 'flex-start' }} />
+      ) : payments.length === 0 ? (
+        <Text style={s.empty}>No payments recorded yet.</Text>
+      ) : payments.map((p) => (
+        <View key={p.id} style={s.payment}>
+          <View style={{ flex: 1 }}>
+            <Text style={s.paymentAmount}>{formatCurrency(p.amount, p.currency)}</Text>
+            <Text style={s.paymentMeta}>
+              {formatDay(p.paid_at)} · {paymentMethodLabel(p.method)}
+              {p.bank_name ? ` · ${p.bank_name}` : ''}
+            </Text>
+            {!!(p.transaction_id || p.reference) && (
+              <Text style={s.paymentMeta} numberOfLines={1}>
+                {[p.transaction_id, p.reference].filter(Boolean).join(' · ')}
+              </Text>
+            )}
+            {!!p.notes && <Text style={s.paymentNotes}>{p.notes}</Text>}
+          </View>
+          {role !== 'staff' && (
+            <TouchableOpacity onPress={() => confirmRemove(p)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Text style={s.remove}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      <TouchableOpacity style={s.recordBtn} onPress={() => setRecording(true)} activeOpacity={0.85}>
+        <Text style={s.recordBtnText}>Record Payment</Text>
+      </TouchableOpacity>
+
+      <RecordPaymentModal
+        visible={recording}
+        subject={live}
+        suggestedAmount={next?.outstanding ?? 0}
+        userId={user?.id}
+        onClose={() => setRecording(false)}
+      />
+      <ScheduleModal
+        visible={editingSchedule}
+        subject={subject}
+        onClose={() => setEditingSchedule(false)}
+      />
+    </View>
+  );
+}
+
+// ─── Record payment ───────────────────────────────────────────────────────────
+
+interface RecordPaymentModalProps {
+  visible: boolean;
+  subject: PaymentSubject;
+  suggestedAmount: number;
+  userId?: string;
+  onClose: () => void;
+}
+
+function RecordPaymentModal({ visible, subject, suggestedAmount, userId, onClose }: RecordPaymentModalProps) {
+  const [amount,        setAmount]        = useState('');
+  const [paidAt,        setPaidAt]        = useState(isoDay());
+  const [method,        setMethod]        = useState<PaymentMethod>('cash');
+  const [transactionId, setTransactionId] = useState('');
+  const [bankName,      setBankName]      = useState('');
+  const [reference,     setReference]     = useState('');
+  const [notes,         setNotes]         = useState('');
+  const [pickingDate,   setPickingDate]   = useState(false);
+  const [saving,        setSaving]        = useState(false);
+
+  const balance = Math.max(0, subject.total - subject.paid);
+
+  const handleShow = () => {
+    setAmount(suggestedAmount > 0 ? String(suggestedAmount) : '');
+    setPaidAt(isoDay());
+    setMethod('cash');
+    setTransactionId(''); setBankName(''); setReference(''); setNotes('');
+    setPickingDate(false);
+  };
+
+  const handleDate = (event: DateTimePickerEvent, date?: Date) => {
+    if (Platform.OS !== 'ios') setPickingDate(false);
+    if (event.type === 'set' && date) setPaidAt(isoDay(date));
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) { Alert.alert('Validation Error', 'Enter the amount received.'); return; }
+    if (value > balance) {
+      Alert.alert('Validation Error', `The balance is ${formatCurrency(balance, subject.currency)}; a payment can't exceed it.`);
+      return;
+    }
+    const detailsError = paymentDetailsError(method, transactionId, bankName);
+    if (detailsError) { Alert.alert('Validation Error', detailsError); return; }
+
+    setSaving(true);
+    try {
+      const result = await recordPayment(subject, {
+        paidAt, amount: value, method, transactionId, bankName, reference, notes,
+      }, userId);
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The payment has been saved on this device and will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to record the payment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={s.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={s.sheetHeader}>
+          <TouchableOpacity onPress={onClose}><Text style={s.cancel}>Cancel</Text></TouchableOpacity>
+          <Text style={s.sheetTitle}>Record Payment</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color={palette.primary} /> : <Text style={s.save}>Save</Text>}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={s.sheetBody} keyboardShouldPersistTaps="handled">
+          <Text style={s.sheetHint}>
+            {subject.reference} · balance {formatCurrency(balance, subject.currency)}
+          </Text>
+
+          <Text style={s.label}>Amount ({subject.currency})</Text>
+          <TextInput style={s.input} value={amount} onChangeText={setAmount} placeholder="0.00" placeholderTextColor={palette.textSoft} keyboardType="decimal-pad" />
+
+          <Text style={s.label}>Date Received</Text>
+          <TouchableOpacity style={s.input} onPress={() => setPickingDate((open) => !open)} activeOpacity={0.8}>
+            <Text style={s.inputText}>{formatDay(paidAt)}</Text>
+          </TouchableOpacity>
+          {pickingDate && (
+            <DateTimePicker
+              value={new Date(`${paidAt}T00:00:00`)}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              maximumDate={new Date()}
+              onChange={handleDate}
+              themeVariant="light"
+              accentColor={palette.primary}
+            />
+          )}
+
+          <Text style={s.label}>Method</Text>
+          <View style={s.methods}>
+            {PAYMENT_METHODS.map((m) => (
+              <TouchableOpacity
+                key={m.value}
+                style={[s.method, method === m.value && s.methodActive]}
+                onPress={() => setMethod(m.value)}
+              >
+                <Text style={[s.methodText, method === m.value && s.methodTextActive]}>{m.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {method !== 'cash' && (
+            <>
+              <Text style={s.label}>Transaction ID</Text>
+              <TextInput style={s.input} value={transactionId} onChangeText={setTransactionId} placeholder="As shown on the receipt" placeholderTextColor={palette.textSoft} autoCapitalize="characters" />
+            </>
+          )}
+          {method === 'bank_transfer' && (
+            <>
+              <Text style={s.label}>Bank</Text>
+              <TextInput style={s.input} value={bankName} onChangeText={setBankName} placeholder="e.g. Stanbic Bank" placeholderTextColor={palette.textSoft} />
+            </>
+          )}
+
+          <Text style={s.label}>Reference</Text>
+          <TextInput style={s.input} value={reference} onChangeText={setReference} placeholder="Receipt or invoice number (optional)" placeholderTextColor={palette.textSoft} />
+
+          <Text style={s.label}>Notes</Text>
+          <TextInput style={[s.input, { minHeight: 72 }]} value={notes} onChangeText={setNotes} placeholder="Optional" placeholderTextColor={palette.textSoft} multiline textAlignVertical="top" />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ─── Schedule ─────────────────────────────────────────────────────────────────
+
+function ScheduleModal({ visible, subject, onClose }: { visible: boolean; subject: PaymentSubject; onClose: () => void }) {
+  const [depositPercent, setDepositPercent] = useState('');
+  const [balanceDueDays, setBalanceDueDays] = useState('');
+  const [saving,         setSaving]         = useState(false);
+  const defaults = DEFAULT_SCHEDULES[subject.kind];
+
+  const handleShow = () => {
+    setDepositPercent(String(subject.schedule.depositPercent));
+    setBalanceDueDays(String(subject.schedule.balanceDueDays));
+  };
+
+  const save = async (useDefault: boolean) => {
+    const percent = parseFloat(depositPercent);
+    const days = parseInt(balanceDueDays, 10);
+    if (!useDefault && (isNaN(percent) || percent < 0 || percent > 100)) {
+      Alert.alert('Validation Error', 'Deposit must be between 0 and 100%.'); return;
+    }
+    if (!useDefault && (isNaN(days) || days < 0)) {
+      Alert.alert('Validation Error', 'Days before start cannot be negative.'); return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveSchedule(subject, useDefault ? null : { depositPercent: percent, balanceDueDays: days });
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The schedule will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to update the schedule.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <View style={s.sheet}>
+        <View style={s.sheetHeader}>
+          <TouchableOpacity onPress={onClose}><Text style={s.cancel}>Cancel</Text></TouchableOpacity>
+          <Text style={s.sheetTitle}>Payment Schedule</Text>
+          <TouchableOpacity onPress={() => save(false)} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color={palette.primary} /> : <Text style={s.save}>Save</Text>}
+          </TouchableOpacity>
+        </View>
+        <View style={s.sheetBody}>
+          <Text style={s.label}>Deposit (% of total, due when booked)</Text>
+          <TextInput style={s.input} value={depositPercent} onChangeText={setDepositPercent} keyboardType="decimal-pad" />
+          <Text style={s.label}>Balance due (days before start)</Text>
+          <TextInput style={s.input} value={balanceDueDays} onChangeText={setBalanceDueDays} keyboardType="number-pad" />
+          {subject.customSchedule && (
+            <TouchableOpacity style={s.defaultBtn} onPress={() => save(true)} disabled={saving}>
+              <Text style={s.link}>
+                Use default ({defaults.depositPercent}% deposit, balance {defaults.balanceDueDays} days before)
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const s = StyleSheet.create({
+  scheduleRow:       { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: spacing['2'], marginBottom: spacing['2'] },
+  scheduleText:      { flex: 1, fontSize: t.sm, color: palette.textMuted },
+  link:              { fontSize: t.sm, fontWeight: t.bold, color: palette.primary },
+  installment:       { flexDirection: 'row', alignItems: 'center', paddingVertical: spacing['3'], borderBottomWidth: 1, borderBottomColor: palette.border },
+  installmentLabel:  { fontSize: t.base, fontWeight: t.bold, color: palette.text },
+  installmentDue:    { fontSize: t.sm, color: palette.textMuted, marginTop: 2 },
+  installmentAmount: { fontSize: t.base, fontWeight: t.bold, color: palette.text },
+  chip:              { paddingHorizontal: spacing['2'], paddingVertical: 2, borderRadius: radius.full },
+  chipText:          { fontSize: t.xs, fontWeight: t.bold },
+  subheading:        { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.4, marginTop: spacing['4'], marginBottom: spacing['2'] },
+  empty:             { fontSize: t.sm, color: palette.textMuted },
+  payment:           { flexDirection: 'row', alignItems: 'flex-start', gap: spacing['3'], paddingVertical: spacing['2'] },
+  paymentAmount:     { fontSize: t.base, fontWeight: t.bold, color: palette.success },
+  paymentMeta:       { fontSize: t.sm, color: palette.textMuted, marginTop: 2 },
+  paymentNotes:      { fontSize: t.sm, color: palette.text, marginTop: 2 },
+  remove:            { fontSize: t.sm, fontWeight: t.semibold, color: palette.danger },
+  recordBtn:         { marginTop: spacing['3'], paddingVertical: spacing['3'], borderRadius: radius.md, backgroundColor: palette.primary, alignItems: 'center' },
+  recordBtnText:     { fontSize: t.base, fontWeight: t.bold, color: palette.white },
+
+  sheet:             { flex: 1, backgroundColor: palette.bg },
+  sheetHeader:       { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: spacing['5'], paddingVertical: spacing['4'], borderBottomWidth: 1, borderBottomColor: palette.border, backgroundColor: palette.card },
+  sheetTitle:        { fontSize: t.lg, fontWeight: t.bold, color: palette.text },
+  cancel:            { fontSize: t.md, color: palette.textMuted },
+  save:              { fontSize: t.md, fontWeight: t.bold, color: palette.primary },
+  sheetBody:         { padding: spacing['5'], paddingBottom: spacing['12'] },
+  sheetHint:         { fontSize: t.sm, color: palette.textMuted, marginBottom: spacing['2'] },
+  label:             { fontSize: t.sm, fontWeight: t.bold, color: palette.textMuted, marginTop: spacing['4'], marginBottom: spacing['2'] },
+  input:             { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.md, paddingHorizontal: spacing['3'], paddingVertical: spacing['3'], fontSize: t.md, color: palette.text },
+  inputText:         { fontSize: t.md, color: palette.text },
+  methods:           { flexDirection: 'row', flexWrap: 'wrap', gap: spacing['2'] },
+  method:            { paddingHorizontal: spacing['3'], paddingVertical: spacing['2'], borderRadius: radius.full, borderWidth: 1, borderColor: palette.border, backgroundColor: palette.card },
+  methodActive:      { borderColor: palette.primary, backgroundColor: palette.primarySoft },
+  methodText:        { fontSize: t.sm, color: palette.text },
+  methodTextActive:  { fontWeight: t.bold, color: palette.primary },
+  defaultBtn:        { marginTop: spacing['5'] },
+});
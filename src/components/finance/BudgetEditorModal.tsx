@@ -0,0 +1,199 @@
+/**
+ * BudgetEditorModal
+ * Managers add, change or remove a recurring budget for a department,
+ * an expense category, or both.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, Platform, KeyboardAvoidingView, StyleSheet,
+} from 'react-native';
+import {
+  BUDGET_PERIOD_LABELS,
+  DEPARTMENTS,
+  EXPENSE_CATEGORIES,
+  budgetLabel,
+  removeBudget,
+  saveBudget,
+} from '../../lib/budgets';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import { BUDGET_PERIODS, CURRENCIES, type BudgetPeriod, type Currency, type FinanceBudgetRow } from '../../../sdk/schema/tables';
+
+function Chips<T extends string | null>({ options, value, onChange, label }: {
+  options: T[];
+  value: T;
+  onChange: (value: T) => void;
+  label: (value: T) => string;
+}) {
+  return (
+    <View style={s.chips}>
+      {options.map((option) => {
+        const active = option === value;
+        return (
+          <TouchableOpacity key={option ?? 'all'} style={[s.chip, active && s.chipActive]} onPress={() => onChange(option)}>
+            <Text style={[s.chipText, active && s.chipTextActive]}>{label(option)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+interface BudgetEditorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** The budget to edit; null adds a new one */
+  budget: FinanceBudgetRow | null;
+  /** Every budget, to stop two covering the same scope and period */
+  budgets: FinanceBudgetRow[];
+}
+
+export function BudgetEditorModal({ visible, onClose, budget, budgets }: BudgetEditorModalProps) {
+  const [department, setDepartment] = useState<string | null>(null);
+  const [category,   setCategory]   = useState<string | null>(null);
+  const [period,     setPeriod]     = useState<BudgetPeriod>('monthly');
+  const [amount,     setAmount]     = useState('');
+  const [currency,   setCurrency]   = useState<Currency>('USD');
+  const [saving,     setSaving]     = useState(false);
+
+  const handleShow = () => {
+    setDepartment(budget?.department ?? null);
+    setCategory(budget?.category ?? null);
+    setPeriod(budget?.period ?? 'monthly');
+    setAmount(budget ? String(budget.amount) : '');
+    setCurrency(budget?.currency ?? 'USD');
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      Alert.alert('Validation Error', 'Budget amount must be a positive number.');
+      return;
+    }
+    const clash = budgets.find((b) =>
+      b.id !== budget?.id && b.department === department && b.category === category && b.period === period);
+    if (clash) {
+      Alert.alert('Budget Exists', `There is already a ${BUDGET_PERIOD_LABELS[period].toLowerCase()} budget for ${budgetLabel(clash)}. Edit that one instead.`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveBudget({ department, category, period, amount: value, currency }, budget?.id);
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The budget has been saved on this device and will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save budget.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!budget) return;
+    Alert.alert('Remove Budget', `Remove the ${BUDGET_PERIOD_LABELS[budget.period].toLowerCase()} budget for ${budgetLabel(budget)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeBudget(budget);
+            onClose();
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to remove budget.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={s.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={s.header}>
+          <Text style={s.title}>{budget ? 'Edit Budget' : 'New Budget'}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={s.done}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={s.body} keyboardShouldPersistTaps="handled">
+          <Text style={s.label}>Department</Text>
+          <Chips
+            options={[null, ...DEPARTMENTS]}
+            value={department}
+            onChange={setDepartment}
+            label={(d) => d ?? 'All departments'}
+          />
+          <Text style={s.hint}>A budget for all departments also counts expense transactions, which have no department.</Text>
+
+          <Text style={s.label}>Category</Text>
+          <Chips
+            options={[null, ...EXPENSE_CATEGORIES]}
+            value={category}
+            onChange={setCategory}
+            label={(c) => c ?? 'All categories'}
+          />
+
+          <Text style={s.label}>Period</Text>
+          <Chips
+            options={[...BUDGET_PERIODS]}
+            value={period}
+            onChange={setPeriod}
+            label={(p) => BUDGET_PERIOD_LABELS[p]}
+          />
+
+          <Text style={s.label}>Amount</Text>
+          <View style={s.amountRow}>
+            <TextInput
+              style={[s.input, s.amountInput]}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              placeholder="0.00"
+              placeholderTextColor={palette.textMuted}
+            />
+            <Chips options={[...CURRENCIES]} value={currency} onChange={setCurrency} label={(c) => c} />
+          </View>
+
+          <TouchableOpacity style={[s.button, saving && { opacity: 0.6 }]} onPress={handleSave} disabled={saving}>
+            {saving ? <ActivityIndicator color={palette.textInverse} /> : <Text style={s.buttonText}>Save Budget</Text>}
+          </TouchableOpacity>
+          {budget && (
+            <TouchableOpacity onPress={handleRemove} style={s.removeWrap}>
+              <Text style={s.remove}>Remove budget</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const s = StyleSheet.create({
+  sheet:          { flex: 1, backgroundColor: palette.bg },
+  header:         { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: spacing['4'], borderBottomWidth: 1, borderBottomColor: palette.border, backgroundColor: palette.card },
+  title:          { fontSize: t.lg, fontWeight: t.bold, color: palette.text },
+  done:           { fontSize: t.md, fontWeight: t.bold, color: palette.primary },
+  body:           { padding: spacing['5'], paddingBottom: spacing['12'], gap: spacing['2'] },
+
+  label:          { fontSize: t.sm, fontWeight: t.bold, color: palette.textMuted, marginTop: spacing['2'], marginBottom: spacing['1'] },
+  hint:           { fontSize: t.sm, color: palette.textMuted, lineHeight: t.sm * t.normal },
+
+  input:          { backgroundColor: palette.surface, borderRadius: radius.md, paddingHorizontal: spacing['3'], paddingVertical: spacing['3'], fontSize: t.base, color: palette.text },
+  amountRow:      { flexDirection: 'row', alignItems: 'center', gap: spacing['2'] },
+  amountInput:    { flex: 1, fontWeight: t.bold },
+  chips:          { flexDirection: 'row', flexWrap: 'wrap', gap: spacing['2'] },
+  chip:           { paddingHorizontal: spacing['3'], paddingVertical: 6, borderRadius: radius.full, borderWidth: 1, borderColor: palette.border, backgroundColor: palette.card },
+  chipActive:     { borderColor: palette.primary, backgroundColor: palette.primarySoft },
+  chipText:       { fontSize: t.sm, color: palette.text },
+  chipTextActive: { fontWeight: t.bold, color: palette.primary },
+
+  button:         { backgroundColor: palette.primary, borderRadius: radius.md, paddingVertical: spacing['4'], alignItems: 'center', marginTop: spacing['3'] },
+  buttonText:     { fontSize: t.md, fontWeight: t.extrabold, color: palette.textInverse },
+  removeWrap:     { alignItems: 'center', paddingVertical: spacing['3'] },
+  remove:         { fontSize: t.sm, fontWeight: t.bold, color: palette.danger },
+});
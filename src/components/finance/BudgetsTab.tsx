@@ -0,0 +1,220 @@
+/**
+ * BudgetsTab
+ * Budget vs actual for each department and category budget this period.
+ * The bar shows what has been spent, what pending requisitions would add,
+ * and a marker for where an even burn would be by today; the projection
+ * says where spend ends up at the current rate.
+ */
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, FlatList, RefreshControl, StyleSheet } from 'react-native';
+import { useBudgets } from '../../hooks/useBudgets';
+import { useExchangeRate, getConversionRates, convertFromBaseCurrency } from '../../hooks/useExchangeRate';
+import { BUDGET_PERIOD_LABELS, budgetLabel, type BudgetState, type BudgetUsage } from '../../lib/budgets';
+import { formatCurrency } from '../../lib/utils';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import type { BudgetPeriod, Currency, FinanceBudgetRow } from '../../../sdk/schema/tables';
+import { BudgetEditorModal } from './BudgetEditorModal';
+
+const STATE_LABELS: Record<BudgetState, string> = {
+  on_track: 'On track',
+  at_risk:  'At risk',
+  over:     'Over budget',
+};
+
+const STATE_COLORS: Record<BudgetState, string> = {
+  on_track: palette.success,
+  at_risk:  palette.warning,
+  over:     palette.danger,
+};
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+}
+
+function BudgetCard({ usage, money, onPress }: {
+  usage: BudgetUsage;
+  money: (usd: number) => string;
+  onPress?: () => void;
+}) {
+  const { budget, range, limitUsd, spentUsd, committedUsd, remainingUsd, expectedUsd, projectedUsd, state } = usage;
+  const scale = Math.max(limitUsd, spentUsd + committedUsd, 1);
+  const color = STATE_COLORS[state];
+
+  return (
+    <TouchableOpacity style={s.card} onPress={onPress} disabled={!onPress} activeOpacity={0.8}>
+      <View style={s.cardTop}>
+        <View style={{ flex: 1 }}>
+          <Text style={s.cardTitle}>{budgetLabel(budget)}</Text>
+          <Text style={s.cardSub}>
+            {BUDGET_PERIOD_LABELS[budget.period]} · {formatDay(range.from)} – {formatDay(range.to)}
+          </Text>
+        </View>
+        <View style={[s.badge, { backgroundColor: color + '20' }]}>
+          <Text style={[s.badgeText, { color }]}>{STATE_LABELS[state]}</Text>
+        </View>
+      </View>
+
+      <View style={s.bar}>
+        <View style={[s.barFill, { width: `${(Math.min(spentUsd, scale) / scale) * 100}%`, backgroundColor: color }]} />
+        {committedUsd > 0 && (
+          <View style={[s.barFill, { width: `${(committedUsd / scale) * 100}%`, backgroundColor: color + '40' }]} />
+        )}
+        <View style={[s.marker, { left: `${(expectedUsd / scale) * 100}%` }]} />
+      </View>
+
+      <View style={s.figures}>
+        <Text style={s.figure}>
+          <Text style={s.figureStrong}>{money(spentUsd)}</Text> of {money(limitUsd)}
+        </Text>
+        <Text style={[s.figure, remainingUsd < 0 && { color: palette.danger }]}>
+          {remainingUsd >= 0 ? `${money(remainingUsd)} left` : `${money(-remainingUsd)} over`}
+        </Text>
+      </View>
+      <Text style={s.note}>
+        {committedUsd > 0 ? `${money(committedUsd)} pending approval · ` : ''}
+        Projected {money(projectedUsd)} by {formatDay(range.to)}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+interface BudgetsTabProps {
+  currency: Currency;
+  /** Managers add and edit budgets; everyone else sees them */
+  canEdit: boolean;
+  refreshing: boolean;
+  onRefresh: () => void;
+}
+
+export function BudgetsTab({ currency, canEdit, refreshing, onRefresh }: BudgetsTabProps) {
+  const { budgets, usage, loading, refetch } = useBudgets();
+  const { exchangeRates } = useExchangeRate();
+  const [period,  setPeriod]  = useState<BudgetPeriod | 'all'>('all');
+  const [editing, setEditing] = useState<FinanceBudgetRow | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+
+  const money = (usd: number) => formatCurrency(convertFromBaseCurrency(usd, currency, getConversionRates(exchangeRates)), currency);
+
+  // Worst first, so overruns are the first thing seen
+  const rows = useMemo(() => {
+    const rank: Record<BudgetState, number> = { over: 0, at_risk: 1, on_track: 2 };
+    return usage
+      .filter((u) => period === 'all' || u.budget.period === period)
+      .sort((a, b) => rank[a.state] - rank[b.state] || b.spentUsd / (b.limitUsd || 1) - a.spentUsd / (a.limitUsd || 1));
+  }, [usage, period]);
+
+  const overCount = usage.filter((u) => u.state === 'over').length;
+  const riskCount = usage.filter((u) => u.state === 'at_risk').length;
+
+  const openEditor = (budget: FinanceBudgetRow | null) => {
+    setEditing(budget);
+    setShowEditor(true);
+  };
+
+  return (
+    <>
+      <FlatList
+        data={rows}
+        keyExtractor={(u) => u.budget.id}
+        renderItem={({ item }) => (
+          <BudgetCard usage={item} money={money} onPress={canEdit ? () => openEditor(item.budget) : undefined} />
+        )}
+        contentContainerStyle={s.list}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => { onRefresh(); refetch(); }}
+            tintColor={palette.primary}
+            colors={[palette.primary]}
+          />
+        }
+        ListHeaderComponent={
+          <View style={s.header}>
+            <View style={s.summaryRow}>
+              <View style={[s.summary, { backgroundColor: palette.dangerSoft }]}>
+                <Text style={s.summaryLabel}>Over Budget</Text>
+                <Text style={[s.summaryValue, { color: palette.danger }]}>{overCount}</Text>
+              </View>
+              <View style={[s.summary, { backgroundColor: palette.warningXSoft }]}>
+                <Text style={s.summaryLabel}>At Risk</Text>
+                <Text style={[s.summaryValue, { color: palette.warning }]}>{riskCount}</Text>
+              </View>
+              <View style={[s.summary, { backgroundColor: palette.successXSoft }]}>
+                <Text style={s.summaryLabel}>Budgets</Text>
+                <Text style={[s.summaryValue, { color: palette.success }]}>{usage.length}</Text>
+              </View>
+            </View>
+
+            <View style={s.chips}>
+              {(['all', 'monthly', 'quarterly'] as const).map((p) => (
+                <TouchableOpacity key={p} style={[s.chip, period === p && s.chipActive]} onPress={() => setPeriod(p)}>
+                  <Text style={[s.chipText, period === p && s.chipTextActive]}>
+                    {p === 'all' ? 'All' : BUDGET_PERIOD_LABELS[p]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {canEdit && (
+              <TouchableOpacity style={s.addBtn} onPress={() => openEditor(null)} activeOpacity={0.85}>
+                <Text style={s.addBtnText}>Add Budget</Text>
+              </TouchableOpacity>
+            )}
+            <Text style={s.legend}>Marker shows an even burn to date · lighter bar is pending requisitions</Text>
+          </View>
+        }
+        ListEmptyComponent={!loading ? (
+          <Text style={s.empty}>
+            {canEdit
+              ? 'No budgets yet. Add a monthly or quarterly budget for a department or category to track spend against it.'
+              : 'No budgets have been set yet.'}
+          </Text>
+        ) : null}
+      />
+
+      <BudgetEditorModal
+        visible={showEditor}
+        onClose={() => setShowEditor(false)}
+        budget={editing}
+        budgets={budgets}
+      />
+    </>
+  );
+}
+
+const s = StyleSheet.create({
+  list:           { paddingHorizontal: spacing['4'], paddingBottom: spacing['12'], gap: spacing['3'] },
+  header:         { paddingTop: spacing['4'], gap: spacing['3'] },
+  summaryRow:     { flexDirection: 'row', gap: spacing['3'] },
+  summary:        { flex: 1, borderRadius: radius.lg, padding: spacing['3'] },
+  summaryLabel:   { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.5 },
+  summaryValue:   { fontSize: t.xl, fontWeight: t.extrabold, marginTop: spacing['1'] },
+
+  chips:          { flexDirection: 'row', gap: spacing['2'] },
+  chip:           { paddingHorizontal: spacing['3'], paddingVertical: 6, borderRadius: radius.full, borderWidth: 1, borderColor: palette.border, backgroundColor: palette.card },
+  chipActive:     { borderColor: palette.primary, backgroundColor: palette.primarySoft },
+  chipText:       { fontSize: t.sm, color: palette.text },
+  chipTextActive: { fontWeight: t.bold, color: palette.primary },
+
+  addBtn:         { backgroundColor: palette.primary, borderRadius: radius.md, paddingVertical: spacing['3'], alignItems: 'center' },
+  addBtnText:     { fontSize: t.base, fontWeight: t.extrabold, color: palette.textInverse },
+  legend:         { fontSize: t.xs, color: palette.textMuted },
+  empty:          { fontSize: t.sm, color: palette.textMuted, textAlign: 'center', paddingVertical: spacing['8'], lineHeight: t.sm * t.normal },
+
+  card:           { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.lg, padding: spacing['4'], gap: spacing['2'] },
+  cardTop:        { flexDirection: 'row', alignItems: 'flex-start', gap: spacing['2'] },
+  cardTitle:      { fontSize: t.md, fontWeight: t.bold, color: palette.text },
+  cardSub:        { fontSize: t.sm, color: palette.textMuted, marginTop: 2 },
+  badge:          { paddingHorizontal: spacing['2'], paddingVertical: 3, borderRadius: radius.full },
+  badgeText:      { fontSize: t.xs, fontWeight: t.bold },
+
+  bar:            { flexDirection: 'row', height: 10, borderRadius: 5, backgroundColor: palette.surface, overflow: 'hidden' },
+  barFill:        { height: '100%' },
+  marker:         { position: 'absolute', top: 0, bottom: 0, width: 2, marginLeft: -1, backgroundColor: palette.text },
+
+  figures:        { flexDirection: 'row', justifyContent: 'space-between' },
+  figure:         { fontSize: t.sm, color: palette.textMuted },
+  figureStrong:   { fontWeight: t.bold, color: palette.text },
+  note:           { fontSize: t.xs, color: palette.textMuted },
+});
@@ -29,6 +29,7 @@ const STATUS_COLORS: Record<string, { bg: string; text: string }> = {
   Rejected: { bg: '#fee2e2', text: '#991b1b' },
   Declined: { bg: '#fee2e2', text: '#991b1b' },
   Cancelled: { bg: '#f3f4f6', text: '#6b7280' },
+  Returned: { bg: '#ffedd5', text: '#9a3412' },
 };
 
 // ============================================================================
@@ -55,9 +56,10 @@ interface CRCardProps {
   cr: CashRequisition & { description?: string; requested_by?: string };
   onPress: (cr: CashRequisition) => void;
   displayCurrency?: 'USD' | 'UGX' | 'KES';
+  pendingSync?: boolean; // raised offline, not yet on the server
 }
 
-export function CRCard({ cr, onPress, displayCurrency = 'USD' }: CRCardProps) {
+export function CRCard({ cr, onPress, displayCurrency = 'USD', pendingSync = false }: CRCardProps) {
   const statusColors = STATUS_COLORS[cr.status] || STATUS_COLORS.Pending;
   const date = new Date(cr.created_at).toLocaleDateString();
   const dateNeeded = cr.date_needed ? new Date(cr.date_needed).toLocaleDateString() : 'N/A';
@@ -113,6 +115,11 @@ export function CRCard({ cr, onPress, displayCurrency = 'USD' }: CRCardProps) {
         </View>
         <View style={styles.footer}>
           <Text style={styles.footerText}>Created: {date}</Text>
+          {pendingSync && (
+            <View style={styles.syncBadge}>
+              <Text style={styles.syncText}>Pending sync</Text>
+            </View>
+          )}
         </View>
       </View>
     </TouchableOpacity>
@@ -194,9 +201,23 @@ const styles = StyleSheet.create({
   },
   footer: {
     marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
   },
   footerText: {
     fontSize: 11,
     color: COLORS.textMuted,
   },
+  syncBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#fef3c7',
+  },
+  syncText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: COLORS.warning,
+  },
 });
@@ -0,0 +1,67 @@
+/**
+ * InvoiceActions
+ * Quote · Proforma · Invoice buttons for a booking's detail view. Each one
+ * issues the document number, renders the PDF and opens the share sheet.
+ */
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { Svg, Path } from 'react-native-svg';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import { shareInvoice, INVOICE_KIND_LABEL, type InvoiceKind, type InvoiceSource } from '../../lib/invoices';
+
+const KINDS: { kind: InvoiceKind; label: string }[] = [
+  { kind: 'quote',    label: 'Quote' },
+  { kind: 'proforma', label: 'Proforma' },
+  { kind: 'invoice',  label: 'Invoice' },
+];
+
+function ShareIcon({ color }: { color: string }) {
+  return (
+    <Svg width={14} height={14} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={2.2} strokeLinecap="round" strokeLinejoin="round">
+      <Path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8M16 6l-4-4-4 4M12 2v13" />
+    </Svg>
+  );
+}
+
+export function InvoiceActions({ source }: { source: InvoiceSource }) {
+  const [busy, setBusy] = useState<InvoiceKind | null>(null);
+
+  const handleShare = async (kind: InvoiceKind) => {
+    setBusy(kind);
+    try {
+      await shareInvoice(kind, source);
+    } catch (e: any) {
+      Alert.alert(`Couldn't create ${INVOICE_KIND_LABEL[kind].toLowerCase()}`, e?.message || 'Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View style={s.row}>
+      {KINDS.map(({ kind, label }) => (
+        <TouchableOpacity
+          key={kind}
+          style={[s.btn, kind === 'invoice' && s.btnPrimary, busy !== null && busy !== kind && { opacity: 0.5 }]}
+          onPress={() => handleShare(kind)}
+          disabled={busy !== null}
+          activeOpacity={0.85}
+        >
+          {busy === kind
+            ? <ActivityIndicator size="small" color={kind === 'invoice' ? palette.white : palette.primary} />
+            : <>
+                <ShareIcon color={kind === 'invoice' ? palette.white : palette.primary} />
+                <Text style={[s.btnText, kind === 'invoice' && { color: palette.white }]}>{label}</Text>
+              </>}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  row:        { flexDirection: 'row', gap: spacing['2'] },
+  btn:        { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, paddingVertical: spacing['3'], borderRadius: radius.md, backgroundColor: palette.primarySoft },
+  btnPrimary: { backgroundColor: palette.primary },
+  btnText:    { fontSize: t.sm, fontWeight: t.bold, color: palette.primary },
+});
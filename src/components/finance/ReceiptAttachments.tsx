@@ -0,0 +1,175 @@
+/**
+ * ReceiptAttachments
+ * Gallery of the receipts and documents on a cash requisition or transaction.
+ * Photos show as thumbnails and open full size; staff can photograph a
+ * receipt or attach a file, and remove what they added by mistake.
+ */
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, TouchableOpacity, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import {
+  ATTACHMENT_KIND_LABELS,
+  addAttachment,
+  attachmentLinks,
+  attachmentsFor,
+  captureReceipt,
+  isImage,
+  openAttachment,
+  pickAttachmentFile,
+  removeAttachment,
+  type AttachmentOwner,
+  type PickedFile,
+} from '../../lib/financeAttachments';
+import { useFinanceAttachments } from '../../hooks/useFinanceAttachments';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import type { FinanceAttachmentRow } from '../../../sdk/schema/tables';
+
+function Thumb({ attachment, onPress, onLongPress }: {
+  attachment: FinanceAttachmentRow;
+  onPress: () => void;
+  onLongPress?: () => void;
+}) {
+  const [thumbUrl, setThumbUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isImage(attachment)) return;
+    let cancelled = false;
+    attachmentLinks(attachment)
+      .then((links) => { if (!cancelled) setThumbUrl(links.thumbUrl); })
+      .catch((e) => console.warn('[ReceiptAttachments] Thumbnail unavailable:', e?.message));
+    return () => { cancelled = true; };
+  }, [attachment.id]);
+
+  return (
+    <TouchableOpacity style={s.tile} onPress={onPress} onLongPress={onLongPress} activeOpacity={0.8}>
+      {thumbUrl ? (
+        <Image source={{ uri: thumbUrl }} style={s.thumb} />
+      ) : (
+        <View style={[s.thumb, s.fileThumb]}>
+          <Text style={s.fileExt}>{attachment.file_name.split('.').pop()?.toUpperCase().slice(0, 4) || 'FILE'}</Text>
+        </View>
+      )}
+      <Text style={s.tileKind}>{ATTACHMENT_KIND_LABELS[attachment.kind]}</Text>
+      <Text style={s.tileName} numberOfLines={1}>{attachment.file_name}</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface ReceiptAttachmentsProps {
+  owner: AttachmentOwner;
+  /** Whether the current user may add and remove attachments */
+  editable?: boolean;
+  /** Flag that this owner still needs a receipt */
+  receiptMissing?: boolean;
+  title?: string;
+}
+
+export function ReceiptAttachments({ owner, editable = true, receiptMissing = false, title = 'Receipts' }: ReceiptAttachmentsProps) {
+  const { attachments } = useFinanceAttachments();
+  const [uploading, setUploading] = useState(false);
+
+  const files = attachmentsFor(attachments, owner);
+
+  const upload = async (pick: () => Promise<PickedFile | null>) => {
+    try {
+      const file = await pick();
+      if (!file) return;
+      setUploading(true);
+      const result = await addAttachment(owner, file);
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The receipt was uploaded and will be linked to this record automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Attachment Failed', e?.message || 'Could not attach the file.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const open = (attachment: FinanceAttachmentRow) => {
+    openAttachment(attachment).catch((e) => Alert.alert('Error', e?.message || 'Could not open the attachment.'));
+  };
+
+  const confirmRemove = (attachment: FinanceAttachmentRow) => {
+    Alert.alert('Remove Attachment', `Remove ${attachment.file_name} from ${owner.label}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          removeAttachment(attachment, owner.label).catch((e) =>
+            Alert.alert('Error', e?.message || 'Could not remove the attachment.'));
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={s.card}>
+      <View style={s.headerRow}>
+        <Text style={s.heading}>{title}</Text>
+        {files.length > 0 && <Text style={s.count}>{files.length}</Text>}
+      </View>
+
+      {receiptMissing && (
+        <View style={s.missing}>
+          <Text style={s.missingTitle}>Receipt missing</Text>
+          <Text style={s.missingText}>Attach a photo or scan of the receipt before this can be marked Completed.</Text>
+        </View>
+      )}
+
+      {files.length > 0 ? (
+        <View style={s.grid}>
+          {files.map((a) => (
+            <Thumb
+              key={a.id}
+              attachment={a}
+              onPress={() => open(a)}
+              onLongPress={editable ? () => confirmRemove(a) : undefined}
+            />
+          ))}
+        </View>
+      ) : !receiptMissing ? (
+        <Text style={s.hint}>No receipts or documents attached yet.</Text>
+      ) : null}
+
+      {editable && (
+        <>
+          {files.length > 0 && <Text style={s.hint}>Tap to open · long-press to remove</Text>}
+          <View style={s.actions}>
+            <TouchableOpacity style={s.action} onPress={() => upload(captureReceipt)} disabled={uploading} activeOpacity={0.85}>
+              <Text style={s.actionText}>Take Photo</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={s.action} onPress={() => upload(pickAttachmentFile)} disabled={uploading} activeOpacity={0.85}>
+              <Text style={s.actionText}>Attach File</Text>
+            </TouchableOpacity>
+          </View>
+          {uploading && <ActivityIndicator color={palette.primary} />}
+        </>
+      )}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  card:         { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.lg, padding: spacing['4'], gap: spacing['3'] },
+  headerRow:    { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  heading:      { fontSize: t.sm, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.6 },
+  count:        { fontSize: t.sm, fontWeight: t.bold, color: palette.primary },
+  hint:         { fontSize: t.sm, color: palette.textMuted },
+
+  missing:      { backgroundColor: palette.dangerXSoft, borderWidth: 1, borderColor: palette.danger + '40', borderRadius: radius.md, padding: spacing['3'], gap: 2 },
+  missingTitle: { fontSize: t.base, fontWeight: t.bold, color: palette.danger },
+  missingText:  { fontSize: t.sm, color: palette.danger, lineHeight: t.sm * t.normal },
+
+  grid:         { flexDirection: 'row', flexWrap: 'wrap', gap: spacing['3'] },
+  tile:         { width: 88, gap: 2 },
+  thumb:        { width: 88, height: 88, borderRadius: radius.md, backgroundColor: palette.surface },
+  fileThumb:    { alignItems: 'center', justifyContent: 'center', borderWidth: 1, borderColor: palette.border },
+  fileExt:      { fontSize: t.sm, fontWeight: t.extrabold, color: palette.textMuted },
+  tileKind:     { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', marginTop: spacing['1'] },
+  tileName:     { fontSize: t.xs, color: palette.text },
+
+  actions:      { flexDirection: 'row', gap: spacing['2'] },
+  action:       { flex: 1, alignItems: 'center', paddingVertical: spacing['3'], borderRadius: radius.md, borderWidth: 1, borderColor: palette.primary + '40', backgroundColor: palette.primaryXSoft },
+  actionText:   { fontSize: t.base, fontWeight: t.bold, color: palette.primary },
+});
@@ -1,9 +1,13 @@
 /**
  * TransactionDetailModal
  * Shows full detail for a financial transaction or cash requisition.
- * Approvers can Approve / Decline pending cash requisitions directly.
+ * A cash requisition shows its approval chain; whoever the pending step waits
+ * on (or their delegate) can approve, decline or return it with a comment,
+ * and the requester can edit and resubmit a returned one. Receipts are
+ * attached to requisitions and expense transactions, and an approved
+ * requisition can only be marked Completed once it has one.
  */
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -14,12 +18,34 @@ import {
   SafeAreaView,
   Alert,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { Svg, Path, Circle } from 'react-native-svg';
-import { supabase } from '../../lib/supabase';
 import { sendCRNotificationToUser } from '../../services/notificationService';
 import type { FinancialTransaction, CashRequisition } from '../../types/dashboard';
+import type { ApprovalDelegationRow, CRApprovalStepRow, CRStepStatus } from '../../../sdk/schema/tables';
 import { formatCurrency } from '../../lib/utils';
+import {
+  STEP_STATUS_LABELS,
+  actOnRequisition,
+  canActFor,
+  canActOnStep,
+  currentChain,
+  delegatesFor,
+  earlierRounds,
+  pendingStep,
+  previewChain,
+  resubmitRequisition,
+  type ApprovalAction,
+  type ApprovalResult,
+} from '../../lib/crApprovals';
+import { slaLabel, slaState } from '../../lib/crSla';
+import { completeRequisition, receiptMissing } from '../../lib/financeAttachments';
+import { useCRApprovals } from '../../hooks/useCRApprovals';
+import { useFinanceAttachments } from '../../hooks/useFinanceAttachments';
+import { useExchangeRate, getConversionRates, convertToBaseCurrency } from '../../hooks/useExchangeRate';
+import { HistoryTimeline } from '../ui';
+import { ReceiptAttachments } from './ReceiptAttachments';
 
 // ─── Palette (matches app-wide branding) ─────────────────────────────────────
 const C = {
@@ -94,6 +120,7 @@ const CR_STATUS_COLORS: Record<string, { bg: string; text: string }> = {
   Declined:  { bg: '#c96d4d20', text: '#c96d4d' },
   Rejected:  { bg: '#c96d4d20', text: '#c96d4d' },
   Cancelled: { bg: '#7f756520', text: '#7f7565' },
+  Returned:  { bg: '#b8883f20', text: '#8a6424' },
 };
 
 function StatusBadge({ status }: { status: string }) {
@@ -125,6 +152,109 @@ const infoStyles = StyleSheet.create({
   value: { fontSize: 13, color: C.text, fontWeight: '700', textAlign: 'right', flex: 1.5 },
 });
 
+// ─── Approval chain ───────────────────────────────────────────────────────────
+const STEP_COLORS: Record<CRStepStatus, string> = {
+  waiting:  C.border,
+  pending:  C.warning,
+  approved: C.success,
+  declined: C.danger,
+  returned: C.warning,
+};
+
+function formatStamp(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function ChainStep({ step, names, delegations, showRound }: {
+  step: CRApprovalStepRow;
+  names: Record<string, string>;
+  delegations: ApprovalDelegationRow[];
+  showRound?: boolean;
+}) {
+  const approver = names[step.approver_id] ?? 'Approver';
+  const actedFor = step.acted_by && step.acted_by !== step.approver_id;
+  const covering = step.status === 'pending' ? delegatesFor(step.approver_id, delegations) : [];
+
+  return (
+    <View style={chainStyles.row}>
+      <View style={[chainStyles.dot, { backgroundColor: STEP_COLORS[step.status] }]} />
+      <View style={{ flex: 1 }}>
+        <Text style={chainStyles.label}>
+          {showRound ? `Round ${step.round} · ` : ''}{step.position}. {step.label}
+        </Text>
+        <Text style={chainStyles.sub}>
+          {approver} · {STEP_STATUS_LABELS[step.status]}
+          {step.acted_at ? ` · ${formatStamp(step.acted_at)}` : ''}
+        </Text>
+        {actedFor && (
+          <Text style={chainStyles.sub}>by {names[step.acted_by!] ?? 'a delegate'} on their behalf</Text>
+        )}
+        {step.escalated_at && (
+          <Text style={[chainStyles.sub, { color: C.danger }]}>
+            Past SLA — escalated {step.escalated_to.length > 0
+              ? `to ${step.escalated_to.map((id) => names[id] ?? 'a manager').join(', ')}`
+              : 'with no one to escalate to'}
+          </Text>
+        )}
+        {covering.length > 0 && (
+          <Text style={chainStyles.sub}>
+            Away — {covering.map((id) => names[id] ?? 'a delegate').join(', ')} can act for them
+          </Text>
+        )}
+        {step.comment && <Text style={chainStyles.comment}>"{step.comment}"</Text>}
+      </View>
+    </View>
+  );
+}
+const chainStyles = StyleSheet.create({
+  row:     { flexDirection: 'row', gap: 12, paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: '#f0ebe0' },
+  dot:     { width: 10, height: 10, borderRadius: 5, marginTop: 4 },
+  label:   { fontSize: 14, fontWeight: '700', color: C.text },
+  sub:     { fontSize: 12, color: C.muted, marginTop: 2 },
+  comment: { fontSize: 13, color: C.text, fontStyle: 'italic', marginTop: 6, lineHeight: 19 },
+  round:   { fontSize: 12, fontWeight: '700', color: C.muted, textTransform: 'uppercase', letterSpacing: 0.5, marginTop: 14 },
+});
+
+const ACTION_VERBS: Record<ApprovalAction, string> = {
+  approve: 'Approve',
+  decline: 'Decline',
+  return:  'Return',
+};
+
+/** Tell the next approver it's their turn, or the requester how it ended */
+function notifyAfterAction(cr: CashRequisition, result: ApprovalResult, comment: string) {
+  const data = { cr_id: cr.id, cr_number: cr.cr_number, screen: 'Finance' };
+  const note = comment.trim() ? ` "${comment.trim()}"` : '';
+
+  if (result.crStatus === 'Pending' && result.nextApproverId) {
+    sendCRNotificationToUser(
+      result.nextApproverId,
+      '📝 Cash Requisition Awaiting Approval',
+      `${cr.cr_number} for ${cr.expense_category} — ${formatCurrency(cr.total_cost, cr.currency || 'USD')} is ready for your approval.`,
+      data,
+      'cr_assigned',
+    ).catch(console.error);
+    return;
+  }
+
+  if (!cr.requester_id) return;
+  const message =
+    result.crStatus === 'Approved' ? {
+      title: '✅ Cash Requisition Approved',
+      body:  `Your requisition ${cr.cr_number} has been approved and is ready for disbursement.`,
+      type:  'cr_approved' as const,
+    } : result.crStatus === 'Returned' ? {
+      title: '↩️ Cash Requisition Returned',
+      body:  `Your requisition ${cr.cr_number} was returned for changes.${note}`,
+      type:  'cr_rejected' as const,
+    } : {
+      title: '❌ Cash Requisition Declined',
+      body:  `Your requisition ${cr.cr_number} has been declined.${note || ' Please contact your approver for details.'}`,
+      type:  'cr_rejected' as const,
+    };
+  sendCRNotificationToUser(cr.requester_id, message.title, message.body, data, message.type).catch(console.error);
+}
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 type DetailItem = FinancialTransaction | (CashRequisition & { description?: string });
 
@@ -137,6 +267,8 @@ interface TransactionDetailModalProps {
   onRefetch?: () => void;
   /** ID of the currently signed-in user — used to enforce approval rules */
   currentUserId?: string;
+  /** Managers can complete any approved requisition, not just their own */
+  canManage?: boolean;
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -148,8 +280,26 @@ export function TransactionDetailModal({
   displayCurrency = 'USD',
   onRefetch,
   currentUserId,
+  canManage = false,
 }: TransactionDetailModalProps) {
   const [actioning, setActioning] = useState(false);
+  const [comment,   setComment]   = useState('');
+  const [purpose,   setPurpose]   = useState('');
+  const [amount,    setAmount]    = useState('');
+  const { rules, steps, delegations, names } = useCRApprovals();
+  const { exchangeRates } = useExchangeRate();
+  const { attachments } = useFinanceAttachments();
+
+  // Each requisition opens with a blank comment and its own details to edit
+  const itemId = item?.id;
+  useEffect(() => {
+    setComment('');
+    if (item && itemType === 'cr') {
+      const cr = item as CashRequisition & { description?: string };
+      setPurpose(cr.purpose ?? cr.description ?? '');
+      setAmount(String(cr.total_cost ?? ''));
+    }
+  }, [itemId]);
 
   if (!item) return null;
 
@@ -159,10 +309,15 @@ export function TransactionDetailModal({
   };
 
   // ── CR Approval action ────────────────────────────────────────────────────
-  const handleCRAction = async (newStatus: 'Approved' | 'Declined') => {
+  const handleCRAction = async (action: ApprovalAction) => {
     if (!item) return;
     const cr = item as CashRequisition;
-    const verb = newStatus === 'Approved' ? 'Approve' : 'Decline';
+    const verb = ACTION_VERBS[action];
+
+    if (action === 'return' && !comment.trim()) {
+      Alert.alert('Comment Needed', 'Say what needs to change before returning the requisition.');
+      return;
+    }
 
     Alert.alert(
       `${verb} Requisition`,
@@ -171,47 +326,29 @@ export function TransactionDetailModal({
         { text: 'Cancel', style: 'cancel' },
         {
           text: verb,
-          style: newStatus === 'Declined' ? 'destructive' : 'default',
+          style: action === 'approve' ? 'default' : 'destructive',
           onPress: async () => {
             setActioning(true);
             try {
-              // Note: only `approved_at` exists in the DB schema — there is no `declined_at` column.
-              const updatePayload: Record<string, unknown> = { status: newStatus };
-              if (newStatus === 'Approved') {
-                updatePayload.approved_at = new Date().toISOString();
-              }
-
-              const { error } = await supabase
-                .from('cash_requisitions')
-                .update(updatePayload)
-                .eq('id', cr.id);
-
-              if (error) throw error;
-
-              // Notify the requester on their device
-              const requesterId = (cr as any).requester_id as string | null | undefined;
-              if (requesterId) {
-                const approvedTitle = newStatus === 'Approved'
-                  ? '✅ Cash Requisition Approved'
-                  : '❌ Cash Requisition Declined';
-                const approvedBody = newStatus === 'Approved'
-                  ? `Your requisition ${cr.cr_number} has been approved and is ready for disbursement.`
-                  : `Your requisition ${cr.cr_number} has been declined. Please contact your approver for details.`;
-                sendCRNotificationToUser(
-                  requesterId,
-                  approvedTitle,
-                  approvedBody,
-                  { cr_id: cr.id, cr_number: cr.cr_number, screen: 'Finance' },
-                  newStatus === 'Approved' ? 'cr_approved' : 'cr_rejected',
-                ).catch(console.error);
-              }
+              // The chain moves on the server, so this needs a connection
+              const result = await actOnRequisition(cr.id, action, comment);
+              notifyAfterAction(cr, result, comment);
 
               onRefetch?.();
               onClose();
-              Alert.alert(
-                newStatus === 'Approved' ? '✅ Requisition Approved' : 'Requisition Declined',
-                `${cr.cr_number} has been ${newStatus.toLowerCase()}.`
-              );
+              if (result.crStatus === 'Pending') {
+                Alert.alert(
+                  '✅ Step Approved',
+                  `${cr.cr_number} has moved on to ${result.nextApproverId ? names[result.nextApproverId] ?? 'the next approver' : 'the next approver'}.`,
+                );
+              } else if (result.crStatus === 'Returned') {
+                Alert.alert('Requisition Returned', `${cr.cr_number} has been returned to the requester for changes.`);
+              } else {
+                Alert.alert(
+                  result.crStatus === 'Approved' ? '✅ Requisition Approved' : 'Requisition Declined',
+                  `${cr.cr_number} has been ${result.crStatus.toLowerCase()}.`
+                );
+              }
             } catch (e: any) {
               Alert.alert('Error', e?.message || `Failed to ${verb.toLowerCase()} requisition.`);
             } finally {
@@ -223,10 +360,88 @@ export function TransactionDetailModal({
     );
   };
 
+  // ── Resubmit a returned CR ────────────────────────────────────────────────
+  const handleResubmit = async () => {
+    if (!item) return;
+    const cr = item as CashRequisition;
+    const cost = parseFloat(amount);
+    if (!purpose.trim())          { Alert.alert('Validation Error', 'Purpose / description is required.'); return; }
+    if (isNaN(cost) || cost <= 0) { Alert.alert('Validation Error', 'Amount must be a positive number.'); return; }
+
+    const amountUsd = convertToBaseCurrency(cost, cr.currency || 'USD', getConversionRates(exchangeRates));
+    // The server rebuilds the chain on resubmit; the preview says who it will start with
+    const firstApproverId = previewChain(rules, amountUsd, cr.chosen_approver_id ?? cr.approver_id ?? null)[0]?.approverId;
+
+    setActioning(true);
+    try {
+      const result = await resubmitRequisition(
+        cr,
+        { purpose, totalCost: cost, amountUsd: Math.round(amountUsd * 100) / 100 },
+        firstApproverId ? {
+          userId: firstApproverId,
+          title:  '📝 Cash Requisition Resubmitted',
+          body:   `${cr.requester_name || 'The requester'} updated ${cr.cr_number} — ${formatCurrency(cost, cr.currency || 'USD')}. Tap to review.`,
+          data:   { cr_id: cr.id, cr_number: cr.cr_number, screen: 'Finance' },
+          type:   'cr_created',
+        } : undefined,
+      );
+
+      onRefetch?.();
+      onClose();
+      Alert.alert(
+        result.state === 'queued' ? 'Saved Offline' : 'Requisition Resubmitted',
+        result.state === 'queued'
+          ? `${cr.cr_number} has been saved on this device and will be resubmitted automatically when you reconnect.`
+          : `${cr.cr_number} is back in its approval chain.\n\nStatus: Pending`,
+      );
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to resubmit requisition.');
+    } finally {
+      setActioning(false);
+    }
+  };
+
+  // ── Mark an approved CR Completed ───────────────────────────────────────
+  const handleComplete = () => {
+    if (!item) return;
+    const cr = item as CashRequisition;
+    if (receiptMissing(cr, attachments)) {
+      Alert.alert('Receipt Missing', `Attach a receipt to ${cr.cr_number} before marking it Completed.`);
+      return;
+    }
+
+    Alert.alert('Mark Completed', `Confirm that ${cr.cr_number} has been paid out and accounted for?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Mark Completed',
+        onPress: async () => {
+          setActioning(true);
+          try {
+            const result = await completeRequisition(cr);
+            onRefetch?.();
+            onClose();
+            Alert.alert(
+              result.state === 'queued' ? 'Saved Offline' : 'Requisition Completed',
+              result.state === 'queued'
+                ? `${cr.cr_number} has been saved on this device and will be marked Completed automatically when you reconnect.`
+                : `${cr.cr_number} has been marked Completed.`,
+            );
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to complete requisition.');
+          } finally {
+            setActioning(false);
+          }
+        },
+      },
+    ]);
+  };
+
   // ── Transaction view ──────────────────────────────────────────────────────
   if (itemType === 'transaction') {
     const t = item as FinancialTransaction;
     const isIncome = t.transaction_type === 'income';
+    // Only recorded transactions take attachments — booking and safari revenue lines are derived
+    const txnId = t.id.startsWith('txn-') ? t.id.slice(4) : null;
     const displayAmt = convertAmount(t.amount, t.currency || 'USD');
     const date = t.transaction_date
       ? new Date(t.transaction_date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
@@ -277,6 +492,13 @@ export function TransactionDetailModal({
                 <Text style={styles.descText}>{t.description}</Text>
               </View>
             )}
+
+            {txnId && (
+              <ReceiptAttachments
+                owner={{ kind: 'transaction', id: txnId, label: t.reference_number || t.category || 'this transaction' }}
+                title="Receipts & Documents"
+              />
+            )}
           </ScrollView>
         </SafeAreaView>
       </Modal>
@@ -292,16 +514,29 @@ export function TransactionDetailModal({
   const createdDate  = cr.created_at  ? new Date(cr.created_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
   const dateNeeded   = cr.date_needed ? new Date(cr.date_needed).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
   const isPending     = cr.status === 'Pending';
-  const requesterId   = (cr as any).requester_id as string | undefined;
-  const approverId    = (cr as any).approver_id  as string | undefined;
+  const isReturned    = cr.status === 'Returned';
+  const requesterId   = cr.requester_id ?? undefined;
+
+  const chain         = currentChain(steps, cr.id);
+  const history       = earlierRounds(steps, cr.id);
+  const step          = pendingStep(chain);
+  const returnedStep  = chain.find((s) => s.status === 'returned');
 
-  // A user may approve only when:
-  //  1. The CR is still Pending
-  //  2. They are the designated approver for this CR
+  // A user may act only when:
+  //  1. The CR is still Pending, with a step awaiting a decision
+  //  2. They are that step's approver, or covering for them under a delegation
   //  3. They are NOT the person who submitted it (even admins cannot self-approve)
   const isSubmitter   = !!currentUserId && currentUserId === requesterId;
-  const isApprover    = !!currentUserId && currentUserId === approverId;
-  const canApprove    = isPending && isApprover && !isSubmitter;
+  const canApprove    = isPending && !!step && !isSubmitter && canActOnStep(step, currentUserId, delegations);
+  const actingFor     = canApprove && step && step.approver_id !== currentUserId ? names[step.approver_id] ?? 'the approver' : null;
+  const viaEscalation = !!actingFor && !!step && !canActFor(step.approver_id, currentUserId, delegations);
+  const sla           = slaState(cr);
+
+  // The requester or a manager closes out an approved requisition once it has its receipt
+  const isClosed      = cr.status === 'Declined' || cr.status === 'Cancelled';
+  const canAttach     = !isClosed && (isSubmitter || canManage || chain.some((s) => s.approver_id === currentUserId));
+  const canComplete   = cr.status === 'Approved' && (isSubmitter || canManage);
+  const noReceipt     = receiptMissing(cr, attachments);
 
   return (
     <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
@@ -340,6 +575,13 @@ export function TransactionDetailModal({
             <InfoRow label="Category"     value={cr.expense_category} />
             <InfoRow label="Requested By" value={(cr as any).requester_name || cr.requested_by} />
             <InfoRow label="Date Needed"  value={dateNeeded} />
+            <InfoRow label="Urgency"      value={cr.urgency} />
+            {sla && (
+              <InfoRow
+                label="Decision Due"
+                value={`${new Date(cr.sla_due_date!).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })} · ${slaLabel(cr)}`}
+              />
+            )}
             <InfoRow label="Date Created" value={createdDate} />
             {cr.approver && (
               <InfoRow
@@ -365,17 +607,86 @@ export function TransactionDetailModal({
             </View>
           )}
 
-          {/* Approve / Decline — only for the designated approver, never the submitter */}
-          {isPending && canApprove && (
+          {/* Approval chain */}
+          {chain.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Approval Chain</Text>
+              {chain.map((s) => (
+                <ChainStep key={s.id} step={s} names={names} delegations={delegations} />
+              ))}
+              {history.length > 0 && (
+                <>
+                  <Text style={chainStyles.round}>Earlier rounds</Text>
+                  {history.map((s) => (
+                    <ChainStep key={s.id} step={s} names={names} delegations={delegations} showRound />
+                  ))}
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Receipts */}
+          <ReceiptAttachments
+            owner={{ kind: 'cr', id: cr.id, label: cr.cr_number }}
+            editable={canAttach}
+            receiptMissing={noReceipt}
+          />
+
+          {canComplete && (
+            <View style={styles.approvalCard}>
+              <Text style={styles.approvalTitle}>Disbursement</Text>
+              <Text style={styles.approvalSub}>
+                {noReceipt
+                  ? 'Attach the receipt above, then mark this requisition Completed.'
+                  : 'Once the money has been paid out and the receipt is attached, mark this requisition Completed.'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.approveBtn, (actioning || noReceipt) && { opacity: 0.6 }]}
+                onPress={handleComplete}
+                disabled={actioning}
+                activeOpacity={0.85}
+              >
+                {actioning
+                  ? <ActivityIndicator color="#fff" size="small" />
+                  : <><CheckIcon color="#fff" /><Text style={styles.approveBtnText}>Mark Completed</Text></>}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Change history */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>History</Text>
+            <HistoryTimeline
+              table="cash_requisitions"
+              recordId={cr.id}
+              fieldLabels={{ approver_id: 'Approver', requester_id: 'Requester', total_cost: 'Amount' }}
+            />
+          </View>
+
+          {/* Approve / Decline / Return — only for the step's approver or their delegate, never the submitter */}
+          {canApprove && step && (
             <View style={styles.approvalCard}>
               <Text style={styles.approvalTitle}>Approval Action</Text>
               <Text style={styles.approvalSub}>
-                This requisition is awaiting your approval. You are the designated approver.
+                {viaEscalation
+                  ? `This requisition is past its approval deadline with ${actingFor} (${step.label}) and was escalated to you.`
+                  : actingFor
+                  ? `This requisition is awaiting ${actingFor} (${step.label}). You can act for them while they are away.`
+                  : `This requisition is awaiting your approval as ${step.label}.`}
+                {chain.length > 1 ? ` Step ${step.position} of ${chain.length}.` : ''}
               </Text>
+              <TextInput
+                style={styles.commentInput}
+                value={comment}
+                onChangeText={setComment}
+                placeholder="Comment (required to return for changes)"
+                placeholderTextColor={C.muted}
+                multiline
+              />
               <View style={styles.approvalBtns}>
                 <TouchableOpacity
                   style={[styles.approveBtn, actioning && { opacity: 0.6 }]}
-                  onPress={() => handleCRAction('Approved')}
+                  onPress={() => handleCRAction('approve')}
                   disabled={actioning}
                   activeOpacity={0.85}
                 >
@@ -386,7 +697,7 @@ export function TransactionDetailModal({
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={[styles.declineBtn, actioning && { opacity: 0.6 }]}
-                  onPress={() => handleCRAction('Declined')}
+                  onPress={() => handleCRAction('decline')}
                   disabled={actioning}
                   activeOpacity={0.85}
                 >
@@ -396,6 +707,55 @@ export function TransactionDetailModal({
                   }
                 </TouchableOpacity>
               </View>
+              <TouchableOpacity
+                style={[styles.returnBtn, actioning && { opacity: 0.6 }]}
+                onPress={() => handleCRAction('return')}
+                disabled={actioning}
+                activeOpacity={0.85}
+              >
+                <Text style={styles.returnBtnText}>Return for Changes</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Returned — the submitter edits and resubmits */}
+          {isReturned && isSubmitter && (
+            <View style={styles.approvalCard}>
+              <Text style={styles.approvalTitle}>Returned for Changes</Text>
+              <Text style={styles.approvalSub}>
+                {returnedStep?.comment
+                  ? `${names[returnedStep.acted_by ?? returnedStep.approver_id] ?? 'Your approver'}: "${returnedStep.comment}"`
+                  : 'Your approver asked for changes.'}
+                {' '}Update the requisition and resubmit it to start the approval chain again.
+              </Text>
+              <Text style={styles.inputLabel}>Purpose / Description</Text>
+              <TextInput
+                style={styles.commentInput}
+                value={purpose}
+                onChangeText={setPurpose}
+                placeholder="What is the money for?"
+                placeholderTextColor={C.muted}
+                multiline
+              />
+              <Text style={styles.inputLabel}>Amount ({cr.currency || 'USD'})</Text>
+              <TextInput
+                style={styles.amountInput}
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor={C.muted}
+              />
+              <TouchableOpacity
+                style={[styles.approveBtn, actioning && { opacity: 0.6 }]}
+                onPress={handleResubmit}
+                disabled={actioning}
+                activeOpacity={0.85}
+              >
+                {actioning
+                  ? <ActivityIndicator color="#fff" size="small" />
+                  : <Text style={styles.approveBtnText}>Resubmit</Text>}
+              </TouchableOpacity>
             </View>
           )}
 
@@ -403,7 +763,7 @@ export function TransactionDetailModal({
           {isPending && isSubmitter && (
             <View style={styles.selfSubmitNotice}>
               <Text style={styles.selfSubmitText}>
-                You submitted this requisition and cannot approve it. The assigned approver will review it.
+                You submitted this requisition and cannot approve it. The approvers in its chain will review it.
               </Text>
             </View>
           )}
@@ -445,6 +805,11 @@ const styles = StyleSheet.create({
   approveBtnText:    { fontSize: 15, fontWeight: '800', color: '#fff' },
   declineBtn:        { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, backgroundColor: C.danger + '12', borderRadius: 14, paddingVertical: 14, borderWidth: 1, borderColor: C.danger + '40' },
   declineBtnText:    { fontSize: 15, fontWeight: '800', color: C.danger },
+  returnBtn:         { alignItems: 'center', justifyContent: 'center', borderRadius: 14, paddingVertical: 12, marginTop: 10, borderWidth: 1, borderColor: C.warning + '50' },
+  returnBtnText:     { fontSize: 14, fontWeight: '800', color: C.warning },
+  commentInput:      { backgroundColor: C.input, borderRadius: 12, padding: 12, minHeight: 64, fontSize: 14, color: C.text, textAlignVertical: 'top', marginBottom: 12 },
+  amountInput:       { backgroundColor: C.input, borderRadius: 12, padding: 12, fontSize: 15, fontWeight: '700', color: C.text, marginBottom: 14 },
+  inputLabel:        { fontSize: 12, fontWeight: '700', color: C.muted, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 6 },
   selfSubmitNotice:  { backgroundColor: C.warning + '15', borderRadius: 14, padding: 16, borderWidth: 1, borderColor: C.warning + '40' },
   selfSubmitText:    { fontSize: 13, color: C.warning, lineHeight: 19, fontWeight: '600', textAlign: 'center' },
 });
@@ -1,3 +1,9 @@
 export { TransactionCard } from './TransactionCard';
 export { CRCard } from './CRCard';
 export { TransactionDetailModal } from './TransactionDetailModal';
+export { InvoiceActions } from './InvoiceActions';
+export { BookingPayments } from './BookingPayments';
+export { ApprovalSettingsModal } from './ApprovalSettingsModal';
+export { ReceiptAttachments } from './ReceiptAttachments';
+export { BudgetsTab } from './BudgetsTab';
+export { BudgetEditorModal } from './BudgetEditorModal';
@@ -0,0 +1,436 @@
+/**
+ * ComplianceDocuments
+ * The documents registry for one vehicle or driver: each paper with its
+ * expiry state, the attached scan, and a form to add, renew or remove one.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, Platform, KeyboardAvoidingView, StyleSheet,
+} from 'react-native';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import * as DocumentPicker from 'expo-document-picker';
+import { useComplianceDocuments } from '../../hooks/useComplianceDocuments';
+import { isoDay } from '../../lib/payments';
+import {
+  BORDER_COUNTRIES,
+  DOCUMENT_LABELS,
+  DRIVER_DOCUMENT_TYPES,
+  VEHICLE_DOCUMENT_TYPES,
+  currentDocuments,
+  documentState,
+  documentTitle,
+  expiryLabel,
+  formatDocumentDay,
+  openDocumentScan,
+  removeDocument,
+  saveDocument,
+  type DocumentOwner,
+  type DocumentScan,
+  type DocumentState,
+} from '../../lib/complianceDocuments';
+import type { ComplianceDocumentRow, DocumentType } from '../../../sdk/schema/tables';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  primary:    '#1f4d45',
+  primarySoft:'#dce8e3',
+  danger:     '#c96d4d',
+  background: '#f6f2eb',
+  card:       '#fffdf9',
+  text:       '#181512',
+  textMuted:  '#7f7565',
+  textSoft:   '#9a8f7e',
+  border:     '#e1d7c8',
+};
+
+const STATE_COLORS: Record<DocumentState, { bg: string; text: string }> = {
+  expired:  { bg: '#fdf0ec', text: '#8b3320' },
+  expiring: { bg: '#f5e8ce', text: '#7a5522' },
+  valid:    { bg: '#ddf0e8', text: '#174f38' },
+};
+
+function ownerDocuments(docs: ComplianceDocumentRow[], owner: DocumentOwner): ComplianceDocumentRow[] {
+  return docs.filter((d) => (owner.kind === 'vehicle' ? d.vehicle_id : d.guide_id) === owner.id);
+}
+
+async function viewScan(doc: ComplianceDocumentRow) {
+  try {
+    await openDocumentScan(doc);
+  } catch (e: any) {
+    Alert.alert('Error', e?.message || 'Could not open the scan.');
+  }
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function ComplianceDocuments({ owner }: { owner: DocumentOwner }) {
+  const { documents, loading } = useComplianceDocuments();
+  const [editing, setEditing] = useState<ComplianceDocumentRow | 'new' | null>(null);
+
+  const mine = ownerDocuments(documents, owner);
+  const current = currentDocuments(mine);
+  const history = mine.length - current.length;
+
+  return (
+    <View>
+      {loading && documents.length === 0 ? (
+        <ActivityIndicator size="small" color={COLORS.primary} style={{ alignSelf: 'flex-start' }} />
+      ) : current.length === 0 ? (
+        <Text style={styles.empty}>
+          No documents on file. Add {owner.kind === 'vehicle' ? 'insurance, licence and permits' : 'the driving permit and passport'} to be alerted before they expire.
+        </Text>
+      ) : current.map((doc) => {
+        const colors = STATE_COLORS[documentState(doc)];
+        return (
+          <TouchableOpacity key={doc.id} style={styles.doc} onPress={() => setEditing(doc)} activeOpacity={0.75}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.docName}>{documentTitle(doc)}</Text>
+              {!!doc.number && <Text style={styles.docMeta}>No. {doc.number}</Text>}
+              <Text style={styles.docMeta}>
+                {doc.issued_on ? `${formatDocumentDay(doc.issued_on)} – ` : 'Expires '}{formatDocumentDay(doc.expires_on)}
+              </Text>
+            </View>
+            <View style={{ alignItems: 'flex-end', gap: 6 }}>
+              <View style={[styles.badge, { backgroundColor: colors.bg }]}>
+                <Text style={[styles.badgeText, { color: colors.text }]}>{expiryLabel(doc)}</Text>
+              </View>
+              {!!doc.file_path && (
+                <TouchableOpacity onPress={() => viewScan(doc)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Text style={styles.link}>View scan</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {history > 0 && (
+        <Text style={styles.history}>{history} earlier {history === 1 ? 'copy' : 'copies'} kept as history</Text>
+      )}
+
+      <TouchableOpacity style={styles.addBtn} onPress={() => setEditing('new')} activeOpacity={0.85}>
+        <Text style={styles.addBtnText}>Add Document</Text>
+      </TouchableOpacity>
+
+      <DocumentModal
+        visible={editing !== null}
+        owner={owner}
+        document={editing === 'new' ? undefined : editing ?? undefined}
+        onClose={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+// ============================================================================
+// DOCUMENT FORM
+// ============================================================================
+
+interface DocumentModalProps {
+  visible: boolean;
+  owner: DocumentOwner;
+  document?: ComplianceDocumentRow;
+  onClose: () => void;
+}
+
+type DateField = 'issued' | 'expires';
+
+function DocumentModal({ visible, owner, document, onClose }: DocumentModalProps) {
+  const types = owner.kind === 'vehicle' ? VEHICLE_DOCUMENT_TYPES : DRIVER_DOCUMENT_TYPES;
+
+  const [docType,   setDocType]   = useState<DocumentType>(types[0]);
+  const [countries, setCountries] = useState<string[]>([]);
+  const [number,    setNumber]    = useState('');
+  const [issuedOn,  setIssuedOn]  = useState<string | null>(null);
+  const [expiresOn, setExpiresOn] = useState(isoDay());
+  const [notes,     setNotes]     = useState('');
+  const [scan,      setScan]      = useState<DocumentScan | null>(null);
+  const [picking,   setPicking]   = useState<DateField | null>(null);
+  const [saving,    setSaving]    = useState(false);
+
+  const handleShow = () => {
+    setDocType(document?.doc_type ?? types[0]);
+    setCountries(document?.countries ?? []);
+    setNumber(document?.number ?? '');
+    setIssuedOn(document?.issued_on?.slice(0, 10) ?? null);
+    setExpiresOn(document?.expires_on.slice(0, 10) ?? isoDay());
+    setNotes(document?.notes ?? '');
+    setScan(null);
+    setPicking(null);
+  };
+
+  const toggleCountry = (code: string) => {
+    setCountries((prev) => (prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]));
+  };
+
+  const handleDate = (event: DateTimePickerEvent, date?: Date) => {
+    const field = picking;
+    if (Platform.OS !== 'ios') setPicking(null);
+    if (event.type !== 'set' || !date) return;
+    if (field === 'issued') setIssuedOn(isoDay(date));
+    if (field === 'expires') setExpiresOn(isoDay(date));
+  };
+
+  const pickScan = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+      const asset = result.assets[0];
+      setScan({ uri: asset.uri, name: asset.name, mimeType: asset.mimeType });
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Could not attach the file.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (docType === 'cross_border_permit' && countries.length === 0) {
+      Alert.alert('Validation Error', 'Select the countries the permit covers.'); return;
+    }
+    if (issuedOn && issuedOn > expiresOn) {
+      Alert.alert('Validation Error', 'The expiry date must be after the issue date.'); return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveDocument(owner, {
+        docType, countries, number, issuedOn, expiresOn, notes, scan,
+      }, document);
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The document will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save the document.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!document) return;
+    Alert.alert('Remove Document', `Remove this ${documentTitle(document).toLowerCase()} for ${owner.label}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await removeDocument(document, owner.label);
+            onClose();
+            if (result.state === 'queued') {
+              Alert.alert('Saved Offline', 'The document will be removed when you reconnect.');
+            }
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to remove the document.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const attachedName = scan?.name ?? document?.file_name ?? null;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={styles.sheetHeader}>
+          <TouchableOpacity onPress={onClose}><Text style={styles.cancel}>Cancel</Text></TouchableOpacity>
+          <Text style={styles.sheetTitle}>{document ? 'Edit Document' : 'New Document'}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color={COLORS.primary} /> : <Text style={styles.save}>Save</Text>}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.sheetBody} keyboardShouldPersistTaps="handled">
+          <Text style={styles.owner}>{owner.label}</Text>
+
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.chips}>
+            {types.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, docType === type && styles.chipActive]}
+                onPress={() => setDocType(type)}
+              >
+                <Text style={[styles.chipText, docType === type && styles.chipTextActive]}>{DOCUMENT_LABELS[type]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {docType === 'cross_border_permit' && (
+            <>
+              <Text style={styles.label}>Countries covered</Text>
+              <View style={styles.chips}>
+                {BORDER_COUNTRIES.map((country) => {
+                  const active = countries.includes(country.code);
+                  return (
+                    <TouchableOpacity
+                      key={country.code}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => toggleCountry(country.code)}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{country.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>Number</Text>
+          <TextInput style={styles.input} value={number} onChangeText={setNumber} placeholder="Policy, licence or permit number" placeholderTextColor={COLORS.textSoft} autoCapitalize="characters" />
+
+          <Text style={styles.label}>Issued</Text>
+          <TouchableOpacity style={styles.input} onPress={() => setPicking((open) => (open === 'issued' ? null : 'issued'))} activeOpacity={0.8}>
+            <Text style={[styles.inputText, !issuedOn && { color: COLORS.textSoft }]}>
+              {issuedOn ? formatDocumentDay(issuedOn) : 'Optional'}
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={styles.label}>Expires</Text>
+          <TouchableOpacity style={styles.input} onPress={() => setPicking((open) => (open === 'expires' ? null : 'expires'))} activeOpacity={0.8}>
+            <Text style={styles.inputText}>{formatDocumentDay(expiresOn)}</Text>
+          </TouchableOpacity>
+
+          {picking && (
+            <DateTimePicker
+              value={new Date(`${(picking === 'issued' ? issuedOn ?? expiresOn : expiresOn)}T00:00:00`)}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              maximumDate={picking === 'issued' ? new Date() : undefined}
+              onChange={handleDate}
+              themeVariant="light"
+              accentColor={COLORS.primary}
+            />
+          )}
+
+          <Text style={styles.label}>Scan</Text>
+          <View style={styles.scanRow}>
+            <Text style={[styles.scanName, !attachedName && { color: COLORS.textSoft }]} numberOfLines={1}>
+              {attachedName ?? 'No file attached'}
+            </Text>
+            {document?.file_path && !scan && (
+              <TouchableOpacity onPress={() => viewScan(document)}>
+                <Text style={styles.link}>View</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={pickScan}>
+              <Text style={styles.link}>{attachedName ? 'Replace' : 'Attach'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, { minHeight: 72, textAlignVertical: 'top' }]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Insurer, issuing office…"
+            placeholderTextColor={COLORS.textSoft}
+            multiline
+          />
+
+          {document && (
+            <TouchableOpacity style={styles.removeBtn} onPress={confirmRemove}>
+              <Text style={styles.removeText}>Remove Document</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  empty: { fontSize: 13, color: COLORS.textMuted },
+  doc: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  docName: { fontSize: 14, fontWeight: '600', color: COLORS.text },
+  docMeta: { fontSize: 12, color: COLORS.textMuted, marginTop: 2 },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10 },
+  badgeText: { fontSize: 10, fontWeight: '700' },
+  link: { fontSize: 13, fontWeight: '700', color: COLORS.primary },
+  history: { fontSize: 11, color: COLORS.textSoft, marginTop: 8 },
+  addBtn: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    alignItems: 'center',
+  },
+  addBtnText: { fontSize: 14, fontWeight: '700', color: COLORS.primary },
+
+  sheet: { flex: 1, backgroundColor: COLORS.background },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  sheetTitle: { fontSize: 16, fontWeight: '700', color: COLORS.text },
+  cancel: { fontSize: 15, color: COLORS.textMuted },
+  save: { fontSize: 15, fontWeight: '700', color: COLORS.primary },
+  sheetBody: { padding: 20, paddingBottom: 48 },
+  owner: { fontSize: 13, fontWeight: '600', color: COLORS.textMuted },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  chipActive: { borderColor: COLORS.primary, backgroundColor: COLORS.primarySoft },
+  chipText: { fontSize: 12, color: COLORS.text },
+  chipTextActive: { fontWeight: '700', color: COLORS.primary },
+  label: { fontSize: 12, fontWeight: '700', color: COLORS.textMuted, marginTop: 16, marginBottom: 8 },
+  input: {
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  inputText: { fontSize: 15, color: COLORS.text },
+  scanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  scanName: { flex: 1, fontSize: 14, color: COLORS.text },
+  removeBtn: { marginTop: 28, alignItems: 'center' },
+  removeText: { fontSize: 14, fontWeight: '700', color: COLORS.danger },
+});
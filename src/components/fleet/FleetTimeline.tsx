@@ -0,0 +1,479 @@
+/**
+ * FleetTimeline
+ * Availability calendar: one row per vehicle, bars for vehicle bookings,
+ * safari bookings and open repairs across a two-week window.
+ *
+ * Long-press a booking bar and drag it to another vehicle row to reassign
+ * it. The move runs the same availability check as EditBookingModal before
+ * anything is written; overlaps already on the board are outlined in red.
+ */
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+  runOnJS,
+} from 'react-native-reanimated';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import { useFleetSchedule, type ScheduleItem } from '../../hooks/useFleetSchedule';
+import { rangesOverlap, reassignVehicle } from '../../lib/vehicleAvailability';
+import { tapMedium, selectionTick, notifySuccess, notifyWarning } from '../../lib/haptics';
+import type { Vehicle, Repair } from '../../types/dashboard';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  primary:    '#1f4d45',
+  purple:     '#8366d7',
+  warning:    '#b8883f',
+  danger:     '#c96d4d',
+  card:       '#fffdf9',
+  weekend:    '#f6f2eb',
+  today:      '#dce8e3',
+  text:       '#181512',
+  textMuted:  '#7f7565',
+  border:     '#e1d7c8',
+};
+
+const KIND_COLORS: Record<ScheduleItem['kind'] | 'repair', string> = {
+  booking: COLORS.primary,
+  safari:  COLORS.purple,
+  repair:  COLORS.warning,
+};
+
+const VEHICLE_STATUS_COLOR: Record<string, string> = {
+  available:      '#3d8f6a',
+  booked:         COLORS.purple,
+  rented:         COLORS.purple,
+  maintenance:    COLORS.warning,
+  out_of_service: COLORS.danger,
+};
+
+const WINDOW_DAYS  = 14;
+const LABEL_WIDTH  = 96;
+const DAY_WIDTH    = 38;
+const ROW_HEIGHT   = 48;
+const HEADER_HEIGHT = 36;
+const BAR_HEIGHT   = 28;
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+function toISODate(d: Date): string {
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+function addDays(iso: string, days: number): string {
+  const d = parseDay(iso);
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000);
+}
+
+function parseDay(iso: string): Date {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function formatDay(iso: string): string {
+  return parseDay(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+interface Bar {
+  key: string;
+  kind: ScheduleItem['kind'] | 'repair';
+  label: string;
+  start: string;
+  end: string;
+  item?: ScheduleItem; // set for draggable bars
+}
+
+// Clip a bar to the visible window; null when it falls outside
+function barGeometry(bar: Bar, from: string): { left: number; width: number } | null {
+  const startIdx = Math.max(0, daysBetween(from, bar.start));
+  const endIdx   = Math.min(WINDOW_DAYS - 1, daysBetween(from, bar.end));
+  if (endIdx < startIdx) return null;
+  return { left: startIdx * DAY_WIDTH + 1, width: (endIdx - startIdx + 1) * DAY_WIDTH - 2 };
+}
+
+// Bars sharing a day with another bar on the same vehicle
+function findOverlaps(bars: Bar[]): Set<string> {
+  const overlapping = new Set<string>();
+  bars.forEach((a, i) => {
+    bars.slice(i + 1).forEach((b) => {
+      if (rangesOverlap(a.start, a.end, b.start, b.end)) {
+        overlapping.add(a.key);
+        overlapping.add(b.key);
+      }
+    });
+  });
+  return overlapping;
+}
+
+// ============================================================================
+// DRAGGABLE BAR
+// ============================================================================
+
+interface TimelineBarProps {
+  bar: Bar;
+  left: number;
+  width: number;
+  conflict: boolean;
+  rowIndex: number;
+  rowCount: number;
+  onDragStart: (rowIndex: number) => void;
+  onDrop: (item: ScheduleItem, fromRow: number, toRow: number) => void;
+}
+
+function TimelineBar({ bar, left, width, conflict, rowIndex, rowCount, onDragStart, onDrop }: TimelineBarProps) {
+  const translateY = useSharedValue(0);
+  const lifted     = useSharedValue(0);
+  const item = bar.item;
+
+  const pan = Gesture.Pan()
+    .enabled(!!item)
+    .activateAfterLongPress(250)
+    .onStart(() => {
+      lifted.value = withSpring(1);
+      runOnJS(onDragStart)(rowIndex);
+    })
+    .onUpdate((e) => {
+      const min = -rowIndex * ROW_HEIGHT;
+      const max = (rowCount - 1 - rowIndex) * ROW_HEIGHT;
+      translateY.value = Math.min(max, Math.max(min, e.translationY));
+    })
+    .onEnd(() => {
+      if (item) {
+        runOnJS(onDrop)(item, rowIndex, rowIndex + Math.round(translateY.value / ROW_HEIGHT));
+      }
+    })
+    .onFinalize(() => {
+      lifted.value = withSpring(0);
+      translateY.value = withSpring(0, { damping: 20, stiffness: 220 });
+    });
+
+  const animStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: translateY.value }, { scale: 1 + lifted.value * 0.04 }],
+    shadowOpacity: lifted.value * 0.25,
+    elevation: lifted.value * 6,
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View
+        style={[
+          styles.bar,
+          { left, width, backgroundColor: KIND_COLORS[bar.kind] },
+          conflict && styles.barConflict,
+          animStyle,
+        ]}
+      >
+        <Text style={styles.barText} numberOfLines={1}>{bar.label}</Text>
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface FleetTimelineProps {
+  vehicles: Vehicle[];
+  repairs: Repair[];
+}
+
+export function FleetTimeline({ vehicles, repairs }: FleetTimelineProps) {
+  const today = toISODate(new Date());
+  const [from, setFrom] = useState(() => addDays(today, -2));
+  const to = addDays(from, WINDOW_DAYS - 1);
+  const [dragRow, setDragRow] = useState<number | null>(null);
+  const [moving, setMoving] = useState(false);
+
+  const { items, loading, refetch } = useFleetSchedule(from, to);
+
+  const days = useMemo(
+    () => Array.from({ length: WINDOW_DAYS }, (_, i) => addDays(from, i)),
+    [from],
+  );
+
+  // Bars per vehicle, with the overlapping ones flagged
+  const rows = useMemo(() => vehicles.map((vehicle) => {
+    const bars: Bar[] = [
+      ...items
+        .filter((item) => item.vehicleId === vehicle.id)
+        .map((item): Bar => ({
+          key: `${item.kind}-${item.id}`,
+          kind: item.kind,
+          label: item.label,
+          start: item.start,
+          end: item.end,
+          item,
+        })),
+      ...repairs
+        .filter((r) => r.vehicle_id === vehicle.id)
+        .map((r): Bar => {
+          const start = r.reported_at.slice(0, 10);
+          // Open repairs run until today (or their start, if reported ahead)
+          return { key: `repair-${r.id}`, kind: 'repair', label: r.description, start, end: start > today ? start : today };
+        }),
+    ];
+    return { vehicle, bars, overlaps: findOverlaps(bars) };
+  }), [vehicles, items, repairs, today]);
+
+  const shiftWindow = useCallback((delta: number) => {
+    selectionTick();
+    setFrom((f) => addDays(f, delta));
+  }, []);
+
+  const handleDragStart = useCallback((rowIndex: number) => {
+    tapMedium();
+    setDragRow(rowIndex);
+  }, []);
+
+  const moveItem = useCallback(async (item: ScheduleItem, target: Vehicle) => {
+    setMoving(true);
+    try {
+      const result = await reassignVehicle(
+        { kind: item.kind, id: item.id, reference: item.reference, fromVehicleId: item.vehicleId },
+        target.id,
+      );
+      if (!result.ok) {
+        notifyWarning();
+        Alert.alert(
+          'Vehicle Unavailable',
+          `This vehicle is already assigned to ${result.conflictRef}. Please select a different vehicle.`,
+          [{ text: 'OK' }],
+        );
+        return;
+      }
+      notifySuccess();
+      if (result.queued) {
+        Alert.alert('Saved Offline', `${item.reference} will move to ${target.license_plate} when you reconnect.`);
+      }
+      await refetch();
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to move booking. Please try again.');
+    } finally {
+      setMoving(false);
+    }
+  }, [refetch]);
+
+  const handleDrop = useCallback((item: ScheduleItem, fromRow: number, toRow: number) => {
+    setDragRow(null);
+    const target = rows[toRow]?.vehicle;
+    if (!target || toRow === fromRow) return;
+
+    // Conflicts visible on the board are caught before asking the server
+    if (target.status === 'maintenance' || target.status === 'out_of_service') {
+      notifyWarning();
+      Alert.alert('Vehicle Unavailable', `${target.license_plate} is ${target.status.replace(/_/g, ' ')}.`);
+      return;
+    }
+    const clash = rows[toRow].bars.find((bar) => rangesOverlap(bar.start, bar.end, item.start, item.end));
+    if (clash) {
+      notifyWarning();
+      Alert.alert(
+        'Vehicle Unavailable',
+        clash.kind === 'repair'
+          ? `${target.license_plate} is under repair on these dates.`
+          : `This vehicle is already assigned to ${clash.item?.reference ?? clash.label}. Please select a different vehicle.`,
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Move Booking',
+      `Move ${item.reference} (${formatDay(item.start)} – ${formatDay(item.end)}) to ${target.license_plate}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Move', onPress: () => { void moveItem(item, target); } },
+      ],
+    );
+  }, [rows, moveItem]);
+
+  return (
+    <GestureHandlerRootView style={styles.container}>
+      {/* Window controls */}
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.navBtn} onPress={() => shiftWindow(-7)} activeOpacity={0.7}>
+          <Text style={styles.navBtnText}>‹</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setFrom(addDays(today, -2))} activeOpacity={0.7}>
+          <Text style={styles.rangeText}>{formatDay(from)} – {formatDay(to)}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.navBtn} onPress={() => shiftWindow(7)} activeOpacity={0.7}>
+          <Text style={styles.navBtnText}>›</Text>
+        </TouchableOpacity>
+        {(loading || moving) && <ActivityIndicator size="small" color={COLORS.primary} style={styles.spinner} />}
+      </View>
+
+      <View style={styles.board}>
+        {/* Vehicle labels */}
+        <View style={{ width: LABEL_WIDTH }}>
+          <View style={{ height: HEADER_HEIGHT }} />
+          {rows.map(({ vehicle }, index) => (
+            <View key={vehicle.id} style={[styles.labelCell, dragRow !== null && index === dragRow && styles.labelCellActive]}>
+              <View style={[styles.statusDot, { backgroundColor: VEHICLE_STATUS_COLOR[vehicle.status] ?? COLORS.textMuted }]} />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.plate} numberOfLines={1}>{vehicle.license_plate}</Text>
+                <Text style={styles.model} numberOfLines={1}>{vehicle.make} {vehicle.model}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Day grid */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={{ width: WINDOW_DAYS * DAY_WIDTH }}>
+            <View style={[styles.dayHeader, { height: HEADER_HEIGHT }]}>
+              {days.map((day) => (
+                <View key={day} style={[styles.dayHeaderCell, day === today && styles.todayCell]}>
+                  <Text style={styles.dayHeaderText}>{formatDay(day).split(' ')[0]}</Text>
+                </View>
+              ))}
+            </View>
+
+            {rows.map(({ vehicle, bars, overlaps }, rowIndex) => (
+              // The row being dragged from sits above the others so its bar stays visible
+              <View key={vehicle.id} style={[styles.row, { zIndex: rowIndex === dragRow ? 10 : 0 }]}>
+                {days.map((day, i) => {
+                  const weekday = parseDay(day).getDay();
+                  return (
+                    <View
+                      key={day}
+                      style={[
+                        styles.dayCell,
+                        { left: i * DAY_WIDTH },
+                        (weekday === 0 || weekday === 6) && styles.weekendCell,
+                        day === today && styles.todayCell,
+                      ]}
+                    />
+                  );
+                })}
+                {bars.map((bar) => {
+                  const geometry = barGeometry(bar, from);
+                  if (!geometry) return null;
+                  return (
+                    <TimelineBar
+                      key={bar.key}
+                      bar={bar}
+                      left={geometry.left}
+                      width={geometry.width}
+                      conflict={overlaps.has(bar.key)}
+                      rowIndex={rowIndex}
+                      rowCount={rows.length}
+                      onDragStart={handleDragStart}
+                      onDrop={handleDrop}
+                    />
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {([['booking', 'Booking'], ['safari', 'Safari'], ['repair', 'Repair']] as const).map(([kind, label]) => (
+          <View key={kind} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: KIND_COLORS[kind] }]} />
+            <Text style={styles.legendText}>{label}</Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.barConflict]} />
+          <Text style={styles.legendText}>Overlap</Text>
+        </View>
+      </View>
+      <Text style={styles.hint}>Long-press a booking and drag it to another vehicle to reassign.</Text>
+    </GestureHandlerRootView>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 16,
+    paddingVertical: 12,
+  },
+  toolbar: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingHorizontal: 12, marginBottom: 10 },
+  navBtn: { width: 32, height: 32, borderRadius: 16, borderWidth: 1, borderColor: COLORS.border, alignItems: 'center', justifyContent: 'center' },
+  navBtnText: { fontSize: 18, fontWeight: '700', color: COLORS.text, marginTop: -2 },
+  rangeText: { fontSize: 14, fontWeight: '700', color: COLORS.text },
+  spinner: { marginLeft: 'auto' },
+  board: { flexDirection: 'row' },
+  labelCell: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: COLORS.border,
+  },
+  labelCellActive: { backgroundColor: COLORS.today },
+  statusDot: { width: 8, height: 8, borderRadius: 4 },
+  plate: { fontSize: 12, fontWeight: '700', color: COLORS.text },
+  model: { fontSize: 10, color: COLORS.textMuted },
+  dayHeader: { flexDirection: 'row' },
+  dayHeaderCell: { width: DAY_WIDTH, alignItems: 'center', justifyContent: 'center' },
+  dayHeaderText: { fontSize: 11, fontWeight: '600', color: COLORS.textMuted },
+  row: {
+    height: ROW_HEIGHT,
+    overflow: 'visible',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: COLORS.border,
+  },
+  dayCell: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: DAY_WIDTH,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderLeftColor: COLORS.border,
+  },
+  weekendCell: { backgroundColor: COLORS.weekend },
+  todayCell: { backgroundColor: COLORS.today },
+  bar: {
+    position: 'absolute',
+    top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+    height: BAR_HEIGHT,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowRadius: 6,
+  },
+  barConflict: { borderWidth: 2, borderColor: COLORS.danger },
+  barText: { fontSize: 11, fontWeight: '600', color: '#fffaf3' },
+  legend: { flexDirection: 'row', flexWrap: 'wrap', gap: 14, paddingHorizontal: 12, marginTop: 12 },
+  legendItem: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  legendSwatch: { width: 12, height: 12, borderRadius: 3 },
+  legendText: { fontSize: 11, color: COLORS.textMuted },
+  hint: { fontSize: 11, color: COLORS.textMuted, paddingHorizontal: 12, marginTop: 6 },
+});
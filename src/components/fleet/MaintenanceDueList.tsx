@@ -0,0 +1,174 @@
+/**
+ * MaintenanceDueList
+ * "Due soon" card for the fleet screen: service plans, service dates and
+ * document renewals that are overdue or coming up, most pressing first.
+ * Tapping an entry opens the vehicle; "Done" records the service.
+ */
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Svg, Path, Circle } from 'react-native-svg';
+import { dueLabel, markServiced, planInterval, type MaintenanceItem, type MaintenanceState } from '../../lib/maintenance';
+import { notifySuccess } from '../../lib/haptics';
+import type { Vehicle } from '../../types/dashboard';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  primary:    '#1f4d45',
+  warning:    '#b8883f',
+  danger:     '#c96d4d',
+  card:       '#fffdf9',
+  text:       '#181512',
+  textMuted:  '#7f7565',
+  border:     '#e1d7c8',
+};
+
+const STATE_COLORS: Record<Exclude<MaintenanceState, 'ok'>, { bg: string; text: string; label: string }> = {
+  overdue:  { bg: '#fdf0ec', text: '#8b3320', label: 'Overdue' },
+  due_soon: { bg: '#f5e8ce', text: '#7a5522', label: 'Due soon' },
+};
+
+const VISIBLE = 5;
+
+// ============================================================================
+// ICON COMPONENT
+// ============================================================================
+
+function GaugeIcon({ size = 18, color = COLORS.warning }: { size?: number; color?: string }) {
+  return (
+    <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={2} strokeLinecap="round">
+      <Circle cx="12" cy="12" r="9" />
+      <Path d="M12 12l4-4" />
+      <Path d="M12 7v1M7 12h1M16 12h1" />
+    </Svg>
+  );
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface MaintenanceDueListProps {
+  items: MaintenanceItem[];
+  onPressVehicle: (vehicle: Vehicle) => void;
+}
+
+export function MaintenanceDueList({ items, onPressVehicle }: MaintenanceDueListProps) {
+  if (items.length === 0) return null;
+
+  const confirmDone = (item: MaintenanceItem) => {
+    const plan = item.plan;
+    if (!plan) return;
+    Alert.alert(
+      'Mark as Done',
+      `Record ${plan.name.toLowerCase()} for ${item.vehicle.license_plate} as done today` +
+        (item.vehicle.odometer ? ` at ${item.vehicle.odometer.toLocaleString()} km?` : '?'),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Done',
+          onPress: async () => {
+            try {
+              const result = await markServiced(plan, item.vehicle, item.repair);
+              notifySuccess();
+              if (result.state === 'queued') {
+                Alert.alert('Saved Offline', 'The service will be recorded when you reconnect.');
+              }
+            } catch (e: any) {
+              Alert.alert('Error', e?.message || 'Failed to record the service.');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const overdue = items.filter((i) => i.due.state === 'overdue').length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <GaugeIcon size={18} color={overdue > 0 ? COLORS.danger : COLORS.warning} />
+        <Text style={styles.headerTitle}>Due Soon ({items.length})</Text>
+        {overdue > 0 && <Text style={styles.headerSub}>{overdue} overdue</Text>}
+      </View>
+
+      {items.slice(0, VISIBLE).map((item) => {
+        const state = STATE_COLORS[item.due.state === 'overdue' ? 'overdue' : 'due_soon'];
+        return (
+          <TouchableOpacity
+            key={item.key}
+            style={styles.item}
+            onPress={() => onPressVehicle(item.vehicle)}
+            activeOpacity={0.75}
+          >
+            <View style={{ flex: 1 }}>
+              <View style={styles.itemHeader}>
+                <Text style={styles.plate}>{item.vehicle.license_plate}</Text>
+                <View style={[styles.badge, { backgroundColor: state.bg }]}>
+                  <Text style={[styles.badgeText, { color: state.text }]}>{state.label}</Text>
+                </View>
+              </View>
+              <Text style={styles.label}>
+                {item.label} · {dueLabel(item.due)}
+              </Text>
+              <Text style={styles.meta} numberOfLines={1}>
+                {item.plan
+                  ? planInterval(item.plan)
+                  : item.kind === 'document'
+                  ? (item.document?.number ? `No. ${item.document.number}` : 'Expiry date')
+                  : 'Next service date'}
+                {item.repair ? ' · repair opened' : ''}
+              </Text>
+            </View>
+            {item.plan && (
+              <TouchableOpacity onPress={() => confirmDone(item)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Text style={styles.done}>Done</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {items.length > VISIBLE && (
+        <Text style={styles.moreText}>+{items.length - VISIBLE} more</Text>
+      )}
+    </View>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 },
+  headerTitle: { fontSize: 16, fontWeight: '600', color: COLORS.text },
+  headerSub: { marginLeft: 'auto', fontSize: 12, fontWeight: '700', color: COLORS.danger },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  itemHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 },
+  plate: { fontSize: 14, fontWeight: '600', color: COLORS.text },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10 },
+  badgeText: { fontSize: 10, fontWeight: '700' },
+  label: { fontSize: 13, color: COLORS.text },
+  meta: { fontSize: 11, color: COLORS.textMuted, marginTop: 2 },
+  done: { fontSize: 13, fontWeight: '700', color: COLORS.primary },
+  moreText: { fontSize: 12, color: COLORS.primary, textAlign: 'center', marginTop: 8 },
+});
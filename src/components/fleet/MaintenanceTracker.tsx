@@ -88,7 +88,10 @@ export function MaintenanceTracker({ repairs, loading }: MaintenanceTrackerProps
     return (
       <View style={styles.repairItem}>
         <View style={styles.repairHeader}>
-          <Text style={styles.vehiclePlate}>{vehiclePlate}</Text>
+          <Text style={styles.vehiclePlate}>
+            {vehiclePlate}
+            {item.service_plan_id ? <Text style={styles.scheduledTag}>  · Scheduled</Text> : null}
+          </Text>
           <View style={[styles.priorityBadge, { backgroundColor: priorityColors.bg }]}>
             <Text style={[styles.priorityText, { color: priorityColors.text }]}>
               {item.priority}
@@ -194,6 +197,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.text,
   },
+  scheduledTag: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: COLORS.primary,
+  },
   priorityBadge: {
     paddingHorizontal: 8,
     paddingVertical: 3,
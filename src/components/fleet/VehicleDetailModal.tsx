@@ -10,6 +10,10 @@ import {
 } from 'react-native';
 import { Svg, Path, Circle, Line } from 'react-native-svg';
 import type { Vehicle } from '../../types/dashboard';
+import { HistoryTimeline } from '../ui';
+import { VehicleServicePlans } from './VehicleServicePlans';
+import { ComplianceDocuments } from './ComplianceDocuments';
+import { VehicleFuelTrips } from './VehicleFuelTrips';
 
 // ============================================================================
 // CONSTANTS
@@ -221,6 +225,34 @@ export function VehicleDetailModal({ vehicle, visible, onClose }: VehicleDetailM
             </View>
           </View>
 
+          {/* Service plans */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Service Plans</Text>
+            <VehicleServicePlans vehicle={vehicle} />
+          </View>
+
+          {/* Insurance, licences and permits */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Documents</Text>
+            <ComplianceDocuments owner={{ kind: 'vehicle', id: vehicle.id, label: vehicle.license_plate }} />
+          </View>
+
+          {/* Fuel fills, trips and economy */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Fuel & Trips</Text>
+            <VehicleFuelTrips vehicle={vehicle} />
+          </View>
+
+          {/* Change history */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <HistoryTimeline
+              table="vehicles"
+              recordId={vehicle.id}
+              fieldLabels={{ current_driver_id: 'Driver' }}
+            />
+          </View>
+
           <View style={styles.bottomSpacer} />
         </ScrollView>
       </SafeAreaView>
@@ -0,0 +1,682 @@
+/**
+ * VehicleFuelTrips
+ * A vehicle's fuel and trip logs in its detail view: fuel economy and its
+ * trend between full tanks, the latest entries, and forms to log fuel or a
+ * trip with the odometer checked against earlier and later readings.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, Platform, KeyboardAvoidingView, StyleSheet, Switch,
+} from 'react-native';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { supabase } from '../../lib/supabase';
+import { useVehicleLogs } from '../../hooks/useVehicleLogs';
+import { isoDay } from '../../lib/payments';
+import { formatCurrency } from '../../lib/utils';
+import {
+  averageEconomy,
+  formatLogDay,
+  fuelEconomy,
+  odometerError,
+  odometerReadings,
+  removeFuelLog,
+  removeTripLog,
+  saveFuelLog,
+  saveTripLog,
+} from '../../lib/vehicleLogs';
+import type { Vehicle } from '../../types/dashboard';
+import { CURRENCIES, type Currency, type FuelLogRow, type TripLogRow } from '../../../sdk/schema/tables';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  primary:    '#1f4d45',
+  primarySoft:'#dce8e3',
+  danger:     '#c96d4d',
+  background: '#f6f2eb',
+  card:       '#fffdf9',
+  text:       '#181512',
+  textMuted:  '#7f7565',
+  textSoft:   '#9a8f7e',
+  border:     '#e1d7c8',
+  track:      '#ede6d8',
+};
+
+const RECENT = 6;
+const TREND_POINTS = 8;
+
+interface LinkedBooking {
+  id: string;
+  booking_reference: string | null;
+  client_name: string | null;
+  start_date: string;
+  end_date: string;
+}
+
+type LogEntry =
+  | { kind: 'fuel'; day: string; log: FuelLogRow }
+  | { kind: 'trip'; day: string; log: TripLogRow };
+
+// The vehicle's recent bookings, to link an entry to the trip it was for
+function useVehicleBookings(vehicleId: string, enabled: boolean): LinkedBooking[] {
+  const [bookings, setBookings] = useState<LinkedBooking[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    supabase
+      .from('bookings')
+      .select('id, booking_reference, client_name, start_date, end_date')
+      .eq('assigned_vehicle_id', vehicleId)
+      .neq('status', 'Cancelled')
+      .order('start_date', { ascending: false })
+      .limit(8)
+      .then(({ data, error }) => {
+        if (error) console.warn('[VehicleFuelTrips] Could not load bookings:', error.message);
+        else setBookings((data || []) as LinkedBooking[]);
+      });
+  }, [vehicleId, enabled]);
+
+  return bookings;
+}
+
+function bookingOn(bookings: LinkedBooking[], day: string): string | null {
+  return bookings.find((b) => b.start_date.slice(0, 10) <= day && b.end_date.slice(0, 10) >= day)?.id ?? null;
+}
+
+function parseNumber(value: string): number | null {
+  const n = parseFloat(value.replace(/,/g, ''));
+  return value.trim() && !isNaN(n) ? n : null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function VehicleFuelTrips({ vehicle }: { vehicle: Vehicle }) {
+  const { fuelLogs, tripLogs, loading } = useVehicleLogs();
+  const [editingFuel, setEditingFuel] = useState<FuelLogRow | 'new' | null>(null);
+  const [editingTrip, setEditingTrip] = useState<TripLogRow | 'new' | null>(null);
+
+  const vehicleFuel = useMemo(() => fuelLogs.filter((l) => l.vehicle_id === vehicle.id), [fuelLogs, vehicle.id]);
+  const vehicleTrips = useMemo(() => tripLogs.filter((t) => t.vehicle_id === vehicle.id), [tripLogs, vehicle.id]);
+
+  const economy = useMemo(() => fuelEconomy(vehicleFuel), [vehicleFuel]);
+  const average = averageEconomy(economy);
+  const trend = economy.slice(-TREND_POINTS);
+  const best = Math.max(...trend.map((p) => p.kmPerLitre), 1);
+  const tripKm = vehicleTrips.reduce((sum, t) => sum + t.distance_km, 0);
+
+  const entries: LogEntry[] = [
+    ...vehicleFuel.map((log): LogEntry => ({ kind: 'fuel', day: log.filled_on, log })),
+    ...vehicleTrips.map((log): LogEntry => ({ kind: 'trip', day: log.started_on, log })),
+  ].sort((a, b) => b.day.localeCompare(a.day));
+
+  return (
+    <View>
+      {loading && fuelLogs.length === 0 && tripLogs.length === 0 ? (
+        <ActivityIndicator size="small" color={COLORS.primary} style={{ alignSelf: 'flex-start' }} />
+      ) : entries.length === 0 ? (
+        <Text style={styles.empty}>No fuel or trips logged yet. Log fills at full tank to track fuel economy.</Text>
+      ) : (
+        <>
+          <View style={styles.stats}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{average != null ? average.toFixed(1) : '—'}</Text>
+              <Text style={styles.statLabel}>km / litre</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{vehicleFuel.reduce((sum, l) => sum + l.litres, 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}</Text>
+              <Text style={styles.statLabel}>litres logged</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{tripKm.toLocaleString()}</Text>
+              <Text style={styles.statLabel}>trip km</Text>
+            </View>
+          </View>
+
+          {trend.length > 1 && (
+            <View style={styles.trend}>
+              {trend.map((point) => (
+                <View key={point.day} style={styles.trendCol}>
+                  <Text style={styles.trendValue}>{point.kmPerLitre.toFixed(1)}</Text>
+                  <View style={styles.trendTrack}>
+                    <View style={[styles.trendFill, { height: `${(point.kmPerLitre / best) * 100}%` }]} />
+                  </View>
+                  <Text style={styles.trendDay}>{formatLogDay(point.day).slice(0, -5)}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {entries.slice(0, RECENT).map((entry) => (
+            <TouchableOpacity
+              key={`${entry.kind}:${entry.log.id}`}
+              style={styles.entry}
+              onPress={() => (entry.kind === 'fuel' ? setEditingFuel(entry.log) : setEditingTrip(entry.log))}
+              activeOpacity={0.75}
+            >
+              <View style={{ flex: 1 }}>
+                <Text style={styles.entryTitle}>
+                  {entry.kind === 'fuel'
+                    ? `${entry.log.litres} L${entry.log.full_tank ? ' · full tank' : ''}`
+                    : `${entry.log.distance_km.toLocaleString()} km${entry.log.purpose ? ` · ${entry.log.purpose}` : ''}`}
+                </Text>
+                <Text style={styles.entryMeta} numberOfLines={1}>
+                  {formatLogDay(entry.day)}
+                  {entry.kind === 'fuel'
+                    ? ` · ${entry.log.odometer.toLocaleString()} km${entry.log.station ? ` · ${entry.log.station}` : ''}`
+                    : ` · ${entry.log.start_odometer.toLocaleString()} → ${entry.log.end_odometer.toLocaleString()} km`}
+                </Text>
+              </View>
+              <Text style={styles.entryAmount}>
+                {entry.kind === 'fuel' ? formatCurrency(entry.log.cost, entry.log.currency) : 'Trip'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {entries.length > RECENT && (
+            <Text style={styles.more}>+{entries.length - RECENT} earlier entries</Text>
+          )}
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.addBtn} onPress={() => setEditingFuel('new')} activeOpacity={0.85}>
+          <Text style={styles.addBtnText}>Log Fuel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.addBtn} onPress={() => setEditingTrip('new')} activeOpacity={0.85}>
+          <Text style={styles.addBtnText}>Log Trip</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FuelLogModal
+        visible={editingFuel !== null}
+        vehicle={vehicle}
+        log={editingFuel === 'new' ? undefined : editingFuel ?? undefined}
+        fuelLogs={fuelLogs}
+        tripLogs={tripLogs}
+        onClose={() => setEditingFuel(null)}
+      />
+      <TripLogModal
+        visible={editingTrip !== null}
+        vehicle={vehicle}
+        trip={editingTrip === 'new' ? undefined : editingTrip ?? undefined}
+        fuelLogs={fuelLogs}
+        tripLogs={tripLogs}
+        onClose={() => setEditingTrip(null)}
+      />
+    </View>
+  );
+}
+
+// ============================================================================
+// SHARED FORM PIECES
+// ============================================================================
+
+function DateField({ label, value, onChange, open, onToggle }: {
+  label: string;
+  value: string;
+  onChange: (day: string) => void;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  const handleDate = (event: DateTimePickerEvent, date?: Date) => {
+    if (Platform.OS !== 'ios') onToggle();
+    if (event.type === 'set' && date) onChange(isoDay(date));
+  };
+
+  return (
+    <>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity style={styles.input} onPress={onToggle} activeOpacity={0.8}>
+        <Text style={styles.inputText}>{formatLogDay(value)}</Text>
+      </TouchableOpacity>
+      {open && (
+        <DateTimePicker
+          value={new Date(`${value}T00:00:00`)}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          maximumDate={new Date()}
+          onChange={handleDate}
+          themeVariant="light"
+          accentColor={COLORS.primary}
+        />
+      )}
+    </>
+  );
+}
+
+function BookingChips({ bookings, selectedId, onSelect }: {
+  bookings: LinkedBooking[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}) {
+  if (bookings.length === 0) return null;
+  return (
+    <>
+      <Text style={styles.label}>Booking</Text>
+      <View style={styles.chips}>
+        <TouchableOpacity style={[styles.chip, !selectedId && styles.chipActive]} onPress={() => onSelect(null)}>
+          <Text style={[styles.chipText, !selectedId && styles.chipTextActive]}>None</Text>
+        </TouchableOpacity>
+        {bookings.map((b) => (
+          <TouchableOpacity key={b.id} style={[styles.chip, selectedId === b.id && styles.chipActive]} onPress={() => onSelect(b.id)}>
+            <Text style={[styles.chipText, selectedId === b.id && styles.chipTextActive]} numberOfLines={1}>
+              {b.booking_reference || formatLogDay(b.start_date)}{b.client_name ? ` · ${b.client_name}` : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </>
+  );
+}
+
+function SheetHeader({ title, saving, onClose, onSave }: {
+  title: string; saving: boolean; onClose: () => void; onSave: () => void;
+}) {
+  return (
+    <View style={styles.sheetHeader}>
+      <TouchableOpacity onPress={onClose}><Text style={styles.cancel}>Cancel</Text></TouchableOpacity>
+      <Text style={styles.sheetTitle}>{title}</Text>
+      <TouchableOpacity onPress={onSave} disabled={saving}>
+        {saving ? <ActivityIndicator size="small" color={COLORS.primary} /> : <Text style={styles.save}>Save</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// ============================================================================
+// FUEL FORM
+// ============================================================================
+
+interface FuelLogModalProps {
+  visible: boolean;
+  vehicle: Vehicle;
+  log?: FuelLogRow;
+  fuelLogs: FuelLogRow[];
+  tripLogs: TripLogRow[];
+  onClose: () => void;
+}
+
+function FuelLogModal({ visible, vehicle, log, fuelLogs, tripLogs, onClose }: FuelLogModalProps) {
+  const bookings = useVehicleBookings(vehicle.id, visible);
+
+  const [filledOn,   setFilledOn]   = useState(isoDay());
+  const [odometer,   setOdometer]   = useState('');
+  const [litres,     setLitres]     = useState('');
+  const [cost,       setCost]       = useState('');
+  const [currency,   setCurrency]   = useState<Currency>('UGX');
+  const [station,    setStation]    = useState('');
+  const [fullTank,   setFullTank]   = useState(true);
+  const [bookingId,  setBookingId]  = useState<string | null>(null);
+  const [notes,      setNotes]      = useState('');
+  const [pickingDay, setPickingDay] = useState(false);
+  const [saving,     setSaving]     = useState(false);
+
+  const handleShow = () => {
+    setFilledOn(log?.filled_on.slice(0, 10) ?? isoDay());
+    setOdometer(log ? String(log.odometer) : vehicle.odometer != null ? String(vehicle.odometer) : '');
+    setLitres(log ? String(log.litres) : '');
+    setCost(log ? String(log.cost) : '');
+    setCurrency(log?.currency ?? 'UGX');
+    setStation(log?.station ?? '');
+    setFullTank(log?.full_tank ?? true);
+    setBookingId(log ? log.booking_id : null);
+    setNotes(log?.notes ?? '');
+    setPickingDay(false);
+  };
+
+  // Suggest the booking the vehicle was out on that day
+  useEffect(() => {
+    if (visible && !log) setBookingId(bookingOn(bookings, filledOn));
+  }, [visible, log, bookings, filledOn]);
+
+  const handleSave = async () => {
+    const reading = parseNumber(odometer);
+    const qty = parseNumber(litres);
+    const amount = parseNumber(cost);
+
+    if (reading == null || reading < 0 || !Number.isInteger(reading)) {
+      Alert.alert('Validation Error', 'Enter the odometer reading in whole km.'); return;
+    }
+    if (qty == null || qty <= 0) { Alert.alert('Validation Error', 'Enter the litres filled.'); return; }
+    if (amount == null || amount < 0) { Alert.alert('Validation Error', 'Enter what the fuel cost.'); return; }
+
+    const conflict = odometerError(odometerReadings(vehicle.id, fuelLogs, tripLogs), filledOn, reading, log?.id);
+    if (conflict) { Alert.alert('Odometer Reading', conflict); return; }
+
+    setSaving(true);
+    try {
+      const result = await saveFuelLog(vehicle, {
+        filledOn, odometer: reading, litres: qty, cost: amount, currency, station, fullTank, bookingId, notes,
+      }, log);
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The fuel log will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save the fuel log.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!log) return;
+    Alert.alert('Remove Fuel Log', `Remove the ${log.litres} L fill on ${formatLogDay(log.filled_on)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await removeFuelLog(log, vehicle);
+            onClose();
+            if (result.state === 'queued') {
+              Alert.alert('Saved Offline', 'The fuel log will be removed when you reconnect.');
+            }
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to remove the fuel log.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <SheetHeader title={log ? 'Edit Fuel Log' : 'Log Fuel'} saving={saving} onClose={onClose} onSave={handleSave} />
+
+        <ScrollView contentContainerStyle={styles.sheetBody} keyboardShouldPersistTaps="handled">
+          <Text style={styles.owner}>{vehicle.license_plate}</Text>
+
+          <DateField label="Date" value={filledOn} onChange={setFilledOn} open={pickingDay} onToggle={() => setPickingDay((o) => !o)} />
+
+          <Text style={styles.label}>Odometer (km)</Text>
+          <TextInput style={styles.input} value={odometer} onChangeText={setOdometer} keyboardType="number-pad" />
+
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Litres</Text>
+              <TextInput style={styles.input} value={litres} onChangeText={setLitres} keyboardType="decimal-pad" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Cost</Text>
+              <TextInput style={styles.input} value={cost} onChangeText={setCost} keyboardType="decimal-pad" />
+            </View>
+          </View>
+
+          <View style={[styles.chips, { marginTop: 12 }]}>
+            {CURRENCIES.map((c) => (
+              <TouchableOpacity key={c} style={[styles.chip, currency === c && styles.chipActive]} onPress={() => setCurrency(c)}>
+                <Text style={[styles.chipText, currency === c && styles.chipTextActive]}>{c}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Station</Text>
+          <TextInput style={styles.input} value={station} onChangeText={setStation} placeholder="e.g. Shell Kampala Road" placeholderTextColor={COLORS.textSoft} />
+
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.switchLabel}>Filled to full</Text>
+              <Text style={styles.switchHint}>Fuel economy is measured between full tanks</Text>
+            </View>
+            <Switch value={fullTank} onValueChange={setFullTank} trackColor={{ true: COLORS.primary, false: COLORS.border }} />
+          </View>
+
+          <BookingChips bookings={bookings} selectedId={bookingId} onSelect={setBookingId} />
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput style={[styles.input, styles.notes]} value={notes} onChangeText={setNotes} multiline />
+
+          {log && (
+            <TouchableOpacity style={styles.removeBtn} onPress={confirmRemove}>
+              <Text style={styles.removeText}>Remove Fuel Log</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// TRIP FORM
+// ============================================================================
+
+interface TripLogModalProps {
+  visible: boolean;
+  vehicle: Vehicle;
+  trip?: TripLogRow;
+  fuelLogs: FuelLogRow[];
+  tripLogs: TripLogRow[];
+  onClose: () => void;
+}
+
+function TripLogModal({ visible, vehicle, trip, fuelLogs, tripLogs, onClose }: TripLogModalProps) {
+  const bookings = useVehicleBookings(vehicle.id, visible);
+
+  const [startedOn,     setStartedOn]     = useState(isoDay());
+  const [endedOn,       setEndedOn]       = useState(isoDay());
+  const [startOdometer, setStartOdometer] = useState('');
+  const [endOdometer,   setEndOdometer]   = useState('');
+  const [purpose,       setPurpose]       = useState('');
+  const [bookingId,     setBookingId]     = useState<string | null>(null);
+  const [notes,         setNotes]         = useState('');
+  const [picking,       setPicking]       = useState<'start' | 'end' | null>(null);
+  const [saving,        setSaving]        = useState(false);
+
+  const handleShow = () => {
+    setStartedOn(trip?.started_on.slice(0, 10) ?? isoDay());
+    setEndedOn(trip?.ended_on.slice(0, 10) ?? isoDay());
+    setStartOdometer(trip ? String(trip.start_odometer) : vehicle.odometer != null ? String(vehicle.odometer) : '');
+    setEndOdometer(trip ? String(trip.end_odometer) : '');
+    setPurpose(trip?.purpose ?? '');
+    setBookingId(trip ? trip.booking_id : null);
+    setNotes(trip?.notes ?? '');
+    setPicking(null);
+  };
+
+  useEffect(() => {
+    if (visible && !trip) setBookingId(bookingOn(bookings, startedOn));
+  }, [visible, trip, bookings, startedOn]);
+
+  const handleSave = async () => {
+    const start = parseNumber(startOdometer);
+    const end = parseNumber(endOdometer);
+
+    if (start == null || end == null || start < 0 || !Number.isInteger(start) || !Number.isInteger(end)) {
+      Alert.alert('Validation Error', 'Enter both odometer readings in whole km.'); return;
+    }
+    if (end < start) { Alert.alert('Validation Error', 'The end reading must be at least the start reading.'); return; }
+    if (endedOn < startedOn) { Alert.alert('Validation Error', 'The trip must end on or after the day it started.'); return; }
+
+    const readings = odometerReadings(vehicle.id, fuelLogs, tripLogs);
+    const conflict = odometerError(readings, startedOn, start, trip?.id) ?? odometerError(readings, endedOn, end, trip?.id);
+    if (conflict) { Alert.alert('Odometer Reading', conflict); return; }
+
+    setSaving(true);
+    try {
+      const result = await saveTripLog(vehicle, {
+        startedOn, endedOn, startOdometer: start, endOdometer: end, purpose, bookingId, notes,
+      }, trip);
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The trip will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save the trip.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!trip) return;
+    Alert.alert('Remove Trip', `Remove the ${trip.distance_km.toLocaleString()} km trip on ${formatLogDay(trip.started_on)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await removeTripLog(trip, vehicle);
+            onClose();
+            if (result.state === 'queued') {
+              Alert.alert('Saved Offline', 'The trip will be removed when you reconnect.');
+            }
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to remove the trip.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const distance = (parseNumber(endOdometer) ?? 0) - (parseNumber(startOdometer) ?? 0);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <SheetHeader title={trip ? 'Edit Trip' : 'Log Trip'} saving={saving} onClose={onClose} onSave={handleSave} />
+
+        <ScrollView contentContainerStyle={styles.sheetBody} keyboardShouldPersistTaps="handled">
+          <Text style={styles.owner}>{vehicle.license_plate}</Text>
+
+          <DateField label="Started" value={startedOn} onChange={setStartedOn}
+            open={picking === 'start'} onToggle={() => setPicking((p) => (p === 'start' ? null : 'start'))} />
+          <DateField label="Ended" value={endedOn} onChange={setEndedOn}
+            open={picking === 'end'} onToggle={() => setPicking((p) => (p === 'end' ? null : 'end'))} />
+
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Start odometer (km)</Text>
+              <TextInput style={styles.input} value={startOdometer} onChangeText={setStartOdometer} keyboardType="number-pad" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>End odometer (km)</Text>
+              <TextInput style={styles.input} value={endOdometer} onChangeText={setEndOdometer} keyboardType="number-pad" />
+            </View>
+          </View>
+          {distance > 0 && <Text style={styles.hint}>{distance.toLocaleString()} km driven</Text>}
+
+          <Text style={styles.label}>Purpose</Text>
+          <TextInput style={styles.input} value={purpose} onChangeText={setPurpose} placeholder="e.g. Airport transfer" placeholderTextColor={COLORS.textSoft} />
+
+          <BookingChips bookings={bookings} selectedId={bookingId} onSelect={setBookingId} />
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput style={[styles.input, styles.notes]} value={notes} onChangeText={setNotes} multiline />
+
+          {trip && (
+            <TouchableOpacity style={styles.removeBtn} onPress={confirmRemove}>
+              <Text style={styles.removeText}>Remove Trip</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  empty: { fontSize: 13, color: COLORS.textMuted },
+  stats: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  stat: {
+    flex: 1,
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  statValue: { fontSize: 17, fontWeight: '700', color: COLORS.text },
+  statLabel: { fontSize: 11, color: COLORS.textMuted, marginTop: 2 },
+  trend: { flexDirection: 'row', alignItems: 'flex-end', gap: 6, height: 110, marginBottom: 8 },
+  trendCol: { flex: 1, alignItems: 'center', gap: 4, height: '100%' },
+  trendValue: { fontSize: 10, fontWeight: '700', color: COLORS.textMuted },
+  trendTrack: { flex: 1, width: 14, borderRadius: 7, backgroundColor: COLORS.track, justifyContent: 'flex-end', overflow: 'hidden' },
+  trendFill: { width: '100%', borderRadius: 7, backgroundColor: COLORS.primary },
+  trendDay: { fontSize: 9, color: COLORS.textSoft },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  entryTitle: { fontSize: 14, fontWeight: '600', color: COLORS.text },
+  entryMeta: { fontSize: 12, color: COLORS.textMuted, marginTop: 2 },
+  entryAmount: { fontSize: 13, fontWeight: '700', color: COLORS.text },
+  more: { fontSize: 11, color: COLORS.textSoft, marginTop: 8 },
+  actions: { flexDirection: 'row', gap: 10, marginTop: 12 },
+  addBtn: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    alignItems: 'center',
+  },
+  addBtnText: { fontSize: 14, fontWeight: '700', color: COLORS.primary },
+
+  sheet: { flex: 1, backgroundColor: COLORS.background },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  sheetTitle: { fontSize: 16, fontWeight: '700', color: COLORS.text },
+  cancel: { fontSize: 15, color: COLORS.textMuted },
+  save: { fontSize: 15, fontWeight: '700', color: COLORS.primary },
+  sheetBody: { padding: 20, paddingBottom: 48 },
+  owner: { fontSize: 13, fontWeight: '600', color: COLORS.textMuted },
+  row: { flexDirection: 'row', gap: 12 },
+  label: { fontSize: 12, fontWeight: '700', color: COLORS.textMuted, marginTop: 16, marginBottom: 8 },
+  input: {
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  inputText: { fontSize: 15, color: COLORS.text },
+  notes: { minHeight: 72, textAlignVertical: 'top' },
+  hint: { fontSize: 12, color: COLORS.textMuted, marginTop: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  chipActive: { borderColor: COLORS.primary, backgroundColor: COLORS.primarySoft },
+  chipText: { fontSize: 12, color: COLORS.text },
+  chipTextActive: { fontWeight: '700', color: COLORS.primary },
+  switchRow: { flexDirection: 'row', alignItems: 'center', gap: 12, marginTop: 16 },
+  switchLabel: { fontSize: 14, fontWeight: '600', color: COLORS.text },
+  switchHint: { fontSize: 12, color: COLORS.textMuted, marginTop: 2 },
+  removeBtn: { marginTop: 28, alignItems: 'center' },
+  removeText: { fontSize: 14, fontWeight: '700', color: COLORS.danger },
+});
@@ -0,0 +1,374 @@
+/**
+ * VehicleServicePlans
+ * A vehicle's service plans in its detail view: when each is next due, a
+ * "Done" action to restart the interval, and a form to add or edit plans.
+ */
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, Platform, KeyboardAvoidingView, StyleSheet,
+} from 'react-native';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useServicePlans } from '../../hooks/useServicePlans';
+import { useFleetData } from '../../hooks/useFleetData';
+import { isoDay } from '../../lib/payments';
+import {
+  dueLabel,
+  markServiced,
+  planInterval,
+  removeServicePlan,
+  saveServicePlan,
+  serviceDue,
+  type MaintenanceState,
+} from '../../lib/maintenance';
+import type { Vehicle } from '../../types/dashboard';
+import type { ServicePlanRow } from '../../../sdk/schema/tables';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  primary:    '#1f4d45',
+  primarySoft:'#dce8e3',
+  danger:     '#c96d4d',
+  background: '#f6f2eb',
+  card:       '#fffdf9',
+  text:       '#181512',
+  textMuted:  '#7f7565',
+  textSoft:   '#9a8f7e',
+  border:     '#e1d7c8',
+};
+
+const STATE_COLORS: Record<MaintenanceState, { bg: string; text: string }> = {
+  overdue:  { bg: '#fdf0ec', text: '#8b3320' },
+  due_soon: { bg: '#f5e8ce', text: '#7a5522' },
+  ok:       { bg: '#ddf0e8', text: '#174f38' },
+};
+
+const PRESETS = [
+  { name: 'Full service', intervalKm: 10000, intervalMonths: 6 },
+  { name: 'Oil change',   intervalKm: 5000,  intervalMonths: 3 },
+  { name: 'Tyres',        intervalKm: 40000, intervalMonths: null },
+];
+
+function formatDay(day: string): string {
+  return new Date(`${day.slice(0, 10)}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function VehicleServicePlans({ vehicle }: { vehicle: Vehicle }) {
+  const { plans, loading } = useServicePlans();
+  const { repairs } = useFleetData();
+  const [editing, setEditing] = useState<ServicePlanRow | 'new' | null>(null);
+
+  const vehiclePlans = plans.filter((p) => p.vehicle_id === vehicle.id);
+
+  const confirmDone = (plan: ServicePlanRow) => {
+    Alert.alert(
+      'Mark as Done',
+      `Record ${plan.name.toLowerCase()} as done today` +
+        (vehicle.odometer ? ` at ${vehicle.odometer.toLocaleString()} km?` : '?'),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Done',
+          onPress: async () => {
+            try {
+              const result = await markServiced(plan, vehicle, repairs.find((r) => r.service_plan_id === plan.id));
+              if (result.state === 'queued') {
+                Alert.alert('Saved Offline', 'The service will be recorded when you reconnect.');
+              }
+            } catch (e: any) {
+              Alert.alert('Error', e?.message || 'Failed to record the service.');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View>
+      {loading && plans.length === 0 ? (
+        <ActivityIndicator size="small" color={COLORS.primary} style={{ alignSelf: 'flex-start' }} />
+      ) : vehiclePlans.length === 0 ? (
+        <Text style={styles.empty}>No service plans yet. Add one to be reminded before the vehicle is due.</Text>
+      ) : vehiclePlans.map((plan) => {
+        const due = serviceDue(plan, vehicle.odometer);
+        const colors = STATE_COLORS[due.state];
+        return (
+          <TouchableOpacity key={plan.id} style={styles.plan} onPress={() => setEditing(plan)} activeOpacity={0.75}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.planName}>{plan.name}</Text>
+              <Text style={styles.planMeta}>{planInterval(plan)}</Text>
+              <Text style={styles.planMeta}>
+                Last done {formatDay(plan.last_done_at)}
+                {plan.last_done_odometer != null ? ` at ${plan.last_done_odometer.toLocaleString()} km` : ''}
+              </Text>
+            </View>
+            <View style={{ alignItems: 'flex-end', gap: 6 }}>
+              <View style={[styles.badge, { backgroundColor: colors.bg }]}>
+                <Text style={[styles.badgeText, { color: colors.text }]}>
+                  {due.state === 'ok' ? `Due ${dueLabel(due)}` : dueLabel(due)}
+                </Text>
+              </View>
+              {due.state !== 'ok' && (
+                <TouchableOpacity onPress={() => confirmDone(plan)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Text style={styles.link}>Done</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity style={styles.addBtn} onPress={() => setEditing('new')} activeOpacity={0.85}>
+        <Text style={styles.addBtnText}>Add Service Plan</Text>
+      </TouchableOpacity>
+
+      <ServicePlanModal
+        visible={editing !== null}
+        vehicle={vehicle}
+        plan={editing === 'new' ? undefined : editing ?? undefined}
+        onClose={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+// ============================================================================
+// PLAN FORM
+// ============================================================================
+
+interface ServicePlanModalProps {
+  visible: boolean;
+  vehicle: Vehicle;
+  plan?: ServicePlanRow;
+  onClose: () => void;
+}
+
+function ServicePlanModal({ visible, vehicle, plan, onClose }: ServicePlanModalProps) {
+  const [name,           setName]           = useState('');
+  const [intervalKm,     setIntervalKm]     = useState('');
+  const [intervalMonths, setIntervalMonths] = useState('');
+  const [lastDoneAt,     setLastDoneAt]     = useState(isoDay());
+  const [lastOdometer,   setLastOdometer]   = useState('');
+  const [pickingDate,    setPickingDate]    = useState(false);
+  const [saving,         setSaving]         = useState(false);
+
+  const handleShow = () => {
+    setName(plan?.name ?? '');
+    setIntervalKm(plan?.interval_km ? String(plan.interval_km) : '');
+    setIntervalMonths(plan?.interval_months ? String(plan.interval_months) : '');
+    setLastDoneAt(plan?.last_done_at.slice(0, 10) || vehicle.last_service_date?.slice(0, 10) || isoDay());
+    const odometer = plan ? plan.last_done_odometer : vehicle.odometer;
+    setLastOdometer(odometer != null ? String(odometer) : '');
+    setPickingDate(false);
+  };
+
+  const applyPreset = (preset: (typeof PRESETS)[number]) => {
+    setName(preset.name);
+    setIntervalKm(preset.intervalKm ? String(preset.intervalKm) : '');
+    setIntervalMonths(preset.intervalMonths ? String(preset.intervalMonths) : '');
+  };
+
+  const handleDate = (event: DateTimePickerEvent, date?: Date) => {
+    if (Platform.OS !== 'ios') setPickingDate(false);
+    if (event.type === 'set' && date) setLastDoneAt(isoDay(date));
+  };
+
+  const handleSave = async () => {
+    const km = intervalKm.trim() ? parseInt(intervalKm, 10) : null;
+    const months = intervalMonths.trim() ? parseInt(intervalMonths, 10) : null;
+    const odometer = lastOdometer.trim() ? parseInt(lastOdometer, 10) : null;
+
+    if (!name.trim()) { Alert.alert('Validation Error', 'Give the plan a name.'); return; }
+    if (km == null && months == null) { Alert.alert('Validation Error', 'Set a distance, a number of months, or both.'); return; }
+    if ((km != null && (isNaN(km) || km <= 0)) || (months != null && (isNaN(months) || months <= 0))) {
+      Alert.alert('Validation Error', 'Intervals must be positive whole numbers.'); return;
+    }
+    if (odometer != null && (isNaN(odometer) || odometer < 0)) {
+      Alert.alert('Validation Error', 'Enter the odometer reading in km.'); return;
+    }
+    if (km != null && odometer == null) {
+      Alert.alert('Validation Error', 'Enter the odometer reading when it was last done, so the distance can be counted.'); return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveServicePlan(vehicle, {
+        name, intervalKm: km, intervalMonths: months, lastDoneAt, lastDoneOdometer: odometer,
+      }, plan);
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The plan will sync automatically when you reconnect.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save the plan.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!plan) return;
+    Alert.alert('Remove Plan', `Stop tracking ${plan.name.toLowerCase()} for ${vehicle.license_plate}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await removeServicePlan(plan, vehicle);
+            onClose();
+            if (result.state === 'queued') {
+              Alert.alert('Saved Offline', 'The plan will be removed when you reconnect.');
+            }
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to remove the plan.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.sheet} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={styles.sheetHeader}>
+          <TouchableOpacity onPress={onClose}><Text style={styles.cancel}>Cancel</Text></TouchableOpacity>
+          <Text style={styles.sheetTitle}>{plan ? 'Edit Service Plan' : 'New Service Plan'}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color={COLORS.primary} /> : <Text style={styles.save}>Save</Text>}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.sheetBody} keyboardShouldPersistTaps="handled">
+          {!plan && (
+            <View style={styles.presets}>
+              {PRESETS.map((preset) => (
+                <TouchableOpacity
+                  key={preset.name}
+                  style={[styles.preset, name === preset.name && styles.presetActive]}
+                  onPress={() => applyPreset(preset)}
+                >
+                  <Text style={[styles.presetText, name === preset.name && styles.presetTextActive]}>{preset.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput style={styles.input} value={name} onChangeText={setName} placeholder="e.g. Full service" placeholderTextColor={COLORS.textSoft} />
+
+          <Text style={styles.label}>Every (km)</Text>
+          <TextInput style={styles.input} value={intervalKm} onChangeText={setIntervalKm} placeholder="Leave blank for time only" placeholderTextColor={COLORS.textSoft} keyboardType="number-pad" />
+
+          <Text style={styles.label}>Every (months)</Text>
+          <TextInput style={styles.input} value={intervalMonths} onChangeText={setIntervalMonths} placeholder="Leave blank for distance only" placeholderTextColor={COLORS.textSoft} keyboardType="number-pad" />
+
+          <Text style={styles.label}>Last done</Text>
+          <TouchableOpacity style={styles.input} onPress={() => setPickingDate((open) => !open)} activeOpacity={0.8}>
+            <Text style={styles.inputText}>{formatDay(lastDoneAt)}</Text>
+          </TouchableOpacity>
+          {pickingDate && (
+            <DateTimePicker
+              value={new Date(`${lastDoneAt}T00:00:00`)}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              maximumDate={new Date()}
+              onChange={handleDate}
+              themeVariant="light"
+              accentColor={COLORS.primary}
+            />
+          )}
+
+          <Text style={styles.label}>Odometer when last done (km)</Text>
+          <TextInput style={styles.input} value={lastOdometer} onChangeText={setLastOdometer} keyboardType="number-pad" />
+
+          {plan && (
+            <TouchableOpacity style={styles.removeBtn} onPress={confirmRemove}>
+              <Text style={styles.removeText}>Remove Plan</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  empty: { fontSize: 13, color: COLORS.textMuted },
+  plan: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  planName: { fontSize: 14, fontWeight: '600', color: COLORS.text },
+  planMeta: { fontSize: 12, color: COLORS.textMuted, marginTop: 2 },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10 },
+  badgeText: { fontSize: 10, fontWeight: '700' },
+  link: { fontSize: 13, fontWeight: '700', color: COLORS.primary },
+  addBtn: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    alignItems: 'center',
+  },
+  addBtnText: { fontSize: 14, fontWeight: '700', color: COLORS.primary },
+
+  sheet: { flex: 1, backgroundColor: COLORS.background },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  sheetTitle: { fontSize: 16, fontWeight: '700', color: COLORS.text },
+  cancel: { fontSize: 15, color: COLORS.textMuted },
+  save: { fontSize: 15, fontWeight: '700', color: COLORS.primary },
+  sheetBody: { padding: 20, paddingBottom: 48 },
+  presets: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  presetActive: { borderColor: COLORS.primary, backgroundColor: COLORS.primarySoft },
+  presetText: { fontSize: 12, color: COLORS.text },
+  presetTextActive: { fontWeight: '700', color: COLORS.primary },
+  label: { fontSize: 12, fontWeight: '700', color: COLORS.textMuted, marginTop: 16, marginBottom: 8 },
+  input: {
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  inputText: { fontSize: 15, color: COLORS.text },
+  removeBtn: { marginTop: 28, alignItems: 'center' },
+  removeText: { fontSize: 14, fontWeight: '700', color: COLORS.danger },
+});
@@ -1,3 +1,8 @@
 export { VehicleCard } from './VehicleCard';
 export { VehicleDetailModal } from './VehicleDetailModal';
 export { MaintenanceTracker } from './MaintenanceTracker';
+export { MaintenanceDueList } from './MaintenanceDueList';
+export { VehicleServicePlans } from './VehicleServicePlans';
+export { ComplianceDocuments } from './ComplianceDocuments';
+export { VehicleFuelTrips } from './VehicleFuelTrips';
+export { FleetTimeline } from './FleetTimeline';
@@ -7,9 +7,14 @@
  *  - Native iOS calendar picker for Date Needed (no keyboard date entry)
  *  - Approver search with real-time dropdown from `profiles` table
  *  - approver_id linked to cash_requisitions on insert
- *  - Status starts as Pending; approver receives the assignment
+ *  - Optional vehicle tag, so the spend shows in that vehicle's P&L
+ *  - Urgency sets how long each approver has to decide (the SLA)
+ *  - Receipts or quotes can be photographed or attached up front
+ *  - Warns when the amount would take a department or category over budget
+ *  - Status starts as Pending; the amount picks the approval chain, and its
+ *    first approver receives the assignment
  */
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -28,8 +33,16 @@ import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/dat
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Svg, Path, Rect, Circle } from 'react-native-svg';
 import { supabase } from '../../lib/supabase';
-import { sendCRNotificationToUser } from '../../services/notificationService';
+import { queueWrite, createClientId, type QueuedNotification } from '../../lib/offlineSync';
 import { formatCurrency } from '../../lib/utils';
+import { previewChain } from '../../lib/crApprovals';
+import { CR_SLA_HOURS, slaDueDate } from '../../lib/crSla';
+import { addAttachment, captureReceipt, pickAttachmentFile, type PickedFile } from '../../lib/financeAttachments';
+import { BUDGET_PERIOD_LABELS, DEPARTMENTS, EXPENSE_CATEGORIES, budgetLabel, budgetOverruns } from '../../lib/budgets';
+import { CR_URGENCIES, type CRUrgency } from '../../../sdk/schema/tables';
+import { useBudgets } from '../../hooks/useBudgets';
+import { useCRApprovals } from '../../hooks/useCRApprovals';
+import { useExchangeRate, getConversionRates, convertFromBaseCurrency, convertToBaseCurrency } from '../../hooks/useExchangeRate';
 import type { Currency } from '../../types/dashboard';
 
 // ─── Palette ──────────────────────────────────────────────────────────────────
@@ -48,28 +61,6 @@ const C = {
 };
 
 // ─── Constants ────────────────────────────────────────────────────────────────
-const CATEGORIES = [
-  'Operating Expense',
-  'Petty Cash',
-  'Fleet Supplies',
-  'Admin Costs',
-  'Safari Expense',
-  'Fuel',
-  'Accommodation',
-  'Repairs & Maintenance',
-  'Other',
-];
-
-const DEPARTMENTS = [
-  'Operations',
-  'Administration',
-  'Fleet',
-  'Finance',
-  'Safari',
-  'Maintenance',
-  'Management',
-];
-
 const PAYMENT_MODES = ['Cash', 'Mobile Money', 'Bank Transfer', 'Cheque'];
 
 const CURRENCIES: Currency[] = ['USD', 'UGX', 'KES'];
@@ -81,6 +72,11 @@ interface ApproverProfile {
   email: string | null;
 }
 
+interface VehicleOption {
+  id: string;
+  license_plate: string;
+}
+
 interface AddExpenseModalProps {
   visible: boolean;
   onClose: () => void;
@@ -429,30 +425,86 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
   const insets = useSafeAreaInsets();
   const [submitting, setSubmitting] = useState(false);
 
-  const [category,        setCategory]        = useState(CATEGORIES[0]);
+  const [category,        setCategory]        = useState(EXPENSE_CATEGORIES[0]);
   const [department,      setDepartment]      = useState(DEPARTMENTS[0]);
   const [description,     setDescription]     = useState('');
   const [itemDescription, setItemDescription] = useState('');
   const [amount,          setAmount]          = useState('');
   const [currency,        setCurrency]        = useState<Currency>('USD');
   const [paymentMode,     setPaymentMode]     = useState(PAYMENT_MODES[0]);
+  const [urgency,         setUrgency]         = useState<CRUrgency>('Routine');
   const [payeeName,       setPayeeName]       = useState('');
   const [dateNeeded,      setDateNeeded]      = useState(todayISO);
   const [approver,        setApprover]        = useState<ApproverProfile | null>(null);
+  const [vehicleId,       setVehicleId]       = useState<string | null>(null);
+  const [vehicles,        setVehicles]        = useState<VehicleOption[]>([]);
+  const [files,           setFiles]           = useState<PickedFile[]>([]);
+
+  const { rules, names } = useCRApprovals();
+  const { exchangeRates } = useExchangeRate();
+  const { usage: budgetUsage } = useBudgets();
+
+  const amountUsd = useMemo(() => {
+    const num = parseFloat(amount);
+    if (isNaN(num) || num <= 0) return 0;
+    return convertToBaseCurrency(num, currency, getConversionRates(exchangeRates));
+  }, [amount, currency, exchangeRates]);
+
+  // The steps this requisition will go through; the server builds the same chain on insert
+  const chain = useMemo(
+    () => previewChain(rules, amountUsd, approver?.id ?? null),
+    [rules, amountUsd, approver],
+  );
+  // Budgets this request would overrun, once what's spent and pending is set aside
+  const overruns = useMemo(
+    () => budgetOverruns(budgetUsage, { department, category, amountUsd }),
+    [budgetUsage, department, category, amountUsd],
+  );
+  const inCurrency = (usd: number) =>
+    formatCurrency(convertFromBaseCurrency(usd, currency, getConversionRates(exchangeRates)), currency);
+
+  const chainName = (approverId: string | null) =>
+    approverId === approver?.id && approver ? displayName(approver)
+      : approverId ? names[approverId] ?? 'Approver'
+      : 'the selected approver';
+
+  useEffect(() => {
+    if (!visible) return;
+    supabase
+      .from('vehicles')
+      .select('id, license_plate')
+      .order('license_plate', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) console.warn('[AddExpenseModal] Could not load vehicles:', error.message);
+        else setVehicles((data || []) as VehicleOption[]);
+      });
+  }, [visible]);
 
   const reset = useCallback(() => {
-    setCategory(CATEGORIES[0]);
+    setCategory(EXPENSE_CATEGORIES[0]);
     setDepartment(DEPARTMENTS[0]);
     setDescription('');
     setItemDescription('');
     setAmount('');
     setCurrency('USD');
     setPaymentMode(PAYMENT_MODES[0]);
+    setUrgency('Routine');
     setPayeeName('');
     setDateNeeded(todayISO());
     setApprover(null);
+    setVehicleId(null);
+    setFiles([]);
   }, []);
 
+  const addFile = async (pick: () => Promise<PickedFile | null>) => {
+    try {
+      const file = await pick();
+      if (file) setFiles((prev) => [...prev, file]);
+    } catch (e: any) {
+      Alert.alert('Attachment Failed', e?.message || 'Could not attach the file.');
+    }
+  };
+
   const validate = (): string | null => {
     if (!category)                  return 'Please select a category.';
     if (!department)                return 'Please select a department.';
@@ -466,12 +518,11 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
     return null;
   };
 
-  const handleSubmit = useCallback(async () => {
-    const err = validate();
-    if (err) { Alert.alert('Validation Error', err); return; }
+  const submit = useCallback(async () => {
     setSubmitting(true);
     try {
-      const { data: { user: authUser } } = await supabase.auth.getUser();
+      const { data: { session } } = await supabase.auth.getSession();
+      const authUser = session?.user;
       const requesterName =
         userName?.trim() ||
         authUser?.user_metadata?.full_name ||
@@ -484,6 +535,7 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
       const cost = parseFloat(amount);
 
       const payload: Record<string, unknown> = {
+        id:                createClientId(),
         cr_number,
         expense_category:  category,
         department,
@@ -499,37 +551,57 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
         date_needed:       dateNeeded,
         date_raised:       new Date().toISOString().split('T')[0],
         submitted_at:      new Date().toISOString(),
-        sla_due_date:      new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        urgency:           'Routine',
+        sla_due_date:      slaDueDate(urgency),
+        urgency,
         status:            'Pending',
         draft:             false,
         requester_name:    requesterName,
         requester_email:   requesterEmail,
         requester_id:      authUser?.id ?? null,
-        approver_id:       approver?.id ?? null,
+        approver_id:       chain[0]?.approverId ?? approver?.id ?? null,
+        chosen_approver_id: approver?.id ?? null,
+        amount_usd:        Math.round(amountUsd * 100) / 100,
+        vehicle_id:        vehicleId,
         soft_deleted:      false,
         created_at:        new Date().toISOString(),
       };
 
-      const { error } = await supabase.from('cash_requisitions').insert(payload);
-      if (error) throw error;
-
-      // Notify the approver on their device
-      if (approver?.id) {
-        const approverName = displayName(approver);
-        sendCRNotificationToUser(
-          approver.id,
-          '📝 Cash Requisition Awaiting Approval',
-          `${requesterName} raised ${cr_number} for ${category} — ${formatCurrency(cost, currency)}. Tap to review.`,
-          { cr_number, screen: 'Finance', category, amount: cost, currency },
-          'cr_created',
-        ).catch(console.error);
+      // The chain's first approver is notified on their device once the CR reaches the server
+      const firstApproverId = chain[0]?.approverId ?? approver?.id;
+      const notification: QueuedNotification | undefined = firstApproverId ? {
+        userId: firstApproverId,
+        title:  urgency === 'Routine' ? '📝 Cash Requisition Awaiting Approval' : `🚨 ${urgency} Cash Requisition Awaiting Approval`,
+        body:   `${requesterName} raised ${cr_number} for ${category} — ${formatCurrency(cost, currency)}. Tap to review.`,
+        data:   { cr_number, screen: 'Finance', category, amount: cost, currency },
+        type:   'cr_created',
+      } : undefined;
+
+      const result = await queueWrite('CREATE', 'cash_requisitions', payload, {
+        label: `${cr_number} — ${category}`,
+        meta:  { notification },
+      });
+
+      // Files upload straight away; their rows queue behind the requisition's
+      let failedFiles = 0;
+      for (const file of files) {
+        try {
+          await addAttachment({ kind: 'cr', id: payload.id as string, label: cr_number }, file);
+        } catch (e: any) {
+          console.warn('[AddExpenseModal] Attachment not uploaded:', e?.message);
+          failedFiles += 1;
+        }
       }
+      const fileNote = failedFiles > 0
+        ? `\n\n${failedFiles} attachment${failedFiles === 1 ? '' : 's'} could not be uploaded — attach ${failedFiles === 1 ? 'it' : 'them'} from the requisition once you are back online.`
+        : '';
 
       reset();
       Alert.alert(
-        'Requisition Submitted',
-        `${cr_number} has been raised and assigned to ${displayName(approver!)} for approval.\n\nStatus: Pending`,
+        result.state === 'queued' ? 'Saved Offline' : 'Requisition Submitted',
+        result.state === 'queued'
+          ? `${cr_number} has been saved on this device and will be submitted to ${chainName(firstApproverId ?? null)} when you reconnect.${fileNote}`
+          : `${cr_number} has been raised and assigned to ${chainName(firstApproverId ?? null)} for approval.${
+              chain.length > 1 ? ` It needs ${chain.length} approvals.` : ''}\n\nStatus: Pending${fileNote}`,
         [{ text: 'OK', onPress: onSuccess }]
       );
     } catch (e: any) {
@@ -537,7 +609,21 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
     } finally {
       setSubmitting(false);
     }
-  }, [category, department, description, itemDescription, amount, currency, paymentMode, payeeName, dateNeeded, approver, userName, reset, onSuccess]);
+  }, [category, department, description, itemDescription, amount, currency, paymentMode, payeeName, dateNeeded, approver, vehicleId, urgency, files, userName, chain, amountUsd, names, reset, onSuccess]);
+
+  const handleSubmit = () => {
+    const err = validate();
+    if (err) { Alert.alert('Validation Error', err); return; }
+    if (overruns.length === 0) { submit(); return; }
+    Alert.alert(
+      'Over Budget',
+      `${overruns.map((o) => `${budgetLabel(o.usage.budget)} has ${inCurrency(Math.max(0, o.availableUsd))} left this ${o.usage.budget.period === 'monthly' ? 'month' : 'quarter'}.`).join('\n')}\n\nSubmit the requisition anyway? Approvers will see it exceeds the budget.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Submit Anyway', style: 'destructive', onPress: submit },
+      ]
+    );
+  };
 
   return (
     <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
@@ -565,7 +651,7 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
             <View style={fieldStyles.wrap}>
               <Text style={fieldStyles.label}>Category *</Text>
               <View style={styles.chipGrid}>
-                {CATEGORIES.map(cat => (
+                {EXPENSE_CATEGORIES.map(cat => (
                   <TouchableOpacity
                     key={cat}
                     style={[styles.chip, category === cat && styles.chipActive]}
@@ -595,6 +681,25 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
               </View>
             </View>
 
+            {/* ── Vehicle ── */}
+            {vehicles.length > 0 && (
+              <View style={fieldStyles.wrap}>
+                <Text style={fieldStyles.label}>Vehicle (Optional)</Text>
+                <View style={styles.chipGrid}>
+                  {vehicles.map(v => (
+                    <TouchableOpacity
+                      key={v.id}
+                      style={[styles.chip, vehicleId === v.id && styles.chipDeptActive]}
+                      onPress={() => setVehicleId(vehicleId === v.id ? null : v.id)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={[styles.chipText, vehicleId === v.id && styles.chipTextDeptActive]}>{v.license_plate}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
             {/* ── Purpose ── */}
             <View style={fieldStyles.wrap}>
               <Text style={fieldStyles.label}>Purpose *</Text>
@@ -673,6 +778,25 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
               </View>
             </View>
 
+            {/* ── Urgency ── */}
+            <View style={fieldStyles.wrap}>
+              <Text style={fieldStyles.label}>Urgency</Text>
+              <View style={styles.chipGrid}>
+                {CR_URGENCIES.map(level => (
+                  <TouchableOpacity
+                    key={level}
+                    style={[styles.chip, urgency === level && styles.chipPayActive]}
+                    onPress={() => setUrgency(level)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.chipText, urgency === level && styles.chipTextPayActive]}>
+                      {level} · {CR_SLA_HOURS[level]}h
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             {/* ── Payee Name ── */}
             <View style={fieldStyles.wrap}>
               <Text style={fieldStyles.label}>Payee / Recipient *</Text>
@@ -702,12 +826,52 @@ export function AddExpenseModal({ visible, onClose, onSuccess, userId, userName
               onClear={() => setApprover(null)}
             />
 
+            {/* ── Receipts / supporting documents ── */}
+            <View style={fieldStyles.wrap}>
+              <Text style={fieldStyles.label}>Receipts & Documents (Optional)</Text>
+              {files.map((file, idx) => (
+                <View key={`${file.uri}-${idx}`} style={styles.fileRow}>
+                  <Text style={styles.fileName} numberOfLines={1}>{file.name}</Text>
+                  <TouchableOpacity onPress={() => setFiles((prev) => prev.filter((_, i) => i !== idx))} hitSlop={8}>
+                    <Text style={styles.fileRemove}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <View style={styles.row}>
+                <TouchableOpacity style={styles.attachBtn} onPress={() => addFile(captureReceipt)} activeOpacity={0.8}>
+                  <Text style={styles.attachText}>Take Photo</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.attachBtn} onPress={() => addFile(pickAttachmentFile)} activeOpacity={0.8}>
+                  <Text style={styles.attachText}>Attach File</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* ── Budget warning ── */}
+            {overruns.length > 0 && (
+              <View style={styles.budgetWarning}>
+                <Text style={styles.budgetWarningTitle}>Exceeds budget</Text>
+                {overruns.map((o) => (
+                  <Text key={o.usage.budget.id} style={styles.budgetWarningText}>
+                    {BUDGET_PERIOD_LABELS[o.usage.budget.period]} {budgetLabel(o.usage.budget)}: {inCurrency(Math.max(0, o.availableUsd))} left
+                    {o.usage.committedUsd > 0 ? ` after ${inCurrency(o.usage.committedUsd)} pending` : ''} — this is {inCurrency(o.overByUsd)} over.
+                  </Text>
+                ))}
+              </View>
+            )}
+
             {/* ── Workflow notice ── */}
             <View style={styles.notice}>
               <Text style={styles.noticeText}>
                 📋 This requisition will be submitted as <Text style={{ fontWeight: '800' }}>Pending</Text> and routed to
-                {approver ? ` ${displayName(approver)}` : ' the selected approver'} for review before funds are released.
+                {chain.length > 1 ? ' each approver in turn' : ` ${chainName(chain[0]?.approverId ?? null)}`} for review before funds are released.
+                {' '}Each approver has {CR_SLA_HOURS[urgency]} hours to decide before it is escalated.
               </Text>
+              {chain.length > 1 && chain.map((step, idx) => (
+                <Text key={idx} style={styles.noticeText}>
+                  {idx + 1}. {step.label} — {chainName(step.approverId)}
+                </Text>
+              ))}
             </View>
 
             {/* ── Submit ── */}
@@ -755,6 +919,14 @@ const styles = StyleSheet.create({
   segActive:         { backgroundColor: C.primary + '18', borderColor: C.primary },
   segText:           { fontSize: 12, fontWeight: '600', color: C.muted },
   segTextActive:     { color: C.primary, fontWeight: '800' },
+  fileRow:           { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 12, backgroundColor: C.card, borderRadius: 12, borderWidth: 1, borderColor: C.border, paddingHorizontal: 14, paddingVertical: 10, marginBottom: 8 },
+  fileName:          { flex: 1, fontSize: 13, fontWeight: '600', color: C.text },
+  fileRemove:        { fontSize: 12, fontWeight: '800', color: C.danger },
+  attachBtn:         { flex: 1, alignItems: 'center', paddingVertical: 11, borderRadius: 12, borderWidth: 1, borderColor: C.primary + '40', backgroundColor: C.primary + '10' },
+  attachText:        { fontSize: 13, fontWeight: '800', color: C.primary },
+  budgetWarning:      { backgroundColor: C.danger + '12', borderRadius: 14, padding: 14, marginBottom: 14, borderWidth: 1, borderColor: C.danger + '50', gap: 4 },
+  budgetWarningTitle: { fontSize: 13, fontWeight: '800', color: C.danger },
+  budgetWarningText:  { fontSize: 13, color: C.danger, lineHeight: 19 },
   notice:            { backgroundColor: '#f5e8ce', borderRadius: 14, padding: 14, marginBottom: 14, borderWidth: 1, borderColor: '#e8d0a0' },
   noticeText:        { fontSize: 13, color: '#7a5c2a', lineHeight: 19 },
   submitBtn:         { backgroundColor: C.danger, borderRadius: 18, paddingVertical: 16, alignItems: 'center', marginTop: 8 },
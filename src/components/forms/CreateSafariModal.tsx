@@ -22,6 +22,7 @@ import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/dat
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Svg, Path, Rect, Circle } from 'react-native-svg';
 import { supabase } from '../../lib/supabase';
+import { queueWrite, createClientId } from '../../lib/offlineSync';
 import type { Currency } from '../../types/dashboard';
 
 // ─── Palette ──────────────────────────────────────────────────────────────────
@@ -446,7 +447,8 @@ export function CreateSafariModal({ visible, onClose, onSuccess, vehicles = [],
     if (err) { Alert.alert('Validation Error', err); return; }
     setSubmitting(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       const booking_reference = `BK-${new Date().getFullYear()}-${String(Date.now()).slice(-5)}`;
 
       // Compose notes: safari name + type + park + group size + guide + itinerary
@@ -459,7 +461,8 @@ export function CreateSafariModal({ visible, onClose, onSuccess, vehicles = [],
         itinerary.trim()     ? itinerary.trim() : null,
       ].filter(Boolean);
 
-      const { error } = await supabase.from('bookings').insert({
+      const result = await queueWrite('CREATE', 'bookings', {
+        id:                  createClientId(),
         booking_reference,
         client_id:           selectedClient?.id   || null,
         client_name:         clientName.trim(),
@@ -475,12 +478,18 @@ export function CreateSafariModal({ visible, onClose, onSuccess, vehicles = [],
         assigned_vehicle_id: vehicleId             || null,
         assigned_to:         userId || user?.id    || null,
         created_at:          new Date().toISOString(),
+      }, {
+        label: `Safari ${booking_reference} for ${clientName.trim()}`,
       });
 
-      if (error) throw error;
       reset();
       onSuccess();
-      Alert.alert('Safari Created', `Safari booking ${booking_reference} has been successfully created.`);
+      Alert.alert(
+        result.state === 'queued' ? 'Saved Offline' : 'Safari Created',
+        result.state === 'queued'
+          ? `Safari booking ${booking_reference} has been saved on this device and will sync when you reconnect.`
+          : `Safari booking ${booking_reference} has been successfully created.`,
+      );
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to create safari booking. Please try again.');
     } finally {
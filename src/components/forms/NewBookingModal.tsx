@@ -2,7 +2,7 @@
  * NewBookingModal — Create New Booking
  * Scrollable vehicle/driver pickers + section-grouped form layout.
  */
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -22,6 +22,11 @@ import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/dat
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Svg, Path, Circle, Rect } from 'react-native-svg';
 import { supabase } from '../../lib/supabase';
+import { queueGroup, createClientId, placeholder, type SyncStep } from '../../lib/offlineSync';
+import { isoDay } from '../../lib/payments';
+import { checkVehicleAvailability } from '../../lib/vehicleAvailability';
+import { bookingDocumentIssues } from '../../lib/complianceDocuments';
+import { useComplianceDocuments } from '../../hooks/useComplianceDocuments';
 import type { Vehicle } from '../../types/dashboard';
 
 // ─── Palette ──────────────────────────────────────────────────────────────────
@@ -218,7 +223,7 @@ const pickerSt = StyleSheet.create({
 
 // ─── Vehicle Picker Sheet ─────────────────────────────────────────────────────
 function VehiclePickerSheet({
-  visible, vehicles, selectedId, onSelect, onClose, conflictingIds,
+  visible, vehicles, selectedId, onSelect, onClose, conflictingIds, documentIssueIds,
 }: {
   visible: boolean;
   vehicles: Vehicle[];
@@ -226,6 +231,8 @@ function VehiclePickerSheet({
   onSelect: (id: string) => void;
   onClose: () => void;
   conflictingIds?: Set<string>;
+  /** Vehicles with insurance, licence or inspection lapsing during the booking */
+  documentIssueIds?: Set<string>;
 }) {
   const insets = useSafeAreaInsets();
   const [query, setQuery] = useState('');
@@ -331,6 +338,9 @@ function VehiclePickerSheet({
                       </View>
                     )}
                   </View>
+                  {documentIssueIds?.has(v.id) && (
+                    <Text style={vpSt.docWarn}>Documents expire during these dates</Text>
+                  )}
                 </View>
 
                 {/* Right: status + check */}
@@ -376,6 +386,7 @@ const vpSt = StyleSheet.create({
   rateText:       { fontSize: 11, fontWeight: '800', color: C.success },
   statusPill:     { borderRadius: 8, paddingHorizontal: 8, paddingVertical: 3 },
   statusText:     { fontSize: 11, fontWeight: '800' },
+  docWarn:        { fontSize: 11, fontWeight: '700', color: C.danger, marginTop: 4 },
 });
 
 // ─── Driver Picker Sheet ──────────────────────────────────────────────────────
@@ -730,6 +741,7 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
   const [vendorName,     setVendorName]     = useState('');
   const [vendorPlate,    setVendorPlate]    = useState('');
   const [vendorReason,   setVendorReason]   = useState('');
+  const [vendorCost,     setVendorCost]     = useState('');
   const [costAutoCalc,   setCostAutoCalc]   = useState(false);
 
   // Picker visibility
@@ -761,6 +773,22 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
 
   const [guides, setGuides] = useState<Guide[]>([]);
 
+  // Papers of the chosen vehicle and driver that lapse before the booking ends
+  const { documents } = useComplianceDocuments();
+  const documentIssues = useMemo(
+    () => bookingDocumentIssues(documents, {
+      vehicleId: vehicleSource === 'fleet' ? vehicleId : null,
+      guideId:   driverId,
+    }, startDate, endDate),
+    [documents, vehicleSource, vehicleId, driverId, startDate, endDate],
+  );
+  const documentIssueVehicleIds = useMemo(() => {
+    if (!startDate || !endDate) return undefined;
+    return new Set(vehicles
+      .filter(v => bookingDocumentIssues(documents, { vehicleId: v.id }, startDate, endDate).some(i => i.blocking))
+      .map(v => v.id));
+  }, [documents, vehicles, startDate, endDate]);
+
   const minEndDate = startDate ? new Date(startDate) : undefined;
 
   useEffect(() => {
@@ -787,7 +815,7 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
     setStartDate(''); setEndDate(''); setPackageType(''); setTotalCost(''); setDailyRate(''); setAmountPaid('');
     setCurrency('USD'); setStatus('Pending'); setBookingType('booking'); setPaymentMethod(''); setTransactionId(''); setBankName('');
     setVehicleId(''); setDriverId(''); setNotes('');
-    setVehicleSource('fleet'); setVendorName(''); setVendorPlate(''); setVendorReason('');
+    setVehicleSource('fleet'); setVendorName(''); setVendorPlate(''); setVendorReason(''); setVendorCost('');
     setCostAutoCalc(false); setVehicleSheetOpen(false); setDriverSheetOpen(false);
   }, []);
 
@@ -834,33 +862,23 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
     if ((paymentMethod === 'mtn_uganda' || paymentMethod === 'airtel_uganda' || paymentMethod === 'mpesa_kenya' || paymentMethod === 'bank_transfer') && !transactionId.trim())
       return 'Please enter transaction ID for the selected payment method.';
     if (paymentMethod === 'bank_transfer' && !bankName.trim()) return 'Please specify the bank.';
+    if (vehicleSource === 'external' && vendorCost.trim()) {
+      const hire = parseFloat(vendorCost);
+      if (isNaN(hire) || hire < 0) return 'Vendor hire cost cannot be negative.';
+    }
     return null;
-  }, [companyName, phoneNumber, clientName, contact, email, packageType, dailyRate, startDate, endDate, totalCost, amountPaid, paymentMethod, transactionId, bankName]);
+  }, [companyName, phoneNumber, clientName, contact, email, packageType, dailyRate, startDate, endDate, totalCost, amountPaid, paymentMethod, transactionId, bankName, vehicleSource, vendorCost]);
 
-  const handleSubmit = useCallback(async () => {
-    const err = validate();
-    if (err) { Alert.alert('Validation Error', err); return; }
+  const createBooking = useCallback(async () => {
     setSubmitting(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      let clientId = selectedClient?.id || null;
-      if (!clientId) {
-        const { data: resolvedClientId, error: clientError } = await supabase.rpc('find_or_create_client', {
-          p_company_name:    companyName.trim(),
-          p_phone_number:    normalizePhone(phoneNumber),
-          p_contact_person:  clientName.trim(),
-          p_email:           email.trim(),
-          p_created_by:      user?.id || userId || null,
-        });
-        if (clientError) throw clientError;
-        clientId = resolvedClientId as string;
-      }
-      // ── Server-side availability gate (mirrors dashboard checkVehicleAvailability) ──
+      // Session is read locally so this also works offline
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
+      // ── Server-side availability gate ──
       if (vehicleId && vehicleSource === 'fleet') {
-        const { data: avail, error: availErr } = await supabase
-          .rpc('check_vehicle_availability', { p_vehicle_id: vehicleId });
-        if (!availErr && avail?.[0]?.is_available === false) {
-          const conflictRef = avail[0].conflict_booking_reference || 'another booking';
+        const { available, conflictRef } = await checkVehicleAvailability(vehicleId);
+        if (!available) {
           Alert.alert(
             'Vehicle Unavailable',
             `This vehicle is already assigned to ${conflictRef}. Please select a different vehicle.`,
@@ -875,68 +893,167 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
       const paidAmount   = parseFloat(amountPaid || '0');
       const balanceDue   = totalAmount - paidAmount;
       const numberOfDays = countDays(startDate, endDate);
-
-      const { data: bookingData, error } = await supabase.from('bookings').insert({
-        booking_reference:   null,
-        client_id:           clientId,
-        client_name:         clientName.trim(),
-        contact_person:      contactPerson.trim() || null,
-        contact:             contact.trim()  || null,
-        email:               email.trim()    || null,
-        package_type:        packageType.trim(),
-        start_date:          startDate,
-        end_date:            endDate,
-        date_range:          `${startDate} to ${endDate}`,
-        daily_rate:          parseFloat(dailyRate),
-        number_of_days:      numberOfDays,
-        total_amount:        totalAmount,
-        amount_paid:         paidAmount,
-        balance_due:         balanceDue,
-        currency,
-        payment_method:      paymentMethod || null,
-        transaction_id:      transactionId.trim() || null,
-        bank_name:           bankName.trim() || null,
-        status,
-        contract_status:     'Pending',
-        booking_type:        bookingType,
-        notes:               notes.trim() || null,
-        assigned_vehicle_id: vehicleSource === 'fleet' ? (vehicleId || null) : null,
-        assigned_driver_id:  driverId || null,
-        is_vendor_vehicle:   vehicleSource === 'external',
-        vendor_vehicle_details: vehicleSource === 'external' ? { vendor_name: vendorName.trim() || null, license_plate: vendorPlate.trim() || null, reason: vendorReason.trim() || null } : null,
-        assigned_to:         userId || user?.id || null,
-        created_by:          user?.id || userId || null,
-        vehicles:            [],
-        created_at:          new Date().toISOString(),
-      }).select('id, booking_reference').single();
-
-      if (error) throw error;
-      if (vehicleId) await supabase.from('vehicles').update({ status: 'booked' }).eq('id', vehicleId);
-      if (paidAmount > 0) {
-        await supabase.from('financial_transactions').insert({
-          transaction_type: 'income',
-          category:         'Booking Revenue',
-          amount:           paidAmount,
+      const bookingLabel = companyName.trim() || clientName.trim();
+
+      // client → booking → vehicle → payment replay in order as one unit: if any
+      // step fails the earlier ones are undone, so a vehicle is never left booked
+      // without its booking.
+      const steps: SyncStep[] = [];
+      if (!selectedClient?.id) {
+        steps.push({
+          type:     'RPC',
+          resource: 'find_or_create_client',
+          ref:      'client',
+          data: {
+            p_company_name:    companyName.trim(),
+            p_phone_number:    normalizePhone(phoneNumber),
+            p_contact_person:  clientName.trim(),
+            p_email:           email.trim(),
+            p_created_by:      user?.id || userId || null,
+          },
+          // Find-or-create is idempotent; the client record is kept on rollback
+          compensate: null,
+        });
+      }
+      steps.push({
+        type:     'CREATE',
+        resource: 'bookings',
+        ref:      'booking',
+        data: {
+          id:                  createClientId(),
+          booking_reference:   null,
+          client_id:           selectedClient?.id || placeholder('client'),
+          client_name:         clientName.trim(),
+          contact_person:      contactPerson.trim() || null,
+          contact:             contact.trim()  || null,
+          email:               email.trim()    || null,
+          package_type:        packageType.trim(),
+          start_date:          startDate,
+          end_date:            endDate,
+          date_range:          `${startDate} to ${endDate}`,
+          daily_rate:          parseFloat(dailyRate),
+          number_of_days:      numberOfDays,
+          total_amount:        totalAmount,
+          amount_paid:         paidAmount,
+          balance_due:         balanceDue,
           currency,
-          description:      `Payment for booking ${bookingData?.booking_reference || 'new booking'} - ${clientName.trim()}`,
-          reference_number: transactionId.trim() || bookingData?.booking_reference || null,
-          booking_id:       bookingData?.id,
-          payment_method:   paymentMethod || 'cash',
-          payment_details:  { method: paymentMethod || 'cash', transaction_id: transactionId.trim() || null },
-          status:           'completed',
-          transaction_date: new Date().toISOString(),
-          created_by:       user?.id || userId || null,
+          payment_method:      paymentMethod || null,
+          transaction_id:      transactionId.trim() || null,
+          bank_name:           bankName.trim() || null,
+          status,
+          contract_status:     'Pending',
+          booking_type:        bookingType,
+          notes:               notes.trim() || null,
+          assigned_vehicle_id: vehicleSource === 'fleet' ? (vehicleId || null) : null,
+          assigned_driver_id:  driverId || null,
+          is_vendor_vehicle:   vehicleSource === 'external',
+          vendor_vehicle_details: vehicleSource === 'external' ? { vendor_name: vendorName.trim() || null, license_plate: vendorPlate.trim() || null, reason: vendorReason.trim() || null } : null,
+          vendor_hire_cost:    vehicleSource === 'external' && vendorCost.trim() ? parseFloat(vendorCost) : null,
+          assigned_to:         userId || user?.id || null,
+          created_by:          user?.id || userId || null,
+          vehicles:            [],
+          created_at:          new Date().toISOString(),
+        },
+        options: {
+          label: `New booking for ${bookingLabel}`,
+          meta:  { preview: { client: { company_name: companyName.trim() } } },
+        },
+      });
+      if (vehicleId) {
+        steps.push({
+          type:     'UPDATE',
+          resource: 'vehicles',
+          data:     { id: vehicleId, status: 'booked' },
+          options:  { label: 'Mark vehicle booked' },
+        });
+      }
+      if (paidAmount > 0) {
+        steps.push({
+          type:     'CREATE',
+          resource: 'financial_transactions',
+          ref:      'income',
+          data: {
+            id:               createClientId(),
+            transaction_type: 'income',
+            category:         'Booking Revenue',
+            amount:           paidAmount,
+            currency,
+            description:      `Payment for booking - ${clientName.trim()}`,
+            reference_number: transactionId.trim() || placeholder('booking', 'booking_reference'),
+            booking_id:       placeholder('booking'),
+            payment_method:   paymentMethod || 'cash',
+            payment_details:  { method: paymentMethod || 'cash', transaction_id: transactionId.trim() || null },
+            status:           'completed',
+            transaction_date: new Date().toISOString(),
+            created_by:       user?.id || userId || null,
+          },
+          options: { label: `Booking payment from ${clientName.trim()}` },
+        });
+        // First entry in the booking's payments ledger
+        steps.push({
+          type:     'CREATE',
+          resource: 'booking_payments',
+          data: {
+            id:                       createClientId(),
+            booking_id:               placeholder('booking'),
+            paid_at:                  isoDay(),
+            amount:                   paidAmount,
+            currency,
+            method:                   paymentMethod || 'cash',
+            reference:                placeholder('booking', 'booking_reference'),
+            bank_name:                bankName.trim() || null,
+            transaction_id:           transactionId.trim() || null,
+            financial_transaction_id: placeholder('income'),
+            recorded_by:              user?.id || userId || null,
+          },
+          options: { label: `Deposit from ${clientName.trim()}` },
         });
       }
+
+      const result = await queueGroup(steps);
       reset();
       onSuccess();
-      Alert.alert('Booking Created', `Booking ${bookingData?.booking_reference || 'new booking'} has been successfully created.`);
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'You are offline. The booking has been saved on this device and will sync automatically when you reconnect.');
+      } else {
+        const bookingData = result.operations.find(op => op.resource === 'bookings')?.result;
+        Alert.alert('Booking Created', `Booking ${bookingData?.booking_reference || 'new booking'} has been successfully created.`);
+      }
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to create booking. Please try again.');
     } finally {
       setSubmitting(false);
     }
-  }, [validate, selectedClient, companyName, phoneNumber, clientName, contactPerson, contact, email, packageType, startDate, endDate, dailyRate, totalCost, amountPaid, currency, paymentMethod, transactionId, bankName, status, bookingType, vehicleId, vehicleSource, vendorName, vendorPlate, vendorReason, driverId, notes, userId, reset, onSuccess]);
+  }, [selectedClient, companyName, phoneNumber, clientName, contactPerson, contact, email, packageType, startDate, endDate, dailyRate, totalCost, amountPaid, currency, paymentMethod, transactionId, bankName, status, bookingType, vehicleId, vehicleSource, vendorName, vendorPlate, vendorReason, vendorCost, driverId, notes, userId, reset, onSuccess]);
+
+  // Lapsed insurance, road licence, inspection or driving permit blocks the
+  // booking; other documents (permits, passport) can be booked past
+  const handleSubmit = useCallback(() => {
+    const err = validate();
+    if (err) { Alert.alert('Validation Error', err); return; }
+
+    const blocking = documentIssues.filter(i => i.blocking);
+    if (blocking.length > 0) {
+      Alert.alert(
+        'Documents Expire',
+        `${blocking.map(i => `• ${i.message}`).join('\n')}\n\nRenew them first or assign a different vehicle or driver.`,
+        [{ text: 'OK' }],
+      );
+      return;
+    }
+    if (documentIssues.length > 0) {
+      Alert.alert(
+        'Check Documents',
+        documentIssues.map(i => `• ${i.message}`).join('\n'),
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Book Anyway', onPress: () => { createBooking(); } },
+        ],
+      );
+      return;
+    }
+    createBooking();
+  }, [validate, documentIssues, createBooking]);
 
   const selectedVehicle = vehicles.find(v => v.id === vehicleId);
   const selectedGuide   = guides.find(g => g.id === driverId);
@@ -1143,7 +1260,7 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
                 <Text style={fld.label}>Vehicle Source</Text>
                 <View style={st.segRow}>
                   {([{ value: 'fleet', label: 'Fleet Vehicle' }, { value: 'external', label: 'External / Vendor' }] as { value: VehicleSource; label: string }[]).map(opt => (
-                    <TouchableOpacity key={opt.value} style={[st.seg, vehicleSource === opt.value && st.segActive]} onPress={() => { setVehicleSource(opt.value); setVehicleId(''); setVendorName(''); setVendorPlate(''); setVendorReason(''); }}>
+                    <TouchableOpacity key={opt.value} style={[st.seg, vehicleSource === opt.value && st.segActive]} onPress={() => { setVehicleSource(opt.value); setVehicleId(''); setVendorName(''); setVendorPlate(''); setVendorReason(''); setVendorCost(''); }}>
                       <Text style={[st.segText, vehicleSource === opt.value && st.segTextActive]}>{opt.label}</Text>
                     </TouchableOpacity>
                   ))}
@@ -1171,6 +1288,10 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
                       </View>
                     </View>
                   </View>
+                  <View style={fld.wrap}>
+                    <Text style={fld.label}>Vendor Hire Cost ({currency})</Text>
+                    <TextInput style={st.input} value={vendorCost} onChangeText={setVendorCost} placeholder="What the vendor charges" placeholderTextColor={C.muted} keyboardType="decimal-pad" />
+                  </View>
                 </>
               )}
 
@@ -1226,6 +1347,17 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
                 </TouchableOpacity>
               </View>
 
+              {/* Vehicle and driver documents lapsing during the booking */}
+              {documentIssues.length > 0 && (
+                <View style={[st.docIssues, documentIssues.some(i => i.blocking) && { borderColor: C.danger }]}>
+                  {documentIssues.map(issue => (
+                    <Text key={issue.document.id} style={[st.docIssueText, { color: issue.blocking ? C.danger : C.warning }]}>
+                      {issue.message}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
               {/* ── Section 5: Notes ── */}
               <View style={st.sectionGap} />
               <SectionHeader step="5" title="Additional Notes" />
@@ -1262,6 +1394,7 @@ export function NewBookingModal({ visible, onClose, onSuccess, vehicles, userId
         onSelect={setVehicleId}
         onClose={() => setVehicleSheetOpen(false)}
         conflictingIds={conflictingVehicleIds}
+        documentIssueIds={documentIssueVehicleIds}
       />
 
       {/* Scrollable driver/guide picker sheet */}
@@ -1291,6 +1424,8 @@ const st = StyleSheet.create({
   readOnlyBox:      { backgroundColor: C.input, borderRadius: 14, paddingHorizontal: 14, paddingVertical: 12, borderWidth: 1, borderColor: C.border, minHeight: 46, justifyContent: 'center' },
   readOnlyText:     { fontSize: 15, color: C.text, fontWeight: '800' },
   vehicleSubLine:   { fontSize: 11, color: C.primary, fontWeight: '600', marginTop: 1 },
+  docIssues:        { backgroundColor: C.card, borderWidth: 1, borderColor: C.warning, borderRadius: 12, padding: 12, gap: 4, marginBottom: 14 },
+  docIssueText:     { fontSize: 12, fontWeight: '600' },
   autoCalcTag:      { fontSize: 10, fontWeight: '700', color: C.success, textTransform: 'uppercase', letterSpacing: 0.3 },
   divider:          { flexDirection: 'row', alignItems: 'center', marginBottom: 16 },
   dividerLine:      { flex: 1, height: 1, backgroundColor: C.border },
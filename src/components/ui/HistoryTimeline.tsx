@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { palette, spacing, radius, type as t } from '../../constants/tokens';
+import { useAuditHistory, type AuditedTable } from '../../hooks/useAuditHistory';
+import type { AuditLogRow } from '../../../sdk/schema/tables';
+
+/**
+ * Change timeline for one record, read from the audit log. Rendered inside a
+ * detail modal's own "History" card.
+ */
+
+interface HistoryTimelineProps {
+  table: AuditedTable;
+  recordId: string;
+  /** Display names for columns; others are derived from the column name */
+  fieldLabels?: Record<string, string>;
+  /** Columns left out of the timeline, e.g. values derived from other edits */
+  hiddenFields?: string[];
+  /** Custom display for a column's value; return undefined for the default */
+  formatValue?: (field: string, value: unknown) => string | undefined;
+}
+
+const INITIAL_VISIBLE = 10;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-][\d:]+)?)?$/;
+const UUID     = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// "assigned_vehicle_id" → "Assigned vehicle"
+function defaultLabel(field: string): string {
+  const words = field.replace(/_id$/, '').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function defaultValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'string') {
+    if (UUID.test(value)) return `#${value.slice(0, 8).toUpperCase()}`;
+    if (ISO_DATE.test(value)) {
+      return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+    }
+    return value.length > 60 ? `${value.slice(0, 57)}…` : value;
+  }
+  const json = JSON.stringify(value);
+  return json.length > 60 ? `${json.slice(0, 57)}…` : json;
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString('en-GB', {
+    day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+const ACTION_LABEL: Record<AuditLogRow['action'], string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+const ACTION_DOT: Record<AuditLogRow['action'], string> = {
+  INSERT: palette.success,
+  UPDATE: palette.primary,
+  DELETE: palette.danger,
+};
+
+export function HistoryTimeline({ table, recordId, fieldLabels, hiddenFields, formatValue }: HistoryTimelineProps) {
+  const { entries, loading, error } = useAuditHistory(table, recordId);
+  const [expanded, setExpanded] = useState(false);
+
+  if (loading) {
+    return (
+      <View style={s.stateRow}>
+        <ActivityIndicator size="small" color={palette.primary} />
+        <Text style={s.stateText}>Loading history…</Text>
+      </View>
+    );
+  }
+  if (error && entries.length === 0) {
+    return <Text style={s.stateText}>History isn't available right now.</Text>;
+  }
+
+  // Creation and deletion snapshots list every column, so only edits show
+  // fields; edits that touched nothing but hidden columns are skipped
+  const hidden = new Set(hiddenFields);
+  const rows = entries
+    .map((entry) => ({
+      entry,
+      fields: entry.action === 'UPDATE' ? Object.keys(entry.changes).filter((field) => !hidden.has(field)) : [],
+    }))
+    .filter(({ entry, fields }) => entry.action !== 'UPDATE' || fields.length > 0);
+
+  if (rows.length === 0) {
+    return <Text style={s.stateText}>No changes recorded yet.</Text>;
+  }
+
+  const label = (field: string) => fieldLabels?.[field] ?? defaultLabel(field);
+  const show = (field: string, value: unknown) => formatValue?.(field, value) ?? defaultValue(value);
+  const visible = expanded ? rows : rows.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <View>
+      {visible.map(({ entry, fields }, index) => (
+        <View key={entry.id} style={s.entry}>
+          <View style={s.rail}>
+            <View style={[s.dot, { backgroundColor: ACTION_DOT[entry.action] }]} />
+            {index < visible.length - 1 && <View style={s.line} />}
+          </View>
+          <View style={s.entryBody}>
+            <Text style={s.entryTitle}>
+              {ACTION_LABEL[entry.action]} by {entry.actor_name || (entry.actor_id ? 'a staff member' : 'System')}
+            </Text>
+            <Text style={s.entryTime}>{formatWhen(entry.changed_at)}</Text>
+            {fields.map((field) => (
+              <View key={field} style={s.change}>
+                <Text style={s.changeField}>{label(field)}</Text>
+                <Text style={s.changeValues}>
+                  <Text style={s.before}>{show(field, entry.changes[field].before)}</Text>
+                  {'  →  '}
+                  <Text style={s.after}>{show(field, entry.changes[field].after)}</Text>
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      {rows.length > INITIAL_VISIBLE && (
+        <TouchableOpacity onPress={() => setExpanded((e) => !e)} style={s.more} activeOpacity={0.7}>
+          <Text style={s.moreText}>
+            {expanded ? 'Show less' : `Show ${rows.length - INITIAL_VISIBLE} older changes`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  stateRow:     { flexDirection: 'row', alignItems: 'center', gap: spacing['2'] },
+  stateText:    { fontSize: t.sm, color: palette.textMuted, paddingVertical: spacing['2'] },
+  entry:        { flexDirection: 'row', gap: spacing['3'] },
+  rail:         { alignItems: 'center', width: 12 },
+  dot:          { width: 10, height: 10, borderRadius: radius.full, marginTop: 4 },
+  line:         { flex: 1, width: 2, backgroundColor: palette.border, marginVertical: 2 },
+  entryBody:    { flex: 1, paddingBottom: spacing['4'] },
+  entryTitle:   { fontSize: t.sm, fontWeight: t.bold, color: palette.text },
+  entryTime:    { fontSize: t.xs, color: palette.textSoft, marginTop: 2 },
+  change:       { marginTop: spacing['2'], backgroundColor: palette.surface, borderRadius: radius.sm, paddingHorizontal: spacing['3'], paddingVertical: spacing['2'] },
+  changeField:  { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.4 },
+  changeValues: { fontSize: t.sm, color: palette.text, marginTop: 2 },
+  before:       { color: palette.textMuted, textDecorationLine: 'line-through' },
+  after:        { fontWeight: t.semibold, color: palette.text },
+  more:         { alignSelf: 'flex-start', paddingVertical: spacing['2'] },
+  moreText:     { fontSize: t.sm, fontWeight: t.bold, color: palette.primary },
+});
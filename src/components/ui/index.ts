@@ -10,3 +10,4 @@ export {
   NotifRowSkeleton,
   ListSkeleton,
 } from './SkeletonCard';
+export { HistoryTimeline } from './HistoryTimeline';
@@ -9,12 +9,19 @@ import {
 } from 'react-native';
 import { Svg, Path } from 'react-native-svg';
 import { formatCurrency } from '../../lib/utils';
+import { DUE_SOON_DAYS } from '../../lib/payments';
 import type { Currency } from '../../types/dashboard';
 
 interface OutstandingPaymentsCardProps {
+  /** Installments whose due date has arrived and are still unpaid */
   amount: number;
+  /** Bookings with an installment overdue or due today */
   count: number;
   currency: Currency;
+  /** Installments falling due in the coming days */
+  dueSoonAmount?: number;
+  /** Next due date after today, when nothing is due sooner */
+  nextDueDate?: string | null;
   onPress?: () => void;
   loading?: boolean;
   style?: ViewStyle;
@@ -45,12 +52,19 @@ export function OutstandingPaymentsCard({
   amount,
   count,
   currency,
+  dueSoonAmount = 0,
+  nextDueDate,
   onPress,
   loading = false,
   style,
 }: OutstandingPaymentsCardProps) {
   const formattedAmount = formatCurrency(amount, currency);
   const hasOutstanding = count > 0;
+  const upcoming = dueSoonAmount > 0
+    ? `${formatCurrency(dueSoonAmount, currency)} more due in the next ${DUE_SOON_DAYS} days`
+    : nextDueDate
+      ? `Next payment due ${new Date(`${nextDueDate}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}`
+      : null;
 
   return (
     <TouchableOpacity
@@ -65,7 +79,7 @@ export function OutstandingPaymentsCard({
       <View style={styles.content}>
         <View style={styles.mainContent}>
           <Text style={styles.title}>
-            OUTSTANDING PAYMENTS - {currency}
+            PAYMENTS DUE - {currency}
           </Text>
 
           {loading ? (
@@ -80,7 +94,7 @@ export function OutstandingPaymentsCard({
 
               <View style={styles.subtitleContainer}>
                 <Text style={styles.subtitle}>
-                  {count} {count === 1 ? 'booking' : 'bookings'}
+                  {count} {count === 1 ? 'booking' : 'bookings'} due
                 </Text>
                 {hasOutstanding && (
                   <View style={styles.badge}>
@@ -88,6 +102,10 @@ export function OutstandingPaymentsCard({
                   </View>
                 )}
               </View>
+
+              {upcoming && (
+                <Text style={styles.upcoming}>{upcoming}</Text>
+              )}
             </>
           )}
         </View>
@@ -172,6 +190,12 @@ const styles = StyleSheet.create({
     fontWeight: '400',
     color: '#7f7565',
   },
+  upcoming: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#b8883f',
+    marginTop: 10,
+  },
   badge: {
     backgroundColor: '#fbede7',
     paddingHorizontal: 8,
@@ -74,11 +74,3 @@ export function getBookingStatusConfig(status: string): BookingStatusConfig {
   return BOOKING_STATUS_CONFIG[status as BookingStatus] ?? DEFAULT_STATUS_CONFIG;
 }
 
-/** Statuses the current booking may transition to when editing */
-export const ALLOWED_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
-  Pending:       ['Pending', 'Confirmed', 'In-Progress', 'Cancelled'],
-  Confirmed:     ['Confirmed', 'In-Progress', 'Cancelled'],
-  'In-Progress': ['In-Progress', 'Completed', 'Cancelled'],
-  Completed:     [],
-  Cancelled:     [],
-};
@@ -83,6 +83,7 @@ export const statusColors = {
   Rejected:     { bg: palette.dangerSoft,   text: '#8b3320',      dot: palette.danger  },
   Resolved:     { bg: palette.purpleSoft,   text: '#4b2fa0',      dot: palette.purple  },
   Assigned:     { bg: palette.primarySoft,  text: palette.primary, dot: palette.primary },
+  Returned:     { bg: palette.warningSoft,  text: '#7a5522',      dot: palette.warning },
 
   // Generic
   active:       { bg: palette.successSoft,  text: '#174f38',      dot: palette.success },
@@ -9,6 +9,8 @@ import {
   AuthError,
 } from '../services/authService';
 import { devLog } from '../lib/devLog';
+import { queryClient } from '../lib/queryClient';
+import { rotateStorageEncryptionKey } from '../lib/storageEncryption';
 
 /**
  * Authentication Context
@@ -123,6 +125,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
       await authSignOut();
 
+      // Don't show the previous user's data to the next sign-in
+      queryClient.clear();
+
+      // Best effort — a failed rotation leaves the old key in place
+      await rotateStorageEncryptionKey().catch((e) =>
+        console.error('[AuthContext] Storage key rotation failed:', e)
+      );
+
       setUser(null);
       setSession(null);
       setAuthOrigin('signed_out');
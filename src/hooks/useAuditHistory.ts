@@ -0,0 +1,71 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { AuditLogRow } from '../../sdk/schema/tables';
+
+/**
+ * Change history of a single record, newest first. Entries are written by the
+ * audit_log triggers (see supabase/migrations), so every edit shows up here no
+ * matter which client made it.
+ */
+
+export type AuditedTable = 'bookings' | 'safari_bookings' | 'cash_requisitions' | 'vehicles';
+
+const HISTORY_LIMIT = 100;
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: AuditLogRow[] = [];
+
+async function fetchAuditHistory(table: AuditedTable, recordId: string): Promise<AuditLogRow[]> {
+  if (!recordId) return EMPTY;
+  console.log(`[AuditHistory] Fetching ${table} ${recordId.slice(0, 8)}...`);
+
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', table)
+    .eq('record_id', recordId)
+    .order('changed_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) {
+    console.error('[AuditHistory] ERROR fetching history:', error.message);
+    throw error;
+  }
+
+  return validateRows('audit_log', data);
+}
+
+// The log is append-only, so new entries are the only changes that matter
+function patchAuditHistory(
+  entries: AuditLogRow[],
+  change: RowChange,
+  table: AuditedTable,
+  recordId: string,
+): AuditLogRow[] | undefined {
+  if (change.table !== 'audit_log' || change.eventType !== 'INSERT') return entries;
+
+  return patchRows(entries, change, (row) => {
+    const entry = validateRow('audit_log', row);
+    return entry && entry.table_name === table && entry.record_id === recordId ? entry : null;
+  }, byDesc((e) => e.changed_at));
+}
+
+export function useAuditHistory(table: AuditedTable, recordId: string | null | undefined) {
+  const id = recordId ?? '';
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['audit', table, id],
+    fetcher: () => fetchAuditHistory(table, id),
+    tables: ['audit_log'],
+    patch: (current, change) => patchAuditHistory(current, change, table, id),
+  });
+
+  return {
+    entries: data,
+    loading,
+    error,
+    refetch,
+  };
+}
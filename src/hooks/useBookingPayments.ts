@@ -0,0 +1,71 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import type { BookingKind } from '../lib/bookingTransitions';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { BookingPaymentRow } from '../../sdk/schema/tables';
+
+/**
+ * Payments ledger of a single vehicle or safari booking, newest first
+ */
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: BookingPaymentRow[] = [];
+
+const COLUMN: Record<BookingKind, 'booking_id' | 'safari_booking_id'> = {
+  booking: 'booking_id',
+  safari:  'safari_booking_id',
+};
+
+const newestFirst = byDesc<BookingPaymentRow>((p) => `${p.paid_at} ${p.created_at}`);
+
+async function fetchBookingPayments(kind: BookingKind, bookingId: string): Promise<BookingPaymentRow[]> {
+  if (!bookingId) return EMPTY;
+  console.log(`[BookingPayments] Fetching ${kind} ${bookingId.slice(0, 8)}...`);
+
+  const { data, error } = await supabase
+    .from('booking_payments')
+    .select('*')
+    .eq(COLUMN[kind], bookingId)
+    .order('paid_at', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[BookingPayments] ERROR fetching payments:', error.message);
+    throw error;
+  }
+
+  return validateRows('booking_payments', data);
+}
+
+function patchBookingPayments(
+  payments: BookingPaymentRow[],
+  change: RowChange,
+  kind: BookingKind,
+  bookingId: string,
+): BookingPaymentRow[] | undefined {
+  if (change.table !== 'booking_payments') return payments;
+
+  return patchRows(payments, change, (row) => {
+    const payment = validateRow('booking_payments', row);
+    return payment && payment[COLUMN[kind]] === bookingId ? payment : null;
+  }, newestFirst);
+}
+
+export function useBookingPayments(kind: BookingKind, bookingId: string | null | undefined) {
+  const id = bookingId ?? '';
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['payments', kind, id],
+    fetcher: () => fetchBookingPayments(kind, id),
+    tables: ['booking_payments'],
+    patch: (current, change) => patchBookingPayments(current, change, kind, id),
+  });
+
+  return {
+    payments: data,
+    loading,
+    error,
+    refetch,
+  };
+}
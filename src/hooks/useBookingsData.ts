@@ -1,221 +1,244 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQuery } from './useQuery';
 import { supabase } from '../lib/supabase';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { BookingRow } from '../../sdk/schema/tables';
 import type { Booking, BookingStatus } from '../types/dashboard';
 
-interface BookingsDataState {
-  bookings: Booking[];
+type NamedBooking = Booking & { vehicle?: { name: string } };
+
+interface BookingsData {
+  bookings: NamedBooking[];
   profiles: Record<string, string>;
   clients: Record<string, string>;
-  loading: boolean;
-  error: Error | null;
+  vehicleNames: Record<string, string>;
 }
 
 interface UseBookingsDataProps {
   statusFilter?: BookingStatus | 'all';
 }
 
-// Generate a unique fetch ID for debugging
-let fetchCounter = 0;
+// Stable empties so dependents don't re-run on every render before data arrives
+const EMPTY: BookingsData = { bookings: [], profiles: {}, clients: {}, vehicleNames: {} };
 
-export function useBookingsData({ statusFilter = 'all' }: UseBookingsDataProps = {}) {
-  const [data, setData] = useState<BookingsDataState>({
-    bookings: [],
-    profiles: {},
-    clients: {},
-    loading: true,
-    error: null,
+// Map database columns to app interface with aliases for backwards compatibility
+function toBooking(b: BookingRow): Booking {
+  return {
+    ...b,
+    booking_number: b.booking_reference, // Alias for backwards compatibility
+    total_cost: b.total_amount, // Alias for backwards compatibility
+  };
+}
+
+// Map client, profile and vehicle names to a booking
+function withNames(b: Booking, data: Omit<BookingsData, 'bookings'>): NamedBooking {
+  const { profiles, clients, vehicleNames } = data;
+  return {
+    ...b,
+    profiles: (b.assigned_to || b.assigned_user_id) && profiles[b.assigned_to || b.assigned_user_id!]
+      ? { full_name: profiles[b.assigned_to || b.assigned_user_id!] }
+      : undefined,
+    client: (b.actual_client_id && clients[b.actual_client_id]) || (b.client_id && clients[b.client_id!])
+      ? { company_name: clients[b.actual_client_id || b.client_id!] }
+      : undefined,
+    vehicle: b.assigned_vehicle_id && vehicleNames[b.assigned_vehicle_id]
+      ? { name: vehicleNames[b.assigned_vehicle_id] }
+      : undefined,
+  };
+}
+
+// Fetch Bookings
+async function fetchBookings(statusFilter: BookingStatus | 'all'): Promise<Booking[]> {
+  console.log(`[BookingsData] Fetching bookings...`);
+
+  let query = supabase
+    .from('bookings')
+    .select(
+      'id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, assigned_vehicle_id, assigned_to, client_id, client_name, contact, email, notes, package_type, daily_rate, number_of_days, balance_due, deposit_percent, balance_due_days, created_at, updated_at'
+    )
+    .order('start_date', { ascending: false });
+
+  // Apply status filter if not 'all'
+  if (statusFilter !== 'all') {
+    query = query.eq('status', statusFilter);
+  }
+
+  const { data: bookings, error } = await query;
+
+  if (error) {
+    console.error(`[BookingsData] ERROR fetching bookings:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  // Map database columns to app interface with aliases for backwards compatibility
+  const result: Booking[] = validateRows('bookings', bookings).map(toBooking);
+
+  console.log(`[BookingsData] Fetched ${result.length} bookings`);
+
+  if (result.length > 0) {
+    // Log booking statuses breakdown
+    const statusBreakdown = result.reduce((acc, b) => {
+      acc[b.status] = (acc[b.status] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    console.log(`[BookingsData] Booking statuses:`, statusBreakdown);
+  }
+
+  return result;
+}
+
+// Fetch Profiles
+async function fetchProfiles(): Promise<Record<string, string>> {
+  console.log(`[BookingsData] Fetching profiles...`);
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('id, full_name');
+
+  if (error) {
+    console.error(`[BookingsData] ERROR fetching profiles:`, error.message);
+    throw error;
+  }
+
+  const profileMap: Record<string, string> = {};
+  (profiles || []).forEach((p: any) => {
+    profileMap[p.id] = p.full_name;
   });
 
-  // Track if initial fetch has been done
-  const hasFetchedRef = useRef(false);
-
-  // Fetch Bookings
-  const fetchBookings = useCallback(async (fetchId: number) => {
-    console.log(`[BookingsData #${fetchId}] Fetching bookings...`);
-
-    let query = supabase
-      .from('bookings')
-      .select(
-        'id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, assigned_vehicle_id, assigned_to, client_id, client_name, contact, email, notes, package_type, daily_rate, number_of_days, balance_due'
-      )
-      .order('start_date', { ascending: false });
-
-    // Apply status filter if not 'all'
-    if (statusFilter !== 'all') {
-      query = query.eq('status', statusFilter);
-    }
-
-    const { data: bookings, error } = await query;
-
-    if (error) {
-      console.error(`[BookingsData #${fetchId}] ERROR fetching bookings:`, error.message, error.details, error.hint);
-      throw error;
-    }
-
-    // Map database columns to app interface with aliases for backwards compatibility
-    const result = (bookings || []).map(b => ({
-      ...b,
-      booking_number: b.booking_reference, // Alias for backwards compatibility
-      total_cost: b.total_amount, // Alias for backwards compatibility
-    })) as Booking[];
-
-    console.log(`[BookingsData #${fetchId}] Fetched ${result.length} bookings`);
-
-    if (result.length > 0) {
-      // Log booking statuses breakdown
-      const statusBreakdown = result.reduce((acc, b) => {
-        acc[b.status] = (acc[b.status] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      console.log(`[BookingsData #${fetchId}] Booking statuses:`, statusBreakdown);
-    }
-
-    return result;
-  }, [statusFilter]);
-
-  // Fetch Profiles
-  const fetchProfiles = useCallback(async (fetchId: number) => {
-    console.log(`[BookingsData #${fetchId}] Fetching profiles...`);
-    const { data: profiles, error } = await supabase
-      .from('profiles')
-      .select('id, full_name');
-
-    if (error) {
-      console.error(`[BookingsData #${fetchId}] ERROR fetching profiles:`, error.message);
-      throw error;
-    }
-
-    const profileMap: Record<string, string> = {};
-    (profiles || []).forEach((p: any) => {
-      profileMap[p.id] = p.full_name;
-    });
-
-    console.log(`[BookingsData #${fetchId}] Fetched ${Object.keys(profileMap).length} profiles`);
-    return profileMap;
-  }, []);
-
-  // Fetch Clients
-  const fetchClients = useCallback(async (fetchId: number) => {
-    console.log(`[BookingsData #${fetchId}] Fetching clients...`);
-    const { data: clients, error } = await supabase
-      .from('clients')
-      .select('id, company_name');
-
-    if (error) {
-      console.error(`[BookingsData #${fetchId}] ERROR fetching clients:`, error.message);
-      throw error;
-    }
-
-    const clientMap: Record<string, string> = {};
-    (clients || []).forEach((c: any) => {
-      clientMap[c.id] = c.company_name;
-    });
-
-    console.log(`[BookingsData #${fetchId}] Fetched ${Object.keys(clientMap).length} clients`);
-    return clientMap;
-  }, []);
-
-  // Fetch Vehicles for vehicle names
-  const fetchVehicles = useCallback(async (fetchId: number) => {
-    console.log(`[BookingsData #${fetchId}] Fetching vehicles for booking info...`);
-    const { data: vehicles, error } = await supabase
-      .from('vehicles')
-      .select('id, license_plate, make, model');
-
-    if (error) {
-      console.error(`[BookingsData #${fetchId}] ERROR fetching vehicles:`, error.message);
-      throw error;
-    }
-
-    const vehicleMap: Record<string, string> = {};
-    (vehicles || []).forEach((v: any) => {
-      vehicleMap[v.id] = `${v.license_plate} - ${v.make} ${v.model}`;
-    });
-
-    console.log(`[BookingsData #${fetchId}] Fetched ${Object.keys(vehicleMap).length} vehicles`);
-    return vehicleMap;
-  }, []);
-
-  // Fetch all data
-  const fetchAllData = useCallback(async () => {
-    const fetchId = ++fetchCounter;
-
-    console.log(`[BookingsData #${fetchId}] ========== FETCH START ==========`);
-
-    try {
-      setData(prev => ({ ...prev, loading: true, error: null }));
-
-      console.log(`[BookingsData #${fetchId}] Starting parallel fetches...`);
-      const startTime = Date.now();
-
-      const [bookings, profiles, clients, vehicles] = await Promise.all([
-        fetchBookings(fetchId),
-        fetchProfiles(fetchId),
-        fetchClients(fetchId),
-        fetchVehicles(fetchId),
-      ]);
-
-      const fetchDuration = Date.now() - startTime;
-      console.log(`[BookingsData #${fetchId}] All fetches completed in ${fetchDuration}ms`);
-
-      // Map client and profile names to bookings
-      const bookingsWithNames = bookings.map(b => ({
-        ...b,
-        profiles: (b.assigned_to || b.assigned_user_id) && profiles[b.assigned_to || b.assigned_user_id!]
-          ? { full_name: profiles[b.assigned_to || b.assigned_user_id!] }
-          : undefined,
-        client: (b.actual_client_id && clients[b.actual_client_id]) || (b.client_id && clients[b.client_id!])
-          ? { company_name: clients[b.actual_client_id || b.client_id!] }
-          : undefined,
-        vehicle: b.assigned_vehicle_id && vehicles[b.assigned_vehicle_id]
-          ? { name: vehicles[b.assigned_vehicle_id] }
-          : undefined,
-      }));
-
-      console.log(`[BookingsData #${fetchId}] ========== FETCH SUMMARY ==========`);
-      console.log(`[BookingsData #${fetchId}] Bookings: ${bookings.length}`);
-      console.log(`[BookingsData #${fetchId}] Profiles: ${Object.keys(profiles).length}`);
-      console.log(`[BookingsData #${fetchId}] Clients: ${Object.keys(clients).length}`);
-
-      hasFetchedRef.current = true;
-
-      setData({
-        bookings: bookingsWithNames,
-        profiles,
-        clients,
-        loading: false,
-        error: null,
-      });
-
-      console.log(`[BookingsData #${fetchId}] ========== FETCH COMPLETE ==========`);
-    } catch (error) {
-      console.error(`[BookingsData #${fetchId}] ========== FETCH ERROR ==========`);
-      console.error(`[BookingsData #${fetchId}] Error:`, error);
-      setData(prev => ({
-        ...prev,
-        loading: false,
-        error: error as Error,
-      }));
-    }
-  }, [fetchBookings, fetchProfiles, fetchClients, fetchVehicles]);
-
-  // Fetch on mount and when filter changes
-  useEffect(() => {
-    console.log('[BookingsData] useEffect triggered - fetching data...');
-    fetchAllData();
-  }, [fetchAllData]);
-
-  // Create a stable refetch reference
-  const refetchRef = useRef(fetchAllData);
-  refetchRef.current = fetchAllData;
-
-  const stableRefetch = useCallback(() => {
-    console.log('[BookingsData] stableRefetch called');
-    return refetchRef.current();
-  }, []);
+  console.log(`[BookingsData] Fetched ${Object.keys(profileMap).length} profiles`);
+  return profileMap;
+}
+
+// Fetch Clients
+async function fetchClients(): Promise<Record<string, string>> {
+  console.log(`[BookingsData] Fetching clients...`);
+  const { data: clients, error } = await supabase
+    .from('clients')
+    .select('id, company_name');
+
+  if (error) {
+    console.error(`[BookingsData] ERROR fetching clients:`, error.message);
+    throw error;
+  }
+
+  const clientMap: Record<string, string> = {};
+  (clients || []).forEach((c: any) => {
+    clientMap[c.id] = c.company_name;
+  });
+
+  console.log(`[BookingsData] Fetched ${Object.keys(clientMap).length} clients`);
+  return clientMap;
+}
+
+// Fetch Vehicles for vehicle names
+async function fetchVehicles(): Promise<Record<string, string>> {
+  console.log(`[BookingsData] Fetching vehicles for booking info...`);
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, license_plate, make, model');
+
+  if (error) {
+    console.error(`[BookingsData] ERROR fetching vehicles:`, error.message);
+    throw error;
+  }
+
+  const vehicleMap: Record<string, string> = {};
+  (vehicles || []).forEach((v: any) => {
+    vehicleMap[v.id] = `${v.license_plate} - ${v.make} ${v.model}`;
+  });
+
+  console.log(`[BookingsData] Fetched ${Object.keys(vehicleMap).length} vehicles`);
+  return vehicleMap;
+}
+
+// Fetch all data
+async function fetchBookingsData(statusFilter: BookingStatus | 'all'): Promise<BookingsData> {
+  console.log('[BookingsData] ========== FETCH START ==========');
+  const startTime = Date.now();
+
+  const [bookings, profiles, clients, vehicleNames] = await Promise.all([
+    fetchBookings(statusFilter),
+    fetchProfiles(),
+    fetchClients(),
+    fetchVehicles(),
+  ]);
+
+  console.log(`[BookingsData] All fetches completed in ${Date.now() - startTime}ms`);
+
+  const names = { profiles, clients, vehicleNames };
+  const bookingsWithNames = bookings.map(b => withNames(b, names));
+
+  console.log(`[BookingsData] Bookings: ${bookings.length}, Profiles: ${Object.keys(profiles).length}, Clients: ${Object.keys(clients).length}`);
+
+  return { bookings: bookingsWithNames, ...names };
+}
+
+// Display name for a client or vehicle row, as the fetchers build it
+function nameFor(change: RowChange): string | undefined {
+  const row = change.new;
+  if (change.table === 'clients') {
+    return typeof row.company_name === 'string' ? row.company_name : undefined;
+  }
+  return typeof row.license_plate === 'string' ? `${row.license_plate} - ${row.make} ${row.model}` : undefined;
+}
+
+// Apply a client or vehicle change to the name maps and relabel the bookings
+// that reference it; undefined when the row can't be read
+function patchNames(data: BookingsData, change: RowChange): BookingsData | undefined {
+  const row = change.eventType === 'DELETE' ? change.old : change.new;
+  const id = typeof row.id === 'string' ? row.id : null;
+  if (!id) return undefined;
+
+  const key = change.table === 'clients' ? 'clients' : 'vehicleNames';
+  const names = { ...data[key] };
+  if (change.eventType === 'DELETE') {
+    delete names[id];
+  } else {
+    const name = nameFor(change);
+    if (name === undefined) return undefined;
+    names[id] = name;
+  }
+
+  const next = { ...data, [key]: names };
+  const references = (b: NamedBooking) => key === 'clients'
+    ? b.actual_client_id === id || b.client_id === id
+    : b.assigned_vehicle_id === id;
+  return { ...next, bookings: data.bookings.map(b => references(b) ? withNames(b, next) : b) };
+}
+
+// Apply a realtime booking, client or vehicle change in place
+function patchBookingsData(
+  data: BookingsData,
+  change: RowChange,
+  statusFilter: BookingStatus | 'all',
+): BookingsData | undefined {
+  if (change.table === 'clients' || change.table === 'vehicles') return patchNames(data, change);
+  if (change.table !== 'bookings') return undefined;
+
+  const bookings = patchRows(data.bookings, change, (row) => {
+    const booking = validateRow('bookings', row);
+    if (!booking) return null;
+    if (statusFilter !== 'all' && booking.status !== statusFilter) return null;
+    return withNames(toBooking(booking), data);
+  }, byDesc(b => b.start_date));
+  return bookings && { ...data, bookings };
+}
+
+export function useBookingsData({ statusFilter = 'all' }: UseBookingsDataProps = {}) {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['bookings', statusFilter],
+    fetcher: () => fetchBookingsData(statusFilter),
+    tables: ['bookings', 'clients', 'vehicles'],
+    persist: true,
+    patch: (current, change) => patchBookingsData(current, change, statusFilter),
+  });
 
   return {
-    ...data,
-    refetch: stableRefetch,
+    bookings: data.bookings,
+    profiles: data.profiles,
+    clients: data.clients,
+    loading,
+    error,
+    refetch,
   };
 }
@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { budgetRange, buildBudgetUsage, type BudgetInput } from '../lib/budgets';
+import { useExchangeRate, getConversionRates, convertToBaseCurrency } from './useExchangeRate';
+import { validateRows } from '../../sdk/schema/validators';
+
+/**
+ * Budgets and what has been spent against them this period. Requisitions and
+ * transactions are fetched from the start of the quarter, which covers both
+ * monthly and quarterly budgets; any change to the three tables refetches.
+ */
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: BudgetInput = { budgets: [], requisitions: [], transactions: [] };
+
+async function fetchBudgets(from: string): Promise<BudgetInput> {
+  console.log(`[Budgets] Fetching budgets and spend since ${from}...`);
+
+  const [budgetsRes, crsRes, txnRes] = await Promise.all([
+    supabase
+      .from('finance_budgets')
+      .select('*')
+      .order('department', { ascending: true, nullsFirst: true }),
+    // A requisition counts on the day it was paid out, or is committed for the day it's needed
+    supabase
+      .from('cash_requisitions')
+      .select('id, cr_number, total_cost, currency, status, date_needed, expense_category, department, date_completed, created_at, amount_usd')
+      .eq('soft_deleted', false)
+      .not('status', 'in', '(Declined,Rejected,Cancelled)')
+      .or(`date_needed.gte.${from},date_completed.gte.${from}`),
+    supabase
+      .from('financial_transactions')
+      .select('id, transaction_date, amount, transaction_type, category, currency, status, reference_number, description')
+      .neq('status', 'cancelled')
+      .gte('transaction_date', from),
+  ]);
+
+  for (const [name, res] of [['budgets', budgetsRes], ['cash requisitions', crsRes], ['transactions', txnRes]] as const) {
+    if (res.error) {
+      console.error(`[Budgets] ERROR fetching ${name}:`, res.error.message);
+      throw res.error;
+    }
+  }
+
+  const input: BudgetInput = {
+    budgets: validateRows('finance_budgets', budgetsRes.data),
+    requisitions: validateRows('cash_requisitions', crsRes.data),
+    // Validation normalises transaction_type, so filter to expenses afterwards
+    transactions: validateRows('financial_transactions', txnRes.data).filter((t) => t.transaction_type === 'expense'),
+  };
+  console.log(`[Budgets] ${input.budgets.length} budgets, ${input.requisitions.length} CRs, ${input.transactions.length} expense transactions`);
+  return input;
+}
+
+export function useBudgets() {
+  const from = budgetRange('quarterly').from;
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['finance-budgets', from],
+    fetcher: () => fetchBudgets(from),
+    tables: ['finance_budgets', 'cash_requisitions', 'financial_transactions'],
+    persist: true,
+  });
+  const { exchangeRates } = useExchangeRate();
+
+  const usage = useMemo(() => {
+    const rates = getConversionRates(exchangeRates);
+    return buildBudgetUsage(data, (amount, currency) => convertToBaseCurrency(amount, currency, rates));
+  }, [data, exchangeRates]);
+
+  return {
+    budgets: data.budgets,
+    usage,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,116 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byAsc, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { ApprovalDelegationRow, CRApprovalRuleRow, CRApprovalStepRow } from '../../sdk/schema/tables';
+
+/**
+ * Approval rules, every requisition's chain steps and the delegations in
+ * force or ahead, with staff names for showing who each step waits on
+ */
+
+interface CRApprovals {
+  rules: CRApprovalRuleRow[];
+  steps: CRApprovalStepRow[];
+  delegations: ApprovalDelegationRow[];
+  /** Profile id → display name */
+  names: Record<string, string>;
+}
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: CRApprovals = { rules: [], steps: [], delegations: [], names: {} };
+
+const byMinAmount = (a: CRApprovalRuleRow, b: CRApprovalRuleRow) => a.min_amount_usd - b.min_amount_usd;
+const byCreated = byAsc<CRApprovalStepRow>((s) => s.created_at);
+const byEndsOn = byDesc<ApprovalDelegationRow>((d) => d.ends_on);
+
+async function fetchCRApprovals(): Promise<CRApprovals> {
+  console.log('[CRApprovals] Fetching approval chains...');
+
+  const [rulesRes, stepsRes, delegationsRes, profilesRes] = await Promise.all([
+    supabase
+      .from('cr_approval_rules')
+      .select('*')
+      .order('min_amount_usd', { ascending: true }),
+    supabase
+      .from('cr_approval_steps')
+      .select('*')
+      .order('created_at', { ascending: true }),
+    // Past delegations are only history; keep those still running or ahead
+    supabase
+      .from('approval_delegations')
+      .select('*')
+      .gte('ends_on', new Date().toISOString().slice(0, 10))
+      .order('ends_on', { ascending: false }),
+    supabase
+      .from('profiles')
+      .select('id, full_name, email'),
+  ]);
+
+  if (rulesRes.error) {
+    console.error('[CRApprovals] ERROR fetching rules:', rulesRes.error.message);
+    throw rulesRes.error;
+  }
+  if (stepsRes.error) {
+    console.error('[CRApprovals] ERROR fetching steps:', stepsRes.error.message);
+    throw stepsRes.error;
+  }
+  if (delegationsRes.error) {
+    console.error('[CRApprovals] ERROR fetching delegations:', delegationsRes.error.message);
+    throw delegationsRes.error;
+  }
+  if (profilesRes.error) {
+    console.warn('[CRApprovals] Could not load staff names:', profilesRes.error.message);
+  }
+
+  const names: Record<string, string> = {};
+  for (const p of validateRows('profiles', profilesRes.data)) {
+    names[p.id] = p.full_name?.trim() || p.email?.split('@')[0] || 'Unknown';
+  }
+
+  const approvals = {
+    rules: validateRows('cr_approval_rules', rulesRes.data),
+    steps: validateRows('cr_approval_steps', stepsRes.data),
+    delegations: validateRows('approval_delegations', delegationsRes.data),
+    names,
+  };
+  console.log(`[CRApprovals] ${approvals.rules.length} rules, ${approvals.steps.length} steps, ${approvals.delegations.length} delegations`);
+  return approvals;
+}
+
+function patchCRApprovals(data: CRApprovals, change: RowChange): CRApprovals | undefined {
+  switch (change.table) {
+    case 'cr_approval_rules': {
+      const rules = patchRows(data.rules, change, (row) => validateRow('cr_approval_rules', row), byMinAmount);
+      return rules && { ...data, rules };
+    }
+    case 'cr_approval_steps': {
+      const steps = patchRows(data.steps, change, (row) => validateRow('cr_approval_steps', row), byCreated);
+      return steps && { ...data, steps };
+    }
+    case 'approval_delegations': {
+      const delegations = patchRows(data.delegations, change, (row) => validateRow('approval_delegations', row), byEndsOn);
+      return delegations && { ...data, delegations };
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function useCRApprovals() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['cr-approvals'],
+    fetcher: fetchCRApprovals,
+    tables: ['cr_approval_rules', 'cr_approval_steps', 'approval_delegations', 'profiles'],
+    persist: true,
+    patch: patchCRApprovals,
+  });
+
+  return {
+    ...data,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -72,6 +72,11 @@ const STATUS_TEMPLATES: Record<string, CRNotifTemplate> = {
     title: '❌ Cash Requisition Declined',
     body:  (cr, category) => `CR ${cr} (${category}) has been declined.`,
   },
+  Returned: {
+    type:  'cr_rejected',
+    title: '↩️ Cash Requisition Returned',
+    body:  (cr, category) => `CR ${cr} (${category}) was returned for changes. Update it and resubmit.`,
+  },
 };
 
 // ─── Hook ─────────────────────────────────────────────────────────────────────
@@ -83,7 +88,7 @@ const STATUS_TEMPLATES: Record<string, CRNotifTemplate> = {
  *
  * Triggers on:
  *  INSERT  → "New Cash Requisition raised"
- *  UPDATE  → status changes: Approved, Completed, Resolved, Rejected, Declined
+ *  UPDATE  → status changes: Approved, Completed, Resolved, Rejected, Declined, Returned
  */
 export function useCRNotifications(
   enabled: boolean,
@@ -0,0 +1,55 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byAsc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { ComplianceDocumentRow } from '../../sdk/schema/tables';
+
+/**
+ * Compliance documents for every vehicle and driver; screens pick out an
+ * owner's own with the helpers in lib/complianceDocuments
+ */
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: ComplianceDocumentRow[] = [];
+
+const byExpiry = byAsc<ComplianceDocumentRow>((d) => d.expires_on);
+
+async function fetchComplianceDocuments(): Promise<ComplianceDocumentRow[]> {
+  console.log('[ComplianceDocuments] Fetching documents...');
+
+  const { data, error } = await supabase
+    .from('compliance_documents')
+    .select('*')
+    .order('expires_on', { ascending: true });
+
+  if (error) {
+    console.error('[ComplianceDocuments] ERROR fetching documents:', error.message);
+    throw error;
+  }
+
+  return validateRows('compliance_documents', data);
+}
+
+function patchComplianceDocuments(docs: ComplianceDocumentRow[], change: RowChange): ComplianceDocumentRow[] | undefined {
+  if (change.table !== 'compliance_documents') return docs;
+
+  return patchRows(docs, change, (row) => validateRow('compliance_documents', row), byExpiry);
+}
+
+export function useComplianceDocuments() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['compliance-documents'],
+    fetcher: fetchComplianceDocuments,
+    tables: ['compliance_documents'],
+    persist: true,
+    patch: patchComplianceDocuments,
+  });
+
+  return {
+    documents: data,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -22,8 +22,23 @@ import {
 } from '../lib/utils';
 import {
   convertToBaseCurrency,
+  convertToBaseCurrencyOn,
   convertFromBaseCurrency,
+  type RateBasis,
+  type RateHistory,
 } from './useExchangeRate';
+import {
+  DUE_SOON_DAYS,
+  addDays,
+  amountDueBy,
+  bookingPaymentSubject,
+  buildInstallments,
+  isoDay,
+  nextInstallment,
+} from '../lib/payments';
+import { kmDriven, odometerReadings } from '../lib/vehicleLogs';
+import { isCRLinkedTransaction, isFuelExpense } from '../lib/cashRequisition';
+import type { FuelLogRow, TripLogRow } from '../../sdk/schema/tables';
 
 // ============================================================================
 // TYPES
@@ -38,8 +53,17 @@ export interface DashboardCalculationsProps {
   cashRequisitions: CashRequisition[];
   safariBookings: SafariBooking[];
 
+  // Fuel and trip logs from useVehicleLogs
+  fuelLogs?: FuelLogRow[];
+  tripLogs?: TripLogRow[];
+
   // Exchange rates from useExchangeRate
   conversionRates: Record<Currency, number>;
+  // Every rate by the day it took effect, so amounts convert at the rate on
+  // their own date; without it everything uses conversionRates
+  rateHistory?: RateHistory;
+  // Charts can convert at today's rate instead, to compare months on one scale
+  chartRateBasis?: RateBasis;
 
   // Display currency
   displayCurrency: Currency;
@@ -93,6 +117,10 @@ export interface OutstandingPaymentData {
   booking_number?: string;
   client_name: string;
   status?: string;
+  /** Part of the balance whose due date has passed or is today */
+  amount_due: number;
+  /** Earliest unpaid installment */
+  next_due_date: string | null;
   balance_due: number;
   total_cost: number;
   amount_paid: number;
@@ -136,6 +164,8 @@ export interface DashboardCalculationsResult {
     avgBookingValue: number;
     outstandingPaymentsTotal: number;
     outstandingPaymentsCount: number;
+    dueSoonPaymentsTotal: number;
+    nextPaymentDueDate: string | null;
   };
 
   // Chart data
@@ -159,7 +189,9 @@ export interface DashboardCalculationsResult {
 // CONSTANTS
 // ============================================================================
 
-const CR_NUMBER_REGEX = /CR-\d{4}-\d{4}/;
+const NO_FUEL_LOGS: FuelLogRow[] = [];
+const NO_RATE_HISTORY: RateHistory = { USD: [], UGX: [], KES: [] };
+const NO_TRIP_LOGS: TripLogRow[] = [];
 const VALID_CR_STATUSES = ['Completed', 'Approved', 'Resolved'];
 
 // ============================================================================
@@ -197,22 +229,6 @@ function isValidExpenseCR(cr: CashRequisition): boolean {
   return isValidExpense && isNotExcluded;
 }
 
-/**
- * Check if a transaction is a CR-linked expense (to avoid double-counting)
- */
-function isCRLinkedTransaction(
-  transaction: FinancialTransaction,
-  validCRNumbers: Set<string>
-): boolean {
-  const isCRDuplicate =
-    transaction.reference_number &&
-    validCRNumbers.has(transaction.reference_number);
-  const isCRLedger =
-    CR_NUMBER_REGEX.test(String(transaction.description ?? '')) ||
-    String(transaction.reference_number ?? '').startsWith('CR-');
-  return Boolean(isCRDuplicate || isCRLedger);
-}
-
 /**
  * Get months to display based on time filter
  */
@@ -251,7 +267,11 @@ export function useDashboardCalculations(
     financialTransactions,
     cashRequisitions,
     safariBookings,
+    fuelLogs = NO_FUEL_LOGS,
+    tripLogs = NO_TRIP_LOGS,
     conversionRates,
+    rateHistory = NO_RATE_HISTORY,
+    chartRateBasis = 'historical',
     displayCurrency,
     dashboardMonthFilter,
     dashboardFilterYear,
@@ -291,6 +311,22 @@ export function useDashboardCalculations(
     console.log('[DashboardCalculations]   Display Currency:', displayCurrency);
     console.log('[DashboardCalculations] Conversion Rates:', conversionRates);
 
+    // Revenue and spend convert at the rate in force on the booking,
+    // transaction, requisition or fill-up date. Money owed now stays at
+    // today's rate, as does the final conversion to the display currency
+    const toBase = (amount: number, currency: Currency, date: string | null | undefined): number =>
+      convertToBaseCurrencyOn(amount, currency, date, rateHistory, conversionRates);
+    const toChartBase = (amount: number, currency: Currency, date: string | null | undefined): number =>
+      chartRateBasis === 'current'
+        ? convertToBaseCurrency(amount, currency, conversionRates)
+        : toBase(amount, currency, date);
+    // amount_usd was fixed when the requisition was raised, so only the
+    // historical basis can use it
+    const crChartBase = (cr: CashRequisition): number =>
+      chartRateBasis === 'historical' && cr.amount_usd
+        ? Number(cr.amount_usd)
+        : toChartBase(cr.total_cost, cr.currency, cr.created_at);
+
     // Helper for dashboard filter matching
     const matchesDashboardFilter = (date: Date): boolean => {
       if (dashboardMonthFilter === 'all') return true;
@@ -391,11 +427,7 @@ export function useDashboardCalculations(
         );
       })
       .reduce((sum, b) => {
-        const amountInBase = convertToBaseCurrency(
-          b.amount_paid,
-          b.currency,
-          conversionRates
-        );
+        const amountInBase = toBase(b.amount_paid, b.currency, b.start_date);
         return sum + amountInBase;
       }, 0);
 
@@ -418,11 +450,7 @@ export function useDashboardCalculations(
         );
       })
       .reduce((sum, b) => {
-        const amountInBase = convertToBaseCurrency(
-          b.amount_paid,
-          b.currency,
-          conversionRates
-        );
+        const amountInBase = toBase(b.amount_paid, b.currency, b.start_date);
         return sum + amountInBase;
       }, 0);
 
@@ -444,12 +472,8 @@ export function useDashboardCalculations(
 
     const totalBookingRevenue = revenueEligibleBookings
       .reduce((sum, b) => {
-        const amountInBase = convertToBaseCurrency(
-          b.amount_paid,
-          b.currency,
-          conversionRates
-        );
-        console.log(`  Converting ${b.amount_paid} ${b.currency} to base: ${amountInBase} (rate: ${conversionRates[b.currency]})`);
+        const amountInBase = toBase(b.amount_paid, b.currency, b.start_date);
+        console.log(`  Converting ${b.amount_paid} ${b.currency} to base: ${amountInBase} (on ${b.start_date})`);
         return sum + amountInBase;
       }, 0);
 
@@ -489,7 +513,7 @@ export function useDashboardCalculations(
       .filter((t) => t.transaction_type === 'income')
       .reduce(
         (sum, t) =>
-          sum + convertToBaseCurrency(t.amount, t.currency, conversionRates),
+          sum + toBase(t.amount, t.currency, t.transaction_date),
         0
       );
 
@@ -512,7 +536,9 @@ export function useDashboardCalculations(
     console.log(`  Conversion Rate: ${conversionRates[displayCurrency]}`);
     console.log(`  Total Revenue Display: ${totalRevenueDisplay}`);
 
-    // Outstanding Payments — any non-cancelled booking with balance_due > 0 (matches web dashboard)
+    // Outstanding Payments — driven by each booking's payment schedule: only
+    // installments whose due date has arrived count as outstanding, the ones
+    // falling due within DUE_SOON_DAYS are reported separately
     // Uses the DB balance_due column when available, falls back to total_amount - amount_paid
     const getBalanceDue = (b: (typeof dashboardFilteredBookings)[0]): number => {
       if (typeof b.balance_due === 'number' && b.balance_due > 0) return b.balance_due;
@@ -520,13 +546,29 @@ export function useDashboardCalculations(
       return Math.max(0, totalAmt - b.amount_paid);
     };
 
-    const outstandingBookings = dashboardFilteredBookings.filter(
-      (b) => !['Cancelled', 'cancelled'].includes(b.status) && getBalanceDue(b) > 0
-    );
+    const today = isoDay();
+    const dueSoonBy = addDays(today, DUE_SOON_DAYS);
+
+    const scheduledBookings = dashboardFilteredBookings
+      .filter((b) => !['Cancelled', 'cancelled'].includes(b.status) && getBalanceDue(b) > 0)
+      .map((b) => {
+        const installments = buildInstallments(
+          bookingPaymentSubject({ ...b, total_amount: b.total_amount || b.total_cost || 0 }),
+          today,
+        );
+        return {
+          booking: b,
+          dueNow: amountDueBy(installments, today),
+          dueSoon: amountDueBy(installments, dueSoonBy) - amountDueBy(installments, today),
+          nextDueDate: nextInstallment(installments)?.dueDate ?? null,
+        };
+      });
 
-    const outstandingPaymentsTotal = outstandingBookings.reduce((sum, b) => {
-      const balanceInBase = convertToBaseCurrency(getBalanceDue(b), b.currency, conversionRates);
-      return sum + balanceInBase;
+    const outstandingBookings = scheduledBookings.filter((s) => s.dueNow > 0);
+
+    const outstandingPaymentsTotal = outstandingBookings.reduce((sum, s) => {
+      const dueInBase = convertToBaseCurrency(s.dueNow, s.booking.currency, conversionRates);
+      return sum + dueInBase;
     }, 0);
 
     const outstandingPaymentsDisplay = convertFromBaseCurrency(
@@ -537,15 +579,30 @@ export function useDashboardCalculations(
 
     const outstandingPaymentsCount = outstandingBookings.length;
 
+    const dueSoonPaymentsDisplay = convertFromBaseCurrency(
+      scheduledBookings.reduce(
+        (sum, s) => sum + convertToBaseCurrency(s.dueSoon, s.booking.currency, conversionRates),
+        0
+      ),
+      displayCurrency,
+      conversionRates
+    );
+
+    const nextPaymentDueDate = scheduledBookings
+      .map((s) => s.nextDueDate)
+      .filter((d): d is string => d !== null && d > today)
+      .sort()[0] ?? null;
+
     // Build set of valid CR numbers for deduplication
     const validCRNumbers = new Set(dashboardFilteredCRs.map((cr) => cr.cr_number));
 
     // Calculate CR expenses - use amount_usd if available, otherwise convert total_cost
     const crExpensesMap = dashboardFilteredCRs.reduce((acc, cr) => {
+      if (isFuelExpense(cr.expense_category)) return acc;
       const category = normalizeExpenseCategory(cr.expense_category);
       const amountInBase = cr.amount_usd
         ? Number(cr.amount_usd)
-        : convertToBaseCurrency(cr.total_cost, cr.currency, conversionRates);
+        : toBase(cr.total_cost, cr.currency, cr.created_at);
       acc[category] = (acc[category] || 0) + amountInBase;
       return acc;
     }, {} as Record<string, number>);
@@ -555,21 +612,26 @@ export function useDashboardCalculations(
       (t) =>
         t.transaction_type === 'expense' &&
         t.status !== 'cancelled' &&
-        !isCRLinkedTransaction(t, validCRNumbers)
+        !isCRLinkedTransaction(t, validCRNumbers) &&
+        !isFuelExpense(t.category)
     );
 
     // Add non-CR-linked transaction expenses
     const expenseCategoriesMap = { ...crExpensesMap };
     dashboardFilteredExpenseTransactions.forEach((t) => {
       const category = normalizeExpenseCategory(t.category || 'Operating Expense');
-      const amountInBase = convertToBaseCurrency(
-        t.amount,
-        t.currency,
-        conversionRates
-      );
+      const amountInBase = toBase(t.amount, t.currency, t.transaction_date);
       expenseCategoriesMap[category] = (expenseCategoriesMap[category] || 0) + amountInBase;
     });
 
+    // Fuel bought per the fuel logs counts as Fleet Supplies
+    fuelLogs
+      .filter((l) => matchesDashboardFilter(new Date(l.filled_on)))
+      .forEach((l) => {
+        expenseCategoriesMap['Fleet Supplies'] =
+          (expenseCategoriesMap['Fleet Supplies'] || 0) + toBase(l.cost, l.currency, l.filled_on);
+      });
+
     // Calculate total expenses from CRs + non-CR-linked transactions
     const totalExpensesBase = Object.values(expenseCategoriesMap).reduce(
       (sum, amount) => sum + amount,
@@ -590,7 +652,7 @@ export function useDashboardCalculations(
       bookings.length > 0
         ? bookings.reduce(
             (sum, b) =>
-              sum + convertToBaseCurrency((b.total_amount || b.total_cost || 0), b.currency, conversionRates),
+              sum + toBase((b.total_amount || b.total_cost || 0), b.currency, b.start_date),
             0
           ) / bookings.length
         : 0;
@@ -629,7 +691,7 @@ export function useDashboardCalculations(
           })
           .reduce(
             (sum, b) =>
-              sum + convertToBaseCurrency(b.amount_paid, b.currency, conversionRates),
+              sum + toChartBase(b.amount_paid, b.currency, b.start_date),
             0
           );
 
@@ -657,7 +719,7 @@ export function useDashboardCalculations(
           })
           .reduce(
             (sum, t) =>
-              sum + convertToBaseCurrency(t.amount, t.currency, conversionRates),
+              sum + toChartBase(t.amount, t.currency, t.transaction_date),
             0
           );
 
@@ -674,14 +736,13 @@ export function useDashboardCalculations(
             const date = new Date(cr.created_at);
             return (
               isValidExpenseCR(cr) &&
+              !isFuelExpense(cr.expense_category) &&
               date >= monthDate &&
               date < nextMonthDate
             );
           })
           .reduce((sum, cr) => {
-            const amountInBase = cr.amount_usd
-              ? cr.amount_usd
-              : convertToBaseCurrency(cr.total_cost, cr.currency, conversionRates);
+            const amountInBase = crChartBase(cr);
             return sum + amountInBase;
           }, 0);
 
@@ -693,17 +754,30 @@ export function useDashboardCalculations(
               t.transaction_type === 'expense' &&
               t.status !== 'cancelled' &&
               !isCRLinkedTransaction(t, validCRReferences) &&
+              !isFuelExpense(t.category) &&
               date >= monthDate &&
               date < nextMonthDate
             );
           })
           .reduce(
             (sum, t) =>
-              sum + convertToBaseCurrency(t.amount, t.currency, conversionRates),
+              sum + toChartBase(t.amount, t.currency, t.transaction_date),
             0
           );
 
-        const monthExpenses = monthCRExpenses + monthTransactionExpenses;
+        // Monthly fuel spend from the fuel logs
+        const monthFuelExpenses = fuelLogs
+          .filter((l) => {
+            const date = new Date(l.filled_on);
+            return date >= monthDate && date < nextMonthDate;
+          })
+          .reduce(
+            (sum, l) =>
+              sum + toChartBase(l.cost, l.currency, l.filled_on),
+            0
+          );
+
+        const monthExpenses = monthCRExpenses + monthTransactionExpenses + monthFuelExpenses;
 
         return {
           month: monthName,
@@ -732,6 +806,7 @@ export function useDashboardCalculations(
       const date = new Date(cr.created_at);
       return (
         isValidExpenseCR(cr) &&
+        !isFuelExpense(cr.expense_category) &&
         date.getFullYear() === selectedExpenseCategoryYear &&
         expenseCategoryMonthsToDisplay.includes(date.getMonth())
       );
@@ -741,15 +816,26 @@ export function useDashboardCalculations(
     const filteredExpenseCategoriesMap = filteredCRsForCategories.reduce(
       (acc, cr) => {
         const category = normalizeExpenseCategory(cr.expense_category);
-        const amountInBase = cr.amount_usd
-          ? cr.amount_usd
-          : convertToBaseCurrency(cr.total_cost, cr.currency, conversionRates);
+        const amountInBase = crChartBase(cr);
         acc[category] = (acc[category] || 0) + amountInBase;
         return acc;
       },
       {} as Record<string, number>
     );
 
+    fuelLogs
+      .filter((l) => {
+        const date = new Date(l.filled_on);
+        return (
+          date.getFullYear() === selectedExpenseCategoryYear &&
+          expenseCategoryMonthsToDisplay.includes(date.getMonth())
+        );
+      })
+      .forEach((l) => {
+        filteredExpenseCategoriesMap['Fleet Supplies'] =
+          (filteredExpenseCategoriesMap['Fleet Supplies'] || 0) + toChartBase(l.cost, l.currency, l.filled_on);
+      });
+
     const expenseCategories: ExpenseCategoryData[] = Object.entries(
       filteredExpenseCategoriesMap
     )
@@ -766,35 +852,37 @@ export function useDashboardCalculations(
     // CALCULATE TOP VEHICLES (Dual-Axis Chart)
     // ========================================================================
 
-    const getFilteredBookingsForVehicles = (): Booking[] => {
+    // Period picked for the vehicle ranking; fuel and km use the same one
+    const inRevenuePeriod = (date: Date): boolean => {
       const currentQuarter = Math.floor(currentMonth / 3);
 
+      if (revenueTimeFilter === 'year') {
+        return date.getFullYear() === currentYear;
+      } else if (revenueTimeFilter === 'quarter') {
+        const dateQuarter = Math.floor(date.getMonth() / 3);
+        return (
+          date.getFullYear() === currentYear &&
+          dateQuarter === currentQuarter
+        );
+      } else if (revenueTimeFilter === 'specific') {
+        return (
+          date.getFullYear() === selectedRevenueYear &&
+          selectedRevenueMonths.includes(date.getMonth())
+        );
+      } else {
+        // month
+        return (
+          date.getFullYear() === currentYear &&
+          date.getMonth() === currentMonth
+        );
+      }
+    };
+
+    const getFilteredBookingsForVehicles = (): Booking[] => {
       return bookings.filter((b) => {
         if (!b.assigned_vehicle_id) return false;
         if (!isRevenueEligible(b)) return false;
-
-        const startDate = new Date(b.start_date);
-
-        if (revenueTimeFilter === 'year') {
-          return startDate.getFullYear() === currentYear;
-        } else if (revenueTimeFilter === 'quarter') {
-          const bookingQuarter = Math.floor(startDate.getMonth() / 3);
-          return (
-            startDate.getFullYear() === currentYear &&
-            bookingQuarter === currentQuarter
-          );
-        } else if (revenueTimeFilter === 'specific') {
-          return (
-            startDate.getFullYear() === selectedRevenueYear &&
-            selectedRevenueMonths.includes(startDate.getMonth())
-          );
-        } else {
-          // month
-          return (
-            startDate.getFullYear() === currentYear &&
-            startDate.getMonth() === currentMonth
-          );
-        }
+        return inRevenuePeriod(new Date(b.start_date));
       });
     };
 
@@ -802,11 +890,7 @@ export function useDashboardCalculations(
 
     const topRevenueVehicles = filteredBookingsForVehicles.reduce((acc, b) => {
       const vehicleId = b.assigned_vehicle_id!;
-      const amountInBase = convertToBaseCurrency(
-        b.amount_paid || 0,
-        b.currency,
-        conversionRates
-      );
+      const amountInBase = toChartBase(b.amount_paid || 0, b.currency, b.start_date);
       acc[vehicleId] = (acc[vehicleId] || 0) + amountInBase;
       return acc;
     }, {} as Record<string, number>);
@@ -818,6 +902,22 @@ export function useDashboardCalculations(
           (b) => b.assigned_vehicle_id === vehicleId
         ).length;
 
+        // Fuel cost per km driven in the same period, once both are logged
+        const vehicleFuel = fuelLogs.filter(
+          (l) => l.vehicle_id === vehicleId && inRevenuePeriod(new Date(l.filled_on))
+        );
+        const fuelCostInBase = vehicleFuel.reduce(
+          (sum, l) => sum + toChartBase(l.cost, l.currency, l.filled_on),
+          0
+        );
+        const km = vehicleFuel.length > 0
+          ? kmDriven(
+              odometerReadings(vehicleId, fuelLogs, tripLogs),
+              tripLogs.filter((t) => t.vehicle_id === vehicleId),
+              (day) => inRevenuePeriod(new Date(day))
+            )
+          : 0;
+
         // Robust capacity detection
         const rawCapacity = (vehicle?.capacity || '').toString().toLowerCase();
         let normalizedCapacity: VehicleCapacity = 'Other';
@@ -847,6 +947,9 @@ export function useDashboardCalculations(
           ),
           trips: tripCount,
           capacity: normalizedCapacity,
+          costPerKm: km > 0
+            ? convertFromBaseCurrency(fuelCostInBase / km, displayCurrency, conversionRates)
+            : undefined,
         };
       })
       .filter((v) => {
@@ -913,11 +1016,7 @@ export function useDashboardCalculations(
       .forEach((b) => {
         const vehicleId = b.assigned_vehicle_id!;
         const vehicle = vehicles.find((v) => v.id === vehicleId);
-        const revenueInBase = convertToBaseCurrency(
-          b.amount_paid,
-          b.currency,
-          conversionRates
-        );
+        const revenueInBase = toChartBase(b.amount_paid, b.currency, b.start_date);
 
         // Determine capacity - match database format
         const rawCapacity = (vehicle?.capacity || '').toLowerCase();
@@ -1054,7 +1153,7 @@ export function useDashboardCalculations(
     // FIXED: Use dashboardFilteredBookings to respect month/year filters
 
     const outstandingPayments: OutstandingPaymentData[] = outstandingBookings
-      .map((b) => {
+      .map(({ booking: b, dueNow, nextDueDate }) => {
         const totalAmt = b.total_amount || b.total_cost || 0;
         const balanceDue = getBalanceDue(b);
         return {
@@ -1062,6 +1161,12 @@ export function useDashboardCalculations(
           booking_number: b.booking_number || b.booking_reference,
           client_name: b.client?.company_name || b.client_name || b.profiles?.full_name || 'Unknown',
           status: b.status,
+          amount_due: convertFromBaseCurrency(
+            convertToBaseCurrency(dueNow, b.currency, conversionRates),
+            displayCurrency,
+            conversionRates
+          ),
+          next_due_date: nextDueDate,
           balance_due: convertFromBaseCurrency(
             convertToBaseCurrency(balanceDue, b.currency, conversionRates),
             displayCurrency,
@@ -1082,7 +1187,8 @@ export function useDashboardCalculations(
           currency: b.currency,
         };
       })
-      .sort((a, b) => b.balance_due - a.balance_due);
+      // Longest overdue first
+      .sort((a, b) => (a.next_due_date ?? '').localeCompare(b.next_due_date ?? ''));
 
     // ========================================================================
     // GET RECENT BOOKINGS (Widget)
@@ -1139,6 +1245,8 @@ export function useDashboardCalculations(
         avgBookingValue: Math.round(avgBookingValueDisplay),
         outstandingPaymentsTotal: Math.round(outstandingPaymentsDisplay),
         outstandingPaymentsCount,
+        dueSoonPaymentsTotal: Math.round(dueSoonPaymentsDisplay),
+        nextPaymentDueDate,
       },
       monthlyRevenueExpenses,
       expenseCategories,
@@ -1158,7 +1266,11 @@ export function useDashboardCalculations(
     financialTransactions,
     cashRequisitions,
     safariBookings,
+    fuelLogs,
+    tripLogs,
     conversionRates,
+    rateHistory,
+    chartRateBasis,
     displayCurrency,
     dashboardMonthFilter,
     dashboardFilterYear,
@@ -1,5 +1,8 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQuery } from './useQuery';
 import { supabase } from '../lib/supabase';
+import { patchRows, byAsc, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
 import type {
   Vehicle,
   Booking,
@@ -11,7 +14,7 @@ import type {
 } from '../types/dashboard';
 import { matchesDashboardFilter } from '../lib/utils';
 
-interface DashboardDataState {
+interface DashboardData {
   vehicles: Vehicle[];
   bookings: Booking[];
   repairs: Repair[];
@@ -20,8 +23,6 @@ interface DashboardDataState {
   safariBookings: SafariBooking[];
   profiles: Record<string, string>; // user_id -> full_name
   clients: Record<string, string>; // client_id -> company_name
-  loading: boolean;
-  error: Error | null;
 }
 
 interface UseDashboardDataProps {
@@ -29,479 +30,534 @@ interface UseDashboardDataProps {
   dashboardFilterYear: number;
 }
 
-// Generate a unique fetch ID for debugging
-let fetchCounter = 0;
-
-export function useDashboardData({
-  dashboardMonthFilter,
-  dashboardFilterYear,
-}: UseDashboardDataProps) {
-  const [data, setData] = useState<DashboardDataState>({
-    vehicles: [],
-    bookings: [],
-    repairs: [],
-    financialTransactions: [],
-    cashRequisitions: [],
-    safariBookings: [],
-    profiles: {},
-    clients: {},
-    loading: true,
-    error: null,
-  });
-
-  // Track if initial fetch has been done to prevent duplicate fetches
-  const hasFetchedRef = useRef(false);
-  const lastFilterRef = useRef({ month: dashboardMonthFilter, year: dashboardFilterYear });
-
-  // Fetch Vehicles (no filter needed)
-  const fetchVehicles = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching vehicles...`);
-    const { data: vehicles, error } = await supabase
-      .from('vehicles')
-      .select('id, license_plate, make, model, capacity, status, rating, current_driver_id, drivers(full_name)')
-      .order('license_plate', { ascending: true });
-
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching vehicles:`, error.message, error.details, error.hint);
-      throw error;
-    }
-
-    const result = (vehicles || []).map(v => ({
-      ...v,
+// Stable empties so dependents don't re-run on every render before data arrives
+const EMPTY: DashboardData = {
+  vehicles: [],
+  bookings: [],
+  repairs: [],
+  financialTransactions: [],
+  cashRequisitions: [],
+  safariBookings: [],
+  profiles: {},
+  clients: {},
+};
+
+// Fetch Vehicles (no filter needed)
+async function fetchVehicles() {
+  console.log(`[DashboardData] Fetching vehicles...`);
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, license_plate, make, model, capacity, status, rating, current_driver_id, drivers(full_name)')
+    .order('license_plate', { ascending: true });
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching vehicles:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const result: Vehicle[] = (vehicles || []).flatMap(v => {
+    const row = validateRow('vehicles', v);
+    if (!row) return [];
+    return [{
+      ...row,
       drivers: v.drivers && Array.isArray(v.drivers) && v.drivers.length > 0
         ? { full_name: v.drivers[0].full_name }
         : undefined,
-    })) as Vehicle[];
-
-    console.log(`[DashboardData #${fetchId}] Fetched ${result.length} vehicles`);
-    if (result.length > 0) {
-      console.log(`[DashboardData #${fetchId}] Vehicle statuses:`, result.map(v => v.status).reduce((acc, s) => {
-        acc[s] = (acc[s] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>));
-    }
-
-    return result;
-  }, []);
-
-  // Fetch Bookings (with dashboard filter)
-  const fetchBookings = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching bookings... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
-
-    let query = supabase
-      .from('bookings')
-      .select(
-        'id, booking_reference, start_date, end_date, status, amount_paid, total_amount, balance_due, currency, assigned_vehicle_id, assigned_to, client_id, client_name, created_at, is_vendor_vehicle'
-      )
-      .order('start_date', { ascending: false });
-
-    // Mirror dashboard behaviour exactly:
-    //   - Specific month selected → scope to that month+year only
-    //   - "All months" → no date restriction (fetch all-time, matching dashboard)
-    if (dashboardMonthFilter !== 'all') {
-      // Specific month: fetch the full year so the Revenue vs Expenses chart
-      // has data for all 12 months regardless of which month the KPI filter uses.
-      const year = dashboardFilterYear;
-      const firstDay = new Date(year, 0, 1).toISOString();
-      const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
-      console.log(`[DashboardData #${fetchId}] Bookings date filter: ${firstDay} to ${lastDay}`);
-      query = query.gte('start_date', firstDay).lte('start_date', lastDay);
-    } else {
-      console.log(`[DashboardData #${fetchId}] Bookings date filter: all-time (no restriction)`);
-    }
+    }];
+  });
 
-    const { data: bookings, error } = await query;
+  console.log(`[DashboardData] Fetched ${result.length} vehicles`);
+  if (result.length > 0) {
+    console.log(`[DashboardData] Vehicle statuses:`, result.map(v => v.status).reduce((acc, s) => {
+      acc[s] = (acc[s] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>));
+  }
 
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching bookings:`, error.message, error.details, error.hint);
-      throw error;
-    }
-
-    // Map database columns to app interface with aliases for backwards compatibility
-    const result = (bookings || []).map(b => ({
-      ...b,
-      booking_number: b.booking_reference, // Alias for backwards compatibility
-      total_cost: b.total_amount, // Alias for backwards compatibility
-    })) as Booking[];
-
-    console.log(`[DashboardData #${fetchId}] Fetched ${result.length} bookings`);
-
-    if (result.length > 0) {
-      // Log booking statuses breakdown
-      const statusBreakdown = result.reduce((acc, b) => {
-        acc[b.status] = (acc[b.status] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      console.log(`[DashboardData #${fetchId}] Booking statuses:`, statusBreakdown);
-
-      // Log revenue-eligible bookings
-      const revenueEligible = result.filter(b =>
-        b.status === 'Completed' ||
-        b.status === 'In-Progress' ||
-        (b.status === 'Confirmed' && b.amount_paid > 0)
-      );
-      console.log(`[DashboardData #${fetchId}] Revenue-eligible bookings: ${revenueEligible.length}`);
-
-      // Log total amount_paid
-      const totalAmountPaid = result.reduce((sum, b) => sum + (b.amount_paid || 0), 0);
-      console.log(`[DashboardData #${fetchId}] Total amount_paid (raw): ${totalAmountPaid}`);
-    }
+  return result;
+}
 
-    return result;
-  }, [dashboardMonthFilter, dashboardFilterYear]);
-
-  // Fetch Repairs (active only)
-  const fetchRepairs = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching repairs...`);
-    const { data: repairs, error } = await supabase
-      .from('repairs')
-      .select('id, vehicle_id, description, status, priority, reported_at, estimated_cost, vehicles(license_plate)')
-      .in('status', ['open', 'in_progress'])
-      .order('priority', { ascending: false })
-      .order('reported_at', { ascending: false });
-
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching repairs:`, error.message, error.details, error.hint);
-      throw error;
-    }
+// Fetch Bookings (with dashboard filter)
+async function fetchBookings(dashboardMonthFilter: number | 'all', dashboardFilterYear: number) {
+  console.log(`[DashboardData] Fetching bookings... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
+
+  let query = supabase
+    .from('bookings')
+    .select(
+      'id, booking_reference, start_date, end_date, status, amount_paid, total_amount, balance_due, currency, assigned_vehicle_id, assigned_to, client_id, client_name, created_at, is_vendor_vehicle, deposit_percent, balance_due_days'
+    )
+    .order('start_date', { ascending: false });
+
+  // Mirror dashboard behaviour exactly:
+  //   - Specific month selected → scope to that month+year only
+  //   - "All months" → no date restriction (fetch all-time, matching dashboard)
+  if (dashboardMonthFilter !== 'all') {
+    // Specific month: fetch the full year so the Revenue vs Expenses chart
+    // has data for all 12 months regardless of which month the KPI filter uses.
+    const year = dashboardFilterYear;
+    const firstDay = new Date(year, 0, 1).toISOString();
+    const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
+    console.log(`[DashboardData] Bookings date filter: ${firstDay} to ${lastDay}`);
+    query = query.gte('start_date', firstDay).lte('start_date', lastDay);
+  } else {
+    console.log(`[DashboardData] Bookings date filter: all-time (no restriction)`);
+  }
+
+  const { data: bookings, error } = await query;
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching bookings:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  // Map database columns to app interface with aliases for backwards compatibility
+  const result: Booking[] = validateRows('bookings', bookings).map(b => ({
+    ...b,
+    booking_number: b.booking_reference, // Alias for backwards compatibility
+    total_cost: b.total_amount, // Alias for backwards compatibility
+  }));
+
+  console.log(`[DashboardData] Fetched ${result.length} bookings`);
+
+  if (result.length > 0) {
+    // Log booking statuses breakdown
+    const statusBreakdown = result.reduce((acc, b) => {
+      acc[b.status] = (acc[b.status] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    console.log(`[DashboardData] Booking statuses:`, statusBreakdown);
+
+    // Log revenue-eligible bookings
+    const revenueEligible = result.filter(b =>
+      b.status === 'Completed' ||
+      b.status === 'In-Progress' ||
+      (b.status === 'Confirmed' && b.amount_paid > 0)
+    );
+    console.log(`[DashboardData] Revenue-eligible bookings: ${revenueEligible.length}`);
+
+    // Log total amount_paid
+    const totalAmountPaid = result.reduce((sum, b) => sum + (b.amount_paid || 0), 0);
+    console.log(`[DashboardData] Total amount_paid (raw): ${totalAmountPaid}`);
+  }
+
+  return result;
+}
 
-    const result = (repairs || []).map(r => ({
-      ...r,
+// Fetch Repairs (active only)
+async function fetchRepairs() {
+  console.log(`[DashboardData] Fetching repairs...`);
+  const { data: repairs, error } = await supabase
+    .from('repairs')
+    .select('id, vehicle_id, description, status, priority, reported_at, estimated_cost, vehicles(license_plate)')
+    .in('status', ['open', 'in_progress'])
+    .order('priority', { ascending: false })
+    .order('reported_at', { ascending: false });
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching repairs:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const result: Repair[] = (repairs || []).flatMap(r => {
+    const row = validateRow('repairs', r);
+    if (!row) return [];
+    return [{
+      ...row,
       vehicles: r.vehicles && Array.isArray(r.vehicles) && r.vehicles.length > 0
         ? { license_plate: r.vehicles[0].license_plate }
         : undefined,
-    })) as Repair[];
-    console.log(`[DashboardData #${fetchId}] Fetched ${result.length} repairs`);
-    return result;
-  }, []);
-
-  // Fetch Financial Transactions (with dashboard filter)
-  const fetchTransactions = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching transactions... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
-
-    let query = supabase
-      .from('financial_transactions')
-      .select('id, transaction_date, amount, transaction_type, category, currency, description, reference_number, status')
-      .neq('status', 'cancelled')
-      .order('transaction_date', { ascending: true });
-
-    // Mirror dashboard: apply date filter only for a specific month, not for "all"
-    if (dashboardMonthFilter !== 'all') {
-      const year = dashboardFilterYear;
-      const firstDay = new Date(year, 0, 1).toISOString();
-      const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
-      console.log(`[DashboardData #${fetchId}] Transactions date filter: ${firstDay} to ${lastDay}`);
-      query = query.gte('transaction_date', firstDay).lte('transaction_date', lastDay);
-    } else {
-      console.log(`[DashboardData #${fetchId}] Transactions date filter: all-time`);
-    }
+    }];
+  });
+  console.log(`[DashboardData] Fetched ${result.length} repairs`);
+  return result;
+}
 
-    const { data: transactions, error } = await query;
+// Fetch Financial Transactions (with dashboard filter)
+async function fetchTransactions(dashboardMonthFilter: number | 'all', dashboardFilterYear: number) {
+  console.log(`[DashboardData] Fetching transactions... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
+
+  let query = supabase
+    .from('financial_transactions')
+    .select('id, transaction_date, amount, transaction_type, category, currency, description, reference_number, status')
+    .neq('status', 'cancelled')
+    .order('transaction_date', { ascending: true });
+
+  // Mirror dashboard: apply date filter only for a specific month, not for "all"
+  if (dashboardMonthFilter !== 'all') {
+    const year = dashboardFilterYear;
+    const firstDay = new Date(year, 0, 1).toISOString();
+    const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
+    console.log(`[DashboardData] Transactions date filter: ${firstDay} to ${lastDay}`);
+    query = query.gte('transaction_date', firstDay).lte('transaction_date', lastDay);
+  } else {
+    console.log(`[DashboardData] Transactions date filter: all-time`);
+  }
+
+  const { data: transactions, error } = await query;
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching transactions:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const result: FinancialTransaction[] = validateRows('financial_transactions', transactions);
+  console.log(`[DashboardData] Fetched ${result.length} transactions`);
+
+  if (result.length > 0) {
+    // Log transaction type breakdown
+    const typeBreakdown = result.reduce((acc, t) => {
+      acc[t.transaction_type] = (acc[t.transaction_type] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    console.log(`[DashboardData] Transaction types:`, typeBreakdown);
+
+    // Log income vs expense totals
+    const incomeTotal = result.filter(t => t.transaction_type === 'income').reduce((sum, t) => sum + t.amount, 0);
+    const expenseTotal = result.filter(t => t.transaction_type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+    console.log(`[DashboardData] Transaction income total: ${incomeTotal}, expense total: ${expenseTotal}`);
+  }
+
+  return result;
+}
 
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching transactions:`, error.message, error.details, error.hint);
-      throw error;
-    }
+// Fetch Cash Requisitions (with dashboard filter)
+async function fetchCashRequisitions(dashboardMonthFilter: number | 'all', dashboardFilterYear: number) {
+  console.log(`[DashboardData] Fetching cash requisitions... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
+
+  let query = supabase
+    .from('cash_requisitions')
+    .select('id, cr_number, total_cost, currency, status, date_needed, expense_category, date_completed, created_at, amount_usd')
+    .eq('soft_deleted', false)
+    .not('status', 'in', '(Declined,Rejected)')
+    .order('created_at', { ascending: true });
+
+  // Mirror dashboard: apply date filter only for a specific month, not for "all"
+  if (dashboardMonthFilter !== 'all') {
+    const year = dashboardFilterYear;
+    const firstDay = new Date(year, 0, 1).toISOString();
+    const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
+    console.log(`[DashboardData] CRs date filter: ${firstDay} to ${lastDay}`);
+    query = query.gte('created_at', firstDay).lte('created_at', lastDay);
+  } else {
+    console.log(`[DashboardData] CRs date filter: all-time`);
+  }
+
+  const { data: crs, error } = await query;
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching CRs:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const result: CashRequisition[] = validateRows('cash_requisitions', crs);
+  console.log(`[DashboardData] Fetched ${result.length} CRs`);
+
+  if (result.length > 0) {
+    // Log CR status breakdown
+    const statusBreakdown = result.reduce((acc, cr) => {
+      acc[cr.status] = (acc[cr.status] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    console.log(`[DashboardData] CR statuses:`, statusBreakdown);
+
+    // Log valid expense CRs (Completed/Approved/Resolved or has date_completed)
+    const validExpenseCRs = result.filter(cr =>
+      cr.date_completed !== null ||
+      cr.status === 'Completed' ||
+      cr.status === 'Approved' ||
+      cr.status === 'Resolved'
+    );
+    console.log(`[DashboardData] Valid expense CRs: ${validExpenseCRs.length}`);
+
+    // Log total CR expense amount
+    const totalCRExpense = validExpenseCRs.reduce((sum, cr) => sum + (cr.amount_usd || cr.total_cost || 0), 0);
+    console.log(`[DashboardData] Total CR expense (raw): ${totalCRExpense}`);
+  }
+
+  return result;
+}
 
-    const result = (transactions || []) as FinancialTransaction[];
-    console.log(`[DashboardData #${fetchId}] Fetched ${result.length} transactions`);
-
-    if (result.length > 0) {
-      // Log transaction type breakdown
-      const typeBreakdown = result.reduce((acc, t) => {
-        acc[t.transaction_type] = (acc[t.transaction_type] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      console.log(`[DashboardData #${fetchId}] Transaction types:`, typeBreakdown);
-
-      // Log income vs expense totals
-      const incomeTotal = result.filter(t => t.transaction_type === 'income').reduce((sum, t) => sum + t.amount, 0);
-      const expenseTotal = result.filter(t => t.transaction_type === 'expense').reduce((sum, t) => sum + t.amount, 0);
-      console.log(`[DashboardData #${fetchId}] Transaction income total: ${incomeTotal}, expense total: ${expenseTotal}`);
-    }
+// Fetch Profiles (for assigned user names)
+async function fetchProfiles() {
+  console.log(`[DashboardData] Fetching profiles...`);
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('id, full_name');
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching profiles:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const profileMap: Record<string, string> = {};
+  (profiles || []).forEach(p => {
+    profileMap[p.id] = p.full_name;
+  });
 
-    return result;
-  }, [dashboardMonthFilter, dashboardFilterYear]);
-
-  // Fetch Cash Requisitions (with dashboard filter)
-  const fetchCashRequisitions = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching cash requisitions... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
-
-    let query = supabase
-      .from('cash_requisitions')
-      .select('id, cr_number, total_cost, currency, status, date_needed, expense_category, date_completed, created_at, amount_usd')
-      .eq('soft_deleted', false)
-      .not('status', 'in', '(Declined,Rejected)')
-      .order('created_at', { ascending: true });
-
-    // Mirror dashboard: apply date filter only for a specific month, not for "all"
-    if (dashboardMonthFilter !== 'all') {
-      const year = dashboardFilterYear;
-      const firstDay = new Date(year, 0, 1).toISOString();
-      const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
-      console.log(`[DashboardData #${fetchId}] CRs date filter: ${firstDay} to ${lastDay}`);
-      query = query.gte('created_at', firstDay).lte('created_at', lastDay);
-    } else {
-      console.log(`[DashboardData #${fetchId}] CRs date filter: all-time`);
-    }
+  console.log(`[DashboardData] Fetched ${Object.keys(profileMap).length} profiles`);
+  return profileMap;
+}
 
-    const { data: crs, error } = await query;
+// Fetch Clients (for company names)
+async function fetchClients() {
+  console.log(`[DashboardData] Fetching clients...`);
+  const { data: clients, error } = await supabase
+    .from('clients')
+    .select('id, company_name');
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching clients:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const clientMap: Record<string, string> = {};
+  (clients || []).forEach(c => {
+    clientMap[c.id] = c.company_name;
+  });
 
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching CRs:`, error.message, error.details, error.hint);
-      throw error;
-    }
+  console.log(`[DashboardData] Fetched ${Object.keys(clientMap).length} clients`);
+  return clientMap;
+}
 
-    const result = (crs || []) as CashRequisition[];
-    console.log(`[DashboardData #${fetchId}] Fetched ${result.length} CRs`);
-
-    if (result.length > 0) {
-      // Log CR status breakdown
-      const statusBreakdown = result.reduce((acc, cr) => {
-        acc[cr.status] = (acc[cr.status] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      console.log(`[DashboardData #${fetchId}] CR statuses:`, statusBreakdown);
-
-      // Log valid expense CRs (Completed/Approved/Resolved or has date_completed)
-      const validExpenseCRs = result.filter(cr =>
-        cr.date_completed !== null ||
-        cr.status === 'Completed' ||
-        cr.status === 'Approved' ||
-        cr.status === 'Resolved'
-      );
-      console.log(`[DashboardData #${fetchId}] Valid expense CRs: ${validExpenseCRs.length}`);
-
-      // Log total CR expense amount
-      const totalCRExpense = validExpenseCRs.reduce((sum, cr) => sum + (cr.amount_usd || cr.total_cost || 0), 0);
-      console.log(`[DashboardData #${fetchId}] Total CR expense (raw): ${totalCRExpense}`);
-    }
+// Fetch Safari Bookings (with dashboard filter) - PRIORITY 1 FIX
+async function fetchSafariBookings(dashboardMonthFilter: number | 'all', dashboardFilterYear: number) {
+  console.log(`[DashboardData] Fetching safari bookings... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
+
+  let query = supabase
+    .from('safari_bookings')
+    .select('id, total_price_usd, total_price_ugx, total_expenses_usd, total_expenses_ugx, vehicle_hire_cost_usd, vehicle_hire_cost_ugx, start_date, end_date, amount_paid, currency')
+    .order('start_date', { ascending: false });
+
+  // Mirror dashboard: apply date filter only for a specific month, not for "all"
+  if (dashboardMonthFilter !== 'all') {
+    const year = dashboardFilterYear;
+    const firstDay = new Date(year, 0, 1).toISOString();
+    const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
+    console.log(`[DashboardData] Safari bookings date filter: ${firstDay} to ${lastDay}`);
+    query = query.gte('start_date', firstDay).lte('start_date', lastDay);
+  } else {
+    console.log(`[DashboardData] Safari bookings date filter: all-time`);
+  }
+
+  const { data: safariBookings, error } = await query;
+
+  if (error) {
+    console.error(`[DashboardData] ERROR fetching safari bookings:`, error.message, error.details, error.hint);
+    // Don't throw - safari_bookings table might not exist yet, just return empty array
+    console.warn(`[DashboardData] Continuing without safari bookings (table may not exist)`);
+    return [] as SafariBooking[];
+  }
+
+  const result: SafariBooking[] = validateRows('safari_bookings', safariBookings);
+  console.log(`[DashboardData] Fetched ${result.length} safari bookings`);
+
+  if (result.length > 0) {
+    // Log safari revenue summary
+    const totalSafariRevenue = result.reduce((sum, s) => sum + (s.total_price_usd || 0), 0);
+    const totalSafariExpenses = result.reduce((sum, s) => sum + ((s.total_expenses_usd || 0) + (s.vehicle_hire_cost_usd || 0)), 0);
+    const safariProfit = totalSafariRevenue - totalSafariExpenses;
+    console.log(`[DashboardData] Safari revenue (USD): ${totalSafariRevenue}, expenses: ${totalSafariExpenses}, profit: ${safariProfit}`);
+  }
+
+  return result;
+}
 
-    return result;
-  }, [dashboardMonthFilter, dashboardFilterYear]);
+// Fetch all data
+async function fetchDashboardData(
+  dashboardMonthFilter: number | 'all',
+  dashboardFilterYear: number,
+): Promise<DashboardData> {
+  console.log('[DashboardData] ========== FETCH START ==========');
+  console.log(`[DashboardData] Filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear}`);
+  const startTime = Date.now();
+
+  const [
+    vehicles,
+    bookings,
+    repairs,
+    transactions,
+    crs,
+    safariBookings,
+    profiles,
+    clients,
+  ] = await Promise.all([
+    fetchVehicles(),
+    fetchBookings(dashboardMonthFilter, dashboardFilterYear),
+    fetchRepairs(),
+    fetchTransactions(dashboardMonthFilter, dashboardFilterYear),
+    fetchCashRequisitions(dashboardMonthFilter, dashboardFilterYear),
+    fetchSafariBookings(dashboardMonthFilter, dashboardFilterYear),
+    fetchProfiles(),
+    fetchClients(),
+  ]);
 
-  // Fetch Profiles (for assigned user names)
-  const fetchProfiles = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching profiles...`);
-    const { data: profiles, error } = await supabase
-      .from('profiles')
-      .select('id, full_name');
+  const fetchDuration = Date.now() - startTime;
+  console.log(`[DashboardData] All fetches completed in ${fetchDuration}ms`);
+
+  // Log summary of fetched data
+  console.log('[DashboardData] ========== FETCH SUMMARY ==========');
+  console.log(`[DashboardData] Vehicles: ${vehicles.length}`);
+  console.log(`[DashboardData] Bookings: ${bookings.length}`);
+  console.log(`[DashboardData] Repairs: ${repairs.length}`);
+  console.log(`[DashboardData] Transactions: ${transactions.length}`);
+  console.log(`[DashboardData] CRs: ${crs.length}`);
+  console.log(`[DashboardData] Safari Bookings: ${safariBookings.length}`);
+  console.log(`[DashboardData] Profiles: ${Object.keys(profiles).length}`);
+  console.log(`[DashboardData] Clients: ${Object.keys(clients).length}`);
+
+  // CRITICAL: Check if data is empty
+  if (bookings.length === 0) {
+    console.warn('[DashboardData] WARNING: No bookings returned! Check Supabase connection and RLS policies.');
+  }
+  if (crs.length === 0) {
+    console.warn('[DashboardData] WARNING: No CRs returned! Check Supabase connection and RLS policies.');
+  }
+
+  // Map assigned user names to bookings
+  const bookingsWithNames = bookings.map(b => withNames(b, profiles, clients));
 
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching profiles:`, error.message, error.details, error.hint);
-      throw error;
-    }
+  return {
+    vehicles,
+    bookings: bookingsWithNames,
+    repairs,
+    financialTransactions: transactions,
+    cashRequisitions: crs,
+    safariBookings,
+    profiles,
+    clients,
+  };
+}
 
-    const profileMap: Record<string, string> = {};
-    (profiles || []).forEach(p => {
-      profileMap[p.id] = p.full_name;
-    });
-
-    console.log(`[DashboardData #${fetchId}] Fetched ${Object.keys(profileMap).length} profiles`);
-    return profileMap;
-  }, []);
-
-  // Fetch Clients (for company names)
-  const fetchClients = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching clients...`);
-    const { data: clients, error } = await supabase
-      .from('clients')
-      .select('id, company_name');
-
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching clients:`, error.message, error.details, error.hint);
-      throw error;
-    }
+// Map assigned user and client names to a booking
+function withNames(b: Booking, profiles: Record<string, string>, clients: Record<string, string>): Booking {
+  return {
+    ...b,
+    profiles: (b.assigned_to || b.assigned_user_id) && profiles[b.assigned_to || b.assigned_user_id!]
+      ? { full_name: profiles[b.assigned_to || b.assigned_user_id!] }
+      : undefined,
+    client: (b.actual_client_id && clients[b.actual_client_id]) || (b.client_id && clients[b.client_id])
+      ? { company_name: clients[b.actual_client_id || b.client_id!] }
+      : undefined,
+  };
+}
+
+// Mirrors the fetchers' date scoping: a specific month loads its whole year
+function inDashboardWindow(
+  date: string | null | undefined,
+  dashboardMonthFilter: number | 'all',
+  dashboardFilterYear: number,
+): boolean {
+  if (dashboardMonthFilter === 'all') return true;
+  return !!date && new Date(date).getFullYear() === dashboardFilterYear;
+}
 
-    const clientMap: Record<string, string> = {};
-    (clients || []).forEach(c => {
-      clientMap[c.id] = c.company_name;
-    });
-
-    console.log(`[DashboardData #${fetchId}] Fetched ${Object.keys(clientMap).length} clients`);
-    return clientMap;
-  }, []);
-
-  // Fetch Safari Bookings (with dashboard filter) - PRIORITY 1 FIX
-  const fetchSafariBookings = useCallback(async (fetchId: number) => {
-    console.log(`[DashboardData #${fetchId}] Fetching safari bookings... (filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear})`);
-
-    let query = supabase
-      .from('safari_bookings')
-      .select('id, total_price_usd, total_price_ugx, total_expenses_usd, total_expenses_ugx, vehicle_hire_cost_usd, vehicle_hire_cost_ugx, start_date, end_date, amount_paid, currency')
-      .order('start_date', { ascending: false });
-
-    // Mirror dashboard: apply date filter only for a specific month, not for "all"
-    if (dashboardMonthFilter !== 'all') {
-      const year = dashboardFilterYear;
-      const firstDay = new Date(year, 0, 1).toISOString();
-      const lastDay  = new Date(year, 11, 31, 23, 59, 59).toISOString();
-      console.log(`[DashboardData #${fetchId}] Safari bookings date filter: ${firstDay} to ${lastDay}`);
-      query = query.gte('start_date', firstDay).lte('start_date', lastDay);
-    } else {
-      console.log(`[DashboardData #${fetchId}] Safari bookings date filter: all-time`);
+// Apply a realtime change in place; undefined falls back to a full refetch
+function patchDashboardData(
+  data: DashboardData,
+  change: RowChange,
+  dashboardMonthFilter: number | 'all',
+  dashboardFilterYear: number,
+): DashboardData | undefined {
+  const inWindow = (date: string | null | undefined) =>
+    inDashboardWindow(date, dashboardMonthFilter, dashboardFilterYear);
+
+  switch (change.table) {
+    case 'vehicles': {
+      const vehicles = patchRows(data.vehicles, change, (row, existing) => {
+        const vehicle = validateRow('vehicles', row);
+        if (!vehicle) return null;
+        // The driver name comes from a join — refetch when the driver changes
+        if (vehicle.current_driver_id !== existing?.current_driver_id && vehicle.current_driver_id) {
+          return undefined;
+        }
+        return { ...vehicle, drivers: vehicle.current_driver_id ? existing?.drivers : undefined };
+      }, byAsc(v => v.license_plate));
+      return vehicles && { ...data, vehicles };
     }
 
-    const { data: safariBookings, error } = await query;
+    case 'repairs': {
+      const repairs = patchRows(data.repairs, change, (row) => {
+        const repair = validateRow('repairs', row);
+        if (!repair) return null;
+        if (repair.status !== 'open' && repair.status !== 'in_progress') return null;
+        const vehicle = data.vehicles.find(v => v.id === repair.vehicle_id);
+        if (!vehicle) return undefined;
+        return { ...repair, vehicles: { license_plate: vehicle.license_plate } };
+      }, (a, b) => byDesc<Repair>(r => r.priority)(a, b) || byDesc<Repair>(r => r.reported_at)(a, b));
+      return repairs && { ...data, repairs };
+    }
 
-    if (error) {
-      console.error(`[DashboardData #${fetchId}] ERROR fetching safari bookings:`, error.message, error.details, error.hint);
-      // Don't throw - safari_bookings table might not exist yet, just return empty array
-      console.warn(`[DashboardData #${fetchId}] Continuing without safari bookings (table may not exist)`);
-      return [] as SafariBooking[];
+    case 'bookings': {
+      const bookings = patchRows(data.bookings, change, (row) => {
+        const b = validateRow('bookings', row);
+        if (!b || !inWindow(b.start_date)) return null;
+        return withNames({
+          ...b,
+          booking_number: b.booking_reference, // Alias for backwards compatibility
+          total_cost: b.total_amount, // Alias for backwards compatibility
+        }, data.profiles, data.clients);
+      }, byDesc(b => b.start_date));
+      return bookings && { ...data, bookings };
     }
 
-    const result = (safariBookings || []) as SafariBooking[];
-    console.log(`[DashboardData #${fetchId}] Fetched ${result.length} safari bookings`);
+    case 'financial_transactions': {
+      const financialTransactions = patchRows(data.financialTransactions, change, (row) => {
+        const t = validateRow('financial_transactions', row);
+        return t && t.status !== 'cancelled' && inWindow(t.transaction_date) ? t : null;
+      }, byAsc(t => t.transaction_date));
+      return financialTransactions && { ...data, financialTransactions };
+    }
 
-    if (result.length > 0) {
-      // Log safari revenue summary
-      const totalSafariRevenue = result.reduce((sum, s) => sum + (s.total_price_usd || 0), 0);
-      const totalSafariExpenses = result.reduce((sum, s) => sum + ((s.total_expenses_usd || 0) + (s.vehicle_hire_cost_usd || 0)), 0);
-      const safariProfit = totalSafariRevenue - totalSafariExpenses;
-      console.log(`[DashboardData #${fetchId}] Safari revenue (USD): ${totalSafariRevenue}, expenses: ${totalSafariExpenses}, profit: ${safariProfit}`);
+    case 'cash_requisitions': {
+      const cashRequisitions = patchRows(data.cashRequisitions, change, (row) => {
+        if (row.soft_deleted === true) return null;
+        const cr = validateRow('cash_requisitions', row);
+        if (!cr || cr.status === 'Declined' || cr.status === 'Rejected') return null;
+        return inWindow(cr.created_at) ? cr : null;
+      }, byAsc(cr => cr.created_at));
+      return cashRequisitions && { ...data, cashRequisitions };
     }
 
-    return result;
-  }, [dashboardMonthFilter, dashboardFilterYear]);
-
-  // Fetch all data
-  const fetchAllData = useCallback(async () => {
-    // Generate unique fetch ID for this fetch cycle
-    const fetchId = ++fetchCounter;
-
-    // Check if filters changed
-    const filtersChanged =
-      lastFilterRef.current.month !== dashboardMonthFilter ||
-      lastFilterRef.current.year !== dashboardFilterYear;
-
-    console.log(`[DashboardData #${fetchId}] ========== FETCH START ==========`);
-    console.log(`[DashboardData #${fetchId}] Filter: month=${dashboardMonthFilter}, year=${dashboardFilterYear}`);
-    console.log(`[DashboardData #${fetchId}] Filters changed: ${filtersChanged}`);
-    console.log(`[DashboardData #${fetchId}] Has fetched before: ${hasFetchedRef.current}`);
-
-    // Update last filter ref
-    lastFilterRef.current = { month: dashboardMonthFilter, year: dashboardFilterYear };
-
-    try {
-      setData(prev => ({ ...prev, loading: true, error: null }));
-
-      console.log(`[DashboardData #${fetchId}] Starting parallel fetches...`);
-      const startTime = Date.now();
-
-      const [
-        vehicles,
-        bookings,
-        repairs,
-        transactions,
-        crs,
-        safariBookings,
-        profiles,
-        clients,
-      ] = await Promise.all([
-        fetchVehicles(fetchId),
-        fetchBookings(fetchId),
-        fetchRepairs(fetchId),
-        fetchTransactions(fetchId),
-        fetchCashRequisitions(fetchId),
-        fetchSafariBookings(fetchId),
-        fetchProfiles(fetchId),
-        fetchClients(fetchId),
-      ]);
-
-      const fetchDuration = Date.now() - startTime;
-      console.log(`[DashboardData #${fetchId}] All fetches completed in ${fetchDuration}ms`);
-
-      // Log summary of fetched data
-      console.log(`[DashboardData #${fetchId}] ========== FETCH SUMMARY ==========`);
-      console.log(`[DashboardData #${fetchId}] Vehicles: ${vehicles.length}`);
-      console.log(`[DashboardData #${fetchId}] Bookings: ${bookings.length}`);
-      console.log(`[DashboardData #${fetchId}] Repairs: ${repairs.length}`);
-      console.log(`[DashboardData #${fetchId}] Transactions: ${transactions.length}`);
-      console.log(`[DashboardData #${fetchId}] CRs: ${crs.length}`);
-      console.log(`[DashboardData #${fetchId}] Safari Bookings: ${safariBookings.length}`);
-      console.log(`[DashboardData #${fetchId}] Profiles: ${Object.keys(profiles).length}`);
-      console.log(`[DashboardData #${fetchId}] Clients: ${Object.keys(clients).length}`);
-
-      // CRITICAL: Check if data is empty
-      if (bookings.length === 0) {
-        console.warn(`[DashboardData #${fetchId}] WARNING: No bookings returned! Check Supabase connection and RLS policies.`);
-      }
-      if (crs.length === 0) {
-        console.warn(`[DashboardData #${fetchId}] WARNING: No CRs returned! Check Supabase connection and RLS policies.`);
-      }
-
-      // Map assigned user names to bookings
-      const bookingsWithNames = bookings.map(b => ({
-        ...b,
-        profiles: (b.assigned_to || b.assigned_user_id) && profiles[b.assigned_to || b.assigned_user_id!]
-          ? { full_name: profiles[b.assigned_to || b.assigned_user_id!] }
-          : undefined,
-        client: (b.actual_client_id && clients[b.actual_client_id]) || (b.client_id && clients[b.client_id])
-          ? { company_name: clients[b.actual_client_id || b.client_id!] }
-          : undefined,
-      }));
-
-      hasFetchedRef.current = true;
-
-      setData({
-        vehicles,
-        bookings: bookingsWithNames,
-        repairs,
-        financialTransactions: transactions,
-        cashRequisitions: crs,
-        safariBookings,
-        profiles,
-        clients,
-        loading: false,
-        error: null,
-      });
-
-      console.log(`[DashboardData #${fetchId}] ========== FETCH COMPLETE ==========`);
-    } catch (error) {
-      console.error(`[DashboardData #${fetchId}] ========== FETCH ERROR ==========`);
-      console.error(`[DashboardData #${fetchId}] Error:`, error);
-      if (error instanceof Error) {
-        console.error(`[DashboardData #${fetchId}] Error message:`, error.message);
-        console.error(`[DashboardData #${fetchId}] Error stack:`, error.stack);
-      }
-      setData(prev => ({
-        ...prev,
-        loading: false,
-        error: error as Error,
-      }));
+    case 'safari_bookings': {
+      const safariBookings = patchRows(data.safariBookings, change, (row) => {
+        const s = validateRow('safari_bookings', row);
+        return s && inWindow(s.start_date) ? s : null;
+      }, byDesc(s => s.start_date));
+      return safariBookings && { ...data, safariBookings };
     }
-  }, [
-    dashboardMonthFilter,
-    dashboardFilterYear,
-    fetchVehicles,
-    fetchBookings,
-    fetchRepairs,
-    fetchTransactions,
-    fetchCashRequisitions,
-    fetchSafariBookings,
-    fetchProfiles,
-    fetchClients,
-  ]);
 
-  // Fetch on mount and when filters change
-  useEffect(() => {
-    console.log('[DashboardData] useEffect triggered - fetching data...');
-    fetchAllData();
-  }, [fetchAllData]);
+    default:
+      return undefined;
+  }
+}
 
-  // Create a stable refetch reference that won't change between renders
-  // This prevents infinite re-render loops in useDashboardRealtimeSync
-  const refetchRef = useRef(fetchAllData);
-  refetchRef.current = fetchAllData;
+const DASHBOARD_TABLES = [
+  'bookings',
+  'vehicles',
+  'repairs',
+  'cash_requisitions',
+  'financial_transactions',
+  'safari_bookings',
+  'exchange_rates',
+] as const;
 
-  const stableRefetch = useCallback(() => {
-    console.log('[DashboardData] stableRefetch called');
-    return refetchRef.current();
-  }, []);
+export function useDashboardData({
+  dashboardMonthFilter,
+  dashboardFilterYear,
+}: UseDashboardDataProps) {
+  // Each month/year filter is its own query, so switching back is instant
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['dashboard', dashboardMonthFilter, dashboardFilterYear],
+    fetcher: () => fetchDashboardData(dashboardMonthFilter, dashboardFilterYear),
+    tables: [...DASHBOARD_TABLES],
+    persist: true,
+    patch: (current, change) => patchDashboardData(current, change, dashboardMonthFilter, dashboardFilterYear),
+  });
 
   return {
     ...data,
-    refetch: stableRefetch,
+    loading,
+    error,
+    refetch,
   };
 }
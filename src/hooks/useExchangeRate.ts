@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { devLog } from '../lib/devLog';
+import { isoDay } from '../lib/payments';
 import type { ExchangeRate, Currency } from '../types/dashboard';
 
 // Default fallback rates (only used if database fetch fails)
@@ -18,8 +19,25 @@ export interface ExchangeRates {
   KES: number;
 }
 
+/** A currency's rates per USD, oldest effective_date first */
+export type RateHistory = Record<Currency, { date: string; rate: number }[]>;
+
+const NO_HISTORY: RateHistory = { USD: [], UGX: [], KES: [] };
+
+/**
+ * Whether amounts convert at the rate on their own date or at today's rate.
+ * Historical keeps past figures fixed; today's rate compares them on one scale.
+ */
+export type RateBasis = 'historical' | 'current';
+
+export const RATE_BASIS_LABELS: Record<RateBasis, string> = {
+  historical: 'At historical rate',
+  current:    "At today's rate",
+};
+
 export function useExchangeRate() {
   const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(DEFAULT_RATES);
+  const [rateHistory, setRateHistory] = useState<RateHistory>(NO_HISTORY);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -57,23 +75,31 @@ export function useExchangeRate() {
         KES: DEFAULT_RATES.KES,
       };
 
-      // Get the most recent rate for each currency
-      // Handle different schema formats (with or without from_currency column)
-      const latestRates = new Map<string, number>();
+      // Every rate by the day it took effect, so amounts can be converted at
+      // the rate on their own date. Handle different schema formats (with or
+      // without from_currency column); rows without effective_date count from
+      // the day they were entered
+      const history: RateHistory = { USD: [], UGX: [], KES: [] };
+      // Newest first, so on a day with several rates the last entered wins
       data.forEach((rate: any) => {
-        // Handle schema with from_currency/to_currency columns
-        if (rate.from_currency === 'USD' && rate.to_currency) {
-          if (!latestRates.has(rate.to_currency)) {
-            latestRates.set(rate.to_currency, rate.rate);
-          }
-        }
-        // Handle schema with just currency and rate columns
-        else if (rate.currency && rate.rate) {
-          if (!latestRates.has(rate.currency)) {
-            latestRates.set(rate.currency, rate.rate);
-          }
-        }
+        const currency: string | undefined =
+          rate.from_currency === 'USD' && rate.to_currency ? rate.to_currency
+          : rate.currency && rate.rate ? rate.currency
+          : undefined;
+        const value = Number(rate.rate);
+        const date = String(rate.effective_date || rate.created_at || '').slice(0, 10);
+        if (currency !== 'UGX' && currency !== 'KES') return;
+        if (!value || !date || history[currency].some((h) => h.date === date)) return;
+        history[currency].push({ date, rate: value });
       });
+      (Object.keys(history) as Currency[]).forEach((c) => history[c].sort((a, b) => a.date.localeCompare(b.date)));
+      setRateHistory(history);
+
+      // Today's rate is the one in effect today, not necessarily the last entered
+      const todays = ratesOn(history, isoDay(), DEFAULT_RATES);
+      const latestRates = new Map<string, number>(
+        (['UGX', 'KES'] as const).filter((c) => history[c].length > 0).map((c) => [c, todays[c]])
+      );
 
       // Apply fetched rates
       if (latestRates.has('UGX')) {
@@ -139,12 +165,50 @@ export function useExchangeRate() {
   return {
     currentRate: exchangeRates.UGX, // For backward compatibility
     exchangeRates,
+    rateHistory,
     loading,
     error,
     refresh: fetchExchangeRate,
   };
 }
 
+/**
+ * Rates per USD in effect on a day: for each currency the nearest prior rate,
+ * or its earliest known rate for days before any was entered. Currencies with
+ * no history use `fallback`. Keep in step with usd_rate_on in the
+ * historical_exchange_rates migration.
+ */
+export function ratesOn(history: RateHistory, date: string, fallback: Record<Currency, number>): Record<Currency, number> {
+  const day = date.slice(0, 10);
+  const rateFor = (currency: Currency): number => {
+    const rates = history[currency];
+    if (rates.length === 0) return fallback[currency];
+    let found = rates[0].rate;
+    for (const r of rates) {
+      if (r.date > day) break;
+      found = r.rate;
+    }
+    return found;
+  };
+  return { USD: 1, UGX: rateFor('UGX'), KES: rateFor('KES') };
+}
+
+/**
+ * Convert an amount to base currency (USD) at the rate on its date; amounts
+ * without a date use `fallback` (today's rates)
+ */
+export function convertToBaseCurrencyOn(
+  amount: number,
+  fromCurrency: Currency,
+  date: string | null | undefined,
+  history: RateHistory,
+  fallback: Record<Currency, number>
+): number {
+  if (fromCurrency === 'USD') return amount;
+  const rates = date ? ratesOn(history, date, fallback) : fallback;
+  return amount / rates[fromCurrency];
+}
+
 /**
  * Get conversion rates object for all currencies
  * Now fully dynamic - uses rates fetched from database
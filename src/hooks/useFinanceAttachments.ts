@@ -0,0 +1,55 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { FinanceAttachmentRow } from '../../sdk/schema/tables';
+
+/**
+ * Receipts and documents on every requisition and transaction; screens pick
+ * out one owner's with the helpers in lib/financeAttachments
+ */
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: FinanceAttachmentRow[] = [];
+
+const byCreated = byDesc<FinanceAttachmentRow>((a) => a.created_at);
+
+async function fetchFinanceAttachments(): Promise<FinanceAttachmentRow[]> {
+  console.log('[FinanceAttachments] Fetching attachments...');
+
+  const { data, error } = await supabase
+    .from('finance_attachments')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[FinanceAttachments] ERROR fetching attachments:', error.message);
+    throw error;
+  }
+
+  return validateRows('finance_attachments', data);
+}
+
+function patchFinanceAttachments(attachments: FinanceAttachmentRow[], change: RowChange): FinanceAttachmentRow[] | undefined {
+  if (change.table !== 'finance_attachments') return attachments;
+
+  return patchRows(attachments, change, (row) => validateRow('finance_attachments', row), byCreated);
+}
+
+export function useFinanceAttachments() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['finance-attachments'],
+    fetcher: fetchFinanceAttachments,
+    tables: ['finance_attachments'],
+    persist: true,
+    patch: patchFinanceAttachments,
+  });
+
+  return {
+    attachments: data,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -1,6 +1,19 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
+import { useQuery } from './useQuery';
 import { supabase } from '../lib/supabase';
 import { normalizeCashRequisition } from '../lib/cashRequisition';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import {
+  useExchangeRate,
+  getConversionRates,
+  convertToBaseCurrency,
+  convertToBaseCurrencyOn,
+  convertFromBaseCurrency,
+  type RateBasis,
+} from './useExchangeRate';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { BookingRow, SafariBookingRow } from '../../sdk/schema/tables';
 import type { FinancialTransaction, CashRequisition, Currency } from '../types/dashboard';
 
 // ─── Unified Revenue Item ─────────────────────────────────────────────────────
@@ -30,196 +43,224 @@ export interface ExpenseItem {
   reference?: string;
 }
 
-interface FinanceDataState {
+/**
+ * Converts an amount into the display currency, at the rate on `date` by
+ * default or at today's rate with the 'current' basis
+ */
+export type AmountConverter = (amount: number, fromCurrency: Currency, date?: string | null, basis?: RateBasis) => number;
+
+interface FinanceData {
   transactions: FinancialTransaction[];
   cashRequisitions: CashRequisition[];
-  loading: boolean;
-  error: Error | null;
+  // Booking rows feeding the revenue list
+  bookings: BookingRow[];
+  safariBookings: SafariBookingRow[];
 }
 
 interface UseFinanceDataProps {
   currency?: Currency;
 }
 
-// Normalise transaction_type from DB — DB may store 'revenue', 'Revenue', 'booking', etc.
-function normalizeTransactionType(raw: string | null | undefined): 'income' | 'expense' {
-  if (!raw) return 'expense';
-  const lower = raw.toLowerCase().trim();
-  if (lower === 'income' || lower === 'revenue' || lower === 'booking' || lower === 'inflow') {
-    return 'income';
-  }
-  return 'expense';
+// Stable empties so dependents don't re-run on every render before data arrives
+const EMPTY: FinanceData = { transactions: [], cashRequisitions: [], bookings: [], safariBookings: [] };
+
+// ─── Fetchers ─────────────────────────────────────────────────────────────────
+
+async function fetchTransactions() {
+  console.log(`[FinanceData] Fetching transactions...`);
+  const { data: rows, error } = await supabase
+    .from('financial_transactions')
+    .select('id, transaction_date, amount, transaction_type, category, currency, description, reference_number, status')
+    .neq('status', 'cancelled')
+    .order('transaction_date', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+
+  // Validation also normalises transaction_type ('revenue', 'booking', ... → 'income')
+  const result: FinancialTransaction[] = validateRows('financial_transactions', rows);
+
+  const typeBreakdown = result.reduce((acc, t) => {
+    acc[t.transaction_type] = (acc[t.transaction_type] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  console.log(`[FinanceData] Transactions:`, typeBreakdown);
+
+  return result;
 }
 
-let fetchCounter = 0;
+async function fetchCashRequisitions() {
+  console.log(`[FinanceData] Fetching cash requisitions...`);
+  const { data: crs, error } = await supabase
+    .from('cash_requisitions')
+    .select('*')
+    .eq('soft_deleted', false)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) throw error;
+
+  const records = (crs || []) as Record<string, unknown>[];
+  const approverIds = Array.from(new Set(
+    records
+      .map((record) => record.approver_id)
+      .filter((id): id is string => typeof id === 'string' && id.length > 0)
+  ));
+
+  let approverMap: Record<string, { full_name: string | null; email: string | null }> = {};
+  if (approverIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', approverIds);
+
+    if (profilesError) {
+      console.warn(`[FinanceData] Could not hydrate CR approvers:`, profilesError.message);
+    } else {
+      approverMap = (profiles || []).reduce((acc, profile: any) => {
+        acc[profile.id] = {
+          full_name: typeof profile.full_name === 'string' ? profile.full_name : null,
+          email:     typeof profile.email === 'string' ? profile.email : null,
+        };
+        return acc;
+      }, {} as Record<string, { full_name: string | null; email: string | null }>);
+    }
+  }
 
-export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
-  const [data, setData] = useState<FinanceDataState>({
-    transactions: [],
-    cashRequisitions: [],
-    loading: true,
-    error: null,
+  return records.flatMap((record) => {
+    const approverId = typeof record.approver_id === 'string' ? record.approver_id : null;
+    const cr = normalizeCashRequisition({
+      ...record,
+      approver: approverId ? approverMap[approverId] ?? null : null,
+    });
+    return cr ? [cr] : [];
   });
+}
 
-  // Raw booking data from DB
-  const [rawBookings,       setRawBookings]       = useState<Record<string, unknown>[]>([]);
-  const [rawSafariBookings, setRawSafariBookings] = useState<Record<string, unknown>[]>([]);
-
-  const hasFetchedRef = useRef(false);
-
-  // ── Fetchers ──────────────────────────────────────────────────────────────
-
-  const fetchTransactions = useCallback(async (fetchId: number) => {
-    console.log(`[FinanceData #${fetchId}] Fetching transactions...`);
-    const { data: rows, error } = await supabase
-      .from('financial_transactions')
-      .select('id, transaction_date, amount, transaction_type, category, currency, description, reference_number, status')
-      .neq('status', 'cancelled')
-      .order('transaction_date', { ascending: false })
-      .limit(100);
-
-    if (error) throw error;
-
-    // Normalise transaction_type so income entries are always classified correctly
-    const result = (rows || []).map((t) => ({
-      ...t,
-      transaction_type: normalizeTransactionType(t.transaction_type as string),
-    })) as FinancialTransaction[];
-
-    const typeBreakdown = result.reduce((acc, t) => {
-      acc[t.transaction_type] = (acc[t.transaction_type] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    console.log(`[FinanceData #${fetchId}] Transactions:`, typeBreakdown);
-
-    return result;
-  }, []);
-
-  const fetchCashRequisitions = useCallback(async (fetchId: number) => {
-    console.log(`[FinanceData #${fetchId}] Fetching cash requisitions...`);
-    const { data: crs, error } = await supabase
-      .from('cash_requisitions')
-      .select('*')
-      .eq('soft_deleted', false)
-      .order('created_at', { ascending: false })
-      .limit(200);
-
-    if (error) throw error;
-
-    const records = (crs || []) as Record<string, unknown>[];
-    const approverIds = Array.from(new Set(
-      records
-        .map((record) => record.approver_id)
-        .filter((id): id is string => typeof id === 'string' && id.length > 0)
-    ));
-
-    let approverMap: Record<string, { full_name: string | null; email: string | null }> = {};
-    if (approverIds.length > 0) {
-      const { data: profiles, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, full_name, email')
-        .in('id', approverIds);
-
-      if (profilesError) {
-        console.warn(`[FinanceData #${fetchId}] Could not hydrate CR approvers:`, profilesError.message);
-      } else {
-        approverMap = (profiles || []).reduce((acc, profile: any) => {
-          acc[profile.id] = {
-            full_name: typeof profile.full_name === 'string' ? profile.full_name : null,
-            email:     typeof profile.email === 'string' ? profile.email : null,
-          };
-          return acc;
-        }, {} as Record<string, { full_name: string | null; email: string | null }>);
-      }
-    }
+async function fetchBookings() {
+  console.log(`[FinanceData] Fetching bookings (revenue)...`);
+  const { data: rows, error } = await supabase
+    .from('bookings')
+    .select('id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, client_name, created_at')
+    .not('status', 'in', '(Cancelled,cancelled)')
+    .order('start_date', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.warn(`[FinanceData] Could not fetch bookings:`, error.message);
+    return [];
+  }
+  console.log(`[FinanceData] Fetched ${(rows || []).length} bookings`);
+  return validateRows('bookings', rows);
+}
 
-    return records.map((record) => {
-      const approverId = typeof record.approver_id === 'string' ? record.approver_id : null;
-      return normalizeCashRequisition({
-        ...record,
-        approver: approverId ? approverMap[approverId] ?? null : null,
-      });
-    }) as CashRequisition[];
-  }, []);
-
-  const fetchBookings = useCallback(async (fetchId: number) => {
-    console.log(`[FinanceData #${fetchId}] Fetching bookings (revenue)...`);
-    const { data: rows, error } = await supabase
-      .from('bookings')
-      .select('id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, client_name, created_at')
-      .not('status', 'in', '(Cancelled,cancelled)')
-      .order('start_date', { ascending: false })
-      .limit(100);
-
-    if (error) {
-      console.warn(`[FinanceData #${fetchId}] Could not fetch bookings:`, error.message);
-      return [];
-    }
-    console.log(`[FinanceData #${fetchId}] Fetched ${(rows || []).length} bookings`);
-    return (rows || []) as Record<string, unknown>[];
-  }, []);
-
-  const fetchSafariBookings = useCallback(async (fetchId: number) => {
-    console.log(`[FinanceData #${fetchId}] Fetching safari bookings (revenue)...`);
-    const { data: rows, error } = await supabase
-      .from('safari_bookings')
-      .select('id, total_price_usd, total_price_ugx, start_date, end_date, amount_paid, currency, status')
-      .order('start_date', { ascending: false })
-      .limit(100);
-
-    if (error) {
-      console.warn(`[FinanceData #${fetchId}] Could not fetch safari bookings:`, error.message);
-      return [];
-    }
-    console.log(`[FinanceData #${fetchId}] Fetched ${(rows || []).length} safari bookings`);
-    return (rows || []) as Record<string, unknown>[];
-  }, []);
+async function fetchSafariBookings() {
+  console.log(`[FinanceData] Fetching safari bookings (revenue)...`);
+  const { data: rows, error } = await supabase
+    .from('safari_bookings')
+    .select('id, total_price_usd, total_price_ugx, start_date, end_date, amount_paid, currency, status')
+    .order('start_date', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.warn(`[FinanceData] Could not fetch safari bookings:`, error.message);
+    return [];
+  }
+  console.log(`[FinanceData] Fetched ${(rows || []).length} safari bookings`);
+  return validateRows('safari_bookings', rows);
+}
 
-  // ── Fetch All ─────────────────────────────────────────────────────────────
+// ─── Fetch All ────────────────────────────────────────────────────────────────
 
-  const fetchAllData = useCallback(async () => {
-    const fetchId = ++fetchCounter;
-    console.log(`[FinanceData #${fetchId}] ===== FETCH START =====`);
+async function fetchFinanceData(): Promise<FinanceData> {
+  console.log('[FinanceData] ===== FETCH START =====');
 
-    try {
-      setData(prev => ({ ...prev, loading: true, error: null }));
+  const [transactions, cashRequisitions, bookings, safariBookings] = await Promise.all([
+    fetchTransactions(),
+    fetchCashRequisitions(),
+    fetchBookings(),
+    fetchSafariBookings(),
+  ]);
 
-      const [transactions, cashRequisitions, bookings, safariBookings] = await Promise.all([
-        fetchTransactions(fetchId),
-        fetchCashRequisitions(fetchId),
-        fetchBookings(fetchId),
-        fetchSafariBookings(fetchId),
-      ]);
+  console.log('[FinanceData] ===== FETCH COMPLETE =====');
+  return { transactions, cashRequisitions, bookings, safariBookings };
+}
+
+// ─── Realtime Patching ────────────────────────────────────────────────────────
+// Mirrors the fetchers' filters; undefined falls back to a full refetch
+
+function patchFinanceData(data: FinanceData, change: RowChange): FinanceData | undefined {
+  switch (change.table) {
+    case 'financial_transactions': {
+      const transactions = patchRows(data.transactions, change, (row) => {
+        const t = validateRow('financial_transactions', row);
+        return t && t.status !== 'cancelled' ? t : null;
+      }, byDesc(t => t.transaction_date));
+      return transactions && { ...data, transactions };
+    }
 
-      hasFetchedRef.current = true;
+    case 'cash_requisitions': {
+      const cashRequisitions = patchRows(data.cashRequisitions, change, (row, existing) => {
+        if (row.soft_deleted === true) return null;
+        const approverId = typeof row.approver_id === 'string' ? row.approver_id : null;
+        // The approver comes from a profiles lookup — refetch when it changes
+        if (approverId && approverId !== existing?.approver_id) return undefined;
+        return normalizeCashRequisition({
+          ...row,
+          approver: approverId ? existing?.approver ?? null : null,
+        });
+      }, byDesc(cr => cr.created_at));
+      return cashRequisitions && { ...data, cashRequisitions };
+    }
 
-      setData({ transactions, cashRequisitions, loading: false, error: null });
-      setRawBookings(bookings);
-      setRawSafariBookings(safariBookings);
+    case 'bookings': {
+      const bookings = patchRows(data.bookings, change, (row) => {
+        const b = validateRow('bookings', row);
+        return b && b.status.toLowerCase() !== 'cancelled' ? b : null;
+      }, byDesc(b => b.start_date));
+      return bookings && { ...data, bookings };
+    }
 
-      console.log(`[FinanceData #${fetchId}] ===== FETCH COMPLETE =====`);
-    } catch (error) {
-      console.error(`[FinanceData #${fetchId}] FETCH ERROR:`, error);
-      setData(prev => ({ ...prev, loading: false, error: error as Error }));
+    case 'safari_bookings': {
+      const safariBookings = patchRows(data.safariBookings, change, (row) => validateRow('safari_bookings', row),
+        byDesc(s => s.start_date));
+      return safariBookings && { ...data, safariBookings };
     }
-  }, [fetchTransactions, fetchCashRequisitions, fetchBookings, fetchSafariBookings]);
 
-  useEffect(() => {
-    fetchAllData();
-  }, [fetchAllData]);
+    default:
+      return undefined;
+  }
+}
+
+export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['finance'],
+    fetcher: fetchFinanceData,
+    tables: ['financial_transactions', 'cash_requisitions', 'exchange_rates', 'bookings', 'safari_bookings'],
+    persist: true,
+    patch: patchFinanceData,
+  });
 
-  const refetchRef = useRef(fetchAllData);
-  refetchRef.current = fetchAllData;
-  const stableRefetch = useCallback(() => refetchRef.current(), []);
+  const {
+    transactions,
+    cashRequisitions,
+    bookings:       rawBookings,
+    safariBookings: rawSafariBookings,
+  } = data;
 
   // ── Currency conversion ───────────────────────────────────────────────────
+  // Into USD at the rate on the item's date, then into the display currency
+  // at today's rate
+
+  const { exchangeRates, rateHistory } = useExchangeRate();
 
-  const convertAmount = useCallback((amount: number, fromCurrency: string): number => {
-    const rates: Record<string, number> = { USD: 1, UGX: 3700, KES: 130 };
-    const fromRate = rates[fromCurrency] || 1;
-    const toRate   = rates[currency] || 1;
-    return (amount / fromRate) * toRate;
-  }, [currency]);
+  const convertAmount = useCallback<AmountConverter>((amount, fromCurrency, date, basis = 'historical') => {
+    const rates = getConversionRates(exchangeRates);
+    const usd = basis === 'current'
+      ? convertToBaseCurrency(amount, fromCurrency, rates)
+      : convertToBaseCurrencyOn(amount, fromCurrency, date, rateHistory, rates);
+    return convertFromBaseCurrency(usd, currency, rates);
+  }, [exchangeRates, rateHistory, currency]);
 
   // ── Unified Revenue Items ─────────────────────────────────────────────────
   // Sources: bookings (Reservations) + safari_bookings + income financial_transactions
@@ -229,12 +270,12 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
 
     // 1. Vehicle Bookings / Reservations
     rawBookings.forEach((b) => {
-      const amount = Number(b.total_amount ?? b.amount_paid ?? 0);
-      const cur    = (b.currency as Currency) || 'USD';
-      const ref    = (b.booking_reference as string) || (b.id as string).slice(0, 8).toUpperCase();
-      const date   = (b.start_date as string) || (b.created_at as string) || '';
-      const client = (b.client_name as string) || '';
-      const status = (b.status as string) || 'Confirmed';
+      const amount = b.total_amount || b.amount_paid;
+      const cur    = b.currency;
+      const ref    = b.booking_reference || b.id.slice(0, 8).toUpperCase();
+      const date   = b.start_date || b.created_at || '';
+      const client = b.client_name || '';
+      const status = b.status;
 
       items.push({
         id:        `booking-${b.id}`,
@@ -251,12 +292,12 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
 
     // 2. Safari Bookings
     rawSafariBookings.forEach((s) => {
-      const amountUSD = Number(s.total_price_usd ?? 0);
-      const amountUGX = Number(s.total_price_ugx ?? 0);
-      const cur       = (s.currency as Currency) || 'USD';
+      const amountUSD = s.total_price_usd;
+      const amountUGX = s.total_price_ugx;
+      const cur       = s.currency || 'USD';
       const amount    = cur === 'UGX' && amountUGX > 0 ? amountUGX : amountUSD;
-      const date      = (s.start_date as string) || '';
-      const status    = (s.status as string) || 'Active';
+      const date      = s.start_date;
+      const status    = s.status;
 
       items.push({
         id:       `safari-${s.id}`,
@@ -271,7 +312,7 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
     });
 
     // 3. Income entries from financial_transactions
-    data.transactions
+    transactions
       .filter(t => t.transaction_type === 'income')
       .forEach((t) => {
         items.push({
@@ -289,7 +330,7 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
 
     // Sort newest first
     return items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [rawBookings, rawSafariBookings, data.transactions]);
+  }, [rawBookings, rawSafariBookings, transactions]);
 
   // ── Unified Expense Items ─────────────────────────────────────────────────
   // Sources: cash_requisitions + expense financial_transactions
@@ -298,7 +339,7 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
     const items: ExpenseItem[] = [];
 
     // 1. Cash Requisitions — exclude Declined/Rejected from Expenses tab (not real outflows)
-    data.cashRequisitions
+    cashRequisitions
     .filter(cr => cr.status !== 'Declined' && cr.status !== 'Rejected' && cr.status !== 'Cancelled')
     .forEach((cr) => {
       items.push({
@@ -315,7 +356,7 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
     });
 
     // 2. Expense entries from financial_transactions
-    data.transactions
+    transactions
       .filter(t => t.transaction_type === 'expense')
       .forEach((t) => {
         items.push({
@@ -332,7 +373,7 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
       });
 
     return items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [data.cashRequisitions, data.transactions]);
+  }, [cashRequisitions, transactions]);
 
   // ── Financial Summary ─────────────────────────────────────────────────────
 
@@ -350,9 +391,9 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
     };
 
     const sumRevenue = (items: RevenueItem[]) =>
-      items.reduce((sum, i) => sum + convertAmount(i.amount, i.currency), 0);
+      items.reduce((sum, i) => sum + convertAmount(i.amount, i.currency, i.date), 0);
     const sumExpense = (items: ExpenseItem[]) =>
-      items.reduce((sum, i) => sum + convertAmount(i.amount, i.currency), 0);
+      items.reduce((sum, i) => sum + convertAmount(i.amount, i.currency, i.date), 0);
 
     const revenueMTD   = sumRevenue(revenueItems.filter(i => isThisMonth(i.date)));
     const revenueYTD   = sumRevenue(revenueItems.filter(i => isThisYear(i.date)));
@@ -361,8 +402,8 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
     const netProfitMTD = revenueMTD - expensesMTD;
     const netProfitYTD = revenueYTD - expensesYTD;
 
-    const pendingCRs   = data.cashRequisitions.filter(cr => cr.status === 'Pending' || cr.status === 'Approved');
-    const completedCRs = data.cashRequisitions.filter(cr => cr.status === 'Completed' || cr.status === 'Resolved');
+    const pendingCRs   = cashRequisitions.filter(cr => cr.status === 'Pending' || cr.status === 'Approved');
+    const completedCRs = cashRequisitions.filter(cr => cr.status === 'Completed' || cr.status === 'Resolved');
 
     return {
       revenueMTD,
@@ -378,13 +419,17 @@ export function useFinanceData({ currency = 'USD' }: UseFinanceDataProps = {}) {
       pendingCRCount:   pendingCRs.length,
       completedCRCount: completedCRs.length,
     };
-  }, [revenueItems, expenseItems, data.cashRequisitions, convertAmount]);
+  }, [revenueItems, expenseItems, cashRequisitions, convertAmount]);
 
   return {
-    ...data,
+    transactions,
+    cashRequisitions,
+    loading,
+    error,
     revenueItems,
     expenseItems,
     ...financialSummary,
-    refetch: stableRefetch,
+    convertAmount,
+    refetch,
   };
 }
@@ -1,146 +1,145 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQuery } from './useQuery';
 import { supabase } from '../lib/supabase';
+import { patchRows, byAsc, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow } from '../../sdk/schema/validators';
 import type { Vehicle, Repair } from '../types/dashboard';
 
-interface FleetDataState {
+interface FleetData {
   vehicles: Vehicle[];
   repairs: Repair[];
-  loading: boolean;
-  error: Error | null;
 }
 
-// Generate a unique fetch ID for debugging
-let fetchCounter = 0;
-
-export function useFleetData() {
-  const [data, setData] = useState<FleetDataState>({
-    vehicles: [],
-    repairs: [],
-    loading: true,
-    error: null,
+// Stable empties so dependents don't re-run on every render before data arrives
+const NO_VEHICLES: Vehicle[] = [];
+const NO_REPAIRS: Repair[] = [];
+
+// Fetch Vehicles
+async function fetchVehicles(): Promise<Vehicle[]> {
+  console.log(`[FleetData] Fetching vehicles...`);
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, license_plate, make, model, capacity, status, rating, current_driver_id, year, odometer, daily_rate_usd, daily_rate_ugx, fuel_type, color, insurance_expiry, last_service_date, next_service_date, drivers(full_name)')
+    .order('license_plate', { ascending: true });
+
+  if (error) {
+    console.error(`[FleetData] ERROR fetching vehicles:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const result: Vehicle[] = (vehicles || []).flatMap(v => {
+    const row = validateRow('vehicles', v);
+    if (!row) return [];
+    return [{
+      ...row,
+      drivers: v.drivers && Array.isArray(v.drivers) && v.drivers.length > 0
+        ? { full_name: v.drivers[0].full_name }
+        : undefined,
+    }];
   });
 
-  // Track if initial fetch has been done
-  const hasFetchedRef = useRef(false);
-
-  // Fetch Vehicles
-  const fetchVehicles = useCallback(async (fetchId: number) => {
-    console.log(`[FleetData #${fetchId}] Fetching vehicles...`);
-    const { data: vehicles, error } = await supabase
-      .from('vehicles')
-      .select('id, license_plate, make, model, capacity, status, rating, current_driver_id, year, odometer, daily_rate_usd, daily_rate_ugx, fuel_type, color, insurance_expiry, last_service_date, next_service_date, drivers(full_name)')
-      .order('license_plate', { ascending: true });
+  console.log(`[FleetData] Fetched ${result.length} vehicles`);
+  if (result.length > 0) {
+    console.log(`[FleetData] Vehicle statuses:`, result.map(v => v.status).reduce((acc, s) => {
+      acc[s] = (acc[s] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>));
+  }
 
-    if (error) {
-      console.error(`[FleetData #${fetchId}] ERROR fetching vehicles:`, error.message, error.details, error.hint);
-      throw error;
-    }
+  return result;
+}
 
-    const result = (vehicles || []).map(v => ({
-      ...v,
-      drivers: v.drivers && Array.isArray(v.drivers) && v.drivers.length > 0
-        ? { full_name: v.drivers[0].full_name }
-        : undefined,
-    })) as Vehicle[];
-
-    console.log(`[FleetData #${fetchId}] Fetched ${result.length} vehicles`);
-    if (result.length > 0) {
-      console.log(`[FleetData #${fetchId}] Vehicle statuses:`, result.map(v => v.status).reduce((acc, s) => {
-        acc[s] = (acc[s] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>));
-    }
-
-    return result;
-  }, []);
-
-  // Fetch Repairs (active only)
-  const fetchRepairs = useCallback(async (fetchId: number) => {
-    console.log(`[FleetData #${fetchId}] Fetching repairs...`);
-    const { data: repairs, error } = await supabase
-      .from('repairs')
-      .select('id, vehicle_id, description, status, priority, reported_at, estimated_cost, vehicles(license_plate)')
-      .in('status', ['open', 'in_progress'])
-      .order('priority', { ascending: false })
-      .order('reported_at', { ascending: false });
-
-    if (error) {
-      console.error(`[FleetData #${fetchId}] ERROR fetching repairs:`, error.message, error.details, error.hint);
-      throw error;
-    }
-
-    const result = (repairs || []).map(r => ({
-      ...r,
+// Fetch Repairs (active only)
+async function fetchRepairs(): Promise<Repair[]> {
+  console.log(`[FleetData] Fetching repairs...`);
+  const { data: repairs, error } = await supabase
+    .from('repairs')
+    .select('id, vehicle_id, description, status, priority, reported_at, estimated_cost, service_plan_id, vehicles(license_plate)')
+    .in('status', ['open', 'in_progress'])
+    .order('priority', { ascending: false })
+    .order('reported_at', { ascending: false });
+
+  if (error) {
+    console.error(`[FleetData] ERROR fetching repairs:`, error.message, error.details, error.hint);
+    throw error;
+  }
+
+  const result: Repair[] = (repairs || []).flatMap(r => {
+    const row = validateRow('repairs', r);
+    if (!row) return [];
+    return [{
+      ...row,
       vehicles: r.vehicles && Array.isArray(r.vehicles) && r.vehicles.length > 0
         ? { license_plate: r.vehicles[0].license_plate }
         : undefined,
-    })) as Repair[];
-    console.log(`[FleetData #${fetchId}] Fetched ${result.length} active repairs`);
-    return result;
-  }, []);
-
-  // Fetch all data
-  const fetchAllData = useCallback(async () => {
-    const fetchId = ++fetchCounter;
-
-    console.log(`[FleetData #${fetchId}] ========== FETCH START ==========`);
-
-    try {
-      setData(prev => ({ ...prev, loading: true, error: null }));
-
-      console.log(`[FleetData #${fetchId}] Starting parallel fetches...`);
-      const startTime = Date.now();
-
-      const [vehicles, repairs] = await Promise.all([
-        fetchVehicles(fetchId),
-        fetchRepairs(fetchId),
-      ]);
-
-      const fetchDuration = Date.now() - startTime;
-      console.log(`[FleetData #${fetchId}] All fetches completed in ${fetchDuration}ms`);
-
-      console.log(`[FleetData #${fetchId}] ========== FETCH SUMMARY ==========`);
-      console.log(`[FleetData #${fetchId}] Vehicles: ${vehicles.length}`);
-      console.log(`[FleetData #${fetchId}] Repairs: ${repairs.length}`);
-
-      hasFetchedRef.current = true;
-
-      setData({
-        vehicles,
-        repairs,
-        loading: false,
-        error: null,
-      });
-
-      console.log(`[FleetData #${fetchId}] ========== FETCH COMPLETE ==========`);
-    } catch (error) {
-      console.error(`[FleetData #${fetchId}] ========== FETCH ERROR ==========`);
-      console.error(`[FleetData #${fetchId}] Error:`, error);
-      setData(prev => ({
-        ...prev,
-        loading: false,
-        error: error as Error,
-      }));
-    }
-  }, [fetchVehicles, fetchRepairs]);
-
-  // Fetch on mount
-  useEffect(() => {
-    console.log('[FleetData] useEffect triggered - fetching data...');
-    fetchAllData();
-  }, [fetchAllData]);
-
-  // Create a stable refetch reference
-  const refetchRef = useRef(fetchAllData);
-  refetchRef.current = fetchAllData;
-
-  const stableRefetch = useCallback(() => {
-    console.log('[FleetData] stableRefetch called');
-    return refetchRef.current();
-  }, []);
+    }];
+  });
+  console.log(`[FleetData] Fetched ${result.length} active repairs`);
+  return result;
+}
+
+// Fetch all data
+async function fetchFleetData(): Promise<FleetData> {
+  console.log('[FleetData] ========== FETCH START ==========');
+  const startTime = Date.now();
+
+  const [vehicles, repairs] = await Promise.all([
+    fetchVehicles(),
+    fetchRepairs(),
+  ]);
+
+  console.log(`[FleetData] All fetches completed in ${Date.now() - startTime}ms`);
+  console.log(`[FleetData] Vehicles: ${vehicles.length}, Repairs: ${repairs.length}`);
+
+  return { vehicles, repairs };
+}
+
+// Apply a realtime change in place; undefined falls back to a full refetch
+function patchFleetData(data: FleetData, change: RowChange): FleetData | undefined {
+  if (change.table === 'vehicles') {
+    const vehicles = patchRows(data.vehicles, change, (row, existing) => {
+      const vehicle = validateRow('vehicles', row);
+      if (!vehicle) return null;
+      // The driver name comes from a join — refetch when the driver changes
+      if (vehicle.current_driver_id !== existing?.current_driver_id && vehicle.current_driver_id) {
+        return undefined;
+      }
+      return { ...vehicle, drivers: vehicle.current_driver_id ? existing?.drivers : undefined };
+    }, byAsc(v => v.license_plate));
+    return vehicles && { ...data, vehicles };
+  }
+
+  if (change.table === 'repairs') {
+    const repairs = patchRows(data.repairs, change, (row) => {
+      const repair = validateRow('repairs', row);
+      if (!repair) return null;
+      // Only active repairs are listed
+      if (repair.status !== 'open' && repair.status !== 'in_progress') return null;
+      const vehicle = data.vehicles.find(v => v.id === repair.vehicle_id);
+      if (!vehicle) return undefined;
+      return { ...repair, vehicles: { license_plate: vehicle.license_plate } };
+    }, (a, b) => byDesc<Repair>(r => r.priority)(a, b) || byDesc<Repair>(r => r.reported_at)(a, b));
+    return repairs && { ...data, repairs };
+  }
+
+  return undefined;
+}
+
+// Shared by Fleet and Bookings (vehicle picker) — one request serves both
+export function useFleetData() {
+  const { data, loading, error, refetch } = useQuery({
+    key: ['fleet'],
+    fetcher: fetchFleetData,
+    tables: ['vehicles', 'repairs', 'drivers'],
+    persist: true,
+    patch: patchFleetData,
+  });
 
   return {
-    ...data,
-    refetch: stableRefetch,
+    vehicles: data?.vehicles ?? NO_VEHICLES,
+    repairs: data?.repairs ?? NO_REPAIRS,
+    loading,
+    error,
+    refetch,
   };
 }
@@ -0,0 +1,152 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows } from '../lib/rowPatch';
+import { rangesOverlap } from '../lib/vehicleAvailability';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { BookingRow, SafariBookingRow } from '../../sdk/schema/tables';
+
+/**
+ * Vehicle bookings and safari bookings with a vehicle, for the fleet
+ * timeline. Open repairs come from useFleetData.
+ */
+
+export interface ScheduleItem {
+  id: string;
+  kind: 'booking' | 'safari';
+  vehicleId: string;
+  start: string; // YYYY-MM-DD
+  end: string;   // YYYY-MM-DD, inclusive
+  reference: string;
+  label: string;
+  status: string;
+}
+
+interface FleetSchedule {
+  items: ScheduleItem[];
+}
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: FleetSchedule = { items: [] };
+
+function fromBooking(b: BookingRow, from: string, to: string): ScheduleItem | null {
+  if (!b.assigned_vehicle_id || b.status === 'Cancelled') return null;
+  const end = b.end_date || b.start_date;
+  if (!rangesOverlap(b.start_date, end, from, to)) return null;
+  return {
+    id:        b.id,
+    kind:      'booking',
+    vehicleId: b.assigned_vehicle_id,
+    start:     b.start_date.slice(0, 10),
+    end:       end.slice(0, 10),
+    reference: b.booking_reference || b.id.slice(0, 8).toUpperCase(),
+    label:     b.client_name || b.booking_reference || 'Booking',
+    status:    b.status,
+  };
+}
+
+// safari_bookings stores the vehicle as assigned_vehicle_id and the client as
+// client_name; the validator keeps both as they are
+type SafariScheduleRow = SafariBookingRow & { assigned_vehicle_id?: string | null; client_name?: string | null };
+
+const validateSafari = (row: unknown) => validateRow('safari_bookings', row) as SafariScheduleRow | null;
+
+function fromSafari(s: SafariScheduleRow, from: string, to: string): ScheduleItem | null {
+  if (!s.assigned_vehicle_id || s.status === 'cancelled') return null;
+  const end = s.end_date || s.start_date;
+  if (!rangesOverlap(s.start_date, end, from, to)) return null;
+  return {
+    id:        s.id,
+    kind:      'safari',
+    vehicleId: s.assigned_vehicle_id,
+    start:     s.start_date.slice(0, 10),
+    end:       end.slice(0, 10),
+    reference: s.booking_reference || s.id.slice(0, 8).toUpperCase(),
+    label:     s.client_name || s.booking_reference || 'Safari',
+    status:    s.status,
+  };
+}
+
+const byStart = (a: ScheduleItem, b: ScheduleItem) => a.start.localeCompare(b.start);
+
+async function fetchFleetSchedule(from: string, to: string): Promise<FleetSchedule> {
+  console.log(`[FleetSchedule] Fetching ${from} → ${to}...`);
+
+  const [bookings, safaris] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select('id, booking_reference, start_date, end_date, status, assigned_vehicle_id, client_name')
+      .not('assigned_vehicle_id', 'is', null)
+      .neq('status', 'Cancelled')
+      .lte('start_date', to)
+      .gte('end_date', from),
+    supabase
+      .from('safari_bookings')
+      .select('id, booking_reference, start_date, end_date, status, assigned_vehicle_id, client_name')
+      .not('assigned_vehicle_id', 'is', null)
+      .neq('status', 'cancelled')
+      .lte('start_date', to)
+      .gte('end_date', from),
+  ]);
+
+  if (bookings.error) {
+    console.error('[FleetSchedule] ERROR fetching bookings:', bookings.error.message);
+    throw bookings.error;
+  }
+  if (safaris.error) {
+    console.error('[FleetSchedule] ERROR fetching safari bookings:', safaris.error.message);
+    throw safaris.error;
+  }
+
+  const items = [
+    ...validateRows('bookings', bookings.data).map(b => fromBooking(b, from, to)),
+    ...(safaris.data ?? []).map(row => {
+      const s = validateSafari(row);
+      return s && fromSafari(s, from, to);
+    }),
+  ].filter((item): item is ScheduleItem => item !== null);
+
+  console.log(`[FleetSchedule] ${items.length} scheduled items`);
+  return { items: items.sort(byStart) };
+}
+
+// Apply a realtime change in place. Bookings and safari bookings share the
+// list, so the other kind is set aside while patching.
+function patchFleetSchedule(
+  data: FleetSchedule,
+  change: RowChange,
+  from: string,
+  to: string,
+): FleetSchedule | undefined {
+  const kind = change.table === 'bookings' ? 'booking' : change.table === 'safari_bookings' ? 'safari' : null;
+  if (!kind) return undefined;
+
+  const own = data.items.filter(item => item.kind === kind);
+  const other = data.items.filter(item => item.kind !== kind);
+  const patched = patchRows(own, change, (row) => {
+    if (kind === 'booking') {
+      const b = validateRow('bookings', row);
+      return b && fromBooking(b, from, to);
+    }
+    const s = validateSafari(row);
+    return s && fromSafari(s, from, to);
+  });
+  if (!patched) return undefined;
+  return patched === own ? data : { items: [...other, ...patched].sort(byStart) };
+}
+
+export function useFleetSchedule(from: string, to: string) {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['fleet-schedule', from, to],
+    fetcher: () => fetchFleetSchedule(from, to),
+    tables: ['bookings', 'safari_bookings'],
+    patch: (current, change) => patchFleetSchedule(current, change, from, to),
+  });
+
+  return {
+    items: data.items,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * useOfflineQueue
+ *
+ * Subscribes to the offline write queue so lists can show rows that were
+ * saved on this device but have not reached the server yet.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { offlineSync, startOfflineSync } from '../lib/offlineSync';
+import type { SyncOperation } from '../../sdk/offline/OfflineSyncService';
+import { isPlaceholder } from '../../sdk/offline/SyncGroup';
+
+export interface OfflineQueueState {
+  operations: SyncOperation[];
+  pendingCount: number;
+  /** Writes the server rejected or that ran out of retries */
+  deadLetters: SyncOperation[];
+  isSyncing: boolean;
+  /** True when the record has a queued write that has not synced yet */
+  isPending: (resource: string, id: string) => boolean;
+  /** Overlay queued creates/updates/deletes for `resource` onto server rows */
+  applyPending: <T extends { id: string }>(resource: string, rows: T[]) => T[];
+  updateDeadLetter: (id: string, data: any) => Promise<void>;
+  retryDeadLetter: (id: string) => Promise<void>;
+  discardDeadLetter: (id: string) => Promise<void>;
+}
+
+/**
+ * A queued payload as it should appear in a list. Group steps can point at an
+ * earlier step with a placeholder; those show the earlier step's client id (or
+ * the referenced field), and anything not known until sync is left out.
+ */
+function previewData(op: SyncOperation, operations: SyncOperation[]): Record<string, any> {
+  const resolve = (value: any): any => {
+    if (isPlaceholder(value)) {
+      const source = operations.find((o) => o.groupId === op.groupId && o.ref === value.$ref);
+      const row = source?.result ?? source?.data;
+      return value.field ? row?.[value.field] : row?.id;
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+      const resolved: Record<string, any> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        const next = resolve(item);
+        if (next !== undefined) resolved[key] = next;
+      });
+      return resolved;
+    }
+    return value;
+  };
+  return resolve(op.data);
+}
+
+export function useOfflineQueue(): OfflineQueueState {
+  const [operations, setOperations]   = useState<SyncOperation[]>(() => offlineSync.getOperations());
+  const [deadLetters, setDeadLetters] = useState<SyncOperation[]>(() => offlineSync.getDeadLetters());
+  const [isSyncing, setIsSyncing]     = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setOperations(offlineSync.getOperations());
+      setDeadLetters(offlineSync.getDeadLetters());
+      setIsSyncing(offlineSync.getStatus().isSyncing);
+    };
+
+    const unsubscribe = offlineSync.addListener(refresh);
+    startOfflineSync().then(refresh).catch(console.error);
+
+    return unsubscribe;
+  }, []);
+
+  const isPending = useCallback(
+    (resource: string, id: string) =>
+      operations.some((op) => op.resource === resource && String(op.data?.id) === id),
+    [operations],
+  );
+
+  const applyPending = useCallback(
+    <T extends { id: string }>(resource: string, rows: T[]): T[] => {
+      const ops = operations.filter((op) => op.resource === resource && op.data?.id);
+      if (ops.length === 0) return rows;
+
+      let result = [...rows];
+      ops.forEach((op) => {
+        const id = String(op.data.id);
+        const index = result.findIndex((row) => row.id === id);
+
+        if (op.type === 'DELETE') {
+          if (index > -1) result.splice(index, 1);
+        } else if (index > -1) {
+          result[index] = { ...result[index], ...previewData(op, operations) };
+        } else if (op.type === 'CREATE') {
+          result = [{ ...previewData(op, operations), ...op.meta?.preview } as T, ...result];
+        }
+      });
+      return result;
+    },
+    [operations],
+  );
+
+  const updateDeadLetter = useCallback(
+    (id: string, data: any) => offlineSync.updateDeadLetter(id, data),
+    [],
+  );
+
+  const retryDeadLetter = useCallback((id: string) => offlineSync.retryDeadLetter(id), []);
+
+  const discardDeadLetter = useCallback((id: string) => offlineSync.discardDeadLetter(id), []);
+
+  return {
+    operations,
+    pendingCount: operations.length,
+    deadLetters,
+    isSyncing,
+    isPending,
+    applyPending,
+    updateDeadLetter,
+    retryDeadLetter,
+    discardDeadLetter,
+  };
+}
+
+export default useOfflineQueue;
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { queryClient, hashQueryKey, type QueryOptions } from '../lib/queryClient';
+
+/**
+ * Read a keyed query from the shared query client
+ *
+ * Cached data is returned immediately and revalidated in the background.
+ * Components using the same key share one request and one realtime
+ * subscription.
+ */
+
+interface UseQueryResult<T> {
+  /** The data (from memory, offline cache or a fresh fetch) */
+  data: T | undefined;
+  /** Error from the last fetch; earlier data is kept alongside it */
+  error: Error | null;
+  /** True only until the first data (or error) arrives */
+  loading: boolean;
+  /** True whenever a fetch is in flight, including background refetches */
+  isFetching: boolean;
+  /** Whether the current data was restored from the offline cache */
+  isFromCache: boolean;
+  /** Timestamp of when the data was last fetched */
+  lastUpdated: number | null;
+  /** Refetch now, sharing a request already in flight */
+  refetch: () => Promise<void>;
+}
+
+export function useQuery<T>(options: QueryOptions<T>): UseQueryResult<T> {
+  const hash = hashQueryKey(options.key);
+
+  // Latest options (and fetcher closure) without resubscribing every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const subscribe = useCallback(
+    (onChange: () => void) => queryClient.subscribe(optionsRef.current, onChange),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [hash],
+  );
+  const getSnapshot = useCallback(
+    () => queryClient.getState(optionsRef.current),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [hash],
+  );
+
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Fetch on mount and on key change when missing or stale
+  useEffect(() => {
+    queryClient.ensure(optionsRef.current);
+  }, [hash]);
+
+  const refetch = useCallback(() => queryClient.refetch(optionsRef.current), []);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: state.data === undefined && state.error === null,
+    isFetching: state.isFetching,
+    isFromCache: state.isFromCache,
+    lastUpdated: state.updatedAt,
+    refetch,
+  };
+}
+
+export default useQuery;
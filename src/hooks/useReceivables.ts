@@ -0,0 +1,85 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { ReceivableInstallmentRow, ReceivablesSettingsRow } from '../../sdk/schema/tables';
+
+/**
+ * Unpaid installments across vehicle and safari bookings, with client names
+ * and the reminder settings, for the Receivables screen. The view is derived
+ * from bookings and payments, so changes to either refetch it.
+ */
+
+interface Receivables {
+  installments: ReceivableInstallmentRow[];
+  /** Client id → company name, for bookings linked to a client record */
+  clientNames: Record<string, string>;
+  settings: ReceivablesSettingsRow | null;
+}
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: Receivables = { installments: [], clientNames: {}, settings: null };
+
+async function fetchReceivables(): Promise<Receivables> {
+  console.log('[Receivables] Fetching unpaid installments...');
+
+  const [installmentsRes, settingsRes] = await Promise.all([
+    supabase
+      .from('receivable_installments')
+      .select('*')
+      .gt('outstanding', 0)
+      .order('due_date', { ascending: true }),
+    supabase
+      .from('receivables_settings')
+      .select('*')
+      .eq('id', 1)
+      .maybeSingle(),
+  ]);
+
+  if (installmentsRes.error) {
+    console.error('[Receivables] ERROR fetching installments:', installmentsRes.error.message);
+    throw installmentsRes.error;
+  }
+  if (settingsRes.error) {
+    // Reminders keep their defaults; the report itself still works
+    console.warn('[Receivables] Could not load reminder settings:', settingsRes.error.message);
+  }
+
+  const installments = validateRows('receivable_installments', installmentsRes.data);
+
+  const clientIds = [...new Set(installments.map((i) => i.client_id).filter((id): id is string => !!id))];
+  const clientNames: Record<string, string> = {};
+  if (clientIds.length > 0) {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, company_name')
+      .in('id', clientIds);
+    if (error) {
+      console.warn('[Receivables] Could not load client names:', error.message);
+    }
+    for (const c of data ?? []) {
+      if (c.company_name) clientNames[c.id] = c.company_name;
+    }
+  }
+
+  console.log(`[Receivables] ${installments.length} unpaid installments`);
+  return {
+    installments,
+    clientNames,
+    settings: settingsRes.data ? validateRow('receivables_settings', settingsRes.data) : null,
+  };
+}
+
+export function useReceivables() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['receivables'],
+    fetcher: fetchReceivables,
+    tables: ['bookings', 'safari_bookings', 'booking_payments'],
+  });
+
+  return {
+    ...data,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -1,13 +1,12 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useMemo } from 'react';
+import { useQuery } from './useQuery';
 import { supabase } from '../lib/supabase';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { BookingRow } from '../../sdk/schema/tables';
 import type { Booking } from '../types/dashboard';
 
-interface SafariDataState {
-  safaris: Booking[];
-  loading: boolean;
-  error: Error | null;
-}
-
 // Extended Booking type for Safari
 export interface Safari extends Booking {
   destination?: string;
@@ -15,181 +14,172 @@ export interface Safari extends Booking {
   vehicle?: { name: string };
 }
 
-// Generate a unique fetch ID for debugging
-let fetchCounter = 0;
+interface SafariData {
+  safaris: Safari[];
+  clients: Record<string, string>;
+  vehicleNames: Record<string, string>;
+  profiles: Record<string, string>;
+}
 
-export function useSafariData() {
-  const [data, setData] = useState<SafariDataState>({
-    safaris: [],
-    loading: true,
-    error: null,
+// Stable empties so dependents don't re-run on every render before data arrives
+const EMPTY: SafariData = { safaris: [], clients: {}, vehicleNames: {}, profiles: {} };
+
+const SAFARI_STATUSES = ['Confirmed', 'In-Progress', 'Completed'];
+
+// Map database columns to app interface with aliases for backwards compatibility
+function toBooking(b: BookingRow): Booking {
+  return {
+    ...b,
+    booking_number: b.booking_reference, // Alias for backwards compatibility
+    total_cost: b.total_amount, // Alias for backwards compatibility
+  };
+}
+
+// Map client, vehicle, and profile names to a safari
+function withNames(s: Booking, data: Omit<SafariData, 'safaris'>): Safari {
+  const { clients, vehicleNames, profiles } = data;
+  return {
+    ...s,
+    client: (s.actual_client_id && clients[s.actual_client_id]) || (s.client_id && clients[s.client_id!])
+      ? { company_name: clients[s.actual_client_id || s.client_id!] }
+      : undefined,
+    vehicle: s.assigned_vehicle_id && vehicleNames[s.assigned_vehicle_id]
+      ? { name: vehicleNames[s.assigned_vehicle_id] }
+      : undefined,
+    profiles: (s.assigned_to || s.assigned_user_id) && profiles[s.assigned_to || s.assigned_user_id!]
+      ? { full_name: profiles[s.assigned_to || s.assigned_user_id!] }
+      : undefined,
+  };
+}
+
+// Fetch Safari Bookings (bookings with safari-related data)
+async function fetchSafaris() {
+  console.log(`[SafariData] Fetching safari bookings...`);
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select(
+      'id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, assigned_vehicle_id, assigned_to, client_id, client_name, contact, email, notes'
+    )
+    .in('status', SAFARI_STATUSES)
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error(`[SafariData] ERROR fetching safaris:`, error.message);
+    throw error;
+  }
+
+  const result: Booking[] = validateRows('bookings', bookings).map(toBooking);
+
+  console.log(`[SafariData] Fetched ${result.length} safari bookings`);
+
+  return result;
+}
+
+// Fetch Clients
+async function fetchClients() {
+  console.log(`[SafariData] Fetching clients...`);
+  const { data: clients, error } = await supabase
+    .from('clients')
+    .select('id, company_name');
+
+  if (error) {
+    console.error(`[SafariData] ERROR fetching clients:`, error.message);
+    throw error;
+  }
+
+  const clientMap: Record<string, string> = {};
+  (clients || []).forEach((c: any) => {
+    clientMap[c.id] = c.company_name;
   });
 
-  // Track if initial fetch has been done
-  const hasFetchedRef = useRef(false);
-
-  // Fetch Safari Bookings (bookings with safari-related data)
-  const fetchSafaris = useCallback(async (fetchId: number) => {
-    console.log(`[SafariData #${fetchId}] Fetching safari bookings...`);
-
-    const { data: bookings, error } = await supabase
-      .from('bookings')
-      .select(
-        'id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, assigned_vehicle_id, assigned_to, client_id, client_name, contact, email, notes'
-      )
-      .in('status', ['Confirmed', 'In-Progress', 'Completed'])
-      .order('start_date', { ascending: false });
-
-    if (error) {
-      console.error(`[SafariData #${fetchId}] ERROR fetching safaris:`, error.message);
-      throw error;
-    }
-
-    // Map database columns to app interface with aliases for backwards compatibility
-    const result = (bookings || []).map(b => ({
-      ...b,
-      booking_number: b.booking_reference, // Alias for backwards compatibility
-      total_cost: b.total_amount, // Alias for backwards compatibility
-    })) as Booking[];
-
-    console.log(`[SafariData #${fetchId}] Fetched ${result.length} safari bookings`);
-
-    return result;
-  }, []);
-
-  // Fetch Clients
-  const fetchClients = useCallback(async (fetchId: number) => {
-    console.log(`[SafariData #${fetchId}] Fetching clients...`);
-    const { data: clients, error } = await supabase
-      .from('clients')
-      .select('id, company_name');
-
-    if (error) {
-      console.error(`[SafariData #${fetchId}] ERROR fetching clients:`, error.message);
-      throw error;
-    }
-
-    const clientMap: Record<string, string> = {};
-    (clients || []).forEach((c: any) => {
-      clientMap[c.id] = c.company_name;
-    });
+  return clientMap;
+}
 
-    return clientMap;
-  }, []);
+// Fetch Vehicles
+async function fetchVehicles() {
+  console.log(`[SafariData] Fetching vehicles...`);
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, license_plate, make, model');
+
+  if (error) {
+    console.error(`[SafariData] ERROR fetching vehicles:`, error.message);
+    throw error;
+  }
+
+  const vehicleMap: Record<string, string> = {};
+  (vehicles || []).forEach((v: any) => {
+    vehicleMap[v.id] = `${v.license_plate} - ${v.make} ${v.model}`;
+  });
 
-  // Fetch Vehicles
-  const fetchVehicles = useCallback(async (fetchId: number) => {
-    console.log(`[SafariData #${fetchId}] Fetching vehicles...`);
-    const { data: vehicles, error } = await supabase
-      .from('vehicles')
-      .select('id, license_plate, make, model');
+  return vehicleMap;
+}
 
-    if (error) {
-      console.error(`[SafariData #${fetchId}] ERROR fetching vehicles:`, error.message);
-      throw error;
-    }
+// Fetch Profiles
+async function fetchProfiles() {
+  console.log(`[SafariData] Fetching profiles...`);
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('id, full_name');
+
+  if (error) {
+    console.error(`[SafariData] ERROR fetching profiles:`, error.message);
+    throw error;
+  }
+
+  const profileMap: Record<string, string> = {};
+  (profiles || []).forEach((p: any) => {
+    profileMap[p.id] = p.full_name;
+  });
 
-    const vehicleMap: Record<string, string> = {};
-    (vehicles || []).forEach((v: any) => {
-      vehicleMap[v.id] = `${v.license_plate} - ${v.make} ${v.model}`;
-    });
+  return profileMap;
+}
 
-    return vehicleMap;
-  }, []);
+// Fetch all data
+async function fetchSafariData(): Promise<SafariData> {
+  console.log('[SafariData] ========== FETCH START ==========');
+  const startTime = Date.now();
 
-  // Fetch Profiles
-  const fetchProfiles = useCallback(async (fetchId: number) => {
-    console.log(`[SafariData #${fetchId}] Fetching profiles...`);
-    const { data: profiles, error } = await supabase
-      .from('profiles')
-      .select('id, full_name');
+  const [safaris, clients, vehicleNames, profiles] = await Promise.all([
+    fetchSafaris(),
+    fetchClients(),
+    fetchVehicles(),
+    fetchProfiles(),
+  ]);
 
-    if (error) {
-      console.error(`[SafariData #${fetchId}] ERROR fetching profiles:`, error.message);
-      throw error;
-    }
+  console.log(`[SafariData] All fetches completed in ${Date.now() - startTime}ms`);
 
-    const profileMap: Record<string, string> = {};
-    (profiles || []).forEach((p: any) => {
-      profileMap[p.id] = p.full_name;
-    });
+  const names = { clients, vehicleNames, profiles };
+  const safarisWithNames = safaris.map(s => withNames(s, names));
+
+  console.log(`[SafariData] Safaris: ${safaris.length}`);
+
+  return { safaris: safarisWithNames, ...names };
+}
 
-    return profileMap;
-  }, []);
-
-  // Fetch all data
-  const fetchAllData = useCallback(async () => {
-    const fetchId = ++fetchCounter;
-
-    console.log(`[SafariData #${fetchId}] ========== FETCH START ==========`);
-
-    try {
-      setData(prev => ({ ...prev, loading: true, error: null }));
-
-      console.log(`[SafariData #${fetchId}] Starting parallel fetches...`);
-      const startTime = Date.now();
-
-      const [safaris, clients, vehicles, profiles] = await Promise.all([
-        fetchSafaris(fetchId),
-        fetchClients(fetchId),
-        fetchVehicles(fetchId),
-        fetchProfiles(fetchId),
-      ]);
-
-      const fetchDuration = Date.now() - startTime;
-      console.log(`[SafariData #${fetchId}] All fetches completed in ${fetchDuration}ms`);
-
-      // Map client, vehicle, and profile names to safaris
-      const safarisWithNames = safaris.map(s => ({
-        ...s,
-        client: (s.actual_client_id && clients[s.actual_client_id]) || (s.client_id && clients[s.client_id!])
-          ? { company_name: clients[s.actual_client_id || s.client_id!] }
-          : undefined,
-        vehicle: s.assigned_vehicle_id && vehicles[s.assigned_vehicle_id]
-          ? { name: vehicles[s.assigned_vehicle_id] }
-          : undefined,
-        profiles: (s.assigned_to || s.assigned_user_id) && profiles[s.assigned_to || s.assigned_user_id!]
-          ? { full_name: profiles[s.assigned_to || s.assigned_user_id!] }
-          : undefined,
-      }));
-
-      console.log(`[SafariData #${fetchId}] ========== FETCH SUMMARY ==========`);
-      console.log(`[SafariData #${fetchId}] Safaris: ${safaris.length}`);
-
-      hasFetchedRef.current = true;
-
-      setData({
-        safaris: safarisWithNames,
-        loading: false,
-        error: null,
-      });
-
-      console.log(`[SafariData #${fetchId}] ========== FETCH COMPLETE ==========`);
-    } catch (error) {
-      console.error(`[SafariData #${fetchId}] ========== FETCH ERROR ==========`);
-      console.error(`[SafariData #${fetchId}] Error:`, error);
-      setData(prev => ({
-        ...prev,
-        loading: false,
-        error: error as Error,
-      }));
-    }
-  }, [fetchSafaris, fetchClients, fetchVehicles, fetchProfiles]);
-
-  // Fetch on mount
-  useEffect(() => {
-    console.log('[SafariData] useEffect triggered - fetching data...');
-    fetchAllData();
-  }, [fetchAllData]);
-
-  // Create a stable refetch reference
-  const refetchRef = useRef(fetchAllData);
-  refetchRef.current = fetchAllData;
-
-  const stableRefetch = useCallback(() => {
-    console.log('[SafariData] stableRefetch called');
-    return refetchRef.current();
-  }, []);
+// Apply a realtime booking change in place; other tables refetch
+function patchSafariData(data: SafariData, change: RowChange): SafariData | undefined {
+  if (change.table !== 'bookings') return undefined;
+
+  const safaris = patchRows(data.safaris, change, (row) => {
+    const booking = validateRow('bookings', row);
+    if (!booking) return null;
+    if (!SAFARI_STATUSES.includes(booking.status)) return null;
+    return withNames(toBooking(booking), data);
+  }, byDesc(s => s.start_date));
+  return safaris && { ...data, safaris };
+}
+
+export function useSafariData() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['safaris'],
+    fetcher: fetchSafariData,
+    tables: ['bookings', 'vehicles', 'clients', 'safari_bookings'],
+    persist: true,
+    patch: patchSafariData,
+  });
+  const { safaris } = data;
 
   // Compute categorized safaris
   const categorizedSafaris = useMemo(() => {
@@ -205,26 +195,26 @@ export function useSafariData() {
     monthFromNow.setDate(monthFromNow.getDate() + 30);
     const monthFromNowStr = monthFromNow.toISOString().split('T')[0];
 
-    const activeToday = data.safaris.filter(s => {
+    const activeToday = safaris.filter(s => {
       const startDate = s.start_date?.split('T')[0];
       const endDate = s.end_date?.split('T')[0];
       return (s.status === 'In-Progress') ||
              (startDate && startDate <= todayStr && endDate && endDate >= todayStr);
     });
 
-    const upcomingThisWeek = data.safaris.filter(s => {
+    const upcomingThisWeek = safaris.filter(s => {
       const startDate = s.start_date?.split('T')[0];
       return s.status === 'Confirmed' &&
              startDate && startDate > todayStr && startDate <= weekFromNowStr;
     });
 
-    const upcomingThisMonth = data.safaris.filter(s => {
+    const upcomingThisMonth = safaris.filter(s => {
       const startDate = s.start_date?.split('T')[0];
       return s.status === 'Confirmed' &&
              startDate && startDate > weekFromNowStr && startDate <= monthFromNowStr;
     });
 
-    const completed = data.safaris.filter(s => s.status === 'Completed');
+    const completed = safaris.filter(s => s.status === 'Completed');
 
     // Get current month completions
     const currentMonth = today.getMonth();
@@ -248,11 +238,13 @@ export function useSafariData() {
       completed,
       completedThisMonth,
     };
-  }, [data.safaris]);
+  }, [safaris]);
 
   return {
-    ...data,
+    safaris,
+    loading,
+    error,
     ...categorizedSafaris,
-    refetch: stableRefetch,
+    refetch,
   };
 }
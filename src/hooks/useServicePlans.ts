@@ -0,0 +1,59 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byAsc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { ServicePlanRow } from '../../sdk/schema/tables';
+
+/**
+ * Active service plans across the fleet; screens pick out a vehicle's own
+ */
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: ServicePlanRow[] = [];
+
+const byName = byAsc<ServicePlanRow>((p) => `${p.vehicle_id} ${p.name}`);
+
+async function fetchServicePlans(): Promise<ServicePlanRow[]> {
+  console.log('[ServicePlans] Fetching service plans...');
+
+  const { data, error } = await supabase
+    .from('vehicle_service_plans')
+    .select('*')
+    .eq('active', true)
+    .order('vehicle_id', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('[ServicePlans] ERROR fetching service plans:', error.message);
+    throw error;
+  }
+
+  return validateRows('vehicle_service_plans', data);
+}
+
+function patchServicePlans(plans: ServicePlanRow[], change: RowChange): ServicePlanRow[] | undefined {
+  if (change.table !== 'vehicle_service_plans') return plans;
+
+  return patchRows(plans, change, (row) => {
+    const plan = validateRow('vehicle_service_plans', row);
+    return plan && plan.active ? plan : null;
+  }, byName);
+}
+
+export function useServicePlans() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['service-plans'],
+    fetcher: fetchServicePlans,
+    tables: ['vehicle_service_plans'],
+    persist: true,
+    patch: patchServicePlans,
+  });
+
+  return {
+    plans: data,
+    loading,
+    error,
+    refetch,
+  };
+}
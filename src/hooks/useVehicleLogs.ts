@@ -0,0 +1,84 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { patchRows, byDesc } from '../lib/rowPatch';
+import type { RowChange } from '../lib/realtimeManager';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import type { FuelLogRow, TripLogRow } from '../../sdk/schema/tables';
+
+/**
+ * Fuel and trip logs for the whole fleet, newest first — the dashboard rolls
+ * them into expenses and cost per km, the vehicle view shows its own
+ */
+
+interface VehicleLogs {
+  fuelLogs: FuelLogRow[];
+  tripLogs: TripLogRow[];
+}
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: VehicleLogs = { fuelLogs: [], tripLogs: [] };
+
+const byFilledOn = byDesc<FuelLogRow>((l) => l.filled_on);
+const byStartedOn = byDesc<TripLogRow>((t) => t.started_on);
+
+async function fetchVehicleLogs(): Promise<VehicleLogs> {
+  console.log('[VehicleLogs] Fetching fuel and trip logs...');
+
+  const [fuelRes, tripRes] = await Promise.all([
+    supabase
+      .from('fuel_logs')
+      .select('*')
+      .order('filled_on', { ascending: false })
+      .order('odometer', { ascending: false }),
+    supabase
+      .from('trip_logs')
+      .select('*')
+      .order('started_on', { ascending: false })
+      .order('start_odometer', { ascending: false }),
+  ]);
+
+  if (fuelRes.error) {
+    console.error('[VehicleLogs] ERROR fetching fuel logs:', fuelRes.error.message);
+    throw fuelRes.error;
+  }
+  if (tripRes.error) {
+    console.error('[VehicleLogs] ERROR fetching trip logs:', tripRes.error.message);
+    throw tripRes.error;
+  }
+
+  const logs = {
+    fuelLogs: validateRows('fuel_logs', fuelRes.data),
+    tripLogs: validateRows('trip_logs', tripRes.data),
+  };
+  console.log(`[VehicleLogs] ${logs.fuelLogs.length} fuel logs, ${logs.tripLogs.length} trip logs`);
+  return logs;
+}
+
+function patchVehicleLogs(logs: VehicleLogs, change: RowChange): VehicleLogs | undefined {
+  if (change.table === 'fuel_logs') {
+    const fuelLogs = patchRows(logs.fuelLogs, change, (row) => validateRow('fuel_logs', row), byFilledOn);
+    return fuelLogs && { ...logs, fuelLogs };
+  }
+  if (change.table === 'trip_logs') {
+    const tripLogs = patchRows(logs.tripLogs, change, (row) => validateRow('trip_logs', row), byStartedOn);
+    return tripLogs && { ...logs, tripLogs };
+  }
+  return logs;
+}
+
+export function useVehicleLogs() {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['vehicle-logs'],
+    fetcher: fetchVehicleLogs,
+    tables: ['fuel_logs', 'trip_logs'],
+    persist: true,
+    patch: patchVehicleLogs,
+  });
+
+  return {
+    ...data,
+    loading,
+    error,
+    refetch,
+  };
+}
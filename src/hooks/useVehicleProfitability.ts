@@ -0,0 +1,99 @@
+import { useQuery } from './useQuery';
+import { supabase } from '../lib/supabase';
+import { validateRow, validateRows } from '../../sdk/schema/validators';
+import {
+  EARNING_BOOKING_STATUSES,
+  EARNING_SAFARI_STATUSES,
+  type PeriodRange,
+  type ProfitabilityInput,
+} from '../lib/vehicleProfitability';
+
+/**
+ * Everything the vehicle P&L draws on for one period: the fleet, the
+ * bookings and safaris that earned in it, and the repairs, fuel and tagged
+ * cash requisitions spent in it. Any change to those tables refetches.
+ */
+
+// safari_bookings stores the vehicle as assigned_vehicle_id; the P&L reads it as vehicle_id
+type SafariVehicleRow = Record<string, unknown> & { assigned_vehicle_id: string | null };
+
+// Stable empty so dependents don't re-run on every render before data arrives
+const EMPTY: ProfitabilityInput = { vehicles: [], bookings: [], safaris: [], repairs: [], fuelLogs: [], expenses: [] };
+
+async function fetchProfitability(range: PeriodRange): Promise<ProfitabilityInput> {
+  console.log(`[VehicleProfitability] Fetching ${range.from} to ${range.to}...`);
+  const toEnd = `${range.to}T23:59:59`;
+
+  const [vehiclesRes, bookingsRes, safarisRes, repairsRes, fuelRes, crsRes] = await Promise.all([
+    supabase
+      .from('vehicles')
+      .select('id, license_plate, make, model, capacity, status')
+      .order('license_plate', { ascending: true }),
+    supabase
+      .from('bookings')
+      .select('id, booking_reference, start_date, end_date, status, amount_paid, total_amount, currency, assigned_vehicle_id, is_vendor_vehicle, vendor_vehicle_details, vendor_hire_cost')
+      .in('status', [...EARNING_BOOKING_STATUSES])
+      .gte('start_date', range.from)
+      .lte('start_date', toEnd),
+    supabase
+      .from('safari_bookings')
+      .select('id, booking_reference, status, start_date, currency, total_price_usd, total_price_ugx, total_expenses_usd, total_expenses_ugx, vehicle_hire_cost_usd, vehicle_hire_cost_ugx, assigned_vehicle_id')
+      .in('status', [...EARNING_SAFARI_STATUSES])
+      .gte('start_date', range.from)
+      .lte('start_date', toEnd),
+    supabase
+      .from('repairs')
+      .select('id, vehicle_id, description, status, priority, reported_at, estimated_cost')
+      .gte('reported_at', range.from)
+      .lte('reported_at', toEnd),
+    supabase
+      .from('fuel_logs')
+      .select('*')
+      .gte('filled_on', range.from)
+      .lte('filled_on', range.to),
+    // Filtered to the period client-side: a CR counts on the day it was paid out
+    supabase
+      .from('cash_requisitions')
+      .select('id, cr_number, total_cost, currency, status, date_needed, expense_category, date_completed, created_at, amount_usd, vehicle_id')
+      .eq('soft_deleted', false)
+      .not('vehicle_id', 'is', null)
+      .not('status', 'in', '(Declined,Rejected,Cancelled)'),
+  ]);
+
+  for (const [name, res] of [
+    ['vehicles', vehiclesRes], ['bookings', bookingsRes], ['safaris', safarisRes],
+    ['repairs', repairsRes], ['fuel logs', fuelRes], ['cash requisitions', crsRes],
+  ] as const) {
+    if (res.error) {
+      console.error(`[VehicleProfitability] ERROR fetching ${name}:`, res.error.message);
+      throw res.error;
+    }
+  }
+
+  const input: ProfitabilityInput = {
+    vehicles: validateRows('vehicles', vehiclesRes.data),
+    bookings: validateRows('bookings', bookingsRes.data),
+    safaris: ((safarisRes.data ?? []) as SafariVehicleRow[]).flatMap(({ assigned_vehicle_id, ...s }) =>
+      validateRow('safari_bookings', { ...s, vehicle_id: assigned_vehicle_id ?? undefined }) ?? []),
+    repairs: validateRows('repairs', repairsRes.data),
+    fuelLogs: validateRows('fuel_logs', fuelRes.data),
+    expenses: validateRows('cash_requisitions', crsRes.data),
+  };
+  console.log(`[VehicleProfitability] ${input.bookings.length} bookings, ${input.safaris.length} safaris, ${input.repairs.length} repairs, ${input.fuelLogs.length} fuel logs, ${input.expenses.length} tagged CRs`);
+  return input;
+}
+
+export function useVehicleProfitability(range: PeriodRange) {
+  const { data = EMPTY, loading, error, refetch } = useQuery({
+    key: ['vehicle-profitability', range.from, range.to],
+    fetcher: () => fetchProfitability(range),
+    tables: ['vehicles', 'bookings', 'safari_bookings', 'repairs', 'fuel_logs', 'cash_requisitions'],
+  });
+
+  return {
+    ...data,
+    loading,
+    error,
+    refetch,
+  };
+}
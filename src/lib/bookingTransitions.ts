@@ -0,0 +1,285 @@
+import type { User } from '@supabase/supabase-js';
+import { vehicleSwapSteps } from './vehicleAvailability';
+import type { QueuedNotification, SyncStep } from './offlineSync';
+import type { NotificationType } from '../types/notification';
+import type {
+  BookingRow,
+  BookingStatus,
+  Currency,
+  SafariBookingRow,
+  SafariBookingStatus,
+} from '../../sdk/schema/tables';
+
+/**
+ * Booking status state machine
+ *
+ * One table per booking kind lists the moves out of each status, who may make
+ * them, what must be true first and the side effects that go with them. Every
+ * screen that changes a booking's status asks planTransition for the writes,
+ * so the vehicle and notification follow-ups are the same everywhere and sync
+ * in the same group as the status change. Payments are recorded on their own
+ * (see payments.ts), so completing a booking only checks they add up.
+ */
+
+export type BookingKind = 'booking' | 'safari';
+
+export type StaffRole = 'admin' | 'manager' | 'staff';
+
+const STAFF_ROLES: readonly StaffRole[] = ['admin', 'manager', 'staff'];
+
+// profiles has no role column yet (see authService), so accounts without a
+// role in their app metadata keep the access they had before
+const DEFAULT_ROLE: StaffRole = 'manager';
+
+/**
+ * Role of the signed-in user, from the server-controlled app metadata
+ */
+export function getStaffRole(user: User | null): StaffRole {
+  const role = user?.app_metadata?.role;
+  return STAFF_ROLES.includes(role) ? role : DEFAULT_ROLE;
+}
+
+// ─── Transition table ─────────────────────────────────────────────────────────
+
+/** Conditions the booking must meet before the move */
+type Requirement = 'fully_paid';
+
+/** Follow-up writes made with the status change */
+type SideEffect =
+  /** Set the assigned vehicle's status (and release a vehicle swapped out) */
+  | { type: 'vehicle'; status: 'booked' | 'available' }
+  /** Notify the staff member the booking is assigned to, once synced */
+  | { type: 'notify'; notification: NotificationType; title: string };
+
+interface Transition {
+  /** Roles allowed to make the move; anyone when omitted */
+  roles?: StaffRole[];
+  requires?: Requirement[];
+  effects: SideEffect[];
+}
+
+type TransitionTable<S extends string> = Record<S, Partial<Record<S, Transition>>>;
+
+const HOLD_VEHICLE:    SideEffect = { type: 'vehicle', status: 'booked' };
+const RELEASE_VEHICLE: SideEffect = { type: 'vehicle', status: 'available' };
+const MANAGERS: StaffRole[] = ['admin', 'manager'];
+
+// Staying in the same status is listed explicitly so saving an edit keeps the
+// vehicle hold in step with a changed vehicle
+export const BOOKING_TRANSITIONS: TransitionTable<BookingStatus> = {
+  Pending: {
+    Pending:       { effects: [HOLD_VEHICLE] },
+    Confirmed:     { effects: [HOLD_VEHICLE, { type: 'notify', notification: 'booking_confirmed', title: 'Booking Confirmed' }] },
+    'In-Progress': { effects: [HOLD_VEHICLE, { type: 'notify', notification: 'booking_started', title: 'Booking Started' }] },
+    Cancelled:     { effects: [RELEASE_VEHICLE, { type: 'notify', notification: 'booking_cancelled', title: 'Booking Cancelled' }] },
+  },
+  Confirmed: {
+    Confirmed:     { effects: [HOLD_VEHICLE] },
+    'In-Progress': { effects: [HOLD_VEHICLE, { type: 'notify', notification: 'booking_started', title: 'Booking Started' }] },
+    Cancelled:     { effects: [RELEASE_VEHICLE, { type: 'notify', notification: 'booking_cancelled', title: 'Booking Cancelled' }] },
+  },
+  'In-Progress': {
+    'In-Progress': { effects: [HOLD_VEHICLE] },
+    Completed: {
+      requires: ['fully_paid'],
+      effects:  [RELEASE_VEHICLE, { type: 'notify', notification: 'booking_completed', title: 'Booking Completed' }],
+    },
+    // A vehicle already out with the client is only called back by a manager
+    Cancelled: {
+      roles:   MANAGERS,
+      effects: [RELEASE_VEHICLE, { type: 'notify', notification: 'booking_cancelled', title: 'Booking Cancelled' }],
+    },
+  },
+  Completed: {},
+  Cancelled: {},
+};
+
+// Safari bookings have no assigned staff member to notify
+export const SAFARI_TRANSITIONS: TransitionTable<SafariBookingStatus> = {
+  draft: {
+    pending:   { effects: [] },
+    confirmed: { effects: [HOLD_VEHICLE] },
+    cancelled: { effects: [RELEASE_VEHICLE] },
+  },
+  pending: {
+    confirmed: { effects: [HOLD_VEHICLE] },
+    cancelled: { effects: [RELEASE_VEHICLE] },
+  },
+  confirmed: {
+    active:    { effects: [HOLD_VEHICLE] },
+    cancelled: { effects: [RELEASE_VEHICLE] },
+  },
+  active: {
+    completed: { requires: ['fully_paid'], effects: [RELEASE_VEHICLE] },
+    cancelled: { roles: MANAGERS, effects: [RELEASE_VEHICLE] },
+  },
+  completed: {},
+  cancelled: {},
+};
+
+// ─── Subjects ─────────────────────────────────────────────────────────────────
+
+/**
+ * The fields of a booking the state machine looks at, as they will be after
+ * the save (edited amounts and vehicle included)
+ */
+export interface TransitionSubject {
+  kind: BookingKind;
+  id: string;
+  reference: string;
+  status: string;
+  vehicleId: string | null;
+  assignedUserId: string | null;
+  total: number;
+  paid: number;
+  currency: Currency;
+}
+
+export function bookingSubject(b: BookingRow): TransitionSubject {
+  return {
+    kind:           'booking',
+    id:             b.id,
+    reference:      b.booking_reference || b.id.slice(0, 8).toUpperCase(),
+    status:         b.status,
+    vehicleId:      b.assigned_vehicle_id ?? null,
+    assignedUserId: b.assigned_user_id ?? null,
+    total:          b.total_amount || 0,
+    paid:           b.amount_paid || 0,
+    currency:       b.currency,
+  };
+}
+
+// safari_bookings stores the vehicle as assigned_vehicle_id; rows normalised
+// for the safari screens carry it as vehicle_id
+export function safariSubject(s: SafariBookingRow & { assigned_vehicle_id?: string | null }): TransitionSubject {
+  const ugx = s.currency === 'UGX' && s.total_price_ugx > 0;
+  return {
+    kind:           'safari',
+    id:             s.id,
+    reference:      s.booking_reference || s.id.slice(0, 8).toUpperCase(),
+    status:         s.status,
+    vehicleId:      s.assigned_vehicle_id ?? s.vehicle_id ?? null,
+    assignedUserId: null,
+    total:          (ugx ? s.total_price_ugx : s.total_price_usd) || 0,
+    paid:           s.amount_paid || 0,
+    currency:       ugx ? 'UGX' : 'USD',
+  };
+}
+
+function transitionsFor(kind: BookingKind): Record<string, Partial<Record<string, Transition>>> {
+  return kind === 'booking' ? BOOKING_TRANSITIONS : SAFARI_TRANSITIONS;
+}
+
+/**
+ * Statuses a booking may move to from `status`, for the given role. Moves
+ * still subject to a requirement are included; planTransition explains them.
+ */
+export function allowedTransitions(kind: 'booking', status: string, role?: StaffRole): BookingStatus[];
+export function allowedTransitions(kind: 'safari', status: string, role?: StaffRole): SafariBookingStatus[];
+export function allowedTransitions(kind: BookingKind, status: string, role: StaffRole = DEFAULT_ROLE): string[] {
+  const moves = transitionsFor(kind)[status] ?? {};
+  return Object.keys(moves).filter((to) => {
+    const roles = moves[to]?.roles;
+    return !roles || roles.includes(role);
+  });
+}
+
+// ─── Planning ─────────────────────────────────────────────────────────────────
+
+const REQUIREMENT_MESSAGES: Record<Requirement, (s: TransitionSubject) => string> = {
+  fully_paid: (s) => `${s.reference} still has a balance of ${s.currency} ${(s.total - s.paid).toLocaleString()}. Record full payment before completing it.`,
+};
+
+function meets(requirement: Requirement, s: TransitionSubject): boolean {
+  switch (requirement) {
+    case 'fully_paid': return s.total > 0 && s.paid >= s.total;
+  }
+}
+
+export type TransitionPlan =
+  | { ok: true; steps: SyncStep[] }
+  | { ok: false; error: string };
+
+interface PlanOptions {
+  role: StaffRole;
+  /** Signed-in user, so they aren't notified of their own change */
+  userId?: string | null;
+  /** Vehicle before the save, when the save also changes it */
+  previousVehicleId?: string | null;
+  /**
+   * The booking row update carrying the new status. Defaults to a status-only
+   * update; side-effect steps are appended after it.
+   */
+  update?: SyncStep;
+}
+
+/**
+ * Check a status change against the transition table and build the writes
+ * for it: the booking update first, then its side effects. Queue the steps
+ * with queueGroup so they sync, or roll back, together.
+ */
+export function planTransition(
+  subject: TransitionSubject,
+  to: string,
+  { role, userId, previousVehicleId = subject.vehicleId, update }: PlanOptions,
+): TransitionPlan {
+  const transition = transitionsFor(subject.kind)[subject.status]?.[to];
+  if (!transition) {
+    return { ok: false, error: `A ${subject.status} booking can't be moved to ${to}.` };
+  }
+  if (transition.roles && !transition.roles.includes(role)) {
+    return { ok: false, error: `Only ${transition.roles.join(' or ')} users can move a ${subject.status} booking to ${to}.` };
+  }
+  const unmet = transition.requires?.find((r) => !meets(r, subject));
+  if (unmet) return { ok: false, error: REQUIREMENT_MESSAGES[unmet](subject) };
+
+  const resource = subject.kind === 'booking' ? 'bookings' : 'safari_bookings';
+  const steps: SyncStep[] = [update ?? {
+    type:     'UPDATE',
+    resource,
+    data:     {
+      id: subject.id,
+      status: to,
+      ...(subject.kind === 'booking' ? { updated_at: new Date().toISOString() } : {}),
+    },
+    options:  { label: `Mark ${subject.reference} ${to}` },
+  }];
+
+  let vehicleStatus: 'booked' | 'available' | null = null;
+  let notification: QueuedNotification | undefined;
+
+  for (const effect of transition.effects) {
+    switch (effect.type) {
+      case 'vehicle':
+        vehicleStatus = effect.status;
+        break;
+
+      case 'notify':
+        if (subject.assignedUserId && subject.assignedUserId !== userId) {
+          notification = {
+            userId: subject.assignedUserId,
+            title:  effect.title,
+            body:   `${subject.reference} is now ${to}.`,
+            data:   { booking_id: subject.id, reference: subject.reference, screen: 'Bookings' },
+            type:   effect.notification,
+          };
+        }
+        break;
+    }
+  }
+
+  if (vehicleStatus) {
+    steps.push(...vehicleSwapSteps(previousVehicleId, subject.vehicleId, vehicleStatus));
+  } else if (previousVehicleId && previousVehicleId !== subject.vehicleId) {
+    steps.push(...vehicleSwapSteps(previousVehicleId, null));
+  }
+
+  // Delivered once the status change reaches the server (see offlineSync)
+  if (notification) {
+    const [first] = steps;
+    steps[0] = { ...first, options: { ...first.options, meta: { ...first.options?.meta, notification } } };
+  }
+
+  return { ok: true, steps };
+}
+
@@ -0,0 +1,215 @@
+import { differenceInCalendarDays, endOfMonth, endOfQuarter, format, startOfMonth, startOfQuarter } from 'date-fns';
+import { queueWrite, createClientId, type QueuedWriteResult } from './offlineSync';
+import { crSpentOn, isSpentCR, type PeriodRange } from './vehicleProfitability';
+import { isCRLinkedTransaction } from './cashRequisition';
+import type {
+  BudgetPeriod,
+  CashRequisitionRow,
+  Currency,
+  FinanceBudgetRow,
+  FinancialTransactionRow,
+} from '../../sdk/schema/tables';
+
+/**
+ * Budgets
+ *
+ * Each budget is a spending limit that renews every month or quarter, for a
+ * department, an expense category, or both. Spend is what the dashboard
+ * counts as spent — approved and completed cash requisitions, on the day
+ * they were paid out — plus expense transactions, which have no department
+ * and so only count against budgets that cover every department. Pending
+ * requisitions are tracked separately as committed. Everything is compared
+ * in USD.
+ */
+
+// ─── Scope ────────────────────────────────────────────────────────────────────
+
+/** The categories and departments a requisition can be raised against */
+export const EXPENSE_CATEGORIES = [
+  'Operating Expense',
+  'Petty Cash',
+  'Fleet Supplies',
+  'Admin Costs',
+  'Safari Expense',
+  'Fuel',
+  'Accommodation',
+  'Repairs & Maintenance',
+  'Other',
+];
+
+export const DEPARTMENTS = [
+  'Operations',
+  'Administration',
+  'Fleet',
+  'Finance',
+  'Safari',
+  'Maintenance',
+  'Management',
+];
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly:   'Monthly',
+  quarterly: 'Quarterly',
+};
+
+/** "Fleet · Fuel", "Fleet · All categories", "All departments · Fuel" */
+export function budgetLabel(budget: Pick<FinanceBudgetRow, 'department' | 'category'>): string {
+  return `${budget.department ?? 'All departments'} · ${budget.category ?? 'All categories'}`;
+}
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+}
+
+function coversCR(budget: FinanceBudgetRow, cr: Pick<CashRequisitionRow, 'department' | 'expense_category'>): boolean {
+  return (budget.department == null || sameText(budget.department, cr.department))
+      && (budget.category == null || sameText(budget.category, cr.expense_category));
+}
+
+function coversTransaction(budget: FinanceBudgetRow, t: FinancialTransactionRow): boolean {
+  return budget.department == null && (budget.category == null || sameText(budget.category, t.category));
+}
+
+// ─── Period ───────────────────────────────────────────────────────────────────
+
+/** The whole month or quarter containing `today` */
+export function budgetRange(period: BudgetPeriod, today: Date = new Date()): PeriodRange {
+  const [start, end] = period === 'monthly'
+    ? [startOfMonth(today), endOfMonth(today)]
+    : [startOfQuarter(today), endOfQuarter(today)];
+  return { from: format(start, 'yyyy-MM-dd'), to: format(end, 'yyyy-MM-dd') };
+}
+
+/** Share of the period gone by, counting today */
+function elapsedShare(range: PeriodRange, today: Date): number {
+  const from = new Date(`${range.from}T00:00:00`);
+  const days = differenceInCalendarDays(new Date(`${range.to}T00:00:00`), from) + 1;
+  const gone = differenceInCalendarDays(today, from) + 1;
+  return Math.min(1, Math.max(0, gone / days));
+}
+
+function inRange(range: PeriodRange, value: string | null | undefined): boolean {
+  if (!value) return false;
+  const day = value.slice(0, 10);
+  return day >= range.from && day <= range.to;
+}
+
+// ─── Usage ────────────────────────────────────────────────────────────────────
+
+export type BudgetState = 'on_track' | 'at_risk' | 'over';
+
+export interface BudgetUsage {
+  budget: FinanceBudgetRow;
+  range: PeriodRange;
+  limitUsd: number;
+  spentUsd: number;
+  /** Pending or returned requisitions needed this period */
+  committedUsd: number;
+  remainingUsd: number;
+  /** Where spend would be on an even burn through the period */
+  expectedUsd: number;
+  /** Spend by period end at the current rate */
+  projectedUsd: number;
+  state: BudgetState;
+}
+
+export interface BudgetInput {
+  budgets: FinanceBudgetRow[];
+  requisitions: CashRequisitionRow[];
+  transactions: FinancialTransactionRow[];
+}
+
+/**
+ * Each budget measured over its current period. `usd` turns an amount in its
+ * own currency into USD.
+ */
+export function buildBudgetUsage(
+  input: BudgetInput,
+  usd: (amount: number, from: Currency) => number,
+  today: Date = new Date(),
+): BudgetUsage[] {
+  const crUsd = (cr: CashRequisitionRow) => (cr.amount_usd != null ? cr.amount_usd : usd(cr.total_cost, cr.currency));
+  const crNumbers = new Set(input.requisitions.map((cr) => cr.cr_number));
+
+  return input.budgets.map((budget) => {
+    const range = budgetRange(budget.period, today);
+    const limitUsd = usd(budget.amount, budget.currency);
+
+    let spentUsd = 0;
+    let committedUsd = 0;
+    for (const cr of input.requisitions) {
+      if (!coversCR(budget, cr)) continue;
+      if (isSpentCR(cr)) {
+        if (inRange(range, crSpentOn(cr))) spentUsd += crUsd(cr);
+      } else if ((cr.status === 'Pending' || cr.status === 'Returned') && inRange(range, cr.date_needed)) {
+        committedUsd += crUsd(cr);
+      }
+    }
+    // Transactions recording a requisition's spend are already counted above
+    for (const t of input.transactions) {
+      if (t.transaction_type !== 'expense' || !coversTransaction(budget, t)) continue;
+      if (isCRLinkedTransaction(t, crNumbers)) continue;
+      if (inRange(range, t.transaction_date)) spentUsd += usd(t.amount, t.currency);
+    }
+
+    const share = elapsedShare(range, today);
+    const projectedUsd = share > 0 ? spentUsd / share : spentUsd;
+    return {
+      budget,
+      range,
+      limitUsd,
+      spentUsd,
+      committedUsd,
+      remainingUsd: limitUsd - spentUsd,
+      expectedUsd: limitUsd * share,
+      projectedUsd,
+      state: spentUsd > limitUsd ? 'over' : projectedUsd > limitUsd ? 'at_risk' : 'on_track',
+    };
+  });
+}
+
+export interface BudgetOverrun {
+  usage: BudgetUsage;
+  /** What the budget has left once spent and committed money is set aside */
+  availableUsd: number;
+  overByUsd: number;
+}
+
+/** Budgets a new requisition would push past their limit */
+export function budgetOverruns(
+  usage: BudgetUsage[],
+  request: { department: string; category: string; amountUsd: number },
+): BudgetOverrun[] {
+  if (request.amountUsd <= 0) return [];
+  return usage.flatMap((u) => {
+    if (!coversCR(u.budget, { department: request.department, expense_category: request.category })) return [];
+    const availableUsd = u.limitUsd - u.spentUsd - u.committedUsd;
+    return request.amountUsd > availableUsd
+      ? [{ usage: u, availableUsd, overByUsd: request.amountUsd - availableUsd }]
+      : [];
+  });
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export interface BudgetFields {
+  department: string | null;
+  category: string | null;
+  period: BudgetPeriod;
+  amount: number;
+  currency: Currency;
+}
+
+export async function saveBudget(fields: BudgetFields, id?: string): Promise<QueuedWriteResult> {
+  const label = `${BUDGET_PERIOD_LABELS[fields.period].toLowerCase()} budget for ${budgetLabel(fields)}`;
+  const row = { ...fields, updated_at: new Date().toISOString() };
+  return id
+    ? queueWrite('UPDATE', 'finance_budgets', { id, ...row }, { label: `Update ${label}` })
+    : queueWrite('CREATE', 'finance_budgets', { id: createClientId(), ...row }, { label: `Add ${label}` });
+}
+
+export async function removeBudget(budget: FinanceBudgetRow): Promise<QueuedWriteResult> {
+  return queueWrite('DELETE', 'finance_budgets', { id: budget.id }, {
+    label: `Remove ${BUDGET_PERIOD_LABELS[budget.period].toLowerCase()} budget for ${budgetLabel(budget)}`,
+  });
+}
@@ -1,20 +1,55 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageCipher } from '../../sdk/storage/StorageCipher';
+import { utf8ByteLength } from '../../sdk/storage/StorageService';
+import { devLog } from './devLog';
 
 /**
  * Cache utility for offline data persistence
- * Uses AsyncStorage to cache API responses for offline access
+ * Uses AsyncStorage to cache API responses for offline access.
+ * Cached data is encrypted at rest; metadata (timestamps) is not.
+ *
+ * The cache is kept within a byte budget: once a write takes it over, the
+ * least recently used entries are evicted. Pinned entries are never evicted.
  */
 
 // Cache key prefixes
-const CACHE_PREFIX = '@safari_ops_cache:';
-const CACHE_METADATA_PREFIX = '@safari_ops_cache_meta:';
+export const CACHE_PREFIX = '@safari_ops_cache:';
+export const CACHE_METADATA_PREFIX = '@safari_ops_cache_meta:';
 
 // Default cache expiration time (1 hour in milliseconds)
 const DEFAULT_EXPIRATION = 60 * 60 * 1000;
 
+// Default budget: well under Android's 6 MB AsyncStorage limit, which the
+// offline queue and auth session share with the cache
+const DEFAULT_BUDGET_BYTES = 3 * 1024 * 1024;
+
+let cacheBudgetBytes = DEFAULT_BUDGET_BYTES;
+
 interface CacheMetadata {
   timestamp: number;
   expiration: number;
+  size?: number; // bytes of the stored value (entries from older versions lack it)
+  lastAccessed?: number;
+  pinned?: boolean;
+}
+
+export interface CacheOptions {
+  /** Keep the entry when evicting to stay within budget. Defaults to true for PINNED_CACHE_KEYS. */
+  pinned?: boolean;
+}
+
+export interface CacheUsageEntry {
+  key: string;
+  bytes: number;
+  pinned: boolean;
+  lastAccessed: number;
+}
+
+export interface CacheUsage {
+  totalBytes: number;
+  pinnedBytes: number;
+  budgetBytes: number;
+  entries: CacheUsageEntry[]; // largest first
 }
 
 interface CacheEntry<T> {
@@ -28,21 +63,29 @@ interface CacheEntry<T> {
 export async function setCache<T>(
   key: string,
   data: T,
-  expirationMs: number = DEFAULT_EXPIRATION
+  expirationMs: number = DEFAULT_EXPIRATION,
+  options: CacheOptions = {}
 ): Promise<void> {
   try {
     const cacheKey = CACHE_PREFIX + key;
     const metaKey = CACHE_METADATA_PREFIX + key;
+    const stored = await StorageCipher.shared.encrypt(JSON.stringify(data));
+    const now = Date.now();
 
     const metadata: CacheMetadata = {
-      timestamp: Date.now(),
+      timestamp: now,
       expiration: expirationMs,
+      size: utf8ByteLength(stored),
+      lastAccessed: now,
+      pinned: options.pinned ?? PINNED_CACHE_KEYS.includes(key),
     };
 
     await AsyncStorage.multiSet([
-      [cacheKey, JSON.stringify(data)],
+      [cacheKey, stored],
       [metaKey, JSON.stringify(metadata)],
     ]);
+
+    await enforceCacheBudget(key);
   } catch (error) {
     console.error('[Cache] Error saving to cache:', error);
   }
@@ -74,7 +117,9 @@ export async function getCache<T>(key: string): Promise<T | null> {
       return null;
     }
 
-    return JSON.parse(dataResult) as T;
+    const data = JSON.parse(await StorageCipher.shared.decrypt(dataResult)) as T;
+    await touchCache(key, metadata);
+    return data;
   } catch (error) {
     console.error('[Cache] Error reading from cache:', error);
     return null;
@@ -101,13 +146,16 @@ export async function getCacheForOffline<T>(key: string): Promise<{
       return { data: null, isExpired: true, timestamp: null };
     }
 
-    const data = JSON.parse(dataResult) as T;
+    const data = JSON.parse(await StorageCipher.shared.decrypt(dataResult)) as T;
     const metadata: CacheMetadata = metaResult
       ? JSON.parse(metaResult)
       : { timestamp: 0, expiration: 0 };
 
     const now = Date.now();
     const isExpired = now - metadata.timestamp > metadata.expiration;
+    if (metaResult) {
+      await touchCache(key, metadata);
+    }
 
     return {
       data,
@@ -120,6 +168,20 @@ export async function getCacheForOffline<T>(key: string): Promise<{
   }
 }
 
+/**
+ * Record a read so LRU eviction keeps recently used entries
+ */
+async function touchCache(key: string, metadata: CacheMetadata): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      CACHE_METADATA_PREFIX + key,
+      JSON.stringify({ ...metadata, lastAccessed: Date.now() })
+    );
+  } catch (error) {
+    console.error('[Cache] Error updating access time:', error);
+  }
+}
+
 /**
  * Remove a specific cache entry
  */
@@ -151,6 +213,139 @@ export async function clearAllCache(): Promise<void> {
   }
 }
 
+/**
+ * Clear cached data except pinned entries
+ */
+export async function clearUnpinnedCache(): Promise<void> {
+  try {
+    const unpinned = (await readCacheEntries()).filter((entry) => !entry.pinned);
+    if (unpinned.length > 0) {
+      await AsyncStorage.multiRemove(
+        unpinned.flatMap(({ key }) => [CACHE_PREFIX + key, CACHE_METADATA_PREFIX + key])
+      );
+    }
+  } catch (error) {
+    console.error('[Cache] Error clearing unpinned cache:', error);
+  }
+}
+
+/**
+ * Pin or unpin an existing entry
+ */
+export async function setCachePinned(key: string, pinned: boolean): Promise<void> {
+  try {
+    const metaKey = CACHE_METADATA_PREFIX + key;
+    const metaResult = await AsyncStorage.getItem(metaKey);
+    if (!metaResult) return;
+
+    const metadata: CacheMetadata = JSON.parse(metaResult);
+    await AsyncStorage.setItem(metaKey, JSON.stringify({ ...metadata, pinned }));
+  } catch (error) {
+    console.error('[Cache] Error pinning cache entry:', error);
+  }
+}
+
+/**
+ * Set the byte budget for cached data and evict down to it
+ */
+export async function setCacheBudget(bytes: number): Promise<void> {
+  cacheBudgetBytes = Math.max(0, bytes);
+  await enforceCacheBudget();
+}
+
+export function getCacheBudget(): number {
+  return cacheBudgetBytes;
+}
+
+/**
+ * Read size, access time and pin state for every cache entry
+ */
+async function readCacheEntries(): Promise<CacheUsageEntry[]> {
+  const allKeys = await AsyncStorage.getAllKeys();
+  const keys = allKeys
+    .filter((key) => key.startsWith(CACHE_PREFIX))
+    .map((key) => key.slice(CACHE_PREFIX.length));
+  if (keys.length === 0) return [];
+
+  const metaResults = await AsyncStorage.multiGet(keys.map((key) => CACHE_METADATA_PREFIX + key));
+  const metadata = metaResults.map(([, value]) => (value ? (JSON.parse(value) as CacheMetadata) : null));
+
+  // Entries written before byte accounting: measure the stored value
+  const unsized = keys.filter((_, i) => metadata[i]?.size === undefined);
+  const measured: Record<string, number> = {};
+  if (unsized.length > 0) {
+    const dataResults = await AsyncStorage.multiGet(unsized.map((key) => CACHE_PREFIX + key));
+    dataResults.forEach(([cacheKey, value]) => {
+      measured[cacheKey.slice(CACHE_PREFIX.length)] = value ? utf8ByteLength(value) : 0;
+    });
+  }
+
+  return keys.map((key, i) => {
+    const meta = metadata[i];
+    return {
+      key,
+      bytes: meta?.size ?? measured[key] ?? 0,
+      pinned: meta?.pinned ?? false,
+      lastAccessed: meta?.lastAccessed ?? meta?.timestamp ?? 0,
+    };
+  });
+}
+
+/**
+ * Evict least recently used, unpinned entries until the cache fits its budget.
+ * `keep` (the entry just written) is never evicted.
+ */
+async function enforceCacheBudget(keep?: string): Promise<string[]> {
+  try {
+    const entries = await readCacheEntries();
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    if (total <= cacheBudgetBytes) return [];
+
+    const candidates = entries
+      .filter((entry) => !entry.pinned && entry.key !== keep)
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    const evicted: string[] = [];
+    for (const entry of candidates) {
+      if (total <= cacheBudgetBytes) break;
+      evicted.push(entry.key);
+      total -= entry.bytes;
+    }
+
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(
+        evicted.flatMap((key) => [CACHE_PREFIX + key, CACHE_METADATA_PREFIX + key])
+      );
+      devLog(`[Cache] Evicted ${evicted.length} entries to stay within ${cacheBudgetBytes} bytes`);
+    }
+    if (total > cacheBudgetBytes) {
+      console.warn(`[Cache] Over budget after eviction (${total} bytes); remaining entries are pinned or just written`);
+    }
+    return evicted;
+  } catch (error) {
+    console.error('[Cache] Error enforcing cache budget:', error);
+    return [];
+  }
+}
+
+/**
+ * Get byte usage of the cache against its budget
+ */
+export async function getCacheUsage(): Promise<CacheUsage> {
+  try {
+    const entries = (await readCacheEntries()).sort((a, b) => b.bytes - a.bytes);
+    return {
+      totalBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+      pinnedBytes: entries.filter((entry) => entry.pinned).reduce((sum, entry) => sum + entry.bytes, 0),
+      budgetBytes: cacheBudgetBytes,
+      entries,
+    };
+  } catch (error) {
+    console.error('[Cache] Error getting cache usage:', error);
+    return { totalBytes: 0, pinnedBytes: 0, budgetBytes: cacheBudgetBytes, entries: [] };
+  }
+}
+
 /**
  * Get cache statistics
  */
@@ -182,6 +377,18 @@ export const CACHE_KEYS = {
   NOTIFICATIONS: 'notifications',
 } as const;
 
+// The query layer persists each result under this prefix plus its hashed key
+// (the key as JSON, see hashQueryKey in queryClient)
+export const QUERY_CACHE_PREFIX = 'query:';
+
+// Datasets needed in the field without signal; never evicted. Today's
+// bookings come from the unfiltered bookings list, active safaris from the
+// safari list.
+export const PINNED_CACHE_KEYS: string[] = [
+  QUERY_CACHE_PREFIX + JSON.stringify(['bookings', 'all']),
+  QUERY_CACHE_PREFIX + JSON.stringify(['safaris']),
+];
+
 // Cache expiration times
 export const CACHE_EXPIRATION = {
   SHORT: 5 * 60 * 1000, // 5 minutes
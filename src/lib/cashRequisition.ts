@@ -1,20 +1,17 @@
-import type { CashRequisition, Currency } from '../types/dashboard';
+import { validateRow } from '../../sdk/schema/validators';
+import type { CashRequisition } from '../types/dashboard';
+import type { FinancialTransactionRow } from '../../sdk/schema/tables';
 
-function pickFirstString(...values: unknown[]): string | undefined {
-  for (const value of values) {
-    if (typeof value === 'string' && value.trim().length > 0) {
-      return value;
-    }
-  }
+const CR_NUMBER_REGEX = /CR-\d{4}-\d{4}/;
 
-  return undefined;
-}
-
-function toCurrency(value: unknown): Currency {
-  return value === 'UGX' || value === 'KES' ? value : 'USD';
-}
+/**
+ * Validate a cash_requisitions row and attach its approver join.
+ * Returns null when the row has no usable id.
+ */
+export function normalizeCashRequisition(record: Record<string, unknown>): CashRequisition | null {
+  const row = validateRow('cash_requisitions', record);
+  if (!row) return null;
 
-export function normalizeCashRequisition(record: Record<string, unknown>): CashRequisition {
   // Handle nested approver join from Supabase (profiles table)
   const approverRaw = record.approver as Record<string, unknown> | null | undefined;
   const approver = approverRaw
@@ -24,41 +21,31 @@ export function normalizeCashRequisition(record: Record<string, unknown>): CashR
       }
     : null;
 
-  return {
-    id: String(record.id ?? ''),
-    cr_number: String(record.cr_number ?? record.reference_number ?? ''),
-    total_cost: Number(record.total_cost ?? record.amount ?? 0),
-    currency: toCurrency(record.currency),
-    status: String(record.status ?? 'Pending') as CashRequisition['status'],
-    date_needed: String(record.date_needed ?? record.created_at ?? new Date().toISOString()),
-    expense_category: String(record.expense_category ?? record.category ?? 'Uncategorized'),
-    date_completed:
-      typeof record.date_completed === 'string' ? record.date_completed : undefined,
-    created_at: String(record.created_at ?? new Date().toISOString()),
-    amount_usd:
-      typeof record.amount_usd === 'number'
-        ? record.amount_usd
-        : typeof record.amount_usd === 'string'
-          ? Number(record.amount_usd)
-          : undefined,
-    description: pickFirstString(
-      record.description,
-      record.purpose,
-      record.notes,
-      record.details,
-      record.reason
-    ),
-    requester_id:    typeof record.requester_id === 'string' ? record.requester_id : null,
-    purpose:         typeof record.purpose === 'string' ? record.purpose : undefined,
-    department:      typeof record.department === 'string' ? record.department : undefined,
-    payment_mode:    typeof record.payment_mode === 'string' ? record.payment_mode : undefined,
-    payee_name:      typeof record.payee_name === 'string' ? record.payee_name : undefined,
-    requested_by:    pickFirstString(record.requested_by, record.requestor, record.requestedBy),
-    requester_name:  pickFirstString(record.requester_name, record.requested_by, record.requestor),
-    requester_email: typeof record.requester_email === 'string' ? record.requester_email : undefined,
-    approver_id:  typeof record.approver_id === 'string' ? record.approver_id : null,
-    approved_at:  typeof record.approved_at === 'string' ? record.approved_at : null,
-    declined_at:  typeof record.declined_at === 'string' ? record.declined_at : null,
-    approver,
-  };
+  return { ...row, approver };
+}
+
+/**
+ * Whether a transaction records a requisition's spend, either as a copy of a
+ * known CR or as a CR ledger entry. Totals that count the requisitions skip
+ * these so the money isn't counted twice.
+ */
+export function isCRLinkedTransaction(
+  transaction: Pick<FinancialTransactionRow, 'reference_number' | 'description'>,
+  crNumbers: Set<string>
+): boolean {
+  const isCRDuplicate =
+    transaction.reference_number &&
+    crNumbers.has(transaction.reference_number);
+  const isCRLedger =
+    CR_NUMBER_REGEX.test(String(transaction.description ?? '')) ||
+    String(transaction.reference_number ?? '').startsWith('CR-');
+  return Boolean(isCRDuplicate || isCRLedger);
+}
+
+/**
+ * Fuel spend is taken from the fuel logs, so fuel-category CRs and
+ * transactions are left out of expense totals to avoid counting it twice
+ */
+export function isFuelExpense(category: string | null | undefined): boolean {
+  return /\bfuel\b/i.test(category ?? '');
 }
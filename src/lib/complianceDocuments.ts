@@ -0,0 +1,242 @@
+import { Linking } from 'react-native';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { supabase } from './supabase';
+import { queueWrite, createClientId, type QueuedWriteResult } from './offlineSync';
+import { isoDay } from './payments';
+import type { ComplianceDocumentRow, DocumentType } from '../../sdk/schema/tables';
+
+/**
+ * Compliance documents
+ *
+ * The papers a vehicle or driver must carry — insurance, road licence,
+ * inspection certificate, cross-border permits, driving permit — each with
+ * an expiry date and optionally a scan. Renewing a document means adding the
+ * new one; the latest of each kind is the current one and older copies stay
+ * as history. The daily send_document_expiry_alerts job (see the
+ * compliance_documents migration) alerts managers at the ALERT_DAYS marks.
+ */
+
+/** Days before expiry that alerts go out — keep in step with the migration */
+export const ALERT_DAYS = [30, 14, 3] as const;
+
+/** Documents are flagged from the first alert onwards */
+export const EXPIRING_DAYS = ALERT_DAYS[0];
+
+export const DOCUMENT_BUCKET = 'compliance-documents';
+
+export const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  insurance:           'Insurance',
+  road_licence:        'Road licence',
+  inspection:          'Inspection certificate',
+  cross_border_permit: 'Cross-border permit',
+  driving_permit:      'Driving permit',
+  passport:            'Passport',
+  other:               'Other',
+};
+
+export const VEHICLE_DOCUMENT_TYPES: DocumentType[] = ['insurance', 'road_licence', 'inspection', 'cross_border_permit', 'other'];
+export const DRIVER_DOCUMENT_TYPES: DocumentType[]  = ['driving_permit', 'passport', 'cross_border_permit', 'other'];
+
+/** A vehicle or driver can't go out with one of these lapsed */
+export const REQUIRED_DOCUMENT_TYPES: DocumentType[] = ['insurance', 'road_licence', 'inspection', 'driving_permit'];
+
+export const BORDER_COUNTRIES = [
+  { code: 'UG', name: 'Uganda' },
+  { code: 'KE', name: 'Kenya' },
+  { code: 'RW', name: 'Rwanda' },
+  { code: 'TZ', name: 'Tanzania' },
+] as const;
+
+export type DocumentOwner =
+  | { kind: 'vehicle'; id: string; label: string }
+  | { kind: 'guide'; id: string; label: string };
+
+export type DocumentState = 'expired' | 'expiring' | 'valid';
+
+function day(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00`);
+}
+
+export function formatDocumentDay(value: string): string {
+  return format(day(value), 'd MMM yyyy');
+}
+
+/** "Cross-border permit (KE, TZ)" */
+export function documentTitle(doc: Pick<ComplianceDocumentRow, 'doc_type' | 'countries'>): string {
+  const label = DOCUMENT_LABELS[doc.doc_type];
+  return doc.countries.length > 0 ? `${label} (${doc.countries.join(', ')})` : label;
+}
+
+export function daysToExpiry(doc: Pick<ComplianceDocumentRow, 'expires_on'>, today: string = isoDay()): number {
+  return differenceInCalendarDays(day(doc.expires_on), day(today));
+}
+
+/** A document is valid through its expiry date */
+export function documentState(doc: Pick<ComplianceDocumentRow, 'expires_on'>, today: string = isoDay()): DocumentState {
+  const daysLeft = daysToExpiry(doc, today);
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= EXPIRING_DAYS) return 'expiring';
+  return 'valid';
+}
+
+/** "Expired 3 days ago", "Expires today", "Expires in 12 days", "Valid to 4 Jun 2027" */
+export function expiryLabel(doc: Pick<ComplianceDocumentRow, 'expires_on'>, today: string = isoDay()): string {
+  const daysLeft = daysToExpiry(doc, today);
+  if (daysLeft < 0)   return `Expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`;
+  if (daysLeft === 0) return 'Expires today';
+  if (daysLeft <= EXPIRING_DAYS) return `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+  return `Valid to ${formatDocumentDay(doc.expires_on)}`;
+}
+
+function ownerKey(doc: ComplianceDocumentRow): string {
+  return `${doc.vehicle_id ?? ''}:${doc.guide_id ?? ''}:${doc.doc_type}:${[...doc.countries].sort().join(',')}`;
+}
+
+/**
+ * The latest document of each kind per owner — renewals supersede older
+ * copies. "Other" documents are each their own kind.
+ */
+export function currentDocuments(docs: ComplianceDocumentRow[]): ComplianceDocumentRow[] {
+  const latest = new Map<string, ComplianceDocumentRow>();
+  for (const doc of docs) {
+    const key = doc.doc_type === 'other' ? doc.id : ownerKey(doc);
+    const seen = latest.get(key);
+    if (!seen || doc.expires_on > seen.expires_on) latest.set(key, doc);
+  }
+  return docs.filter((doc) => latest.get(doc.doc_type === 'other' ? doc.id : ownerKey(doc)) === doc);
+}
+
+// ─── Booking checks ───────────────────────────────────────────────────────────
+
+export interface DocumentIssue {
+  document: ComplianceDocumentRow;
+  owner: 'vehicle' | 'driver';
+  /** Required documents block the booking; the rest only warn */
+  blocking: boolean;
+  message: string;
+}
+
+/**
+ * Documents of the booked vehicle and driver that lapse before the booking
+ * ends. A document without a record is not flagged — the registry may not be
+ * complete — but one on file that runs out mid-trip is.
+ */
+export function bookingDocumentIssues(
+  docs: ComplianceDocumentRow[],
+  assignment: { vehicleId?: string | null; guideId?: string | null },
+  startDate: string,
+  endDate: string,
+): DocumentIssue[] {
+  if (!endDate || (!assignment.vehicleId && !assignment.guideId)) return [];
+
+  const issues: DocumentIssue[] = [];
+  for (const doc of currentDocuments(docs)) {
+    const owner = doc.vehicle_id && doc.vehicle_id === assignment.vehicleId ? 'vehicle'
+      : doc.guide_id && doc.guide_id === assignment.guideId ? 'driver'
+      : null;
+    if (!owner || doc.expires_on.slice(0, 10) >= endDate.slice(0, 10)) continue;
+
+    const lapsed = startDate && doc.expires_on.slice(0, 10) < startDate.slice(0, 10);
+    issues.push({
+      document: doc,
+      owner,
+      blocking: REQUIRED_DOCUMENT_TYPES.includes(doc.doc_type),
+      message: `${owner === 'vehicle' ? 'Vehicle' : 'Driver'} ${documentTitle(doc).toLowerCase()} ` +
+        (lapsed ? `expired on ${formatDocumentDay(doc.expires_on)}` : `expires ${formatDocumentDay(doc.expires_on)}, during the booking`),
+    });
+  }
+  return issues.sort((a, b) => Number(b.blocking) - Number(a.blocking) || a.document.expires_on.localeCompare(b.document.expires_on));
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export interface DocumentScan {
+  uri: string;
+  name: string;
+  mimeType?: string | null;
+}
+
+export interface DocumentInput {
+  docType: DocumentType;
+  countries: string[];
+  number: string;
+  issuedOn: string | null;
+  expiresOn: string;
+  notes: string;
+  /** A newly picked scan; leave out to keep the current one */
+  scan?: DocumentScan | null;
+}
+
+/**
+ * Upload a picked scan. Storage has no offline queue, so this needs a
+ * connection — the document row itself is queued as usual afterwards.
+ */
+async function uploadScan(owner: DocumentOwner, documentId: string, scan: DocumentScan): Promise<string> {
+  const safeName = scan.name.replace(/[^\w.-]+/g, '_');
+  const path = `${owner.kind}/${owner.id}/${documentId}-${safeName}`;
+
+  const body = await fetch(scan.uri).then((res) => res.arrayBuffer());
+  const { error } = await supabase.storage.from(DOCUMENT_BUCKET).upload(path, body, {
+    contentType: scan.mimeType || 'application/octet-stream',
+    upsert: true,
+  });
+  if (error) {
+    console.error('[ComplianceDocuments] Scan upload failed:', error.message);
+    throw new Error('Could not upload the scan. Check your connection and try again.');
+  }
+  return path;
+}
+
+export async function saveDocument(
+  owner: DocumentOwner,
+  input: DocumentInput,
+  existing?: ComplianceDocumentRow,
+): Promise<QueuedWriteResult> {
+  const id = existing?.id ?? createClientId();
+  const scanPath = input.scan ? await uploadScan(owner, id, input.scan) : undefined;
+
+  const fields = {
+    doc_type:   input.docType,
+    countries:  input.docType === 'cross_border_permit' ? input.countries : [],
+    number:     input.number.trim() || null,
+    issued_on:  input.issuedOn,
+    expires_on: input.expiresOn,
+    notes:      input.notes.trim() || null,
+    ...(input.scan && { file_path: scanPath, file_name: input.scan.name }),
+  };
+  const label = `${DOCUMENT_LABELS[input.docType]} for ${owner.label}`;
+
+  if (existing) {
+    const result = await queueWrite('UPDATE', 'compliance_documents', {
+      id, ...fields, updated_at: new Date().toISOString(),
+    }, { label: `Update ${label.toLowerCase()}` });
+    if (scanPath && existing.file_path && existing.file_path !== scanPath) {
+      void supabase.storage.from(DOCUMENT_BUCKET).remove([existing.file_path]);
+    }
+    return result;
+  }
+  return queueWrite('CREATE', 'compliance_documents', {
+    id,
+    vehicle_id: owner.kind === 'vehicle' ? owner.id : null,
+    guide_id:   owner.kind === 'guide' ? owner.id : null,
+    ...fields,
+  }, { label: `Add ${label.toLowerCase()}` });
+}
+
+export async function removeDocument(doc: ComplianceDocumentRow, ownerLabel: string): Promise<QueuedWriteResult> {
+  const result = await queueWrite('DELETE', 'compliance_documents', { id: doc.id }, {
+    label: `Remove ${documentTitle(doc).toLowerCase()} for ${ownerLabel}`,
+  });
+  if (doc.file_path) void supabase.storage.from(DOCUMENT_BUCKET).remove([doc.file_path]);
+  return result;
+}
+
+/** Open the scan through a short-lived signed link (the bucket is private) */
+export async function openDocumentScan(doc: ComplianceDocumentRow): Promise<void> {
+  if (!doc.file_path) return;
+  const { data, error } = await supabase.storage.from(DOCUMENT_BUCKET).createSignedUrl(doc.file_path, 300);
+  if (error || !data?.signedUrl) {
+    throw new Error(error?.message || 'Could not open the scan.');
+  }
+  await Linking.openURL(data.signedUrl);
+}
@@ -0,0 +1,269 @@
+import { supabase } from './supabase';
+import {
+  queueGroup,
+  queueWrite,
+  createClientId,
+  type QueuedGroupResult,
+  type QueuedNotification,
+  type QueuedWriteResult,
+  type SyncStep,
+} from './offlineSync';
+import { isoDay } from './payments';
+import type {
+  ApprovalDelegationRow,
+  CashRequisitionRow,
+  CRApprovalRuleRow,
+  CRApprovalRuleStep,
+  CRApprovalStepRow,
+  CRStepStatus,
+  Currency,
+} from '../../sdk/schema/tables';
+
+/**
+ * Cash requisition approval chains
+ *
+ * A requisition's amount in USD picks the rule whose min_amount_usd is the
+ * highest one at or below it; the rule lists the approvers in order. The
+ * cr_approval_chains migration builds each requisition's steps from the rule
+ * when it is raised or resubmitted, and act_on_cr_step moves it along. A
+ * trigger rejects any other change to Approved or Declined, so the chain
+ * can't be skipped from a stale device. The app previews the chain on the
+ * form and decides who may act, using the same rules.
+ */
+
+export type ApprovalAction = 'approve' | 'decline' | 'return';
+
+export const STEP_STATUS_LABELS: Record<CRStepStatus, string> = {
+  waiting:  'Waiting',
+  pending:  'Awaiting decision',
+  approved: 'Approved',
+  declined: 'Declined',
+  returned: 'Returned for changes',
+};
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+/**
+ * The requisition's amount in USD; keep in step with cr_amount_usd in the
+ * migration. `usdRate` gives units of a currency per USD.
+ */
+export function crAmountUsd(
+  cr: Pick<CashRequisitionRow, 'amount_usd' | 'total_cost' | 'currency'>,
+  usdRate: (currency: Currency) => number,
+): number {
+  if (cr.amount_usd != null) return cr.amount_usd;
+  if (cr.currency === 'USD') return cr.total_cost;
+  return cr.total_cost / (usdRate(cr.currency) || 1);
+}
+
+export function ruleForAmount(rules: CRApprovalRuleRow[], amountUsd: number): CRApprovalRuleRow | null {
+  return rules
+    .filter((r) => r.min_amount_usd <= amountUsd)
+    .reduce<CRApprovalRuleRow | null>((best, r) => (!best || r.min_amount_usd > best.min_amount_usd ? r : best), null);
+}
+
+export interface ChainPreviewStep {
+  label: string;
+  /** Null until the requester picks their approver */
+  approverId: string | null;
+}
+
+/** The steps a new requisition would go through */
+export function previewChain(
+  rules: CRApprovalRuleRow[],
+  amountUsd: number,
+  chosenApproverId: string | null,
+): ChainPreviewStep[] {
+  const rule = ruleForAmount(rules, amountUsd);
+  if (!rule) return [{ label: 'Approver', approverId: chosenApproverId }];
+  return rule.steps.map((step) => ({ label: step.label, approverId: step.approver_id ?? chosenApproverId }));
+}
+
+/** Whether any rule step goes to the approver chosen on the form */
+export function usesChosenApprover(rules: CRApprovalRuleRow[], amountUsd: number): boolean {
+  const rule = ruleForAmount(rules, amountUsd);
+  return !rule || rule.steps.some((s) => s.approver_id === null);
+}
+
+// ─── A requisition's chain ────────────────────────────────────────────────────
+
+/** The latest round of a requisition's steps, in order */
+export function currentChain(steps: CRApprovalStepRow[], crId: string): CRApprovalStepRow[] {
+  const own = steps.filter((s) => s.cr_id === crId);
+  const round = own.reduce((max, s) => Math.max(max, s.round), 0);
+  return own.filter((s) => s.round === round).sort((a, b) => a.position - b.position);
+}
+
+/** Earlier rounds, newest first — their comments explain past returns */
+export function earlierRounds(steps: CRApprovalStepRow[], crId: string): CRApprovalStepRow[] {
+  const own = steps.filter((s) => s.cr_id === crId);
+  const round = own.reduce((max, s) => Math.max(max, s.round), 0);
+  return own
+    .filter((s) => s.round < round && s.status !== 'waiting' && s.status !== 'pending')
+    .sort((a, b) => b.round - a.round || a.position - b.position);
+}
+
+export function pendingStep(chain: CRApprovalStepRow[]): CRApprovalStepRow | null {
+  return chain.find((s) => s.status === 'pending') ?? null;
+}
+
+/** "Step 2 of 3 · Finance manager" */
+export function chainPosition(chain: CRApprovalStepRow[]): string | null {
+  const step = pendingStep(chain);
+  if (!step) return null;
+  return `Step ${step.position} of ${chain.length} · ${step.label}`;
+}
+
+// ─── Delegation ───────────────────────────────────────────────────────────────
+
+export function isActiveDelegation(d: ApprovalDelegationRow, today: string = isoDay()): boolean {
+  return d.starts_on.slice(0, 10) <= today && d.ends_on.slice(0, 10) >= today;
+}
+
+/** Keep in step with can_act_for in the migration */
+export function canActFor(
+  approverId: string,
+  userId: string | undefined,
+  delegations: ApprovalDelegationRow[],
+  today: string = isoDay(),
+): boolean {
+  if (!userId) return false;
+  if (approverId === userId) return true;
+  return delegations.some((d) =>
+    d.approver_id === approverId && d.delegate_id === userId && isActiveDelegation(d, today));
+}
+
+/**
+ * Whether a user may decide a step: its approver, their delegate, or someone
+ * it was escalated to past its SLA. Keep in step with act_on_cr_step.
+ */
+export function canActOnStep(
+  step: Pick<CRApprovalStepRow, 'approver_id' | 'escalated_to'>,
+  userId: string | undefined,
+  delegations: ApprovalDelegationRow[],
+): boolean {
+  return canActFor(step.approver_id, userId, delegations) || (!!userId && step.escalated_to.includes(userId));
+}
+
+/** Who is covering for an approver today, if anyone */
+export function delegatesFor(approverId: string, delegations: ApprovalDelegationRow[]): string[] {
+  return delegations.filter((d) => d.approver_id === approverId && isActiveDelegation(d)).map((d) => d.delegate_id);
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export interface ApprovalResult {
+  crStatus: string;
+  nextApproverId: string | null;
+}
+
+/** Decide the step a requisition is waiting on. Needs a connection: the chain moves on the server. */
+export async function actOnRequisition(crId: string, action: ApprovalAction, comment: string): Promise<ApprovalResult> {
+  const { data, error } = await supabase.rpc('act_on_cr_step', {
+    p_cr_id:   crId,
+    p_action:  action,
+    p_comment: comment.trim() || null,
+  });
+  if (error) throw error;
+
+  const row = (Array.isArray(data) ? data[0] : data) as { cr_status?: string; next_approver_id?: string | null } | null;
+  return { crStatus: row?.cr_status ?? 'Pending', nextApproverId: row?.next_approver_id ?? null };
+}
+
+export interface ResubmitInput {
+  purpose: string;
+  totalCost: number;
+  amountUsd: number;
+}
+
+/** Send a returned requisition back into the chain, from its first step */
+export async function resubmitRequisition(
+  cr: CashRequisitionRow,
+  input: ResubmitInput,
+  notification?: QueuedNotification,
+): Promise<QueuedWriteResult> {
+  return queueWrite('UPDATE', 'cash_requisitions', {
+    id:         cr.id,
+    purpose:    input.purpose.trim(),
+    total_cost: input.totalCost,
+    // The form raises requisitions as a single item
+    unit_cost:  input.totalCost,
+    amount_usd: input.amountUsd,
+    status:     'Pending',
+  }, { label: `Resubmit ${cr.cr_number}`, meta: { notification } });
+}
+
+export interface RuleInput {
+  id?: string;
+  minAmountUsd: number;
+  steps: CRApprovalRuleStep[];
+}
+
+/**
+ * Replace the rules with the edited set, removing any dropped, as one
+ * all-or-nothing save. min_amount_usd is unique, so a rule whose threshold
+ * changed is removed and added again, and every removal goes first: no write
+ * can land on a threshold another rule still holds.
+ */
+export async function saveApprovalRules(existing: CRApprovalRuleRow[], rules: RuleInput[]): Promise<QueuedGroupResult> {
+  const current = new Map(existing.map((rule) => [rule.id, rule]));
+  const updated = new Set(rules
+    .filter((r) => r.id && current.get(r.id)?.min_amount_usd === r.minAmountUsd)
+    .map((r) => r.id));
+
+  const steps: SyncStep[] = existing
+    .filter((rule) => !updated.has(rule.id))
+    .map((rule) => ({
+      type:     'DELETE',
+      resource: 'cr_approval_rules',
+      data:     { id: rule.id },
+      options:  { label: `Remove approval rule from $${rule.min_amount_usd}` },
+    }));
+
+  for (const rule of rules) {
+    const fields = {
+      min_amount_usd: rule.minAmountUsd,
+      steps:          rule.steps.map((s) => ({ label: s.label.trim() || 'Approver', approver_id: s.approver_id })),
+      updated_at:     new Date().toISOString(),
+    };
+    steps.push(rule.id && updated.has(rule.id)
+      ? {
+          type:     'UPDATE',
+          resource: 'cr_approval_rules',
+          data:     { id: rule.id, ...fields },
+          options:  { label: `Update approval rule from $${rule.minAmountUsd}` },
+        }
+      : {
+          type:     'CREATE',
+          resource: 'cr_approval_rules',
+          data:     { id: createClientId(), ...fields },
+          options:  { label: `Add approval rule from $${rule.minAmountUsd}` },
+        });
+  }
+  return queueGroup(steps);
+}
+
+export interface DelegationInput {
+  approverId: string;
+  delegateId: string;
+  startsOn: string;
+  endsOn: string;
+  reason: string;
+}
+
+export async function saveDelegation(input: DelegationInput, delegateName: string): Promise<QueuedWriteResult> {
+  return queueWrite('CREATE', 'approval_delegations', {
+    id:          createClientId(),
+    approver_id: input.approverId,
+    delegate_id: input.delegateId,
+    starts_on:   input.startsOn,
+    ends_on:     input.endsOn,
+    reason:      input.reason.trim() || null,
+  }, { label: `Delegate approvals to ${delegateName}` });
+}
+
+export async function endDelegation(delegation: ApprovalDelegationRow, delegateName: string): Promise<QueuedWriteResult> {
+  return queueWrite('DELETE', 'approval_delegations', { id: delegation.id }, {
+    label: `End delegation to ${delegateName}`,
+  });
+}
@@ -0,0 +1,59 @@
+import type { CashRequisitionRow, CRUrgency } from '../../sdk/schema/tables';
+
+/**
+ * Cash requisition SLAs
+ *
+ * Each urgency gives the approver a set number of hours to decide. The
+ * cr_sla_escalation migration keeps sla_due_date current on the server —
+ * restarting it at each step of the chain — and escalates requisitions that
+ * run past it; the app only reads the deadline to flag them.
+ */
+
+/** Keep in step with cr_sla_hours in the migration */
+export const CR_SLA_HOURS: Record<CRUrgency, number> = {
+  Routine:   24,
+  Urgent:    8,
+  Emergency: 2,
+};
+
+/** Unknown urgencies get the Routine hours, as cr_sla_hours does */
+function slaHours(urgency: CRUrgency | null | undefined): number {
+  return (urgency && CR_SLA_HOURS[urgency]) || CR_SLA_HOURS.Routine;
+}
+
+/** Within this share of the SLA, a requisition counts as due soon */
+const DUE_SOON_SHARE = 0.25;
+
+export type SlaState = 'on_track' | 'due_soon' | 'breached';
+
+export function slaDueDate(urgency: CRUrgency, from: Date = new Date()): string {
+  return new Date(from.getTime() + slaHours(urgency) * 3_600_000).toISOString();
+}
+
+/** Only pending requisitions run against an SLA */
+export function slaState(
+  cr: Pick<CashRequisitionRow, 'status' | 'sla_due_date' | 'urgency'>,
+  now: number = Date.now(),
+): SlaState | null {
+  if (cr.status !== 'Pending' || !cr.sla_due_date) return null;
+  const left = new Date(cr.sla_due_date).getTime() - now;
+  if (isNaN(left)) return null;
+  if (left < 0) return 'breached';
+  return left <= slaHours(cr.urgency) * 3_600_000 * DUE_SOON_SHARE ? 'due_soon' : 'on_track';
+}
+
+function formatSpan(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+/** "5h left" or "Overdue 3h" */
+export function slaLabel(cr: Pick<CashRequisitionRow, 'sla_due_date'>, now: number = Date.now()): string | null {
+  if (!cr.sla_due_date) return null;
+  const left = new Date(cr.sla_due_date).getTime() - now;
+  if (isNaN(left)) return null;
+  return left < 0 ? `Overdue ${formatSpan(left)}` : `${formatSpan(left)} left`;
+}
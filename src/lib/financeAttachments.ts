@@ -0,0 +1,158 @@
+import { Linking } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import { supabase } from './supabase';
+import { queueWrite, createClientId, type QueuedWriteResult } from './offlineSync';
+import type { AttachmentKind, CashRequisitionRow, FinanceAttachmentRow } from '../../sdk/schema/tables';
+
+/**
+ * Receipts and supporting documents for cash requisitions and financial
+ * transactions. Files live in the private finance-attachments bucket; the
+ * finance_attachments rows point at them. The finance_attachments migration
+ * refuses to mark a requisition Completed until it has a receipt.
+ */
+
+export const ATTACHMENT_BUCKET = 'finance-attachments';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  receipt: 'Receipt',
+  invoice: 'Invoice',
+  other:   'Document',
+};
+
+/** What an attachment belongs to */
+export type AttachmentOwner =
+  | { kind: 'cr'; id: string; label: string }
+  | { kind: 'transaction'; id: string; label: string };
+
+export interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+export function attachmentsFor(attachments: FinanceAttachmentRow[], owner: Pick<AttachmentOwner, 'kind' | 'id'>): FinanceAttachmentRow[] {
+  return attachments.filter((a) => (owner.kind === 'cr' ? a.cr_id : a.transaction_id) === owner.id);
+}
+
+export function hasReceipt(attachments: FinanceAttachmentRow[], crId: string): boolean {
+  return attachments.some((a) => a.cr_id === crId && a.kind === 'receipt');
+}
+
+/** Approved requisitions still owe proof of spend before they can be completed */
+export function receiptMissing(cr: Pick<CashRequisitionRow, 'id' | 'status'>, attachments: FinanceAttachmentRow[]): boolean {
+  return cr.status === 'Approved' && !hasReceipt(attachments, cr.id);
+}
+
+export function isImage(file: { mime_type?: string | null; file_name?: string }): boolean {
+  return file.mime_type?.startsWith('image/') ?? /\.(jpe?g|png|heic|webp)$/i.test(file.file_name ?? '');
+}
+
+/**
+ * Short-lived links to the file and, for photos, a small thumbnail rendered
+ * by Storage (the bucket is private)
+ */
+export async function attachmentLinks(attachment: FinanceAttachmentRow): Promise<{ url: string; thumbUrl: string | null }> {
+  const bucket = supabase.storage.from(ATTACHMENT_BUCKET);
+  const [full, thumb] = await Promise.all([
+    bucket.createSignedUrl(attachment.file_path, 600),
+    isImage(attachment)
+      ? bucket.createSignedUrl(attachment.file_path, 600, { transform: { width: 240, height: 240, resize: 'cover' } })
+      : Promise.resolve(null),
+  ]);
+  if (full.error || !full.data?.signedUrl) {
+    throw new Error(full.error?.message || 'Could not open the attachment.');
+  }
+  return { url: full.data.signedUrl, thumbUrl: thumb?.data?.signedUrl ?? null };
+}
+
+export async function openAttachment(attachment: FinanceAttachmentRow): Promise<void> {
+  const { url } = await attachmentLinks(attachment);
+  await Linking.openURL(url);
+}
+
+// ─── Picking ──────────────────────────────────────────────────────────────────
+
+/** Photograph a receipt; null when cancelled */
+export async function captureReceipt(): Promise<PickedFile | null> {
+  const permission = await ImagePicker.requestCameraPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Camera access is off. Allow it in Settings to photograph receipts.');
+  }
+  const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.6 });
+  if (result.canceled || !result.assets?.[0]) return null;
+  const asset = result.assets[0];
+  return {
+    uri: asset.uri,
+    name: asset.fileName || `receipt-${Date.now()}.jpg`,
+    mimeType: asset.mimeType || 'image/jpeg',
+    size: asset.fileSize ?? null,
+  };
+}
+
+/** Pick a PDF or image from the device; null when cancelled */
+export async function pickAttachmentFile(): Promise<PickedFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/pdf', 'image/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.[0]) return null;
+  const asset = result.assets[0];
+  return { uri: asset.uri, name: asset.name, mimeType: asset.mimeType, size: asset.size ?? null };
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Upload a file and record it. Storage has no offline queue, so this needs a
+ * connection — the attachment row itself is queued as usual afterwards.
+ */
+export async function addAttachment(
+  owner: AttachmentOwner,
+  file: PickedFile,
+  kind: AttachmentKind = 'receipt',
+): Promise<QueuedWriteResult> {
+  const id = createClientId();
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${owner.kind}/${owner.id}/${id}-${safeName}`;
+
+  const body = await fetch(file.uri).then((res) => res.arrayBuffer());
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).upload(path, body, {
+    contentType: file.mimeType || 'application/octet-stream',
+  });
+  if (error) {
+    console.error('[FinanceAttachments] Upload failed:', error.message);
+    throw new Error('Could not upload the attachment. Check your connection and try again.');
+  }
+
+  return queueWrite('CREATE', 'finance_attachments', {
+    id,
+    cr_id:          owner.kind === 'cr' ? owner.id : null,
+    transaction_id: owner.kind === 'transaction' ? owner.id : null,
+    kind,
+    file_path:      path,
+    file_name:      file.name,
+    mime_type:      file.mimeType || null,
+    size_bytes:     file.size ?? null,
+  }, { label: `${ATTACHMENT_KIND_LABELS[kind]} for ${owner.label}` });
+}
+
+export async function removeAttachment(attachment: FinanceAttachmentRow, ownerLabel: string): Promise<QueuedWriteResult> {
+  const result = await queueWrite('DELETE', 'finance_attachments', { id: attachment.id }, {
+    label: `Remove ${ATTACHMENT_KIND_LABELS[attachment.kind].toLowerCase()} from ${ownerLabel}`,
+  });
+  void supabase.storage.from(ATTACHMENT_BUCKET).remove([attachment.file_path]);
+  return result;
+}
+
+/** Record that the money was paid out; the server refuses it without a receipt */
+export async function completeRequisition(cr: CashRequisitionRow): Promise<QueuedWriteResult> {
+  return queueWrite('UPDATE', 'cash_requisitions', {
+    id:             cr.id,
+    status:         'Completed',
+    date_completed: new Date().toISOString(),
+  }, { label: `Complete ${cr.cr_number}` });
+}
@@ -0,0 +1,322 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from './supabase';
+import { offlineSync } from './offlineSync';
+import type { Booking } from '../types/dashboard';
+import type { SafariBooking, SafariBookingPermit } from '../types/safari';
+import type { Currency } from '../../sdk/schema/tables';
+
+/**
+ * Quotes, proforma invoices and final invoices for vehicle bookings and
+ * safari bookings. Numbers are issued by the issue_invoice RPC (sequential per
+ * kind and year, reused when a document is shared again); the PDF itself is
+ * rendered on-device with expo-print and handed to the share sheet.
+ */
+
+export type InvoiceKind = 'quote' | 'proforma' | 'invoice';
+
+export const INVOICE_KIND_LABEL: Record<InvoiceKind, string> = {
+  quote:    'Quote',
+  proforma: 'Proforma Invoice',
+  invoice:  'Invoice',
+};
+
+export interface InvoiceLine {
+  description: string;
+  detail?: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface InvoiceDocument {
+  kind: InvoiceKind;
+  number: string;
+  issuedAt: string;
+  reference: string;
+  client: { name: string; contact?: string; email?: string; phone?: string };
+  period?: { start: string; end?: string };
+  lines: InvoiceLine[];
+  /** Items covered by the package price, listed without amounts */
+  included: { description: string; quantity: number }[];
+  total: number;
+  paid: number;
+  currency: Currency;
+  notes?: string;
+}
+
+/** What a document is issued for */
+export type InvoiceSource =
+  | { type: 'booking'; booking: Booking; vehicleName?: string }
+  | { type: 'safari'; safari: SafariBooking; permits: SafariBookingPermit[] };
+
+const COMPANY_NAME = 'Jackal Adventures';
+const QUOTE_VALID_DAYS = 14;
+
+// ─── Numbering ────────────────────────────────────────────────────────────────
+
+/**
+ * Issue the document number for a booking. Needs a connection, since numbers
+ * must stay sequential across every device.
+ */
+async function issueNumber(kind: InvoiceKind, source: InvoiceSource, total: number, paid: number, currency: Currency): Promise<string> {
+  if (!offlineSync.getStatus().isOnline) {
+    throw new Error('Document numbers are issued by the server. Connect to the internet and try again.');
+  }
+
+  const { data, error } = await supabase.rpc('issue_invoice', {
+    p_kind:              kind,
+    p_booking_id:        source.type === 'booking' ? source.booking.id : null,
+    p_safari_booking_id: source.type === 'safari' ? source.safari.id : null,
+    p_currency:          currency,
+    p_total:             total,
+    p_amount_paid:       paid,
+  });
+
+  if (error || !data?.invoice_number) {
+    console.error('[Invoices] Failed to issue number:', error?.message);
+    throw new Error(error?.message || 'Could not issue a document number. Please try again.');
+  }
+  return data.invoice_number as string;
+}
+
+// ─── Documents ────────────────────────────────────────────────────────────────
+
+function bookingDocument(kind: InvoiceKind, number: string, booking: Booking, vehicleName?: string): InvoiceDocument {
+  const currency = booking.currency || 'USD';
+  const total = booking.total_amount || booking.total_cost || 0;
+  const days = booking.number_of_days || 0;
+  const rate = booking.daily_rate || 0;
+
+  const lines: InvoiceLine[] = [];
+  if (rate > 0 && days > 0) {
+    lines.push({
+      description: booking.package_type || 'Vehicle hire',
+      detail:      vehicleName,
+      quantity:    days,
+      unitPrice:   rate,
+      amount:      rate * days,
+    });
+    // Discounts and extras agreed on the booking total
+    const adjustment = total - rate * days;
+    if (Math.abs(adjustment) >= 0.01) {
+      lines.push({
+        description: adjustment > 0 ? 'Additional charges' : 'Discount',
+        quantity:    1,
+        unitPrice:   adjustment,
+        amount:      adjustment,
+      });
+    }
+  } else {
+    lines.push({
+      description: booking.package_type || 'Vehicle hire',
+      detail:      vehicleName,
+      quantity:    1,
+      unitPrice:   total,
+      amount:      total,
+    });
+  }
+
+  return {
+    kind,
+    number,
+    issuedAt:  new Date().toISOString(),
+    reference: booking.booking_reference || booking.booking_number || booking.id.slice(0, 8).toUpperCase(),
+    client: {
+      name:    booking.client?.company_name || booking.client_name || 'Client',
+      contact: booking.contact_person,
+      email:   booking.email,
+      phone:   booking.contact,
+    },
+    period:   { start: booking.start_date, end: booking.end_date },
+    lines,
+    included: [],
+    total,
+    paid:     booking.amount_paid || 0,
+    currency,
+  };
+}
+
+function safariDocument(kind: InvoiceKind, number: string, safari: SafariBooking, permits: SafariBookingPermit[]): InvoiceDocument {
+  const ugx = safari.currency === 'UGX' && safari.total_price_ugx > 0;
+  const currency: Currency = ugx ? 'UGX' : 'USD';
+  const total = (ugx ? safari.total_price_ugx : safari.total_price_usd) || 0;
+  const pax = safari.pax_count || 0;
+
+  return {
+    kind,
+    number,
+    issuedAt:  new Date().toISOString(),
+    reference: safari.booking_reference || safari.id.slice(0, 8).toUpperCase(),
+    client: {
+      name:    safari.clients?.company_name || safari.customer_name || 'Client',
+      contact: safari.clients?.contact_person,
+      email:   safari.customer_email,
+    },
+    period: { start: safari.start_date, end: safari.end_date },
+    lines: [{
+      description: safari.safari_packages?.name || 'Safari package',
+      detail:      pax > 0 ? `${pax} traveller${pax === 1 ? '' : 's'}` : undefined,
+      quantity:    1,
+      unitPrice:   total,
+      amount:      total,
+    }],
+    // Permits are bought for the client and priced into the package
+    included: permits
+      .filter((p) => p.status !== 'cancelled')
+      .map((p) => ({
+        description: p.safari_permits?.permit_name || 'Permit',
+        quantity:    p.quantity || 1,
+      })),
+    total,
+    paid: safari.amount_paid || 0,
+    currency,
+  };
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+function money(amount: number, currency: Currency): string {
+  const decimals = currency === 'USD' ? 2 : 0;
+  const value = amount.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  return currency === 'USD' ? `$${value}` : `${currency} ${value}`;
+}
+
+function day(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function escape(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+/**
+ * Branded HTML for a document, in the app's palette
+ */
+export function invoiceHtml(doc: InvoiceDocument): string {
+  const title = INVOICE_KIND_LABEL[doc.kind];
+  const balance = Math.max(0, doc.total - doc.paid);
+  const showPayments = doc.kind !== 'quote';
+  const validUntil = new Date(Date.parse(doc.issuedAt) + QUOTE_VALID_DAYS * 86_400_000).toISOString();
+
+  const lineRows = doc.lines.map((l) => `
+    <tr>
+      <td>${escape(l.description)}${l.detail ? `<div class="muted">${escape(l.detail)}</div>` : ''}</td>
+      <td class="num">${l.quantity}</td>
+      <td class="num">${money(l.unitPrice, doc.currency)}</td>
+      <td class="num">${money(l.amount, doc.currency)}</td>
+    </tr>`).join('');
+
+  const includedRows = doc.included.length === 0 ? '' : `
+    <h3>Included in the package</h3>
+    <ul>${doc.included.map((i) => `<li>${escape(i.description)}${i.quantity > 1 ? ` × ${i.quantity}` : ''}</li>`).join('')}</ul>`;
+
+  const footerNote = doc.kind === 'quote'
+    ? `This quote is valid until ${day(validUntil)}. Prices are subject to availability at the time of booking.`
+    : doc.kind === 'proforma'
+      ? 'This proforma invoice is issued for payment purposes and is not a final tax invoice.'
+      : balance > 0
+        ? `Please settle the balance of ${money(balance, doc.currency)} quoting ${escape(doc.number)}.`
+        : 'Paid in full — thank you for travelling with us.';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #181512; margin: 0; padding: 36px; font-size: 12px; }
+  .brand { background: #171513; color: #fffaf3; padding: 22px 26px; border-radius: 14px; display: flex; justify-content: space-between; align-items: center; }
+  .brand h1 { margin: 0; font-size: 22px; letter-spacing: -0.4px; }
+  .brand .kind { color: #b8ab95; font-size: 11px; text-transform: uppercase; letter-spacing: 1.4px; text-align: right; }
+  .brand .no { font-size: 16px; font-weight: 800; color: #fffaf3; margin-top: 4px; }
+  .meta { display: flex; justify-content: space-between; margin: 24px 0; }
+  .meta h3, h3 { font-size: 10px; text-transform: uppercase; letter-spacing: 1px; color: #7f7565; margin: 0 0 6px; }
+  .meta p { margin: 2px 0; }
+  .muted { color: #7f7565; font-size: 11px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; letter-spacing: 0.8px; color: #7f7565; border-bottom: 2px solid #1f4d45; padding: 8px 6px; }
+  td { padding: 10px 6px; border-bottom: 1px solid #e1d7c8; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { margin-left: auto; width: 46%; margin-top: 16px; }
+  .totals td { border: none; padding: 5px 6px; }
+  .totals .grand td { border-top: 2px solid #1f4d45; font-size: 14px; font-weight: 800; color: #1f4d45; padding-top: 10px; }
+  .stamp { display: inline-block; border: 2px solid #3d8f6a; color: #3d8f6a; font-weight: 800; padding: 4px 12px; border-radius: 6px; letter-spacing: 2px; }
+  ul { margin: 4px 0 0 18px; padding: 0; }
+  .footer { margin-top: 32px; padding-top: 14px; border-top: 1px solid #e1d7c8; color: #7f7565; }
+</style>
+</head>
+<body>
+  <div class="brand">
+    <h1>${COMPANY_NAME}</h1>
+    <div>
+      <div class="kind">${title}</div>
+      <div class="no">${escape(doc.number)}</div>
+    </div>
+  </div>
+
+  <div class="meta">
+    <div>
+      <h3>Billed to</h3>
+      <p><strong>${escape(doc.client.name)}</strong></p>
+      ${doc.client.contact ? `<p>${escape(doc.client.contact)}</p>` : ''}
+      ${doc.client.email ? `<p>${escape(doc.client.email)}</p>` : ''}
+      ${doc.client.phone ? `<p>${escape(doc.client.phone)}</p>` : ''}
+    </div>
+    <div style="text-align:right">
+      <h3>Details</h3>
+      <p>Date: ${day(doc.issuedAt)}</p>
+      <p>Booking: ${escape(doc.reference)}</p>
+      ${doc.period ? `<p>Travel: ${day(doc.period.start)}${doc.period.end ? ` – ${day(doc.period.end)}` : ''}</p>` : ''}
+    </div>
+  </div>
+
+  <table>
+    <thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+    <tbody>${lineRows}</tbody>
+  </table>
+
+  ${includedRows}
+
+  <table class="totals">
+    ${showPayments ? `
+    <tr><td>Total</td><td class="num">${money(doc.total, doc.currency)}</td></tr>
+    <tr><td>Paid</td><td class="num">${money(doc.paid, doc.currency)}</td></tr>
+    <tr class="grand"><td>Balance due</td><td class="num">${money(balance, doc.currency)}</td></tr>` : `
+    <tr class="grand"><td>Total</td><td class="num">${money(doc.total, doc.currency)}</td></tr>`}
+  </table>
+
+  ${doc.kind === 'invoice' && balance === 0 ? '<p style="text-align:right"><span class="stamp">PAID</span></p>' : ''}
+
+  <div class="footer">${footerNote}</div>
+</body>
+</html>`;
+}
+
+// ─── Share ────────────────────────────────────────────────────────────────────
+
+/**
+ * Issue a number, render the document to PDF and open the share sheet.
+ * Returns the document number.
+ */
+export async function shareInvoice(kind: InvoiceKind, source: InvoiceSource): Promise<string> {
+  // Amounts come from the booking as it is now, so issuing refreshes them server-side
+  const draft = source.type === 'booking'
+    ? bookingDocument(kind, '', source.booking, source.vehicleName)
+    : safariDocument(kind, '', source.safari, source.permits);
+
+  const number = await issueNumber(kind, source, draft.total, draft.paid, draft.currency);
+  const doc = { ...draft, number };
+
+  const { uri } = await Print.printToFileAsync({ html: invoiceHtml(doc) });
+  console.log(`[Invoices] Rendered ${number}`);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType:    'application/pdf',
+    UTI:         'com.adobe.pdf',
+    dialogTitle: `${INVOICE_KIND_LABEL[kind]} ${number}`,
+  });
+  return number;
+}
@@ -0,0 +1,218 @@
+import { addMonths, differenceInCalendarDays } from 'date-fns';
+import { queueWrite, createClientId, type QueuedWriteResult } from './offlineSync';
+import { isoDay } from './payments';
+import { EXPIRING_DAYS, currentDocuments, documentTitle } from './complianceDocuments';
+import type { Vehicle, Repair } from '../types/dashboard';
+import type { ComplianceDocumentRow, ServicePlanRow } from '../../sdk/schema/tables';
+
+/**
+ * Maintenance scheduling
+ *
+ * A vehicle's service plans say how often each kind of work is needed —
+ * every N km, every N months, or whichever comes first. From the odometer
+ * and the date the work was last done we work out when it is due next. The
+ * daily run_maintenance_schedule job (see the maintenance_plans migration)
+ * does the same sums to open planned repairs and warn staff before the
+ * vehicle's next booking.
+ */
+
+/** Plans within this many days or km of coming due are flagged as due soon */
+export const DUE_SOON_DAYS = 14;
+export const DUE_SOON_KM   = 1000;
+
+export type MaintenanceState = 'overdue' | 'due_soon' | 'ok';
+
+export interface ServiceDue {
+  dueDate: string | null;
+  dueOdometer: number | null;
+  /** Negative once the date has passed */
+  daysLeft: number | null;
+  /** Negative once the odometer has passed the mark */
+  kmLeft: number | null;
+  state: MaintenanceState;
+}
+
+function day(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00`);
+}
+
+/**
+ * When a plan is next due, by date and by odometer, and whether that is
+ * overdue or close. Without a recorded odometer reading only the months count.
+ */
+export function serviceDue(plan: ServicePlanRow, odometer: number | null | undefined, today: string = isoDay()): ServiceDue {
+  const dueDate = plan.interval_months
+    ? isoDay(addMonths(day(plan.last_done_at), plan.interval_months))
+    : null;
+  const dueOdometer = plan.interval_km && plan.last_done_odometer != null
+    ? plan.last_done_odometer + plan.interval_km
+    : null;
+
+  const daysLeft = dueDate ? differenceInCalendarDays(day(dueDate), day(today)) : null;
+  const kmLeft   = dueOdometer != null && odometer != null ? dueOdometer - odometer : null;
+
+  return { dueDate, dueOdometer, daysLeft, kmLeft, state: stateOf(daysLeft, kmLeft) };
+}
+
+function stateOf(daysLeft: number | null, kmLeft: number | null): MaintenanceState {
+  if ((daysLeft != null && daysLeft < 0) || (kmLeft != null && kmLeft <= 0)) return 'overdue';
+  if ((daysLeft != null && daysLeft <= DUE_SOON_DAYS) || (kmLeft != null && kmLeft <= DUE_SOON_KM)) return 'due_soon';
+  return 'ok';
+}
+
+/** "Every 10,000 km or 6 months" */
+export function planInterval(plan: Pick<ServicePlanRow, 'interval_km' | 'interval_months'>): string {
+  const parts: string[] = [];
+  if (plan.interval_km)     parts.push(`${plan.interval_km.toLocaleString()} km`);
+  if (plan.interval_months) parts.push(`${plan.interval_months} month${plan.interval_months === 1 ? '' : 's'}`);
+  return `Every ${parts.join(' or ')}`;
+}
+
+// ─── Due list ─────────────────────────────────────────────────────────────────
+
+export interface MaintenanceItem {
+  key: string;
+  kind: 'service' | 'document';
+  vehicle: Vehicle;
+  label: string;
+  due: ServiceDue;
+  /** Absent for the vehicle's own next_service_date and for documents */
+  plan?: ServicePlanRow;
+  /** Planned repair already opened for the plan */
+  repair?: Repair;
+  /** Absent for the insurance_expiry of vehicles with no insurance on file */
+  document?: ComplianceDocumentRow;
+}
+
+// Documents are flagged from their first expiry alert, services two weeks out
+function dateDue(dueDate: string, today: string, soonDays: number = DUE_SOON_DAYS): ServiceDue {
+  const daysLeft = differenceInCalendarDays(day(dueDate), day(today));
+  const state: MaintenanceState = daysLeft < 0 ? 'overdue' : daysLeft <= soonDays ? 'due_soon' : 'ok';
+  return { dueDate: dueDate.slice(0, 10), dueOdometer: null, daysLeft, kmLeft: null, state };
+}
+
+// Overdue first, then whatever is closest — in days, or km at ~100 km a day
+function urgency(item: MaintenanceItem): number {
+  const { daysLeft, kmLeft } = item.due;
+  return Math.min(daysLeft ?? Infinity, kmLeft != null ? kmLeft / 100 : Infinity);
+}
+
+/**
+ * Everything on the fleet that is overdue or due soon: service plans, the
+ * next_service_date of vehicles without plans, and document renewals
+ */
+export function maintenanceDueItems(
+  vehicles: Vehicle[],
+  plans: ServicePlanRow[],
+  repairs: Repair[],
+  documents: ComplianceDocumentRow[] = [],
+  today: string = isoDay(),
+): MaintenanceItem[] {
+  const items: MaintenanceItem[] = [];
+  const current = currentDocuments(documents);
+
+  for (const vehicle of vehicles) {
+    const vehiclePlans = plans.filter((p) => p.vehicle_id === vehicle.id && p.active);
+
+    for (const plan of vehiclePlans) {
+      const due = serviceDue(plan, vehicle.odometer, today);
+      if (due.state === 'ok') continue;
+      items.push({
+        key: `plan:${plan.id}`, kind: 'service', vehicle, label: plan.name, due, plan,
+        repair: repairs.find((r) => r.service_plan_id === plan.id),
+      });
+    }
+
+    if (vehiclePlans.length === 0 && vehicle.next_service_date) {
+      const due = dateDue(vehicle.next_service_date, today);
+      if (due.state !== 'ok') items.push({ key: `service:${vehicle.id}`, kind: 'service', vehicle, label: 'Service', due });
+    }
+
+    const vehicleDocs = current.filter((d) => d.vehicle_id === vehicle.id);
+    for (const document of vehicleDocs) {
+      const due = dateDue(document.expires_on, today, EXPIRING_DAYS);
+      if (due.state !== 'ok') {
+        items.push({ key: `document:${document.id}`, kind: 'document', vehicle, label: `${documentTitle(document)} renewal`, due, document });
+      }
+    }
+
+    if (vehicle.insurance_expiry && !vehicleDocs.some((d) => d.doc_type === 'insurance')) {
+      const due = dateDue(vehicle.insurance_expiry, today, EXPIRING_DAYS);
+      if (due.state !== 'ok') items.push({ key: `insurance:${vehicle.id}`, kind: 'document', vehicle, label: 'Insurance renewal', due });
+    }
+  }
+
+  return items.sort((a, b) => urgency(a) - urgency(b));
+}
+
+/** "12 days overdue", "in 800 km", "due today" — the more pressing of date and km */
+export function dueLabel(due: ServiceDue): string {
+  const { daysLeft, kmLeft } = due;
+  const kmFirst = kmLeft != null && (daysLeft == null || kmLeft / 100 < daysLeft);
+
+  if (kmFirst) {
+    return kmLeft! <= 0 ? `${Math.abs(kmLeft!).toLocaleString()} km overdue` : `in ${kmLeft!.toLocaleString()} km`;
+  }
+  if (daysLeft == null) return 'Not scheduled';
+  if (daysLeft < 0)   return `${-daysLeft} day${daysLeft === -1 ? '' : 's'} overdue`;
+  if (daysLeft === 0) return 'due today';
+  return `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export interface ServicePlanInput {
+  name: string;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  lastDoneAt: string;
+  lastDoneOdometer: number | null;
+}
+
+export async function saveServicePlan(
+  vehicle: Vehicle,
+  input: ServicePlanInput,
+  existing?: ServicePlanRow,
+): Promise<QueuedWriteResult> {
+  const fields = {
+    name:               input.name.trim(),
+    interval_km:        input.intervalKm,
+    interval_months:    input.intervalMonths,
+    last_done_at:       input.lastDoneAt,
+    last_done_odometer: input.lastDoneOdometer,
+  };
+
+  if (existing) {
+    return queueWrite('UPDATE', 'vehicle_service_plans', {
+      id: existing.id, ...fields, updated_at: new Date().toISOString(),
+    }, { label: `Update ${fields.name} plan for ${vehicle.license_plate}` });
+  }
+  return queueWrite('CREATE', 'vehicle_service_plans', {
+    id: createClientId(), vehicle_id: vehicle.id, ...fields,
+  }, { label: `Add ${fields.name} plan for ${vehicle.license_plate}` });
+}
+
+export async function removeServicePlan(plan: ServicePlanRow, vehicle: Vehicle): Promise<QueuedWriteResult> {
+  return queueWrite('DELETE', 'vehicle_service_plans', { id: plan.id }, {
+    label: `Remove ${plan.name} plan for ${vehicle.license_plate}`,
+  });
+}
+
+/**
+ * Record that a plan's work was done today. Closing the planned repair is
+ * enough when there is one — the database then restarts the plan from the
+ * current odometer reading.
+ */
+export async function markServiced(plan: ServicePlanRow, vehicle: Vehicle, repair?: Repair): Promise<QueuedWriteResult> {
+  if (repair) {
+    return queueWrite('UPDATE', 'repairs', { id: repair.id, status: 'completed' }, {
+      label: `Complete ${plan.name} for ${vehicle.license_plate}`,
+    });
+  }
+  return queueWrite('UPDATE', 'vehicle_service_plans', {
+    id:                 plan.id,
+    last_done_at:       isoDay(),
+    last_done_odometer: vehicle.odometer ?? plan.last_done_odometer,
+    updated_at:         new Date().toISOString(),
+  }, { label: `Record ${plan.name} for ${vehicle.license_plate}` });
+}
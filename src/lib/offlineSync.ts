@@ -0,0 +1,202 @@
+/**
+ * App-wide offline write queue
+ *
+ * Problem solved:
+ *   Forms wrote straight to Supabase, so a booking, CR or vehicle change made
+ *   out in the field with no signal was simply lost with an error alert.
+ *
+ * Solution:
+ *   Every form write goes through the SDK's OfflineSyncService, replayed over
+ *   Supabase by SupabaseSyncExecutor.  Online writes sync immediately (errors
+ *   surface exactly as before); offline writes are persisted and replayed as
+ *   soon as useNetworkStatus reports connectivity again (see AppShell).
+ *
+ * Usage:
+ *   const result = await queueWrite('CREATE', 'bookings', { id: createClientId(), ... }, {
+ *     label: 'New booking for Acme Tours',
+ *   });
+ *   if (result.state === 'queued') Alert.alert('Saved Offline', ...);
+ *
+ *   // Dependent writes replay in order and roll back together
+ *   await queueGroup([
+ *     { type: 'CREATE', resource: 'bookings', ref: 'booking', data: { ... } },
+ *     { type: 'CREATE', resource: 'financial_transactions', data: { booking_id: placeholder('booking') } },
+ *   ]);
+ */
+
+import { supabase } from './supabase';
+import { devLog } from './devLog';
+import {
+  OfflineSyncService,
+  type SyncOperation,
+  type SyncOperationOptions,
+} from '../../sdk/offline/OfflineSyncService';
+import type { SyncExecutor } from '../../sdk/offline/SyncExecutor';
+import type { SyncStep } from '../../sdk/offline/SyncGroup';
+import { StorageService } from '../../sdk/storage/StorageService';
+import { Logger } from '../../sdk/utils/Logger';
+import { sendCRNotificationToUser } from '../services/notificationService';
+import type { NotificationType } from '../types/notification';
+
+export { placeholder } from '../../sdk/offline/SyncGroup';
+export type { SyncStep };
+
+// Carry the HTTP status so the queue can tell retryable failures (network,
+// 5xx, 429) from permanent ones (4xx validation / RLS)
+function syncError(error: { message: string; code?: string }, status: number) {
+  return { code: error.code, message: error.message, status, data: error };
+}
+
+// Replays queued operations as Supabase table writes
+class SupabaseSyncExecutor implements SyncExecutor {
+  async create(resource: string, data: any): Promise<any> {
+    const { data: row, error, status } = await supabase.from(resource).insert(data).select().single();
+    if (error) throw syncError(error, status);
+    return row;
+  }
+
+  async update(resource: string, id: string, data: any): Promise<any> {
+    const { id: _id, ...changes } = data;
+    const { data: row, error, status } = await supabase.from(resource).update(changes).eq('id', id).select().maybeSingle();
+    if (error) throw syncError(error, status);
+    return row;
+  }
+
+  async remove(resource: string, id: string): Promise<void> {
+    const { error, status } = await supabase.from(resource).delete().eq('id', id);
+    if (error) throw syncError(error, status);
+  }
+
+  async fetch(resource: string, id: string): Promise<any | null> {
+    const { data: row, error, status } = await supabase.from(resource).select('*').eq('id', id).maybeSingle();
+    if (error) throw syncError(error, status);
+    return row ?? null;
+  }
+
+  async call(name: string, params: any): Promise<any> {
+    const { data, error, status } = await supabase.rpc(name, params);
+    if (error) throw syncError(error, status);
+    return data;
+  }
+}
+
+export const offlineSync = new OfflineSyncService({
+  logger:   new Logger({ level: __DEV__ ? 'info' : 'warn' }),
+  storage:  new StorageService({ prefix: '@safari_ops_sync:', encrypted: true }),
+  executor: new SupabaseSyncExecutor(),
+  conflictStrategies: {
+    // Field-level merge: office edits and field edits to different columns both survive
+    bookings:          'merge',
+    cash_requisitions: 'merge',
+    // Vehicle status is driven by the latest booking action on the device
+    vehicles:          'client-wins',
+  },
+});
+
+// ─── Deferred side effects ────────────────────────────────────────────────────
+// Push notifications attached to an operation are only sent once the row
+// actually exists on the server, so approvers never get a CR they cannot open.
+
+export interface QueuedNotification {
+  userId: string;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  type?: NotificationType;
+}
+
+offlineSync.addListener((event) => {
+  if (event.type !== 'completed') return;
+  const notification = event.operation.meta?.notification as QueuedNotification | undefined;
+  if (!notification) return;
+
+  sendCRNotificationToUser(
+    notification.userId,
+    notification.title,
+    notification.body,
+    notification.data,
+    notification.type,
+  ).catch(console.error);
+});
+
+let startPromise: Promise<void> | null = null;
+
+/** Load the persisted queue and start periodic replay. Safe to call repeatedly. */
+export function startOfflineSync(): Promise<void> {
+  if (!startPromise) {
+    startPromise = offlineSync.start().catch((err) => {
+      startPromise = null;
+      throw err;
+    });
+  }
+  return startPromise;
+}
+
+/** Client-side UUID so queued inserts can be referenced before they sync */
+export function createClientId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+export type QueuedWriteResult =
+  | { state: 'synced'; operation: SyncOperation; row: any }
+  | { state: 'queued'; operation: SyncOperation };
+
+/**
+ * Queue a write and try to sync it straight away.
+ *
+ * Resolves with `synced` when the server accepted it, or `queued` when it will
+ * be replayed later (offline, or a retryable network/5xx failure).  If the
+ * server rejects the write outright, it is dropped rather than dead-lettered
+ * and the error is thrown so forms can show it and keep the user's input.
+ */
+export async function queueWrite(
+  type: SyncOperation['type'],
+  resource: string,
+  data: any,
+  options: SyncOperationOptions = {},
+): Promise<QueuedWriteResult> {
+  await startOfflineSync();
+  const operation = await offlineSync.addOperation(type, resource, data, options);
+
+  if (operation.status === 'completed') {
+    return { state: 'synced', operation, row: operation.result };
+  }
+
+  if (operation.status === 'dead') {
+    devLog('[OfflineSync] Write rejected, discarding:', operation.id, operation.error);
+    await offlineSync.discardDeadLetter(operation.id);
+    throw new Error(operation.error || 'Failed to save. Please try again.');
+  }
+
+  return { state: 'queued', operation };
+}
+
+export type QueuedGroupResult =
+  | { state: 'synced'; operations: SyncOperation[] }
+  | { state: 'queued'; operations: SyncOperation[] };
+
+/**
+ * Queue dependent writes as one all-or-nothing group, with the same
+ * synced / queued / throw contract as queueWrite.
+ */
+export async function queueGroup(steps: SyncStep[]): Promise<QueuedGroupResult> {
+  await startOfflineSync();
+  const operations = await offlineSync.addGroup(steps);
+
+  if (operations.every((op) => op.status === 'completed')) {
+    return { state: 'synced', operations };
+  }
+
+  const rejected = operations.find((op) => op.status === 'dead' && op.error);
+  if (rejected) {
+    devLog('[OfflineSync] Group rejected, discarding:', rejected.groupId, rejected.error);
+    await offlineSync.discardDeadLetter(rejected.id);
+    throw new Error(rejected.error || 'Failed to save. Please try again.');
+  }
+
+  return { state: 'queued', operations };
+}
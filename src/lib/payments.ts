@@ -0,0 +1,302 @@
+import { queueGroup, createClientId, placeholder, type SyncStep, type QueuedGroupResult } from './offlineSync';
+import { bookingSubject, safariSubject, type BookingKind } from './bookingTransitions';
+import type { BookingPaymentRow, BookingRow, Currency, SafariBookingRow } from '../../sdk/schema/tables';
+
+/**
+ * Booking payments
+ *
+ * Every payment received is a row in booking_payments; the database adds them
+ * up into the booking's amount_paid (see the booking_payments migration). The
+ * schedule says when the money is expected — a deposit when the booking is
+ * made and the balance a number of days before the start date — so screens
+ * can chase what is actually due rather than every open balance.
+ */
+
+// ─── Methods ──────────────────────────────────────────────────────────────────
+
+export const PAYMENT_METHODS = [
+  { value: 'mtn_uganda',    label: 'MTN Uganda' },
+  { value: 'airtel_uganda', label: 'Airtel Uganda' },
+  { value: 'mpesa_kenya',   label: 'M-PESA Kenya' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash',          label: 'Cash' },
+] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number]['value'];
+
+export function paymentMethodLabel(method: string | null | undefined): string {
+  return PAYMENT_METHODS.find((m) => m.value === method)?.label ?? (method || 'Not recorded');
+}
+
+/**
+ * The reference a method needs before a payment can be saved, as a message
+ * for the form; null when the details are complete
+ */
+export function paymentDetailsError(method: PaymentMethod, transactionId: string, bankName: string): string | null {
+  if (method !== 'cash' && !transactionId.trim()) return 'Transaction ID is required for mobile money and bank payments.';
+  if (method === 'bank_transfer' && !bankName.trim()) return 'Please specify the bank.';
+  return null;
+}
+
+// ─── Schedule ─────────────────────────────────────────────────────────────────
+
+export interface PaymentSchedule {
+  /** Share of the total due when the booking is made, 0–100 */
+  depositPercent: number;
+  /** Days before the start date the balance is due */
+  balanceDueDays: number;
+}
+
+// Vehicle hire settles at pick-up; safaris need the balance in well before
+// permits and lodges are paid for
+export const DEFAULT_SCHEDULES: Record<BookingKind, PaymentSchedule> = {
+  booking: { depositPercent: 50, balanceDueDays: 0 },
+  safari:  { depositPercent: 30, balanceDueDays: 60 },
+};
+
+/** Installments within this many days are flagged as due soon */
+export const DUE_SOON_DAYS = 7;
+
+/**
+ * The fields of a booking its payment schedule is worked out from
+ */
+export interface PaymentSubject {
+  kind: BookingKind;
+  id: string;
+  reference: string;
+  total: number;
+  paid: number;
+  currency: Currency;
+  /** Day the booking was made (YYYY-MM-DD) */
+  bookedOn: string;
+  startDate: string;
+  schedule: PaymentSchedule;
+  /** The booking overrides the default schedule */
+  customSchedule: boolean;
+  /** Fixed deposit agreed with the client, used instead of the percentage */
+  depositAmount: number | null;
+}
+
+function scheduleOf(kind: BookingKind, row: { deposit_percent?: number | null; balance_due_days?: number | null }) {
+  const defaults = DEFAULT_SCHEDULES[kind];
+  return {
+    schedule: {
+      depositPercent: row.deposit_percent ?? defaults.depositPercent,
+      balanceDueDays: row.balance_due_days ?? defaults.balanceDueDays,
+    },
+    customSchedule: row.deposit_percent != null || row.balance_due_days != null,
+  };
+}
+
+export function bookingPaymentSubject(b: BookingRow): PaymentSubject {
+  const { id, reference, total, paid, currency } = bookingSubject(b);
+  return {
+    kind: 'booking', id, reference, total, paid, currency,
+    bookedOn:      (b.created_at || b.start_date).slice(0, 10),
+    startDate:     b.start_date.slice(0, 10),
+    depositAmount: null,
+    ...scheduleOf('booking', b),
+  };
+}
+
+export function safariPaymentSubject(s: SafariBookingRow): PaymentSubject {
+  const { id, reference, total, paid, currency } = safariSubject(s);
+  const { schedule, customSchedule } = scheduleOf('safari', s);
+  return {
+    kind: 'safari', id, reference, total, paid, currency,
+    bookedOn:      (s.created_at || s.start_date).slice(0, 10),
+    startDate:     s.start_date.slice(0, 10),
+    // An agreed deposit stands until someone sets a percentage for the booking
+    depositAmount: s.deposit_amount && s.deposit_percent == null ? s.deposit_amount : null,
+    schedule,
+    customSchedule,
+  };
+}
+
+// ─── Installments ─────────────────────────────────────────────────────────────
+
+export type InstallmentStatus = 'paid' | 'overdue' | 'due_soon' | 'upcoming';
+
+export interface Installment {
+  key: 'deposit' | 'balance';
+  label: string;
+  dueDate: string;
+  amount: number;
+  /** Part of the amount covered by payments so far */
+  paid: number;
+  outstanding: number;
+  status: InstallmentStatus;
+}
+
+/** Local calendar day as YYYY-MM-DD */
+export function isoDay(date: Date = new Date()): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return isoDay(date);
+}
+
+function statusOf(outstanding: number, dueDate: string, today: string): InstallmentStatus {
+  if (outstanding <= 0) return 'paid';
+  if (dueDate < today) return 'overdue';
+  if (dueDate <= addDays(today, DUE_SOON_DAYS)) return 'due_soon';
+  return 'upcoming';
+}
+
+/**
+ * The deposit and balance a booking is expected to pay, in due-date order.
+ * Payments settle the deposit first. A schedule without a deposit (or one
+ * asking for everything up front) has a single installment.
+ */
+export function buildInstallments(subject: PaymentSubject, today: string = isoDay()): Installment[] {
+  const { total, schedule } = subject;
+  if (total <= 0) return [];
+
+  const deposit = Math.min(
+    total,
+    subject.depositAmount ?? Math.round(total * schedule.depositPercent) / 100,
+  );
+  // Bookings made inside the balance window owe the balance straight away
+  const windowOpens = addDays(subject.startDate, -schedule.balanceDueDays);
+  const balanceDue  = windowOpens > subject.bookedOn ? windowOpens : subject.bookedOn;
+
+  const plan: Omit<Installment, 'paid' | 'outstanding' | 'status'>[] = [];
+  if (deposit > 0) plan.push({ key: 'deposit', label: deposit >= total ? 'Full payment' : 'Deposit', dueDate: subject.bookedOn, amount: deposit });
+  if (total - deposit > 0) plan.push({ key: 'balance', label: deposit > 0 ? 'Balance' : 'Full payment', dueDate: balanceDue, amount: total - deposit });
+
+  let remaining = subject.paid;
+  return plan.map((item) => {
+    const paid = Math.min(item.amount, Math.max(0, remaining));
+    remaining -= paid;
+    const outstanding = item.amount - paid;
+    return { ...item, paid, outstanding, status: statusOf(outstanding, item.dueDate, today) };
+  });
+}
+
+/** Total of installments due on or before `day` that are still unpaid */
+export function amountDueBy(installments: Installment[], day: string): number {
+  return installments
+    .filter((i) => i.dueDate <= day)
+    .reduce((sum, i) => sum + i.outstanding, 0);
+}
+
+/** The earliest installment still waiting on money, if any */
+export function nextInstallment(installments: Installment[]): Installment | null {
+  return installments.find((i) => i.outstanding > 0) ?? null;
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export interface PaymentInput {
+  paidAt: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  transactionId?: string;
+  bankName?: string;
+  notes?: string;
+}
+
+/**
+ * Record a payment against a booking. Vehicle booking payments are also
+ * booked as income, as NewBookingModal does for the first one; the pair
+ * syncs together and the database updates the booking's totals.
+ */
+export async function recordPayment(
+  subject: PaymentSubject,
+  input: PaymentInput,
+  userId: string | null | undefined,
+): Promise<QueuedGroupResult> {
+  const steps: SyncStep[] = [];
+  const transactionId = input.transactionId?.trim() || null;
+
+  if (subject.kind === 'booking') {
+    steps.push({
+      type:     'CREATE',
+      resource: 'financial_transactions',
+      ref:      'income',
+      data: {
+        id:               createClientId(),
+        transaction_type: 'income',
+        category:         'Booking Revenue',
+        amount:           input.amount,
+        currency:         subject.currency,
+        description:      `Payment for booking - ${subject.reference}`,
+        reference_number: transactionId || subject.reference,
+        booking_id:       subject.id,
+        payment_method:   input.method,
+        payment_details:  { method: input.method, transaction_id: transactionId },
+        status:           'completed',
+        transaction_date: new Date(`${input.paidAt}T12:00:00`).toISOString(),
+        created_by:       userId || null,
+      },
+      options: { label: `Booking payment for ${subject.reference}` },
+    });
+  }
+
+  steps.push({
+    type:     'CREATE',
+    resource: 'booking_payments',
+    data: {
+      id:                       createClientId(),
+      booking_id:               subject.kind === 'booking' ? subject.id : null,
+      safari_booking_id:        subject.kind === 'safari' ? subject.id : null,
+      paid_at:                  input.paidAt,
+      amount:                   input.amount,
+      currency:                 subject.currency,
+      method:                   input.method,
+      reference:                input.reference?.trim() || null,
+      bank_name:                input.bankName?.trim() || null,
+      transaction_id:           transactionId,
+      notes:                    input.notes?.trim() || null,
+      financial_transaction_id: subject.kind === 'booking' ? placeholder('income') : null,
+      recorded_by:              userId || null,
+    },
+    options: { label: `Payment of ${subject.currency} ${input.amount.toLocaleString()} for ${subject.reference}` },
+  });
+
+  return queueGroup(steps);
+}
+
+/**
+ * Remove a payment entered by mistake, with the income entry booked for it
+ */
+export async function removePayment(payment: BookingPaymentRow, reference: string): Promise<QueuedGroupResult> {
+  const steps: SyncStep[] = [{
+    type:     'DELETE',
+    resource: 'booking_payments',
+    data:     { id: payment.id },
+    options:  { label: `Remove payment for ${reference}` },
+  }];
+  if (payment.financial_transaction_id) {
+    steps.push({
+      type:     'DELETE',
+      resource: 'financial_transactions',
+      data:     { id: payment.financial_transaction_id },
+      options:  { label: `Remove income for ${reference}` },
+    });
+  }
+  return queueGroup(steps);
+}
+
+/**
+ * Save a booking's own schedule; pass null to go back to the default
+ */
+export async function saveSchedule(subject: PaymentSubject, schedule: PaymentSchedule | null): Promise<QueuedGroupResult> {
+  return queueGroup([{
+    type:     'UPDATE',
+    resource: subject.kind === 'booking' ? 'bookings' : 'safari_bookings',
+    data: {
+      id:               subject.id,
+      deposit_percent:  schedule?.depositPercent ?? null,
+      balance_due_days: schedule?.balanceDueDays ?? null,
+      ...(subject.kind === 'booking' ? { updated_at: new Date().toISOString() } : {}),
+    },
+    options: { label: `Update payment schedule for ${subject.reference}` },
+  }]);
+}
@@ -0,0 +1,328 @@
+/**
+ * Shared Query Client
+ *
+ * One store of keyed queries behind every data hook:
+ *   - Stale-while-revalidate: data already in memory, or persisted to the
+ *     offline cache by an earlier session, is shown at once while a refetch
+ *     runs in the background.
+ *   - Dedupe: screens asking for the same key share one in-flight request.
+ *   - Invalidation: queries declare the tables they read, and realtimeManager
+ *     events on those tables refetch them while they are on screen. Queries
+ *     with a `patch` function apply row changes in place instead, and only
+ *     refetch when a change can't be patched or events may have been missed.
+ *   - Garbage collection: queries with no observers are dropped after gcTime.
+ *
+ * Usage (through the useQuery hook):
+ *   const { data, loading, error, refetch } = useQuery({
+ *     key:     ['fleet'],
+ *     fetcher: fetchFleet,
+ *     tables:  ['vehicles', 'repairs'],
+ *     persist: true,
+ *   });
+ */
+
+import { realtimeManager, type AppTable, type RowChange } from './realtimeManager';
+import { CACHE_EXPIRATION, QUERY_CACHE_PREFIX, getCacheForOffline, setCache } from './cache';
+import { devLog } from './devLog';
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryOptions<T> {
+  key: QueryKey;
+  fetcher: () => Promise<T>;
+  /** Tables the fetcher reads; realtime changes to them refetch the query */
+  tables?: AppTable[];
+  /** How long fetched data counts as fresh, in ms */
+  staleTime?: number;
+  /** How long a query nobody observes is kept, in ms */
+  gcTime?: number;
+  /** Persist results to the offline cache so they show on the next launch */
+  persist?: boolean;
+  /**
+   * Apply a realtime row change to the data. Return undefined when the
+   * change can't be applied locally and the query should refetch instead.
+   */
+  patch?: (data: T, change: RowChange) => T | undefined;
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  isFetching: boolean;
+  /** Data was restored from the offline cache and has not been refetched yet */
+  isFromCache: boolean;
+  updatedAt: number | null;
+}
+
+type Listener = () => void;
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+const DEFAULT_GC_TIME = 5 * 60 * 1000;
+
+interface Query<T> {
+  hash: string;
+  state: QueryState<T>;
+  options: QueryOptions<T>;
+  listeners: Set<Listener>;
+  promise: Promise<void> | null;
+  // Changes received while a fetch was in flight, replayed onto its result
+  pendingChanges: RowChange[];
+  invalidated: boolean;
+  restored: boolean;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+  unsubscribeRealtime: (() => void) | null;
+}
+
+// PINNED_CACHE_KEYS in cache.ts depend on this format
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+// A key matches a filter when the filter is a prefix of it: ['bookings'] matches ['bookings', 'all']
+function matchesKey(key: QueryKey, filter: QueryKey): boolean {
+  return filter.every((part, i) => JSON.stringify(part) === JSON.stringify(key[i]));
+}
+
+class QueryClient {
+  private queries: Map<string, Query<any>> = new Map();
+
+  // ── Public API ─────────────────────────────────────────────────────────────
+
+  /**
+   * Current state of a query; creates the query on first use.
+   * Later calls update the fetcher and options (the latest render wins).
+   */
+  getState<T>(options: QueryOptions<T>): QueryState<T> {
+    return this.build(options).state;
+  }
+
+  /**
+   * Observe a query. The first observer starts its realtime subscription;
+   * when the last one leaves the query is scheduled for garbage collection.
+   */
+  subscribe<T>(options: QueryOptions<T>, listener: Listener): () => void {
+    const query = this.build(options);
+    query.listeners.add(listener);
+
+    if (query.gcTimer) {
+      clearTimeout(query.gcTimer);
+      query.gcTimer = null;
+    }
+    if (query.listeners.size === 1 && query.options.tables?.length) {
+      query.unsubscribeRealtime = realtimeManager.subscribe(
+        query.options.tables,
+        () => this.invalidate(query),
+        `Query ${query.hash}`,
+        (change) => this.applyChange(query, change),
+      );
+    }
+
+    return () => {
+      query.listeners.delete(listener);
+      if (query.listeners.size > 0) return;
+
+      query.unsubscribeRealtime?.();
+      query.unsubscribeRealtime = null;
+      query.gcTimer = setTimeout(() => {
+        devLog(`[Query] gc ${query.hash}`);
+        this.queries.delete(query.hash);
+      }, query.options.gcTime ?? DEFAULT_GC_TIME);
+    };
+  }
+
+  /**
+   * Make sure an observed query has data: restore it from the offline cache
+   * and refetch when stale. Fresh queries are left alone.
+   */
+  ensure<T>(options: QueryOptions<T>): void {
+    const query = this.build(options);
+    if (query.options.persist && !query.restored) {
+      query.restored = true;
+      void this.restore(query);
+    }
+    if (this.isStale(query)) {
+      void this.fetch(query);
+    }
+  }
+
+  /**
+   * Fetch now, sharing a request already in flight
+   */
+  refetch<T>(options: QueryOptions<T>): Promise<void> {
+    return this.fetch(this.build(options));
+  }
+
+  /**
+   * Mark matching queries stale and refetch those on screen. Matches by key
+   * prefix, by tables read, or everything when no filter is given.
+   */
+  invalidateQueries(filter: { key?: QueryKey; tables?: AppTable[] } = {}): void {
+    this.queries.forEach((query) => {
+      if (filter.key && !matchesKey(query.options.key, filter.key)) return;
+      if (filter.tables && !filter.tables.some((t) => query.options.tables?.includes(t))) return;
+      this.invalidate(query);
+    });
+  }
+
+  /**
+   * Drop every query (e.g. on sign out)
+   */
+  clear(): void {
+    this.queries.forEach((query) => {
+      if (query.gcTimer) clearTimeout(query.gcTimer);
+      query.unsubscribeRealtime?.();
+    });
+    this.queries.clear();
+  }
+
+  // ── Internal ───────────────────────────────────────────────────────────────
+
+  private build<T>(options: QueryOptions<T>): Query<T> {
+    const hash = hashQueryKey(options.key);
+    const existing = this.queries.get(hash) as Query<T> | undefined;
+    if (existing) {
+      existing.options = options;
+      return existing;
+    }
+
+    const query: Query<T> = {
+      hash,
+      state: { data: undefined, error: null, isFetching: false, isFromCache: false, updatedAt: null },
+      options,
+      listeners: new Set(),
+      promise: null,
+      pendingChanges: [],
+      invalidated: false,
+      restored: false,
+      gcTimer: null,
+      unsubscribeRealtime: null,
+    };
+    this.queries.set(hash, query);
+    return query;
+  }
+
+  private isStale(query: Query<any>): boolean {
+    const { updatedAt, isFromCache } = query.state;
+    if (query.invalidated || isFromCache || updatedAt === null) return true;
+    return Date.now() - updatedAt > (query.options.staleTime ?? DEFAULT_STALE_TIME);
+  }
+
+  private invalidate(query: Query<any>): void {
+    query.invalidated = true;
+    // A fetch in flight may predate the change; it refetches when done
+    if (query.listeners.size > 0 && !query.promise) {
+      void this.fetch(query);
+    }
+  }
+
+  // Returns false to have realtimeManager fall back to invalidate()
+  private applyChange<T>(query: Query<T>, change: RowChange): boolean {
+    const { patch } = query.options;
+    if (!patch) return false;
+
+    if (query.promise) query.pendingChanges.push(change);
+
+    const { data } = query.state;
+    if (data === undefined) return query.promise !== null;
+
+    let patched: T | undefined;
+    try {
+      patched = patch(data, change);
+    } catch (error) {
+      console.error(`[Query] ${query.hash} patch failed:`, error);
+      return false;
+    }
+    if (patched === undefined) return false;
+
+    devLog(`[Query] patched ${query.hash} (${change.table} ${change.eventType})`);
+    if (patched !== data) {
+      this.setState(query, { data: patched });
+      this.persist(query, patched);
+    }
+    return true;
+  }
+
+  // Replay changes that arrived mid-fetch; patches are idempotent upserts/deletes
+  private replayPending<T>(query: Query<T>, data: T): T {
+    const { patch } = query.options;
+    let result = data;
+    for (const change of query.pendingChanges) {
+      const patched = patch?.(result, change);
+      if (patched === undefined) {
+        query.invalidated = true;
+        break;
+      }
+      result = patched;
+    }
+    query.pendingChanges = [];
+    return result;
+  }
+
+  private persist<T>(query: Query<T>, data: T): void {
+    if (query.options.persist) {
+      void setCache(QUERY_CACHE_PREFIX + query.hash, data, CACHE_EXPIRATION.VERY_LONG);
+    }
+  }
+
+  private fetch<T>(query: Query<T>): Promise<void> {
+    if (query.promise) return query.promise;
+
+    devLog(`[Query] fetch ${query.hash}`);
+    query.invalidated = false;
+    query.pendingChanges = [];
+    this.setState(query, { isFetching: true });
+
+    query.promise = query.options
+      .fetcher()
+      .then((fetched) => {
+        const data = this.replayPending(query, fetched);
+        this.setState(query, {
+          data,
+          error: null,
+          isFetching: false,
+          isFromCache: false,
+          updatedAt: Date.now(),
+        });
+        this.persist(query, data);
+      })
+      .catch((error) => {
+        console.error(`[Query] ${query.hash} failed:`, error);
+        // Keep the last good data on screen (offline fallback)
+        this.setState(query, {
+          error: error instanceof Error ? error : new Error(String(error)),
+          isFetching: false,
+        });
+      })
+      .finally(() => {
+        query.promise = null;
+        query.pendingChanges = [];
+        // Invalidated while in flight — the result may already be outdated
+        if (query.invalidated && query.listeners.size > 0) {
+          void this.fetch(query);
+        }
+      });
+
+    return query.promise;
+  }
+
+  private async restore<T>(query: Query<T>): Promise<void> {
+    const cached = await getCacheForOffline<T>(QUERY_CACHE_PREFIX + query.hash);
+    // A fetch that finished first has newer data
+    if (cached.data === null || query.state.updatedAt !== null) return;
+
+    devLog(`[Query] restored ${query.hash} from offline cache`);
+    this.setState(query, {
+      data: cached.data,
+      isFromCache: true,
+      updatedAt: cached.timestamp,
+    });
+  }
+
+  private setState<T>(query: Query<T>, patch: Partial<QueryState<T>>): void {
+    query.state = { ...query.state, ...patch };
+    query.listeners.forEach((listener) => listener());
+  }
+}
+
+// Singleton — one query store for the entire app lifetime
+export const queryClient = new QueryClient();
@@ -13,6 +13,11 @@
  *   tables they care about.  When a row changes, only ONE channel fires, and
  *   every registered callback is called once.
  *
+ *   Subscribers that can apply a change themselves pass an onChange handler
+ *   and receive the row payload; the debounced refetch callback then only
+ *   runs when onChange declines a change, or after a reconnect when events
+ *   may have been missed.
+ *
  * Usage:
  *   // Subscribe — returns an unsubscribe function
  *   const unsub = realtimeManager.subscribe(
@@ -35,24 +40,48 @@ const ALL_TABLES = [
   'vehicles',
   'repairs',
   'cash_requisitions',
+  'cr_approval_rules',
+  'cr_approval_steps',
+  'approval_delegations',
   'financial_transactions',
+  'finance_attachments',
+  'finance_budgets',
   'safari_bookings',
   'exchange_rates',
   'clients',
   'profiles',
   'drivers',
   'notifications',
+  'audit_log',
+  'booking_payments',
+  'vehicle_service_plans',
+  'compliance_documents',
+  'fuel_logs',
+  'trip_logs',
 ] as const;
 
-type AppTable = typeof ALL_TABLES[number];
+export type AppTable = typeof ALL_TABLES[number];
+
+// A single postgres change. `old` only carries the primary key unless the
+// table uses REPLICA IDENTITY FULL.
+export interface RowChange {
+  table:     AppTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new:       Record<string, unknown>;
+  old:       Record<string, unknown>;
+}
+
+// Returns true when the change was applied; false falls back to a refetch
+export type RowChangeHandler = (change: RowChange) => boolean;
 
 // Each subscriber has a set of tables it cares about and a debounced callback
 interface Subscriber {
-  id:      number;
-  tables:  Set<AppTable>;
-  label:   string;
-  timer:   ReturnType<typeof setTimeout> | null;
-  handler: () => void;
+  id:        number;
+  tables:    Set<AppTable>;
+  label:     string;
+  timer:     ReturnType<typeof setTimeout> | null;
+  handler:   () => void;
+  onChange?: RowChangeHandler;
 }
 
 const DEBOUNCE_MS = 400;
@@ -60,6 +89,9 @@ const DEBOUNCE_MS = 400;
 class RealtimeManager {
   private channels: Map<AppTable, RealtimeChannel> = new Map();
   private subscribers: Map<number, Subscriber>     = new Map();
+  // Tables whose channel has been subscribed at least once; a later
+  // SUBSCRIBED status is a reconnect
+  private connected: Set<AppTable> = new Set();
   private nextId  = 1;
   private started = false;
 
@@ -67,12 +99,15 @@ class RealtimeManager {
 
   /**
    * Subscribe to changes on one or more tables.
+   * `onChange` receives each row change first; `handler` refetches when it
+   * declines one and after reconnects.
    * Returns a cleanup function — call it in useEffect return.
    */
   subscribe(
-    tables:  AppTable[],
-    handler: () => void,
-    label:   string = 'unknown',
+    tables:    AppTable[],
+    handler:   () => void,
+    label:     string = 'unknown',
+    onChange?: RowChangeHandler,
   ): () => void {
     const id: number = this.nextId++;
     const sub: Subscriber = {
@@ -81,6 +116,7 @@ class RealtimeManager {
       label,
       timer:  null,
       handler,
+      onChange,
     };
     this.subscribers.set(id, sub);
     devLog(`[Realtime] +subscriber #${id} (${label}) → [${tables.join(', ')}]`);
@@ -142,12 +178,23 @@ class RealtimeManager {
           { event: '*', schema: 'public', table },
           (payload) => {
             devLog(`[Realtime] ${table} ${payload.eventType}`);
-            this.notifySubscribers(table);
+            this.notifySubscribers({
+              table,
+              eventType: payload.eventType,
+              new:       payload.new as Record<string, unknown>,
+              old:       payload.old as Record<string, unknown>,
+            });
           }
         )
         .subscribe((status, err) => {
           if (status === 'SUBSCRIBED') {
             devLog(`[Realtime] ✓ subscribed to ${table}`);
+            // Events sent while disconnected are not replayed — refetch
+            if (this.connected.has(table)) {
+              devLog(`[Realtime] Reconnected to ${table}, refreshing`);
+              this.refreshForTables([table]);
+            }
+            this.connected.add(table);
           } else if (status === 'CHANNEL_ERROR') {
             console.warn(`[Realtime] Channel error on ${table}:`, err);
           } else if (status === 'CLOSED') {
@@ -161,9 +208,10 @@ class RealtimeManager {
     });
   }
 
-  private notifySubscribers(table: AppTable): void {
+  private notifySubscribers(change: RowChange): void {
     this.subscribers.forEach((sub) => {
-      if (!sub.tables.has(table)) return;
+      if (!sub.tables.has(change.table)) return;
+      if (sub.onChange?.(change)) return;
 
       // Debounce per subscriber — prevents rapid multi-table events from
       // triggering multiple refetches for the same subscriber
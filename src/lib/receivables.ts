@@ -0,0 +1,126 @@
+import { queueWrite, type QueuedWriteResult } from './offlineSync';
+import type { Currency, ReceivableInstallmentRow, ReceivablesSettingsRow } from '../../sdk/schema/tables';
+
+/**
+ * Receivables
+ *
+ * Unpaid installments from the receivable_installments view, aged by how far
+ * past their due date they are and grouped by client. The view works the
+ * schedule out the same way as buildInstallments in payments.ts; the daily
+ * send_payment_reminders job reads it too, so the report and the reminders
+ * always agree on what is overdue.
+ */
+
+// ─── Aging ────────────────────────────────────────────────────────────────────
+
+export type AgingBucket = 'upcoming' | '1_30' | '31_60' | '61_90' | '90_plus';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'upcoming', label: 'Not yet overdue' },
+  { key: '1_30',     label: '1–30 days' },
+  { key: '31_60',    label: '31–60 days' },
+  { key: '61_90',    label: '61–90 days' },
+  { key: '90_plus',  label: '90+ days' },
+];
+
+/**
+ * An installment due today is 0 days overdue and not yet late, as in
+ * buildInstallments and send_payment_reminders
+ */
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0)  return 'upcoming';
+  if (daysOverdue <= 30) return '1_30';
+  if (daysOverdue <= 60) return '31_60';
+  if (daysOverdue <= 90) return '61_90';
+  return '90_plus';
+}
+
+export type BucketTotals = Record<AgingBucket, number>;
+
+function emptyTotals(): BucketTotals {
+  return { upcoming: 0, '1_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 };
+}
+
+// ─── Per client ───────────────────────────────────────────────────────────────
+
+export interface ClientReceivables {
+  /** Client id, or the name when the booking isn't linked to a client record */
+  key: string;
+  name: string;
+  /** Amounts in the report currency */
+  buckets: BucketTotals;
+  overdue: number;
+  total: number;
+  oldestDaysOverdue: number;
+  items: ReceivableInstallmentRow[];
+}
+
+export interface ReceivablesReport {
+  clients: ClientReceivables[];
+  buckets: BucketTotals;
+  overdue: number;
+  total: number;
+}
+
+/**
+ * Group installments by client with totals per aging bucket. `convert` turns
+ * an amount in the booking's currency into the report currency. Clients owing
+ * the oldest money come first.
+ */
+export function buildReceivablesReport(
+  rows: ReceivableInstallmentRow[],
+  clientNames: Record<string, string>,
+  convert: (amount: number, from: Currency) => number,
+): ReceivablesReport {
+  const byClient = new Map<string, ClientReceivables>();
+  const buckets = emptyTotals();
+
+  for (const row of rows) {
+    if (row.outstanding <= 0) continue;
+
+    const name = (row.client_id && clientNames[row.client_id]) || row.client_name || 'Unknown client';
+    const key  = row.client_id || name.trim().toLowerCase();
+    let client = byClient.get(key);
+    if (!client) {
+      client = { key, name, buckets: emptyTotals(), overdue: 0, total: 0, oldestDaysOverdue: -Infinity, items: [] };
+      byClient.set(key, client);
+    }
+
+    const amount = convert(row.outstanding, row.currency);
+    const bucket = agingBucket(row.days_overdue);
+    client.buckets[bucket] += amount;
+    client.total += amount;
+    buckets[bucket] += amount;
+    if (bucket !== 'upcoming') client.overdue += amount;
+    client.oldestDaysOverdue = Math.max(client.oldestDaysOverdue, row.days_overdue);
+    client.items.push(row);
+  }
+
+  const clients = [...byClient.values()];
+  for (const client of clients) {
+    client.items.sort((a, b) => b.days_overdue - a.days_overdue);
+  }
+  clients.sort((a, b) => b.oldestDaysOverdue - a.oldestDaysOverdue || b.total - a.total);
+
+  const total = clients.reduce((sum, c) => sum + c.total, 0);
+  return { clients, buckets, overdue: total - buckets.upcoming, total };
+}
+
+// ─── Reminder settings ────────────────────────────────────────────────────────
+
+export type ReminderSettings = Pick<ReceivablesSettingsRow, 'reminder_interval_days' | 'escalation_days'>;
+
+/** Defaults in the payment_reminders migration, until the settings row loads */
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  reminder_interval_days: 7,
+  escalation_days:        14,
+};
+
+export async function saveReminderSettings(settings: ReminderSettings): Promise<QueuedWriteResult> {
+  return queueWrite('UPDATE', 'receivables_settings', {
+    id:                     1,
+    reminder_interval_days: settings.reminder_interval_days,
+    escalation_days:        settings.escalation_days,
+    updated_at:             new Date().toISOString(),
+  }, { label: 'Update payment reminder settings' });
+}
@@ -0,0 +1,55 @@
+import type { RowChange } from './realtimeManager';
+
+/**
+ * Apply a realtime row change to an in-memory list
+ *
+ * `toItem` maps the changed row to a list item (it receives the current item
+ * for updates, to carry joined fields over). It returns:
+ *   - an item  → insert or replace it
+ *   - null     → the row no longer belongs in the list (filtered out)
+ *   - undefined → the change can't be applied locally; the caller refetches
+ *
+ * Returns undefined when the list can't be patched. Unchanged lists are
+ * returned as-is so memoised consumers don't recompute.
+ */
+export function patchRows<T extends { id: string }>(
+  rows: T[],
+  change: RowChange,
+  toItem: (row: Record<string, unknown>, existing: T | undefined) => T | null | undefined,
+  compare?: (a: T, b: T) => number,
+): T[] | undefined {
+  if (change.eventType === 'DELETE') {
+    const id = change.old.id;
+    if (id === undefined) return undefined;
+    return rows.some((r) => r.id === id) ? rows.filter((r) => r.id !== id) : rows;
+  }
+
+  const id = change.new.id;
+  const index = rows.findIndex((r) => r.id === id);
+  const item = toItem(change.new, index >= 0 ? rows[index] : undefined);
+  if (item === undefined) return undefined;
+
+  if (item === null) {
+    return index >= 0 ? rows.filter((_, i) => i !== index) : rows;
+  }
+
+  const next = index >= 0
+    ? rows.map((r, i) => (i === index ? item : r))
+    : [...rows, item];
+  return compare ? next.sort(compare) : next;
+}
+
+/**
+ * Descending comparison of optional date/text columns, for keeping patched
+ * lists in the same order as `.order(column, { ascending: false })`
+ */
+export function byDesc<T>(pick: (item: T) => string | null | undefined) {
+  return (a: T, b: T): number => (pick(b) ?? '').localeCompare(pick(a) ?? '');
+}
+
+/**
+ * Ascending counterpart of byDesc
+ */
+export function byAsc<T>(pick: (item: T) => string | null | undefined) {
+  return (a: T, b: T): number => (pick(a) ?? '').localeCompare(pick(b) ?? '');
+}
@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  StorageCipher,
+  reencryptEntries,
+  rotateStorageKey,
+} from '../../sdk/storage/StorageCipher';
+import { CACHE_PREFIX } from './cache';
+import { devLog } from './devLog';
+
+/**
+ * Encryption at rest for everything the app persists about bookings, clients
+ * and CRs: the SDK store, the offline sync queue and the data cache.
+ */
+
+// Every prefix written through StorageCipher.shared. A prefix missing here is
+// skipped by key rotation and becomes unreadable once the old key is retired.
+export const ENCRYPTED_PREFIXES = ['@jackal_', '@safari_ops_sync:', CACHE_PREFIX];
+
+// Bump to re-run the migration after adding a prefix
+const MIGRATION_KEY = '@safari_ops_storage_encryption';
+const MIGRATION_VERSION = '3';
+
+/**
+ * Re-encrypt entries written in plaintext by earlier app versions.
+ * Runs once per install; later launches only read the marker.
+ */
+export async function migrateStorageEncryption(): Promise<void> {
+  try {
+    if ((await AsyncStorage.getItem(MIGRATION_KEY)) === MIGRATION_VERSION) return;
+
+    const count = await reencryptEntries(StorageCipher.shared, ENCRYPTED_PREFIXES);
+    await AsyncStorage.setItem(MIGRATION_KEY, MIGRATION_VERSION);
+    devLog(`[StorageEncryption] Encrypted ${count} existing entries`);
+  } catch (error) {
+    // Leave the marker unset so the next launch retries
+    console.error('[StorageEncryption] Migration failed:', error);
+  }
+}
+
+/**
+ * Replace the storage key and re-encrypt every stored entry with the new one.
+ * Runs on sign-out, so a key lifted from the device during one session can't
+ * read what the next one stores.
+ */
+export async function rotateStorageEncryptionKey(): Promise<void> {
+  const count = await rotateStorageKey(StorageCipher.shared, ENCRYPTED_PREFIXES);
+  devLog(`[StorageEncryption] Rotated key, re-encrypted ${count} entries`);
+}
@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { utf8ByteLength } from '../../sdk/storage/StorageService';
+import { CACHE_METADATA_PREFIX, CACHE_PREFIX, getCacheUsage, type CacheUsage } from './cache';
+
+/**
+ * Storage usage breakdown for the More screen
+ */
+
+export interface StorageArea {
+  label: string;
+  bytes: number;
+  entries: number;
+}
+
+export interface StorageUsage {
+  totalBytes: number;
+  areas: StorageArea[]; // largest first
+  cache: CacheUsage;
+}
+
+// Areas are matched in order; keys matching none count as "Other"
+const STORAGE_AREAS: { label: string; prefixes: string[] }[] = [
+  { label: 'Cached data',     prefixes: [CACHE_PREFIX, CACHE_METADATA_PREFIX] },
+  { label: 'Offline changes', prefixes: ['@safari_ops_sync:'] },
+  { label: 'SDK data',        prefixes: ['@jackal_'] },
+  { label: 'Sign-in session', prefixes: ['sb-'] },
+];
+
+/**
+ * Measure every AsyncStorage entry and group the bytes by area
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const [items, cache] = await Promise.all([
+    AsyncStorage.getAllKeys().then((keys) => AsyncStorage.multiGet(keys)),
+    getCacheUsage(),
+  ]);
+
+  const areas = new Map<string, StorageArea>();
+  let totalBytes = 0;
+
+  for (const [key, value] of items) {
+    const bytes = utf8ByteLength(key) + (value ? utf8ByteLength(value) : 0);
+    const label =
+      STORAGE_AREAS.find((area) => area.prefixes.some((prefix) => key.startsWith(prefix)))?.label ?? 'Other';
+
+    const area = areas.get(label) ?? { label, bytes: 0, entries: 0 };
+    area.bytes += bytes;
+    area.entries += 1;
+    areas.set(label, area);
+    totalBytes += bytes;
+  }
+
+  return {
+    totalBytes,
+    areas: Array.from(areas.values()).sort((a, b) => b.bytes - a.bytes),
+    cache,
+  };
+}
+
+/**
+ * Format a byte count for display (e.g. "1.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import { offlineSync, queueGroup, type SyncStep } from './offlineSync';
+
+/**
+ * Vehicle availability — the conflict check shared by the booking forms and
+ * the fleet timeline, plus the writes that move a booking between vehicles.
+ */
+
+export interface AvailabilityResult {
+  available: boolean;
+  /** Reference of the booking holding the vehicle, when unavailable */
+  conflictRef?: string;
+}
+
+/**
+ * Server-side availability gate (mirrors dashboard checkVehicleAvailability).
+ * Pass the booking being edited so it doesn't conflict with itself. Offline,
+ * or when the RPC fails, the vehicle is treated as available.
+ */
+export async function checkVehicleAvailability(
+  vehicleId: string,
+  bookingId?: string,
+): Promise<AvailabilityResult> {
+  if (!offlineSync.getStatus().isOnline) return { available: true };
+
+  const { data: avail, error } = await supabase.rpc('check_vehicle_availability', {
+    p_vehicle_id: vehicleId,
+    ...(bookingId ? { p_booking_id: bookingId } : {}),
+  });
+
+  if (!error && avail?.[0]?.is_available === false) {
+    return { available: false, conflictRef: avail[0].conflict_booking_reference || 'another booking' };
+  }
+  return { available: true };
+}
+
+/**
+ * Whether two inclusive date ranges (YYYY-MM-DD or ISO) share a day
+ */
+export function rangesOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string): boolean {
+  return aStart.slice(0, 10) <= bEnd.slice(0, 10) && bStart.slice(0, 10) <= aEnd.slice(0, 10);
+}
+
+/**
+ * Vehicle status writes for a booking moving from one vehicle to another:
+ * the new vehicle is booked, the previous one released.
+ */
+export function vehicleSwapSteps(
+  fromVehicleId: string | null | undefined,
+  toVehicleId: string | null | undefined,
+  toStatus: 'booked' | 'available' = 'booked',
+): SyncStep[] {
+  const step = (id: string, status: 'booked' | 'available'): SyncStep => ({
+    type:     'UPDATE',
+    resource: 'vehicles',
+    data:     { id, status },
+    options:  { label: `Mark vehicle ${status}` },
+  });
+
+  const steps: SyncStep[] = [];
+  if (toVehicleId) steps.push(step(toVehicleId, toStatus));
+  if (fromVehicleId && fromVehicleId !== toVehicleId) steps.push(step(fromVehicleId, 'available'));
+  return steps;
+}
+
+export type ReassignResult =
+  | { ok: true; queued: boolean }
+  | { ok: false; conflictRef: string };
+
+/**
+ * Move a vehicle booking or safari booking to another vehicle, keeping its
+ * dates. The availability check runs first; the booking and vehicle writes
+ * sync as one unit.
+ */
+export async function reassignVehicle(
+  target: {
+    kind: 'booking' | 'safari';
+    id: string;
+    reference: string;
+    fromVehicleId: string | null;
+  },
+  toVehicleId: string,
+): Promise<ReassignResult> {
+  const check = await checkVehicleAvailability(
+    toVehicleId,
+    target.kind === 'booking' ? target.id : undefined,
+  );
+  if (!check.available) return { ok: false, conflictRef: check.conflictRef ?? 'another booking' };
+
+  const bookingStep: SyncStep = target.kind === 'booking'
+    ? {
+        type:     'UPDATE',
+        resource: 'bookings',
+        data:     { id: target.id, assigned_vehicle_id: toVehicleId, updated_at: new Date().toISOString() },
+        options:  { label: `Move ${target.reference} to another vehicle` },
+      }
+    : {
+        type:     'UPDATE',
+        resource: 'safari_bookings',
+        data:     { id: target.id, assigned_vehicle_id: toVehicleId, updated_at: new Date().toISOString() },
+        options:  { label: `Move ${target.reference} to another vehicle` },
+      };
+
+  const result = await queueGroup([bookingStep, ...vehicleSwapSteps(target.fromVehicleId, toVehicleId)]);
+  return { ok: true, queued: result.state === 'queued' };
+}
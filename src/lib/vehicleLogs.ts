@@ -0,0 +1,209 @@
+import { format } from 'date-fns';
+import { queueWrite, createClientId, type QueuedWriteResult } from './offlineSync';
+import type { Vehicle } from '../types/dashboard';
+import type { Currency, FuelLogRow, TripLogRow } from '../../sdk/schema/tables';
+
+/**
+ * Fuel and trip logs
+ *
+ * Every fuel fill and every trip carries odometer readings. Readings only go
+ * up over time, so a new one must sit between the vehicle's readings on
+ * earlier and later days — the fuel_trip_logs migration enforces the same
+ * rule and keeps vehicles.odometer at the highest reading. Fuel economy is
+ * measured full tank to full tank: the distance between two full fills over
+ * the litres put in after the first one.
+ */
+
+export interface OdometerReading {
+  /** yyyy-MM-dd */
+  day: string;
+  odometer: number;
+  /** The fuel or trip log the reading came from */
+  sourceId: string;
+}
+
+function day(value: string): string {
+  return value.slice(0, 10);
+}
+
+export function formatLogDay(value: string): string {
+  return format(new Date(`${day(value)}T00:00:00`), 'd MMM yyyy');
+}
+
+/** All of a vehicle's readings — fuel fills and both ends of each trip — oldest first */
+export function odometerReadings(vehicleId: string, fuelLogs: FuelLogRow[], tripLogs: TripLogRow[]): OdometerReading[] {
+  const readings: OdometerReading[] = [];
+  for (const log of fuelLogs) {
+    if (log.vehicle_id === vehicleId) readings.push({ day: day(log.filled_on), odometer: log.odometer, sourceId: log.id });
+  }
+  for (const trip of tripLogs) {
+    if (trip.vehicle_id !== vehicleId) continue;
+    readings.push({ day: day(trip.started_on), odometer: trip.start_odometer, sourceId: trip.id });
+    readings.push({ day: day(trip.ended_on), odometer: trip.end_odometer, sourceId: trip.id });
+  }
+  return readings.sort((a, b) => a.day.localeCompare(b.day) || a.odometer - b.odometer);
+}
+
+/**
+ * Why a reading can't be recorded on a day, or null when it fits. Readings
+ * from the entry being edited are left out. Keep in step with
+ * check_odometer_reading in the migration.
+ */
+export function odometerError(
+  readings: OdometerReading[],
+  onDay: string,
+  odometer: number,
+  excludeId?: string,
+): string | null {
+  const others = readings.filter((r) => r.sourceId !== excludeId);
+  const before = others.filter((r) => r.day < day(onDay)).reduce<number | null>((max, r) => Math.max(max ?? 0, r.odometer), null);
+  const after  = others.filter((r) => r.day > day(onDay)).reduce<number | null>((min, r) => Math.min(min ?? Infinity, r.odometer), null);
+
+  if (before != null && odometer < before) {
+    return `The odometer read ${before.toLocaleString()} km before ${formatLogDay(onDay)} — a reading can't be lower.`;
+  }
+  if (after != null && odometer > after) {
+    return `The odometer read ${after.toLocaleString()} km after ${formatLogDay(onDay)} — a reading can't be higher.`;
+  }
+  return null;
+}
+
+// ─── Fuel economy ─────────────────────────────────────────────────────────────
+
+export interface EconomyPoint {
+  /** Day of the full fill that closes the interval */
+  day: string;
+  distanceKm: number;
+  litres: number;
+  kmPerLitre: number;
+}
+
+/**
+ * Km per litre for each full-tank-to-full-tank interval of a vehicle's fills,
+ * oldest first. Top-ups in between add their litres to the interval.
+ */
+export function fuelEconomy(fuelLogs: FuelLogRow[]): EconomyPoint[] {
+  const fills = [...fuelLogs].sort((a, b) => a.odometer - b.odometer || a.filled_on.localeCompare(b.filled_on));
+  const points: EconomyPoint[] = [];
+
+  let lastFull: FuelLogRow | null = null;
+  let litres = 0;
+  for (const fill of fills) {
+    if (!lastFull) {
+      if (fill.full_tank) lastFull = fill;
+      continue;
+    }
+    litres += fill.litres;
+    if (!fill.full_tank) continue;
+
+    const distanceKm = fill.odometer - lastFull.odometer;
+    if (distanceKm > 0 && litres > 0) {
+      points.push({ day: day(fill.filled_on), distanceKm, litres, kmPerLitre: distanceKm / litres });
+    }
+    lastFull = fill;
+    litres = 0;
+  }
+  return points;
+}
+
+/** Km per litre over all measured intervals, or null before the second full fill */
+export function averageEconomy(points: EconomyPoint[]): number | null {
+  const distance = points.reduce((sum, p) => sum + p.distanceKm, 0);
+  const litres = points.reduce((sum, p) => sum + p.litres, 0);
+  return litres > 0 ? distance / litres : null;
+}
+
+/**
+ * Km a vehicle covered within a period: the spread of its odometer readings
+ * on those days, or the logged trip distances when they add up to more
+ */
+export function kmDriven(
+  readings: OdometerReading[],
+  tripLogs: TripLogRow[],
+  inPeriod: (day: string) => boolean,
+): number {
+  const inside = readings.filter((r) => inPeriod(r.day)).map((r) => r.odometer);
+  const spread = inside.length > 1 ? Math.max(...inside) - Math.min(...inside) : 0;
+  const trips = tripLogs.filter((t) => inPeriod(day(t.started_on))).reduce((sum, t) => sum + t.distance_km, 0);
+  return Math.max(spread, trips);
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export interface FuelLogInput {
+  filledOn: string;
+  odometer: number;
+  litres: number;
+  cost: number;
+  currency: Currency;
+  station: string;
+  fullTank: boolean;
+  bookingId: string | null;
+  notes: string;
+}
+
+export async function saveFuelLog(vehicle: Vehicle, input: FuelLogInput, existing?: FuelLogRow): Promise<QueuedWriteResult> {
+  const fields = {
+    filled_on:  input.filledOn,
+    odometer:   input.odometer,
+    litres:     input.litres,
+    cost:       input.cost,
+    currency:   input.currency,
+    station:    input.station.trim() || null,
+    full_tank:  input.fullTank,
+    booking_id: input.bookingId,
+    notes:      input.notes.trim() || null,
+  };
+
+  if (existing) {
+    return queueWrite('UPDATE', 'fuel_logs', {
+      id: existing.id, ...fields, updated_at: new Date().toISOString(),
+    }, { label: `Update fuel log for ${vehicle.license_plate}` });
+  }
+  return queueWrite('CREATE', 'fuel_logs', {
+    id: createClientId(), vehicle_id: vehicle.id, ...fields,
+  }, { label: `Log ${input.litres} L fuel for ${vehicle.license_plate}` });
+}
+
+export interface TripLogInput {
+  startedOn: string;
+  endedOn: string;
+  startOdometer: number;
+  endOdometer: number;
+  purpose: string;
+  bookingId: string | null;
+  notes: string;
+}
+
+export async function saveTripLog(vehicle: Vehicle, input: TripLogInput, existing?: TripLogRow): Promise<QueuedWriteResult> {
+  const fields = {
+    started_on:     input.startedOn,
+    ended_on:       input.endedOn,
+    start_odometer: input.startOdometer,
+    end_odometer:   input.endOdometer,
+    purpose:        input.purpose.trim() || null,
+    booking_id:     input.bookingId,
+    notes:          input.notes.trim() || null,
+  };
+
+  if (existing) {
+    return queueWrite('UPDATE', 'trip_logs', {
+      id: existing.id, ...fields, updated_at: new Date().toISOString(),
+    }, { label: `Update trip log for ${vehicle.license_plate}` });
+  }
+  return queueWrite('CREATE', 'trip_logs', {
+    id: createClientId(), vehicle_id: vehicle.id, ...fields,
+  }, { label: `Log ${input.endOdometer - input.startOdometer} km trip for ${vehicle.license_plate}` });
+}
+
+export async function removeFuelLog(log: FuelLogRow, vehicle: Vehicle): Promise<QueuedWriteResult> {
+  return queueWrite('DELETE', 'fuel_logs', { id: log.id }, {
+    label: `Remove fuel log for ${vehicle.license_plate}`,
+  });
+}
+
+export async function removeTripLog(trip: TripLogRow, vehicle: Vehicle): Promise<QueuedWriteResult> {
+  return queueWrite('DELETE', 'trip_logs', { id: trip.id }, {
+    label: `Remove trip log for ${vehicle.license_plate}`,
+  });
+}
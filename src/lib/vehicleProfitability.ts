@@ -0,0 +1,220 @@
+import { format, startOfMonth, startOfQuarter, startOfYear, subMonths } from 'date-fns';
+import type {
+  BookingRow,
+  CashRequisitionRow,
+  Currency,
+  FuelLogRow,
+  RepairRow,
+  SafariBookingRow,
+  VehicleRow,
+} from '../../sdk/schema/tables';
+import { isFuelExpense } from './cashRequisition';
+
+/**
+ * Vehicle profitability
+ *
+ * Net contribution per vehicle over a period: what its bookings and safaris
+ * earned, less repairs, fuel (from the fuel logs), other cash requisitions
+ * tagged to it and — for vehicles hired in from vendors — what the vendor
+ * charged. Revenue is the booked value of confirmed work rather than cash
+ * received, so a vehicle isn't marked down for a client who pays late. A
+ * safari contributes its price after permits, lodging and other trip costs.
+ * Repairs count at their estimated cost in USD, as the fleet screen shows
+ * them.
+ */
+
+// ─── Period ───────────────────────────────────────────────────────────────────
+
+export type ProfitPeriod = 'month' | 'quarter' | 'year' | '12m';
+
+export const PROFIT_PERIODS: { value: ProfitPeriod; label: string }[] = [
+  { value: 'month',   label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year',    label: 'Year' },
+  { value: '12m',     label: '12 mo' },
+];
+
+export interface PeriodRange {
+  /** yyyy-MM-dd, inclusive */
+  from: string;
+  to: string;
+}
+
+export function periodRange(period: ProfitPeriod, today: Date = new Date()): PeriodRange {
+  const start =
+    period === 'month'   ? startOfMonth(today) :
+    period === 'quarter' ? startOfQuarter(today) :
+    period === 'year'    ? startOfYear(today) :
+    startOfMonth(subMonths(today, 11));
+  return { from: format(start, 'yyyy-MM-dd'), to: format(today, 'yyyy-MM-dd') };
+}
+
+function inRange(range: PeriodRange, value: string | null | undefined): boolean {
+  if (!value) return false;
+  const day = value.slice(0, 10);
+  return day >= range.from && day <= range.to;
+}
+
+// ─── What counts ──────────────────────────────────────────────────────────────
+
+/** Bookings and safaris that represent committed work */
+export const EARNING_BOOKING_STATUSES = ['Confirmed', 'In-Progress', 'Completed'] as const;
+export const EARNING_SAFARI_STATUSES = ['confirmed', 'active', 'completed'] as const;
+
+/** Same rule as the dashboard's expense totals */
+export function isSpentCR(cr: CashRequisitionRow): boolean {
+  if (cr.status === 'Rejected' || cr.status === 'Declined' || cr.status === 'Cancelled') return false;
+  return !!cr.date_completed || cr.status === 'Approved' || cr.status === 'Completed' || cr.status === 'Resolved';
+}
+
+/** The day a requisition's money went out */
+export function crSpentOn(cr: CashRequisitionRow): string {
+  return cr.date_completed || cr.date_needed;
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+export interface VehiclePnl {
+  /** Vehicle id, or `vendor:<name>` for vehicles hired in */
+  key: string;
+  vehicleId: string | null;
+  name: string;
+  fullName: string;
+  vendor: boolean;
+  /** Amounts in the report currency */
+  bookingRevenue: number;
+  safariRevenue: number;
+  repairs: number;
+  fuel: number;
+  expenses: number;
+  vendorHire: number;
+  revenue: number;
+  costs: number;
+  net: number;
+  /** Net over revenue, or null with no revenue */
+  margin: number | null;
+  trips: number;
+}
+
+export interface ProfitabilityReport {
+  vehicles: VehiclePnl[];
+  revenue: number;
+  costs: number;
+  net: number;
+}
+
+export interface ProfitabilityInput {
+  vehicles: VehicleRow[];
+  bookings: BookingRow[];
+  safaris: SafariBookingRow[];
+  repairs: RepairRow[];
+  fuelLogs: FuelLogRow[];
+  expenses: CashRequisitionRow[];
+}
+
+/**
+ * One P&L per fleet vehicle — including idle ones, which show what they cost
+ * to keep — and per vendor for hired-in vehicles, most profitable first.
+ * `convert` turns an amount in its own currency into the report currency.
+ */
+export function buildProfitabilityReport(
+  input: ProfitabilityInput,
+  range: PeriodRange,
+  convert: (amount: number, from: Currency) => number,
+): ProfitabilityReport {
+  const rows = new Map<string, VehiclePnl>();
+
+  const row = (key: string, name: string, fullName: string, vendor: boolean): VehiclePnl => {
+    let pnl = rows.get(key);
+    if (!pnl) {
+      pnl = {
+        key, vehicleId: vendor ? null : key, name, fullName, vendor,
+        bookingRevenue: 0, safariRevenue: 0, repairs: 0, fuel: 0, expenses: 0, vendorHire: 0,
+        revenue: 0, costs: 0, net: 0, margin: null, trips: 0,
+      };
+      rows.set(key, pnl);
+    }
+    return pnl;
+  };
+
+  const vehicleById = new Map(input.vehicles.map((v) => [v.id, v]));
+  const fleetRow = (vehicleId: string): VehiclePnl => {
+    const v = vehicleById.get(vehicleId);
+    return row(
+      vehicleId,
+      v?.license_plate ?? vehicleId.slice(0, 8),
+      v ? `${v.make} ${v.model} (${v.license_plate})` : 'Unknown vehicle',
+      false,
+    );
+  };
+  const vendorRow = (vendorName: string): VehiclePnl =>
+    row(`vendor:${vendorName.trim().toLowerCase()}`, vendorName, 'Hired from vendor', true);
+
+  for (const v of input.vehicles) fleetRow(v.id);
+
+  for (const b of input.bookings) {
+    if (!inRange(range, b.start_date)) continue;
+    if (!(EARNING_BOOKING_STATUSES as readonly string[]).includes(b.status)) continue;
+
+    let pnl: VehiclePnl;
+    if (b.is_vendor_vehicle) {
+      const details = b.vendor_vehicle_details;
+      pnl = vendorRow(details?.vendor_name || details?.license_plate || 'Vendor vehicles');
+      pnl.vendorHire += convert(b.vendor_hire_cost ?? 0, b.currency);
+    } else if (b.assigned_vehicle_id) {
+      pnl = fleetRow(b.assigned_vehicle_id);
+    } else {
+      continue;
+    }
+    pnl.bookingRevenue += convert(b.total_amount, b.currency);
+    pnl.trips += 1;
+  }
+
+  for (const s of input.safaris) {
+    if (!inRange(range, s.start_date)) continue;
+    if (!(EARNING_SAFARI_STATUSES as readonly string[]).includes(s.status)) continue;
+
+    // Amounts are read from the safari's own currency columns
+    const ugx = s.currency === 'UGX';
+    const hire = ugx ? s.vehicle_hire_cost_ugx : s.vehicle_hire_cost_usd;
+    const pnl = s.vehicle_id ? fleetRow(s.vehicle_id) : hire > 0 ? vendorRow('Safari vehicle hire') : null;
+    if (!pnl) continue;
+    pnl.safariRevenue += ugx
+      ? convert(s.total_price_ugx - s.total_expenses_ugx, 'UGX')
+      : convert(s.total_price_usd - s.total_expenses_usd, 'USD');
+    pnl.vendorHire += convert(hire, ugx ? 'UGX' : 'USD');
+    pnl.trips += 1;
+  }
+
+  for (const r of input.repairs) {
+    if (!r.vehicle_id || !inRange(range, r.reported_at)) continue;
+    fleetRow(r.vehicle_id).repairs += convert(r.estimated_cost ?? 0, 'USD');
+  }
+
+  for (const l of input.fuelLogs) {
+    if (!inRange(range, l.filled_on)) continue;
+    fleetRow(l.vehicle_id).fuel += convert(l.cost, l.currency);
+  }
+
+  // Fuel is counted from the fuel logs above
+  for (const cr of input.expenses) {
+    if (!cr.vehicle_id || !isSpentCR(cr) || !inRange(range, crSpentOn(cr))) continue;
+    if (isFuelExpense(cr.expense_category)) continue;
+    fleetRow(cr.vehicle_id).expenses += cr.amount_usd != null
+      ? convert(cr.amount_usd, 'USD')
+      : convert(cr.total_cost, cr.currency);
+  }
+
+  const vehicles = [...rows.values()];
+  for (const pnl of vehicles) {
+    pnl.revenue = pnl.bookingRevenue + pnl.safariRevenue;
+    pnl.costs = pnl.repairs + pnl.fuel + pnl.expenses + pnl.vendorHire;
+    pnl.net = pnl.revenue - pnl.costs;
+    pnl.margin = pnl.revenue > 0 ? pnl.net / pnl.revenue : null;
+  }
+  vehicles.sort((a, b) => b.net - a.net || b.revenue - a.revenue);
+
+  const revenue = vehicles.reduce((sum, v) => sum + v.revenue, 0);
+  const costs = vehicles.reduce((sum, v) => sum + v.costs, 0);
+  return { vehicles, revenue, costs, net: revenue - costs };
+}
@@ -22,7 +22,7 @@ import Animated, {
 import { FadeSlideIn } from '../components/ui';
 import { Svg, Path, Rect, Circle } from 'react-native-svg';
 import { useBookingsData } from '../hooks/useBookingsData';
-import { useBookingsRealtimeSync } from '../hooks/useBookingsRealtimeSync';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
 import { useFleetData } from '../hooks/useFleetData';
 import { useAuth } from '../contexts/AuthContext';
 import { BookingCard, BookingDetailModal, EditBookingModal } from '../components/bookings';
@@ -202,11 +202,16 @@ export function BookingsScreen() {
   // ========================================================================
 
   const { user } = useAuth();
-  const { bookings, loading, error, refetch } = useBookingsData();
+  const { bookings: serverBookings, loading, error, refetch } = useBookingsData();
   const { vehicles } = useFleetData();
 
-  // Real-time sync
-  useBookingsRealtimeSync(refetch);
+
+  // Overlay bookings saved offline so they appear straight away
+  const { isPending, applyPending } = useOfflineQueue();
+  const bookings = useMemo(
+    () => applyPending('bookings', serverBookings),
+    [applyPending, serverBookings]
+  );
 
   // ========================================================================
   // COMPUTED VALUES
@@ -423,6 +428,7 @@ export function BookingsScreen() {
     <FadeSlideIn delay={Math.min(index * 40, 320)} distance={16}>
       <BookingCard
         booking={item}
+        pendingSync={isPending('bookings', item.id)}
         onPress={(b) => { tapLight(); handleBookingPress(b); }}
         onEdit={(b) => { setEditBooking(b); setEditModalVisible(true); }}
         onCall={(b) => {
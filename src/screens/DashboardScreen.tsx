@@ -16,10 +16,10 @@ import { useAuth } from '../contexts/AuthContext';
 import { devLog, devError } from '../lib/devLog';
 
 // Hooks
-import { useExchangeRate, getConversionRates } from '../hooks/useExchangeRate';
+import { useExchangeRate, getConversionRates, RATE_BASIS_LABELS, type RateBasis } from '../hooks/useExchangeRate';
 import { useDashboardData } from '../hooks/useDashboardData';
-import { useDashboardRealtimeSync } from '../hooks/useDashboardRealtimeSync';
 import { useDashboardCalculations } from '../hooks/useDashboardCalculations';
+import { useVehicleLogs } from '../hooks/useVehicleLogs';
 
 // Components
 import { KPICard } from '../components/kpi/KPICard';
@@ -313,6 +313,8 @@ export function DashboardScreen() {
     return currentYear;
   });
   const [currency, setCurrency] = useState<Currency>('USD');
+  // KPIs always use the rate on each amount's date; charts can use today's
+  const [chartRateBasis, setChartRateBasis] = useState<RateBasis>('historical');
   const [refreshing, setRefreshing] = useState(false);
   const [showNewBooking,    setShowNewBooking]    = useState(false);
   const [showAddExpense,    setShowAddExpense]    = useState(false);
@@ -330,7 +332,7 @@ export function DashboardScreen() {
   // ========================================================================
 
   // Exchange rate hook - fetches live rates from database
-  const { exchangeRates, loading: exchangeRateLoading } = useExchangeRate();
+  const { exchangeRates, rateHistory, loading: exchangeRateLoading } = useExchangeRate();
 
   // Dashboard data hook
   const {
@@ -348,8 +350,8 @@ export function DashboardScreen() {
     dashboardFilterYear,
   });
 
-  // Real-time sync hook
-  useDashboardRealtimeSync(refetch);
+  // Fuel spend and km driven, for expenses and cost per km
+  const { fuelLogs, tripLogs } = useVehicleLogs();
 
   // Conversion rates - now fully dynamic from database
   const conversionRates = useMemo(
@@ -365,7 +367,11 @@ export function DashboardScreen() {
     financialTransactions,
     cashRequisitions,
     safariBookings,
+    fuelLogs,
+    tripLogs,
     conversionRates,
+    rateHistory,
+    chartRateBasis,
     displayCurrency: currency,
     dashboardMonthFilter,
     dashboardFilterYear,
@@ -531,6 +537,7 @@ export function DashboardScreen() {
       revenue: item.revenue,
       tripCount: item.trips,
       capacity: item.capacity === '7 Seater' ? '7S' : item.capacity === '5 Seater' ? '5S' : 'N/A',
+      costPerKm: item.costPerKm,
     }));
   }, [calculations.topVehicles]);
 
@@ -772,6 +779,18 @@ export function DashboardScreen() {
             ))}
           </View>
 
+          <Text style={[styles.filterLabel, styles.filterLabelSpaced]}>Chart Rates</Text>
+          <View style={styles.currencyRow}>
+            {(Object.keys(RATE_BASIS_LABELS) as RateBasis[]).map((basis) => (
+              <FilterChip
+                key={basis}
+                label={RATE_BASIS_LABELS[basis]}
+                selected={chartRateBasis === basis}
+                onPress={() => setChartRateBasis(basis)}
+              />
+            ))}
+          </View>
+
           <View style={styles.filterStatusContainer}>
             <Text style={styles.filterStatusText}>{filterDisplayText}</Text>
           </View>
@@ -834,14 +853,17 @@ export function DashboardScreen() {
           <SectionHeader
             eyebrow="Finance"
             title="Outstanding Payments"
-            onPress={() => navigation.navigate('MainTabs', { screen: 'Finance' })}
+            onPress={() => navigation.navigate('Receivables')}
             actionLabel="View all"
           />
           <OutstandingPaymentsCard
             amount={kpiData.outstandingPaymentsTotal}
             count={kpiData.outstandingPaymentsCount}
             currency={currency}
+            dueSoonAmount={kpiData.dueSoonPaymentsTotal}
+            nextDueDate={kpiData.nextPaymentDueDate}
             loading={loading}
+            onPress={() => navigation.navigate('Receivables')}
           />
         </View>
 
@@ -910,8 +932,8 @@ export function DashboardScreen() {
           <SectionHeader
             eyebrow="Fleet"
             title="Top Revenue Vehicles"
-            onPress={() => navigation.navigate('MainTabs', { screen: 'Fleet' })}
-            actionLabel="View all"
+            onPress={() => navigation.navigate('VehicleProfitability')}
+            actionLabel="Profitability"
           />
           <TopVehiclesChart
             data={topVehiclesData}
@@ -1297,6 +1319,9 @@ const styles = StyleSheet.create({
     color: COLORS.textMuted,
     marginBottom: 10,
   },
+  filterLabelSpaced: {
+    marginTop: 16,
+  },
   chipRow: {
     paddingBottom: 10,
     gap: 10,
@@ -24,15 +24,23 @@ import { FadeSlideIn, EmptyState } from '../components/ui';
 import { tapLight, selectionTick } from '../lib/haptics';
 import { Svg, Path, Circle, Rect, Line, Text as SvgText, Defs, LinearGradient, Stop } from 'react-native-svg';
 import { useFinanceData } from '../hooks/useFinanceData';
-import type { RevenueItem, ExpenseItem } from '../hooks/useFinanceData';
-import { useFinanceRealtimeSync } from '../hooks/useFinanceRealtimeSync';
-import { TransactionDetailModal } from '../components/finance';
+import type { RevenueItem, ExpenseItem, AmountConverter } from '../hooks/useFinanceData';
+import { RATE_BASIS_LABELS, type RateBasis } from '../hooks/useExchangeRate';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { TransactionDetailModal, ApprovalSettingsModal, BudgetsTab } from '../components/finance';
 import { AddExpenseModal } from '../components/forms';
 import { LoadingOverlay } from '../components/system/JackalLoader';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import type { FinancialTransaction, CashRequisition, CRStatus, Currency } from '../types/dashboard';
 import { formatCurrency } from '../lib/utils';
+import { getStaffRole } from '../lib/bookingTransitions';
+import { chainPosition, currentChain } from '../lib/crApprovals';
+import { slaLabel, slaState } from '../lib/crSla';
+import { receiptMissing } from '../lib/financeAttachments';
+import { useCRApprovals } from '../hooks/useCRApprovals';
+import { useFinanceAttachments } from '../hooks/useFinanceAttachments';
+import type { CRApprovalStepRow } from '../../sdk/schema/tables';
 
 // ============================================================================
 // CONSTANTS
@@ -60,9 +68,14 @@ const CURRENCIES: { label: string; value: Currency }[] = [
   { label: 'KES',     value: 'KES' },
 ];
 
-const CR_STATUS_FILTERS: { label: string; value: 'all' | CRStatus }[] = [
+// Past-SLA requisitions are a filter of their own, beside the statuses
+type CRFilter = 'all' | 'sla_breached' | CRStatus;
+
+const CR_STATUS_FILTERS: { label: string; value: CRFilter }[] = [
   { label: 'All',       value: 'all' },
   { label: 'Pending',   value: 'Pending' },
+  { label: 'SLA Breached', value: 'sla_breached' },
+  { label: 'Returned',  value: 'Returned' },
   { label: 'Approved',  value: 'Approved' },
   { label: 'Completed', value: 'Completed' },
   { label: 'Resolved',  value: 'Resolved' },
@@ -74,12 +87,14 @@ const CR_STATUS_FILTERS: { label: string; value: 'all' | CRStatus }[] = [
 function crStatusColor(status: string): string {
   switch (status) {
     case 'Pending':             return COLORS.warning;
+    case 'Returned':            return '#a06a2c';
     case 'Approved':            return '#3d8f6a';
     case 'Completed':
     case 'Resolved':            return COLORS.success;
     case 'Declined':
     case 'Rejected':            return COLORS.danger;
     case 'Cancelled':           return COLORS.textMuted;
+    case 'sla_breached':        return COLORS.danger;
     default:                    return COLORS.textMuted;
   }
 }
@@ -147,13 +162,10 @@ interface ChartPoint { label: string; revenue: number; expense: number; }
 function buildLastNDays(
   revenueItems: RevenueItem[],
   expenseItems: ExpenseItem[],
-  currency: Currency,
+  convert: AmountConverter,
+  basis: RateBasis,
   n = 7,
 ): ChartPoint[] {
-  const rates: Record<string, number> = { USD: 1, UGX: 3700, KES: 130 };
-  const toBase = (amount: number, cur: string) => amount / (rates[cur] || 1);
-  const fromBase = (amount: number) => amount * (rates[currency] || 1);
-
   const now = new Date();
   return Array.from({ length: n }, (_, i) => {
     const d = new Date(now);
@@ -163,11 +175,11 @@ function buildLastNDays(
 
     const rev = revenueItems
       .filter(r => (r.date || '').slice(0, 10) === dayStr)
-      .reduce((s, r) => s + fromBase(toBase(r.amount, r.currency)), 0);
+      .reduce((s, r) => s + convert(r.amount, r.currency, r.date, basis), 0);
 
     const exp = expenseItems
       .filter(e => (e.date || '').slice(0, 10) === dayStr)
-      .reduce((s, e) => s + fromBase(toBase(e.amount, e.currency)), 0);
+      .reduce((s, e) => s + convert(e.amount, e.currency, e.date, basis), 0);
 
     return { label, revenue: rev, expense: exp };
   });
@@ -190,12 +202,14 @@ function fmt(v: number): string {
   return v.toFixed(0);
 }
 
-function RevenueExpenseChart({ revenueItems, expenseItems, currency }: {
+function RevenueExpenseChart({ revenueItems, expenseItems, convert, rateBasis, onRateBasisChange }: {
   revenueItems: RevenueItem[];
   expenseItems: ExpenseItem[];
-  currency: Currency;
+  convert: AmountConverter;
+  rateBasis: RateBasis;
+  onRateBasisChange: (basis: RateBasis) => void;
 }) {
-  const data = useMemo(() => buildLastNDays(revenueItems, expenseItems, currency, 7), [revenueItems, expenseItems, currency]);
+  const data = useMemo(() => buildLastNDays(revenueItems, expenseItems, convert, rateBasis, 7), [revenueItems, expenseItems, convert, rateBasis]);
 
   const W      = SCREEN_W - 32;          // card width (16px margin each side)
   const H      = 180;
@@ -242,6 +256,21 @@ function RevenueExpenseChart({ revenueItems, expenseItems, currency }: {
         </View>
       </View>
 
+      {/* Rate basis: each amount at the rate on its date, or all at today's */}
+      <View style={{ flexDirection: 'row', gap: 6, marginBottom: 10 }}>
+        {(Object.keys(RATE_BASIS_LABELS) as RateBasis[]).map(basis => (
+          <TouchableOpacity
+            key={basis}
+            onPress={() => onRateBasisChange(basis)}
+            style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12, backgroundColor: rateBasis === basis ? '#fffaf3' : 'rgba(255,255,255,0.08)' }}
+          >
+            <Text style={{ fontSize: 10, fontWeight: '700', color: rateBasis === basis ? '#171513' : '#b8ab95' }}>
+              {RATE_BASIS_LABELS[basis]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       {/* SVG Chart */}
       <Svg width={W} height={H}>
         <Defs>
@@ -384,9 +413,8 @@ const SOURCE_LABELS: Record<string, string> = {
   transaction:    'Income',
 };
 
-function RevenueRow({ item, displayCurrency, onPress }: { item: RevenueItem; displayCurrency: Currency; onPress: (item: RevenueItem) => void }) {
-  const rates: Record<string, number> = { USD: 1, UGX: 3700, KES: 130 };
-  const displayed = (item.amount / (rates[item.currency] || 1)) * (rates[displayCurrency] || 1);
+function RevenueRow({ item, displayCurrency, convert, onPress }: { item: RevenueItem; displayCurrency: Currency; convert: AmountConverter; onPress: (item: RevenueItem) => void }) {
+  const displayed = convert(item.amount, item.currency, item.date);
   const date = item.date ? new Date(item.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
   const statusColor = item.status?.toLowerCase() === 'completed' || item.status?.toLowerCase() === 'confirmed'
     ? COLORS.success : COLORS.warning;
@@ -420,9 +448,8 @@ function RevenueRow({ item, displayCurrency, onPress }: { item: RevenueItem; dis
 // EXPENSE ROW
 // ============================================================================
 
-function ExpenseRow({ item, displayCurrency, onPress }: { item: ExpenseItem; displayCurrency: Currency; onPress: (item: ExpenseItem) => void }) {
-  const rates: Record<string, number> = { USD: 1, UGX: 3700, KES: 130 };
-  const displayed = (item.amount / (rates[item.currency] || 1)) * (rates[displayCurrency] || 1);
+function ExpenseRow({ item, displayCurrency, convert, onPress }: { item: ExpenseItem; displayCurrency: Currency; convert: AmountConverter; onPress: (item: ExpenseItem) => void }) {
+  const displayed = convert(item.amount, item.currency, item.date);
   const date = item.date ? new Date(item.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
   const sourceLabel = item.source === 'cash_requisition' ? 'Cash Req.' : 'Expense';
   const statusColor = item.status?.toLowerCase() === 'completed' || item.status?.toLowerCase() === 'resolved'
@@ -457,9 +484,16 @@ function ExpenseRow({ item, displayCurrency, onPress }: { item: ExpenseItem; dis
 // CASH REQUISITION CARD
 // ============================================================================
 
-function CRCard({ cr, displayCurrency, onPress }: { cr: CashRequisition; displayCurrency: Currency; onPress: (cr: CashRequisition) => void }) {
-  const rates: Record<string, number> = { USD: 1, UGX: 3700, KES: 130 };
-  const displayed = (cr.total_cost / (rates[cr.currency] || 1)) * (rates[displayCurrency] || 1);
+const STEP_DOT_COLORS: Record<CRApprovalStepRow['status'], string> = {
+  waiting:  COLORS.border,
+  pending:  COLORS.warning,
+  approved: '#3d8f6a',
+  declined: COLORS.danger,
+  returned: '#a06a2c',
+};
+
+function CRCard({ cr, displayCurrency, convert, onPress, pendingSync = false, chain = [], noReceipt = false }: { cr: CashRequisition; displayCurrency: Currency; convert: AmountConverter; onPress: (cr: CashRequisition) => void; pendingSync?: boolean; chain?: CRApprovalStepRow[]; noReceipt?: boolean }) {
+  const displayed = convert(cr.total_cost, cr.currency, cr.created_at);
   const dateNeeded = cr.date_needed
     ? new Date(cr.date_needed).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
     : '';
@@ -469,6 +503,11 @@ function CRCard({ cr, displayCurrency, onPress }: { cr: CashRequisition; display
   const statusColor = crStatusColor(cr.status);
   const statusBg    = crStatusBg(cr.status);
   const approverName = cr.approver?.full_name || (cr.approver?.email ? cr.approver.email.split('@')[0] : null);
+  // Where the requisition sits in its chain, e.g. "Step 2 of 3 · Finance manager"
+  const position = cr.status === 'Pending' ? chainPosition(chain) : null;
+  const returned = cr.status === 'Returned' ? chain.find((s) => s.status === 'returned') : undefined;
+  const sla = slaState(cr);
+  const slaColor = sla === 'breached' ? COLORS.danger : sla === 'due_soon' ? COLORS.warning : COLORS.textMuted;
 
   return (
     <TouchableOpacity style={styles.crCard} onPress={() => onPress(cr)} activeOpacity={0.75}>
@@ -500,6 +539,23 @@ function CRCard({ cr, displayCurrency, onPress }: { cr: CashRequisition; display
           <View style={[styles.crBadge, { backgroundColor: statusBg }]}>
             <Text style={[styles.crBadgeText, { color: statusColor }]}>{cr.status}</Text>
           </View>
+          {sla && (sla !== 'on_track' || cr.urgency !== 'Routine') ? (
+            <View style={[styles.crBadge, { backgroundColor: slaColor + '18' }]}>
+              <Text style={[styles.crBadgeText, { color: slaColor }]}>
+                {cr.urgency && cr.urgency !== 'Routine' ? `${cr.urgency} · ` : ''}{slaLabel(cr)}
+              </Text>
+            </View>
+          ) : null}
+          {noReceipt ? (
+            <View style={[styles.crBadge, { backgroundColor: COLORS.danger + '18' }]}>
+              <Text style={[styles.crBadgeText, { color: COLORS.danger }]}>Receipt missing</Text>
+            </View>
+          ) : null}
+          {pendingSync ? (
+            <View style={[styles.crBadge, { backgroundColor: '#fef3c7' }]}>
+              <Text style={[styles.crBadgeText, { color: COLORS.warning }]}>Pending sync</Text>
+            </View>
+          ) : null}
         </View>
 
         {/* Purpose */}
@@ -509,13 +565,29 @@ function CRCard({ cr, displayCurrency, onPress }: { cr: CashRequisition; display
           </Text>
         ) : null}
 
+        {/* Approval chain progress */}
+        {chain.length > 1 || position || returned ? (
+          <View style={styles.crChainRow}>
+            {chain.length > 1 ? (
+              <View style={styles.crChainDots}>
+                {chain.map((step) => (
+                  <View key={step.id} style={[styles.crChainDot, { backgroundColor: STEP_DOT_COLORS[step.status] }]} />
+                ))}
+              </View>
+            ) : null}
+            <Text style={styles.crChainText} numberOfLines={1}>
+              {position ?? (returned ? `Returned at ${returned.label}${returned.comment ? ` — ${returned.comment}` : ''}` : `${chain.length} approvals`)}
+            </Text>
+          </View>
+        ) : null}
+
         {/* Footer: requester · approver · dates */}
         <View style={styles.crFooter}>
           <View style={styles.crFooterLeft}>
             {cr.requester_name ? (
               <Text style={styles.crMeta}>By {cr.requester_name}</Text>
             ) : null}
-            {approverName ? (
+            {approverName && cr.status === 'Pending' ? (
               <Text style={styles.crMeta}>→ {approverName}</Text>
             ) : null}
           </View>
@@ -565,9 +637,10 @@ function ErrorMessage({ message, onRetry }: { message: string; onRetry?: () => v
 // PETTY CASH TAB
 // ============================================================================
 
-function PettyCashTab({ expenseItems, currency, refreshing, onRefresh, onPress }: {
+function PettyCashTab({ expenseItems, currency, convert, refreshing, onRefresh, onPress }: {
   expenseItems: ExpenseItem[];
   currency: Currency;
+  convert: AmountConverter;
   refreshing: boolean;
   onRefresh: () => void;
   onPress: (item: ExpenseItem) => void;
@@ -578,8 +651,7 @@ function PettyCashTab({ expenseItems, currency, refreshing, onRefresh, onPress }
     e.title?.toLowerCase().includes('petty')
   );
 
-  const rates: Record<string, number> = { USD: 1, UGX: 3700, KES: 130 };
-  const toDisplay = (e: ExpenseItem) => (e.amount / (rates[e.currency] || 1)) * (rates[currency] || 1);
+  const toDisplay = (e: ExpenseItem) => convert(e.amount, e.currency, e.date);
 
   const total = pettyCashItems.reduce((s, e) => s + toDisplay(e), 0);
 
@@ -660,7 +732,7 @@ const pc = StyleSheet.create({
 // MAIN FINANCE SCREEN
 // ============================================================================
 
-type ActiveTab = 'revenue' | 'expenses' | 'requisitions' | 'petty_cash';
+type ActiveTab = 'revenue' | 'expenses' | 'requisitions' | 'petty_cash' | 'budgets';
 
 export function FinanceScreen() {
   const { user } = useAuth();
@@ -668,28 +740,45 @@ export function FinanceScreen() {
   const [activeTab,      setActiveTab]      = useState<ActiveTab>('revenue');
   const [searchQuery,    setSearchQuery]    = useState('');
   const [crSearchQuery,  setCrSearchQuery]  = useState('');
-  const [crStatusFilter, setCrStatusFilter] = useState<'all' | CRStatus>('all');
+  const [crStatusFilter, setCrStatusFilter] = useState<CRFilter>('all');
   const [refreshing,     setRefreshing]     = useState(false);
   const [showAddCR,      setShowAddCR]      = useState(false);
+  const [showApprovals,  setShowApprovals]  = useState(false);
+  const [chartRateBasis, setChartRateBasis] = useState<RateBasis>('historical');
 
   const [modalItem,    setModalItem]    = useState<FinancialTransaction | CashRequisition | null>(null);
   const [modalType,    setModalType]    = useState<'transaction' | 'cr'>('transaction');
   const [modalVisible, setModalVisible] = useState(false);
 
   const {
-    cashRequisitions,
+    cashRequisitions: serverCRs,
     revenueItems,
     expenseItems,
     revenueMTD,
     expensesMTD,
     netProfitMTD,
     pendingCRCount,
+    convertAmount,
     loading,
     error,
     refetch,
   } = useFinanceData({ currency });
 
-  useFinanceRealtimeSync(refetch);
+  const { steps: approvalSteps, rules: approvalRules } = useCRApprovals();
+  const { attachments } = useFinanceAttachments();
+  const canEditRules = getStaffRole(user) !== 'staff';
+  const isApprover = !!user && (
+    approvalSteps.some(step => step.approver_id === user.id) ||
+    approvalRules.some(rule => rule.steps.some(step => step.approver_id === user.id))
+  );
+
+
+  // CRs raised offline show up immediately, flagged until they reach the server
+  const { isPending, applyPending } = useOfflineQueue();
+  const cashRequisitions = useMemo(
+    () => applyPending('cash_requisitions', serverCRs),
+    [applyPending, serverCRs]
+  );
 
   // ── Filtered lists ────────────────────────────────────────────────────────
 
@@ -715,7 +804,9 @@ export function FinanceScreen() {
 
   const filteredCRs = useMemo(() => {
     let list = cashRequisitions;
-    if (crStatusFilter !== 'all') {
+    if (crStatusFilter === 'sla_breached') {
+      list = list.filter(cr => slaState(cr) === 'breached');
+    } else if (crStatusFilter !== 'all') {
       list = list.filter(cr => cr.status === crStatusFilter);
     }
     if (crSearchQuery.trim()) {
@@ -840,7 +931,13 @@ export function FinanceScreen() {
         </View>
       </View>
 
-      <RevenueExpenseChart revenueItems={revenueItems} expenseItems={expenseItems} currency={currency} />
+      <RevenueExpenseChart
+        revenueItems={revenueItems}
+        expenseItems={expenseItems}
+        convert={convertAmount}
+        rateBasis={chartRateBasis}
+        onRateBasisChange={setChartRateBasis}
+      />
 
       <View style={styles.kpiGrid}>
         <KPICard delay={0}   title="Revenue (MTD)"  value={formatCurrency(revenueMTD,  currency)} accent={COLORS.income}  bg={COLORS.revenueBg} icon={<TrendUpIcon   size={15} color={COLORS.income}  />} />
@@ -888,6 +985,13 @@ export function FinanceScreen() {
         <Text style={styles.newCRBtnText}>New Cash Requisition</Text>
       </TouchableOpacity>
 
+      {/* Approval chains and delegation, for managers and approvers */}
+      {(canEditRules || isApprover) && (
+        <TouchableOpacity style={styles.settingsLink} onPress={() => setShowApprovals(true)} activeOpacity={0.7}>
+          <Text style={styles.settingsText}>Approval settings</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Status filter chips */}
       <View style={styles.sectionLabelRow}>
         <Text style={styles.sectionLabel}>Filter by Status</Text>
@@ -923,26 +1027,26 @@ export function FinanceScreen() {
 
       <Text style={styles.listCount}>
         {filteredCRs.length} requisition{filteredCRs.length !== 1 ? 's' : ''}
-        {crStatusFilter !== 'all' ? ` · ${crStatusFilter}` : ''}
+        {crStatusFilter !== 'all' ? ` · ${CR_STATUS_FILTERS.find(f => f.value === crStatusFilter)?.label}` : ''}
       </Text>
     </>
   );
 
   const renderRevenueItem  = ({ item, index }: { item: RevenueItem; index: number }) => (
     <FadeSlideIn delay={Math.min(index * 40, 300)} distance={14}>
-      <RevenueRow item={item} displayCurrency={currency} onPress={handleRevenuePress} />
+      <RevenueRow item={item} displayCurrency={currency} convert={convertAmount} onPress={handleRevenuePress} />
     </FadeSlideIn>
   );
 
   const renderExpenseItem  = ({ item, index }: { item: ExpenseItem; index: number }) => (
     <FadeSlideIn delay={Math.min(index * 40, 300)} distance={14}>
-      <ExpenseRow item={item} displayCurrency={currency} onPress={handleExpensePress} />
+      <ExpenseRow item={item} displayCurrency={currency} convert={convertAmount} onPress={handleExpensePress} />
     </FadeSlideIn>
   );
 
   const renderCRItem = ({ item, index }: { item: CashRequisition; index: number }) => (
     <FadeSlideIn delay={Math.min(index * 40, 300)} distance={14}>
-      <CRCard cr={item} displayCurrency={currency} onPress={handleCRPress} />
+      <CRCard cr={item} displayCurrency={currency} convert={convertAmount} onPress={handleCRPress} pendingSync={isPending('cash_requisitions', item.id)} chain={currentChain(approvalSteps, item.id)} noReceipt={receiptMissing(item, attachments)} />
     </FadeSlideIn>
   );
 
@@ -976,7 +1080,7 @@ export function FinanceScreen() {
             <View>
               <Text style={styles.heroTitle}>Finance</Text>
               <Text style={styles.heroSub}>
-                {activeTab === 'requisitions' ? 'Cash Requisitions' : 'Revenue & Expenses'}
+                {activeTab === 'requisitions' ? 'Cash Requisitions' : activeTab === 'budgets' ? 'Budget vs Actual' : 'Revenue & Expenses'}
               </Text>
             </View>
             {activeTab !== 'requisitions' ? (
@@ -990,7 +1094,7 @@ export function FinanceScreen() {
             ) : null}
           </View>
 
-          {/* 4-tab selector */}
+          {/* Tab selector */}
           <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.heroTabsScroll}>
             <View style={styles.heroTabs}>
               {([
@@ -998,6 +1102,7 @@ export function FinanceScreen() {
                 { key: 'expenses',     label: `Expenses (${expenseItems.length})` },
                 { key: 'requisitions', label: `Cash Reqs (${cashRequisitions.length})` },
                 { key: 'petty_cash',   label: `Petty Cash (${expenseItems.filter(e => e.subtitle?.toLowerCase().includes('petty') || e.title?.toLowerCase().includes('petty')).length})` },
+                { key: 'budgets',      label: 'Budgets' },
               ] as { key: ActiveTab; label: string }[]).map(t => (
                 <TouchableOpacity
                   key={t.key}
@@ -1062,12 +1167,22 @@ export function FinanceScreen() {
         <PettyCashTab
           expenseItems={expenseItems}
           currency={currency}
+          convert={convertAmount}
           refreshing={refreshing}
           onRefresh={handleRefresh}
           onPress={(item: ExpenseItem) => { setModalItem(item as any); setModalType('transaction'); setModalVisible(true); }}
         />
       )}
 
+      {activeTab === 'budgets' && (
+        <BudgetsTab
+          currency={currency}
+          canEdit={canEditRules}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+        />
+      )}
+
       <TransactionDetailModal
         item={modalItem}
         itemType={modalType}
@@ -1076,6 +1191,7 @@ export function FinanceScreen() {
         displayCurrency={currency}
         onRefetch={refetch}
         currentUserId={user?.id}
+        canManage={canEditRules}
       />
 
       <AddExpenseModal
@@ -1085,6 +1201,13 @@ export function FinanceScreen() {
         userId={user?.id}
         userName={user?.user_metadata?.full_name || user?.email?.split('@')[0]}
       />
+
+      <ApprovalSettingsModal
+        visible={showApprovals}
+        onClose={() => setShowApprovals(false)}
+        userId={user?.id}
+        canEditRules={canEditRules}
+      />
     </SafeAreaView>
   );
 }
@@ -1184,6 +1307,12 @@ const styles = StyleSheet.create({
   crDate:        { fontSize: 11, color: COLORS.textMuted },
   crPayeeRow:    { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 2 },
   crPayee:       { fontSize: 12, color: COLORS.textMuted, fontWeight: '500', flex: 1 },
+  crChainRow:    { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  crChainDots:   { flexDirection: 'row', gap: 4 },
+  crChainDot:    { width: 8, height: 8, borderRadius: 4 },
+  crChainText:   { fontSize: 12, color: COLORS.text, fontWeight: '600', flex: 1 },
+  settingsLink:  { alignSelf: 'center', marginTop: -6, marginBottom: 14, paddingVertical: 4 },
+  settingsText:  { fontSize: 13, fontWeight: '700', color: COLORS.primary },
 
   // Loading
   loadingOverlay: { ...StyleSheet.absoluteFillObject, backgroundColor: 'rgba(241,245,249,0.9)', justifyContent: 'center', alignItems: 'center', zIndex: 100 },
@@ -21,8 +21,11 @@ import Animated, {
 } from 'react-native-reanimated';
 import { Svg, Path, Circle } from 'react-native-svg';
 import { useFleetData } from '../hooks/useFleetData';
-import { useFleetRealtimeSync } from '../hooks/useFleetRealtimeSync';
-import { VehicleCard, VehicleDetailModal, MaintenanceTracker } from '../components/fleet';
+import { useServicePlans } from '../hooks/useServicePlans';
+import { useComplianceDocuments } from '../hooks/useComplianceDocuments';
+import { maintenanceDueItems } from '../lib/maintenance';
+import { VehicleCard, VehicleDetailModal, MaintenanceTracker, MaintenanceDueList, FleetTimeline } from '../components/fleet';
+import { queryClient } from '../lib/queryClient';
 import type { Vehicle, VehicleStatus } from '../types/dashboard';
 import { FadeSlideIn, EmptyState, ListSkeleton } from '../components/ui';
 import { LoadingOverlay } from '../components/system/JackalLoader';
@@ -151,15 +154,16 @@ export function FleetScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'timeline'>('list');
 
   // ========================================================================
   // HOOKS
   // ========================================================================
 
   const { vehicles, repairs, loading, error, refetch } = useFleetData();
+  const { plans } = useServicePlans();
+  const { documents } = useComplianceDocuments();
 
-  // Real-time sync
-  useFleetRealtimeSync(refetch);
 
   // ========================================================================
   // COMPUTED VALUES
@@ -176,6 +180,11 @@ export function FleetScreen() {
     return { total, available, booked, maintenance };
   }, [vehicles]);
 
+  const dueItems = useMemo(
+    () => maintenanceDueItems(vehicles, plans, repairs, documents),
+    [vehicles, plans, repairs, documents],
+  );
+
   const filteredVehicles = useMemo(() => {
     let result = vehicles;
 
@@ -207,6 +216,7 @@ export function FleetScreen() {
   const handleRefresh = useCallback(async () => {
     devLog('[FleetScreen] Pull-to-refresh triggered');
     setRefreshing(true);
+    queryClient.invalidateQueries({ key: ['fleet-schedule'] });
     await refetch();
     setRefreshing(false);
   }, [refetch]);
@@ -293,13 +303,32 @@ export function FleetScreen() {
         />
       </View>
 
+      {/* Service plans, service dates and documents coming due */}
+      <MaintenanceDueList items={dueItems} onPressVehicle={handleVehiclePress} />
+
       {/* Maintenance Tracker */}
       <MaintenanceTracker repairs={repairs} loading={loading} />
 
-      {/* Vehicles List Header */}
-      <Text style={styles.listHeader}>
-        Vehicles ({filteredVehicles.length})
-      </Text>
+      {/* Vehicles List Header + view toggle */}
+      <View style={styles.listHeaderRow}>
+        <Text style={styles.listHeader}>
+          Vehicles ({filteredVehicles.length})
+        </Text>
+        <View style={styles.viewToggle}>
+          {(['list', 'timeline'] as const).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.viewToggleBtn, viewMode === mode && styles.viewToggleBtnActive]}
+              onPress={() => { selectionTick(); setViewMode(mode); }}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.viewToggleText, viewMode === mode && styles.viewToggleTextActive]}>
+                {mode === 'list' ? 'List' : 'Timeline'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
     </>
   );
 
@@ -362,11 +391,16 @@ export function FleetScreen() {
 
       {/* Main Content */}
       <FlatList
-        data={filteredVehicles}
+        data={viewMode === 'list' ? filteredVehicles : []}
         keyExtractor={(item) => item.id}
         renderItem={renderVehicle}
         ListHeaderComponent={renderHeader}
-        ListEmptyComponent={!loading ? renderEmpty : null}
+        ListEmptyComponent={!loading && viewMode === 'list' ? renderEmpty : null}
+        ListFooterComponent={
+          viewMode === 'timeline' && !loading
+            ? <FleetTimeline vehicles={filteredVehicles} repairs={repairs} />
+            : null
+        }
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
         refreshControl={
@@ -506,6 +540,23 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     marginTop: 8,
   },
+  listHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#ece5d9',
+    borderRadius: 999,
+    padding: 3,
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  viewToggleBtn: { paddingHorizontal: 12, paddingVertical: 5, borderRadius: 999 },
+  viewToggleBtnActive: { backgroundColor: COLORS.card },
+  viewToggleText: { fontSize: 12, fontWeight: '600', color: COLORS.textMuted },
+  viewToggleTextActive: { color: COLORS.text },
   loadingOverlay: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: 'rgba(243, 244, 246, 0.9)',
@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useCallback, useRef } from 'react';
+import React, { useMemo, useState, useCallback, useRef, useEffect } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -33,6 +33,10 @@ import {
 } from '../contexts/AppPreferencesContext';
 import { clearAllNotifications } from '../services/notificationService';
 import { supabase } from '../lib/supabase';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { clearUnpinnedCache } from '../lib/cache';
+import { formatBytes, getStorageUsage, type StorageUsage } from '../lib/storageUsage';
+import type { SyncOperation } from '../../sdk/offline/OfflineSyncService';
 import { FadeSlideIn } from '../components/ui';
 
 // ─── Language config ──────────────────────────────────────────────────────────
@@ -277,6 +281,301 @@ function ChangePasswordModal({
   );
 }
 
+// ─── Sync Issues Modal ────────────────────────────────────────────────────────
+// Writes the server rejected (or that ran out of retries) land in the sync
+// queue's dead-letter store.  Here the user can inspect them, fix the payload
+// and retry, or discard them.
+
+function SyncIssuesModal({
+  visible,
+  onClose,
+  theme,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  theme: any;
+}) {
+  const { deadLetters, updateDeadLetter, retryDeadLetter, discardDeadLetter } = useOfflineQueue();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft]         = useState('');
+  const [busyId, setBusyId]       = useState<string | null>(null);
+
+  const startEditing = useCallback((op: SyncOperation) => {
+    setEditingId(op.id);
+    setDraft(JSON.stringify(op.data, null, 2));
+  }, []);
+
+  const runAction = useCallback(async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  }, []);
+
+  const handleSaveAndRetry = useCallback((op: SyncOperation) => {
+    let data: any;
+    try {
+      data = JSON.parse(draft);
+    } catch {
+      Alert.alert('Invalid data', 'The payload is not valid JSON.');
+      return;
+    }
+    void runAction(op.id, async () => {
+      await updateDeadLetter(op.id, data);
+      await retryDeadLetter(op.id);
+      setEditingId(null);
+    });
+  }, [draft, runAction, updateDeadLetter, retryDeadLetter]);
+
+  const handleDiscard = useCallback((op: SyncOperation) => {
+    Alert.alert(
+      'Discard change?',
+      'This change will be removed from this device and never sent to the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => void runAction(op.id, () => discardDeadLetter(op.id)),
+        },
+      ]
+    );
+  }, [runAction, discardDeadLetter]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable style={styles.modalBackdrop} onPress={onClose}>
+          <Pressable style={[styles.modalSheet, styles.syncSheet, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.modalHandle} />
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]}>Sync Issues</Text>
+            <Text style={[styles.modalSubtitle, { color: theme.colors.textMuted }]}>
+              Changes saved on this device that could not be sent to the server.
+            </Text>
+
+            <ScrollView style={{ flexGrow: 0 }} contentContainerStyle={{ gap: 12 }}>
+              {deadLetters.length === 0 && (
+                <Text style={[styles.syncEmpty, { color: theme.colors.textMuted }]}>
+                  Everything is in sync.
+                </Text>
+              )}
+
+              {deadLetters.map((op) => {
+                const editing = editingId === op.id;
+                const busy = busyId === op.id;
+                return (
+                  <View
+                    key={op.id}
+                    style={[styles.syncItem, { backgroundColor: theme.colors.surfaceMuted, borderColor: theme.colors.border }]}
+                  >
+                    <Text style={[styles.syncItemTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                      {op.label || `${op.type} ${op.resource}`}
+                    </Text>
+                    <Text style={[styles.syncItemMeta, { color: theme.colors.textMuted }]}>
+                      {op.deadLetterReason === 'exhausted' ? `Gave up after ${op.retryCount} attempts` : 'Rejected by server'}
+                      {op.deadLetteredAt
+                        ? ` · ${new Date(op.deadLetteredAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`
+                        : ''}
+                    </Text>
+                    {!!op.error && (
+                      <Text style={[styles.syncItemError, { color: theme.colors.danger }]}>{op.error}</Text>
+                    )}
+
+                    {editing && (
+                      <TextInput
+                        style={[styles.syncEditor, { color: theme.colors.text, borderColor: theme.colors.border, backgroundColor: theme.colors.surface }]}
+                        value={draft}
+                        onChangeText={setDraft}
+                        multiline
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                      />
+                    )}
+
+                    <View style={styles.syncActions}>
+                      {editing ? (
+                        <TouchableOpacity
+                          style={[styles.syncActionBtn, { borderColor: theme.colors.border }]}
+                          onPress={() => setEditingId(null)}
+                          disabled={busy}
+                        >
+                          <Text style={[styles.syncActionText, { color: theme.colors.textMuted }]}>Cancel</Text>
+                        </TouchableOpacity>
+                      ) : (
+                        <TouchableOpacity
+                          style={[styles.syncActionBtn, { borderColor: theme.colors.border }]}
+                          onPress={() => startEditing(op)}
+                          disabled={busy}
+                        >
+                          <Text style={[styles.syncActionText, { color: theme.colors.text }]}>Edit</Text>
+                        </TouchableOpacity>
+                      )}
+                      {!editing && (
+                        <TouchableOpacity
+                          style={[styles.syncActionBtn, { borderColor: theme.colors.border }]}
+                          onPress={() => handleDiscard(op)}
+                          disabled={busy}
+                        >
+                          <Text style={[styles.syncActionText, { color: theme.colors.danger }]}>Discard</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={[styles.syncActionBtn, { backgroundColor: theme.colors.accent, borderColor: theme.colors.accent }, busy && { opacity: 0.7 }]}
+                        onPress={() => editing ? handleSaveAndRetry(op) : void runAction(op.id, () => retryDeadLetter(op.id))}
+                        disabled={busy}
+                      >
+                        {busy
+                          ? <ActivityIndicator color={theme.colors.accentContrast} size="small" />
+                          : <Text style={[styles.syncActionText, { color: theme.colors.accentContrast }]}>{editing ? 'Save & Retry' : 'Retry'}</Text>
+                        }
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.modalDoneBtn, { backgroundColor: theme.colors.accent, marginTop: 20 }]}
+              onPress={onClose}
+            >
+              <Text style={[styles.modalDoneBtnText, { color: theme.colors.accentContrast }]}>Done</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ─── Storage Usage Modal ──────────────────────────────────────────────────────
+// What the app keeps on this device, by area, and how much of the cache budget
+// is in use.  Pinned datasets (today's bookings, active safaris) survive a clear.
+
+function StorageUsageModal({
+  visible,
+  onClose,
+  theme,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  theme: any;
+}) {
+  const [usage, setUsage]       = useState<StorageUsage | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Could not read storage usage.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) void loadUsage();
+  }, [visible, loadUsage]);
+
+  const handleClear = useCallback(() => {
+    Alert.alert(
+      'Clear cached data?',
+      'Cached lists will be downloaded again when you next open them. Pinned data and unsynced changes are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            setClearing(true);
+            await clearUnpinnedCache();
+            await loadUsage();
+            setClearing(false);
+          },
+        },
+      ]
+    );
+  }, [loadUsage]);
+
+  const cache = usage?.cache;
+  const budgetShare = cache && cache.budgetBytes > 0 ? Math.min(1, cache.totalBytes / cache.budgetBytes) : 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalBackdrop} onPress={onClose}>
+        <Pressable style={[styles.modalSheet, styles.syncSheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.modalHandle} />
+          <Text style={[styles.modalTitle, { color: theme.colors.text }]}>Storage</Text>
+          <Text style={[styles.modalSubtitle, { color: theme.colors.textMuted }]}>
+            {usage ? `${formatBytes(usage.totalBytes)} stored on this device` : 'Measuring…'}
+          </Text>
+
+          {!usage ? (
+            <ActivityIndicator color={theme.colors.accent} style={{ paddingVertical: 24 }} />
+          ) : (
+            <ScrollView style={{ flexGrow: 0 }} contentContainerStyle={{ gap: 12 }}>
+              {usage.areas.map((area) => (
+                <View key={area.label} style={[styles.infoRow, { borderTopWidth: 1, borderTopColor: theme.colors.border }]}>
+                  <Text style={[styles.infoLabel, { color: theme.colors.textMuted }]}>
+                    {area.label} · {area.entries} item{area.entries === 1 ? '' : 's'}
+                  </Text>
+                  <Text style={[styles.infoValue, { color: theme.colors.text }]}>{formatBytes(area.bytes)}</Text>
+                </View>
+              ))}
+
+              {cache && (
+                <View style={[styles.syncItem, { backgroundColor: theme.colors.surfaceMuted, borderColor: theme.colors.border }]}>
+                  <Text style={[styles.syncItemTitle, { color: theme.colors.text }]}>Cache budget</Text>
+                  <Text style={[styles.syncItemMeta, { color: theme.colors.textMuted }]}>
+                    {formatBytes(cache.totalBytes)} of {formatBytes(cache.budgetBytes)}
+                    {cache.pinnedBytes > 0 ? ` · ${formatBytes(cache.pinnedBytes)} pinned` : ''}
+                  </Text>
+                  <View style={[styles.storageBar, { backgroundColor: theme.colors.border }]}>
+                    <View style={[styles.storageBarFill, { width: `${budgetShare * 100}%`, backgroundColor: theme.colors.accent }]} />
+                  </View>
+                  {cache.entries.map((entry) => (
+                    <View key={entry.key} style={styles.storageEntry}>
+                      <Text style={[styles.syncItemMeta, { color: theme.colors.text, flex: 1 }]} numberOfLines={1}>
+                        {entry.pinned ? '📌 ' : ''}{entry.key}
+                      </Text>
+                      <Text style={[styles.syncItemMeta, { color: theme.colors.textMuted }]}>{formatBytes(entry.bytes)}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </ScrollView>
+          )}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity
+              style={[styles.modalCancelBtn, { borderColor: theme.colors.border }, clearing && { opacity: 0.7 }]}
+              onPress={handleClear}
+              disabled={clearing || !usage}
+            >
+              {clearing
+                ? <ActivityIndicator color={theme.colors.danger} size="small" />
+                : <Text style={[styles.modalCancelText, { color: theme.colors.danger }]}>Clear Cache</Text>
+              }
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalSaveBtn, { backgroundColor: theme.colors.accent }]}
+              onPress={onClose}
+            >
+              <Text style={[styles.modalSaveText, { color: theme.colors.accentContrast }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
 // ─── Toggle Row ───────────────────────────────────────────────────────────────
 
 function ToggleRow({
@@ -345,6 +644,9 @@ export default function MoreScreen() {
   const [isLoggingOut, setIsLoggingOut]       = useState(false);
   const [showAccountModal, setShowAccountModal] = useState(false);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
+  const [showSyncModal, setShowSyncModal]     = useState(false);
+  const [showStorageModal, setShowStorageModal] = useState(false);
+  const { pendingCount, deadLetters } = useOfflineQueue();
 
   const themeOptions = [
     { label: t('common.darkMode'),  value: 'dark'  },
@@ -363,6 +665,8 @@ export default function MoreScreen() {
     { emoji: '📅', label: 'Create New Booking',      description: 'Add a new safari trip reservation',        tab: 'Bookings'   },
     { emoji: '🚙', label: 'Fleet Management',         description: 'Manage vehicles, repairs and assignments', tab: 'Fleet', isStack: true },
     { emoji: '📝', label: 'Submit Cash Requisition',  description: 'Request cash or log an expense',           tab: 'Finance'    },
+    { emoji: '💰', label: 'Receivables',              description: 'Aged balances and overdue payments',       tab: 'Receivables', isStack: true },
+    { emoji: '📈', label: 'Vehicle Profitability',    description: 'Net contribution and P&L per vehicle',     tab: 'VehicleProfitability', isStack: true },
     { emoji: '📊', label: 'View Dashboard',            description: 'Review KPIs, charts and reports',         tab: 'Dashboard'  },
   ];
 
@@ -604,6 +908,47 @@ export default function MoreScreen() {
               </View>
               <Text style={[styles.menuArrow, { color: theme.colors.textSoft }]}>{isRTL ? '‹' : '›'}</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.menuRow, { flexDirection: isRTL ? 'row-reverse' : 'row', borderTopWidth: 1, borderTopColor: theme.colors.border }]}
+              onPress={() => setShowSyncModal(true)}
+              activeOpacity={0.75}
+            >
+              <View style={styles.menuRowLeft}>
+                <Text style={styles.menuRowEmoji}>🔄</Text>
+                <View>
+                  <Text style={[styles.menuRowText, { color: theme.colors.text }]}>Sync Issues</Text>
+                  <Text style={[styles.menuRowSub, { color: theme.colors.textMuted }]}>
+                    {deadLetters.length > 0
+                      ? `${deadLetters.length} change${deadLetters.length === 1 ? '' : 's'} need${deadLetters.length === 1 ? 's' : ''} attention`
+                      : pendingCount > 0
+                        ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`
+                        : 'All changes synced'}
+                  </Text>
+                </View>
+              </View>
+              {deadLetters.length > 0 && (
+                <View style={[styles.syncBadge, { backgroundColor: theme.colors.danger }]}>
+                  <Text style={[styles.syncBadgeText, { color: theme.colors.accentContrast }]}>{deadLetters.length}</Text>
+                </View>
+              )}
+              <Text style={[styles.menuArrow, { color: theme.colors.textSoft }]}>{isRTL ? '‹' : '›'}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.menuRow, { flexDirection: isRTL ? 'row-reverse' : 'row', borderTopWidth: 1, borderTopColor: theme.colors.border }]}
+              onPress={() => setShowStorageModal(true)}
+              activeOpacity={0.75}
+            >
+              <View style={styles.menuRowLeft}>
+                <Text style={styles.menuRowEmoji}>💾</Text>
+                <View>
+                  <Text style={[styles.menuRowText, { color: theme.colors.text }]}>Storage</Text>
+                  <Text style={[styles.menuRowSub, { color: theme.colors.textMuted }]}>Offline data kept on this device</Text>
+                </View>
+              </View>
+              <Text style={[styles.menuArrow, { color: theme.colors.textSoft }]}>{isRTL ? '‹' : '›'}</Text>
+            </TouchableOpacity>
           </View>
         </FadeSlideIn>
 
@@ -680,6 +1025,16 @@ export default function MoreScreen() {
         onClose={() => setShowPasswordModal(false)}
         theme={theme}
       />
+      <SyncIssuesModal
+        visible={showSyncModal}
+        onClose={() => setShowSyncModal(false)}
+        theme={theme}
+      />
+      <StorageUsageModal
+        visible={showStorageModal}
+        onClose={() => setShowStorageModal(false)}
+        theme={theme}
+      />
     </SafeAreaView>
   );
 }
@@ -814,4 +1169,23 @@ const styles = StyleSheet.create({
   modalCancelText: { fontSize: 14, fontWeight: '700' },
   modalSaveBtn: { flex: 2, borderRadius: 14, paddingVertical: 14, alignItems: 'center' },
   modalSaveText: { fontSize: 14, fontWeight: '800' },
+
+  // Sync issues
+  syncSheet:      { maxHeight: '85%' },
+  syncEmpty:      { fontSize: 14, textAlign: 'center', paddingVertical: 24 },
+  syncItem:       { borderRadius: 16, borderWidth: 1, padding: 14, gap: 4 },
+  syncItemTitle:  { fontSize: 14, fontWeight: '700' },
+  syncItemMeta:   { fontSize: 12 },
+  syncItemError:  { fontSize: 12, fontWeight: '600', marginTop: 2 },
+  syncEditor:     { borderRadius: 12, borderWidth: 1, padding: 10, marginTop: 8, minHeight: 120, maxHeight: 220, fontSize: 12, fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace', textAlignVertical: 'top' },
+  syncActions:    { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 10 },
+  syncActionBtn:  { borderRadius: 12, borderWidth: 1, paddingVertical: 8, paddingHorizontal: 14, alignItems: 'center', minWidth: 72 },
+  syncActionText: { fontSize: 13, fontWeight: '700' },
+  syncBadge:      { minWidth: 22, height: 22, borderRadius: 11, paddingHorizontal: 6, alignItems: 'center', justifyContent: 'center' },
+  syncBadgeText:  { fontSize: 12, fontWeight: '800' },
+
+  // Storage usage
+  storageBar:     { height: 6, borderRadius: 3, overflow: 'hidden', marginVertical: 8 },
+  storageBarFill: { height: 6, borderRadius: 3 },
+  storageEntry:   { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 2 },
 });
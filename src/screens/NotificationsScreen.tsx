@@ -77,6 +77,7 @@ const TYPE_EMOJI: Record<string, string> = {
   payment_overdue:    '⚠️',
   vehicle_maintenance:'🔧',
   vehicle_available:  '🚗',
+  document_expiring:  '📄',
   admin_message:      '📣',
   system_alert:       '⚡',
   general:            '🔔',
@@ -109,6 +110,7 @@ const TYPE_LABEL: Record<string, string> = {
   cr_rejected:        'CR Rejected',
   vehicle_maintenance:'Maintenance',
   vehicle_available:  'Vehicle Available',
+  document_expiring:  'Document Expiry',
   system_alert:       'System Alert',
   admin_message:      'Admin Message',
   general:            'General',
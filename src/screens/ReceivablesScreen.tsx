@@ -0,0 +1,321 @@
+/**
+ * ReceivablesScreen
+ * Unpaid installments across vehicle and safari bookings, aged by due date
+ * (1–30 / 31–60 / 61–90 / 90+ days) and totalled per client. Managers can
+ * also tune the daily overdue reminders from here.
+ */
+import React, { useMemo, useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator,
+  Alert, RefreshControl, StyleSheet,
+} from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useReceivables } from '../hooks/useReceivables';
+import {
+  useExchangeRate,
+  getConversionRates,
+  convertToBaseCurrency,
+  convertFromBaseCurrency,
+} from '../hooks/useExchangeRate';
+import { getStaffRole } from '../lib/bookingTransitions';
+import { formatCurrency } from '../lib/utils';
+import {
+  AGING_BUCKETS,
+  DEFAULT_REMINDER_SETTINGS,
+  agingBucket,
+  buildReceivablesReport,
+  saveReminderSettings,
+  type AgingBucket,
+  type ReminderSettings,
+} from '../lib/receivables';
+import { SegmentedControl } from '../components/system/SegmentedControl';
+import { EmptyState, ListSkeleton } from '../components/ui';
+import { palette, spacing, radius, type as t } from '../constants/tokens';
+import { CURRENCIES, type Currency, type ReceivableInstallmentRow } from '../../sdk/schema/tables';
+
+const BUCKET_COLOR: Record<AgingBucket, string> = {
+  upcoming:  palette.textMuted,
+  '1_30':    palette.warning,
+  '31_60':   palette.gold,
+  '61_90':   palette.danger,
+  '90_plus': '#8b3320',
+};
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function overdueLabel(days: number): string {
+  if (days < 0)  return `Due in ${-days} day${days === -1 ? '' : 's'}`;
+  if (days === 0) return 'Due today';
+  return `${days} day${days === 1 ? '' : 's'} overdue`;
+}
+
+export default function ReceivablesScreen() {
+  const { user } = useAuth();
+  const role = getStaffRole(user);
+  const { installments, clientNames, settings, loading, error, refetch } = useReceivables();
+  const { exchangeRates } = useExchangeRate();
+
+  const [currency,     setCurrency]     = useState<Currency>('USD');
+  const [bucket,       setBucket]       = useState<AgingBucket | null>(null);
+  const [expanded,     setExpanded]     = useState<string | null>(null);
+  const [refreshing,   setRefreshing]   = useState(false);
+  const [editSettings, setEditSettings] = useState(false);
+
+  const report = useMemo(() => {
+    const rates = getConversionRates(exchangeRates);
+    return buildReceivablesReport(installments, clientNames, (amount, from) =>
+      convertFromBaseCurrency(convertToBaseCurrency(amount, from, rates), currency, rates));
+  }, [installments, clientNames, exchangeRates, currency]);
+
+  const clients = bucket ? report.clients.filter((c) => c.buckets[bucket] > 0) : report.clients;
+  const reminders = settings ?? DEFAULT_REMINDER_SETTINGS;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try { await refetch(); } finally { setRefreshing(false); }
+  };
+
+  return (
+    <View style={s.screen}>
+      <ScrollView
+        contentContainerStyle={s.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={palette.primary} />}
+      >
+        {/* Summary */}
+        <View style={s.hero}>
+          <Text style={s.heroLabel}>Outstanding</Text>
+          <Text style={s.heroAmount}>{formatCurrency(report.total, currency)}</Text>
+          <Text style={s.heroSub}>
+            {formatCurrency(report.overdue, currency)} overdue · {report.clients.length} client{report.clients.length === 1 ? '' : 's'}
+          </Text>
+        </View>
+
+        <SegmentedControl
+          compact
+          options={CURRENCIES.map((c) => ({ label: c, value: c }))}
+          value={currency}
+          onChange={(value) => setCurrency(value as Currency)}
+        />
+
+        {/* Aging buckets */}
+        <View style={s.buckets}>
+          {AGING_BUCKETS.map(({ key, label }) => {
+            const active = bucket === key;
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[s.bucket, active && s.bucketActive]}
+                onPress={() => setBucket(active ? null : key)}
+                activeOpacity={0.8}
+              >
+                <Text style={[s.bucketLabel, { color: BUCKET_COLOR[key] }]}>{label}</Text>
+                <Text style={s.bucketAmount} numberOfLines={1} adjustsFontSizeToFit>
+                  {formatCurrency(report.buckets[key], currency)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Reminders */}
+        <View style={s.reminders}>
+          <Text style={s.remindersText}>
+            Overdue reminders go to the assigned staff member every {reminders.reminder_interval_days} days and
+            escalate to managers after {reminders.escalation_days} days.
+          </Text>
+          {role !== 'staff' && (
+            <TouchableOpacity onPress={() => setEditSettings(true)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Text style={s.link}>Change</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Clients */}
+        <Text style={s.subheading}>
+          {bucket ? `Clients · ${AGING_BUCKETS.find((b) => b.key === bucket)?.label}` : 'Clients'}
+        </Text>
+        {loading && !refreshing ? (
+          <ListSkeleton rows={4} />
+        ) : error && installments.length === 0 ? (
+          <EmptyState type="finance" title="Couldn't load receivables" subtitle={error.message} actionLabel="Retry" onAction={refetch} />
+        ) : clients.length === 0 ? (
+          <EmptyState type="finance" title="Nothing outstanding" subtitle="Every scheduled payment has been received." />
+        ) : clients.map((client) => {
+          const open = expanded === client.key;
+          return (
+            <TouchableOpacity
+              key={client.key}
+              style={s.card}
+              onPress={() => setExpanded(open ? null : client.key)}
+              activeOpacity={0.85}
+            >
+              <View style={s.cardHeader}>
+                <View style={{ flex: 1 }}>
+                  <Text style={s.clientName} numberOfLines={1}>{client.name}</Text>
+                  <Text style={[s.clientSub, { color: BUCKET_COLOR[agingBucket(client.oldestDaysOverdue)] }]}>
+                    {overdueLabel(client.oldestDaysOverdue)}
+                    {' · '}
+                    {client.items.length} installment{client.items.length === 1 ? '' : 's'}
+                  </Text>
+                </View>
+                <View style={{ alignItems: 'flex-end' }}>
+                  <Text style={s.clientTotal}>{formatCurrency(client.total, currency)}</Text>
+                  {client.overdue > 0 && client.overdue < client.total && (
+                    <Text style={s.clientSub}>{formatCurrency(client.overdue, currency)} due</Text>
+                  )}
+                </View>
+              </View>
+
+              {/* Share of the balance in each bucket */}
+              <View style={s.bar}>
+                {AGING_BUCKETS.map(({ key }) => client.buckets[key] > 0 && (
+                  <View key={key} style={{ flex: client.buckets[key], backgroundColor: BUCKET_COLOR[key] }} />
+                ))}
+              </View>
+
+              {open && client.items.map((item) => <InstallmentLine key={item.id} item={item} />)}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <ReminderSettingsModal
+        visible={editSettings}
+        settings={reminders}
+        onClose={() => setEditSettings(false)}
+        onSaved={refetch}
+      />
+    </View>
+  );
+}
+
+function InstallmentLine({ item }: { item: ReceivableInstallmentRow }) {
+  return (
+    <View style={s.item}>
+      <View style={{ flex: 1 }}>
+        <Text style={s.itemTitle}>
+          {item.reference} · {item.installment === 'deposit' ? 'Deposit' : 'Balance'}
+          {item.kind === 'safari' ? ' · Safari' : ''}
+        </Text>
+        <Text style={s.itemMeta}>Due {formatDay(item.due_date)}</Text>
+      </View>
+      <View style={{ alignItems: 'flex-end' }}>
+        <Text style={s.itemAmount}>{formatCurrency(item.outstanding, item.currency)}</Text>
+        <Text style={[s.itemMeta, { color: BUCKET_COLOR[agingBucket(item.days_overdue)] }]}>
+          {overdueLabel(item.days_overdue)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+// ─── Reminder settings ────────────────────────────────────────────────────────
+
+interface ReminderSettingsModalProps {
+  visible: boolean;
+  settings: ReminderSettings;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function ReminderSettingsModal({ visible, settings, onClose, onSaved }: ReminderSettingsModalProps) {
+  const [reminderDays,   setReminderDays]   = useState('');
+  const [escalationDays, setEscalationDays] = useState('');
+  const [saving,         setSaving]         = useState(false);
+
+  const handleShow = () => {
+    setReminderDays(String(settings.reminder_interval_days));
+    setEscalationDays(String(settings.escalation_days));
+  };
+
+  const handleSave = async () => {
+    const interval = parseInt(reminderDays, 10);
+    const escalation = parseInt(escalationDays, 10);
+    if (isNaN(interval) || interval < 1) {
+      Alert.alert('Validation Error', 'Remind at least every day.'); return;
+    }
+    if (isNaN(escalation) || escalation < 1) {
+      Alert.alert('Validation Error', 'Escalate after at least one day overdue.'); return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveReminderSettings({ reminder_interval_days: interval, escalation_days: escalation });
+      onClose();
+      if (result.state === 'queued') {
+        Alert.alert('Saved Offline', 'The settings will sync automatically when you reconnect.');
+      } else {
+        onSaved();
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to update the reminder settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onShow={handleShow} onRequestClose={onClose}>
+      <View style={s.sheet}>
+        <View style={s.sheetHeader}>
+          <TouchableOpacity onPress={onClose}><Text style={s.cancel}>Cancel</Text></TouchableOpacity>
+          <Text style={s.sheetTitle}>Payment Reminders</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color={palette.primary} /> : <Text style={s.save}>Save</Text>}
+          </TouchableOpacity>
+        </View>
+        <View style={s.sheetBody}>
+          <Text style={s.label}>Remind the assigned staff member every (days)</Text>
+          <TextInput style={s.input} value={reminderDays} onChangeText={setReminderDays} keyboardType="number-pad" />
+          <Text style={s.label}>Escalate to managers after (days overdue)</Text>
+          <TextInput style={s.input} value={escalationDays} onChangeText={setEscalationDays} keyboardType="number-pad" />
+          <Text style={s.hint}>Reminders are sent each morning for installments past their due date.</Text>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const s = StyleSheet.create({
+  screen:        { flex: 1, backgroundColor: palette.bg },
+  content:       { padding: spacing['4'], paddingBottom: spacing['12'], gap: spacing['3'] },
+
+  hero:          { backgroundColor: palette.hero, borderRadius: radius.xl, padding: spacing['5'] },
+  heroLabel:     { fontSize: t.xs, fontWeight: t.bold, color: palette.textHeroMuted, textTransform: 'uppercase', letterSpacing: 0.6 },
+  heroAmount:    { fontSize: t['4xl'], fontWeight: t.extrabold, color: palette.textHero, marginTop: spacing['1'] },
+  heroSub:       { fontSize: t.sm, color: palette.textHeroMuted, marginTop: spacing['1'] },
+
+  buckets:       { flexDirection: 'row', flexWrap: 'wrap', gap: spacing['2'] },
+  bucket:        { flexGrow: 1, flexBasis: '30%', backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.md, padding: spacing['3'] },
+  bucketActive:  { borderColor: palette.primary, backgroundColor: palette.primaryXSoft },
+  bucketLabel:   { fontSize: t.xs, fontWeight: t.bold, textTransform: 'uppercase', letterSpacing: 0.4 },
+  bucketAmount:  { fontSize: t.md, fontWeight: t.bold, color: palette.text, marginTop: spacing['1'] },
+
+  reminders:     { flexDirection: 'row', alignItems: 'center', gap: spacing['3'], backgroundColor: palette.surface, borderRadius: radius.md, padding: spacing['3'] },
+  remindersText: { flex: 1, fontSize: t.sm, color: palette.textMuted, lineHeight: t.sm * t.normal },
+  link:          { fontSize: t.sm, fontWeight: t.bold, color: palette.primary },
+  subheading:    { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.4, marginTop: spacing['2'] },
+
+  card:          { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.lg, padding: spacing['4'] },
+  cardHeader:    { flexDirection: 'row', alignItems: 'flex-start', gap: spacing['3'] },
+  clientName:    { fontSize: t.md, fontWeight: t.bold, color: palette.text },
+  clientSub:     { fontSize: t.sm, color: palette.textMuted, marginTop: 2 },
+  clientTotal:   { fontSize: t.md, fontWeight: t.bold, color: palette.text },
+  bar:           { flexDirection: 'row', height: 6, borderRadius: radius.full, overflow: 'hidden', backgroundColor: palette.surface, marginTop: spacing['3'] },
+  item:          { flexDirection: 'row', alignItems: 'flex-start', gap: spacing['3'], paddingTop: spacing['3'], marginTop: spacing['3'], borderTopWidth: 1, borderTopColor: palette.border },
+  itemTitle:     { fontSize: t.base, fontWeight: t.semibold, color: palette.text },
+  itemMeta:      { fontSize: t.sm, color: palette.textMuted, marginTop: 2 },
+  itemAmount:    { fontSize: t.base, fontWeight: t.bold, color: palette.text },
+
+  sheet:         { flex: 1, backgroundColor: palette.bg },
+  sheetHeader:   { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: spacing['5'], paddingVertical: spacing['4'], borderBottomWidth: 1, borderBottomColor: palette.border, backgroundColor: palette.card },
+  sheetTitle:    { fontSize: t.lg, fontWeight: t.bold, color: palette.text },
+  cancel:        { fontSize: t.md, color: palette.textMuted },
+  save:          { fontSize: t.md, fontWeight: t.bold, color: palette.primary },
+  sheetBody:     { padding: spacing['5'], paddingBottom: spacing['12'] },
+  label:         { fontSize: t.sm, fontWeight: t.bold, color: palette.textMuted, marginTop: spacing['4'], marginBottom: spacing['2'] },
+  input:         { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.md, paddingHorizontal: spacing['3'], paddingVertical: spacing['3'], fontSize: t.md, color: palette.text },
+  hint:          { fontSize: t.sm, color: palette.textMuted, marginTop: spacing['4'] },
+});
@@ -22,11 +22,25 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Svg, Path, Circle, Rect } from 'react-native-svg';
 import { supabase } from '../lib/supabase';
+import { validateRow } from '../../sdk/schema/validators';
+import { queueGroup, queueWrite } from '../lib/offlineSync';
+import {
+  allowedTransitions, getStaffRole, planTransition, safariSubject,
+} from '../lib/bookingTransitions';
+import { useAuth } from '../contexts/AuthContext';
 import { LoadingView } from '../components/system/JackalLoader';
+import { InvoiceActions, BookingPayments } from '../components/finance';
+import {
+  DUE_SOON_DAYS, buildInstallments, nextInstallment, safariPaymentSubject,
+} from '../lib/payments';
 import { formatCurrency } from '../lib/utils';
+import { currentDocuments, documentState } from '../lib/complianceDocuments';
+import { useComplianceDocuments } from '../hooks/useComplianceDocuments';
+import { ComplianceDocuments } from '../components/fleet';
 import type {
   SafariBooking, SafariGuide, PermitCatalog, SafariPackage, SafariBookingPermit,
 } from '../types/safari';
+import type { SafariBookingRow } from '../../sdk/schema/tables';
 
 const { width: SW } = Dimensions.get('window');
 
@@ -116,6 +130,11 @@ const Ico = {
       <Rect x="18" y="3" width="4" height="18" /><Rect x="10" y="8" width="4" height="13" /><Rect x="2" y="13" width="4" height="8" />
     </Svg>
   ),
+  Doc: ({ s = 16, c = C.primary }) => (
+    <Svg width={s} height={s} viewBox="0 0 24 24" fill="none" stroke={c} strokeWidth={2} strokeLinecap="round" strokeLinejoin="round">
+      <Path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" /><Path d="M14 2v6h6M8 13h8M8 17h5" />
+    </Svg>
+  ),
   Filter: ({ s = 16, c = C.primary }) => (
     <Svg width={s} height={s} viewBox="0 0 24 24" fill="none" stroke={c} strokeWidth={2} strokeLinecap="round">
       <Path d="M22 3H2l8 9.46V19l4 2v-8.54L22 3z" />
@@ -134,6 +153,11 @@ function calcDays(start?: string, end?: string) {
   const d = Math.ceil((new Date(end).getTime() - new Date(start).getTime()) / 86400000);
   return `${d} day${d !== 1 ? 's' : ''}`;
 }
+// Many-to-one joins come back as an object at runtime, though typed as a list
+function joined<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
 function getPaymentLabel(paid = 0, total = 0, deposit = 0): { label: string; color: string } {
   if (paid <= 0) return { label: 'Unpaid', color: C.danger };
   if (paid >= total) return { label: 'Fully Paid', color: C.success };
@@ -266,7 +290,9 @@ interface GuideOpt { id: string; full_name: string; status?: string }
 function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
   booking: SafariBooking | null; visible: boolean; onClose: () => void; onRefetch: () => void;
 }) {
-  const [subTab, setSubTab] = useState<'overview' | 'ops' | 'permits'>('overview');
+  const { user } = useAuth();
+  const role = getStaffRole(user);
+  const [subTab, setSubTab] = useState<'overview' | 'ops' | 'permits' | 'payments'>('overview');
   const [vehicles, setVehicles] = useState<VehicleOpt[]>([]);
   const [guides, setGuides] = useState<GuideOpt[]>([]);
   const [permits, setPermits] = useState<SafariBookingPermit[]>([]);
@@ -282,7 +308,10 @@ function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
     supabase.from('safari_booking_permits')
       .select('id, status, quantity, cost_per_permit, total_cost, currency, safari_permits(permit_name, permit_type, cost_usd)')
       .eq('booking_id', booking.id)
-      .then(({ data }) => setPermits((data || []) as unknown as SafariBookingPermit[]));
+      .then(({ data }) => setPermits((data || []).flatMap(p => {
+        const row = validateRow('safari_booking_permits', p);
+        return row ? [{ ...row, safari_permits: joined(p.safari_permits) }] : [];
+      })));
   }, [visible, booking?.id]);
 
   useEffect(() => {
@@ -314,25 +343,65 @@ function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
       if (selVehicle) u.vehicle_id = selVehicle.id;
       if (selGuide)   u.guide_id   = selGuide.id;
 
+      let queued = false;
       if (Object.keys(u).length > 0) {
-        const { error } = await supabase.from('safari_bookings').update(u).eq('id', booking.id);
-        if (error && !error.message.includes('does not exist')) throw error;
-        // If column doesn't exist, silently skip — assignment visible via vehicle/guide table only
+        try {
+          const result = await queueWrite('UPDATE', 'safari_bookings', { id: booking.id, ...u }, {
+            label: `Assign ${booking.booking_reference || 'safari'}`,
+          });
+          queued = result.state === 'queued';
+        } catch (error: any) {
+          if (!error?.message?.includes('does not exist')) throw error;
+          // If column doesn't exist, silently skip — assignment visible via vehicle/guide table only
+        }
       }
 
       // Mark vehicle as booked (always safe — vehicles table always has status column)
       if (selVehicle && selVehicle.status === 'available') {
-        try { await supabase.from('vehicles').update({ status: 'booked' }).eq('id', selVehicle.id); } catch { /* non-fatal */ }
+        try { await queueWrite('UPDATE', 'vehicles', { id: selVehicle.id, status: 'booked' }); } catch { /* non-fatal */ }
       }
-      Alert.alert('Saved', 'Booking assignments updated.');
+      Alert.alert(
+        queued ? 'Saved Offline' : 'Saved',
+        queued ? 'Assignments will sync when you reconnect.' : 'Booking assignments updated.',
+      );
       onRefetch(); onClose();
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to save.');
     } finally { setSaving(false); }
   }, [booking, selVehicle, selGuide, onRefetch, onClose]);
 
+  const changeStatus = useCallback((to: string) => {
+    if (!booking) return;
+    const plan = planTransition(safariSubject(booking), to, { role, userId: user?.id });
+    if (!plan.ok) { Alert.alert('Status Change Not Allowed', plan.error); return; }
+
+    const label = STATUS_CFG[to]?.label ?? to;
+    Alert.alert(`Mark as ${label}?`, `${booking.booking_reference || 'This safari'} will be moved to ${label}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Confirm',
+        style: to === 'cancelled' ? 'destructive' : 'default',
+        onPress: async () => {
+          setSaving(true);
+          try {
+            // Status change and its vehicle hold/release sync together
+            const result = await queueGroup(plan.steps);
+            Alert.alert(
+              result.state === 'queued' ? 'Saved Offline' : 'Status Updated',
+              result.state === 'queued' ? 'The status change will sync when you reconnect.' : `Booking marked ${label}.`,
+            );
+            onRefetch(); onClose();
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to update status.');
+          } finally { setSaving(false); }
+        },
+      },
+    ]);
+  }, [booking, role, user, onRefetch, onClose]);
+
   if (!booking || !visible) return null;
   const st = STATUS_CFG[booking.status] || STATUS_CFG.pending;
+  const nextStatuses = allowedTransitions('safari', booking.status, role);
   const pay = getPaymentLabel(booking.amount_paid, booking.total_price_usd, booking.deposit_amount);
   const balance = (booking.total_price_usd || 0) - (booking.amount_paid || 0);
 
@@ -357,10 +426,10 @@ function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
 
         {/* Sub-tabs */}
         <View style={dm.subBar}>
-          {(['overview', 'ops', 'permits'] as const).map(t => (
+          {(['overview', 'ops', 'permits', 'payments'] as const).map(t => (
             <TouchableOpacity key={t} style={[dm.subTab, subTab === t && dm.subTabOn]} onPress={() => setSubTab(t)}>
               <Text style={[dm.subTabT, subTab === t && dm.subTabTOn]}>
-                {t === 'overview' ? 'Overview' : t === 'ops' ? 'Operations' : 'Permits'}
+                {t === 'overview' ? 'Overview' : t === 'ops' ? 'Operations' : t === 'permits' ? 'Permits' : 'Payments'}
               </Text>
             </TouchableOpacity>
           ))}
@@ -369,6 +438,19 @@ function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
         <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16, paddingBottom: 48 }} showsVerticalScrollIndicator={false}>
           {/* Overview */}
           {subTab === 'overview' && <>
+            {nextStatuses.length > 0 && <View style={dm.sect}>
+              <Text style={dm.sectTitle}>Change Status</Text>
+              <View style={dm.statusActions}>
+                {nextStatuses.map(to => {
+                  const cfg = STATUS_CFG[to];
+                  return (
+                    <TouchableOpacity key={to} style={[dm.statusAction, { backgroundColor: cfg.bg }]} onPress={() => changeStatus(to)} disabled={saving}>
+                      <Text style={[dm.statusActionT, { color: cfg.text }]}>{cfg.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>}
             <View style={dm.sect}>
               <Text style={dm.sectTitle}>Financial Summary</Text>
               {[
@@ -384,6 +466,10 @@ function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
                 </View>
               ))}
             </View>
+            <View style={dm.sect}>
+              <Text style={dm.sectTitle}>Documents</Text>
+              <InvoiceActions source={{ type: 'safari', safari: booking, permits }} />
+            </View>
             <View style={dm.sect}>
               <Text style={dm.sectTitle}>Trip Details</Text>
               {[
@@ -453,6 +539,12 @@ function BookingDetailModal({ booking, visible, onClose, onRefetch }: {
               ))
             }
           </View>}
+
+          {/* Payments */}
+          {subTab === 'payments' && <View style={dm.sect}>
+            <Text style={dm.sectTitle}>Payment Schedule</Text>
+            <BookingPayments subject={safariPaymentSubject(booking)} />
+          </View>}
         </ScrollView>
 
         <PickerModal visible={showVPicker} title="Select Vehicle"
@@ -494,6 +586,9 @@ const dm = StyleSheet.create({
   selectorT: { flex: 1, fontSize: 14, color: C.text },
   saveBtn: { backgroundColor: C.primary, borderRadius: 14, paddingVertical: 14, alignItems: 'center', marginTop: 22 },
   saveBtnT: { fontSize: 15, fontWeight: '700', color: '#fff' },
+  statusActions: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  statusAction: { paddingHorizontal: 14, paddingVertical: 9, borderRadius: 20 },
+  statusActionT: { fontSize: 13, fontWeight: '700' },
   permitRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 11, borderBottomWidth: 1, borderBottomColor: C.border + '60' },
   permitName: { fontSize: 14, fontWeight: '600', color: C.text },
   permitType: { fontSize: 11, color: C.textMuted, marginTop: 2 },
@@ -701,8 +796,8 @@ function BookingsTab() {
       .order('start_date', { ascending: false });
     if (baseErr) { console.error('[SafariBookings]', baseErr.message); setBookings([]); return; }
 
-    // Normalize: map any column variants into the SafariBooking interface shape
-    const base: SafariBooking[] = (baseData || []).map((d: any) => ({
+    // Normalize: map any column variants into the safari_bookings row shape
+    const base: SafariBooking[] = (baseData || []).flatMap((d: any) => validateRow('safari_bookings', {
       id:                d.id,
       booking_reference: d.booking_reference || d.booking_ref || d.reference || '',
       status:            d.status || 'pending',
@@ -723,7 +818,7 @@ function BookingsTab() {
       package_id:        d.package_id        ?? undefined,
       created_at:        d.created_at        ?? undefined,
       checklist_sent:    d.checklist_sent    ?? undefined,
-    }));
+    }) ?? []);
 
     // Attempt FK-joined enrichment (relations may or may not be configured)
     if (base.length === 0) { setBookings([]); return; }
@@ -984,6 +1079,23 @@ const gm = StyleSheet.create({
   saveBtnT: { fontSize: 15, fontWeight: '700', color: '#fff' },
 });
 
+// Driving permit, passport and cross-border permits for a guide who drives
+function GuideDocumentsModal({ guide, onClose }: { guide: SafariGuide | null; onClose: () => void }) {
+  return (
+    <Modal visible={!!guide} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={{ flex: 1, backgroundColor: C.bg }}>
+        <View style={gm.header}>
+          <Text style={gm.title}>Documents</Text>
+          <TouchableOpacity onPress={onClose} style={gm.closeBtn}><Ico.Close s={18} c={C.textMuted} /></TouchableOpacity>
+        </View>
+        <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+          {guide && <ComplianceDocuments owner={{ kind: 'guide', id: guide.id, label: guide.full_name }} />}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
 function AddEditPermitModal({ visible, permit, onClose, onSaved }: {
   visible: boolean; permit: PermitCatalog | null; onClose: () => void; onSaved: () => void;
 }) {
@@ -1066,6 +1178,7 @@ function OperationsTab() {
   const [search, setSearch] = useState('');
   const [editGuide, setEditGuide] = useState<SafariGuide | null>(null);
   const [showGuideModal, setShowGuideModal] = useState(false);
+  const [docsGuide, setDocsGuide] = useState<SafariGuide | null>(null);
   const [editPermit, setEditPermit] = useState<PermitCatalog | null>(null);
   const [showPermitModal, setShowPermitModal] = useState(false);
 
@@ -1094,6 +1207,14 @@ function OperationsTab() {
     ]);
   }, [fetchGuides]);
 
+  // Guides with a document expired or inside its alert window
+  const { documents } = useComplianceDocuments();
+  const guidesDocsDue = useMemo(() => new Set(
+    currentDocuments(documents)
+      .filter(d => d.guide_id && documentState(d) !== 'valid')
+      .map(d => d.guide_id as string),
+  ), [documents]);
+
   const filteredGuides = useMemo(() => {
     if (!search.trim()) return guides;
     const q = search.toLowerCase();
@@ -1151,6 +1272,9 @@ function OperationsTab() {
                   <Text style={{ fontSize: 10, fontWeight: '700', color: g.status === 'available' ? C.success : C.gold }}>{g.status || 'unknown'}</Text>
                 </View>
                 <View style={{ flexDirection: 'row', gap: 6 }}>
+                  <TouchableOpacity style={[op.iconBtn, guidesDocsDue.has(g.id) && { backgroundColor: '#fde8e0' }]} onPress={() => setDocsGuide(g)}>
+                    <Ico.Doc s={14} c={guidesDocsDue.has(g.id) ? C.danger : C.primary} />
+                  </TouchableOpacity>
                   <TouchableOpacity style={op.iconBtn} onPress={() => { setEditGuide(g); setShowGuideModal(true); }}>
                     <Ico.Edit s={14} c={C.primary} />
                   </TouchableOpacity>
@@ -1204,6 +1328,7 @@ function OperationsTab() {
       </TouchableOpacity>
 
       <AddEditGuideModal visible={showGuideModal} guide={editGuide} onClose={() => setShowGuideModal(false)} onSaved={fetchGuides} />
+      <GuideDocumentsModal guide={docsGuide} onClose={() => setDocsGuide(null)} />
       <AddEditPermitModal visible={showPermitModal} permit={editPermit} onClose={() => setShowPermitModal(false)} onSaved={fetchPermits} />
     </View>
   );
@@ -1433,7 +1558,13 @@ function AnalyticsTab() {
   useEffect(() => {
     supabase.from('safari_bookings')
       .select('id, status, total_price_usd, amount_paid, deposit_amount, profit_margin, created_at, safari_packages(name)')
-      .then(({ data }) => { setBookings((data || []) as unknown as SafariBooking[]); setLoading(false); });
+      .then(({ data }) => {
+        setBookings((data || []).flatMap(d => {
+          const row = validateRow('safari_bookings', d);
+          return row ? [{ ...row, safari_packages: joined(d.safari_packages) }] : [];
+        }));
+        setLoading(false);
+      });
   }, []);
 
   const stats = useMemo(() => {
@@ -2108,16 +2239,7 @@ const pkStyle = StyleSheet.create({
 // PAYMENTS TAB
 // ═══════════════════════════════════════════════════════════════════════════════
 
-interface PaymentBooking {
-  id: string;
-  booking_reference: string;
-  customer_name?: string;
-  status?: string;
-  start_date?: string;
-  end_date?: string;
-  total_price_usd?: number;
-  amount_paid?: number;
-  updated_at?: string;
+interface PaymentBooking extends SafariBookingRow {
   clients?: { company_name: string } | null;
   safari_packages?: { name: string; duration_days?: number } | null;
 }
@@ -2130,30 +2252,50 @@ function PaymentsTab() {
   useEffect(() => {
     setLoading(true);
     supabase.from('safari_bookings')
-      .select(`booking_reference, id, customer_name, status, start_date, end_date, total_price_usd, amount_paid, updated_at,
+      .select(`booking_reference, id, customer_name, status, start_date, end_date, total_price_usd, total_price_ugx, currency, amount_paid,
+        deposit_amount, deposit_percent, balance_due_days, created_at, updated_at,
         clients(company_name), safari_packages(name, duration_days)`)
       .gte('amount_paid', 0)
       .order('updated_at', { ascending: false })
-      .then(({ data }) => { setBookings((data || []) as unknown as PaymentBooking[]); setLoading(false); });
+      .then(({ data }) => {
+        setBookings((data || []).flatMap(d => {
+          const row = validateRow('safari_bookings', d);
+          return row ? [{ ...row, clients: joined(d.clients), safari_packages: joined(d.safari_packages) }] : [];
+        }));
+        setLoading(false);
+      });
   }, []);
 
+  // Each booking's schedule decides what is owed now; cancelled and draft
+  // bookings aren't chased
+  const scheduled = useMemo(() => bookings.map(b => {
+    const subject = safariPaymentSubject(b);
+    const chased = b.status !== 'cancelled' && b.status !== 'draft';
+    return { b, subject, next: chased ? nextInstallment(buildInstallments(subject)) : null };
+  }), [bookings]);
+
   const fullyPaid = useMemo(() => bookings.filter(b => (b.amount_paid || 0) >= (b.total_price_usd || 0) && (b.total_price_usd || 0) > 0), [bookings]);
   const totalRevenue = useMemo(() => fullyPaid.reduce((s, b) => s + (b.amount_paid || 0), 0), [fullyPaid]);
   const avgValue = fullyPaid.length > 0 ? totalRevenue / fullyPaid.length : 0;
-  const activeCount = bookings.filter(b => b.status === 'active').length;
-  const completedCount = bookings.filter(b => b.status === 'completed').length;
+  const overdueCount = scheduled.filter(x => x.next?.status === 'overdue').length;
+  const dueSoonCount = scheduled.filter(x => x.next?.status === 'due_soon').length;
 
+  // Soonest (most overdue) due date first; nothing owed goes last
   const filtered = useMemo(() => {
     const q = search.trim().toLowerCase();
-    if (!q) return bookings;
-    return bookings.filter(b => b.booking_reference?.toLowerCase().includes(q) || b.customer_name?.toLowerCase().includes(q) || b.clients?.company_name?.toLowerCase().includes(q));
-  }, [bookings, search]);
-
-  const getPayStatus = (b: PaymentBooking) => {
-    const paid = b.amount_paid || 0; const total = b.total_price_usd || 0;
-    if (paid <= 0) return { label: 'Unpaid', color: C.danger };
-    if (paid >= total && total > 0) return { label: 'Fully Paid', color: C.success };
-    return { label: 'Partial', color: C.gold };
+    const matches = q
+      ? scheduled.filter(({ b }) => b.booking_reference?.toLowerCase().includes(q) || b.customer_name?.toLowerCase().includes(q) || b.clients?.company_name?.toLowerCase().includes(q))
+      : scheduled;
+    return [...matches].sort((x, y) => (x.next?.dueDate ?? '9999').localeCompare(y.next?.dueDate ?? '9999'));
+  }, [scheduled, search]);
+
+  const getPayStatus = ({ b, subject, next }: (typeof scheduled)[number]) => {
+    if (b.status === 'cancelled') return { label: 'Cancelled', color: C.textMuted };
+    if (subject.total > 0 && subject.paid >= subject.total) return { label: 'Fully Paid', color: C.success };
+    if (!next) return { label: subject.paid > 0 ? 'Partial' : 'Unpaid', color: C.gold };
+    if (next.status === 'overdue') return { label: `${next.label} Overdue`, color: C.danger };
+    if (next.status === 'due_soon') return { label: `${next.label} Due Soon`, color: C.gold };
+    return { label: subject.paid > 0 ? 'Partial' : 'Awaiting Deposit', color: C.primary };
   };
 
   if (loading) return <LoadingView label="Loading payment records…" />;
@@ -2163,11 +2305,11 @@ function PaymentsTab() {
       {/* Summary KPIs */}
       <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 14, paddingVertical: 12, gap: 10 }}>
         {[
+          { l: 'Overdue', v: overdueCount.toString(), c: C.danger },
+          { l: `Due in ${DUE_SOON_DAYS} Days`, v: dueSoonCount.toString(), c: C.gold },
           { l: 'Fully Paid', v: fullyPaid.length.toString(), c: C.success },
           { l: 'Total Revenue', v: formatCurrency(totalRevenue, 'USD'), c: C.primary },
           { l: 'Avg. Value', v: formatCurrency(avgValue, 'USD'), c: C.primary },
-          { l: 'Active', v: activeCount.toString(), c: C.gold },
-          { l: 'Completed', v: completedCount.toString(), c: C.textMuted },
         ].map((k, i) => (
           <View key={i} style={paStyle.kpiCard}>
             <Text style={paStyle.kpiLabel}>{k.l}</Text>
@@ -2183,9 +2325,10 @@ function PaymentsTab() {
       </View>
       <FlatList
         data={filtered}
-        keyExtractor={i => i.id}
-        renderItem={({ item: b }) => {
-          const ps = getPayStatus(b);
+        keyExtractor={x => x.b.id}
+        renderItem={({ item }) => {
+          const { b, subject, next } = item;
+          const ps = getPayStatus(item);
           return (
             <View style={paStyle.card}>
               <View style={[paStyle.statusBar, { backgroundColor: ps.color }]} />
@@ -2201,10 +2344,15 @@ function PaymentsTab() {
                 <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 8 }}>
                   <Text style={paStyle.date}>{fmtDate(b.start_date)} → {fmtDate(b.end_date)}</Text>
                   <View style={{ alignItems: 'flex-end' }}>
-                    <Text style={paStyle.paid}>{formatCurrency(b.amount_paid || 0, 'USD')}</Text>
-                    {(b.total_price_usd || 0) > 0 ? <Text style={paStyle.total}>of {formatCurrency(b.total_price_usd || 0, 'USD')}</Text> : null}
+                    <Text style={paStyle.paid}>{formatCurrency(subject.paid, subject.currency)}</Text>
+                    {subject.total > 0 ? <Text style={paStyle.total}>of {formatCurrency(subject.total, subject.currency)}</Text> : null}
                   </View>
                 </View>
+                {next ? (
+                  <Text style={[paStyle.due, { color: next.status === 'overdue' ? C.danger : C.textMuted }]}>
+                    {next.label} of {formatCurrency(next.outstanding, subject.currency)} {next.status === 'overdue' ? 'was due' : 'due'} {fmtDate(next.dueDate)}
+                  </Text>
+                ) : null}
               </View>
             </View>
           );
@@ -2230,6 +2378,7 @@ const paStyle = StyleSheet.create({
   date: { fontSize: 11, color: C.textMuted },
   paid: { fontSize: 14, fontWeight: '800', color: C.success },
   total: { fontSize: 10, color: C.textMuted },
+  due: { fontSize: 11, fontWeight: '600', marginTop: 6 },
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
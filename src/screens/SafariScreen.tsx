@@ -19,7 +19,6 @@ import Animated, {
 } from 'react-native-reanimated';
 import { Svg, Path, Circle } from 'react-native-svg';
 import { useSafariData } from '../hooks/useSafariData';
-import { useSafariRealtimeSync } from '../hooks/useSafariRealtimeSync';
 import { SafariCard, SafariDetailModal } from '../components/safari';
 import { FadeSlideIn } from '../components/ui';
 import { LoadingOverlay } from '../components/system/JackalLoader';
@@ -234,8 +233,6 @@ export function SafariScreen() {
     refetch,
   } = useSafariData();
 
-  // Real-time sync
-  useSafariRealtimeSync(refetch);
 
   // ========================================================================
   // COMPUTED VALUES
@@ -0,0 +1,238 @@
+/**
+ * VehicleProfitabilityScreen
+ * Per-vehicle P&L for a chosen period — booking and safari revenue less
+ * repairs, fuel, tagged cash requisitions and vendor hire — ranked by net
+ * contribution, so management can see which vehicles to keep, sell or replace.
+ */
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, RefreshControl, StyleSheet } from 'react-native';
+import { useVehicleProfitability } from '../hooks/useVehicleProfitability';
+import {
+  useExchangeRate,
+  getConversionRates,
+  convertToBaseCurrency,
+  convertFromBaseCurrency,
+} from '../hooks/useExchangeRate';
+import { formatCurrency } from '../lib/utils';
+import {
+  PROFIT_PERIODS,
+  buildProfitabilityReport,
+  periodRange,
+  type ProfitPeriod,
+  type VehiclePnl,
+} from '../lib/vehicleProfitability';
+import { SegmentedControl } from '../components/system/SegmentedControl';
+import { EmptyState, ListSkeleton } from '../components/ui';
+import { palette, spacing, radius, type as t } from '../constants/tokens';
+import { CURRENCIES, type Currency } from '../../sdk/schema/tables';
+
+type RankBy = 'net' | 'margin';
+
+const RANK_OPTIONS: { label: string; value: RankBy }[] = [
+  { label: 'Net', value: 'net' },
+  { label: 'Margin', value: 'margin' },
+];
+
+function formatMargin(margin: number | null): string {
+  return margin == null ? '—' : `${Math.round(margin * 100)}%`;
+}
+
+export default function VehicleProfitabilityScreen() {
+  const [period,     setPeriod]     = useState<ProfitPeriod>('quarter');
+  const [currency,   setCurrency]   = useState<Currency>('USD');
+  const [rankBy,     setRankBy]     = useState<RankBy>('net');
+  const [expanded,   setExpanded]   = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const range = useMemo(() => periodRange(period), [period]);
+  const { loading, error, refetch, ...input } = useVehicleProfitability(range);
+  const { exchangeRates } = useExchangeRate();
+
+  const { vehicles, bookings, safaris, repairs, fuelLogs, expenses } = input;
+  const report = useMemo(() => {
+    const rates = getConversionRates(exchangeRates);
+    return buildProfitabilityReport({ vehicles, bookings, safaris, repairs, fuelLogs, expenses }, range, (amount, from) =>
+      convertFromBaseCurrency(convertToBaseCurrency(amount, from, rates), currency, rates));
+  }, [vehicles, bookings, safaris, repairs, fuelLogs, expenses, range, exchangeRates, currency]);
+
+  // Margin ranks earners only; vehicles with no revenue follow, worst net first
+  const ranked = rankBy === 'net' ? report.vehicles : [...report.vehicles].sort((a, b) =>
+    (b.margin ?? -Infinity) - (a.margin ?? -Infinity) || b.net - a.net);
+  const lossMakers = report.vehicles.filter((v) => v.net < 0).length;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try { await refetch(); } finally { setRefreshing(false); }
+  };
+
+  return (
+    <View style={s.screen}>
+      <ScrollView
+        contentContainerStyle={s.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={palette.primary} />}
+      >
+        {/* Summary */}
+        <View style={s.hero}>
+          <Text style={s.heroLabel}>Net contribution</Text>
+          <Text style={s.heroAmount}>{formatCurrency(report.net, currency)}</Text>
+          <Text style={s.heroSub}>
+            {formatCurrency(report.revenue, currency)} revenue · {formatCurrency(report.costs, currency)} costs
+          </Text>
+          {lossMakers > 0 && (
+            <Text style={s.heroWarning}>
+              {lossMakers} vehicle{lossMakers === 1 ? '' : 's'} ran at a loss this period
+            </Text>
+          )}
+        </View>
+
+        <SegmentedControl
+          compact
+          options={PROFIT_PERIODS}
+          value={period}
+          onChange={(value) => setPeriod(value as ProfitPeriod)}
+        />
+        <View style={s.controls}>
+          <View style={{ flex: 1 }}>
+            <SegmentedControl
+              compact
+              options={RANK_OPTIONS}
+              value={rankBy}
+              onChange={(value) => setRankBy(value as RankBy)}
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <SegmentedControl
+              compact
+              options={CURRENCIES.map((c) => ({ label: c, value: c }))}
+              value={currency}
+              onChange={(value) => setCurrency(value as Currency)}
+            />
+          </View>
+        </View>
+
+        <Text style={s.subheading}>
+          {rankBy === 'net' ? 'Ranked by net contribution' : 'Ranked by margin'}
+        </Text>
+        {loading && !refreshing ? (
+          <ListSkeleton rows={5} />
+        ) : error && vehicles.length === 0 ? (
+          <EmptyState type="fleet" title="Couldn't load profitability" subtitle={error.message} actionLabel="Retry" onAction={refetch} />
+        ) : ranked.length === 0 ? (
+          <EmptyState type="fleet" title="No vehicles yet" subtitle="Add vehicles to the fleet to see their P&L." />
+        ) : ranked.map((pnl, index) => (
+          <VehicleCard
+            key={pnl.key}
+            pnl={pnl}
+            rank={index + 1}
+            currency={currency}
+            open={expanded === pnl.key}
+            onPress={() => setExpanded(expanded === pnl.key ? null : pnl.key)}
+          />
+        ))}
+
+        <Text style={s.footnote}>
+          Revenue is the booked value of confirmed bookings and safaris starting in the period; a safari counts after
+          its permits and lodging. Repairs count at their estimate. Tag cash requisitions with a vehicle to include them.
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+interface VehicleCardProps {
+  pnl: VehiclePnl;
+  rank: number;
+  currency: Currency;
+  open: boolean;
+  onPress: () => void;
+}
+
+function VehicleCard({ pnl, rank, currency, open, onPress }: VehicleCardProps) {
+  const loss = pnl.net < 0;
+  const scale = Math.max(pnl.revenue, pnl.costs, 1);
+
+  const lines: { label: string; amount: number; cost?: boolean }[] = [
+    { label: 'Bookings',          amount: pnl.bookingRevenue },
+    { label: 'Safaris',           amount: pnl.safariRevenue },
+    { label: 'Vendor hire',       amount: pnl.vendorHire, cost: true },
+    { label: 'Repairs',           amount: pnl.repairs,    cost: true },
+    { label: 'Fuel',              amount: pnl.fuel,       cost: true },
+    { label: 'Cash requisitions', amount: pnl.expenses,   cost: true },
+  ];
+
+  return (
+    <TouchableOpacity style={s.card} onPress={onPress} activeOpacity={0.85}>
+      <View style={s.cardHeader}>
+        <Text style={s.rank}>{rank}</Text>
+        <View style={{ flex: 1 }}>
+          <Text style={s.vehicleName} numberOfLines={1}>{pnl.name}</Text>
+          <Text style={s.vehicleSub} numberOfLines={1}>
+            {pnl.fullName} · {pnl.trips} trip{pnl.trips === 1 ? '' : 's'}
+          </Text>
+        </View>
+        <View style={{ alignItems: 'flex-end' }}>
+          <Text style={[s.net, { color: loss ? palette.danger : palette.success }]}>
+            {formatCurrency(pnl.net, currency)}
+          </Text>
+          <Text style={s.vehicleSub}>{formatMargin(pnl.margin)} margin</Text>
+        </View>
+      </View>
+
+      {/* Revenue against costs, on the same scale */}
+      <View style={s.bars}>
+        <View style={s.track}>
+          <View style={[s.fill, { width: `${(pnl.revenue / scale) * 100}%`, backgroundColor: palette.success }]} />
+        </View>
+        <View style={s.track}>
+          <View style={[s.fill, { width: `${(pnl.costs / scale) * 100}%`, backgroundColor: palette.danger }]} />
+        </View>
+      </View>
+
+      {open && (
+        <View style={s.lines}>
+          {lines.filter((line) => line.amount !== 0).map((line) => (
+            <View key={line.label} style={s.line}>
+              <Text style={s.lineLabel}>{line.label}</Text>
+              <Text style={[s.lineAmount, line.cost && { color: palette.danger }]}>
+                {line.cost ? '−' : ''}{formatCurrency(line.amount, currency)}
+              </Text>
+            </View>
+          ))}
+          {pnl.revenue === 0 && pnl.costs === 0 && (
+            <Text style={s.vehicleSub}>No revenue or costs recorded in this period.</Text>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const s = StyleSheet.create({
+  screen:       { flex: 1, backgroundColor: palette.bg },
+  content:      { padding: spacing['4'], paddingBottom: spacing['12'], gap: spacing['3'] },
+
+  hero:         { backgroundColor: palette.hero, borderRadius: radius.xl, padding: spacing['5'] },
+  heroLabel:    { fontSize: t.xs, fontWeight: t.bold, color: palette.textHeroMuted, textTransform: 'uppercase', letterSpacing: 0.6 },
+  heroAmount:   { fontSize: t['4xl'], fontWeight: t.extrabold, color: palette.textHero, marginTop: spacing['1'] },
+  heroSub:      { fontSize: t.sm, color: palette.textHeroMuted, marginTop: spacing['1'] },
+  heroWarning:  { fontSize: t.sm, fontWeight: t.bold, color: palette.warning, marginTop: spacing['2'] },
+
+  controls:     { flexDirection: 'row', gap: spacing['2'] },
+  subheading:   { fontSize: t.xs, fontWeight: t.bold, color: palette.textMuted, textTransform: 'uppercase', letterSpacing: 0.4, marginTop: spacing['2'] },
+
+  card:         { backgroundColor: palette.card, borderWidth: 1, borderColor: palette.border, borderRadius: radius.lg, padding: spacing['4'] },
+  cardHeader:   { flexDirection: 'row', alignItems: 'flex-start', gap: spacing['3'] },
+  rank:         { width: 22, fontSize: t.md, fontWeight: t.extrabold, color: palette.textMuted },
+  vehicleName:  { fontSize: t.md, fontWeight: t.bold, color: palette.text },
+  vehicleSub:   { fontSize: t.sm, color: palette.textMuted, marginTop: 2 },
+  net:          { fontSize: t.md, fontWeight: t.bold },
+  bars:         { gap: 4, marginTop: spacing['3'] },
+  track:        { height: 6, borderRadius: radius.full, overflow: 'hidden', backgroundColor: palette.surface },
+  fill:         { height: '100%', borderRadius: radius.full },
+  lines:        { marginTop: spacing['3'], paddingTop: spacing['2'], borderTopWidth: 1, borderTopColor: palette.border },
+  line:         { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: spacing['1'] },
+  lineLabel:    { fontSize: t.base, color: palette.textMuted },
+  lineAmount:   { fontSize: t.base, fontWeight: t.semibold, color: palette.text },
+
+  footnote:     { fontSize: t.sm, color: palette.textMuted, lineHeight: t.sm * t.normal, marginTop: spacing['2'] },
+});
@@ -9,6 +9,10 @@ export const initializeSDK = async () => {
     eas: {
       projectId: 'e5636e2d-1c32-44b8-b5ec-0d03b65d0f5c',
     },
+    // Entries left in plaintext are encrypted by migrateStorageEncryption
+    storage: {
+      encrypted: true,
+    },
   });
 
   await sdk.start();
@@ -1,10 +1,22 @@
+import { StorageService } from '../sdk/storage/StorageService';
+
 export class JackalSDK {
-  static initialize(config: { supabase: { url: string; anonKey: string }; eas: { projectId: string } }) {
+  readonly storage: StorageService;
+
+  private constructor(config: { storage?: { encrypted?: boolean } }) {
+    this.storage = new StorageService({ encrypted: config.storage?.encrypted });
+  }
+
+  static initialize(config: {
+    supabase: { url: string; anonKey: string };
+    eas: { projectId: string };
+    storage?: { encrypted?: boolean };
+  }) {
     // Do not log config — it contains credentials
-    return new JackalSDK();
+    return new JackalSDK(config);
   }
 
   async start() {
     // SDK started — no logging in production
   }
-}
\ No newline at end of file
+}
@@ -1,14 +1,22 @@
 // Type definitions mirroring web Dashboard
 
-export type Currency = 'USD' | 'UGX' | 'KES';
-
-export type BookingStatus = 'Confirmed' | 'In-Progress' | 'Completed' | 'Cancelled' | 'Pending';
-
-export type VehicleStatus = 'available' | 'booked' | 'rented' | 'maintenance' | 'out_of_service';
-
-export type CRStatus = 'Completed' | 'Approved' | 'Resolved' | 'Pending' | 'Rejected' | 'Cancelled' | 'Declined';
-
-export type TransactionType = 'income' | 'expense';
+import type {
+  BookingRow,
+  CashRequisitionRow,
+  FinancialTransactionRow,
+  RepairRow,
+  SafariBookingRow,
+  VehicleRow,
+} from '../../sdk/schema/tables';
+
+// Column types live with the table definitions shared with the SDK
+export type {
+  Currency,
+  BookingStatus,
+  VehicleStatus,
+  CRStatus,
+  TransactionType,
+} from '../../sdk/schema/tables';
 
 export type StandardExpenseCategory = 'Operating Expense' | 'Petty Cash' | 'Fleet Supplies' | 'Admin Costs' | 'Safari Expense';
 
@@ -16,51 +24,15 @@ export type VehicleCapacity = '7 Seater' | '5 Seater' | 'Other';
 
 export type TimeFilter = 'year' | 'quarter' | 'month' | 'specific' | 'all';
 
-export interface Vehicle {
-  id: string;
-  license_plate: string;
-  make: string;
-  model: string;
-  capacity: string;
-  status: VehicleStatus;
-  rating?: number;
-  current_driver_id?: string;
+export interface Vehicle extends VehicleRow {
   drivers?: {
     full_name: string;
   };
 }
 
-export interface Booking {
-  id: string;
-  booking_reference?: string;
+export interface Booking extends BookingRow {
   booking_number?: string; // Alias for backwards compatibility
-  start_date: string;
-  end_date: string;
-  status: BookingStatus;
-  amount_paid: number;
-  total_amount: number;
   total_cost?: number; // Alias for backwards compatibility
-  currency: Currency;
-  assigned_vehicle_id?: string;
-  assigned_user_id?: string;
-  assigned_to?: string;
-  client_id?: string;
-  actual_client_id?: string;
-  client_name?: string;
-  contact_person?: string;
-  contact?: string;
-  email?: string;
-  package_type?: string;
-  daily_rate?: number;
-  number_of_days?: number;
-  balance_due?: number;
-  payment_method?: string;
-  transaction_id?: string;
-  bank_name?: string;
-  booking_type?: 'booking' | 'reservation' | string;
-  is_vendor_vehicle?: boolean;
-  contract_status?: string;
-  created_at?: string; // Booking creation date (for Recent Bookings sorting)
   client?: {
     company_name: string;
   };
@@ -69,70 +41,19 @@ export interface Booking {
   };
 }
 
-export interface Repair {
-  id: string;
-  vehicle_id: string;
-  description: string;
-  status: 'open' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  reported_at: string;
-  estimated_cost?: number;
+export interface Repair extends RepairRow {
   vehicles?: {
     license_plate: string;
   };
 }
 
-export interface FinancialTransaction {
-  id: string;
-  transaction_date: string;
-  amount: number;
-  transaction_type: TransactionType;
-  category?: string;
-  currency: Currency;
-  description?: string;
-  reference_number?: string;
-  status: string;
-}
+export type FinancialTransaction = FinancialTransactionRow;
 
-export interface CashRequisition {
-  id: string;
-  cr_number: string;
-  total_cost: number;
-  currency: Currency;
-  status: CRStatus;
-  date_needed: string;
-  expense_category: string;
-  date_completed?: string;
-  created_at: string;
-  amount_usd?: number;
-  description?: string;
-  purpose?: string;
-  department?: string;
-  payment_mode?: string;
-  payee_name?: string;
-  requested_by?: string;
-  requester_name?: string;
-  requester_email?: string;
-  requester_id?: string | null;
-  approver_id?: string | null;
-  approved_at?: string | null;
-  declined_at?: string | null;
+export interface CashRequisition extends CashRequisitionRow {
   approver?: { full_name: string | null; email: string | null } | null;
 }
 
-export interface SafariBooking {
-  id: string;
-  total_price_usd: number;
-  total_price_ugx: number;
-  total_expenses_usd: number;
-  total_expenses_ugx: number;
-  vehicle_hire_cost_usd: number;
-  vehicle_hire_cost_ugx: number;
-  start_date: string;
-  end_date?: string;
-  amount_paid?: number;
-  currency?: Currency;
-}
+export type SafariBooking = SafariBookingRow;
 
 export interface ExchangeRate {
   id: string;
@@ -161,6 +82,8 @@ export interface VehicleRevenueData {
   revenue: number;
   trips: number;
   capacity: VehicleCapacity;
+  /** Fuel cost per km driven, when the period has fuel and odometer logs */
+  costPerKm?: number;
 }
 
 export interface ClientPerformanceData {
@@ -19,6 +19,7 @@ export type NotificationType =
   | 'cr_rejected'
   | 'vehicle_maintenance'
   | 'vehicle_available'
+  | 'document_expiring'
   | 'system_alert'
   | 'admin_message'
   | 'general';
@@ -54,6 +55,8 @@ export interface NotificationData {
   vehicle_id?: string;
   cr_id?: string;
   transaction_id?: string;
+  document_id?: string;
+  guide_id?: string;
 
   // Additional context
   amount?: number;
@@ -1,27 +1,10 @@
 // Safari & Marketing type definitions mirroring Jackal Dashboard
 
+import type { SafariBookingPermitRow, SafariBookingRow } from '../../sdk/schema/tables';
+
 // ─── Safari Bookings ──────────────────────────────────────────────────────────
 
-export interface SafariBooking {
-  id: string;
-  booking_reference: string;
-  status: 'draft' | 'pending' | 'confirmed' | 'active' | 'completed' | 'cancelled';
-  start_date: string;
-  end_date: string;
-  pax_count?: number;
-  total_price_usd?: number;
-  deposit_amount?: number;
-  amount_paid?: number;
-  booking_direction?: string;
-  profit_margin?: number;
-  checklist_sent?: boolean;
-  customer_name?: string;
-  customer_email?: string;
-  vehicle_id?: string;
-  guide_id?: string;
-  client_id?: string;
-  package_id?: string;
-  created_at?: string;
+export interface SafariBooking extends SafariBookingRow {
   // Joined relations
   clients?: { company_name: string; contact_person?: string } | null;
   safari_packages?: { name: string; category?: string } | null;
@@ -80,14 +63,7 @@ export interface PermitCatalog {
 
 // ─── Booking Permits (join table) ─────────────────────────────────────────────
 
-export interface SafariBookingPermit {
-  id: string;
-  booking_id?: string;
-  status?: string;
-  quantity?: number;
-  cost_per_permit?: number;
-  total_cost?: number;
-  currency?: string;
+export interface SafariBookingPermit extends SafariBookingPermitRow {
   safari_permits?: {
     permit_name: string;
     permit_type?: string;
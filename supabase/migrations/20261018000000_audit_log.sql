@@ -0,0 +1,125 @@
+-- ============================================================================
+-- Audit Log
+-- Append-only change history for bookings, safari bookings, cash requisitions
+-- and vehicles. Rows are written by triggers, so every change is captured —
+-- app, offline sync replay, web dashboard or SQL editor — with the signed-in
+-- user as the actor.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+create table if not exists public.audit_log (
+  id          bigint generated always as identity primary key,
+  table_name  text        not null,
+  record_id   text        not null,
+  action      text        not null check (action in ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id    uuid,                    -- auth.uid() of the writer; null for service / SQL editor writes
+  actor_name  text,                    -- profiles.full_name at the time of the change
+  changed_at  timestamptz not null default now(),
+  -- Field-level diff: { "<column>": { "before": <old>, "after": <new> } }
+  -- INSERT rows carry only "after" values, DELETE rows only "before" values
+  changes     jsonb       not null default '{}'::jsonb
+);
+
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, changed_at desc);
+create index if not exists audit_log_actor_idx  on public.audit_log (actor_id, changed_at desc);
+
+-- ============================================================================
+-- Trigger: record the changed columns of a row
+-- ============================================================================
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old     jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  v_new     jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  v_changes jsonb := '{}'::jsonb;
+  v_key     text;
+  v_actor   uuid  := auth.uid();
+begin
+  for v_key in
+    select key from jsonb_object_keys(v_old || v_new) as key
+  loop
+    -- Version stamps change on every write and say nothing about the edit
+    continue when v_key in ('updated_at', 'created_at');
+    continue when (v_old -> v_key) is not distinct from (v_new -> v_key);
+
+    v_changes := v_changes || jsonb_build_object(
+      v_key,
+      jsonb_strip_nulls(jsonb_build_object('before', v_old -> v_key, 'after', v_new -> v_key))
+    );
+  end loop;
+
+  -- Saves that touched nothing but the version stamp aren't history
+  if tg_op = 'UPDATE' and v_changes = '{}'::jsonb then
+    return new;
+  end if;
+
+  insert into public.audit_log (table_name, record_id, action, actor_id, actor_name, changes)
+  values (
+    tg_table_name,
+    coalesce(v_new ->> 'id', v_old ->> 'id'),
+    tg_op,
+    v_actor,
+    (select full_name from public.profiles where id = v_actor),
+    v_changes
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists audit_bookings on public.bookings;
+create trigger audit_bookings
+  after insert or update or delete on public.bookings
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_safari_bookings on public.safari_bookings;
+create trigger audit_safari_bookings
+  after insert or update or delete on public.safari_bookings
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_cash_requisitions on public.cash_requisitions;
+create trigger audit_cash_requisitions
+  after insert or update or delete on public.cash_requisitions
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_vehicles on public.vehicles;
+create trigger audit_vehicles
+  after insert or update or delete on public.vehicles
+  for each row execute function public.audit_row_change();
+
+-- ============================================================================
+-- Append-only: history can be read, never edited or removed
+-- ============================================================================
+
+create or replace function public.audit_log_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_no_change on public.audit_log;
+create trigger audit_log_no_change
+  before update or delete on public.audit_log
+  for each row execute function public.audit_log_immutable();
+
+alter table public.audit_log enable row level security;
+
+-- Authenticated users (ops staff) can read the history; only the trigger writes
+create policy "Staff can read audit log"
+  on public.audit_log for select
+  to authenticated
+  using (true);
+
+revoke insert, update, delete on public.audit_log from authenticated, anon;
+grant select on public.audit_log to authenticated;
+
+-- Live timelines in the app
+alter publication supabase_realtime add table public.audit_log;
@@ -0,0 +1,101 @@
+-- ============================================================================
+-- Invoices
+-- Sequential numbers for the quotes, proforma invoices and final invoices the
+-- app renders on-device. Numbers run per document kind and year
+-- (QUO-2026-00001, PRO-2026-00001, INV-2026-00001) and are only ever issued
+-- here, so two devices can never hand out the same number.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+create table if not exists public.invoice_counters (
+  kind        text not null,
+  year        int  not null,
+  last_number int  not null default 0,
+  primary key (kind, year)
+);
+
+create table if not exists public.invoices (
+  id                 uuid default gen_random_uuid() primary key,
+  invoice_number     text        not null unique,
+  kind               text        not null check (kind in ('quote', 'proforma', 'invoice')),
+  booking_id         uuid references public.bookings(id) on delete set null,
+  safari_booking_id  uuid references public.safari_bookings(id) on delete set null,
+  currency           text        not null,
+  total              numeric     not null default 0,
+  amount_paid        numeric     not null default 0,
+  issued_by          uuid default auth.uid(),
+  issued_at          timestamptz not null default now(),
+  updated_at         timestamptz not null default now(),
+  check ((booking_id is null) <> (safari_booking_id is null))
+);
+
+-- One document of each kind per booking; re-sharing reuses its number
+create unique index if not exists invoices_booking_kind_idx on public.invoices (booking_id, kind) where booking_id is not null;
+create unique index if not exists invoices_safari_kind_idx  on public.invoices (safari_booking_id, kind) where safari_booking_id is not null;
+
+-- ============================================================================
+-- RPC: issue (or re-issue) a document number for a booking
+-- ============================================================================
+
+create or replace function public.issue_invoice(
+  p_kind              text,
+  p_booking_id        uuid default null,
+  p_safari_booking_id uuid default null,
+  p_currency          text default 'USD',
+  p_total             numeric default 0,
+  p_amount_paid       numeric default 0
+)
+returns public.invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invoice public.invoices;
+  v_year    int := extract(year from now())::int;
+  v_next    int;
+  v_prefix  text := case p_kind when 'quote' then 'QUO' when 'proforma' then 'PRO' else 'INV' end;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Already issued: keep the number, refresh the amounts it was issued for
+  update public.invoices
+     set currency = p_currency, total = p_total, amount_paid = p_amount_paid, updated_at = now()
+   where kind = p_kind
+     and (booking_id = p_booking_id or safari_booking_id = p_safari_booking_id)
+  returning * into v_invoice;
+
+  if found then
+    return v_invoice;
+  end if;
+
+  insert into public.invoice_counters as c (kind, year, last_number)
+  values (p_kind, v_year, 1)
+  on conflict (kind, year) do update set last_number = c.last_number + 1
+  returning last_number into v_next;
+
+  insert into public.invoices (invoice_number, kind, booking_id, safari_booking_id, currency, total, amount_paid)
+  values (
+    v_prefix || '-' || v_year || '-' || lpad(v_next::text, 5, '0'),
+    p_kind, p_booking_id, p_safari_booking_id, p_currency, p_total, p_amount_paid
+  )
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
+
+-- RLS
+alter table public.invoices enable row level security;
+alter table public.invoice_counters enable row level security;
+
+-- Authenticated users (ops staff) can read issued documents; numbers only come from issue_invoice
+create policy "Staff can read invoices"
+  on public.invoices for select
+  to authenticated
+  using (true);
+
+grant select on public.invoices to authenticated;
+grant execute on function public.issue_invoice(text, uuid, uuid, text, numeric, numeric) to authenticated;
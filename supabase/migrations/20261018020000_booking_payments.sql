@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Booking Payments
+-- Ledger of every payment received against a vehicle booking or a safari
+-- booking, plus the schedule it is expected on (deposit share, balance due a
+-- number of days before the start date). The booking's amount_paid (and
+-- balance_due for vehicle bookings) is recomputed from the ledger on every
+-- change, so it can no longer drift from the payments actually recorded.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+-- Per-booking schedule; null columns use the app's default for the booking kind
+alter table public.bookings
+  add column if not exists deposit_percent  numeric check (deposit_percent between 0 and 100),
+  add column if not exists balance_due_days int     check (balance_due_days >= 0);
+
+alter table public.safari_bookings
+  add column if not exists deposit_percent  numeric check (deposit_percent between 0 and 100),
+  add column if not exists balance_due_days int     check (balance_due_days >= 0);
+
+create table if not exists public.booking_payments (
+  id                 uuid default gen_random_uuid() primary key,
+  booking_id         uuid references public.bookings(id) on delete cascade,
+  safari_booking_id  uuid references public.safari_bookings(id) on delete cascade,
+  paid_at            date        not null default current_date,
+  amount             numeric     not null check (amount > 0),
+  currency           text        not null,    -- always the booking's currency
+  method             text,                    -- mtn_uganda, airtel_uganda, mpesa_kenya, bank_transfer, cash
+  reference          text,
+  bank_name          text,
+  transaction_id     text,
+  notes              text,
+  -- Income entry booked for the payment (vehicle bookings), removed with it
+  financial_transaction_id uuid references public.financial_transactions(id) on delete set null,
+  recorded_by        uuid default auth.uid(),
+  created_at         timestamptz not null default now(),
+  check ((booking_id is null) <> (safari_booking_id is null))
+);
+
+create index if not exists booking_payments_booking_idx on public.booking_payments (booking_id, paid_at) where booking_id is not null;
+create index if not exists booking_payments_safari_idx  on public.booking_payments (safari_booking_id, paid_at) where safari_booking_id is not null;
+
+-- ============================================================================
+-- Trigger: keep the booking totals in step with the ledger
+-- ============================================================================
+
+create or replace function public.recompute_booking_paid(p_booking_id uuid, p_safari_booking_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_booking_id is not null then
+    update public.bookings b
+       set amount_paid = p.total,
+           balance_due = coalesce(b.total_amount, 0) - p.total
+      from (select coalesce(sum(amount), 0) as total from public.booking_payments where booking_id = p_booking_id) p
+     where b.id = p_booking_id
+       and b.amount_paid is distinct from p.total;
+  end if;
+
+  if p_safari_booking_id is not null then
+    update public.safari_bookings s
+       set amount_paid = p.total
+      from (select coalesce(sum(amount), 0) as total from public.booking_payments where safari_booking_id = p_safari_booking_id) p
+     where s.id = p_safari_booking_id
+       and s.amount_paid is distinct from p.total;
+  end if;
+end;
+$$;
+
+create or replace function public.booking_payments_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.recompute_booking_paid(old.booking_id, old.safari_booking_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.recompute_booking_paid(new.booking_id, new.safari_booking_id);
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists booking_payments_recompute on public.booking_payments;
+create trigger booking_payments_recompute
+  after insert or update or delete on public.booking_payments
+  for each row execute function public.booking_payments_changed();
+
+-- ============================================================================
+-- Backfill: carry existing totals over as an opening payment, so the first
+-- recompute doesn't wipe out money collected before the ledger existed
+-- ============================================================================
+
+insert into public.booking_payments (booking_id, paid_at, amount, currency, method, reference, bank_name, transaction_id, notes, recorded_by)
+select b.id, coalesce(b.created_at::date, current_date), b.amount_paid, coalesce(b.currency, 'USD'),
+       b.payment_method, b.booking_reference, b.bank_name, b.transaction_id,
+       'Opening balance carried over from the booking', null
+  from public.bookings b
+ where b.amount_paid > 0
+   and not exists (select 1 from public.booking_payments p where p.booking_id = b.id);
+
+insert into public.booking_payments (safari_booking_id, paid_at, amount, currency, reference, notes, recorded_by)
+select s.id, coalesce(s.created_at::date, current_date), s.amount_paid, coalesce(s.currency, 'USD'),
+       s.booking_reference, 'Opening balance carried over from the booking', null
+  from public.safari_bookings s
+ where s.amount_paid > 0
+   and not exists (select 1 from public.booking_payments p where p.safari_booking_id = s.id);
+
+-- RLS
+alter table public.booking_payments enable row level security;
+
+-- Authenticated users (ops staff) can read and record payments
+create policy "Staff can read booking payments"
+  on public.booking_payments for select
+  to authenticated
+  using (true);
+
+create policy "Staff can record booking payments"
+  on public.booking_payments for insert
+  to authenticated
+  with check (true);
+
+-- Mistaken entries are removed, not edited, so the ledger stays a list of receipts
+create policy "Staff can remove booking payments"
+  on public.booking_payments for delete
+  to authenticated
+  using (true);
+
+grant select, insert, delete on public.booking_payments to authenticated;
+
+-- Live ledgers in the app
+alter publication supabase_realtime add table public.booking_payments;
@@ -0,0 +1,244 @@
+-- ============================================================================
+-- Payment Reminders
+-- Daily job that turns overdue installments into payment_overdue
+-- notifications: the staff member a booking is assigned to is reminded every
+-- few days, and managers are told once an installment has been overdue for
+-- longer than the escalation threshold. Both intervals are settings, editable
+-- from the Receivables screen.
+-- Run this in Supabase SQL Editor → New Query (after booking_payments)
+-- ============================================================================
+
+create table if not exists public.receivables_settings (
+  id                      int primary key default 1 check (id = 1),
+  reminder_interval_days  int    not null default 7  check (reminder_interval_days > 0),
+  escalation_days         int    not null default 14 check (escalation_days > 0),
+  -- Extra people to escalate to, besides the managers (manager_user_ids)
+  escalate_to             uuid[] not null default '{}',
+  updated_by              uuid default auth.uid(),
+  updated_at              timestamptz not null default now()
+);
+
+insert into public.receivables_settings (id) values (1) on conflict (id) do nothing;
+
+create table if not exists public.payment_reminders (
+  id                 bigint generated always as identity primary key,
+  booking_id         uuid references public.bookings(id) on delete cascade,
+  safari_booking_id  uuid references public.safari_bookings(id) on delete cascade,
+  installment        text        not null,   -- deposit | balance
+  due_date           date        not null,
+  level              text        not null check (level in ('reminder', 'escalation')),
+  recipient_id       uuid        not null,
+  days_overdue       int         not null,
+  sent_at            timestamptz not null default now()
+);
+
+create index if not exists payment_reminders_lookup_idx
+  on public.payment_reminders (coalesce(booking_id, safari_booking_id), installment, due_date, level, recipient_id, sent_at desc);
+
+-- ============================================================================
+-- View: every scheduled installment with what is still owed on it
+-- Mirrors buildInstallments in src/lib/payments.ts — keep the defaults
+-- (50% / 0 days for vehicle bookings, 30% / 60 days for safaris) in step
+-- ============================================================================
+
+create or replace view public.receivable_installments
+with (security_invoker = true) as
+with schedules as (
+  select
+    'booking'::text                                      as kind,
+    b.id                                                 as booking_id,
+    null::uuid                                           as safari_booking_id,
+    coalesce(b.booking_reference, upper(left(b.id::text, 8))) as reference,
+    coalesce(b.actual_client_id, b.client_id)           as client_id,
+    b.client_name                                        as client_name,
+    coalesce(b.currency, 'USD')                          as currency,
+    case when coalesce(b.assigned_to::text, b.assigned_user_id::text) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+         then coalesce(b.assigned_to::text, b.assigned_user_id::text)::uuid end as assigned_user_id,
+    coalesce(b.total_amount, 0)                          as total,
+    coalesce(b.amount_paid, 0)                           as paid,
+    coalesce(b.created_at::date, b.start_date::date)     as booked_on,
+    b.start_date::date                                   as start_date,
+    least(coalesce(b.total_amount, 0), round(coalesce(b.total_amount, 0) * coalesce(b.deposit_percent, 50)) / 100) as deposit,
+    coalesce(b.balance_due_days, 0)                      as balance_due_days
+  from public.bookings b
+  where b.status not in ('Cancelled', 'Completed')
+  union all
+  select
+    'safari',
+    null,
+    s.id,
+    coalesce(s.booking_reference, upper(left(s.id::text, 8))),
+    s.client_id,
+    s.customer_name,
+    case when s.currency = 'UGX' and s.total_price_ugx > 0 then 'UGX' else 'USD' end,
+    null,
+    t.total,
+    coalesce(s.amount_paid, 0),
+    coalesce(s.created_at::date, s.start_date::date),
+    s.start_date::date,
+    least(t.total, case when s.deposit_percent is null and s.deposit_amount > 0
+                        then s.deposit_amount
+                        else round(t.total * coalesce(s.deposit_percent, 30)) / 100 end),
+    coalesce(s.balance_due_days, 60)
+  from public.safari_bookings s
+  cross join lateral (
+    select coalesce(case when s.currency = 'UGX' and s.total_price_ugx > 0 then s.total_price_ugx else s.total_price_usd end, 0) as total
+  ) t
+  where s.status not in ('draft', 'cancelled', 'completed')
+)
+select
+  coalesce(sc.booking_id, sc.safari_booking_id)::text || ':' || i.installment as id,
+  sc.kind, sc.booking_id, sc.safari_booking_id, sc.reference, sc.client_id, sc.client_name, sc.currency, sc.assigned_user_id,
+  i.installment,
+  i.due_date,
+  i.amount,
+  -- Payments settle the deposit first
+  i.amount - least(i.amount, greatest(sc.paid - i.paid_before, 0)) as outstanding,
+  current_date - i.due_date                                          as days_overdue
+from schedules sc
+cross join lateral (
+  values
+    ('deposit', sc.booked_on, sc.deposit, 0::numeric),
+    ('balance', greatest(sc.start_date - sc.balance_due_days, sc.booked_on), sc.total - sc.deposit, sc.deposit)
+) as i (installment, due_date, amount, paid_before)
+where sc.total > 0 and i.amount > 0;
+
+-- ============================================================================
+-- Managers: the same rule as the RLS policies and getStaffRole, where an
+-- account without a role counts as a manager. Shared by the daily jobs.
+-- ============================================================================
+
+create or replace function public.manager_user_ids()
+returns uuid[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(u.id), '{}')
+    from auth.users u
+   where coalesce(u.raw_app_meta_data ->> 'role', 'manager') in ('admin', 'manager');
+$$;
+
+revoke execute on function public.manager_user_ids() from public, anon, authenticated;
+
+-- ============================================================================
+-- Job: send reminders and escalations for installments overdue today
+-- ============================================================================
+
+create or replace function public.send_payment_reminders()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings  public.receivables_settings;
+  v_managers  uuid[];
+  v_item      record;
+  v_recipient uuid;
+  v_sent      int := 0;
+  v_amount    text;
+begin
+  select * into v_settings from public.receivables_settings where id = 1;
+
+  select coalesce(array_agg(distinct id), '{}') into v_managers
+    from (
+      select unnest(public.manager_user_ids()) as id
+      union
+      select unnest(v_settings.escalate_to)
+    ) m;
+
+  for v_item in
+    -- Due today is not yet overdue, as in agingBucket (src/lib/receivables.ts)
+    select * from public.receivable_installments where outstanding > 0 and days_overdue > 0
+  loop
+    v_amount := v_item.currency || ' ' || to_char(v_item.outstanding, 'FM999,999,999,990.##');
+
+    -- Reminder: the assigned staff member, or managers when nobody is assigned
+    foreach v_recipient in array
+      case when v_item.assigned_user_id is not null then array[v_item.assigned_user_id] else v_managers end
+    loop
+      continue when exists (
+        select 1 from public.payment_reminders r
+         where coalesce(r.booking_id, r.safari_booking_id) = coalesce(v_item.booking_id, v_item.safari_booking_id)
+           and r.installment = v_item.installment and r.due_date = v_item.due_date
+           and r.level = 'reminder' and r.recipient_id = v_recipient
+           and r.sent_at > now() - make_interval(days => v_settings.reminder_interval_days)
+      );
+
+      insert into public.notifications (user_id, type, title, message, priority, status, data)
+      values (
+        v_recipient, 'payment_overdue', 'Payment Overdue',
+        format('%s %s of %s is %s days overdue (%s).', v_item.reference, v_item.installment, v_amount, v_item.days_overdue, coalesce(v_item.client_name, 'client')),
+        'high', 'unread',
+        jsonb_build_object(
+          'booking_id', coalesce(v_item.booking_id, v_item.safari_booking_id), 'reference', v_item.reference,
+          'amount', v_item.outstanding, 'currency', v_item.currency, 'screen', 'Receivables'
+        )
+      );
+      insert into public.payment_reminders (booking_id, safari_booking_id, installment, due_date, level, recipient_id, days_overdue)
+      values (v_item.booking_id, v_item.safari_booking_id, v_item.installment, v_item.due_date, 'reminder', v_recipient, v_item.days_overdue);
+      v_sent := v_sent + 1;
+    end loop;
+
+    -- Escalation: managers, once per installment
+    continue when v_item.days_overdue < v_settings.escalation_days;
+    foreach v_recipient in array v_managers
+    loop
+      continue when exists (
+        select 1 from public.payment_reminders r
+         where coalesce(r.booking_id, r.safari_booking_id) = coalesce(v_item.booking_id, v_item.safari_booking_id)
+           and r.installment = v_item.installment and r.due_date = v_item.due_date
+           and r.level = 'escalation' and r.recipient_id = v_recipient
+      );
+
+      insert into public.notifications (user_id, type, title, message, priority, status, data)
+      values (
+        v_recipient, 'payment_overdue', 'Overdue Payment Escalated',
+        format('%s %s of %s has been overdue for %s days (%s).', v_item.reference, v_item.installment, v_amount, v_item.days_overdue, coalesce(v_item.client_name, 'client')),
+        'urgent', 'unread',
+        jsonb_build_object(
+          'booking_id', coalesce(v_item.booking_id, v_item.safari_booking_id), 'reference', v_item.reference,
+          'amount', v_item.outstanding, 'currency', v_item.currency, 'screen', 'Receivables'
+        )
+      );
+      insert into public.payment_reminders (booking_id, safari_booking_id, installment, due_date, level, recipient_id, days_overdue)
+      values (v_item.booking_id, v_item.safari_booking_id, v_item.installment, v_item.due_date, 'escalation', v_recipient, v_item.days_overdue);
+      v_sent := v_sent + 1;
+    end loop;
+  end loop;
+
+  return v_sent;
+end;
+$$;
+
+-- Every morning, 09:00 East Africa Time
+create extension if not exists pg_cron;
+select cron.schedule('payment-reminders', '0 6 * * *', $$select public.send_payment_reminders()$$);
+
+-- RLS
+alter table public.receivables_settings enable row level security;
+alter table public.payment_reminders enable row level security;
+
+-- Authenticated users (ops staff) can read the settings and the reminders sent
+create policy "Staff can read receivables settings"
+  on public.receivables_settings for select
+  to authenticated
+  using (true);
+
+-- Accounts without a role keep manager access, as in the app (getStaffRole)
+create policy "Managers can update receivables settings"
+  on public.receivables_settings for update
+  to authenticated
+  using (coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager'));
+
+create policy "Staff can read payment reminders"
+  on public.payment_reminders for select
+  to authenticated
+  using (true);
+
+grant select, update on public.receivables_settings to authenticated;
+grant select on public.payment_reminders to authenticated;
+grant select on public.receivable_installments to authenticated;
+revoke execute on function public.send_payment_reminders() from public, anon, authenticated;
@@ -0,0 +1,291 @@
+-- ============================================================================
+-- Maintenance Plans
+-- Service plans per vehicle (every N km and/or every N months). A daily job
+-- opens a planned repair when a plan comes due and warns staff when a vehicle
+-- needs servicing before its next booking. Completing a planned repair resets
+-- the plan, and the vehicle's last/next service dates follow its plans.
+-- Run this in Supabase SQL Editor → New Query (after payment_reminders)
+-- ============================================================================
+
+create table if not exists public.vehicle_service_plans (
+  id                  uuid default gen_random_uuid() primary key,
+  vehicle_id          uuid        not null references public.vehicles(id) on delete cascade,
+  name                text        not null,          -- e.g. Full service, Oil change, Tyres
+  interval_km         int         check (interval_km > 0),
+  interval_months     int         check (interval_months > 0),
+  -- When the work was last done; the first due date/odometer count from here
+  last_done_at        date        not null default current_date,
+  last_done_odometer  int,
+  active              boolean     not null default true,
+  created_by          uuid default auth.uid(),
+  created_at          timestamptz not null default now(),
+  updated_at          timestamptz not null default now(),
+  check (interval_km is not null or interval_months is not null)
+);
+
+create index if not exists vehicle_service_plans_vehicle_idx on public.vehicle_service_plans (vehicle_id) where active;
+
+-- Planned repairs point back at the plan that opened them
+alter table public.repairs
+  add column if not exists service_plan_id uuid references public.vehicle_service_plans(id) on delete set null;
+
+create index if not exists repairs_service_plan_idx on public.repairs (service_plan_id) where service_plan_id is not null;
+
+-- One warning per plan and booking
+create table if not exists public.maintenance_notices (
+  id                 bigint generated always as identity primary key,
+  plan_id            uuid not null references public.vehicle_service_plans(id) on delete cascade,
+  booking_id         uuid references public.bookings(id) on delete cascade,
+  safari_booking_id  uuid references public.safari_bookings(id) on delete cascade,
+  sent_at            timestamptz not null default now()
+);
+
+create unique index if not exists maintenance_notices_once_idx
+  on public.maintenance_notices (plan_id, coalesce(booking_id, safari_booking_id));
+
+-- ============================================================================
+-- View: where every active plan stands today
+-- Mirrors serviceDue in src/lib/maintenance.ts — keep the due-soon margins
+-- (14 days / 1,000 km) in step
+-- ============================================================================
+
+create or replace view public.vehicle_service_status
+with (security_invoker = true) as
+select
+  p.id                                                         as plan_id,
+  p.vehicle_id,
+  p.name,
+  v.license_plate,
+  v.odometer,
+  case when p.interval_months is not null
+       then (p.last_done_at + make_interval(months => p.interval_months))::date end as due_date,
+  case when p.interval_km is not null and p.last_done_odometer is not null
+       then p.last_done_odometer + p.interval_km end           as due_odometer,
+  case
+    when (p.interval_months is not null and (p.last_done_at + make_interval(months => p.interval_months))::date < current_date)
+      or (p.interval_km is not null and p.last_done_odometer is not null and v.odometer >= p.last_done_odometer + p.interval_km)
+      then 'overdue'
+    when (p.interval_months is not null and (p.last_done_at + make_interval(months => p.interval_months))::date <= current_date + 14)
+      or (p.interval_km is not null and p.last_done_odometer is not null and v.odometer >= p.last_done_odometer + p.interval_km - 1000)
+      then 'due_soon'
+    else 'ok'
+  end                                                          as state,
+  (select r.id from public.repairs r
+    where r.service_plan_id = p.id and r.status in ('open', 'in_progress')
+    limit 1)                                                   as open_repair_id
+from public.vehicle_service_plans p
+join public.vehicles v on v.id = p.vehicle_id
+where p.active;
+
+-- ============================================================================
+-- Triggers: the vehicle's service dates follow its plans, and completing a
+-- planned repair starts the plan's next interval
+-- ============================================================================
+
+create or replace function public.recompute_vehicle_service_dates(p_vehicle_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.vehicles v
+     set last_service_date = coalesce(s.last_done, v.last_service_date),
+         -- Plans counted only in km leave a date entered by hand alone
+         next_service_date = coalesce(s.next_due, v.next_service_date)
+    from (
+      select max(p.last_done_at) as last_done,
+             min((p.last_done_at + make_interval(months => p.interval_months))::date) as next_due
+        from public.vehicle_service_plans p
+       where p.vehicle_id = p_vehicle_id and p.active
+    ) s
+   where v.id = p_vehicle_id
+     and s.last_done is not null;
+end;
+$$;
+
+create or replace function public.vehicle_service_plans_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.recompute_vehicle_service_dates(old.vehicle_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.recompute_vehicle_service_dates(new.vehicle_id);
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists vehicle_service_plans_dates on public.vehicle_service_plans;
+create trigger vehicle_service_plans_dates
+  after insert or update or delete on public.vehicle_service_plans
+  for each row execute function public.vehicle_service_plans_changed();
+
+create or replace function public.planned_repair_completed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.vehicle_service_plans p
+     set last_done_at       = current_date,
+         last_done_odometer = coalesce((select v.odometer from public.vehicles v where v.id = new.vehicle_id), p.last_done_odometer),
+         updated_at         = now()
+   where p.id = new.service_plan_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists repairs_service_plan_completed on public.repairs;
+create trigger repairs_service_plan_completed
+  after update of status on public.repairs
+  for each row
+  when (new.service_plan_id is not null and new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.planned_repair_completed();
+
+-- ============================================================================
+-- Job: open planned repairs for plans that came due, and warn before a
+-- vehicle that needs servicing goes out on its next booking
+-- ============================================================================
+
+create or replace function public.run_maintenance_schedule()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_managers   uuid[];
+  v_recipients uuid[];
+  v_item       record;
+  v_recipient  uuid;
+  v_sent       int := 0;
+begin
+  v_managers := public.manager_user_ids();
+
+  -- Planned repairs, one open at a time per plan
+  insert into public.repairs (vehicle_id, description, status, priority, reported_at, service_plan_id)
+  select s.vehicle_id,
+         'Scheduled ' || lower(s.name) || concat_ws(' / ',
+           case when s.due_date is not null then ' due ' || to_char(s.due_date, 'DD Mon YYYY') end,
+           case when s.due_odometer is not null then 'at ' || to_char(s.due_odometer, 'FM999,999,999') || ' km' end),
+         'open',
+         case when s.state = 'overdue' then 'high' else 'medium' end,
+         now(),
+         s.plan_id
+    from public.vehicle_service_status s
+   where s.state in ('overdue', 'due_soon') and s.open_repair_id is null;
+
+  -- Bookings in the next two weeks whose vehicle is due by the start date
+  for v_item in
+    select s.plan_id, s.name, s.license_plate, s.state, s.vehicle_id, s.due_date,
+           b.booking_id, b.safari_booking_id, b.reference, b.start_date, b.assigned_user_id
+      from public.vehicle_service_status s
+      join (
+        select bk.id as booking_id, null::uuid as safari_booking_id, bk.assigned_vehicle_id as vehicle_id,
+               coalesce(bk.booking_reference, upper(left(bk.id::text, 8))) as reference,
+               bk.start_date::date as start_date,
+               case when coalesce(bk.assigned_to::text, bk.assigned_user_id::text) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+                    then coalesce(bk.assigned_to::text, bk.assigned_user_id::text)::uuid end as assigned_user_id
+          from public.bookings bk
+         where bk.status in ('Pending', 'Confirmed')
+        union all
+        select null, sb.id, sb.assigned_vehicle_id,
+               coalesce(sb.booking_reference, upper(left(sb.id::text, 8))),
+               sb.start_date::date,
+               null
+          from public.safari_bookings sb
+         where sb.status in ('pending', 'confirmed')
+      ) b on b.vehicle_id = s.vehicle_id
+     where b.start_date between current_date and current_date + 14
+       -- Only the vehicle's next booking
+       and not exists (
+         select 1 from public.bookings o
+          where o.assigned_vehicle_id = s.vehicle_id and o.status in ('Pending', 'Confirmed')
+            and o.start_date::date between current_date and b.start_date - 1
+         union all
+         select 1 from public.safari_bookings o
+          where o.assigned_vehicle_id = s.vehicle_id and o.status in ('pending', 'confirmed')
+            and o.start_date::date between current_date and b.start_date - 1
+       )
+       and (s.state in ('overdue', 'due_soon') or s.due_date <= b.start_date)
+       and not exists (
+         select 1 from public.maintenance_notices n
+          where n.plan_id = s.plan_id and coalesce(n.booking_id, n.safari_booking_id) = coalesce(b.booking_id, b.safari_booking_id)
+       )
+  loop
+    select coalesce(array_agg(distinct r), '{}') into v_recipients
+      from unnest(v_managers || v_item.assigned_user_id) r where r is not null;
+    -- Nobody to tell yet; try again tomorrow rather than mark it sent
+    continue when cardinality(v_recipients) = 0;
+
+    foreach v_recipient in array v_recipients
+    loop
+      insert into public.notifications (user_id, type, title, message, priority, status, data)
+      values (
+        v_recipient, 'vehicle_maintenance', 'Service Due Before Booking',
+        format('%s needs its %s before %s starts on %s.', v_item.license_plate, lower(v_item.name), v_item.reference, to_char(v_item.start_date, 'DD Mon')),
+        case when v_item.state = 'overdue' then 'high' else 'medium' end, 'unread',
+        jsonb_build_object(
+          'vehicle_id', v_item.vehicle_id, 'plan_id', v_item.plan_id,
+          'booking_id', coalesce(v_item.booking_id, v_item.safari_booking_id), 'screen', 'Fleet'
+        )
+      );
+      v_sent := v_sent + 1;
+    end loop;
+
+    insert into public.maintenance_notices (plan_id, booking_id, safari_booking_id)
+    values (v_item.plan_id, v_item.booking_id, v_item.safari_booking_id);
+  end loop;
+
+  return v_sent;
+end;
+$$;
+
+-- Every morning, 08:30 East Africa Time
+create extension if not exists pg_cron;
+select cron.schedule('maintenance-schedule', '30 5 * * *', $$select public.run_maintenance_schedule()$$);
+
+-- RLS
+alter table public.vehicle_service_plans enable row level security;
+alter table public.maintenance_notices enable row level security;
+
+-- Authenticated users (ops staff) can read and manage service plans
+create policy "Staff can read service plans"
+  on public.vehicle_service_plans for select
+  to authenticated
+  using (true);
+
+create policy "Staff can create service plans"
+  on public.vehicle_service_plans for insert
+  to authenticated
+  with check (true);
+
+create policy "Staff can update service plans"
+  on public.vehicle_service_plans for update
+  to authenticated
+  using (true);
+
+create policy "Staff can delete service plans"
+  on public.vehicle_service_plans for delete
+  to authenticated
+  using (true);
+
+create policy "Staff can read maintenance notices"
+  on public.maintenance_notices for select
+  to authenticated
+  using (true);
+
+grant select, insert, update, delete on public.vehicle_service_plans to authenticated;
+grant select on public.maintenance_notices to authenticated;
+grant select on public.vehicle_service_status to authenticated;
+revoke execute on function public.run_maintenance_schedule() from public, anon, authenticated;
+
+-- Live plans in the app
+alter publication supabase_realtime add table public.vehicle_service_plans;
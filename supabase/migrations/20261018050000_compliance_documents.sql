@@ -0,0 +1,266 @@
+-- ============================================================================
+-- Compliance Documents
+-- Registry of the papers a vehicle or driver needs on the road — insurance,
+-- road licence, inspection certificate, cross-border permits for Uganda,
+-- Kenya, Rwanda and Tanzania, driving permits — with an optional scan in
+-- storage. A daily job sends expiry alerts 30, 14 and 3 days ahead, and the
+-- vehicle's insurance_expiry follows its insurance documents.
+-- Drivers are the safari_guides assigned to bookings (assigned_driver_id).
+-- Run this in Supabase SQL Editor → New Query (after payment_reminders)
+-- ============================================================================
+
+create table if not exists public.compliance_documents (
+  id           uuid default gen_random_uuid() primary key,
+  vehicle_id   uuid references public.vehicles(id) on delete cascade,
+  guide_id     uuid references public.safari_guides(id) on delete cascade,
+  doc_type     text        not null check (doc_type in (
+                 'insurance', 'road_licence', 'inspection', 'cross_border_permit',
+                 'driving_permit', 'passport', 'other')),
+  -- Country codes a cross-border permit covers (UG, KE, RW, TZ)
+  countries    text[]      not null default '{}',
+  number       text,
+  issued_on    date,
+  expires_on   date        not null,
+  -- Scan in the compliance-documents bucket
+  file_path    text,
+  file_name    text,
+  notes        text,
+  created_by   uuid default auth.uid(),
+  created_at   timestamptz not null default now(),
+  updated_at   timestamptz not null default now(),
+  check ((vehicle_id is null) <> (guide_id is null)),
+  check (issued_on is null or issued_on <= expires_on)
+);
+
+create index if not exists compliance_documents_vehicle_idx on public.compliance_documents (vehicle_id, expires_on) where vehicle_id is not null;
+create index if not exists compliance_documents_guide_idx   on public.compliance_documents (guide_id, expires_on)   where guide_id is not null;
+
+-- One alert per document and threshold
+create table if not exists public.document_expiry_alerts (
+  document_id  uuid not null references public.compliance_documents(id) on delete cascade,
+  threshold    int  not null,          -- 30 | 14 | 3 days
+  expires_on   date not null,          -- renewing the document re-arms its alerts
+  sent_at      timestamptz not null default now(),
+  primary key (document_id, threshold, expires_on)
+);
+
+-- ============================================================================
+-- Trigger: vehicles.insurance_expiry follows the vehicle's insurance papers
+-- ============================================================================
+
+create or replace function public.sync_vehicle_insurance_expiry(p_vehicle_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.vehicles v
+     set insurance_expiry = d.expires_on
+    from (select max(expires_on) as expires_on
+            from public.compliance_documents
+           where vehicle_id = p_vehicle_id and doc_type = 'insurance') d
+   where v.id = p_vehicle_id
+     and d.expires_on is not null
+     and v.insurance_expiry is distinct from d.expires_on;
+end;
+$$;
+
+create or replace function public.compliance_documents_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') and old.vehicle_id is not null then
+    perform public.sync_vehicle_insurance_expiry(old.vehicle_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and new.vehicle_id is not null then
+    perform public.sync_vehicle_insurance_expiry(new.vehicle_id);
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists compliance_documents_insurance on public.compliance_documents;
+create trigger compliance_documents_insurance
+  after insert or update or delete on public.compliance_documents
+  for each row execute function public.compliance_documents_changed();
+
+-- Backfill: the insurance dates already on vehicles become documents
+insert into public.compliance_documents (vehicle_id, doc_type, expires_on, notes, created_by)
+select v.id, 'insurance', v.insurance_expiry::date, 'Carried over from the vehicle record', null
+  from public.vehicles v
+ where v.insurance_expiry is not null
+   and not exists (select 1 from public.compliance_documents d where d.vehicle_id = v.id and d.doc_type = 'insurance');
+
+-- ============================================================================
+-- Notification types: expiry alerts, plus the ones the app already sends
+-- (booking started, CR assigned) that notifications_setup.sql predates.
+-- Keep in step with NotificationType in src/types/notification.ts
+-- ============================================================================
+
+alter table public.notifications drop constraint if exists notifications_type_check;
+alter table public.notifications add constraint notifications_type_check check (type in (
+  'booking_created', 'booking_started', 'booking_confirmed', 'booking_completed', 'booking_cancelled',
+  'payment_received', 'payment_overdue',
+  'cr_created', 'cr_assigned', 'cr_approved', 'cr_rejected',
+  'vehicle_maintenance', 'vehicle_available', 'document_expiring',
+  'system_alert', 'admin_message', 'general'
+));
+
+-- ============================================================================
+-- Job: expiry alerts at 30, 14 and 3 days
+-- ============================================================================
+
+create or replace function public.send_document_expiry_alerts()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_managers  uuid[];
+  v_item      record;
+  v_recipient uuid;
+  v_notified  boolean;
+  v_sent      int := 0;
+begin
+  v_managers := public.manager_user_ids();
+
+  for v_item in
+    -- Current documents inside a threshold; once a newer copy of the same
+    -- document is on file the older one is history and stays quiet
+    select d.id, d.doc_type, d.number, d.expires_on, d.vehicle_id, d.guide_id,
+           coalesce(v.license_plate, g.full_name, 'Unknown') as owner,
+           d.expires_on - current_date as days_left,
+           t.threshold
+      from public.compliance_documents d
+      left join public.vehicles v      on v.id = d.vehicle_id
+      left join public.safari_guides g on g.id = d.guide_id
+      cross join lateral (
+        select min(x) as threshold from unnest(array[30, 14, 3]) x where d.expires_on - current_date <= x
+      ) t
+     where d.expires_on >= current_date
+       and t.threshold is not null
+       and not exists (
+         select 1 from public.compliance_documents newer
+          where newer.doc_type = d.doc_type and newer.expires_on > d.expires_on
+            and newer.countries = d.countries
+            and (newer.vehicle_id = d.vehicle_id or newer.guide_id = d.guide_id)
+       )
+       and not exists (
+         select 1 from public.document_expiry_alerts a
+          where a.document_id = d.id and a.expires_on = d.expires_on and a.threshold <= t.threshold
+       )
+  loop
+    v_notified := false;
+    foreach v_recipient in array v_managers
+    loop
+      insert into public.notifications (user_id, type, title, message, priority, status, data)
+      values (
+        v_recipient, 'document_expiring',
+        case when v_item.days_left <= 3 then 'Document Expiring' else 'Document Renewal Due' end,
+        format('%s: %s%s expires in %s days (%s).',
+          v_item.owner,
+          case v_item.doc_type
+            when 'insurance'           then 'Insurance'
+            when 'road_licence'        then 'Road licence'
+            when 'inspection'          then 'Inspection certificate'
+            when 'cross_border_permit' then 'Cross-border permit'
+            when 'driving_permit'      then 'Driving permit'
+            when 'passport'            then 'Passport'
+            else 'Document'
+          end,
+          coalesce(' ' || v_item.number, ''), v_item.days_left, to_char(v_item.expires_on, 'DD Mon YYYY')),
+        case when v_item.days_left <= 3 then 'urgent' when v_item.days_left <= 14 then 'high' else 'medium' end,
+        'unread',
+        jsonb_build_object(
+          'document_id', v_item.id, 'vehicle_id', v_item.vehicle_id, 'guide_id', v_item.guide_id,
+          'screen', case when v_item.vehicle_id is not null then 'Fleet' else 'Safari' end
+        )
+      );
+      v_notified := true;
+      v_sent := v_sent + 1;
+    end loop;
+
+    -- Nobody was told; leave it for tomorrow's run
+    continue when not v_notified;
+    insert into public.document_expiry_alerts (document_id, threshold, expires_on)
+    values (v_item.id, v_item.threshold, v_item.expires_on)
+    on conflict do nothing;
+  end loop;
+
+  return v_sent;
+end;
+$$;
+
+-- Every morning, 08:45 East Africa Time
+create extension if not exists pg_cron;
+select cron.schedule('document-expiry-alerts', '45 5 * * *', $$select public.send_document_expiry_alerts()$$);
+
+-- ============================================================================
+-- Storage: private bucket for scans
+-- ============================================================================
+
+insert into storage.buckets (id, name, public)
+values ('compliance-documents', 'compliance-documents', false)
+on conflict (id) do nothing;
+
+create policy "Staff can read document scans"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'compliance-documents');
+
+create policy "Staff can upload document scans"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'compliance-documents');
+
+create policy "Staff can replace document scans"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'compliance-documents');
+
+create policy "Staff can remove document scans"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'compliance-documents');
+
+-- RLS
+alter table public.compliance_documents enable row level security;
+alter table public.document_expiry_alerts enable row level security;
+
+-- Authenticated users (ops staff) can read and manage documents
+create policy "Staff can read compliance documents"
+  on public.compliance_documents for select
+  to authenticated
+  using (true);
+
+create policy "Staff can add compliance documents"
+  on public.compliance_documents for insert
+  to authenticated
+  with check (true);
+
+create policy "Staff can update compliance documents"
+  on public.compliance_documents for update
+  to authenticated
+  using (true);
+
+create policy "Staff can remove compliance documents"
+  on public.compliance_documents for delete
+  to authenticated
+  using (true);
+
+create policy "Staff can read document alerts"
+  on public.document_expiry_alerts for select
+  to authenticated
+  using (true);
+
+grant select, insert, update, delete on public.compliance_documents to authenticated;
+grant select on public.document_expiry_alerts to authenticated;
+revoke execute on function public.send_document_expiry_alerts() from public, anon, authenticated;
+
+-- Live registry in the app
+alter publication supabase_realtime add table public.compliance_documents;
@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Fuel & Trip Logs
+-- Per-vehicle record of fuel bought and kilometres driven. Each entry carries
+-- an odometer reading, which must fit between the vehicle's earlier and later
+-- readings, and the highest reading becomes vehicles.odometer (so km-based
+-- service plans count from it). Fuel spend is reported as Fleet Supplies.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+create table if not exists public.fuel_logs (
+  id           uuid default gen_random_uuid() primary key,
+  vehicle_id   uuid        not null references public.vehicles(id) on delete cascade,
+  booking_id   uuid references public.bookings(id) on delete set null,
+  filled_on    date        not null default current_date,
+  odometer     integer     not null check (odometer >= 0),
+  litres       numeric     not null check (litres > 0),
+  cost         numeric     not null check (cost >= 0),
+  currency     text        not null default 'UGX' check (currency in ('USD', 'UGX', 'KES')),
+  station      text,
+  -- Economy is measured between full tanks; a top-up only adds litres
+  full_tank    boolean     not null default true,
+  notes        text,
+  created_by   uuid default auth.uid(),
+  created_at   timestamptz not null default now(),
+  updated_at   timestamptz not null default now()
+);
+
+create table if not exists public.trip_logs (
+  id              uuid default gen_random_uuid() primary key,
+  vehicle_id      uuid        not null references public.vehicles(id) on delete cascade,
+  booking_id      uuid references public.bookings(id) on delete set null,
+  started_on      date        not null default current_date,
+  ended_on        date        not null default current_date,
+  start_odometer  integer     not null check (start_odometer >= 0),
+  end_odometer    integer     not null,
+  distance_km     integer     generated always as (end_odometer - start_odometer) stored,
+  purpose         text,
+  notes           text,
+  created_by      uuid default auth.uid(),
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now(),
+  check (end_odometer >= start_odometer),
+  check (ended_on >= started_on)
+);
+
+create index if not exists fuel_logs_vehicle_idx on public.fuel_logs (vehicle_id, filled_on);
+create index if not exists trip_logs_vehicle_idx on public.trip_logs (vehicle_id, started_on);
+
+-- Every odometer reading on file, oldest first
+create or replace view public.vehicle_odometer_readings as
+  select vehicle_id, filled_on as read_on, odometer, id as source_id from public.fuel_logs
+  union all
+  select vehicle_id, started_on, start_odometer, id from public.trip_logs
+  union all
+  select vehicle_id, ended_on, end_odometer, id from public.trip_logs;
+
+-- ============================================================================
+-- Trigger: odometer readings only go up over time
+-- ============================================================================
+
+-- Keep in step with odometerError() in src/lib/vehicleLogs.ts
+create or replace function public.check_odometer_reading(
+  p_vehicle_id uuid, p_read_on date, p_odometer integer, p_source_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before integer;
+  v_after  integer;
+begin
+  select max(odometer) into v_before
+    from public.vehicle_odometer_readings
+   where vehicle_id = p_vehicle_id and read_on < p_read_on and source_id <> p_source_id;
+
+  select min(odometer) into v_after
+    from public.vehicle_odometer_readings
+   where vehicle_id = p_vehicle_id and read_on > p_read_on and source_id <> p_source_id;
+
+  if v_before is not null and p_odometer < v_before then
+    raise exception 'Odometer reading % km is lower than the % km already recorded before %',
+      p_odometer, v_before, to_char(p_read_on, 'DD Mon YYYY');
+  end if;
+  if v_after is not null and p_odometer > v_after then
+    raise exception 'Odometer reading % km is higher than the % km already recorded after %',
+      p_odometer, v_after, to_char(p_read_on, 'DD Mon YYYY');
+  end if;
+end;
+$$;
+
+create or replace function public.fuel_logs_check_odometer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.check_odometer_reading(new.vehicle_id, new.filled_on, new.odometer, new.id);
+  update public.vehicles set odometer = new.odometer
+   where id = new.vehicle_id and coalesce(odometer, 0) < new.odometer;
+  return new;
+end;
+$$;
+
+create or replace function public.trip_logs_check_odometer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.check_odometer_reading(new.vehicle_id, new.started_on, new.start_odometer, new.id);
+  perform public.check_odometer_reading(new.vehicle_id, new.ended_on, new.end_odometer, new.id);
+  update public.vehicles set odometer = new.end_odometer
+   where id = new.vehicle_id and coalesce(odometer, 0) < new.end_odometer;
+  return new;
+end;
+$$;
+
+drop trigger if exists fuel_logs_odometer on public.fuel_logs;
+create trigger fuel_logs_odometer
+  before insert or update of vehicle_id, filled_on, odometer on public.fuel_logs
+  for each row execute function public.fuel_logs_check_odometer();
+
+drop trigger if exists trip_logs_odometer on public.trip_logs;
+create trigger trip_logs_odometer
+  before insert or update of vehicle_id, started_on, ended_on, start_odometer, end_odometer on public.trip_logs
+  for each row execute function public.trip_logs_check_odometer();
+
+-- RLS
+alter table public.fuel_logs enable row level security;
+alter table public.trip_logs enable row level security;
+
+-- Authenticated users (ops staff) can read and log fuel and trips
+create policy "Staff can read fuel logs"
+  on public.fuel_logs for select
+  to authenticated
+  using (true);
+
+create policy "Staff can add fuel logs"
+  on public.fuel_logs for insert
+  to authenticated
+  with check (true);
+
+create policy "Staff can update fuel logs"
+  on public.fuel_logs for update
+  to authenticated
+  using (true);
+
+create policy "Staff can remove fuel logs"
+  on public.fuel_logs for delete
+  to authenticated
+  using (true);
+
+create policy "Staff can read trip logs"
+  on public.trip_logs for select
+  to authenticated
+  using (true);
+
+create policy "Staff can add trip logs"
+  on public.trip_logs for insert
+  to authenticated
+  with check (true);
+
+create policy "Staff can update trip logs"
+  on public.trip_logs for update
+  to authenticated
+  using (true);
+
+create policy "Staff can remove trip logs"
+  on public.trip_logs for delete
+  to authenticated
+  using (true);
+
+grant select, insert, update, delete on public.fuel_logs to authenticated;
+grant select, insert, update, delete on public.trip_logs to authenticated;
+grant select on public.vehicle_odometer_readings to authenticated;
+
+-- Live logs in the app
+alter publication supabase_realtime add table public.fuel_logs;
+alter publication supabase_realtime add table public.trip_logs;
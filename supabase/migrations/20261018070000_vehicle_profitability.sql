@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Vehicle Profitability
+-- Two columns the per-vehicle P&L needs: the vehicle a cash requisition was
+-- spent on, and what a vendor charged for a vehicle hired in for a booking.
+-- Revenue, repairs and fuel already carry their vehicle.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+alter table public.cash_requisitions
+  add column if not exists vehicle_id uuid references public.vehicles(id) on delete set null;
+
+create index if not exists cash_requisitions_vehicle_idx
+  on public.cash_requisitions (vehicle_id)
+  where vehicle_id is not null;
+
+-- In the booking's currency; only set on is_vendor_vehicle bookings
+alter table public.bookings
+  add column if not exists vendor_hire_cost numeric check (vendor_hire_cost >= 0);
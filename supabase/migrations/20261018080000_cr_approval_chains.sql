@@ -0,0 +1,356 @@
+-- ============================================================================
+-- Cash Requisition Approval Chains
+-- A requisition is approved step by step instead of by one approver. Which
+-- steps it goes through depends on its amount in USD: each rule covers the
+-- amounts from its min_amount_usd up to the next rule's, and lists approvers
+-- in order. A step with no approver_id goes to the approver the requester
+-- picked on the form (e.g. their department head).
+--
+-- Each approver can approve, decline or return the requisition for changes,
+-- with a comment. Approving hands it to the next step; the last approval
+-- marks it Approved. A returned requisition goes back to the requester, and
+-- resubmitting it (status back to Pending) starts a fresh round of the chain.
+-- While an approver is away, an active delegation lets someone act for them.
+-- Only act_on_cr_step may mark a requisition Approved or Declined.
+-- Run this in Supabase SQL Editor → New Query (after payment_reminders)
+-- ============================================================================
+
+-- The approver the requester picked; approver_id moves along the chain
+alter table public.cash_requisitions
+  add column if not exists chosen_approver_id uuid;
+
+create table if not exists public.cr_approval_rules (
+  id              uuid default gen_random_uuid() primary key,
+  min_amount_usd  numeric     not null unique check (min_amount_usd >= 0),
+  -- [{ "label": "Finance manager", "approver_id": "<uuid>" | null }, ...]
+  steps           jsonb       not null check (jsonb_typeof(steps) = 'array' and jsonb_array_length(steps) > 0),
+  updated_at      timestamptz not null default now()
+);
+
+-- Until managers configure more, every requisition goes to the chosen approver
+insert into public.cr_approval_rules (min_amount_usd, steps)
+values (0, '[{"label": "Approver", "approver_id": null}]')
+on conflict (min_amount_usd) do nothing;
+
+create table if not exists public.cr_approval_steps (
+  id           uuid default gen_random_uuid() primary key,
+  cr_id        uuid        not null references public.cash_requisitions(id) on delete cascade,
+  -- Resubmitting after a return starts round 2, and so on
+  round        integer     not null default 1,
+  position     integer     not null,
+  label        text        not null,
+  approver_id  uuid        not null,
+  status       text        not null default 'waiting'
+               check (status in ('waiting', 'pending', 'approved', 'declined', 'returned')),
+  -- The approver, or whoever acted for them under a delegation
+  acted_by     uuid,
+  acted_at     timestamptz,
+  comment      text,
+  created_at   timestamptz not null default now(),
+  unique (cr_id, round, position)
+);
+
+create index if not exists cr_approval_steps_cr_idx on public.cr_approval_steps (cr_id, round, position);
+create index if not exists cr_approval_steps_pending_idx on public.cr_approval_steps (approver_id) where status = 'pending';
+
+create table if not exists public.approval_delegations (
+  id           uuid default gen_random_uuid() primary key,
+  approver_id  uuid        not null,
+  delegate_id  uuid        not null,
+  starts_on    date        not null default current_date,
+  ends_on      date        not null,
+  reason       text,
+  created_by   uuid default auth.uid(),
+  created_at   timestamptz not null default now(),
+  check (ends_on >= starts_on),
+  check (approver_id <> delegate_id)
+);
+
+create index if not exists approval_delegations_approver_idx on public.approval_delegations (approver_id, ends_on);
+
+-- ============================================================================
+-- Building the chain
+-- ============================================================================
+
+-- The requisition's amount in USD; keep in step with crAmountUsd() in
+-- src/lib/crApprovals.ts
+create or replace function public.cr_amount_usd(p_cr public.cash_requisitions)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    p_cr.amount_usd,
+    case when coalesce(p_cr.currency, 'USD') = 'USD' then p_cr.total_cost
+         else p_cr.total_cost / nullif((
+           select rate from public.exchange_rates
+            where from_currency = 'USD' and to_currency = p_cr.currency
+            order by created_at desc limit 1
+         ), 0)
+    end,
+    p_cr.total_cost
+  );
+$$;
+
+create or replace function public.build_cr_approval_chain(p_cr_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cr     public.cash_requisitions;
+  v_rule   public.cr_approval_rules;
+  v_round  integer;
+  v_step   jsonb;
+  v_pos    integer := 0;
+  v_first  uuid;
+  v_who    uuid;
+  v_chosen uuid;
+begin
+  select * into v_cr from public.cash_requisitions where id = p_cr_id;
+  v_chosen := coalesce(v_cr.chosen_approver_id, v_cr.approver_id);
+
+  select * into v_rule from public.cr_approval_rules
+   where min_amount_usd <= public.cr_amount_usd(v_cr)
+   order by min_amount_usd desc
+   limit 1;
+  if not found then
+    v_rule.steps := '[{"label": "Approver", "approver_id": null}]';  -- no rules: the chosen approver alone
+  end if;
+
+  select coalesce(max(round), 0) + 1 into v_round from public.cr_approval_steps where cr_id = p_cr_id;
+
+  for v_step in select * from jsonb_array_elements(v_rule.steps) loop
+    v_who := coalesce(nullif(v_step ->> 'approver_id', '')::uuid, v_chosen);
+    continue when v_who is null;
+    v_pos := v_pos + 1;
+    insert into public.cr_approval_steps (cr_id, round, position, label, approver_id, status)
+    values (p_cr_id, v_round, v_pos, coalesce(v_step ->> 'label', 'Approver'), v_who,
+            case when v_pos = 1 then 'pending' else 'waiting' end);
+    if v_pos = 1 then v_first := v_who; end if;
+  end loop;
+
+  -- No step had an approver (none chosen and none on the rule): a manager
+  -- decides, so the requisition can't sit with nobody able to act on it
+  if v_pos = 0 then
+    select m into v_first from unnest(public.manager_user_ids()) m
+     where m is distinct from v_cr.requester_id
+     limit 1;
+    if v_first is null then
+      raise exception 'No approver is set for requisition %, and there is no manager to send it to', v_cr.cr_number;
+    end if;
+    insert into public.cr_approval_steps (cr_id, round, position, label, approver_id, status)
+    values (p_cr_id, v_round, 1, 'Manager', v_first, 'pending');
+  end if;
+
+  -- approver_id always names whoever the requisition is waiting on
+  update public.cash_requisitions
+     set chosen_approver_id = v_chosen,
+         approver_id        = coalesce(v_first, approver_id)
+   where id = p_cr_id
+     and (chosen_approver_id is distinct from v_chosen or approver_id is distinct from coalesce(v_first, approver_id));
+end;
+$$;
+
+create or replace function public.cash_requisitions_start_chain()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'Pending' and (tg_op = 'INSERT' or old.status = 'Returned') then
+    perform public.build_cr_approval_chain(new.id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists cash_requisitions_chain on public.cash_requisitions;
+create trigger cash_requisitions_chain
+  after insert or update of status on public.cash_requisitions
+  for each row execute function public.cash_requisitions_start_chain();
+
+-- ============================================================================
+-- Acting on a step
+-- ============================================================================
+
+-- Whether a user may act for an approver today: they are the approver, or
+-- hold an active delegation from them
+create or replace function public.can_act_for(p_approver_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_approver_id = p_user_id or exists (
+    select 1 from public.approval_delegations
+     where approver_id = p_approver_id and delegate_id = p_user_id
+       and current_date between starts_on and ends_on
+  );
+$$;
+
+-- Approve, decline or return the step a requisition is waiting on. Returns
+-- the requisition's status afterwards and who it now waits on, if anyone.
+create or replace function public.act_on_cr_step(p_cr_id uuid, p_action text, p_comment text default null)
+returns table (cr_status text, next_approver_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cr   public.cash_requisitions;
+  v_step public.cr_approval_steps;
+  v_next public.cr_approval_steps;
+begin
+  if p_action not in ('approve', 'decline', 'return') then
+    raise exception 'Unknown approval action %', p_action;
+  end if;
+  -- Lets this transaction through cash_requisitions_guard_decision
+  perform set_config('app.cr_step_action', 'on', true);
+
+  select * into v_cr from public.cash_requisitions where id = p_cr_id for update;
+  if not found or v_cr.status <> 'Pending' then
+    raise exception 'This requisition is not awaiting approval';
+  end if;
+  if v_cr.requester_id = auth.uid() then
+    raise exception 'You cannot approve a requisition you raised';
+  end if;
+  if p_action = 'return' and coalesce(trim(p_comment), '') = '' then
+    raise exception 'Say what needs to change before returning the requisition';
+  end if;
+
+  select * into v_step from public.cr_approval_steps
+   where cr_id = p_cr_id and status = 'pending'
+   order by round desc, position
+   limit 1;
+  if not found then
+    raise exception 'This requisition has no approval step waiting';
+  end if;
+  if not public.can_act_for(v_step.approver_id, auth.uid()) then
+    raise exception 'This step is waiting on another approver';
+  end if;
+
+  update public.cr_approval_steps
+     set status   = case p_action when 'approve' then 'approved' when 'decline' then 'declined' else 'returned' end,
+         acted_by = auth.uid(),
+         acted_at = now(),
+         comment  = nullif(trim(p_comment), '')
+   where id = v_step.id;
+
+  if p_action = 'approve' then
+    select * into v_next from public.cr_approval_steps
+     where cr_id = p_cr_id and round = v_step.round and position > v_step.position
+     order by position
+     limit 1;
+    if found then
+      update public.cr_approval_steps set status = 'pending' where id = v_next.id;
+      update public.cash_requisitions set approver_id = v_next.approver_id where id = p_cr_id;
+      return query select 'Pending'::text, v_next.approver_id;
+    else
+      update public.cash_requisitions set status = 'Approved', approved_at = now() where id = p_cr_id;
+      return query select 'Approved'::text, null::uuid;
+    end if;
+  elsif p_action = 'decline' then
+    update public.cash_requisitions set status = 'Declined' where id = p_cr_id;
+    return query select 'Declined'::text, null::uuid;
+  else
+    update public.cash_requisitions set status = 'Returned' where id = p_cr_id;
+    return query select 'Returned'::text, null::uuid;
+  end if;
+end;
+$$;
+
+grant execute on function public.act_on_cr_step(uuid, text, text) to authenticated;
+grant execute on function public.can_act_for(uuid, uuid) to authenticated;
+
+-- A requisition is Approved or Declined only through act_on_cr_step, so an
+-- update queued on a stale device can't skip the chain. The flag it sets is
+-- local to its transaction; clients can't set it through the API.
+create or replace function public.cash_requisitions_guard_decision()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status in ('Approved', 'Declined')
+     and (tg_op = 'INSERT' or new.status is distinct from old.status)
+     and coalesce(current_setting('app.cr_step_action', true), '') <> 'on' then
+    raise exception 'Requisitions are approved or declined through their approval chain';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cash_requisitions_guard_decision on public.cash_requisitions;
+create trigger cash_requisitions_guard_decision
+  before insert or update of status on public.cash_requisitions
+  for each row execute function public.cash_requisitions_guard_decision();
+
+-- Requisitions already raised keep the approver they were assigned; those
+-- still pending become a one-step chain
+update public.cash_requisitions
+   set chosen_approver_id = approver_id
+ where chosen_approver_id is null and approver_id is not null;
+
+insert into public.cr_approval_steps (cr_id, round, position, label, approver_id, status)
+select id, 1, 1, 'Approver', approver_id, 'pending'
+  from public.cash_requisitions
+ where status = 'Pending' and approver_id is not null and coalesce(soft_deleted, false) = false
+on conflict (cr_id, round, position) do nothing;
+
+-- RLS
+alter table public.cr_approval_rules enable row level security;
+alter table public.cr_approval_steps enable row level security;
+alter table public.approval_delegations enable row level security;
+
+create policy "Staff can read approval rules"
+  on public.cr_approval_rules for select
+  to authenticated
+  using (true);
+
+-- Accounts without a role keep manager access, as in the app (getStaffRole)
+create policy "Managers can change approval rules"
+  on public.cr_approval_rules for all
+  to authenticated
+  using (coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager'))
+  with check (coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager'));
+
+-- Steps change only through the chain functions above
+create policy "Staff can read approval steps"
+  on public.cr_approval_steps for select
+  to authenticated
+  using (true);
+
+create policy "Staff can read delegations"
+  on public.approval_delegations for select
+  to authenticated
+  using (true);
+
+create policy "Approvers can delegate their approvals"
+  on public.approval_delegations for insert
+  to authenticated
+  with check (
+    approver_id = auth.uid()
+    or coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager')
+  );
+
+create policy "Approvers can end their delegations"
+  on public.approval_delegations for delete
+  to authenticated
+  using (
+    approver_id = auth.uid()
+    or coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager')
+  );
+
+grant select, insert, update, delete on public.cr_approval_rules to authenticated;
+grant select on public.cr_approval_steps to authenticated;
+grant select, insert, delete on public.approval_delegations to authenticated;
+
+-- Live chain progress in the app
+alter publication supabase_realtime add table public.cr_approval_rules;
+alter publication supabase_realtime add table public.cr_approval_steps;
+alter publication supabase_realtime add table public.approval_delegations;
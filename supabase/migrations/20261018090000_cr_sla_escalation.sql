@@ -0,0 +1,227 @@
+-- ============================================================================
+-- Cash Requisition SLAs
+-- A requisition's urgency sets how long each approver has to decide it:
+-- Routine 24 hours, Urgent 8, Emergency 2. The clock (sla_due_date) starts
+-- when the requisition is raised or resubmitted, and restarts each time the
+-- chain moves on to the next approver.
+--
+-- Every 15 minutes a job looks for requisitions past their sla_due_date.
+-- The step they are waiting on is escalated once: the next approver in the
+-- chain (or managers, at the last step) may act on it too and is notified,
+-- and the approver it waits on gets a reminder.
+-- Run this in Supabase SQL Editor → New Query (after cr_approval_chains)
+-- ============================================================================
+
+alter table public.cash_requisitions
+  add column if not exists urgency      text not null default 'Routine',
+  add column if not exists sla_due_date timestamptz;
+
+alter table public.cr_approval_steps
+  add column if not exists escalated_to uuid[] not null default '{}',
+  add column if not exists escalated_at timestamptz;
+
+create index if not exists cash_requisitions_sla_idx
+  on public.cash_requisitions (sla_due_date) where status = 'Pending';
+
+-- Hours an approver has for a requisition of this urgency; keep in step with
+-- CR_SLA_HOURS in src/lib/crSla.ts
+create or replace function public.cr_sla_hours(p_urgency text)
+returns int
+language sql
+immutable
+as $$
+  select case p_urgency when 'Emergency' then 2 when 'Urgent' then 8 else 24 end;
+$$;
+
+-- ============================================================================
+-- Starting the clock
+-- ============================================================================
+
+create or replace function public.cash_requisitions_set_sla()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'Pending' and (
+    tg_op = 'INSERT'
+    or old.status is distinct from 'Pending'                -- resubmitted after a return
+    or new.approver_id is distinct from old.approver_id     -- the chain moved on
+    or new.urgency is distinct from old.urgency
+  ) then
+    new.sla_due_date := now() + make_interval(hours => public.cr_sla_hours(new.urgency));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cash_requisitions_sla on public.cash_requisitions;
+create trigger cash_requisitions_sla
+  before insert or update of status, approver_id, urgency on public.cash_requisitions
+  for each row execute function public.cash_requisitions_set_sla();
+
+-- Pending requisitions raised before SLAs were enforced get a clock from now
+update public.cash_requisitions
+   set sla_due_date = now() + make_interval(hours => public.cr_sla_hours(urgency))
+ where status = 'Pending' and sla_due_date is null;
+
+-- ============================================================================
+-- Acting on an escalated step
+-- As in cr_approval_chains, except whoever the step was escalated to may act
+-- ============================================================================
+
+create or replace function public.act_on_cr_step(p_cr_id uuid, p_action text, p_comment text default null)
+returns table (cr_status text, next_approver_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cr   public.cash_requisitions;
+  v_step public.cr_approval_steps;
+  v_next public.cr_approval_steps;
+begin
+  if p_action not in ('approve', 'decline', 'return') then
+    raise exception 'Unknown approval action %', p_action;
+  end if;
+  -- Lets this transaction through cash_requisitions_guard_decision
+  perform set_config('app.cr_step_action', 'on', true);
+
+  select * into v_cr from public.cash_requisitions where id = p_cr_id for update;
+  if not found or v_cr.status <> 'Pending' then
+    raise exception 'This requisition is not awaiting approval';
+  end if;
+  if v_cr.requester_id = auth.uid() then
+    raise exception 'You cannot approve a requisition you raised';
+  end if;
+  if p_action = 'return' and coalesce(trim(p_comment), '') = '' then
+    raise exception 'Say what needs to change before returning the requisition';
+  end if;
+
+  select * into v_step from public.cr_approval_steps
+   where cr_id = p_cr_id and status = 'pending'
+   order by round desc, position
+   limit 1;
+  if not found then
+    raise exception 'This requisition has no approval step waiting';
+  end if;
+  if not (public.can_act_for(v_step.approver_id, auth.uid()) or auth.uid() = any(v_step.escalated_to)) then
+    raise exception 'This step is waiting on another approver';
+  end if;
+
+  update public.cr_approval_steps
+     set status   = case p_action when 'approve' then 'approved' when 'decline' then 'declined' else 'returned' end,
+         acted_by = auth.uid(),
+         acted_at = now(),
+         comment  = nullif(trim(p_comment), '')
+   where id = v_step.id;
+
+  if p_action = 'approve' then
+    select * into v_next from public.cr_approval_steps
+     where cr_id = p_cr_id and round = v_step.round and position > v_step.position
+     order by position
+     limit 1;
+    if found then
+      update public.cr_approval_steps set status = 'pending' where id = v_next.id;
+      update public.cash_requisitions set approver_id = v_next.approver_id where id = p_cr_id;
+      return query select 'Pending'::text, v_next.approver_id;
+    else
+      update public.cash_requisitions set status = 'Approved', approved_at = now() where id = p_cr_id;
+      return query select 'Approved'::text, null::uuid;
+    end if;
+  elsif p_action = 'decline' then
+    update public.cash_requisitions set status = 'Declined' where id = p_cr_id;
+    return query select 'Declined'::text, null::uuid;
+  else
+    update public.cash_requisitions set status = 'Returned' where id = p_cr_id;
+    return query select 'Returned'::text, null::uuid;
+  end if;
+end;
+$$;
+
+-- ============================================================================
+-- Job: escalate requisitions past their SLA
+-- ============================================================================
+
+create or replace function public.escalate_overdue_requisitions()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_managers uuid[];
+  v_item     record;
+  v_to       uuid[];
+  v_next     uuid;
+  v_who      uuid;
+  v_sent     int := 0;
+  v_amount   text;
+begin
+  v_managers := public.manager_user_ids();
+
+  for v_item in
+    select cr.id as cr_id, cr.cr_number, cr.total_cost, cr.currency, cr.requester_id, cr.urgency,
+           s.id as step_id, s.round, s.position, s.label, s.approver_id,
+           coalesce(nullif(trim(p.full_name), ''), split_part(p.email, '@', 1), 'the approver') as approver_name
+      from public.cash_requisitions cr
+      join public.cr_approval_steps s on s.cr_id = cr.id and s.status = 'pending'
+      left join public.profiles p on p.id = s.approver_id
+     where cr.status = 'Pending'
+       and cr.sla_due_date < now()
+       and s.escalated_at is null
+       and coalesce(cr.soft_deleted, false) = false
+  loop
+    v_amount := coalesce(v_item.currency, 'USD') || ' ' || to_char(v_item.total_cost, 'FM999,999,999,990.##');
+
+    -- The next approver in the chain, or managers when this is the last step
+    select n.approver_id into v_next from public.cr_approval_steps n
+     where n.cr_id = v_item.cr_id and n.round = v_item.round and n.position > v_item.position
+     order by n.position
+     limit 1;
+    v_to := case when v_next is not null and v_next <> v_item.approver_id then array[v_next] else v_managers end;
+
+    -- Never the approver already holding it, nor the requester
+    select coalesce(array_agg(x), '{}') into v_to
+      from unnest(v_to) x
+     where x <> v_item.approver_id and x is distinct from v_item.requester_id;
+
+    -- Nobody to hand it to: leave it unescalated so the next run tries again
+    continue when cardinality(v_to) = 0;
+
+    update public.cr_approval_steps
+       set escalated_to = v_to, escalated_at = now()
+     where id = v_item.step_id;
+
+    foreach v_who in array v_to
+    loop
+      insert into public.notifications (user_id, type, title, message, priority, status, data)
+      values (
+        v_who, 'cr_assigned', 'Cash Requisition Escalated',
+        format('%s (%s, %s) is past its approval deadline with %s at %s. You can now act on it.',
+          v_item.cr_number, v_amount, v_item.urgency, v_item.approver_name, v_item.label),
+        'urgent', 'unread',
+        jsonb_build_object('cr_id', v_item.cr_id, 'cr_number', v_item.cr_number, 'screen', 'Finance', 'escalated', true)
+      );
+      v_sent := v_sent + 1;
+    end loop;
+
+    insert into public.notifications (user_id, type, title, message, priority, status, data)
+    values (
+      v_item.approver_id, 'cr_assigned', 'Approval Overdue',
+      format('%s (%s, %s) is past its approval deadline and has been escalated. Please review it.',
+        v_item.cr_number, v_amount, v_item.urgency),
+      'high', 'unread',
+      jsonb_build_object('cr_id', v_item.cr_id, 'cr_number', v_item.cr_number, 'screen', 'Finance')
+    );
+    v_sent := v_sent + 1;
+  end loop;
+
+  return v_sent;
+end;
+$$;
+
+create extension if not exists pg_cron;
+select cron.schedule('cr-sla-escalation', '*/15 * * * *', $$select public.escalate_overdue_requisitions()$$);
+
+revoke execute on function public.escalate_overdue_requisitions() from public, anon, authenticated;
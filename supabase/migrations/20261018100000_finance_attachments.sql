@@ -0,0 +1,97 @@
+-- ============================================================================
+-- Finance Attachments
+-- Receipts and supporting documents for cash requisitions and financial
+-- transactions, photographed or picked in the app and kept in a private
+-- storage bucket. A requisition can't be marked Completed until it has at
+-- least one receipt, so finance no longer chases paper.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+create table if not exists public.finance_attachments (
+  id              uuid default gen_random_uuid() primary key,
+  cr_id           uuid references public.cash_requisitions(id) on delete cascade,
+  transaction_id  uuid references public.financial_transactions(id) on delete cascade,
+  kind            text        not null default 'receipt' check (kind in ('receipt', 'invoice', 'other')),
+  -- Object in the finance-attachments bucket
+  file_path       text        not null,
+  file_name       text        not null,
+  mime_type       text,
+  size_bytes      bigint,
+  uploaded_by     uuid default auth.uid(),
+  created_at      timestamptz not null default now(),
+  check ((cr_id is null) <> (transaction_id is null))
+);
+
+create index if not exists finance_attachments_cr_idx on public.finance_attachments (cr_id) where cr_id is not null;
+create index if not exists finance_attachments_txn_idx on public.finance_attachments (transaction_id) where transaction_id is not null;
+
+-- ============================================================================
+-- No completion without a receipt
+-- ============================================================================
+
+create or replace function public.cash_requisitions_require_receipt()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'Completed' and old.status is distinct from 'Completed' and not exists (
+    select 1 from public.finance_attachments where cr_id = new.id and kind = 'receipt'
+  ) then
+    raise exception 'Receipt missing: attach a receipt to % before marking it Completed', new.cr_number;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cash_requisitions_receipt on public.cash_requisitions;
+create trigger cash_requisitions_receipt
+  before update of status on public.cash_requisitions
+  for each row execute function public.cash_requisitions_require_receipt();
+
+-- ============================================================================
+-- Storage: private bucket for the files
+-- ============================================================================
+
+insert into storage.buckets (id, name, public)
+values ('finance-attachments', 'finance-attachments', false)
+on conflict (id) do nothing;
+
+create policy "Staff can read finance attachments"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'finance-attachments');
+
+create policy "Staff can upload finance attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'finance-attachments');
+
+create policy "Staff can remove finance attachments"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'finance-attachments');
+
+-- RLS
+alter table public.finance_attachments enable row level security;
+
+-- Authenticated users (ops staff) can read and manage attachments
+create policy "Staff can read attachments"
+  on public.finance_attachments for select
+  to authenticated
+  using (true);
+
+create policy "Staff can add attachments"
+  on public.finance_attachments for insert
+  to authenticated
+  with check (true);
+
+create policy "Staff can remove attachments"
+  on public.finance_attachments for delete
+  to authenticated
+  using (true);
+
+grant select, insert, delete on public.finance_attachments to authenticated;
+
+-- Live receipts gallery in the app
+alter publication supabase_realtime add table public.finance_attachments;
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Finance Budgets
+-- Recurring monthly or quarterly spending limits per department, expense
+-- category, or both. A budget with no department covers every department
+-- (and expense transactions, which carry no department); one with no
+-- category covers every category. The app measures each budget against
+-- spent cash requisitions and expense transactions in the current period,
+-- converted to USD.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+create table if not exists public.finance_budgets (
+  id          uuid default gen_random_uuid() primary key,
+  department  text,
+  category    text,
+  period      text        not null default 'monthly' check (period in ('monthly', 'quarterly')),
+  amount      numeric     not null check (amount > 0),
+  currency    text        not null default 'USD' check (currency in ('USD', 'UGX', 'KES')),
+  created_by  uuid default auth.uid(),
+  updated_at  timestamptz not null default now()
+);
+
+-- One budget per department/category pair and period
+create unique index if not exists finance_budgets_scope_idx
+  on public.finance_budgets (coalesce(department, ''), coalesce(category, ''), period);
+
+-- RLS
+alter table public.finance_budgets enable row level security;
+
+create policy "Staff can read budgets"
+  on public.finance_budgets for select
+  to authenticated
+  using (true);
+
+-- Accounts without a role keep manager access, as in the app (getStaffRole)
+create policy "Managers can change budgets"
+  on public.finance_budgets for all
+  to authenticated
+  using (coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager'))
+  with check (coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'manager') in ('admin', 'manager'));
+
+grant select, insert, update, delete on public.finance_budgets to authenticated;
+
+-- Live budget changes in the app
+alter publication supabase_realtime add table public.finance_budgets;
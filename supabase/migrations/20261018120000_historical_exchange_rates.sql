@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Historical Exchange Rates
+-- Amounts are converted at the rate in force on their own date — the
+-- exchange_rates row with the latest effective_date on or before it —
+-- instead of whichever rate was entered last, so past revenue and spend
+-- stop moving every time a new rate is entered.
+-- Run this in Supabase SQL Editor → New Query
+-- ============================================================================
+
+-- Rates already entered take effect on the day they were entered
+alter table public.exchange_rates
+  add column if not exists effective_date date;
+
+update public.exchange_rates
+   set effective_date = coalesce(created_at, now())::date
+ where effective_date is null;
+
+alter table public.exchange_rates
+  alter column effective_date set default current_date,
+  alter column effective_date set not null;
+
+create index if not exists exchange_rates_effective_idx
+  on public.exchange_rates (from_currency, to_currency, effective_date desc, created_at desc);
+
+-- Units of p_currency per USD on p_day: the nearest prior rate, or the
+-- earliest one known for days before any rate was entered. Keep in step with
+-- ratesOn() in src/hooks/useExchangeRate.ts
+create or replace function public.usd_rate_on(p_currency text, p_day date)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select case when coalesce(p_currency, 'USD') = 'USD' then 1 else coalesce(
+    (select rate from public.exchange_rates
+      where from_currency = 'USD' and to_currency = p_currency and effective_date <= p_day
+      order by effective_date desc, created_at desc limit 1),
+    (select rate from public.exchange_rates
+      where from_currency = 'USD' and to_currency = p_currency
+      order by effective_date, created_at desc limit 1)
+  ) end;
+$$;
+
+grant execute on function public.usd_rate_on(text, date) to authenticated;
+
+-- As in cr_approval_chains, except a requisition without amount_usd is
+-- converted at the rate on the day it was raised
+create or replace function public.cr_amount_usd(p_cr public.cash_requisitions)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    p_cr.amount_usd,
+    p_cr.total_cost / nullif(public.usd_rate_on(p_cr.currency, coalesce(p_cr.created_at, now())::date), 0),
+    p_cr.total_cost
+  );
+$$;